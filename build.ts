@@ -4,7 +4,7 @@ console.log('🔨 Building Tower Defense Game...');
 
 try {
   await build({
-    entrypoints: ['./src/game/tower-defense-game.ts'],
+    entrypoints: ['./src/game/tower-defense-game.ts', './src/game/map-editor.ts'],
     outdir: './dist',
     target: 'browser',
     format: 'esm',
@@ -16,6 +16,7 @@ try {
   console.log('✅ Build completed successfully!');
   console.log('📁 Output directory: ./dist');
   console.log('🌐 Open index.html in your browser to play the game');
+  console.log('🗺️ Open editor.html to edit movement paths');
 } catch (error) {
   console.error('❌ Build failed:', error);
   process.exit(1);
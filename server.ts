@@ -1,11 +1,86 @@
 import { serve } from "bun";
+import {
+  JsonPathConfigRepository,
+  PATHS_SAVE_ENDPOINT,
+  type PathsFileData,
+} from "./src/infrastructure/repositories/json-path-config-repository";
+
+const PATHS_CONFIG_FILE = './config/paths.json';
+const LOCAL_HOSTNAMES = ['localhost', '127.0.0.1'];
+
+/**
+ * URL・ホスト名がローカルホストを指しているか
+ */
+function isLocalHost(host: string | null): boolean {
+  if (!host) {
+    return false;
+  }
+  try {
+    return LOCAL_HOSTNAMES.includes(new URL(host.includes('://') ? host : `http://${host}`).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * マップエディターから送信されたパス設定を検証して config/paths.json に保存する
+ * 他のサイトのページからファイルを書き換えられないよう、ローカルホストからのJSON送信だけを受け付ける
+ */
+async function savePathsConfig(req: Request): Promise<Response> {
+  const origin = req.headers.get('origin');
+  if (!isLocalHost(req.headers.get('host')) || (origin !== null && !isLocalHost(origin))) {
+    return new Response('ローカルホスト以外からは保存できません', { status: 403 });
+  }
+  const contentType = req.headers.get('content-type') ?? '';
+  if (contentType.split(';')[0]?.trim().toLowerCase() !== 'application/json') {
+    return new Response('Content-Type は application/json である必要があります', { status: 415 });
+  }
+
+  let data: PathsFileData;
+  try {
+    data = await req.json() as PathsFileData;
+  } catch {
+    return new Response('リクエストのJSONを読み込めません', { status: 400 });
+  }
+
+  let repository: JsonPathConfigRepository;
+  try {
+    // ゲームと同じ検証を通ったものだけを保存する
+    repository = new JsonPathConfigRepository(data);
+  } catch (error) {
+    return new Response(error instanceof Error ? error.message : String(error), { status: 400 });
+  }
+
+  // 受け取ったデータをそのまま書かず、設定ファイルの形式に整えたものを保存する
+  const fileData = await repository.exportFileData();
+  try {
+    await Bun.write(PATHS_CONFIG_FILE, `${JSON.stringify(fileData, null, 2)}\n`);
+  } catch (error) {
+    console.error('Error saving path configuration:', error);
+    return new Response(
+      `パス設定を保存できません: ${error instanceof Error ? error.message : String(error)}`,
+      { status: 500 }
+    );
+  }
+  console.log(`💾 Saved path configuration to ${PATHS_CONFIG_FILE}`);
+  return Response.json({ success: true });
+}
 
 const server = serve({
+  // 保存APIでファイルを書き換えられるため、ローカルホストからの接続だけを受け付ける
+  hostname: '127.0.0.1',
   port: 3000,
   async fetch(req) {
     const url = new URL(req.url);
     let filePath = url.pathname;
     
+    if (filePath === PATHS_SAVE_ENDPOINT) {
+      if (req.method !== 'POST') {
+        return new Response('Method not allowed', { status: 405 });
+      }
+      return savePathsConfig(req);
+    }
+
     // ルートパスの場合はindex.htmlを返す
     if (filePath === '/') {
       filePath = '/index.html';
@@ -29,4 +104,5 @@ const server = serve({
 
 console.log(`🚀 Tower Defense Game server running at http://localhost:${server.port}`);
 console.log('📁 Serving files from current directory');
-console.log('🎮 Open http://localhost:3000 in your browser to play!');
\ No newline at end of file
+console.log('🎮 Open http://localhost:3000 in your browser to play!');
+console.log('🗺️ Open http://localhost:3000/editor.html to edit movement paths');
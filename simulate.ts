@@ -0,0 +1,147 @@
+import { parseArgs } from "node:util";
+import {
+  RunSimulationUseCase,
+  type SimulationReport,
+  type StatSummary,
+} from "./src/application/use-cases/run-simulation-use-case";
+import { BotStrategies } from "./src/domain/services/bot-strategy";
+import {
+  BotPlayer,
+  ScriptedStrategy,
+  type SimulationStrategy,
+} from "./src/domain/services/simulation-strategy";
+import { Replay } from "./src/domain/value-objects/replay";
+import { JsonCardPoolRepository } from "./src/infrastructure/repositories/json-card-pool-repository";
+import { JsonEnemyConfigRepository } from "./src/infrastructure/repositories/json-enemy-config-repository";
+import { JsonPathConfigRepository } from "./src/infrastructure/repositories/json-path-config-repository";
+
+const USAGE = `使い方: bun run simulate.ts [オプション]
+
+  --matches <N>        試合数（既定: 10）
+  --strategy <name>    cheapest-card | path-coverage | save-for-rares | scripted（既定: cheapest-card）
+  --script <file>      scripted 戦略の台本にするリプレイファイル
+  --seed <S>           1試合目の乱数シード（以降の試合は1ずつ増やす）
+  --map <id>           マップID（既定: config/paths.json の既定マップ）
+  --duration <秒>      1試合の制限時間
+  --format <json|csv>  出力形式（既定: json）
+  --help               この使い方を表示`;
+
+/**
+ * 集計結果をCSV（カテゴリ,項目,合計,平均,最小,最大）に変換する
+ */
+function toCsv(report: SimulationReport): string {
+  const rows: string[] = ["category,key,total,mean,min,max"];
+  const push = (category: string, key: string, summary: StatSummary) => {
+    rows.push(
+      [category, key, summary.total, summary.mean.toFixed(2), summary.min, summary.max].join(",")
+    );
+  };
+
+  push("match", "survivalTime", report.survivalTime);
+  push("match", "baseDamageTaken", report.baseDamageTaken);
+  push("match", "wavesCleared", report.wavesCleared);
+  push("match", "manaSpent", report.manaSpent);
+  for (const [cardId, summary] of Object.entries(report.manaSpentByCard)) {
+    push("manaSpentByCard", cardId, summary);
+  }
+  for (const [towerType, summary] of Object.entries(report.killsByTowerType)) {
+    push("killsByTowerType", towerType, summary);
+  }
+  return rows.join("\n");
+}
+
+/**
+ * 戦略を作成する関数を選ぶ
+ */
+async function selectStrategy(
+  name: string,
+  scriptFile: string | undefined
+): Promise<() => SimulationStrategy> {
+  if (name === "scripted") {
+    if (!scriptFile) {
+      throw new Error("scripted 戦略には --script でリプレイファイルを指定してください");
+    }
+    const replay = Replay.parse(await Bun.file(scriptFile).text());
+    return () => new ScriptedStrategy(replay.commands);
+  }
+
+  // 名前が不正な場合はここでエラーにする
+  BotStrategies.create(name);
+  return () => new BotPlayer(BotStrategies.create(name));
+}
+
+/**
+ * 整数のオプションを読み取る
+ */
+function parseInteger(name: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const number = Number(value);
+  if (!Number.isInteger(number)) {
+    throw new Error(`--${name} には整数を指定してください: ${value}`);
+  }
+  return number;
+}
+
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    args: Bun.argv.slice(2),
+    options: {
+      matches: { type: "string", default: "10" },
+      strategy: { type: "string", default: "cheapest-card" },
+      script: { type: "string" },
+      seed: { type: "string" },
+      map: { type: "string" },
+      duration: { type: "string" },
+      format: { type: "string", default: "json" },
+      help: { type: "boolean", default: false },
+    },
+  });
+
+  if (values.help) {
+    console.log(USAGE);
+    return;
+  }
+  if (values.format !== "json" && values.format !== "csv") {
+    throw new Error(`未対応の出力形式です: ${values.format}`);
+  }
+
+  // 敵タイプ・マップ・カードの設定はゲームと同じ config/*.json から読み込む
+  const enemyConfigRepository = new JsonEnemyConfigRepository();
+  const pathConfigRepository = new JsonPathConfigRepository();
+  const gameMap = values.map
+    ? await pathConfigRepository.getMapById(values.map)
+    : await pathConfigRepository.getDefaultMap();
+  if (!gameMap) {
+    throw new Error(`未定義のマップです: ${values.map}`);
+  }
+
+  const createStrategy = await selectStrategy(values.strategy ?? "", values.script);
+  const useCase = new RunSimulationUseCase(new JsonCardPoolRepository(), enemyConfigRepository);
+
+  const result = await useCase.execute({
+    matches: parseInteger("matches", values.matches) ?? 10,
+    createStrategy,
+    gameMap,
+    seed: parseInteger("seed", values.seed),
+    gameDuration: parseInteger("duration", values.duration),
+  });
+
+  if (!result.success || !result.report) {
+    throw new Error(result.error);
+  }
+
+  console.log(
+    values.format === "csv" ? toCsv(result.report) : JSON.stringify(result.report, null, 2)
+  );
+}
+
+try {
+  await main();
+} catch (error) {
+  console.error(`❌ ${error instanceof Error ? error.message : error}`);
+  console.error(USAGE);
+  process.exit(1);
+}
@@ -1,6 +1,7 @@
 import type { Card } from "../../domain/entities/card.js";
 import type { GameSession } from "../../domain/entities/game-session.js";
 import type { ICardLibraryRepository } from "../../domain/repositories/card-library-repository.js";
+import { type BotStrategy, PathCoverageBotStrategy } from "../../domain/services/bot-strategy.js";
 import {
   CardPlayValidationService,
   type HandBalanceAnalysis,
@@ -51,10 +52,18 @@ export interface CardPlayValidationResult {
 export class PlayCardUseCase {
   private readonly cardLibraryRepository: ICardLibraryRepository;
   private readonly validationService: CardPlayValidationService;
+  private readonly hintStrategy: BotStrategy;
 
-  constructor(cardLibraryRepository: ICardLibraryRepository) {
+  /**
+   * @param hintStrategy プレイ推奨でカードと配置位置を選ぶボットの戦略
+   */
+  constructor(
+    cardLibraryRepository: ICardLibraryRepository,
+    hintStrategy: BotStrategy = new PathCoverageBotStrategy()
+  ) {
     this.cardLibraryRepository = cardLibraryRepository;
     this.validationService = new CardPlayValidationService();
+    this.hintStrategy = hintStrategy;
   }
 
   /**
@@ -142,6 +151,20 @@ export class PlayCardUseCase {
 
       const recommendations = this.validationService.getPlayRecommendations(gameSession.hand);
 
+      // ゲーム中はボットの戦略が今出すカードを、配置位置付きで最優先の推奨にする
+      if (gameSession.isActive) {
+        const moves = this.hintStrategy.decide(gameSession.getSnapshot());
+        moves.forEach((move, index) => {
+          const recommendation = recommendations.find((r) => r.card.id === move.cardId);
+          if (recommendation) {
+            recommendation.priority = 100 - index;
+            recommendation.reason = move.reason;
+            recommendation.position = move.position;
+          }
+        });
+        recommendations.sort((a, b) => b.priority - a.priority);
+      }
+
       return {
         success: true,
         recommendations,
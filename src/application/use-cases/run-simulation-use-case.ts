@@ -0,0 +1,299 @@
+import { CardLibrary } from "../../domain/entities/card-library.js";
+import type { CardPool } from "../../domain/entities/card-pool.js";
+import { GameSession } from "../../domain/entities/game-session.js";
+import type { ICardPoolRepository } from "../../domain/repositories/card-pool-repository.js";
+import type { IWaveConfigurationRepository } from "../../domain/repositories/wave-configuration-repository.js";
+import { PlayerCommandService } from "../../domain/services/player-command-service.js";
+import { RandomService } from "../../domain/services/random-service.js";
+import type { SimulationStrategy } from "../../domain/services/simulation-strategy.js";
+import type { GameMap } from "../../domain/value-objects/game-map.js";
+import type { ReplayCommand } from "../../domain/value-objects/replay.js";
+import type { TowerType } from "../../domain/value-objects/tower-type.js";
+import type { WaveConfiguration } from "../../domain/value-objects/wave-configuration.js";
+
+/**
+ * シミュレーションの設定
+ */
+export interface SimulationOptions {
+  matches: number; // 試合数
+  createStrategy: () => SimulationStrategy; // 試合ごとに戦略を作成する
+  gameMap?: GameMap; // 省略時は既定の単一レーン
+  seed?: number; // 1試合目の乱数シード（以降の試合は1ずつ増やす。省略時はランダム）
+  gameDuration?: number; // 1試合の制限時間（秒）
+}
+
+/**
+ * 1試合の結果
+ */
+export interface MatchStats {
+  seed: number;
+  result: "completed" | "defeated"; // 制限時間まで耐えた / 基地が破壊された
+  survivalTime: number; // 生存時間（ミリ秒）
+  baseDamageTaken: number;
+  wavesCleared: number;
+  cardsPlayed: number;
+  manaSpent: number;
+  manaSpentByCard: Record<string, number>; // カードID → 設置・強化・修理に使ったマナ
+  killsByTowerType: Record<string, number>; // タワータイプ → 倒した敵の数（継続ダメージでの撃破を含む）
+}
+
+/**
+ * 集計値
+ */
+export interface StatSummary {
+  total: number;
+  mean: number;
+  min: number;
+  max: number;
+}
+
+/**
+ * 全試合の集計結果
+ */
+export interface SimulationReport {
+  strategy: string;
+  map: string;
+  matchCount: number;
+  completedCount: number;
+  survivalTime: StatSummary;
+  baseDamageTaken: StatSummary;
+  wavesCleared: StatSummary;
+  manaSpent: StatSummary;
+  manaSpentByCard: Record<string, StatSummary>;
+  killsByTowerType: Record<string, StatSummary>;
+  matches: MatchStats[];
+}
+
+/**
+ * シミュレーションユースケースの結果
+ */
+export interface RunSimulationResult {
+  success: boolean;
+  report?: SimulationReport;
+  error?: string;
+}
+
+/**
+ * シミュレーションユースケース
+ * 画面・音声なしでゲームセッションを戦略に操作させて複数試合を実行し、バランス確認用の統計を集計する
+ */
+export class RunSimulationUseCase {
+  private readonly commandService = new PlayerCommandService();
+
+  constructor(
+    private readonly cardPoolRepository: ICardPoolRepository,
+    private readonly waveConfigurationRepository: IWaveConfigurationRepository
+  ) {}
+
+  /**
+   * シミュレーションを実行する
+   */
+  async execute(options: SimulationOptions): Promise<RunSimulationResult> {
+    if (!Number.isInteger(options.matches) || options.matches < 1) {
+      return { success: false, error: "試合数は1以上の整数である必要があります" };
+    }
+
+    let cardPool: CardPool;
+    try {
+      cardPool = await this.cardPoolRepository.load();
+    } catch (error) {
+      return { success: false, error: `カードプールの読み込みに失敗しました: ${error}` };
+    }
+
+    let waveConfiguration: WaveConfiguration;
+    try {
+      waveConfiguration = await this.waveConfigurationRepository.getWaveConfiguration();
+    } catch (error) {
+      return { success: false, error: `波設定の読み込みに失敗しました: ${error}` };
+    }
+
+    try {
+      const firstSeed = options.seed ?? RandomService.generateSeed();
+      const matches: MatchStats[] = [];
+      let strategyName = "";
+      for (let i = 0; i < options.matches; i++) {
+        const strategy = options.createStrategy();
+        strategyName = strategy.name;
+        matches.push(
+          this.runMatch(cardPool, waveConfiguration, strategy, (firstSeed + i) >>> 0, options)
+        );
+      }
+
+      return {
+        success: true,
+        report: RunSimulationUseCase.summarize(
+          strategyName,
+          options.gameMap?.id ?? "default",
+          matches
+        ),
+      };
+    } catch (error) {
+      return { success: false, error: `シミュレーションに失敗しました: ${error}` };
+    }
+  }
+
+  /**
+   * 1試合を最後まで実行する
+   * ゲームタイマーもゲーム内時計と同じ時刻で進めるため、実時間を待たずに制限時間まで進められる
+   */
+  private runMatch(
+    cardPool: CardPool,
+    waveConfiguration: WaveConfiguration,
+    strategy: SimulationStrategy,
+    seed: number,
+    options: SimulationOptions
+  ): MatchStats {
+    let now = 0;
+    const session = new GameSession(
+      `simulation-${seed}`,
+      cardPool,
+      new CardLibrary(),
+      options.gameDuration,
+      undefined,
+      { getCurrentTime: () => now },
+      new RandomService(seed)
+    );
+    session.setWaveConfiguration(waveConfiguration);
+    if (options.gameMap) {
+      session.selectMap(options.gameMap);
+    }
+    session.startGame();
+
+    const stats: MatchStats = {
+      seed,
+      result: "defeated",
+      survivalTime: 0,
+      baseDamageTaken: 0,
+      wavesCleared: 0,
+      cardsPlayed: 0,
+      manaSpent: 0,
+      manaSpentByCard: {},
+      killsByTowerType: {},
+    };
+    const towerTypes = new Map<string, TowerType>();
+    const lastHitTowerTypes = new Map<string, TowerType>(); // 敵ID → 最後に弾を命中させたタワーのタイプ
+    const step = session.clock.step;
+
+    while (session.state.isActive()) {
+      for (const command of strategy.decide(session, session.clock.stepCount)) {
+        this.executeCommand(session, command, stats);
+      }
+      // シミュレーションでは一時停止を続けない
+      if (session.state.isPaused()) {
+        session.resume();
+      }
+
+      now += step;
+      session.update(step);
+
+      // 倒れた敵を、最後に弾を命中させたタワーのタイプごとに数える
+      // 毒・燃焼などの継続ダメージで倒れた場合も、その状態異常を与えた最後の命中に帰属させる
+      for (const tower of session.getTowers()) {
+        towerTypes.set(tower.id, tower.type);
+      }
+      for (const impact of session.lastImpacts) {
+        const towerType = towerTypes.get(impact.projectile.sourceTowerId);
+        for (const hit of impact.hits) {
+          if (towerType) {
+            lastHitTowerTypes.set(hit.enemy.id, towerType);
+          }
+        }
+      }
+      for (const enemy of session.lastDefeatedEnemies) {
+        const towerType = lastHitTowerTypes.get(enemy.id);
+        lastHitTowerTypes.delete(enemy.id);
+        if (towerType) {
+          stats.killsByTowerType[towerType] = (stats.killsByTowerType[towerType] ?? 0) + 1;
+        }
+      }
+    }
+
+    const scheduler = session.waveScheduler;
+    stats.result = session.state.isCompleted() ? "completed" : "defeated";
+    stats.survivalTime = session.clock.getCurrentTime() - session.clock.startTime;
+    stats.baseDamageTaken = session.baseHealth.maxHealth - session.baseHealth.currentHealth.value;
+    stats.wavesCleared = Math.max(
+      0,
+      scheduler.currentWave?.isWaveComplete() ? scheduler.waveNumber : scheduler.waveNumber - 1
+    );
+    return stats;
+  }
+
+  /**
+   * 戦略が発行した操作を適用し、使ったマナをカードごとに記録する
+   */
+  private executeCommand(session: GameSession, command: ReplayCommand, stats: MatchStats): void {
+    const card =
+      command.type === "card-played"
+        ? session.hand.getCard(command.cardId)
+        : command.type === "tower-upgraded" || command.type === "tower-repaired"
+          ? session.getTowerCard(command.towerId)
+          : null;
+    const manaBefore = session.manaPool.getCurrentMana();
+
+    if (!this.commandService.execute(session, command)) {
+      return;
+    }
+
+    const spent = Math.max(0, manaBefore - session.manaPool.getCurrentMana());
+    stats.manaSpent += spent;
+    if (command.type === "card-played") {
+      stats.cardsPlayed++;
+    }
+    if (card) {
+      stats.manaSpentByCard[card.id] = (stats.manaSpentByCard[card.id] ?? 0) + spent;
+    }
+  }
+
+  /**
+   * 全試合の結果を集計する
+   */
+  static summarize(strategy: string, map: string, matches: MatchStats[]): SimulationReport {
+    const summarizeKeys = (records: Record<string, number>[]): Record<string, StatSummary> => {
+      const keys = [...new Set(records.flatMap((record) => Object.keys(record)))].sort();
+      return Object.fromEntries(
+        keys.map((key) => [
+          key,
+          RunSimulationUseCase.summarizeValues(records.map((record) => record[key] ?? 0)),
+        ])
+      );
+    };
+
+    return {
+      strategy,
+      map,
+      matchCount: matches.length,
+      completedCount: matches.filter((match) => match.result === "completed").length,
+      survivalTime: RunSimulationUseCase.summarizeValues(
+        matches.map((match) => match.survivalTime)
+      ),
+      baseDamageTaken: RunSimulationUseCase.summarizeValues(
+        matches.map((match) => match.baseDamageTaken)
+      ),
+      wavesCleared: RunSimulationUseCase.summarizeValues(
+        matches.map((match) => match.wavesCleared)
+      ),
+      manaSpent: RunSimulationUseCase.summarizeValues(matches.map((match) => match.manaSpent)),
+      manaSpentByCard: summarizeKeys(matches.map((match) => match.manaSpentByCard)),
+      killsByTowerType: summarizeKeys(matches.map((match) => match.killsByTowerType)),
+      matches,
+    };
+  }
+
+  /**
+   * 数値の合計・平均・最小・最大を求める
+   */
+  private static summarizeValues(values: number[]): StatSummary {
+    if (values.length === 0) {
+      return { total: 0, mean: 0, min: 0, max: 0 };
+    }
+
+    const total = values.reduce((sum, value) => sum + value, 0);
+    return {
+      total,
+      mean: total / values.length,
+      min: Math.min(...values),
+      max: Math.max(...values),
+    };
+  }
+}
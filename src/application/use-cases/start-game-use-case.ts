@@ -2,7 +2,11 @@ import type { CardLibrary } from "../../domain/entities/card-library.js";
 import { GameSession } from "../../domain/entities/game-session.js";
 import type { ICardLibraryRepository } from "../../domain/repositories/card-library-repository.js";
 import type { ICardPoolRepository } from "../../domain/repositories/card-pool-repository.js";
+import type { IWaveConfigurationRepository } from "../../domain/repositories/wave-configuration-repository.js";
 import { CardSelectionService } from "../../domain/services/card-selection-service.js";
+import { RandomService } from "../../domain/services/random-service.js";
+import type { GameMap } from "../../domain/value-objects/game-map.js";
+import type { WaveConfiguration } from "../../domain/value-objects/wave-configuration.js";
 
 /**
  * ゲーム開始ユースケースの結果
@@ -20,21 +24,27 @@ export interface StartGameResult {
 export class StartGameUseCase {
   private readonly cardPoolRepository: ICardPoolRepository;
   private readonly cardLibraryRepository: ICardLibraryRepository;
+  private readonly waveConfigurationRepository: IWaveConfigurationRepository;
   private readonly cardSelectionService: CardSelectionService;
 
   constructor(
     cardPoolRepository: ICardPoolRepository,
-    cardLibraryRepository: ICardLibraryRepository
+    cardLibraryRepository: ICardLibraryRepository,
+    waveConfigurationRepository: IWaveConfigurationRepository
   ) {
     this.cardPoolRepository = cardPoolRepository;
     this.cardLibraryRepository = cardLibraryRepository;
+    this.waveConfigurationRepository = waveConfigurationRepository;
     this.cardSelectionService = new CardSelectionService();
   }
 
   /**
    * ゲームを開始する
+   * @param sessionId セッションID
+   * @param gameMap 使用するマップ（省略時は既定の単一レーン）
+   * @param seed 乱数シード（省略時はランダムなシード）
    */
-  async execute(sessionId: string): Promise<StartGameResult> {
+  async execute(sessionId: string, gameMap?: GameMap, seed?: number): Promise<StartGameResult> {
     try {
       // 入力検証
       if (!sessionId || sessionId.trim() === "") {
@@ -66,10 +76,33 @@ export class StartGameUseCase {
         };
       }
 
+      // 波設定を読み込み
+      let waveConfiguration: WaveConfiguration;
+      try {
+        waveConfiguration = await this.waveConfigurationRepository.getWaveConfiguration();
+      } catch (error) {
+        return {
+          success: false,
+          error: `波設定の読み込みに失敗しました: ${error}`,
+        };
+      }
+
       // ゲームセッションを作成
       let gameSession;
       try {
-        gameSession = new GameSession(sessionId, cardPool, cardLibrary);
+        gameSession = new GameSession(
+          sessionId,
+          cardPool,
+          cardLibrary,
+          undefined,
+          undefined,
+          undefined,
+          new RandomService(seed)
+        );
+        gameSession.setWaveConfiguration(waveConfiguration);
+        if (gameMap) {
+          gameSession.selectMap(gameMap);
+        }
       } catch (error) {
         return {
           success: false,
@@ -0,0 +1,158 @@
+import type { BossAction, BossPhase } from "../value-objects/boss-phase";
+import type { Position } from "../value-objects/position";
+import type { Enemy } from "./enemy";
+
+/**
+ * ボス戦で起きた出来事
+ * - phase-changed: 体力が減って次のフェーズに入った
+ * - telegraph: 行動の予兆を出した（durationミリ秒後に発動する）
+ * - action: 行動が発動した（positionは予兆を出した位置）
+ */
+export type BossEvent =
+  | { type: "phase-changed"; boss: Enemy; phase: BossPhase }
+  | { type: "telegraph"; boss: Enemy; action: BossAction; position: Position; duration: number }
+  | { type: "action"; boss: Enemy; action: BossAction; position: Position };
+
+/**
+ * 予兆を出して発動を待っている行動
+ */
+interface PendingAction {
+  action: BossAction;
+  position: Position;
+  remaining: number;
+}
+
+/**
+ * フェーズを持つボス1体との戦いを表現するエンティティ
+ * ボスの体力の割合でフェーズを進め、フェーズごとの行動を予兆を出してから発動させる
+ * 行動の効果（加速・召喚・タワー停止・シールド）はBossActionServiceが適用する
+ */
+export class BossEncounter {
+  private readonly _phases: BossPhase[];
+  private _phaseIndex = 0;
+  private _actionTimers: (number | null)[] = []; // 行動ごとの次の予兆までの残り時間（nullは発動済み）
+  private _pendingActions: PendingAction[] = [];
+
+  constructor(public readonly boss: Enemy) {
+    this._phases = boss.type.getBossPhases();
+    if (this._phases.length === 0) {
+      throw new Error(`フェーズを持たない敵タイプです: ${boss.type.name}`);
+    }
+
+    this.startPhase(0);
+  }
+
+  /**
+   * 現在のフェーズ
+   */
+  get phase(): BossPhase {
+    return this._phases[this._phaseIndex] as BossPhase;
+  }
+
+  /**
+   * 現在のフェーズの番号（0始まり）
+   */
+  get phaseIndex(): number {
+    return this._phaseIndex;
+  }
+
+  /**
+   * フェーズの総数
+   */
+  get phaseCount(): number {
+    return this._phases.length;
+  }
+
+  /**
+   * 予兆を出して発動を待っている行動の数
+   */
+  get pendingActionCount(): number {
+    return this._pendingActions.length;
+  }
+
+  /**
+   * ボス戦が終わったかどうか（ボスが倒された、または基地に到達して消えた）
+   */
+  get isDefeated(): boolean {
+    return !this.boss.isAlive;
+  }
+
+  /**
+   * ボス戦を進める
+   * @param deltaTime 経過時間（ミリ秒）
+   * @returns このステップで起きた出来事（起きた順）
+   */
+  update(deltaTime: number): BossEvent[] {
+    if (this.isDefeated) {
+      this._pendingActions = [];
+      return [];
+    }
+
+    const events: BossEvent[] = [];
+
+    // 体力の割合が次のフェーズのしきい値を下回ったらフェーズを進める（一度に複数進むこともある）
+    const healthRatio = this.boss.currentHealth / this.boss.maxHealth;
+    let next = this._phases[this._phaseIndex + 1];
+    while (next && healthRatio <= next.healthThreshold) {
+      this.startPhase(this._phaseIndex + 1);
+      events.push({ type: "phase-changed", boss: this.boss, phase: next });
+      next = this._phases[this._phaseIndex + 1];
+    }
+
+    // 予兆の時間が過ぎた行動を発動する（フェーズが変わっても予兆を出した行動は発動する）
+    const stillPending: PendingAction[] = [];
+    for (const pending of this._pendingActions) {
+      pending.remaining -= deltaTime;
+      if (pending.remaining <= 0) {
+        events.push({
+          type: "action",
+          boss: this.boss,
+          action: pending.action,
+          position: pending.position,
+        });
+      } else {
+        stillPending.push(pending);
+      }
+    }
+    this._pendingActions = stillPending;
+
+    // 行動の間隔が来たら予兆を出す（予兆の時間が0の行動はすぐに発動する）
+    const actions = this.phase.actions;
+    this._actionTimers = this._actionTimers.map((timer, i) => {
+      const action = actions[i];
+      if (timer === null || !action) {
+        return null;
+      }
+
+      const remaining = timer - deltaTime;
+      if (remaining > 0) {
+        return remaining;
+      }
+
+      const position = this.boss.currentPosition;
+      if (action.telegraph > 0) {
+        this._pendingActions.push({ action, position, remaining: action.telegraph });
+        events.push({
+          type: "telegraph",
+          boss: this.boss,
+          action,
+          position,
+          duration: action.telegraph,
+        });
+      } else {
+        events.push({ type: "action", boss: this.boss, action, position });
+      }
+      return action.interval;
+    });
+
+    return events;
+  }
+
+  /**
+   * フェーズを開始し、行動の間隔をフェーズの開始時点から数え直す
+   */
+  private startPhase(index: number): void {
+    this._phaseIndex = index;
+    this._actionTimers = this.phase.actions.map((action) => action.delay);
+  }
+}
@@ -1,3 +1,4 @@
+import type { RandomSource } from "../services/random-service.js";
 import type { Card } from "./card.js";
 
 /**
@@ -16,9 +17,10 @@ export class CardPool {
   /**
    * プールからランダムにカードを選択
    * @param count 選択するカード数
+   * @param random 乱数生成関数
    * @returns 選択されたカードの配列（重複なし）
    */
-  selectRandomCards(count: number): Card[] {
+  selectRandomCards(count: number, random: RandomSource = Math.random): Card[] {
     if (count < 1) {
       throw new Error("選択するカード数は1以上である必要があります");
     }
@@ -31,7 +33,7 @@ export class CardPool {
     const availableIndices = Array.from({ length: allCards.length }, (_, i) => i);
 
     for (let i = 0; i < count; i++) {
-      const randomIndex = Math.floor(Math.random() * availableIndices.length);
+      const randomIndex = Math.floor(random() * availableIndices.length);
       const cardIndex = availableIndices[randomIndex];
       selectedCards.push(allCards[cardIndex]);
 
@@ -1,4 +1,5 @@
 import type { CardCost } from "../value-objects/card-cost.js";
+import { CardRarity } from "../value-objects/card-rarity.js";
 import { SpecialAbility } from "../value-objects/special-ability.js";
 import { TowerType } from "../value-objects/tower-type.js";
 
@@ -12,6 +13,20 @@ export interface CardDisplayInfo {
   towerType: string;
   specialAbility: string;
   specialAbilityDescription: string;
+  rarity: string;
+}
+
+/**
+ * カード固有のタワー性能補正
+ * 指定された項目のみタワータイプのデフォルト値を上書きする
+ */
+export interface CardTowerStats {
+  damage?: number;
+  range?: number;
+  attackSpeed?: number; // 攻撃間隔（ミリ秒）
+  critChance?: number; // 会心率（0〜1）
+  critMultiplier?: number; // 会心時のダメージ倍率
+  damageVariance?: number; // ダメージのばらつき（0〜1）
 }
 
 /**
@@ -24,6 +39,9 @@ export class Card {
   private readonly _cost: CardCost;
   private readonly _towerType: TowerType;
   private readonly _specialAbility: SpecialAbility;
+  private readonly _towerStats: CardTowerStats;
+  private readonly _rarity: CardRarity;
+  private readonly _tags: readonly string[];
 
   constructor(
     id: string,
@@ -31,7 +49,10 @@ export class Card {
     description: string,
     cost: CardCost,
     towerType: TowerType,
-    specialAbility: SpecialAbility
+    specialAbility: SpecialAbility,
+    towerStats: CardTowerStats = {},
+    rarity: CardRarity = CardRarity.COMMON,
+    tags: string[] = []
   ) {
     if (!id.trim()) {
       throw new Error("カードIDは空であってはいけません");
@@ -42,6 +63,36 @@ export class Card {
     if (!description.trim()) {
       throw new Error("カード説明は空であってはいけません");
     }
+    if (towerStats.damage !== undefined && towerStats.damage < 0) {
+      throw new Error("タワーの攻撃力は0以上である必要があります");
+    }
+    if (towerStats.range !== undefined && towerStats.range <= 0) {
+      throw new Error("タワーの射程は正の値である必要があります");
+    }
+    if (towerStats.attackSpeed !== undefined && towerStats.attackSpeed < 0) {
+      throw new Error("タワーの攻撃間隔は0以上である必要があります");
+    }
+    if (
+      towerStats.critChance !== undefined &&
+      !(towerStats.critChance >= 0 && towerStats.critChance <= 1)
+    ) {
+      throw new Error("タワーの会心率は0以上1以下である必要があります");
+    }
+    if (towerStats.critMultiplier !== undefined && !(towerStats.critMultiplier >= 1)) {
+      throw new Error("タワーの会心倍率は1以上である必要があります");
+    }
+    if (
+      towerStats.damageVariance !== undefined &&
+      !(towerStats.damageVariance >= 0 && towerStats.damageVariance <= 1)
+    ) {
+      throw new Error("タワーのダメージのばらつきは0以上1以下である必要があります");
+    }
+    if (!CardRarity.isValid(rarity)) {
+      throw new Error(`無効なレアリティです: ${rarity}`);
+    }
+    if (tags.some((tag) => !tag.trim())) {
+      throw new Error("カードタグは空であってはいけません");
+    }
 
     this._id = id;
     this._name = name;
@@ -49,6 +100,11 @@ export class Card {
     this._cost = cost;
     this._towerType = towerType;
     this._specialAbility = specialAbility;
+    this._towerStats = Object.fromEntries(
+      Object.entries(towerStats).filter(([, value]) => value !== undefined)
+    ) as CardTowerStats;
+    this._rarity = rarity;
+    this._tags = [...new Set(tags)];
   }
 
   get id(): string {
@@ -75,6 +131,31 @@ export class Card {
     return this._specialAbility;
   }
 
+  /**
+   * カード固有のタワー性能補正
+   */
+  get towerStats(): CardTowerStats {
+    return { ...this._towerStats };
+  }
+
+  get rarity(): CardRarity {
+    return this._rarity;
+  }
+
+  /**
+   * カードの分類タグ（重複は除去済み）
+   */
+  get tags(): string[] {
+    return [...this._tags];
+  }
+
+  /**
+   * 指定したタグを持つかどうか
+   */
+  hasTag(tag: string): boolean {
+    return this._tags.includes(tag);
+  }
+
   /**
    * カードの等価性を判定（IDベース）
    */
@@ -93,6 +174,7 @@ export class Card {
       towerType: TowerType.getDisplayName(this._towerType),
       specialAbility: SpecialAbility.getDisplayName(this._specialAbility),
       specialAbilityDescription: SpecialAbility.getDescription(this._specialAbility),
+      rarity: CardRarity.getDisplayName(this._rarity),
     };
   }
 }
@@ -0,0 +1,127 @@
+import type { RandomSource } from "../services/random-service.js";
+import type { Card } from "./card.js";
+
+/**
+ * デッキエンティティ
+ * 山札と捨て札を管理し、山札が尽きたら捨て札をシャッフルして山札に戻す
+ */
+export class Deck {
+  private _drawPile: Card[] = [];
+  private _discardPile: Card[] = [];
+  private _reshuffleCount = 0;
+
+  constructor(
+    cards: Card[] = [],
+    private readonly random: RandomSource = Math.random
+  ) {
+    this.reset(cards);
+  }
+
+  /**
+   * デッキを指定したカードで初期化してシャッフルする
+   */
+  reset(cards: Card[]): void {
+    this._drawPile = [...cards];
+    this._discardPile = [];
+    this._reshuffleCount = 0;
+    this.shuffle();
+  }
+
+  /**
+   * 山札をシャッフルする（Fisher-Yates）
+   */
+  shuffle(): void {
+    for (let i = this._drawPile.length - 1; i > 0; i--) {
+      const j = Math.floor(this.random() * (i + 1));
+      const temp = this._drawPile[i] as Card;
+      this._drawPile[i] = this._drawPile[j] as Card;
+      this._drawPile[j] = temp;
+    }
+  }
+
+  /**
+   * 山札から1枚引く
+   * 山札が空の場合は捨て札をシャッフルして山札に戻してから引く
+   * @returns 引いたカード（山札・捨て札ともに空の場合はnull）
+   */
+  draw(): Card | null {
+    if (this._drawPile.length === 0) {
+      this.reshuffleDiscardPile();
+    }
+
+    return this._drawPile.pop() ?? null;
+  }
+
+  /**
+   * 山札から指定枚数引く
+   * @param count 引く枚数
+   * @returns 引いたカードの配列（カードが尽きた場合は指定枚数未満）
+   */
+  drawMany(count: number): Card[] {
+    const cards: Card[] = [];
+    for (let i = 0; i < count; i++) {
+      const card = this.draw();
+      if (!card) {
+        break;
+      }
+      cards.push(card);
+    }
+    return cards;
+  }
+
+  /**
+   * カードを捨て札に置く
+   */
+  discard(card: Card): void {
+    this._discardPile.push(card);
+  }
+
+  /**
+   * 捨て札をシャッフルして山札に戻す
+   */
+  reshuffleDiscardPile(): void {
+    if (this._discardPile.length === 0) {
+      return;
+    }
+
+    this._drawPile.push(...this._discardPile);
+    this._discardPile = [];
+    this._reshuffleCount++;
+    this.shuffle();
+  }
+
+  /**
+   * 引けるカードがあるかどうか（捨て札を含む）
+   */
+  get canDraw(): boolean {
+    return this._drawPile.length > 0 || this._discardPile.length > 0;
+  }
+
+  /**
+   * 山札の枚数
+   */
+  get drawPileCount(): number {
+    return this._drawPile.length;
+  }
+
+  /**
+   * 捨て札の枚数
+   */
+  get discardPileCount(): number {
+    return this._discardPile.length;
+  }
+
+  /**
+   * 捨て札を山札に戻した回数
+   */
+  get reshuffleCount(): number {
+    return this._reshuffleCount;
+  }
+
+  /**
+   * 捨て札のカードを取得
+   */
+  getDiscardPile(): Card[] {
+    return [...this._discardPile];
+  }
+}
@@ -1,10 +1,13 @@
 import { Effect } from "../../infrastructure/effects/effect";
 import { ParticleEffect, ParticleConfig } from "../../infrastructure/effects/particle-effect";
 import { DamageNumberEffect, DamageNumberConfig } from "../../infrastructure/effects/damage-number-effect";
+import { TelegraphEffect } from "../../infrastructure/effects/telegraph-effect";
 import { Position } from "../value-objects/position";
 import { Color } from "../value-objects/color";
+import { DamageType } from "../value-objects/damage-type";
 import { RenderingService } from "../services/rendering-service";
 import { AnimationService } from "../services/animation-service";
+import type { RandomSource } from "../services/random-service";
 
 /**
  * エフェクト管理エンティティ
@@ -13,6 +16,7 @@ import { AnimationService } from "../services/animation-service";
 export class EffectManager {
   private readonly renderingService: RenderingService;
   private readonly animationService: AnimationService;
+  private readonly random: RandomSource;
   private readonly effects: Effect[] = [];
 
   // プリセット設定
@@ -68,6 +72,23 @@ export class EffectManager {
       spread: Math.PI / 2,
     } as ParticleConfig,
 
+    upgrade: {
+      particleCount: 24,
+      minVelocity: 30,
+      maxVelocity: 90,
+      minSize: 2,
+      maxSize: 5,
+      minLife: 0.6,
+      maxLife: 1.2,
+      colors: [
+        new Color(255, 215, 0),
+        new Color(255, 240, 150),
+        new Color(255, 255, 255),
+      ],
+      gravity: -120, // 上向きに舞い上がる
+      spread: Math.PI * 2,
+    } as ParticleConfig,
+
     normalDamage: {
       fontSize: 16,
       color: new Color(255, 255, 255),
@@ -99,9 +120,24 @@ export class EffectManager {
     } as DamageNumberConfig,
   };
 
-  constructor(renderingService: RenderingService, animationService: AnimationService) {
+  // ダメージの種類ごとのダメージ数値の色
+  private readonly damageTypeColors: Record<DamageType, Color> = {
+    [DamageType.PHYSICAL]: new Color(255, 255, 255),
+    [DamageType.MAGIC]: new Color(190, 140, 255),
+    [DamageType.FIRE]: new Color(255, 140, 40),
+    [DamageType.ICE]: new Color(130, 210, 255),
+    [DamageType.LIGHTNING]: new Color(255, 240, 80),
+    [DamageType.POISON]: new Color(140, 220, 80),
+  };
+
+  constructor(
+    renderingService: RenderingService,
+    animationService: AnimationService,
+    random: RandomSource = Math.random
+  ) {
     this.renderingService = renderingService;
     this.animationService = animationService;
+    this.random = random;
   }
 
   /**
@@ -123,7 +159,7 @@ export class EffectManager {
    */
   createExplosion(position: Position, customConfig?: Partial<ParticleConfig>): ParticleEffect {
     const config = { ...this.presetConfigs.explosion, ...customConfig };
-    const effect = new ParticleEffect(position, 2000, this.renderingService, config);
+    const effect = new ParticleEffect(position, 2000, this.renderingService, config, this.random);
     this.effects.push(effect);
     return effect;
   }
@@ -133,7 +169,7 @@ export class EffectManager {
    */
   createHitEffect(position: Position, customConfig?: Partial<ParticleConfig>): ParticleEffect {
     const config = { ...this.presetConfigs.hit, ...customConfig };
-    const effect = new ParticleEffect(position, 1000, this.renderingService, config);
+    const effect = new ParticleEffect(position, 1000, this.renderingService, config, this.random);
     this.effects.push(effect);
     return effect;
   }
@@ -143,7 +179,17 @@ export class EffectManager {
    */
   createMagicEffect(position: Position, customConfig?: Partial<ParticleConfig>): ParticleEffect {
     const config = { ...this.presetConfigs.magic, ...customConfig };
-    const effect = new ParticleEffect(position, 2500, this.renderingService, config);
+    const effect = new ParticleEffect(position, 2500, this.renderingService, config, this.random);
+    this.effects.push(effect);
+    return effect;
+  }
+
+  /**
+   * タワー強化エフェクトを作成
+   */
+  createUpgradeEffect(position: Position, customConfig?: Partial<ParticleConfig>): ParticleEffect {
+    const config = { ...this.presetConfigs.upgrade, ...customConfig };
+    const effect = new ParticleEffect(position, 1500, this.renderingService, config, this.random);
     this.effects.push(effect);
     return effect;
   }
@@ -171,6 +217,30 @@ export class EffectManager {
     return effect;
   }
 
+  /**
+   * ダメージの種類に応じた色のダメージ数値エフェクトを作成
+   * クリティカルは大きく「!」付き、装甲・耐性で軽減されたダメージは小さく「▼」付きで表示する
+   */
+  createTypedDamageNumber(
+    position: Position,
+    damage: number,
+    damageType: DamageType,
+    isCritical = false,
+    isResisted = false
+  ): DamageNumberEffect {
+    return this.createDamageNumber(position, damage, isCritical, {
+      color: this.damageTypeColors[damageType],
+      isResisted,
+    });
+  }
+
+  /**
+   * ダメージの種類ごとのダメージ数値の色を取得
+   */
+  getDamageTypeColor(damageType: DamageType): Color {
+    return this.damageTypeColors[damageType];
+  }
+
   /**
    * 回復数値エフェクトを作成
    */
@@ -192,6 +262,26 @@ export class EffectManager {
     return effect;
   }
 
+  /**
+   * ボスの行動の予兆エフェクトを作成
+   * @param duration 行動が発動するまでの時間（ミリ秒）
+   */
+  createTelegraph(
+    position: Position,
+    radius: number,
+    duration: number,
+    label?: string,
+    color: Color = new Color(255, 60, 60)
+  ): TelegraphEffect {
+    const effect = new TelegraphEffect(position, duration, this.renderingService, {
+      radius,
+      color,
+      label,
+    });
+    this.effects.push(effect);
+    return effect;
+  }
+
   /**
    * カスタムパーティクルエフェクトを作成
    */
@@ -200,7 +290,7 @@ export class EffectManager {
     duration: number,
     config: ParticleConfig
   ): ParticleEffect {
-    const effect = new ParticleEffect(position, duration, this.renderingService, config);
+    const effect = new ParticleEffect(position, duration, this.renderingService, config, this.random);
     this.effects.push(effect);
     return effect;
   }
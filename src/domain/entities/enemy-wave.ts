@@ -1,10 +1,15 @@
+import type { RandomSource } from "../services/random-service";
 import type { EnemyType } from "../value-objects/enemy-type";
+import type { GameMap } from "../value-objects/game-map";
 import type { MovementPath } from "../value-objects/movement-path";
+import type { ScheduledSpawn, ScriptedWave } from "../value-objects/scripted-wave";
 import type { WaveConfiguration } from "../value-objects/wave-configuration";
 import { Enemy } from "./enemy";
+import { SystemTimeProvider, type TimeProvider } from "./game-timer";
 
 /**
  * 一つの波に含まれる敵群を管理するエンティティ
+ * スクリプト波の場合は、波の開始からの経過時間に応じて敵グループの予定どおりに敵を生成する
  */
 export class EnemyWave {
   public readonly totalEnemyCount: number;
@@ -16,15 +21,25 @@ export class EnemyWave {
   private _isComplete = false;
   private _enemyTypes: EnemyType[];
   private _nextEnemyIndex = 0;
+  private _laneQuotas: Map<string, number> | null = null; // レーンID → 未出現の割り当て数
+  private readonly _startTime: Date;
+  private readonly _scriptedWave: ScriptedWave | null;
+  private readonly _schedule: ScheduledSpawn[];
+  private _scheduledLanes: (string | null)[] | null = null; // 出現予定の敵ごとのレーンID
 
   constructor(
     public readonly waveNumber: number,
-    public readonly waveConfiguration: WaveConfiguration
+    public readonly waveConfiguration: WaveConfiguration,
+    random: RandomSource = Math.random,
+    private readonly timeProvider: TimeProvider = new SystemTimeProvider()
   ) {
     this.totalEnemyCount = waveConfiguration.getEnemyCountForWave(waveNumber);
     this.spawnInterval = waveConfiguration.spawnInterval;
-    this._lastSpawnTime = new Date();
-    this._enemyTypes = waveConfiguration.getEnemyTypesForWave(waveNumber);
+    this._startTime = this.now();
+    this._lastSpawnTime = this.now();
+    this._enemyTypes = waveConfiguration.getEnemyTypesForWave(waveNumber, random);
+    this._scriptedWave = waveConfiguration.getScriptedWave(waveNumber);
+    this._schedule = this._scriptedWave?.getSpawnSchedule() ?? [];
   }
 
   // ゲッター
@@ -44,6 +59,17 @@ export class EnemyWave {
     return this._isComplete;
   }
 
+  get startTime(): Date {
+    return this._startTime;
+  }
+
+  /**
+   * スクリプト波（スクリプトが定義されていない波の場合はnull）
+   */
+  get scriptedWave(): ScriptedWave | null {
+    return this._scriptedWave;
+  }
+
   /**
    * 敵生成可能判定
    * @returns 敵を生成できる場合true
@@ -54,13 +80,22 @@ export class EnemyWave {
       return false;
     }
 
+    // スクリプト波は次の敵の出現予定時刻に達しているかチェック
+    if (this._scriptedWave) {
+      const next = this._schedule[this._spawnedCount];
+      return (
+        next !== undefined &&
+        this.timeProvider.getCurrentTime() - this._startTime.getTime() >= next.offset
+      );
+    }
+
     // 最初の敵は即座に生成可能
     if (this._spawnedCount === 0) {
       return true;
     }
 
     // 生成間隔が経過しているかチェック
-    const timeSinceLastSpawn = Date.now() - this._lastSpawnTime.getTime();
+    const timeSinceLastSpawn = this.timeProvider.getCurrentTime() - this._lastSpawnTime.getTime();
     return timeSinceLastSpawn >= this.spawnInterval;
   }
 
@@ -74,22 +109,119 @@ export class EnemyWave {
       return null;
     }
 
+    const enemy = this.createEnemy(movementPath);
+    this._lastSpawnTime = this.now();
+
+    return enemy;
+  }
+
+  /**
+   * マップのすべてのレーンから同時に次の敵を生成する
+   * 波の敵は最初の生成時にレーンの出現比重に応じて割り当てられ、
+   * 割り当てを使い切ったレーンからは以降出現しない
+   * @param gameMap マップ
+   * @returns 生成された敵の配列（生成できない場合は空）
+   */
+  spawnNextEnemies(gameMap: GameMap): Enemy[] {
+    if (!this.canSpawnEnemy()) {
+      return [];
+    }
+
+    if (this._scriptedWave) {
+      return this.spawnScheduledEnemies(gameMap);
+    }
+
+    if (!this._laneQuotas) {
+      this._laneQuotas = gameMap.distributeSpawns(this.totalEnemyCount);
+    }
+
+    const spawned: Enemy[] = [];
+    for (const lane of gameMap.lanes) {
+      const remaining = this._laneQuotas.get(lane.id) ?? 0;
+      if (remaining <= 0 || this._spawnedCount >= this.totalEnemyCount) {
+        continue;
+      }
+
+      spawned.push(this.createEnemy(lane.path));
+      this._laneQuotas.set(lane.id, remaining - 1);
+    }
+
+    if (spawned.length > 0) {
+      this._lastSpawnTime = this.now();
+    }
+
+    return spawned;
+  }
+
+  /**
+   * 出現予定時刻に達したスクリプト波の敵をすべて生成する
+   * レーン指定のない敵はレーンの出現比重に応じて振り分け、マップにないレーンを指定した敵は主レーンに出現させる
+   */
+  private spawnScheduledEnemies(gameMap: GameMap): Enemy[] {
+    if (!this._scheduledLanes) {
+      this._scheduledLanes = this.assignLanes(gameMap);
+    }
+
+    const spawned: Enemy[] = [];
+    while (this.canSpawnEnemy()) {
+      const laneId = this._scheduledLanes[this._spawnedCount] ?? null;
+      const lane = (laneId !== null ? gameMap.getLane(laneId) : null) ?? gameMap.primaryLane;
+      spawned.push(this.createEnemy(lane.path));
+    }
+
+    this._lastSpawnTime = this.now();
+    return spawned;
+  }
+
+  /**
+   * レーン指定のない出現予定の敵に、出現比重に応じて順番にレーンを割り当てる
+   */
+  private assignLanes(gameMap: GameMap): (string | null)[] {
+    const unassignedCount = this._schedule.filter((spawn) => spawn.laneId === null).length;
+    const quotas = gameMap.distributeSpawns(unassignedCount);
+
+    const rotation: string[] = [];
+    while (rotation.length < unassignedCount) {
+      for (const lane of gameMap.lanes) {
+        const remaining = quotas.get(lane.id) ?? 0;
+        if (remaining > 0) {
+          rotation.push(lane.id);
+          quotas.set(lane.id, remaining - 1);
+        }
+      }
+    }
+
+    let next = 0;
+    return this._schedule.map((spawn) => spawn.laneId ?? rotation[next++] ?? null);
+  }
+
+  /**
+   * 次の種類の敵を生成して波に追加する
+   */
+  private createEnemy(movementPath: MovementPath): Enemy {
     // 敵タイプを決定
     const enemyType = this._enemyTypes[this._nextEnemyIndex];
 
     // 敵を生成
     const enemyId = `wave-${this.waveNumber}-enemy-${this._spawnedCount + 1}`;
-    const enemy = new Enemy(enemyId, enemyType, movementPath, new Date());
+    const enemy = new Enemy(enemyId, enemyType, movementPath, this.now());
 
     // 波に追加
     this._enemies.push(enemy);
     this._spawnedCount++;
     this._nextEnemyIndex++;
-    this._lastSpawnTime = new Date();
 
     return enemy;
   }
 
+  /**
+   * 分裂体など、波の生成予定以外で出現した敵を波に加える
+   * 生成予定数には数えないが、倒されるか基地に到達するまで波は完了しない
+   */
+  addEnemies(enemies: Enemy[]): void {
+    this._enemies.push(...enemies);
+  }
+
   /**
    * 生存している敵をすべて取得する
    * @returns 生存している敵の配列
@@ -187,4 +319,11 @@ export class EnemyWave {
       isComplete: this.isWaveComplete(),
     };
   }
+
+  /**
+   * 時刻プロバイダーの現在時刻
+   */
+  private now(): Date {
+    return new Date(this.timeProvider.getCurrentTime());
+  }
 }
@@ -1,6 +1,17 @@
+import { EnemyAbilityType } from "../value-objects/enemy-ability";
 import type { EnemyType } from "../value-objects/enemy-type";
 import type { MovementPath } from "../value-objects/movement-path";
 import type { Position } from "../value-objects/position";
+import { StatusEffect, type StatusEffectType } from "../value-objects/status-effect";
+
+/**
+ * 敵に付与されている状態異常
+ */
+export interface ActiveStatusEffect {
+  effect: StatusEffect;
+  stacks: number;
+  remainingDuration: number;
+}
 
 /**
  * 個々の敵を表現するエンティティ
@@ -9,26 +20,52 @@ export class Enemy {
   public readonly maxHealth: number;
   public readonly attackPower: number;
   public readonly movementSpeed: number;
+  public readonly attackRange: number; // タワーを攻撃できる距離（0の場合はタワーを攻撃しない）
+  public readonly attackInterval: number; // タワーへの攻撃間隔（ミリ秒）
 
   private _currentHealth: number;
+  private _maxShield: number; // シールドの最大値（シールドを持たない場合は0）
+  private _shield: number;
+  private _shieldRegenDelay = 0; // シールドの再生を始めるまでの残り時間（ミリ秒）
+  private _healCooldown = 0; // 次に味方を回復するまでの残り時間（ミリ秒）
+  private _speedBurst: { multiplier: number; remaining: number } | null = null; // ボスの突進
   private _currentPosition: Position;
+  private _previousPosition: Position; // 直前の更新前の位置（描画の補間用）
   private _pathProgress: number;
   private _isAlive: boolean;
+  private _age = 0; // 出現してから経過したゲーム内時間（ミリ秒）
+  private _isAttackingTower = false;
+  private _towerAttackCooldown = 0; // 次にタワーを攻撃できるまでの残り時間（ミリ秒）
+  private readonly _statusEffects: Map<
+    StatusEffectType,
+    ActiveStatusEffect & { tickElapsed: number }
+  > = new Map();
 
   constructor(
     public readonly id: string,
     public readonly type: EnemyType,
     public readonly movementPath: MovementPath,
-    public readonly spawnTime: Date
+    public readonly spawnTime: Date,
+    startProgress = 0 // 経路の途中から出現させる場合の進行度（分裂体など）
   ) {
     const stats = type.getBaseStats();
     this.maxHealth = stats.health;
     this.attackPower = stats.attackPower;
     this.movementSpeed = stats.movementSpeed;
+    this.attackRange = stats.attackRange;
+    this.attackInterval = stats.attackInterval;
+
+    this._maxShield = type.getAbility(EnemyAbilityType.SHIELD)?.amount ?? 0;
 
     this._currentHealth = this.maxHealth;
-    this._currentPosition = movementPath.spawnPoint;
-    this._pathProgress = 0;
+    this._shield = this._maxShield;
+    this._healCooldown = type.getAbility(EnemyAbilityType.HEAL)?.interval ?? 0;
+    this._pathProgress = Math.min(1, Math.max(0, startProgress));
+    this._currentPosition =
+      this._pathProgress > 0
+        ? movementPath.getPositionAtProgress(this._pathProgress)
+        : movementPath.spawnPoint;
+    this._previousPosition = this._currentPosition;
     this._isAlive = true;
   }
 
@@ -45,24 +82,282 @@ export class Enemy {
     return this._pathProgress;
   }
 
+  /**
+   * 直前の更新と現在の位置を補間した描画用の位置
+   * @param alpha 直前の更新から次の更新までの進み具合（0〜1）
+   */
+  getInterpolatedPosition(alpha: number): Position {
+    return this._previousPosition.interpolate(this._currentPosition, alpha);
+  }
+
   get isAlive(): boolean {
     return this._isAlive;
   }
 
+  /**
+   * シールドの最大値（シールドを持たない場合は0）
+   */
+  get maxShield(): number {
+    return this._maxShield;
+  }
+
+  /**
+   * 残っているシールド
+   */
+  get shield(): number {
+    return this._shield;
+  }
+
+  /**
+   * 空を飛んでいるかどうか（地上専用のタワーから狙われない）
+   */
+  get isFlying(): boolean {
+    return this.type.hasAbility(EnemyAbilityType.FLYING);
+  }
+
+  /**
+   * 隠密状態かどうか（隠密を見破れるタワーからしか狙われない）
+   */
+  get isStealthed(): boolean {
+    return this.type.hasAbility(EnemyAbilityType.STEALTH);
+  }
+
+  /**
+   * 突進で加速しているかどうか
+   */
+  get isSpeedBursting(): boolean {
+    return this._speedBurst !== null;
+  }
+
+  /**
+   * 状態異常と突進を考慮した現在の移動速度
+   */
+  get currentMovementSpeed(): number {
+    if (this.isImmobilized) {
+      return 0;
+    }
+
+    let multiplier = this._speedBurst?.multiplier ?? 1;
+    for (const active of this._statusEffects.values()) {
+      multiplier *= active.effect.speedMultiplier ** active.stacks;
+    }
+    return this.movementSpeed * multiplier;
+  }
+
+  /**
+   * 凍結・スタンにより行動不能かどうか
+   */
+  get isImmobilized(): boolean {
+    for (const active of this._statusEffects.values()) {
+      if (active.effect.isCrowdControl()) {
+        return true;
+      }
+    }
+    return false;
+  }
+
   /**
    * ダメージを受ける
+   * シールドがある場合は体力より先にシールドで吸収し、シールドの再生を遅らせる
    * @param damage ダメージ量
+   * @returns 状態異常による倍率を適用した実ダメージ（シールドが吸収した分を含む）
    */
-  takeDamage(damage: number): void {
+  takeDamage(damage: number): number {
     if (damage <= 0 || !this._isAlive) {
-      return;
+      return 0;
     }
 
-    this._currentHealth = Math.max(0, this._currentHealth - damage);
+    let actualDamage = Math.round(damage * this.getDamageTakenMultiplier());
+    const absorbed = Math.min(Math.floor(this._shield), actualDamage);
+    this._shield -= absorbed;
+    const shield = this.type.getAbility(EnemyAbilityType.SHIELD);
+    if (shield) {
+      this._shieldRegenDelay = shield.regenDelay;
+    }
+    actualDamage -= absorbed;
+
+    const previousHealth = this._currentHealth;
+    this._currentHealth = Math.max(0, this._currentHealth - actualDamage);
 
     if (this._currentHealth === 0) {
       this._isAlive = false;
+      this._shield = 0;
+      this._statusEffects.clear();
+    }
+
+    return absorbed + previousHealth - this._currentHealth;
+  }
+
+  /**
+   * 体力を回復する（最大体力を超えない）
+   * @returns 実際に回復した量
+   */
+  heal(amount: number): number {
+    if (amount <= 0 || !this._isAlive) {
+      return 0;
+    }
+
+    const previousHealth = this._currentHealth;
+    this._currentHealth = Math.min(this.maxHealth, this._currentHealth + amount);
+    return this._currentHealth - previousHealth;
+  }
+
+  /**
+   * シールドを張る（残っているシールドに加算され、能力によるシールドと違い再生しない）
+   * @param amount シールド量
+   */
+  grantShield(amount: number): void {
+    if (amount <= 0 || !this._isAlive) {
+      return;
+    }
+
+    this._shield += amount;
+    this._maxShield = Math.max(this._maxShield, this._shield);
+  }
+
+  /**
+   * 一定時間、移動速度を上げる（加速中に再び使うと倍率と時間を上書きする）
+   * @param multiplier 移動速度の倍率
+   * @param duration 加速する時間（ミリ秒）
+   */
+  applySpeedBurst(multiplier: number, duration: number): void {
+    if (multiplier <= 0 || duration <= 0 || !this._isAlive) {
+      return;
+    }
+
+    this._speedBurst = { multiplier, remaining: duration };
+  }
+
+  /**
+   * 味方を回復する間隔を進める
+   * @param deltaTime 経過時間（ミリ秒）
+   * @returns 回復するタイミングになった場合true（回復能力を持たない場合は常にfalse）
+   */
+  updateHealCooldown(deltaTime: number): boolean {
+    const heal = this.type.getAbility(EnemyAbilityType.HEAL);
+    if (!heal || !this._isAlive) {
+      return false;
+    }
+
+    this._healCooldown -= deltaTime;
+    if (this._healCooldown > 0) {
+      return false;
+    }
+
+    this._healCooldown = heal.interval;
+    return true;
+  }
+
+  /**
+   * シールドの再生処理（最後にダメージを受けてから再生待ち時間が経過するまでは再生しない）
+   * @param deltaTime 経過時間（ミリ秒）
+   */
+  private updateShield(deltaTime: number): void {
+    const shield = this.type.getAbility(EnemyAbilityType.SHIELD);
+    if (!shield || this._shield >= shield.amount) {
+      return;
+    }
+
+    if (this._shieldRegenDelay > 0) {
+      this._shieldRegenDelay = Math.max(0, this._shieldRegenDelay - deltaTime);
+      return;
+    }
+
+    this._shield = Math.min(shield.amount, this._shield + shield.regenRate * (deltaTime / 1000));
+  }
+
+  /**
+   * 状態異常を付与する
+   * 同種の状態異常は最大スタック数まで重なり、持続時間は長い方に更新される
+   * @param effect 付与する状態異常
+   */
+  applyStatusEffect(effect: StatusEffect): void {
+    if (!this._isAlive) {
+      return;
+    }
+
+    const existing = this._statusEffects.get(effect.type);
+    if (existing) {
+      existing.effect = effect;
+      existing.stacks = Math.min(existing.stacks + 1, effect.maxStacks);
+      existing.remainingDuration = Math.max(existing.remainingDuration, effect.duration);
+      return;
     }
+
+    this._statusEffects.set(effect.type, {
+      effect,
+      stacks: 1,
+      remainingDuration: effect.duration,
+      tickElapsed: 0,
+    });
+  }
+
+  /**
+   * 指定した状態異常が付与されているか判定
+   */
+  hasStatusEffect(type: StatusEffectType): boolean {
+    return this._statusEffects.has(type);
+  }
+
+  /**
+   * 付与されている状態異常を取得
+   */
+  getStatusEffects(): ActiveStatusEffect[] {
+    return Array.from(this._statusEffects.values()).map(({ effect, stacks, remainingDuration }) => ({
+      effect,
+      stacks,
+      remainingDuration,
+    }));
+  }
+
+  /**
+   * 状態異常をすべて解除する
+   */
+  clearStatusEffects(): void {
+    this._statusEffects.clear();
+  }
+
+  /**
+   * 状態異常の経過処理（継続ダメージ・持続時間の減少）
+   * @param deltaTime 経過時間（ミリ秒）
+   * @returns 継続ダメージの合計
+   */
+  updateStatusEffects(deltaTime: number): number {
+    if (!this._isAlive || deltaTime <= 0) {
+      return 0;
+    }
+
+    let totalDamage = 0;
+
+    for (const [type, active] of this._statusEffects) {
+      const elapsed = Math.min(deltaTime, active.remainingDuration);
+
+      if (active.effect.isDamageOverTime()) {
+        active.tickElapsed += elapsed;
+        while (active.tickElapsed >= StatusEffect.TICK_INTERVAL && this._isAlive) {
+          active.tickElapsed -= StatusEffect.TICK_INTERVAL;
+          totalDamage += this.takeDamage(active.effect.tickDamage * active.stacks);
+        }
+      }
+
+      active.remainingDuration -= elapsed;
+      if (active.remainingDuration <= 0) {
+        this._statusEffects.delete(type);
+      }
+    }
+
+    return totalDamage;
+  }
+
+  /**
+   * 状態異常による被ダメージ倍率
+   */
+  private getDamageTakenMultiplier(): number {
+    let multiplier = 1;
+    for (const active of this._statusEffects.values()) {
+      multiplier *= active.effect.damageTakenMultiplier ** active.stacks;
+    }
+    return multiplier;
   }
 
   /**
@@ -74,15 +369,16 @@ export class Enemy {
       return;
     }
 
+    const speed = this.currentMovementSpeed;
+    if (speed <= 0) {
+      return;
+    }
+
     // 新しい位置を計算
-    const newPosition = this.movementPath.getNextPosition(
-      this._pathProgress,
-      this.movementSpeed,
-      deltaTime
-    );
+    const newPosition = this.movementPath.getNextPosition(this._pathProgress, speed, deltaTime);
 
     // 新しい進行度を計算
-    const moveDistance = this.movementSpeed * (deltaTime / 1000);
+    const moveDistance = speed * (deltaTime / 1000);
     const currentDistance = this.movementPath.totalLength * this._pathProgress;
     const newDistance = currentDistance + moveDistance;
     const newProgress = Math.min(1, this.movementPath.getProgressFromDistance(newDistance));
@@ -99,6 +395,48 @@ export class Enemy {
     return this.attackPower;
   }
 
+  /**
+   * 射程内のタワーを攻撃できるかどうか
+   */
+  get canAttackTowers(): boolean {
+    return this.attackRange > 0;
+  }
+
+  /**
+   * タワーを攻撃するために立ち止まっているかどうか
+   */
+  get isAttackingTower(): boolean {
+    return this._isAttackingTower;
+  }
+
+  /**
+   * 射程内のタワーへの攻撃を続ける
+   * 攻撃している間は移動せず、攻撃間隔ごとに攻撃力分のダメージを与える
+   * @param deltaTime 経過時間（ミリ秒）
+   * @returns このステップでタワーに与えるダメージ（攻撃間隔を待っている場合は0）
+   */
+  attackTower(deltaTime: number): number {
+    if (!this._isAlive || !this.canAttackTowers) {
+      return 0;
+    }
+
+    this._isAttackingTower = true;
+    this._towerAttackCooldown -= deltaTime;
+    if (this._towerAttackCooldown > 0) {
+      return 0;
+    }
+
+    this._towerAttackCooldown = this.attackInterval;
+    return this.attackPower;
+  }
+
+  /**
+   * タワーへの攻撃をやめて移動を再開する
+   */
+  stopAttackingTower(): void {
+    this._isAttackingTower = false;
+  }
+
   /**
    * 基地到達判定
    * @returns 基地に到達している場合true
@@ -121,14 +459,17 @@ export class Enemy {
   destroy(): void {
     this._isAlive = false;
     this._currentHealth = 0;
+    this._shield = 0;
+    this._statusEffects.clear();
   }
 
   /**
    * 敵の年齢（生存時間）を取得する
+   * 実時間ではなく update で進めたゲーム内時間のため、一時停止中や倍速時もゲームの進行に一致する
    * @returns 生存時間（ミリ秒）
    */
   getAge(): number {
-    return Date.now() - this.spawnTime.getTime();
+    return this._age;
   }
 
   /**
@@ -140,14 +481,29 @@ export class Enemy {
       return;
     }
 
-    const oldPosition = this._currentPosition;
-    
-    // 移動処理
-    this.move(deltaTime);
+    this._age += deltaTime;
+    this._previousPosition = this._currentPosition;
+
+    // 状態異常の経過処理
+    this.updateStatusEffects(deltaTime);
+    if (!this._isAlive) {
+      return;
+    }
+
+    // シールドの再生
+    this.updateShield(deltaTime);
+
+    // 突進の残り時間
+    if (this._speedBurst) {
+      this._speedBurst.remaining -= deltaTime;
+      if (this._speedBurst.remaining <= 0) {
+        this._speedBurst = null;
+      }
+    }
     
-    // デバッグログ（最初の数回のみ）
-    if (this.getAge() < 5000) { // 5秒間のみログ出力
-      console.log(`Enemy ${this.id} moved from (${oldPosition.x}, ${oldPosition.y}) to (${this._currentPosition.x}, ${this._currentPosition.y}), progress: ${this._pathProgress}`);
+    // 移動処理（タワーを攻撃している間は立ち止まる）
+    if (!this._isAttackingTower) {
+      this.move(deltaTime);
     }
   }
 
@@ -0,0 +1,92 @@
+import type { TimeProvider } from "./game-timer.js";
+
+/**
+ * ゲーム内時計エンティティ
+ * シミュレーションを固定時間刻み（ステップ）で進める。フレームの経過時間は蓄積し、ステップ単位でまとめて消化する
+ * 波・敵の生成・攻撃間隔・マナ回復はこの時計の時刻で判定するため、フレームの長さや一時停止に左右されない
+ */
+export class GameClock implements TimeProvider {
+  static readonly DEFAULT_STEP = 10; // 10ms（100Hz）
+
+  private _currentTime: number;
+  private _accumulator = 0;
+  private _stepCount = 0;
+
+  /**
+   * @param startTime ゲーム内時刻の開始値（ミリ秒）
+   * @param step 1ステップの時間（ミリ秒）
+   */
+  constructor(
+    public readonly startTime = 0,
+    public readonly step: number = GameClock.DEFAULT_STEP
+  ) {
+    if (!(step > 0)) {
+      throw new Error("ステップ時間は正の値である必要があります");
+    }
+
+    this._currentTime = startTime;
+  }
+
+  /**
+   * 現在のゲーム内時刻（ミリ秒）
+   */
+  getCurrentTime(): number {
+    return this._currentTime;
+  }
+
+  /**
+   * これまでに進めたステップ数
+   */
+  get stepCount(): number {
+    return this._stepCount;
+  }
+
+  /**
+   * 消化されていない経過時間（ミリ秒）
+   */
+  get pendingTime(): number {
+    return this._accumulator;
+  }
+
+  /**
+   * 直前のステップから次のステップまでの進み具合（0以上1未満）
+   * 描画時に前回と今回のステップの状態を補間するために使う
+   */
+  get alpha(): number {
+    return this._accumulator / this.step;
+  }
+
+  /**
+   * フレームの経過時間を蓄積する
+   * @param deltaTime 経過時間（ミリ秒）
+   */
+  accumulate(deltaTime: number): void {
+    if (deltaTime < 0) {
+      throw new Error("経過時間は0以上である必要があります");
+    }
+
+    this._accumulator += deltaTime;
+  }
+
+  /**
+   * 蓄積した時間から1ステップ分を消化してゲーム内時刻を進める
+   * @returns 1ステップ分の時間が蓄積されていて進めた場合true
+   */
+  consumeStep(): boolean {
+    if (this._accumulator < this.step) {
+      return false;
+    }
+
+    this._accumulator -= this.step;
+    this._currentTime += this.step;
+    this._stepCount++;
+    return true;
+  }
+
+  /**
+   * 蓄積した時間を破棄する（一時停止の解除時など）
+   */
+  discardPendingTime(): void {
+    this._accumulator = 0;
+  }
+}
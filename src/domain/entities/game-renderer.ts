@@ -1,7 +1,14 @@
 import { Rectangle } from "../value-objects/rectangle";
 import type { Enemy } from "./enemy";
+import { EnemyAbilityType } from "../value-objects/enemy-ability";
 import type { Position } from "../value-objects/position";
 import type { Tower } from "./tower";
+import type { Projectile } from "./projectile";
+import { ProjectileType } from "../value-objects/projectile-type";
+import { SpecialAbility } from "../value-objects/special-ability";
+import type { TowerBuff } from "../value-objects/tower-buff";
+import { AuraService, type TowerAura } from "../services/aura-service";
+import type { StatusEffectType } from "../value-objects/status-effect";
 
 /**
  * レンダリングレイヤーインターフェース
@@ -38,6 +45,7 @@ export class GameRenderer {
   private _frameCount = 0;
   private _frameTimes: number[] = [];
   private readonly _maxFrameHistory = 60; // 1秒分のフレーム履歴
+  private readonly _auraService = new AuraService();
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas;
@@ -233,8 +241,9 @@ export class GameRenderer {
 
   /**
    * 敵を描画
+   * @param alpha 直前のステップから次のステップまでの進み具合（位置の補間に使う）
    */
-  renderEnemies(enemies: Enemy[]): void {
+  renderEnemies(enemies: Enemy[], alpha = 1): void {
     this.context.save();
     
     console.log(`Rendering ${enemies.length} enemies`); // デバッグログ
@@ -245,7 +254,7 @@ export class GameRenderer {
         continue;
       }
 
-      const position = enemy.currentPosition;
+      const position = enemy.getInterpolatedPosition(alpha);
       const size = this.getEnemySizeByType(enemy.type);
       const color = this.getEnemyColorByType(enemy.type);
 
@@ -257,7 +266,13 @@ export class GameRenderer {
         console.log(`Enemy ${enemy.id} is outside screen bounds`);
       }
 
-      // 敵の本体を描画
+      // 飛行する敵は地面に影を落とす
+      if (enemy.isFlying) {
+        this.renderFlyingShadow(position, size);
+      }
+
+      // 敵の本体を描画（隠密状態の敵は半透明にして破線で縁取る）
+      this.context.globalAlpha = enemy.isStealthed ? 0.35 : 1.0;
       this.context.fillStyle = color;
       this.context.fillRect(
         position.x - size / 2,
@@ -269,15 +284,26 @@ export class GameRenderer {
       // 敵の枠線を描画
       this.context.strokeStyle = '#000000';
       this.context.lineWidth = 2;
+      if (enemy.isStealthed) {
+        this.context.setLineDash([3, 3]);
+      }
       this.context.strokeRect(
         position.x - size / 2,
         position.y - size / 2,
         size,
         size
       );
+      this.context.setLineDash([]);
+      this.context.globalAlpha = 1.0;
+
+      // 能力の目印を描画
+      this.renderEnemyAbilities(enemy, position, size);
 
       // 体力バーを描画
       this.renderEnemyHealthBar(enemy, position, size);
+
+      // 状態異常アイコンを描画
+      this.renderEnemyStatusEffects(enemy, position, size);
     }
     
     this.context.restore();
@@ -321,6 +347,134 @@ export class GameRenderer {
     );
   }
 
+  /**
+   * 飛行する敵の影を描画
+   */
+  private renderFlyingShadow(position: Position, size: number): void {
+    this.context.save();
+    this.context.fillStyle = '#000000';
+    this.context.globalAlpha = 0.3;
+    this.context.beginPath();
+    this.context.ellipse(
+      position.x,
+      position.y + size / 2 + 6,
+      size / 2,
+      size / 6,
+      0,
+      0,
+      Math.PI * 2
+    );
+    this.context.fill();
+    this.context.restore();
+  }
+
+  /**
+   * 敵の能力の目印を描画
+   * 回復は緑の十字と回復範囲、シールドは残量に応じた青い円弧、分裂は本体を区切る線、飛行は左右の翼
+   */
+  private renderEnemyAbilities(enemy: Enemy, position: Position, size: number): void {
+    this.context.save();
+
+    const heal = enemy.type.getAbility(EnemyAbilityType.HEAL);
+    if (heal) {
+      this.context.strokeStyle = '#4CAF50';
+      this.context.globalAlpha = 0.2;
+      this.context.lineWidth = 1;
+      this.context.beginPath();
+      this.context.arc(position.x, position.y, heal.radius, 0, Math.PI * 2);
+      this.context.stroke();
+
+      this.context.globalAlpha = 1.0;
+      this.context.fillStyle = '#4CAF50';
+      this.context.fillRect(position.x - size / 8, position.y - size / 3, size / 4, (size * 2) / 3);
+      this.context.fillRect(position.x - size / 3, position.y - size / 8, (size * 2) / 3, size / 4);
+    }
+
+    if (enemy.maxShield > 0 && enemy.shield > 0) {
+      this.context.strokeStyle = '#64B5F6';
+      this.context.globalAlpha = 0.9;
+      this.context.lineWidth = 3;
+      this.context.beginPath();
+      this.context.arc(
+        position.x,
+        position.y,
+        size * 0.75,
+        -Math.PI / 2,
+        -Math.PI / 2 + Math.PI * 2 * (enemy.shield / enemy.maxShield)
+      );
+      this.context.stroke();
+    }
+
+    if (enemy.type.hasAbility(EnemyAbilityType.SPLIT)) {
+      this.context.strokeStyle = '#FFFFFF';
+      this.context.globalAlpha = 0.8;
+      this.context.lineWidth = 1;
+      this.context.beginPath();
+      this.context.moveTo(position.x, position.y - size / 2);
+      this.context.lineTo(position.x, position.y + size / 2);
+      this.context.moveTo(position.x - size / 2, position.y);
+      this.context.lineTo(position.x + size / 2, position.y);
+      this.context.stroke();
+    }
+
+    if (enemy.isFlying) {
+      this.context.fillStyle = '#EEEEEE';
+      this.context.globalAlpha = 0.9;
+      for (const side of [-1, 1]) {
+        this.context.beginPath();
+        this.context.moveTo(position.x + (side * size) / 2, position.y - size / 4);
+        this.context.lineTo(position.x + side * (size / 2 + size / 2), position.y - size / 2);
+        this.context.lineTo(position.x + (side * size) / 2, position.y + size / 4);
+        this.context.closePath();
+        this.context.fill();
+      }
+    }
+
+    this.context.restore();
+  }
+
+  /**
+   * 敵の状態異常を描画（敵の下に色付きの点を並べる）
+   */
+  private renderEnemyStatusEffects(enemy: Enemy, position: Position, size: number): void {
+    const effects = enemy.getStatusEffects();
+    if (effects.length === 0) return;
+
+    const dotRadius = 3;
+    const spacing = dotRadius * 2 + 2;
+    const startX = position.x - ((effects.length - 1) * spacing) / 2;
+    const dotY = position.y + size / 2 + 6;
+
+    effects.forEach((active, index) => {
+      this.context.fillStyle = this.getStatusEffectColor(active.effect.type);
+      this.context.beginPath();
+      this.context.arc(startX + index * spacing, dotY, dotRadius, 0, Math.PI * 2);
+      this.context.fill();
+    });
+  }
+
+  /**
+   * 状態異常に応じた色を取得
+   */
+  private getStatusEffectColor(type: StatusEffectType): string {
+    switch (type) {
+      case 'SLOW':
+        return '#87CEEB';
+      case 'POISON':
+        return '#9ACD32';
+      case 'FREEZE':
+        return '#E0FFFF';
+      case 'BURN':
+        return '#FF4500';
+      case 'STUN':
+        return '#FFD700';
+      case 'ARMOR_BREAK':
+        return '#A9A9A9';
+      default:
+        return '#FFFFFF';
+    }
+  }
+
   /**
    * 移動パスを描画
    */
@@ -363,6 +517,17 @@ export class GameRenderer {
         return 24;
       case 'BOSS':
         return 32;
+      case 'WARLORD':
+        return 36;
+      case 'SHIELDED':
+        return 22;
+      case 'SPLITTER':
+        return 24;
+      case 'SPLITLING':
+        return 12;
+      case 'SHADOW':
+      case 'FLYER':
+        return 16;
       default:
         return 20;
     }
@@ -384,6 +549,19 @@ export class GameRenderer {
         return '#96CEB4';
       case 'BOSS':
         return '#FFEAA7';
+      case 'WARLORD':
+        return '#B71C1C';
+      case 'HEALER':
+        return '#F8F8F8';
+      case 'SHIELDED':
+        return '#7986CB';
+      case 'SPLITTER':
+      case 'SPLITLING':
+        return '#BA68C8';
+      case 'SHADOW':
+        return '#546E7A';
+      case 'FLYER':
+        return '#FFB74D';
       default:
         return '#FF6B6B';
     }
@@ -392,17 +570,32 @@ export class GameRenderer {
   /**
    * タワーを描画
    */
-  renderTowers(towers: Tower[]): void {
+  renderTowers(towers: Tower[], selectedTowerId: string | null = null): void {
     this.context.save();
+
+    // 支援タワーのオーラ範囲を先に描画（タワー本体の下に表示する）
+    for (const tower of towers) {
+      const aura = this._auraService.getAura(tower);
+      if (aura) {
+        this.renderAura(tower.position, aura);
+      }
+    }
     
     for (const tower of towers) {
       const position = tower.position;
       const size = this.getTowerSizeByType(tower.type);
       const color = this.getTowerColorByType(tower.type);
+      const isSelected = tower.id === selectedTowerId;
+
+      // 破壊されたタワーは修理されるまで瓦礫として描画
+      if (tower.isDestroyed) {
+        this.renderTowerRubble(position, size, isSelected);
+        continue;
+      }
 
-      // タワーの射程範囲を描画（薄く）
+      // タワーの射程範囲を描画（選択中ははっきり表示）
       this.context.strokeStyle = color;
-      this.context.globalAlpha = 0.1;
+      this.context.globalAlpha = isSelected ? 0.6 : 0.1;
       this.context.lineWidth = 1;
       this.context.beginPath();
       this.context.arc(position.x, position.y, tower.stats.range, 0, Math.PI * 2);
@@ -428,9 +621,35 @@ export class GameRenderer {
         size
       );
 
-      // ターゲットがいる場合は攻撃線を描画
-      if (tower.currentTarget && tower.currentTarget.isAlive) {
-        this.renderAttackLine(tower.position, tower.currentTarget.currentPosition);
+      // 選択中のタワーは枠を強調
+      if (isSelected) {
+        this.context.strokeStyle = '#FFFFFF';
+        this.context.strokeRect(
+          position.x - size / 2 - 3,
+          position.y - size / 2 - 3,
+          size + 6,
+          size + 6
+        );
+      }
+
+      // 強化レベルを描画
+      if (tower.level > 1) {
+        this.renderTowerLevel(position, size, tower.level);
+      }
+
+      // オーラによる強化を描画
+      if (tower.buff.isActive) {
+        this.renderBuffIndicator(position, size, tower.buff);
+      }
+
+      // 損傷したタワーは耐久バーを描画
+      if (tower.health < tower.maxHealth) {
+        this.renderTowerHealthBar(tower, position, size);
+      }
+
+      // ボスに停止させられたタワーは暗く覆う
+      if (tower.isDisabled) {
+        this.renderTowerDisabled(position, size);
       }
     }
     
@@ -438,22 +657,228 @@ export class GameRenderer {
   }
 
   /**
-   * 攻撃線を描画
+   * 停止中のタワーを灰色の覆いと斜線で描画
    */
-  private renderAttackLine(from: Position, to: Position): void {
+  private renderTowerDisabled(position: Position, size: number): void {
     this.context.save();
-    this.context.strokeStyle = '#FFD700';
+    this.context.fillStyle = '#000000';
+    this.context.globalAlpha = 0.5;
+    this.context.fillRect(position.x - size / 2, position.y - size / 2, size, size);
+
+    this.context.globalAlpha = 1.0;
+    this.context.strokeStyle = '#9E9E9E';
     this.context.lineWidth = 2;
-    this.context.globalAlpha = 0.7;
-    
     this.context.beginPath();
-    this.context.moveTo(from.x, from.y);
-    this.context.lineTo(to.x, to.y);
+    this.context.moveTo(position.x - size / 2, position.y + size / 2);
+    this.context.lineTo(position.x + size / 2, position.y - size / 2);
     this.context.stroke();
-    
     this.context.restore();
   }
 
+  /**
+   * 破壊されたタワーを瓦礫（灰色の崩れた本体と×印）として描画
+   */
+  private renderTowerRubble(position: Position, size: number, isSelected: boolean): void {
+    this.context.save();
+    this.context.fillStyle = '#555555';
+    this.context.globalAlpha = 0.8;
+    this.context.fillRect(
+      position.x - size / 2,
+      position.y - size / 4,
+      size,
+      size * 3 / 4
+    );
+    this.context.globalAlpha = 1.0;
+
+    this.context.strokeStyle = '#F44336';
+    this.context.lineWidth = 2;
+    this.context.beginPath();
+    this.context.moveTo(position.x - size / 3, position.y - size / 3);
+    this.context.lineTo(position.x + size / 3, position.y + size / 3);
+    this.context.moveTo(position.x + size / 3, position.y - size / 3);
+    this.context.lineTo(position.x - size / 3, position.y + size / 3);
+    this.context.stroke();
+
+    // 選択中の瓦礫は枠を強調（修理の対象を分かりやすくする）
+    if (isSelected) {
+      this.context.strokeStyle = '#FFFFFF';
+      this.context.strokeRect(
+        position.x - size / 2 - 3,
+        position.y - size / 2 - 3,
+        size + 6,
+        size + 6
+      );
+    }
+    this.context.restore();
+  }
+
+  /**
+   * タワーの耐久バーを本体上部に描画
+   */
+  private renderTowerHealthBar(tower: Tower, position: Position, size: number): void {
+    const barWidth = size;
+    const barHeight = 4;
+    const barY = position.y - size / 2 - 8;
+
+    // 背景バー
+    this.context.fillStyle = '#333333';
+    this.context.fillRect(position.x - barWidth / 2, barY, barWidth, barHeight);
+
+    // 耐久に応じて色を変更
+    const healthPercentage = tower.health / tower.maxHealth;
+    if (healthPercentage > 0.6) {
+      this.context.fillStyle = '#4CAF50'; // 緑
+    } else if (healthPercentage > 0.3) {
+      this.context.fillStyle = '#FF9800'; // オレンジ
+    } else {
+      this.context.fillStyle = '#F44336'; // 赤
+    }
+    this.context.fillRect(position.x - barWidth / 2, barY, barWidth * healthPercentage, barHeight);
+  }
+
+  /**
+   * タワーの強化レベルを本体下部の星印で描画
+   */
+  private renderTowerLevel(position: Position, size: number, level: number): void {
+    this.context.save();
+    this.context.fillStyle = '#FFD700';
+    this.context.font = '10px Arial';
+    this.context.textAlign = 'center';
+    this.context.fillText('★'.repeat(level - 1), position.x, position.y + size / 2 + 12);
+    this.context.restore();
+  }
+
+  /**
+   * オーラの効果範囲を描画
+   */
+  private renderAura(position: Position, aura: TowerAura): void {
+    const color = this.getAuraColor(aura.ability);
+
+    this.context.save();
+    this.context.fillStyle = color;
+    this.context.globalAlpha = 0.08;
+    this.context.beginPath();
+    this.context.arc(position.x, position.y, aura.radius, 0, Math.PI * 2);
+    this.context.fill();
+
+    this.context.strokeStyle = color;
+    this.context.globalAlpha = 0.4;
+    this.context.lineWidth = 1;
+    this.context.setLineDash([4, 4]);
+    this.context.stroke();
+    this.context.restore();
+  }
+
+  /**
+   * オーラで強化された能力値を本体右上の矢印で描画（攻撃力は赤、射程は青緑）
+   */
+  private renderBuffIndicator(position: Position, size: number, buff: TowerBuff): void {
+    const indicators: string[] = [];
+    if (buff.isDamageBoosted) {
+      indicators.push(this.getAuraColor(SpecialAbility.DAMAGE_BOOST));
+    }
+    if (buff.isRangeBoosted) {
+      indicators.push(this.getAuraColor(SpecialAbility.RANGE_BOOST));
+    }
+
+    this.context.save();
+    this.context.font = 'bold 10px Arial';
+    this.context.textAlign = 'left';
+    indicators.forEach((color, index) => {
+      this.context.fillStyle = color;
+      this.context.fillText('▲', position.x + size / 2 + 2, position.y - size / 2 + 8 + index * 10);
+    });
+    this.context.restore();
+  }
+
+  /**
+   * オーラの種類に応じた色を取得
+   */
+  private getAuraColor(ability: SpecialAbility): string {
+    return ability === SpecialAbility.DAMAGE_BOOST ? '#FF6B6B' : '#4ECDC4';
+  }
+
+  /**
+   * 弾を描画
+   * @param alpha 直前のステップから次のステップまでの進み具合（位置の補間に使う）
+   */
+  renderProjectiles(projectiles: Projectile[], alpha = 1): void {
+    this.context.save();
+
+    for (const projectile of projectiles) {
+      if (!projectile.isActive) {
+        continue;
+      }
+
+      switch (projectile.type) {
+        case ProjectileType.BEAM:
+          this.renderBeam(projectile);
+          break;
+        case ProjectileType.BALLISTIC:
+          this.renderCannonball(projectile, projectile.getInterpolatedPosition(alpha));
+          break;
+        default:
+          this.renderArrow(projectile, projectile.getInterpolatedPosition(alpha));
+          break;
+      }
+    }
+
+    this.context.restore();
+  }
+
+  /**
+   * 追尾弾を進行方向に向いた短い線で描画
+   */
+  private renderArrow(projectile: Projectile, position: Position): void {
+    const { aimPoint } = projectile;
+    const distance = position.distanceTo(aimPoint);
+    const length = 8;
+    const dx = distance > 0 ? (aimPoint.x - position.x) / distance : 1;
+    const dy = distance > 0 ? (aimPoint.y - position.y) / distance : 0;
+
+    this.context.strokeStyle = '#F5DEB3';
+    this.context.lineWidth = 2;
+    this.context.beginPath();
+    this.context.moveTo(position.x - dx * length, position.y - dy * length);
+    this.context.lineTo(position.x, position.y);
+    this.context.stroke();
+  }
+
+  /**
+   * 砲弾を弧の高さ分だけ持ち上げて描画し、地面に影を落とす
+   */
+  private renderCannonball(projectile: Projectile, position: Position): void {
+    // 影
+    this.context.fillStyle = '#000000';
+    this.context.globalAlpha = 0.3;
+    this.context.beginPath();
+    this.context.arc(position.x, position.y, 4, 0, Math.PI * 2);
+    this.context.fill();
+    this.context.globalAlpha = 1.0;
+
+    // 砲弾
+    this.context.fillStyle = '#2F2F2F';
+    this.context.beginPath();
+    this.context.arc(position.x, position.y - projectile.arcHeight, 5, 0, Math.PI * 2);
+    this.context.fill();
+  }
+
+  /**
+   * 雷撃を発射地点から着弾地点への線で描画
+   */
+  private renderBeam(projectile: Projectile): void {
+    const { origin, position } = projectile;
+
+    this.context.strokeStyle = '#FFD700';
+    this.context.lineWidth = 3;
+    this.context.globalAlpha = 0.8;
+    this.context.beginPath();
+    this.context.moveTo(origin.x, origin.y);
+    this.context.lineTo(position.x, position.y);
+    this.context.stroke();
+    this.context.globalAlpha = 1.0;
+  }
+
   /**
    * タワータイプに応じたサイズを取得
    */
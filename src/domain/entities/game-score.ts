@@ -102,17 +102,7 @@ export class GameScore {
    * 敵タイプに対応するスコアを取得する（内部用）
    */
   private getScoreForEnemyType(enemyType: EnemyType): number {
-    if (enemyType.isNormal()) {
-      return 10;
-    }
-    if (enemyType.isElite()) {
-      return 30;
-    }
-    if (enemyType.isBoss()) {
-      return 100;
-    }
-    
-    // 未知の敵タイプの場合は0点
-    return 0;
+    // 敵タイプ設定（config/enemies.json）のスコアを使用
+    return enemyType.getScoreValue();
   }
 }
\ No newline at end of file
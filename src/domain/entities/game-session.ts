@@ -2,7 +2,9 @@ import type { CardLibrary } from "./card-library.js";
 import type { CardPool } from "./card-pool.js";
 import type { Card } from "./card.js";
 import { Hand } from "./hand.js";
+import { Deck } from "./deck.js";
 import { GameTimer, type TimeProvider, SystemTimeProvider } from "./game-timer.js";
+import { GameClock } from "./game-clock.js";
 import { BaseHealth } from "./base-health.js";
 import { GameScore } from "./game-score.js";
 import { ManaPool } from "./mana-pool.js";
@@ -11,12 +13,38 @@ import { GameState } from "../value-objects/game-state.js";
 import { GameEndReason } from "../value-objects/game-end-reason.js";
 import type { EnemyType } from "../value-objects/enemy-type.js";
 import { WaveScheduler } from "./wave-scheduler.js";
-import { WaveConfiguration } from "../value-objects/wave-configuration.js";
-import { MovementPath } from "../value-objects/movement-path.js";
-import { Position } from "../value-objects/position.js";
+import type { WaveConfiguration } from "../value-objects/wave-configuration.js";
+import { GameMap } from "../value-objects/game-map.js";
+import type { MovementPath } from "../value-objects/movement-path.js";
+import type { Position } from "../value-objects/position.js";
+import type { Rectangle } from "../value-objects/rectangle.js";
+import type { TileGrid } from "../value-objects/tile-grid.js";
 import type { Enemy } from "./enemy.js";
 import { Tower } from "./tower.js";
 import { TowerPlacementService } from "../services/tower-placement-service.js";
+import { TowerUpgradeService } from "../services/tower-upgrade-service.js";
+import { TowerSellService } from "../services/tower-sell-service.js";
+import { TowerRepairService } from "../services/tower-repair-service.js";
+import { TowerAttackService, type TowerAttack } from "../services/tower-attack-service.js";
+import { ProjectileService, type ProjectileImpact } from "../services/projectile-service.js";
+import { AuraService } from "../services/aura-service.js";
+import { BossActionService } from "../services/boss-action-service.js";
+import { EnemyAbilityService, type EnemyHeal } from "../services/enemy-ability-service.js";
+import { EnemySpawningService } from "../services/enemy-spawning-service.js";
+import { RandomService, RandomStream } from "../services/random-service.js";
+import type { Projectile } from "./projectile.js";
+import { BossEncounter, type BossEvent } from "./boss-encounter.js";
+import type { TargetingStrategy } from "../value-objects/targeting-strategy.js";
+import type { TowerType } from "../value-objects/tower-type.js";
+
+/**
+ * 選択された波設定で動く敵生成システム
+ */
+interface WaveSystem {
+  scheduler: WaveScheduler;
+  spawningService: EnemySpawningService; // 分裂体・召喚する手下の生成
+  bossActionService: BossActionService;
+}
 
 /**
  * ゲームセッション統計
@@ -32,6 +60,98 @@ export interface SessionStats {
   remainingTime: number;
   gameState: string;
   enemiesDefeated: number;
+  // デッキ情報
+  drawPileCount: number;
+  discardPileCount: number;
+}
+
+/**
+ * スナップショットに含まれるタワーの情報
+ */
+export interface TowerSnapshot {
+  id: string;
+  type: TowerType;
+  position: Position;
+  range: number; // オーラを反映した実効射程
+  level: number;
+  health: number;
+  isDestroyed: boolean; // 瓦礫になっている場合true
+}
+
+/**
+ * スナップショットに含まれる敵の情報
+ */
+export interface EnemySnapshot {
+  id: string;
+  position: Position;
+  currentHealth: number;
+  maxHealth: number;
+  pathProgress: number; // 0.0-1.0
+}
+
+/**
+ * ある時点のゲームの状況（ボットが操作を判断するための読み取り専用の情報）
+ */
+export interface GameSnapshot {
+  tick: number; // ゲーム内時計のステップ数
+  mana: number;
+  maxMana: number;
+  hand: Card[];
+  towers: TowerSnapshot[];
+  enemies: EnemySnapshot[];
+  paths: MovementPath[];
+  placementPositions: Position[]; // タワーを配置できる位置
+  waveNumber: number;
+  baseHealth: number;
+}
+
+/**
+ * カードドロー結果
+ */
+export interface DrawResult {
+  success: boolean;
+  card?: Card;
+  error?: string;
+}
+
+/**
+ * タワー強化結果
+ */
+export interface TowerUpgradeResult {
+  success: boolean;
+  tower?: Tower;
+  newLevel?: number;
+  upgradeCost?: number;
+  error?: string;
+}
+
+/**
+ * タワー修理結果
+ */
+export interface TowerRepairResult {
+  success: boolean;
+  tower?: Tower;
+  repairCost?: number;
+  error?: string;
+}
+
+/**
+ * タワー売却オプション
+ */
+export interface TowerSellOptions {
+  refundRatio?: number; // 総投資額に対する返還率（省略時はTowerSellService.DEFAULT_REFUND_RATIO）
+  returnCardToDiscard?: boolean; // 設置に使ったカードを捨て札に戻すか
+}
+
+/**
+ * タワー売却結果
+ */
+export interface TowerSellResult {
+  success: boolean;
+  tower?: Tower;
+  refund?: number; // 実際に回復したマナ
+  returnedCard?: Card;
+  error?: string;
 }
 
 /**
@@ -41,6 +161,7 @@ export interface SessionStats {
 export class GameSession {
   private readonly _id: string;
   private readonly _hand: Hand;
+  private readonly _deck: Deck;
   private readonly _cardPool: CardPool;
   private readonly _cardLibrary: CardLibrary;
   private _isActive = false;
@@ -48,6 +169,8 @@ export class GameSession {
 
   // 新しいゲームセッション管理機能
   private readonly _timer: GameTimer;
+  private readonly _clock: GameClock;
+  private readonly _random: RandomService;
   private readonly _baseHealth: BaseHealth;
   private readonly _score: GameScore;
   private readonly _manaPool: ManaPool;
@@ -55,58 +178,146 @@ export class GameSession {
   private _startedAt: Date | null = null;
   private _endedAt: Date | null = null;
 
-  // 敵生成システム
-  private readonly _waveScheduler: WaveScheduler;
-  private readonly _movementPath: MovementPath;
+  // 敵生成システム（波設定を選択するまではnull）
+  private _waves: WaveSystem | null = null;
+  private _gameMap: GameMap;
 
   // タワー管理システム
   private readonly _towers: Tower[] = [];
+  private readonly _towerCards = new Map<string, Card>(); // タワーID → 設置に使ったカード
   private readonly _towerPlacementService: TowerPlacementService;
+  private readonly _towerUpgradeService: TowerUpgradeService;
+  private readonly _towerSellService: TowerSellService;
+  private readonly _towerRepairService: TowerRepairService;
+  private readonly _towerAttackService: TowerAttackService;
+  private _lastTowerAttacks: TowerAttack[] = [];
+  private readonly _auraService: AuraService;
+  private readonly _enemyAbilityService: EnemyAbilityService;
+  private _lastEnemyHeals: EnemyHeal[] = [];
+  private _lastSplitEnemies: Enemy[] = [];
+  private _lastDefeatedEnemies: Enemy[] = [];
+  private _bossEncounters: BossEncounter[] = [];
+  private _lastBossEvents: BossEvent[] = [];
+  private readonly _towerSelectRadius = 20; // クリックでタワーを選択できる距離
+
+  // 弾システム
+  private _projectiles: Projectile[] = [];
+  private _lastImpacts: ProjectileImpact[] = [];
+  private readonly _projectileService: ProjectileService;
 
   // マナ回復システム
   private _lastManaRegenTime = 0;
   private readonly _manaRegenInterval = 1000; // 1秒 = 1000ms
   private readonly _manaRegenAmount = 1; // 1秒毎に1マナ回復
 
+  // 手札補充システム
+  private _lastDrawTime = 0;
+  private readonly _drawInterval = 10000; // 10秒毎に1枚補充
+  private readonly _drawManaCost = 3; // マナを支払って即座に1枚引く
+
   constructor(
     id: string, 
     cardPool: CardPool, 
     cardLibrary: CardLibrary,
     gameDuration = 180,
     maxHealth = 100,
-    timeProvider: TimeProvider = new SystemTimeProvider()
+    timeProvider: TimeProvider = new SystemTimeProvider(),
+    random: RandomService = new RandomService()
   ) {
     if (!id.trim()) {
       throw new Error("ゲームセッションIDは空であってはいけません");
     }
 
     this._id = id;
+    this._random = random;
     this._hand = new Hand();
+    this._deck = new Deck([], random.stream(RandomStream.DECK));
     this._cardPool = cardPool;
     this._cardLibrary = cardLibrary;
 
     // 新しいコンポーネントの初期化
-    this._timer = new GameTimer(gameDuration, timeProvider);
+    // 試合の制限時間もゲーム内時計で計るため、フレームの遅延や一時停止で時間切れが早まらない
+    this._clock = new GameClock(timeProvider.getCurrentTime());
+    this._timer = new GameTimer(gameDuration, this._clock);
     this._baseHealth = new BaseHealth(maxHealth);
     this._score = new GameScore();
     this._manaPool = new ManaPool(id, 10, 100); // 初期マナ10、最大マナ100
     this._state = GameState.notStarted();
 
-    // 敵生成システムの初期化
-    const waveConfig = WaveConfiguration.createDefault();
-    this._waveScheduler = new WaveScheduler(waveConfig, new Date());
-    
-    // デフォルトの移動パスを作成（画面左から右へ）
-    this._movementPath = new MovementPath([
-      new Position(0, 300),     // 左端（スタート地点）
-      new Position(200, 300),   // 中間点1
-      new Position(400, 200),   // 中間点2（少し上に）
-      new Position(600, 300),   // 中間点3
-      new Position(800, 300)    // 右端（ゴール地点）
-    ]);
+    // マップが選択されるまでは既定の単一レーンを使用
+    this._gameMap = GameMap.createDefault();
 
     // タワー配置サービスの初期化
     this._towerPlacementService = new TowerPlacementService();
+    this._towerPlacementService.setPaths(this._gameMap.paths);
+    this._towerPlacementService.setTerrain(this._gameMap.terrain);
+    this._towerUpgradeService = new TowerUpgradeService();
+    this._towerSellService = new TowerSellService();
+    this._towerRepairService = new TowerRepairService();
+    this._towerAttackService = new TowerAttackService();
+    this._auraService = new AuraService();
+    this._enemyAbilityService = new EnemyAbilityService();
+    this._projectileService = new ProjectileService(random.stream(RandomStream.COMBAT));
+  }
+
+  /**
+   * 使用するマップを選択（ゲーム開始前のみ）
+   */
+  selectMap(gameMap: GameMap): void {
+    if (!this._state.isNotStarted()) {
+      throw new Error("ゲーム開始後はマップを変更できません");
+    }
+
+    this._gameMap = gameMap;
+    this._towerPlacementService.setPaths(gameMap.paths);
+    this._towerPlacementService.setTerrain(gameMap.terrain);
+  }
+
+  /**
+   * 使用する波設定を選択（ゲーム開始前に必ず選択する）
+   * 分裂体・召喚する手下の敵タイプも波設定と同じレジストリから引く
+   */
+  setWaveConfiguration(waveConfiguration: WaveConfiguration): void {
+    if (!this._state.isNotStarted()) {
+      throw new Error("ゲーム開始後は波設定を変更できません");
+    }
+
+    const spawningService = new EnemySpawningService(
+      waveConfiguration.enemyTypes,
+      this._random.stream(RandomStream.ENEMIES),
+      this._clock
+    );
+    this._waves = {
+      scheduler: new WaveScheduler(
+        waveConfiguration,
+        new Date(this._clock.getCurrentTime()),
+        this._random.stream(RandomStream.ENEMIES),
+        this._clock
+      ),
+      spawningService,
+      bossActionService: new BossActionService(spawningService),
+    };
+  }
+
+  /**
+   * タワーを配置できるゲームフィールドの範囲を設定（キャンバスのレイアウトに合わせる）
+   */
+  setPlayfieldBounds(bounds: Rectangle): void {
+    this._towerPlacementService.setFieldBounds(bounds);
+  }
+
+  /**
+   * 経路タイルを反映した戦場のタイルグリッド
+   */
+  get tileGrid(): TileGrid {
+    return this._towerPlacementService.grid;
+  }
+
+  /**
+   * 現在のマップと設置済みタワーに対してタワーを配置できる位置を取得
+   */
+  getValidPlacementPositions(): Position[] {
+    return this._towerPlacementService.getValidPlacementPositions(this._towers);
   }
 
   /**
@@ -121,10 +332,12 @@ export class GameSession {
       throw new Error("カードプールに十分なカードがありません");
     }
 
-    // 手札をクリアして新しいカードを配布
+    const waves = this._requireWaves();
+
+    // カードプールから山札を作成し、手札をクリアして新しいカードを配布
+    this._deck.reset(this._cardPool.getAllCards());
     this._hand.clear();
-    const selectedCards = this._cardPool.selectRandomCards(Hand.maxSize);
-    for (const card of selectedCards) {
+    for (const card of this._deck.drawMany(Hand.maxSize)) {
       this._hand.addCard(card);
     }
 
@@ -136,14 +349,15 @@ export class GameSession {
     this._startedAt = new Date();
     this._endedAt = null;
 
-    // マナ回復タイマーをリセット
+    // マナ回復・手札補充タイマーをリセット
     this._lastManaRegenTime = 0;
+    this._lastDrawTime = 0;
 
     // 敵生成システムの開始
-    this._waveScheduler.startWaveScheduling();
+    waves.scheduler.startWaveScheduling();
     
     // 最初の波を即座に開始（テスト用）
-    this._waveScheduler.startNextWave(this._movementPath);
+    waves.scheduler.startNextWave(this._gameMap);
 
     this._isActive = true;
     this._cardsPlayed = 0;
@@ -162,6 +376,7 @@ export class GameSession {
     }
 
     const card = this._hand.removeCard(cardId);
+    this._deck.discard(card);
     this._cardLibrary.discoverCard(card);
     this._cardsPlayed++;
 
@@ -198,6 +413,7 @@ export class GameSession {
     }
 
     // 成功した場合、カードを消費してタワーを追加
+    // 設置に使ったカードはタワーが売却されるまで山札・捨て札に戻らない
     this._hand.removeCard(cardId);
     this._manaPool.consumeMana(card.cost.value);
     this._cardLibrary.discoverCard(card);
@@ -205,11 +421,170 @@ export class GameSession {
 
     if (placementResult.tower) {
       this._towers.push(placementResult.tower);
+      this._towerCards.set(placementResult.tower.id, card);
     }
 
     return placementResult;
   }
 
+  /**
+   * マナを支払って山札からカードを1枚引く
+   */
+  drawCard(): DrawResult {
+    if (!this._isActive) {
+      return { success: false, error: "ゲームがアクティブではありません" };
+    }
+
+    if (this._hand.isFull) {
+      return { success: false, error: "手札が満杯です" };
+    }
+
+    if (!this._deck.canDraw) {
+      return { success: false, error: "引けるカードがありません" };
+    }
+
+    if (this._manaPool.getCurrentMana() < this._drawManaCost) {
+      return { success: false, error: "マナが不足しています" };
+    }
+
+    const payment = this._manaPool.consumeManaWithTransaction(
+      new ManaTransaction(this._drawManaCost, "consumption", this._clock.getCurrentTime())
+    );
+    if (!payment.isSuccess) {
+      return { success: false, error: payment.error };
+    }
+
+    const card = this._drawToHand();
+    if (!card) {
+      return { success: false, error: "引けるカードがありません" };
+    }
+
+    return { success: true, card };
+  }
+
+  /**
+   * マナを支払ってタワーを1段階強化する
+   */
+  upgradeTower(towerId: string): TowerUpgradeResult {
+    if (!this._isActive) {
+      return { success: false, error: "ゲームがアクティブではありません" };
+    }
+
+    const tower = this.getTower(towerId);
+    if (!tower) {
+      return { success: false, error: "指定されたタワーが見つかりません" };
+    }
+
+    const validation = this._towerUpgradeService.validateUpgrade(
+      tower,
+      this._manaPool.getCurrentMana()
+    );
+    if (!validation.isValid || !validation.upgrade) {
+      return { success: false, tower, error: validation.errors.join(", ") };
+    }
+
+    const upgradeCost = validation.upgrade.cost;
+    const payment = this._manaPool.consumeManaWithTransaction(
+      new ManaTransaction(upgradeCost, "consumption", this._clock.getCurrentTime())
+    );
+    if (!payment.isSuccess) {
+      return { success: false, tower, error: payment.error };
+    }
+
+    this._towerUpgradeService.applyUpgrade(tower);
+
+    return { success: true, tower, newLevel: tower.level, upgradeCost };
+  }
+
+  /**
+   * マナを支払ってタワーの耐久値を最大まで回復する（瓦礫になったタワーは再建する）
+   */
+  repairTower(towerId: string): TowerRepairResult {
+    if (!this._isActive) {
+      return { success: false, error: "ゲームがアクティブではありません" };
+    }
+
+    const tower = this.getTower(towerId);
+    if (!tower) {
+      return { success: false, error: "指定されたタワーが見つかりません" };
+    }
+
+    const validation = this._towerRepairService.validateRepair(
+      tower,
+      this._manaPool.getCurrentMana()
+    );
+    if (!validation.isValid || validation.cost === undefined) {
+      return { success: false, tower, error: validation.errors.join(", ") };
+    }
+
+    const payment = this._manaPool.consumeManaWithTransaction(
+      new ManaTransaction(validation.cost, "consumption", this._clock.getCurrentTime())
+    );
+    if (!payment.isSuccess) {
+      return { success: false, tower, error: payment.error };
+    }
+
+    tower.repair();
+
+    return { success: true, tower, repairCost: validation.cost };
+  }
+
+  /**
+   * タワーを売却してマナの一部を返還する
+   * 売却したタワーの位置は空き地となり、再び配置できる
+   */
+  sellTower(towerId: string, options: TowerSellOptions = {}): TowerSellResult {
+    if (!this._isActive) {
+      return { success: false, error: "ゲームがアクティブではありません" };
+    }
+
+    const index = this._towers.findIndex((tower) => tower.id === towerId);
+    const tower = this._towers[index];
+    if (!tower) {
+      return { success: false, error: "指定されたタワーが見つかりません" };
+    }
+
+    let refundAmount: number;
+    try {
+      refundAmount = this._towerSellService.calculateRefund(tower, options.refundRatio);
+    } catch (error) {
+      return { success: false, tower, error: error instanceof Error ? error.message : String(error) };
+    }
+
+    this._towers.splice(index, 1);
+
+    let refund = 0;
+    if (refundAmount > 0) {
+      const result = this._manaPool.generateMana(
+        new ManaTransaction(refundAmount, "generation", this._clock.getCurrentTime())
+      );
+      refund = result.actualAmount ?? 0;
+    }
+
+    const card = this._towerCards.get(towerId);
+    this._towerCards.delete(towerId);
+    const returnedCard = options.returnCardToDiscard && card ? card : undefined;
+    if (returnedCard) {
+      this._deck.discard(returnedCard);
+    }
+
+    return { success: true, tower, refund, returnedCard };
+  }
+
+  /**
+   * タワーの攻撃対象選択方針を変更する
+   * @returns 変更できた場合はtrue
+   */
+  setTowerTargetingStrategy(towerId: string, strategy: TargetingStrategy): boolean {
+    const tower = this.getTower(towerId);
+    if (!tower) {
+      return false;
+    }
+
+    tower.setTargetingStrategy(strategy);
+    return true;
+  }
+
   /**
    * ゲームを終了
    */
@@ -264,6 +639,40 @@ export class GameSession {
       remainingTime: this._timer.getRemainingSeconds(),
       gameState: this._state.toString(),
       enemiesDefeated: this._score.getEnemyDefeatedCount(),
+      drawPileCount: this._deck.drawPileCount,
+      discardPileCount: this._deck.discardPileCount,
+    };
+  }
+
+  /**
+   * 現在のゲームの状況をスナップショットとして取得
+   */
+  getSnapshot(): GameSnapshot {
+    return {
+      tick: this._clock.stepCount,
+      mana: this._manaPool.getCurrentMana(),
+      maxMana: this._manaPool.getMaxMana(),
+      hand: this._hand.getCards(),
+      towers: this._towers.map((tower) => ({
+        id: tower.id,
+        type: tower.type,
+        position: tower.position,
+        range: tower.stats.range,
+        level: tower.level,
+        health: tower.health,
+        isDestroyed: tower.isDestroyed,
+      })),
+      enemies: this.getActiveEnemies().map((enemy) => ({
+        id: enemy.id,
+        position: enemy.currentPosition,
+        currentHealth: enemy.currentHealth,
+        maxHealth: enemy.maxHealth,
+        pathProgress: enemy.pathProgress,
+      })),
+      paths: this.movementPaths,
+      placementPositions: this.getValidPlacementPositions(),
+      waveNumber: this._waves?.scheduler.waveNumber ?? 0,
+      baseHealth: this._baseHealth.currentHealth.value,
     };
   }
 
@@ -274,6 +683,13 @@ export class GameSession {
     return this._id;
   }
 
+  /**
+   * 乱数シード（同じシードと同じ入力で開始したゲームは同じ展開になる）
+   */
+  get seed(): number {
+    return this._random.seed;
+  }
+
   /**
    * 手札
    */
@@ -288,6 +704,20 @@ export class GameSession {
     return this._hand.getCards();
   }
 
+  /**
+   * デッキ（山札・捨て札）
+   */
+  get deck(): Deck {
+    return this._deck;
+  }
+
+  /**
+   * マナを支払ってカードを引く際のコスト
+   */
+  get drawManaCost(): number {
+    return this._drawManaCost;
+  }
+
   /**
    * ゲームがアクティブかどうか
    */
@@ -436,43 +866,119 @@ export class GameSession {
     return this._manaPool;
   }
 
+  /**
+   * ゲーム内時計（シミュレーションの時刻）
+   */
+  get clock(): GameClock {
+    return this._clock;
+  }
+
+  /**
+   * 描画用の補間係数（直前のステップから次のステップまでの進み具合、0〜1）
+   */
+  get interpolationAlpha(): number {
+    return this._clock.alpha;
+  }
+
   /**
    * ゲーム状態を更新
+   * 経過時間はゲーム内時計に蓄積し、固定時間刻みのステップとしてまとめて消化する（一時停止中は進めない）
+   * @param deltaTime 前回の更新からの経過時間（ミリ秒）
    */
   update(deltaTime: number): { gameEnded: boolean } {
-    if (!this._state.isActive()) {
+    if (!this._state.isRunning()) {
       return { gameEnded: false };
     }
 
     // タイマー更新
     this._timer.update(deltaTime);
+    this._lastTowerAttacks = [];
+    this._lastEnemyHeals = [];
+    this._lastSplitEnemies = [];
+    this._lastDefeatedEnemies = [];
+    this._lastBossEvents = [];
+    this._lastImpacts = [];
+
+    this._clock.accumulate(deltaTime);
+    while (this._clock.consumeStep()) {
+      if (this._step(this._clock.step).gameEnded) {
+        return { gameEnded: true };
+      }
+    }
 
+    return { gameEnded: false };
+  }
+
+  /**
+   * シミュレーションを1ステップ進める
+   * @param deltaTime ステップの時間（ミリ秒）
+   */
+  private _step(deltaTime: number): { gameEnded: boolean } {
     // マナ回復処理
     this._updateManaRegeneration(deltaTime);
 
+    // 手札補充処理
+    this._updateHandRefill(deltaTime);
+
     // 敵生成システム更新
-    this._waveScheduler.update(new Date(), this._movementPath);
+    const waves = this._requireWaves();
+    waves.scheduler.update(new Date(this._clock.getCurrentTime()), this._gameMap);
 
     // 敵の移動更新
-    const activeEnemies = this._waveScheduler.getAllActiveEnemies();
+    const activeEnemies = waves.scheduler.getAllActiveEnemies();
     for (const enemy of activeEnemies) {
       enemy.update(deltaTime);
     }
 
-    // タワーの攻撃処理
-    const currentTimeMs = Date.now();
+    // 回復能力を持つ敵による味方の回復
+    this._lastEnemyHeals.push(
+      ...this._enemyAbilityService.processHealing(activeEnemies, deltaTime)
+    );
+
+    // ボスのフェーズ進行と予兆付きの行動（停止の残り時間はボスの妨害より先に進める）
     for (const tower of this._towers) {
-      const attackResult = tower.update(activeEnemies, currentTimeMs);
-      if (attackResult.attacked && attackResult.target) {
-        // 敵撃破チェック
-        if (!attackResult.target.isAlive) {
-          this.handleEnemyDefeated(attackResult.target.type);
-        }
+      tower.updateDisabledTime(deltaTime);
+    }
+    this._updateBossEncounters(deltaTime, activeEnemies);
+
+    // 攻撃射程を持つ敵によるタワーへの攻撃（攻撃中の敵は次のステップで立ち止まる）
+    this._lastTowerAttacks.push(
+      ...this._towerAttackService.processTowerAttacks(activeEnemies, this._towers, deltaTime)
+    );
+
+    // 支援タワーのオーラと強化タイルを反映（設置・売却・強化に追従するため毎フレーム再計算）
+    this._auraService.applyAuras(this._towers, this._towerPlacementService.grid);
+
+    // タワーの発射処理（ダメージは弾の着弾時に与える）
+    const currentTimeMs = this._clock.getCurrentTime();
+    for (const tower of this._towers) {
+      const target = tower.acquireTarget(activeEnemies);
+      if (target && tower.fire(target, currentTimeMs)) {
+        this._projectiles.push(this._projectileService.createProjectile(tower, target));
+      }
+    }
+
+    // 弾の移動と着弾処理（特殊能力による範囲・連鎖・状態異常を含む）
+    this._updateProjectiles(deltaTime, activeEnemies);
+
+    // 敵撃破チェック（弾の命中と継続ダメージの両方を対象）
+    // 分裂能力を持つ敵は、倒された位置に分裂体を残す
+    for (const enemy of activeEnemies) {
+      if (!enemy.isAlive) {
+        this.handleEnemyDefeated(enemy.type);
+        this._lastDefeatedEnemies.push(enemy);
+
+        const splits = waves.spawningService.spawnSplitEnemies(
+          enemy,
+          new Date(this._clock.getCurrentTime())
+        );
+        waves.scheduler.addEnemies(splits);
+        this._lastSplitEnemies.push(...splits);
       }
     }
 
     // 基地攻撃処理
-    const baseDamage = this._waveScheduler.processBaseAttacks();
+    const baseDamage = waves.scheduler.processBaseAttacks();
     if (baseDamage > 0) {
       this.handleBaseDamaged(baseDamage);
     }
@@ -504,21 +1010,101 @@ export class GameSession {
    * 現在アクティブな敵を取得
    */
   getActiveEnemies(): Enemy[] {
-    return this._waveScheduler.getAllActiveEnemies();
+    return this._waves?.scheduler.getAllActiveEnemies() ?? [];
   }
 
   /**
-   * 波スケジューラーを取得
+   * 波スケジューラーを取得（波設定が未選択の場合は例外）
    */
   get waveScheduler(): WaveScheduler {
-    return this._waveScheduler;
+    return this._requireWaves().scheduler;
   }
 
   /**
-   * 移動パスを取得
+   * 選択された波設定の敵生成システムを取得（波設定が未選択の場合は例外）
+   */
+  private _requireWaves(): WaveSystem {
+    if (!this._waves) {
+      throw new Error("波設定が選択されていません");
+    }
+    return this._waves;
+  }
+
+  /**
+   * 使用中のマップを取得
+   */
+  get gameMap(): GameMap {
+    return this._gameMap;
+  }
+
+  /**
+   * 主レーンの移動パスを取得
    */
   get movementPath(): MovementPath {
-    return this._movementPath;
+    return this._gameMap.primaryLane.path;
+  }
+
+  /**
+   * すべてのレーンの移動パスを取得
+   */
+  get movementPaths(): MovementPath[] {
+    return this._gameMap.paths;
+  }
+
+  /**
+   * 飛行中・表示中の弾を取得
+   */
+  getProjectiles(): Projectile[] {
+    return [...this._projectiles];
+  }
+
+  /**
+   * 直前の更新で着弾した弾の結果
+   */
+  get lastImpacts(): ProjectileImpact[] {
+    return [...this._lastImpacts];
+  }
+
+  /**
+   * 直前の更新で敵がタワーに行った攻撃
+   */
+  get lastTowerAttacks(): TowerAttack[] {
+    return [...this._lastTowerAttacks];
+  }
+
+  /**
+   * 直前の更新で敵が味方に行った回復
+   */
+  get lastEnemyHeals(): EnemyHeal[] {
+    return [...this._lastEnemyHeals];
+  }
+
+  /**
+   * 直前の更新で起きたボス戦の出来事（フェーズ移行・予兆・行動の発動）
+   */
+  get lastBossEvents(): BossEvent[] {
+    return [...this._lastBossEvents];
+  }
+
+  /**
+   * 戦闘中のボス（フェーズを持つボスが戦場にいない場合はnull）
+   */
+  get activeBossEncounter(): BossEncounter | null {
+    return this._bossEncounters.find((encounter) => !encounter.isDefeated) ?? null;
+  }
+
+  /**
+   * 直前の更新で分裂によって出現した敵
+   */
+  get lastSplitEnemies(): Enemy[] {
+    return [...this._lastSplitEnemies];
+  }
+
+  /**
+   * 直前の更新で倒された敵（弾の命中と継続ダメージの両方）
+   */
+  get lastDefeatedEnemies(): Enemy[] {
+    return [...this._lastDefeatedEnemies];
   }
 
   /**
@@ -528,6 +1114,66 @@ export class GameSession {
     return [...this._towers];
   }
 
+  /**
+   * IDでタワーを取得
+   */
+  getTower(towerId: string): Tower | null {
+    return this._towers.find((tower) => tower.id === towerId) ?? null;
+  }
+
+  /**
+   * 指定位置にあるタワーを取得（最も近いもの）
+   */
+  findTowerAt(position: Position): Tower | null {
+    let nearest: Tower | null = null;
+    let nearestDistance = this._towerSelectRadius;
+
+    for (const tower of this._towers) {
+      const distance = tower.position.distanceTo(position);
+      if (distance <= nearestDistance) {
+        nearest = tower;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest;
+  }
+
+  /**
+   * タワーの設置に使ったカードを取得
+   */
+  getTowerCard(towerId: string): Card | null {
+    return this._towerCards.get(towerId) ?? null;
+  }
+
+  /**
+   * タワー強化サービスを取得
+   */
+  get towerUpgradeService(): TowerUpgradeService {
+    return this._towerUpgradeService;
+  }
+
+  /**
+   * タワー売却サービスを取得
+   */
+  get towerSellService(): TowerSellService {
+    return this._towerSellService;
+  }
+
+  /**
+   * タワー修理サービスを取得
+   */
+  get towerRepairService(): TowerRepairService {
+    return this._towerRepairService;
+  }
+
+  /**
+   * オーラサービスを取得
+   */
+  get auraService(): AuraService {
+    return this._auraService;
+  }
+
   /**
    * タワー配置サービスを取得
    */
@@ -535,6 +1181,94 @@ export class GameSession {
     return this._towerPlacementService;
   }
 
+  /**
+   * フェーズを持つボスの戦いを進め、発動した行動の効果を適用する
+   * 召喚された手下は現在の波に加わり、次のステップから行動する
+   */
+  private _updateBossEncounters(deltaTime: number, enemies: Enemy[]): void {
+    const waves = this._requireWaves();
+    for (const enemy of enemies) {
+      if (
+        enemy.isAlive &&
+        enemy.type.hasBossPhases() &&
+        !this._bossEncounters.some((encounter) => encounter.boss === enemy)
+      ) {
+        this._bossEncounters.push(new BossEncounter(enemy));
+      }
+    }
+
+    for (const encounter of this._bossEncounters) {
+      for (const event of encounter.update(deltaTime)) {
+        if (event.type === "action") {
+          const { summoned } = waves.bossActionService.execute(
+            event.boss,
+            event.action,
+            event.position,
+            this._towers,
+            new Date(this._clock.getCurrentTime())
+          );
+          waves.scheduler.addEnemies(summoned);
+        }
+        this._lastBossEvents.push(event);
+      }
+    }
+
+    this._bossEncounters = this._bossEncounters.filter((encounter) => !encounter.isDefeated);
+  }
+
+  /**
+   * 弾を進め、着弾した弾のダメージを解決する
+   */
+  private _updateProjectiles(deltaTime: number, enemies: Enemy[]): void {
+    for (const projectile of this._projectiles) {
+      if (projectile.update(deltaTime)) {
+        // 範囲・連鎖攻撃も発射したタワーが狙えない敵（飛行・隠密）には当たらない
+        const source = this.getTower(projectile.sourceTowerId);
+        const targets = source ? enemies.filter((enemy) => source.canTarget(enemy)) : enemies;
+        this._lastImpacts.push(this._projectileService.resolveImpact(projectile, targets));
+      }
+    }
+
+    this._projectiles = this._projectiles.filter((projectile) => projectile.isActive);
+  }
+
+  /**
+   * 手札補充処理（一定間隔で山札から1枚引く）
+   */
+  private _updateHandRefill(deltaTime: number): void {
+    // ゲームが実行中でない場合は補充しない
+    if (!this._state.isRunning()) {
+      return;
+    }
+
+    // 手札が満杯の間はタイマーを進めない
+    if (this._hand.isFull) {
+      this._lastDrawTime = 0;
+      return;
+    }
+
+    this._lastDrawTime += deltaTime;
+
+    while (this._lastDrawTime >= this._drawInterval && !this._hand.isFull) {
+      this._lastDrawTime -= this._drawInterval;
+      if (!this._drawToHand()) {
+        this._lastDrawTime = 0;
+        break;
+      }
+    }
+  }
+
+  /**
+   * 山札から1枚引いて手札に加える
+   */
+  private _drawToHand(): Card | null {
+    const card = this._deck.draw();
+    if (card) {
+      this._hand.addCard(card);
+    }
+    return card;
+  }
+
   /**
    * マナ回復処理
    */
@@ -556,7 +1290,7 @@ export class GameSession {
         const manaTransaction = new ManaTransaction(
           this._manaRegenAmount * regenCount,
           "generation",
-          Date.now()
+          this._clock.getCurrentTime()
         );
         this._manaPool.generateMana(manaTransaction);
       }
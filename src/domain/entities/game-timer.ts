@@ -147,7 +147,7 @@ export class GameTimer {
    * 残り秒数を取得する
    */
   getRemainingSeconds(): number {
-    if (!this._startTime) {
+    if (this._startTime === null) {
       return this._totalDuration;
     }
 
@@ -162,7 +162,7 @@ export class GameTimer {
    * 経過秒数を取得する
    */
   getElapsedSeconds(): number {
-    if (!this._startTime) {
+    if (this._startTime === null) {
       return 0;
     }
 
@@ -188,7 +188,7 @@ export class GameTimer {
    * 時間切れ判定を行う
    */
   isTimeUp(): boolean {
-    if (!this._startTime) {
+    if (this._startTime === null) {
       return false;
     }
 
@@ -214,7 +214,7 @@ export class GameTimer {
    * 経過時間をミリ秒で取得する（内部用）
    */
   private getElapsedMilliseconds(): number {
-    if (!this._startTime) {
+    if (this._startTime === null) {
       return 0;
     }
 
@@ -2,10 +2,12 @@
 export { Enemy } from "./enemy";
 export { EnemyWave } from "./enemy-wave";
 export { WaveScheduler } from "./wave-scheduler";
+export { BossEncounter, type BossEvent } from "./boss-encounter";
 
 // Card Strategy Management Entities (existing)
 export { GameSession } from "./game-session";
 export { Hand } from "./hand";
+export { Deck } from "./deck";
 export { Card } from "./card";
 export { CardLibrary } from "./card-library";
 export { CardPool } from "./card-pool";
@@ -0,0 +1,183 @@
+import { DamageType } from "../value-objects/damage-type";
+import type { Position } from "../value-objects/position";
+import { ProjectileType } from "../value-objects/projectile-type";
+import type { SpecialAbility } from "../value-objects/special-ability";
+import type { Enemy } from "./enemy";
+
+/**
+ * タワーが発射した弾を表すエンティティ
+ * 追尾弾は目標を追い、砲弾は発射時の目標地点へ飛び、雷撃は発射と同時に着弾する
+ * ダメージの解決は着弾時にProjectileServiceが行う
+ */
+export class Projectile {
+  /**
+   * 追尾弾が目標を見失ってから消滅するまでの最大飛行時間（ミリ秒）
+   */
+  static readonly MAX_FLIGHT_TIME = 3000;
+
+  /**
+   * 雷撃を着弾後に表示し続ける時間（ミリ秒）
+   */
+  static readonly BEAM_DURATION = 150;
+
+  /**
+   * 砲弾の弧の最大の高さ（描画用）
+   */
+  static readonly BALLISTIC_ARC_HEIGHT = 40;
+
+  private _position: Position;
+  private _previousPosition: Position; // 直前の更新前の位置（描画の補間用）
+  private _aimPoint: Position;
+  private readonly _initialDistance: number;
+  private _elapsed = 0;
+  private _hasImpacted = false;
+  private _isActive = true;
+
+  constructor(
+    public readonly id: string,
+    public readonly type: ProjectileType,
+    public readonly sourceTowerId: string,
+    public readonly origin: Position,
+    public readonly target: Enemy,
+    public readonly damage: number,
+    public readonly range: number,
+    public readonly ability: SpecialAbility,
+    public readonly damageType: DamageType = DamageType.PHYSICAL,
+    public readonly isCritical = false,
+    public readonly speed: number = ProjectileType.getSpeed(type)
+  ) {
+    if (damage < 0) {
+      throw new Error("弾のダメージは0以上である必要があります");
+    }
+    if (speed < 0) {
+      throw new Error("弾速は0以上である必要があります");
+    }
+
+    this._position = origin;
+    this._previousPosition = origin;
+    this._aimPoint = target.currentPosition;
+    this._initialDistance = origin.distanceTo(this._aimPoint);
+  }
+
+  /**
+   * 現在位置（雷撃は着弾地点）
+   */
+  get position(): Position {
+    return this._position;
+  }
+
+  /**
+   * 直前の更新と現在の位置を補間した描画用の位置
+   * @param alpha 直前の更新から次の更新までの進み具合（0〜1）
+   */
+  getInterpolatedPosition(alpha: number): Position {
+    return this._previousPosition.interpolate(this._position, alpha);
+  }
+
+  /**
+   * 目指している地点（追尾弾は目標の現在位置、砲弾は発射時の目標位置）
+   */
+  get aimPoint(): Position {
+    return this._aimPoint;
+  }
+
+  /**
+   * 着弾済みかどうか
+   */
+  get hasImpacted(): boolean {
+    return this._hasImpacted;
+  }
+
+  /**
+   * 飛行中または表示中かどうか
+   */
+  get isActive(): boolean {
+    return this._isActive;
+  }
+
+  /**
+   * 飛行の進捗（0〜1）
+   */
+  get progress(): number {
+    if (this._hasImpacted || this._initialDistance === 0) {
+      return 1;
+    }
+
+    const remaining = this._position.distanceTo(this._aimPoint);
+    return Math.min(1, Math.max(0, 1 - remaining / this._initialDistance));
+  }
+
+  /**
+   * 砲弾の現在の高さ（描画用、砲弾以外は0）
+   */
+  get arcHeight(): number {
+    if (this.type !== ProjectileType.BALLISTIC) {
+      return 0;
+    }
+
+    return Math.sin(Math.PI * this.progress) * Projectile.BALLISTIC_ARC_HEIGHT;
+  }
+
+  /**
+   * 弾を進める
+   * @param deltaTime 経過時間（ミリ秒）
+   * @returns このフレームで着弾した場合はtrue
+   */
+  update(deltaTime: number): boolean {
+    if (!this._isActive) {
+      return false;
+    }
+
+    this._elapsed += deltaTime;
+    this._previousPosition = this._position;
+
+    if (this.type === ProjectileType.BEAM) {
+      return this.updateBeam();
+    }
+
+    // 追尾弾は目標が生きている間だけ狙いを更新する（倒された場合は最後の位置へ向かう）
+    if (this.type === ProjectileType.HOMING && this.target.isAlive) {
+      this._aimPoint = this.target.currentPosition;
+    }
+
+    const step = (this.speed * deltaTime) / 1000;
+    const remaining = this._position.distanceTo(this._aimPoint);
+    if (remaining <= step) {
+      this._position = this._aimPoint;
+      this.impact();
+      return true;
+    }
+
+    if (this._elapsed >= Projectile.MAX_FLIGHT_TIME) {
+      this._isActive = false;
+      return false;
+    }
+
+    this._position = this._position.interpolate(this._aimPoint, step / remaining);
+    return false;
+  }
+
+  /**
+   * 雷撃は最初の更新で目標地点に着弾し、一定時間表示した後に消える
+   */
+  private updateBeam(): boolean {
+    if (!this._hasImpacted) {
+      this._position = this._aimPoint;
+      this._hasImpacted = true;
+      return true;
+    }
+
+    if (this._elapsed >= Projectile.BEAM_DURATION) {
+      this._isActive = false;
+    }
+    return false;
+  }
+
+  /**
+   * 着弾処理（雷撃以外は着弾と同時に消える）
+   */
+  private impact(): void {
+    this._hasImpacted = true;
+    this._isActive = false;
+  }
+}
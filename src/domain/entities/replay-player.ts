@@ -0,0 +1,201 @@
+import { PlayerCommandService } from "../services/player-command-service.js";
+import type { RecordedCommand, Replay } from "../value-objects/replay.js";
+import type { GameSession } from "./game-session.js";
+import type { TimeProvider } from "./game-timer.js";
+
+/**
+ * リプレイを再生するゲームセッションを作成する関数
+ * リプレイのシードとマップでゲームセッションを作成し、指定された時刻プロバイダーを渡して開始した状態で返す
+ */
+export type ReplaySessionFactory = (replay: Replay, timeProvider: TimeProvider) => GameSession;
+
+/**
+ * リプレイ再生エンティティ
+ * 記録された操作を記録時と同じステップで適用しながら試合を再シミュレーションする
+ * 巻き戻しはゲームセッションを作り直して先頭から再シミュレーションすることで行う
+ */
+export class ReplayPlayer implements TimeProvider {
+  static readonly SPEEDS = [1, 2, 4];
+
+  private readonly _commands: RecordedCommand[];
+  private _session: GameSession;
+  private _nextCommandIndex = 0;
+  private _tick = 0;
+  private _accumulator = 0;
+  private _speed = 1;
+  private readonly commandService = new PlayerCommandService();
+
+  constructor(
+    public readonly replay: Replay,
+    private readonly createSession: ReplaySessionFactory
+  ) {
+    this._commands = replay.commands;
+    this._session = createSession(replay, this);
+  }
+
+  /**
+   * 再生中のゲーム内時刻（ミリ秒）
+   * 再生用のゲームセッションはこの時刻からゲーム内時計を始める。制限時間はゲーム内時計のステップ数で計るため、
+   * 記録時に実時間が止まっていても再生速度や巻き戻しに関わらず同じティックで判定される
+   */
+  getCurrentTime(): number {
+    return this.replay.startTime + this._tick * this.replay.step;
+  }
+
+  /**
+   * 再生中のゲームセッション（巻き戻すと作り直される）
+   */
+  get session(): GameSession {
+    return this._session;
+  }
+
+  /**
+   * 再生済みのステップ数
+   */
+  get tick(): number {
+    return this._tick;
+  }
+
+  /**
+   * 再生の進み具合（0〜1）
+   */
+  get progress(): number {
+    return this.replay.endTick === 0 ? 1 : Math.min(1, this._tick / this.replay.endTick);
+  }
+
+  /**
+   * 再生速度の倍率
+   */
+  get speed(): number {
+    return this._speed;
+  }
+
+  /**
+   * 描画用の補間係数（直前のステップから次のステップまでの進み具合、0〜1）
+   */
+  get alpha(): number {
+    return this._accumulator / this.replay.step;
+  }
+
+  /**
+   * 記録の終わりまで再生したか、試合が終了した場合true
+   */
+  get isFinished(): boolean {
+    return this._tick >= this.replay.endTick || !this._session.state.isActive();
+  }
+
+  /**
+   * 再生速度を変更する
+   * @param speed 倍率（1・2・4）
+   */
+  setSpeed(speed: number): void {
+    if (!ReplayPlayer.SPEEDS.includes(speed)) {
+      throw new Error(
+        `再生速度は ${ReplayPlayer.SPEEDS.join("・")} 倍のいずれかである必要があります`
+      );
+    }
+
+    this._speed = speed;
+  }
+
+  /**
+   * 経過時間に再生速度を掛けた分だけ再生を進める
+   * @param deltaTime 前回の更新からの経過時間（ミリ秒）
+   */
+  update(deltaTime: number): void {
+    if (this.isFinished) {
+      return;
+    }
+
+    this._accumulator += deltaTime * this._speed;
+    const steps = Math.floor(this._accumulator / this.replay.step);
+    this._accumulator -= steps * this.replay.step;
+    this._advanceTo(this._tick + steps);
+
+    if (this.isFinished) {
+      this._accumulator = 0;
+    }
+  }
+
+  /**
+   * 指定したステップまで移動する（記録の範囲に丸める）
+   * 現在より前に戻る場合は先頭から再シミュレーションする
+   */
+  seek(tick: number): void {
+    const target = Math.max(0, Math.min(Math.round(tick), this.replay.endTick));
+    if (target < this._tick) {
+      this._restart();
+    }
+
+    this._accumulator = 0;
+    this._advanceTo(target);
+  }
+
+  /**
+   * 指定した波が始まった時点まで移動する
+   * @returns 波が始まる前に記録が終わった場合false
+   */
+  jumpToWave(waveNumber: number): boolean {
+    if (this._session.waveScheduler.waveNumber >= waveNumber) {
+      this._restart();
+    }
+
+    this._accumulator = 0;
+    while (this._session.waveScheduler.waveNumber < waveNumber) {
+      if (this._tick >= this.replay.endTick || !this._advanceStep()) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  /**
+   * ゲームセッションを作り直して先頭に戻る
+   */
+  private _restart(): void {
+    this._tick = 0;
+    this._nextCommandIndex = 0;
+    this._session = this.createSession(this.replay, this);
+  }
+
+  /**
+   * 指定したステップまで再生を進める
+   */
+  private _advanceTo(target: number): void {
+    const end = Math.min(target, this.replay.endTick);
+    while (this._tick < end) {
+      if (!this._advanceStep()) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * 現在のステップで行われた操作を適用してから1ステップ進める
+   * @returns 進めた場合true（試合が終了している、または一時停止のまま記録が終わっている場合false）
+   */
+  private _advanceStep(): boolean {
+    this._applyDueCommands();
+    if (!this._session.state.isRunning()) {
+      return false;
+    }
+
+    this._tick++;
+    this._session.update(this.replay.step);
+    this._tick = this._session.clock.stepCount;
+    return true;
+  }
+
+  /**
+   * 現在のステップまでに記録された未適用の操作を記録順に適用する
+   */
+  private _applyDueCommands(): void {
+    let command = this._commands[this._nextCommandIndex];
+    while (command && command.tick <= this._tick) {
+      // 失敗した操作も記録時と同じく失敗するため結果は確認しない
+      this.commandService.execute(this._session, command);
+      this._nextCommandIndex++;
+      command = this._commands[this._nextCommandIndex];
+    }
+  }
+}
@@ -0,0 +1,41 @@
+import { type RecordedCommand, Replay, type ReplayCommand } from "../value-objects/replay.js";
+import type { GameSession } from "./game-session.js";
+
+/**
+ * リプレイ記録エンティティ
+ * ゲームセッションに対するプレイヤー操作を、操作した時点までに進んだシミュレーションのステップ数とともに記録する
+ */
+export class ReplayRecorder {
+  private readonly _commands: RecordedCommand[] = [];
+
+  constructor(private readonly session: GameSession) {}
+
+  /**
+   * 記録した操作の数
+   */
+  get commandCount(): number {
+    return this._commands.length;
+  }
+
+  /**
+   * プレイヤー操作を記録する（操作をゲームセッションに適用した直後に呼ぶ）
+   */
+  record(command: ReplayCommand): void {
+    this._commands.push({ ...command, tick: this.session.clock.stepCount });
+  }
+
+  /**
+   * ここまでの記録からリプレイを作成する
+   */
+  toReplay(): Replay {
+    const clock = this.session.clock;
+    return new Replay(
+      this.session.seed,
+      this.session.gameMap.id,
+      clock.startTime,
+      clock.step,
+      clock.stepCount,
+      this._commands
+    );
+  }
+}
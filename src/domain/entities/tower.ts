@@ -1,5 +1,12 @@
-import type { TowerType } from "../value-objects/tower-type";
+import { TowerType } from "../value-objects/tower-type";
+import type { DamageType } from "../value-objects/damage-type";
 import type { Position } from "../value-objects/position";
+import { SpecialAbility } from "../value-objects/special-ability";
+import { TargetingStrategy } from "../value-objects/targeting-strategy";
+import { TowerBuff } from "../value-objects/tower-buff";
+import { type AttackHit, TowerAbilityService } from "../services/tower-ability-service";
+import { TargetingService } from "../services/targeting-service";
+import type { Card } from "./card";
 import type { Enemy } from "./enemy";
 
 /**
@@ -10,22 +17,193 @@ export interface TowerStats {
   range: number;
   attackSpeed: number; // 攻撃間隔（ミリ秒）
   cost: number;
+  critChance?: number; // 会心率（0〜1、省略時は0）
+  critMultiplier?: number; // 会心時のダメージ倍率（省略時はCombatRollServiceの既定値）
+  damageVariance?: number; // ダメージのばらつき（0.2で±20%、省略時は0）
 }
 
 /**
  * タワーエンティティ
  */
 export class Tower {
+  private static readonly abilityService = new TowerAbilityService();
+  private static readonly targetingService = new TargetingService();
+  private static createdCount = 0;
+
   private _lastAttackTime = 0;
   private _currentTarget: Enemy | null = null;
+  private _lastHits: AttackHit[] = [];
+  private _stats: TowerStats;
+  private _specialAbility: SpecialAbility;
+  private _level = 1;
+  private _upgradeSpent = 0;
+  private _targetingStrategy: TargetingStrategy;
+  private _buff = TowerBuff.none();
+  private readonly _maxHealth: number;
+  private _health: number;
+  private _disabledTime = 0; // ボスの妨害で停止している残り時間（ミリ秒）
 
   constructor(
     public readonly id: string,
     public readonly type: TowerType,
     public readonly position: Position,
-    public readonly stats: TowerStats,
+    stats: TowerStats,
+    specialAbility: SpecialAbility = SpecialAbility.NONE,
     public readonly createdAt: Date = new Date()
-  ) {}
+  ) {
+    this._stats = { ...stats };
+    this._specialAbility = specialAbility;
+    this._targetingStrategy = TargetingStrategy.getDefaultForTowerType(type);
+    this._maxHealth = Tower.getDefaultMaxHealth(type);
+    this._health = this._maxHealth;
+  }
+
+  /**
+   * オーラを含まない性能（強化で変化する）
+   */
+  get baseStats(): Readonly<TowerStats> {
+    return this._stats;
+  }
+
+  /**
+   * 支援タワーのオーラを反映した実効性能
+   */
+  get stats(): Readonly<TowerStats> {
+    if (!this._buff.isActive) {
+      return this._stats;
+    }
+
+    return {
+      ...this._stats,
+      damage: Math.round(this._stats.damage * this._buff.damageMultiplier),
+      range: Math.round(this._stats.range * this._buff.rangeMultiplier),
+    };
+  }
+
+  /**
+   * 支援タワーのオーラによる強化
+   */
+  get buff(): TowerBuff {
+    return this._buff;
+  }
+
+  /**
+   * オーラによる強化を設定（AuraServiceが毎フレーム更新する）
+   */
+  setBuff(buff: TowerBuff): void {
+    this._buff = buff;
+  }
+
+  /**
+   * 特殊能力（強化で解放される場合がある）
+   */
+  get specialAbility(): SpecialAbility {
+    return this._specialAbility;
+  }
+
+  /**
+   * 攻撃のダメージの種類
+   */
+  get damageType(): DamageType {
+    return TowerType.getDamageType(this.type);
+  }
+
+  /**
+   * 強化レベル（設置時は1）
+   */
+  get level(): number {
+    return this._level;
+  }
+
+  /**
+   * 強化に費やしたマナの合計
+   */
+  get upgradeSpent(): number {
+    return this._upgradeSpent;
+  }
+
+  /**
+   * 設置コストと強化費用を合わせた総投資額
+   */
+  get totalInvestment(): number {
+    return this._stats.cost + this._upgradeSpent;
+  }
+
+  /**
+   * 耐久値の最大値
+   */
+  get maxHealth(): number {
+    return this._maxHealth;
+  }
+
+  /**
+   * 現在の耐久値
+   */
+  get health(): number {
+    return this._health;
+  }
+
+  /**
+   * 敵の攻撃で破壊され、瓦礫になっているかどうか
+   * 瓦礫は攻撃もオーラの展開もせず、修理するまで配置場所を塞ぐ
+   */
+  get isDestroyed(): boolean {
+    return this._health <= 0;
+  }
+
+  /**
+   * 敵の攻撃によるダメージを受ける
+   * @returns 実際に減った耐久値
+   */
+  takeDamage(damage: number): number {
+    if (damage <= 0 || this.isDestroyed) {
+      return 0;
+    }
+
+    const previousHealth = this._health;
+    this._health = Math.max(0, this._health - damage);
+    if (this.isDestroyed) {
+      this._currentTarget = null;
+    }
+    return previousHealth - this._health;
+  }
+
+  /**
+   * 耐久値を最大まで回復する（瓦礫の場合は再建する）
+   * 修理費用の計算と支払いはTowerRepairServiceとGameSessionが行う
+   */
+  repair(): void {
+    this._health = this._maxHealth;
+  }
+
+  /**
+   * ボスの妨害で一時的に停止しているかどうか
+   * 停止中は攻撃もオーラの展開もしない
+   */
+  get isDisabled(): boolean {
+    return this._disabledTime > 0;
+  }
+
+  /**
+   * 一定時間停止させる（停止中に再び停止させた場合は長い方の残り時間を採用する）
+   * @param duration 停止する時間（ミリ秒）
+   */
+  disable(duration: number): void {
+    if (duration <= 0 || this.isDestroyed) {
+      return;
+    }
+
+    this._disabledTime = Math.max(this._disabledTime, duration);
+    this._currentTarget = null;
+  }
+
+  /**
+   * 停止の残り時間を進める
+   * @param deltaTime 経過時間（ミリ秒）
+   */
+  updateDisabledTime(deltaTime: number): void {
+    this._disabledTime = Math.max(0, this._disabledTime - deltaTime);
+  }
 
   /**
    * 現在のターゲット
@@ -34,47 +212,132 @@ export class Tower {
     return this._currentTarget;
   }
 
+  /**
+   * 直前の攻撃の命中結果
+   */
+  get lastHits(): AttackHit[] {
+    return [...this._lastHits];
+  }
+
+  /**
+   * 攻撃対象の選択方針
+   */
+  get targetingStrategy(): TargetingStrategy {
+    return this._targetingStrategy;
+  }
+
+  /**
+   * 攻撃対象の選択方針を変更
+   * 新しい方針をすぐに反映するため、現在のターゲットは解除する
+   */
+  setTargetingStrategy(strategy: TargetingStrategy): void {
+    if (!TargetingStrategy.isValid(strategy)) {
+      throw new Error(`無効な攻撃対象選択方針です: ${strategy}`);
+    }
+    if (strategy === this._targetingStrategy) {
+      return;
+    }
+
+    this._targetingStrategy = strategy;
+    this._currentTarget = null;
+  }
+
+  /**
+   * 強化を適用してレベルを1上げる
+   * 強化内容の決定と検証はTowerUpgradeServiceが行う
+   * @param stats 強化後の性能
+   * @param specialAbility 強化後の特殊能力
+   * @param cost 強化に支払ったマナ
+   */
+  upgrade(stats: TowerStats, specialAbility: SpecialAbility, cost: number): void {
+    if (cost < 0) {
+      throw new Error("強化コストは0以上である必要があります");
+    }
+
+    this._stats = { ...stats };
+    this._specialAbility = specialAbility;
+    this._level++;
+    this._upgradeSpent += cost;
+  }
+
   /**
    * 攻撃可能かどうか判定
    */
   canAttack(currentTime: number): boolean {
+    if (this.isDestroyed || this.isDisabled) {
+      return false;
+    }
     return currentTime - this._lastAttackTime >= this.stats.attackSpeed;
   }
 
   /**
-   * 範囲内の敵を検索
+   * 敵の能力を考慮して、このタワーが狙える敵かどうか判定
+   * 地上専用のタワーは飛行する敵を、隠密を見破れないタワーは隠密状態の敵を狙えない
+   */
+  canTarget(enemy: Enemy): boolean {
+    if (enemy.isFlying && TowerType.isGroundOnly(this.type)) {
+      return false;
+    }
+    if (enemy.isStealthed && !TowerType.canDetectStealth(this.type)) {
+      return false;
+    }
+    return true;
+  }
+
+  /**
+   * 範囲内の狙える敵を検索
    */
   findEnemiesInRange(enemies: Enemy[]): Enemy[] {
     return enemies.filter(enemy => 
       enemy.isAlive && 
+      this.canTarget(enemy) &&
       this.position.distanceTo(enemy.currentPosition) <= this.stats.range
     );
   }
 
   /**
-   * ターゲットを選択
+   * 攻撃対象の選択方針に従ってターゲットを選択
    */
   selectTarget(enemies: Enemy[]): Enemy | null {
-    const enemiesInRange = this.findEnemiesInRange(enemies);
-    
-    if (enemiesInRange.length === 0) {
+    return Tower.targetingService.selectTarget(
+      this._targetingStrategy,
+      this.position,
+      this.findEnemiesInRange(enemies)
+    );
+  }
+
+  /**
+   * ターゲットを維持または再選択する
+   * 現在のターゲットが倒された・射程外に出た場合のみ選択方針に従って選び直す
+   */
+  acquireTarget(enemies: Enemy[]): Enemy | null {
+    if (this.isDestroyed || this.isDisabled) {
       return null;
     }
 
-    // 最も進行度の高い敵を優先
-    return enemiesInRange.reduce((closest, enemy) => 
-      enemy.pathProgress > closest.pathProgress ? enemy : closest
-    );
+    if (!this._currentTarget || !this._currentTarget.isAlive || 
+        this.position.distanceTo(this._currentTarget.currentPosition) > this.stats.range) {
+      this._currentTarget = this.selectTarget(enemies);
+    }
+
+    return this._currentTarget;
   }
 
   /**
-   * 敵を攻撃
+   * 敵に向けて発射する（ダメージは与えず、クールダウンとターゲットのみ更新）
+   * 弾による攻撃ではダメージは着弾時に解決される
+   * @returns 発射できた場合はtrue
    */
-  attack(target: Enemy, currentTime: number): boolean {
+  fire(target: Enemy, currentTime: number): boolean {
     if (!this.canAttack(currentTime)) {
       return false;
     }
 
+    // 攻撃力を持たないタワー（支援タワー等）は発射しない
+    if (this.stats.damage <= 0) {
+      return false;
+    }
+
     if (!target.isAlive) {
       return false;
     }
@@ -84,8 +347,6 @@ export class Tower {
       return false;
     }
 
-    // ダメージを与える
-    target.takeDamage(this.stats.damage);
     this._lastAttackTime = currentTime;
     this._currentTarget = target;
 
@@ -93,19 +354,43 @@ export class Tower {
   }
 
   /**
-   * 更新処理
+   * 敵を即座に攻撃
+   * @param target 主目標
+   * @param currentTime 現在時刻（ミリ秒）
+   * @param enemies 範囲・連鎖攻撃の対象候補
    */
-  update(enemies: Enemy[], currentTime: number): { attacked: boolean; target?: Enemy } {
-    // 現在のターゲットが無効になった場合は新しいターゲットを選択
-    if (!this._currentTarget || !this._currentTarget.isAlive || 
-        this.position.distanceTo(this._currentTarget.currentPosition) > this.stats.range) {
-      this._currentTarget = this.selectTarget(enemies);
+  attack(target: Enemy, currentTime: number, enemies: Enemy[] = [target]): boolean {
+    if (!this.fire(target, currentTime)) {
+      return false;
     }
 
+    // 特殊能力を考慮してダメージを与える（範囲・連鎖攻撃も狙えない敵には当たらない）
+    this._lastHits = Tower.abilityService.resolveAttack({
+      ability: this._specialAbility,
+      origin: this.position,
+      range: this.stats.range,
+      damage: this.stats.damage,
+      damageType: this.damageType,
+      target,
+      enemies: enemies.filter((enemy) => this.canTarget(enemy)),
+    });
+
+    return true;
+  }
+
+  /**
+   * 更新処理（即着弾で攻撃する）
+   */
+  update(
+    enemies: Enemy[],
+    currentTime: number
+  ): { attacked: boolean; target?: Enemy; hits?: AttackHit[] } {
+    const target = this.acquireTarget(enemies);
+
     // 攻撃実行
-    if (this._currentTarget && this.canAttack(currentTime)) {
-      const attacked = this.attack(this._currentTarget, currentTime);
-      return { attacked, target: attacked ? this._currentTarget : undefined };
+    if (target && this.canAttack(currentTime)) {
+      const attacked = this.attack(target, currentTime, enemies);
+      return attacked ? { attacked, target, hits: this.lastHits } : { attacked };
     }
 
     return { attacked: false };
@@ -130,23 +415,40 @@ export class Tower {
   }
 
   /**
-   * カードからタワーを作成
+   * タワータイプに基づく耐久値の最大値を取得
    */
-  static fromCard(card: any, position: Position): Tower {
-    // カード名からタワータイプを推定（簡略化）
-    let towerType: TowerType = "ARCHER";
-    
-    if (card.name.includes("弓") || card.name.includes("archer")) {
-      towerType = "ARCHER";
-    } else if (card.name.includes("大砲") || card.name.includes("cannon")) {
-      towerType = "CANNON";
-    } else if (card.name.includes("魔法") || card.name.includes("magic")) {
-      towerType = "MAGIC";
-    }
+  static getDefaultMaxHealth(type: TowerType): number {
+    const healthMap: Record<TowerType, number> = {
+      ARCHER: 150,
+      CANNON: 250,
+      MAGIC: 120,
+      ICE: 150,
+      FIRE: 180,
+      LIGHTNING: 120,
+      POISON: 130,
+      SUPPORT: 200,
+    };
+
+    return healthMap[type] as number;
+  }
 
-    const stats = Tower.getDefaultStats(towerType);
-    const towerId = `tower-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+  /**
+   * カードから作成されるタワーの性能を取得
+   * タワータイプのデフォルト性能にカード固有の補正を適用し、コストはカードのコストを用いる
+   */
+  static getCardStats(card: Card): TowerStats {
+    return {
+      ...Tower.getDefaultStats(card.towerType),
+      ...card.towerStats,
+      cost: card.cost.value,
+    };
+  }
 
-    return new Tower(towerId, towerType, position, stats);
+  /**
+   * カードからタワーを作成
+   * @param towerId タワーID（省略時は作成順の連番）
+   */
+  static fromCard(card: Card, position: Position, towerId = `tower-${++Tower.createdCount}`): Tower {
+    return new Tower(towerId, card.towerType, position, Tower.getCardStats(card), card.specialAbility);
   }
-}
\ No newline at end of file
+}
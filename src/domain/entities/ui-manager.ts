@@ -1,4 +1,6 @@
 import { Position } from "../value-objects/position";
+import type { TargetingStrategy } from "../value-objects/targeting-strategy";
+import type { TileGrid } from "../value-objects/tile-grid";
 
 /**
  * ゲーム状態インターフェース
@@ -8,6 +10,18 @@ export interface GameState {
   score: number;
   health: number;
   maxHealth: number;
+  boss?: BossBarState | null; // ボス戦の間だけ設定する
+}
+
+/**
+ * ボスの体力バーの状態インターフェース
+ */
+export interface BossBarState {
+  name: string;
+  phaseName: string;
+  health: number;
+  maxHealth: number;
+  shield: number;
 }
 
 /**
@@ -17,6 +31,8 @@ export interface HandState {
   cards: Card[];
   currentMana: number;
   maxMana: number;
+  drawPileCount?: number;
+  discardPileCount?: number;
 }
 
 /**
@@ -46,6 +62,27 @@ export interface Tower {
   type: string;
 }
 
+/**
+ * タワー詳細パネル状態インターフェース
+ */
+export interface TowerPanelState {
+  towerId: string;
+  name: string;
+  level: number;
+  maxLevel: number;
+  damage: number;
+  range: number;
+  attackSpeed: number;
+  critChance?: number; // 会心率（0〜1、会心しないタワーは省略）
+  specialAbility: string;
+  targetingStrategy: TargetingStrategy;
+  upgradeCost: number | null; // 最大レベルの場合はnull
+  sellRefund: number;
+  health: number;
+  maxHealth: number;
+  repairCost: number | null; // 損傷していない場合はnull
+}
+
 /**
  * ヘッダーUIインターフェース
  */
@@ -53,6 +90,7 @@ export interface HeaderUI {
   updateTimer(timeRemaining: number): void;
   updateScore(score: number): void;
   updateHealth(current: number, max: number): void;
+  updateBoss(boss: BossBarState | null): void;
   render(context: CanvasRenderingContext2D, deltaTime: number): void;
 }
 
@@ -62,6 +100,7 @@ export interface HeaderUI {
 export interface HandUI {
   updateHand(cards: Card[]): void;
   updateMana(current: number, max: number): void;
+  updateDeckCounts(drawPileCount: number, discardPileCount: number): void;
   selectCard(index: number): void;
   render(context: CanvasRenderingContext2D, deltaTime: number): void;
 }
@@ -72,6 +111,9 @@ export interface HandUI {
 export interface GameFieldUI {
   updateEnemies(enemies: Enemy[]): void;
   updateTowers(towers: Tower[]): void;
+  updateMovementPath(pathPoints: Position[]): void;
+  updateMovementPaths(paths: Position[][]): void;
+  updateTileGrid(grid: TileGrid): void;
   render(context: CanvasRenderingContext2D, deltaTime: number): void;
 }
 
@@ -84,6 +126,18 @@ export interface TooltipUI {
   render(context: CanvasRenderingContext2D, deltaTime: number): void;
 }
 
+/**
+ * タワー詳細パネルUIインターフェース
+ */
+export interface TowerPanelUI {
+  readonly isVisible: boolean;
+  show(state: TowerPanelState): void;
+  hide(): void;
+  containsPoint(position: Position): boolean;
+  getStrategyAt(position: Position): TargetingStrategy | null;
+  render(context: CanvasRenderingContext2D, deltaTime: number): void;
+}
+
 /**
  * UI要素の管理と状態更新を行うエンティティ
  */
@@ -92,17 +146,20 @@ export class UIManager {
   public readonly handUI: HandUI;
   public readonly gameFieldUI: GameFieldUI;
   public readonly tooltipUI: TooltipUI;
+  public readonly towerPanelUI: TowerPanelUI | null;
 
   constructor(
     headerUI: HeaderUI,
     handUI: HandUI,
     gameFieldUI: GameFieldUI,
-    tooltipUI: TooltipUI
+    tooltipUI: TooltipUI,
+    towerPanelUI: TowerPanelUI | null = null
   ) {
     this.headerUI = headerUI;
     this.handUI = handUI;
     this.gameFieldUI = gameFieldUI;
     this.tooltipUI = tooltipUI;
+    this.towerPanelUI = towerPanelUI;
   }
 
   /**
@@ -112,6 +169,7 @@ export class UIManager {
     this.headerUI.updateTimer(state.timeRemaining);
     this.headerUI.updateScore(state.score);
     this.headerUI.updateHealth(state.health, state.maxHealth);
+    this.headerUI.updateBoss(state.boss ?? null);
   }
 
   /**
@@ -120,6 +178,10 @@ export class UIManager {
   updateHandState(handState: HandState): void {
     this.handUI.updateHand(handState.cards);
     this.handUI.updateMana(handState.currentMana, handState.maxMana);
+
+    if (handState.drawPileCount !== undefined && handState.discardPileCount !== undefined) {
+      this.handUI.updateDeckCounts(handState.drawPileCount, handState.discardPileCount);
+    }
   }
 
   /**
@@ -136,6 +198,34 @@ export class UIManager {
     this.tooltipUI.hide();
   }
 
+  /**
+   * タワー詳細パネルを表示
+   */
+  showTowerPanel(state: TowerPanelState): void {
+    this.towerPanelUI?.show(state);
+  }
+
+  /**
+   * タワー詳細パネルを非表示
+   */
+  hideTowerPanel(): void {
+    this.towerPanelUI?.hide();
+  }
+
+  /**
+   * 指定位置がタワー詳細パネル上かどうか
+   */
+  isOnTowerPanel(position: Position): boolean {
+    return this.towerPanelUI?.containsPoint(position) ?? false;
+  }
+
+  /**
+   * タワー詳細パネルで指定位置にある選択方針ボタンを取得
+   */
+  getTowerPanelStrategyAt(position: Position): TargetingStrategy | null {
+    return this.towerPanelUI?.getStrategyAt(position) ?? null;
+  }
+
   /**
    * 敵情報を更新
    */
@@ -157,6 +247,20 @@ export class UIManager {
     this.gameFieldUI.updateMovementPath(pathPoints);
   }
 
+  /**
+   * 全レーンの移動パス情報を更新
+   */
+  updateMovementPaths(paths: Position[][]): void {
+    this.gameFieldUI.updateMovementPaths(paths);
+  }
+
+  /**
+   * 戦場のタイルグリッドを更新
+   */
+  updateTileGrid(grid: TileGrid): void {
+    this.gameFieldUI.updateTileGrid(grid);
+  }
+
   /**
    * 全UIコンポーネントを描画
    */
@@ -164,6 +268,7 @@ export class UIManager {
     this.headerUI.render(context, deltaTime);
     this.handUI.render(context, deltaTime);
     this.gameFieldUI.render(context, deltaTime);
+    this.towerPanelUI?.render(context, deltaTime);
     this.tooltipUI.render(context, deltaTime);
   }
 }
\ No newline at end of file
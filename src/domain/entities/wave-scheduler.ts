@@ -1,7 +1,10 @@
+import type { RandomSource } from "../services/random-service";
+import { GameMap } from "../value-objects/game-map";
 import type { MovementPath } from "../value-objects/movement-path";
 import type { WaveConfiguration } from "../value-objects/wave-configuration";
 import type { Enemy } from "./enemy";
 import { EnemyWave } from "./enemy-wave";
+import { SystemTimeProvider, type TimeProvider } from "./game-timer";
 
 /**
  * 敵の波全体を統括管理する集約ルート
@@ -16,7 +19,9 @@ export class WaveScheduler {
 
   constructor(
     private readonly waveConfiguration: WaveConfiguration,
-    public readonly gameStartTime: Date
+    public readonly gameStartTime: Date,
+    private readonly random: RandomSource = Math.random,
+    private readonly timeProvider: TimeProvider = new SystemTimeProvider()
   ) {
     this.waveInterval = waveConfiguration.getWaveInterval();
     // 最初の波はゲーム開始から3秒後に開始
@@ -57,9 +62,9 @@ export class WaveScheduler {
   /**
    * 更新処理
    * @param currentTime 現在時刻
-   * @param movementPath 移動パス
+   * @param route マップ（移動パスのみを渡した場合は単一レーンとして扱う）
    */
-  update(currentTime: Date, movementPath: MovementPath): void {
+  update(currentTime: Date, route: GameMap | MovementPath): void {
     if (!this._isActive) {
       return;
     }
@@ -67,7 +72,8 @@ export class WaveScheduler {
     // 現在の波の敵生成処理
     if (this._currentWave && !this._currentWave.isComplete) {
       if (this._currentWave.canSpawnEnemy()) {
-        this._currentWave.spawnNextEnemy(movementPath);
+        const gameMap = route instanceof GameMap ? route : GameMap.fromPath(route);
+        this._currentWave.spawnNextEnemies(gameMap);
       }
 
       // 死亡した敵を除去
@@ -76,7 +82,7 @@ export class WaveScheduler {
 
     // 次の波開始判定
     if (this.canStartNextWave(currentTime)) {
-      this.startNextWave(movementPath);
+      this.startNextWave(route);
     }
   }
 
@@ -90,10 +96,10 @@ export class WaveScheduler {
       return false;
     }
 
-    const now = currentTime || new Date();
+    const now = currentTime || new Date(this.timeProvider.getCurrentTime());
 
-    // 現在の波が存在し、まだ完了していない場合は開始不可
-    if (this._currentWave && !this._currentWave.isComplete) {
+    // 現在の波が存在し、まだ完了していない場合は開始不可（完了状態はここで判定し直す）
+    if (this._currentWave && !this._currentWave.isWaveComplete()) {
       return false;
     }
 
@@ -103,10 +109,10 @@ export class WaveScheduler {
 
   /**
    * 次の波を開始する
-   * @param movementPath 移動パス
+   * @param _route マップまたは移動パス（敵は波の更新時に生成される）
    * @returns 開始された波、開始できない場合はnull
    */
-  startNextWave(movementPath: MovementPath): EnemyWave | null {
+  startNextWave(_route: GameMap | MovementPath): EnemyWave | null {
     if (!this.canStartNextWave()) {
       return null;
     }
@@ -115,10 +121,15 @@ export class WaveScheduler {
     this._waveNumber++;
 
     // 新しい波を作成
-    this._currentWave = new EnemyWave(this._waveNumber, this.waveConfiguration);
+    this._currentWave = new EnemyWave(
+      this._waveNumber,
+      this.waveConfiguration,
+      this.random,
+      this.timeProvider
+    );
 
     // 次の波の時間を設定
-    this._nextWaveTime = new Date(Date.now() + this.waveInterval);
+    this._nextWaveTime = new Date(this.timeProvider.getCurrentTime() + this.waveInterval);
 
     return this._currentWave;
   }
@@ -135,6 +146,14 @@ export class WaveScheduler {
     return this._currentWave.getAllAliveEnemies();
   }
 
+  /**
+   * 分裂体など、波の途中で出現した敵を現在の波に加える
+   * @param enemies 加える敵
+   */
+  addEnemies(enemies: Enemy[]): void {
+    this._currentWave?.addEnemies(enemies);
+  }
+
   /**
    * 指定した敵を検索する
    * @param enemyId 敵ID
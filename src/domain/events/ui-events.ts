@@ -1,3 +1,4 @@
+import type { DamageType } from "../value-objects/damage-type";
 import { Position } from "../value-objects/position";
 
 /**
@@ -63,6 +64,13 @@ export interface TowerUpgradedEvent extends UIEvent {
   upgradeCost: number;
 }
 
+export interface TowerSoldEvent extends UIEvent {
+  type: 'tower-sold';
+  towerId: string;
+  position: Position;
+  refund: number;
+}
+
 /**
  * 敵関連イベント
  */
@@ -78,6 +86,8 @@ export interface EnemyHitEvent extends UIEvent {
   damage: number;
   position: Position;
   isCritical: boolean;
+  damageType?: DamageType;
+  isResisted?: boolean; // 装甲・耐性で軽減されたかどうか
 }
 
 export interface EnemyDestroyedEvent extends UIEvent {
@@ -175,6 +185,7 @@ export type AllUIEvents =
   | TowerSelectedEvent
   | TowerPlacedEvent
   | TowerUpgradedEvent
+  | TowerSoldEvent
   | EnemySelectedEvent
   | EnemyHitEvent
   | EnemyDestroyedEvent
@@ -291,6 +302,61 @@ export class UIEventFactory {
     };
   }
 
+  /**
+   * タワー選択イベントを作成
+   */
+  static createTowerSelected(
+    towerId: string,
+    position: Position,
+    source?: string
+  ): TowerSelectedEvent {
+    return {
+      type: 'tower-selected',
+      timestamp: performance.now(),
+      source,
+      towerId,
+      position,
+    };
+  }
+
+  /**
+   * タワー強化イベントを作成
+   */
+  static createTowerUpgraded(
+    towerId: string,
+    newLevel: number,
+    upgradeCost: number,
+    source?: string
+  ): TowerUpgradedEvent {
+    return {
+      type: 'tower-upgraded',
+      timestamp: performance.now(),
+      source,
+      towerId,
+      newLevel,
+      upgradeCost,
+    };
+  }
+
+  /**
+   * タワー売却イベントを作成
+   */
+  static createTowerSold(
+    towerId: string,
+    position: Position,
+    refund: number,
+    source?: string
+  ): TowerSoldEvent {
+    return {
+      type: 'tower-sold',
+      timestamp: performance.now(),
+      source,
+      towerId,
+      position,
+      refund,
+    };
+  }
+
   /**
    * 敵ヒットイベントを作成
    */
@@ -299,7 +365,9 @@ export class UIEventFactory {
     damage: number,
     position: Position,
     isCritical: boolean,
-    source?: string
+    source?: string,
+    damageType?: DamageType,
+    isResisted = false
   ): EnemyHitEvent {
     return {
       type: 'enemy-hit',
@@ -309,6 +377,8 @@ export class UIEventFactory {
       damage,
       position,
       isCritical,
+      damageType,
+      isResisted,
     };
   }
 
@@ -7,6 +7,7 @@ export { Card } from "./entities/card.js";
 export { CardLibrary } from "./entities/card-library.js";
 export { CardPool } from "./entities/card-pool.js";
 export { Hand } from "./entities/hand.js";
+export { Deck } from "./entities/deck.js";
 
 // 値オブジェクト
 export { GameState } from "./value-objects/game-state.js";
@@ -17,6 +18,7 @@ export { GameEndReason } from "./value-objects/game-end-reason.js";
 export { EnemyType } from "./value-objects/enemy-type.js";
 export { CardCost } from "./value-objects/card-cost.js";
 export { SpecialAbility } from "./value-objects/special-ability.js";
+export { CardRarity } from "./value-objects/card-rarity.js";
 export { TowerType } from "./value-objects/tower-type.js";
 
 // ドメインサービス
@@ -36,4 +38,10 @@ export {
 } from "./events/game-session-events.js";
 
 // 型定義
-export type { SessionStats } from "./entities/game-session.js";
\ No newline at end of file
+export type {
+  SessionStats,
+  DrawResult,
+  TowerUpgradeResult,
+  TowerSellOptions,
+  TowerSellResult,
+} from "./entities/game-session.js";
\ No newline at end of file
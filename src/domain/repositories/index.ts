@@ -1,2 +1,3 @@
 export * from "./card-library-repository.js";
 export * from "./card-pool-repository.js";
+export * from "./wave-configuration-repository.js";
@@ -0,0 +1,11 @@
+import type { WaveConfiguration } from "../value-objects/wave-configuration.js";
+
+/**
+ * 波設定リポジトリインターフェース
+ */
+export interface IWaveConfigurationRepository {
+  /**
+   * 波設定を取得
+   */
+  getWaveConfiguration(): Promise<WaveConfiguration>;
+}
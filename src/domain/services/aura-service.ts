@@ -0,0 +1,132 @@
+import type { Tower } from "../entities/tower";
+import { SpecialAbility } from "../value-objects/special-ability";
+import type { TileGrid } from "../value-objects/tile-grid";
+import { TileType } from "../value-objects/tile-type";
+import { TowerBuff } from "../value-objects/tower-buff";
+
+/**
+ * 支援タワーが周囲に展開するオーラ
+ */
+export interface TowerAura {
+  ability: SpecialAbility; // RANGE_BOOST または DAMAGE_BOOST
+  radius: number;
+  strength: number; // 能力値の上昇率（0.2で20%上昇）
+}
+
+/**
+ * 支援タワーのオーラを周囲のタワーに反映するドメインサービス
+ *
+ * 重複時の規則:
+ * - 同じ種類のオーラは加算せず、最も強いものだけを適用する
+ * - 射程強化と攻撃力強化は別々に適用され、併用できる
+ * - オーラを展開するタワー自身や攻撃しないタワーは強化を受けない
+ * - 強化タイル上のタワーは、オーラとは別に地形の強化を乗算で受ける
+ */
+export class AuraService {
+  static readonly RANGE_BOOST_STRENGTH = 0.2;
+  static readonly DAMAGE_BOOST_STRENGTH = 0.25;
+  static readonly STRENGTH_PER_LEVEL = 0.1;
+  static readonly BONUS_TILE_STRENGTH = 0.15;
+
+  /**
+   * タワーが展開するオーラを取得
+   * 効果範囲は支援タワー自身の射程、強さは強化レベルに応じて上昇する
+   * @returns オーラを持たないタワー・瓦礫になったタワー・停止中のタワーの場合はnull
+   */
+  getAura(tower: Tower): TowerAura | null {
+    if (tower.isDestroyed || tower.isDisabled) {
+      return null;
+    }
+
+    const baseStrength = this.getBaseStrength(tower.specialAbility);
+    if (baseStrength === null) {
+      return null;
+    }
+
+    return {
+      ability: tower.specialAbility,
+      radius: tower.baseStats.range,
+      strength: baseStrength + AuraService.STRENGTH_PER_LEVEL * (tower.level - 1),
+    };
+  }
+
+  /**
+   * 周囲のオーラからタワーが受ける強化を計算する
+   * @param tower 強化を受けるタワー
+   * @param towers 設置済みのすべてのタワー
+   */
+  calculateBuff(tower: Tower, towers: Tower[]): TowerBuff {
+    if (!this.canReceiveBuff(tower)) {
+      return TowerBuff.none();
+    }
+
+    let damageBoost = 0;
+    let rangeBoost = 0;
+
+    for (const source of towers) {
+      if (source === tower) {
+        continue;
+      }
+
+      const aura = this.getAura(source);
+      if (!aura || source.position.distanceTo(tower.position) > aura.radius) {
+        continue;
+      }
+
+      if (aura.ability === SpecialAbility.DAMAGE_BOOST) {
+        damageBoost = Math.max(damageBoost, aura.strength);
+      } else {
+        rangeBoost = Math.max(rangeBoost, aura.strength);
+      }
+    }
+
+    return new TowerBuff(1 + damageBoost, 1 + rangeBoost);
+  }
+
+  /**
+   * 強化タイルからタワーが受ける強化を計算する
+   * @param tower 強化を受けるタワー
+   * @param grid 戦場のタイルグリッド
+   */
+  calculateTileBuff(tower: Tower, grid: TileGrid): TowerBuff {
+    if (!this.canReceiveBuff(tower) || grid.getTileAt(tower.position) !== TileType.BONUS) {
+      return TowerBuff.none();
+    }
+
+    const multiplier = 1 + AuraService.BONUS_TILE_STRENGTH;
+    return new TowerBuff(multiplier, multiplier);
+  }
+
+  /**
+   * すべてのタワーにオーラと強化タイルによる強化を反映する（毎フレーム呼び出す）
+   * @param towers 設置済みのすべてのタワー
+   * @param grid 戦場のタイルグリッド（省略時は地形の強化なし）
+   */
+  applyAuras(towers: Tower[], grid?: TileGrid): void {
+    for (const tower of towers) {
+      const buff = this.calculateBuff(tower, towers);
+      tower.setBuff(grid ? buff.combine(this.calculateTileBuff(tower, grid)) : buff);
+    }
+  }
+
+  /**
+   * オーラの強化を受けられるタワーかどうか
+   */
+  private canReceiveBuff(tower: Tower): boolean {
+    return this.getAura(tower) === null && tower.baseStats.damage > 0 && !tower.isDestroyed;
+  }
+
+  /**
+   * 特殊能力ごとのオーラの基本強度
+   */
+  private getBaseStrength(ability: SpecialAbility): number | null {
+    switch (ability) {
+      case SpecialAbility.RANGE_BOOST:
+        return AuraService.RANGE_BOOST_STRENGTH;
+      case SpecialAbility.DAMAGE_BOOST:
+        return AuraService.DAMAGE_BOOST_STRENGTH;
+      default:
+        return null;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+import type { Enemy } from "../entities/enemy";
+import type { Tower } from "../entities/tower";
+import { type BossAction, BossActionType } from "../value-objects/boss-phase";
+import type { Position } from "../value-objects/position";
+import type { EnemySpawningService } from "./enemy-spawning-service";
+
+/**
+ * ボスの行動を適用した結果
+ */
+export interface BossActionResult {
+  summoned: Enemy[]; // 召喚された手下（波に加える必要がある）
+  disabledTowers: Tower[]; // 停止させたタワー
+}
+
+/**
+ * ボスの行動の効果を適用するドメインサービス
+ * 行動を発動するタイミングはBossEncounterが決める
+ */
+export class BossActionService {
+  constructor(private readonly spawningService: EnemySpawningService) {}
+
+  /**
+   * 行動を適用する
+   * @param boss 行動するボス
+   * @param action 行動
+   * @param position 予兆を出した位置（タワーを停止させる範囲の中心）
+   * @param towers 設置済みのタワー
+   * @param spawnTime 召喚した手下の生成時刻
+   */
+  execute(
+    boss: Enemy,
+    action: BossAction,
+    position: Position,
+    towers: Tower[],
+    spawnTime: Date
+  ): BossActionResult {
+    const result: BossActionResult = { summoned: [], disabledTowers: [] };
+    if (!boss.isAlive) {
+      return result;
+    }
+
+    switch (action.type) {
+      case BossActionType.SPEED_BURST:
+        boss.applySpeedBurst(action.multiplier, action.duration);
+        break;
+      case BossActionType.SUMMON:
+        result.summoned = this.spawningService.spawnSummonedEnemies(
+          boss,
+          action.enemyType,
+          action.count,
+          spawnTime
+        );
+        break;
+      case BossActionType.DISABLE_TOWERS:
+        result.disabledTowers = towers.filter(
+          (tower) => !tower.isDestroyed && tower.position.distanceTo(position) <= action.radius
+        );
+        for (const tower of result.disabledTowers) {
+          tower.disable(action.duration);
+        }
+        break;
+      case BossActionType.SHIELD:
+        boss.grantShield(action.amount);
+        break;
+    }
+
+    return result;
+  }
+}
@@ -0,0 +1,241 @@
+import type { Card } from "../entities/card";
+import type { GameSnapshot } from "../entities/game-session";
+import { Tower } from "../entities/tower";
+import { CardRarity } from "../value-objects/card-rarity";
+import type { Position } from "../value-objects/position";
+import { TowerType } from "../value-objects/tower-type";
+
+/**
+ * ボットが行う操作（手札のカードを使って指定した位置にタワーを配置する）
+ */
+export interface BotMove {
+  cardId: string;
+  position: Position;
+  reason: string; // 操作を選んだ理由（ヒントとして表示する）
+}
+
+/**
+ * ボットの戦略
+ * ゲームのスナップショットを観察して、今行う操作を決める
+ */
+export interface BotStrategy {
+  readonly name: string;
+
+  /**
+   * 今行う操作を決める（何もしない場合は空配列）
+   */
+  decide(snapshot: GameSnapshot): BotMove[];
+}
+
+const PATH_SAMPLE_INTERVAL = 10; // 射程の範囲を調べる経路上の点の間隔（ピクセル）
+
+/**
+ * マナが足りるカードを安い順に取得
+ */
+function getAffordableCards(snapshot: GameSnapshot): Card[] {
+  return snapshot.hand
+    .filter((card) => card.cost.value <= snapshot.mana)
+    .sort((a, b) => a.cost.value - b.cost.value);
+}
+
+/**
+ * いずれかのレーンの移動経路に最も近い配置可能な位置を探す
+ */
+function findPositionNearestToPath(snapshot: GameSnapshot): Position | null {
+  let nearest: Position | null = null;
+  let nearestDistance = Number.POSITIVE_INFINITY;
+
+  for (const position of snapshot.placementPositions) {
+    const distance = Math.min(...snapshot.paths.map((path) => path.distanceToPoint(position)));
+    if (distance < nearestDistance) {
+      nearest = position;
+      nearestDistance = distance;
+    }
+  }
+  return nearest;
+}
+
+/**
+ * 経路を射程に収める範囲が最も広い配置可能な位置を探す
+ * まだどのタワー（瓦礫を除く）の射程にも入っていない区間を優先し、既に守られている区間は半分の重みで数える
+ * @returns 最適な位置と、新たに射程に収まる経路上の点の数（経路に届く位置がない場合null）
+ */
+function findBestCoveragePosition(
+  snapshot: GameSnapshot,
+  range: number
+): { position: Position; newlyCovered: number } | null {
+  const samples = snapshot.paths.flatMap((path) => {
+    const count = Math.max(1, Math.ceil(path.totalLength / PATH_SAMPLE_INTERVAL));
+    return Array.from({ length: count + 1 }, (_, i) => path.getPositionAtProgress(i / count));
+  });
+  const covered = samples.map((sample) =>
+    snapshot.towers.some(
+      (tower) => !tower.isDestroyed && tower.position.distanceTo(sample) <= tower.range
+    )
+  );
+
+  let best: { position: Position; newlyCovered: number } | null = null;
+  let bestScore = 0;
+  for (const position of snapshot.placementPositions) {
+    let newlyCovered = 0;
+    let overlapped = 0;
+    samples.forEach((sample, i) => {
+      if (position.distanceTo(sample) <= range) {
+        if (covered[i]) {
+          overlapped++;
+        } else {
+          newlyCovered++;
+        }
+      }
+    });
+
+    const score = newlyCovered * 2 + overlapped;
+    if (score > bestScore) {
+      best = { position, newlyCovered };
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+/**
+ * レアリティの順位（コモンが0）
+ */
+function getRarityRank(rarity: CardRarity): number {
+  return CardRarity.getAllRarities().indexOf(rarity);
+}
+
+/**
+ * 最も安いカードから順に、移動経路に最も近い位置へタワーを置く戦略
+ */
+export class CheapestCardBotStrategy implements BotStrategy {
+  readonly name = "cheapest-card";
+
+  decide(snapshot: GameSnapshot): BotMove[] {
+    const card = getAffordableCards(snapshot)[0];
+    const position = findPositionNearestToPath(snapshot);
+    if (!card || !position) {
+      return [];
+    }
+
+    return [
+      {
+        cardId: card.id,
+        position,
+        reason: `すぐに出せる最も安い${TowerType.getDisplayName(card.towerType)}を経路の近くに置きます`,
+      },
+    ];
+  }
+}
+
+/**
+ * 移動経路のまだ守られていない区間を最も広く射程に収めるように、カードと位置を選ぶ戦略
+ */
+export class PathCoverageBotStrategy implements BotStrategy {
+  readonly name = "path-coverage";
+
+  decide(snapshot: GameSnapshot): BotMove[] {
+    let best: { card: Card; position: Position; newlyCovered: number } | null = null;
+    const searchedRanges = new Set<number>();
+
+    for (const card of getAffordableCards(snapshot)) {
+      // 射程が同じカードは最適な位置も同じため、安いカードだけを調べる
+      const range = Tower.getCardStats(card).range;
+      if (searchedRanges.has(range)) {
+        continue;
+      }
+      searchedRanges.add(range);
+
+      const result = findBestCoveragePosition(snapshot, range);
+      if (result && (!best || result.newlyCovered > best.newlyCovered)) {
+        best = { card, ...result };
+      }
+    }
+    if (!best) {
+      return [];
+    }
+
+    const towerTypeName = TowerType.getDisplayName(best.card.towerType);
+    return [
+      {
+        cardId: best.card.id,
+        position: best.position,
+        reason:
+          best.newlyCovered > 0
+            ? `${towerTypeName}で経路のまだ守られていない区間を最も広く射程に収めます`
+            : `${towerTypeName}の射程を既存のタワーと重ねて火力を集中させます`,
+      },
+    ];
+  }
+}
+
+/**
+ * レア以上のカードが手札にある間はマナを貯めて、出せるようになったら最も守りの薄い区間に置く戦略
+ * レア以上のカードがない場合と、稼働中のタワーが1基もない場合は最も安いカードを出す
+ */
+export class SaveForRaresBotStrategy implements BotStrategy {
+  static readonly MIN_RARITY = CardRarity.RARE;
+
+  readonly name = "save-for-rares";
+
+  private readonly fallback = new CheapestCardBotStrategy();
+
+  decide(snapshot: GameSnapshot): BotMove[] {
+    // マナの上限を超えるカードはいくら貯めても出せないため対象外
+    const rareCard = snapshot.hand
+      .filter(
+        (card) =>
+          getRarityRank(card.rarity) >= getRarityRank(SaveForRaresBotStrategy.MIN_RARITY) &&
+          card.cost.value <= snapshot.maxMana
+      )
+      .sort((a, b) => getRarityRank(b.rarity) - getRarityRank(a.rarity))[0];
+
+    if (!rareCard || snapshot.towers.every((tower) => tower.isDestroyed)) {
+      return this.fallback.decide(snapshot);
+    }
+    if (rareCard.cost.value > snapshot.mana) {
+      return [];
+    }
+
+    const result = findBestCoveragePosition(snapshot, Tower.getCardStats(rareCard).range);
+    if (!result) {
+      return [];
+    }
+
+    return [
+      {
+        cardId: rareCard.id,
+        position: result.position,
+        reason: `貯めたマナで${CardRarity.getDisplayName(rareCard.rarity)}の${rareCard.name}を出します`,
+      },
+    ];
+  }
+}
+
+/**
+ * ボットの戦略を名前から作成する
+ */
+export const BotStrategies = {
+  /**
+   * すべての戦略の名前を取得
+   */
+  getAllNames(): string[] {
+    return ["cheapest-card", "path-coverage", "save-for-rares"];
+  },
+
+  /**
+   * 戦略を作成する
+   */
+  create(name: string): BotStrategy {
+    switch (name) {
+      case "cheapest-card":
+        return new CheapestCardBotStrategy();
+      case "path-coverage":
+        return new PathCoverageBotStrategy();
+      case "save-for-rares":
+        return new SaveForRaresBotStrategy();
+      default:
+        throw new Error(`未定義のボット戦略です: ${name}`);
+    }
+  },
+} as const;
@@ -1,5 +1,6 @@
 import type { Card } from "../entities/card.js";
 import type { Hand } from "../entities/hand.js";
+import type { Position } from "../value-objects/position.js";
 import { SpecialAbility } from "../value-objects/special-ability.js";
 import { TowerType } from "../value-objects/tower-type.js";
 
@@ -19,6 +20,7 @@ export interface PlayRecommendation {
   card: Card;
   priority: number; // 0-100の優先度
   reason: string;
+  position?: Position; // 推奨する配置位置（ボットの戦略による推奨のみ）
 }
 
 /**
@@ -1,6 +1,7 @@
 import type { CardPool } from "../entities/card-pool.js";
 import type { Card } from "../entities/card.js";
 import type { TowerType } from "../value-objects/tower-type.js";
+import type { RandomSource } from "./random-service.js";
 
 /**
  * 戦略的価値分析結果
@@ -25,6 +26,8 @@ export class CardSelectionService {
   private static readonly LOW_COST_THRESHOLD = 3;
   private static readonly HIGH_COST_THRESHOLD = 7;
 
+  constructor(private readonly random: RandomSource = Math.random) {}
+
   /**
    * バランスの取れた手札を選択
    */
@@ -74,7 +77,7 @@ export class CardSelectionService {
       const availableCards = allCards.filter((card) => !usedCardIds.has(card.id));
       if (availableCards.length === 0) break;
 
-      const randomCard = availableCards[Math.floor(Math.random() * availableCards.length)];
+      const randomCard = availableCards[Math.floor(this.random() * availableCards.length)];
       selectedCards.push(randomCard);
       usedCardIds.add(randomCard.id);
     }
@@ -140,7 +143,7 @@ export class CardSelectionService {
     const availableCards = [...typeCards];
 
     for (let i = 0; i < cardCount; i++) {
-      const randomIndex = Math.floor(Math.random() * availableCards.length);
+      const randomIndex = Math.floor(this.random() * availableCards.length);
       selectedCards.push(availableCards[randomIndex]);
       availableCards.splice(randomIndex, 1);
     }
@@ -194,7 +197,7 @@ export class CardSelectionService {
     const actualCount = Math.min(targetCount, availableCards.length);
 
     for (let i = 0; i < actualCount; i++) {
-      const randomIndex = Math.floor(Math.random() * availableCards.length);
+      const randomIndex = Math.floor(this.random() * availableCards.length);
       const selectedCard = availableCards[randomIndex];
       selectedCards.push(selectedCard);
       usedCardIds.add(selectedCard.id);
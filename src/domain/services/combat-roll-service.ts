@@ -0,0 +1,42 @@
+import type { TowerStats } from "../entities/tower";
+import type { RandomSource } from "./random-service";
+
+/**
+ * 1回の攻撃のダメージ判定結果
+ */
+export interface DamageRoll {
+  damage: number;
+  isCritical: boolean;
+}
+
+/**
+ * 会心とダメージのばらつきを判定するドメインサービス
+ * 乱数は注入された乱数源から取得するため、同じシードのゲームでは同じ判定結果になる
+ */
+export class CombatRollService {
+  static readonly DEFAULT_CRIT_MULTIPLIER = 1.5;
+
+  constructor(private readonly random: RandomSource = Math.random) {}
+
+  /**
+   * タワーの性能から1回の攻撃のダメージを判定する
+   * 攻撃力は ±damageVariance の割合で一様にばらつき、会心時は会心倍率が掛かる
+   * 会心率・ばらつきが0の項目は乱数を消費しない
+   */
+  roll(stats: Readonly<TowerStats>): DamageRoll {
+    let damage = stats.damage;
+
+    const variance = stats.damageVariance ?? 0;
+    if (variance > 0) {
+      damage *= 1 + (this.random() * 2 - 1) * variance;
+    }
+
+    const critChance = stats.critChance ?? 0;
+    const isCritical = critChance > 0 && this.random() < critChance;
+    if (isCritical) {
+      damage *= stats.critMultiplier ?? CombatRollService.DEFAULT_CRIT_MULTIPLIER;
+    }
+
+    return { damage: Math.max(0, Math.round(damage)), isCritical };
+  }
+}
@@ -0,0 +1,51 @@
+import type { Enemy } from "../entities/enemy";
+import { EnemyAbilityType } from "../value-objects/enemy-ability";
+
+/**
+ * 回復能力を持つ敵による味方の回復
+ */
+export interface EnemyHeal {
+  healer: Enemy;
+  target: Enemy;
+  amount: number; // 実際に回復した量
+}
+
+/**
+ * 敵の能力のうち、周囲の敵に作用するものを処理するドメインサービス
+ * シールドの再生は敵自身が、分裂体の生成はEnemySpawningServiceが担当する
+ */
+export class EnemyAbilityService {
+  /**
+   * 回復能力を持つ敵が、回復の間隔ごとに範囲内の傷ついた味方（自分を除く）を回復する
+   * @param enemies 敵の配列
+   * @param deltaTime 経過時間（ミリ秒）
+   * @returns このステップで行われた回復
+   */
+  processHealing(enemies: Enemy[], deltaTime: number): EnemyHeal[] {
+    const heals: EnemyHeal[] = [];
+
+    for (const healer of enemies) {
+      const ability = healer.type.getAbility(EnemyAbilityType.HEAL);
+      if (!ability || !healer.updateHealCooldown(deltaTime)) {
+        continue;
+      }
+
+      for (const target of enemies) {
+        if (
+          target === healer ||
+          !target.isAlive ||
+          target.currentPosition.distanceTo(healer.currentPosition) > ability.radius
+        ) {
+          continue;
+        }
+
+        const amount = target.heal(ability.amount);
+        if (amount > 0) {
+          heals.push({ healer, target, amount });
+        }
+      }
+    }
+
+    return heals;
+  }
+}
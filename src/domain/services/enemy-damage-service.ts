@@ -1,11 +1,24 @@
 import type { Enemy } from "../entities/enemy";
+import { DamageType } from "../value-objects/damage-type";
 import type { EnemyType } from "../value-objects/enemy-type";
 import type { Position } from "../value-objects/position";
 
+/**
+ * 装甲・耐性を適用したダメージの計算結果
+ */
+export interface DamageCalculation {
+  damage: number; // 装甲・耐性を適用した後のダメージ
+  damageType: DamageType;
+  multiplier: number; // 装甲・耐性による倍率（1未満は軽減、1より大きい場合は弱点）
+  isResisted: boolean; // 装甲・耐性で軽減されたかどうか
+}
+
 /**
  * 敵へのダメージ処理を担当するドメインサービス
  */
 export class EnemyDamageService {
+  static readonly ARMOR_SCALE = 100; // 装甲がこの値のとき物理ダメージが半減する
+
   private damageMultiplier = 1.0;
   private totalDamageDealt = 0;
   private enemiesDestroyed = 0;
@@ -15,14 +28,18 @@ export class EnemyDamageService {
    * 敵にダメージを適用する
    * @param enemy 対象の敵
    * @param damage ダメージ量
+   * @param damageType ダメージの種類（省略時は装甲・耐性を適用しない）
    * @returns 敵が破壊された場合true
    */
-  applyDamage(enemy: Enemy, damage: number): boolean {
+  applyDamage(enemy: Enemy, damage: number, damageType?: DamageType): boolean {
     if (!enemy.isAlive || damage <= 0) {
       return false;
     }
 
-    const actualDamage = this.calculateDamageWithMultiplier(damage);
+    const mitigatedDamage = damageType
+      ? this.calculateDamage(enemy, damage, damageType).damage
+      : damage;
+    const actualDamage = this.calculateDamageWithMultiplier(mitigatedDamage);
     const wasAlive = enemy.isAlive;
 
     enemy.takeDamage(actualDamage);
@@ -58,6 +75,34 @@ export class EnemyDamageService {
     }
   }
 
+  /**
+   * ダメージの種類に応じて敵の装甲・耐性を適用したダメージを計算する
+   * 物理ダメージは装甲によって ARMOR_SCALE / (ARMOR_SCALE + 装甲) 倍に軽減され、
+   * さらに種類ごとの耐性の割合だけ軽減される（耐性が負の場合は弱点として増える）
+   * @param enemy 対象の敵
+   * @param baseDamage 基本ダメージ
+   * @param damageType ダメージの種類
+   * @param ignoresDefense 装甲と耐性を無視するかどうか（防御貫通。弱点は無視しない）
+   * @returns 計算結果（基本ダメージが正なら最低1ダメージ）
+   */
+  calculateDamage(
+    enemy: Enemy,
+    baseDamage: number,
+    damageType: DamageType,
+    ignoresDefense = false
+  ): DamageCalculation {
+    const armor = ignoresDefense ? 0 : enemy.type.getArmor();
+    const resistance = enemy.type.getResistance(damageType);
+
+    let multiplier = 1 - (ignoresDefense ? Math.min(0, resistance) : resistance);
+    if (damageType === DamageType.PHYSICAL) {
+      multiplier *= EnemyDamageService.ARMOR_SCALE / (EnemyDamageService.ARMOR_SCALE + armor);
+    }
+
+    const damage = baseDamage > 0 ? Math.max(1, Math.round(baseDamage * multiplier)) : 0;
+    return { damage, damageType, multiplier, isResisted: multiplier < 1 };
+  }
+
   /**
    * ダメージ倍率を適用してダメージを計算する
    * @param baseDamage 基本ダメージ
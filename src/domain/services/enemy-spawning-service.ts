@@ -1,15 +1,30 @@
 import { Enemy } from "../entities/enemy";
-import { EnemyType } from "../value-objects/enemy-type";
+import { SystemTimeProvider, type TimeProvider } from "../entities/game-timer";
+import { EnemyAbilityType } from "../value-objects/enemy-ability";
+import type { EnemyType } from "../value-objects/enemy-type";
+import type { EnemyTypeRegistry } from "../value-objects/enemy-type-registry";
 import type { MovementPath } from "../value-objects/movement-path";
 import type { Position } from "../value-objects/position";
+import type { RandomSource } from "./random-service";
 
 /**
  * 敵の生成処理を担当するドメインサービス
  */
 export class EnemySpawningService {
+  static readonly SPLIT_SPACING = 12; // 分裂体・召喚した手下どうしの経路上の間隔（ピクセル）
+
   private spawnCounter = 0;
   private spawnStatistics: Map<EnemyType, number> = new Map();
 
+  /**
+   * @param enemyTypes 分裂体・召喚する手下の敵タイプを引くレジストリ
+   */
+  constructor(
+    private readonly enemyTypes: EnemyTypeRegistry,
+    private readonly random: RandomSource = Math.random,
+    private readonly timeProvider: TimeProvider = new SystemTimeProvider()
+  ) {}
+
   /**
    * 敵を生成する
    * @param enemyId 敵ID
@@ -19,7 +34,7 @@ export class EnemySpawningService {
    * @returns 生成された敵
    */
   spawnEnemy(enemyId: string, type: EnemyType, spawnPoint: Position, path: MovementPath): Enemy {
-    const enemy = new Enemy(enemyId, type, path, new Date());
+    const enemy = new Enemy(enemyId, type, path, this.now());
 
     // 統計情報を更新
     this.updateSpawnStatistics(type);
@@ -27,6 +42,70 @@ export class EnemySpawningService {
     return enemy;
   }
 
+  /**
+   * 倒された分裂能力を持つ敵から、その場に分裂体を生成する
+   * 分裂体は元の敵と同じ経路上に、元の位置から後方へ間隔を空けて並ぶ
+   * @param parent 倒された敵
+   * @param spawnTime 生成時刻
+   * @returns 生成された分裂体（分裂能力を持たない場合は空）
+   */
+  spawnSplitEnemies(parent: Enemy, spawnTime: Date): Enemy[] {
+    const split = parent.type.getAbility(EnemyAbilityType.SPLIT);
+    if (!split) {
+      return [];
+    }
+
+    return this.spawnBehind(
+      parent,
+      this.enemyTypes.get(split.spawnType),
+      split.count,
+      (i) => `${parent.id}-split-${i + 1}`,
+      spawnTime
+    );
+  }
+
+  /**
+   * ボスの周りに手下を召喚する
+   * 手下はボスと同じ経路上に、ボスの位置から後方へ間隔を空けて並ぶ
+   * @param boss 召喚するボス
+   * @param typeName 召喚する敵タイプ名
+   * @param count 召喚する数
+   * @param spawnTime 生成時刻
+   * @returns 召喚された敵
+   */
+  spawnSummonedEnemies(boss: Enemy, typeName: string, count: number, spawnTime: Date): Enemy[] {
+    return this.spawnBehind(
+      boss,
+      this.enemyTypes.get(typeName),
+      count,
+      () => `${boss.id}-summon-${++this.spawnCounter}`,
+      spawnTime
+    );
+  }
+
+  /**
+   * 基準の敵と同じ経路上に、基準の位置から後方へ間隔を空けて敵を並べて生成する
+   */
+  private spawnBehind(
+    origin: Enemy,
+    type: EnemyType,
+    count: number,
+    createId: (index: number) => string,
+    spawnTime: Date
+  ): Enemy[] {
+    const path = origin.movementPath;
+    const originDistance = path.totalLength * origin.pathProgress;
+
+    return Array.from({ length: count }, (_, i) => {
+      const progress = path.getProgressFromDistance(
+        Math.max(0, originDistance - i * EnemySpawningService.SPLIT_SPACING)
+      );
+      const enemy = new Enemy(createId(i), type, path, spawnTime, progress);
+      this.updateSpawnStatistics(type);
+      return enemy;
+    });
+  }
+
   /**
    * 利用可能な生成地点から一つを選択する
    * @param availablePoints 利用可能な生成地点の配列
@@ -42,7 +121,7 @@ export class EnemySpawningService {
     }
 
     // ランダムに選択
-    const randomIndex = Math.floor(Math.random() * availablePoints.length);
+    const randomIndex = Math.floor(this.random() * availablePoints.length);
     return availablePoints[randomIndex];
   }
 
@@ -54,7 +133,7 @@ export class EnemySpawningService {
    * @returns 生成された敵
    */
   createEnemyWithStats(enemyId: string, type: EnemyType, path: MovementPath): Enemy {
-    return new Enemy(enemyId, type, path, new Date());
+    return new Enemy(enemyId, type, path, this.now());
   }
 
   /**
@@ -77,14 +156,14 @@ export class EnemySpawningService {
 
   /**
    * 敵IDを生成する
+   * 生成順の連番のみで採番するため、同じ展開のゲームでは同じIDになる
    * @param prefix プレフィックス
    * @param waveNumber 波番号
    * @returns 生成された敵ID
    */
   generateEnemyId(prefix: string, waveNumber: number): string {
     this.spawnCounter++;
-    const timestamp = Date.now();
-    return `${prefix}-${waveNumber}-${this.spawnCounter}-${timestamp}`;
+    return `${prefix}-${waveNumber}-${this.spawnCounter}`;
   }
 
   /**
@@ -181,7 +260,7 @@ export class EnemySpawningService {
     }
 
     // ランダム値を生成（0-1）
-    const randomValue = Math.random();
+    const randomValue = this.random();
 
     // 累積確率に基づいて敵タイプを選択
     for (const { type, probability } of cumulativeProbabilities) {
@@ -202,7 +281,7 @@ export class EnemySpawningService {
   canSpawnEnemyType(type: EnemyType): boolean {
     // 基本的にはすべての敵タイプが生成可能
     // 将来的には特定の条件（アンロック状態など）をチェックする可能性
-    return EnemyType.getAllTypes().includes(type);
+    return this.enemyTypes.has(type);
   }
 
   /**
@@ -215,4 +294,11 @@ export class EnemySpawningService {
     // 基本的なコスト計算（ステータスの合計に基づく）
     return Math.round((stats.health + stats.attackPower + stats.movementSpeed) / 10);
   }
+
+  /**
+   * 時刻プロバイダーの現在時刻
+   */
+  private now(): Date {
+    return new Date(this.timeProvider.getCurrentTime());
+  }
 }
@@ -3,6 +3,25 @@ export { EnemySpawningService } from "./enemy-spawning-service";
 export { EnemyMovementService } from "./enemy-movement-service";
 export { BaseAttackService } from "./base-attack-service";
 export { EnemyDamageService } from "./enemy-damage-service";
+export { TowerAbilityService } from "./tower-ability-service";
+export { TowerUpgradeService } from "./tower-upgrade-service";
+export { TowerSellService } from "./tower-sell-service";
+export { TargetingService } from "./targeting-service";
+export { ProjectileService } from "./projectile-service";
+export { CombatRollService, type DamageRoll } from "./combat-roll-service";
+export { AuraService } from "./aura-service";
+export { EnemyAbilityService, type EnemyHeal } from "./enemy-ability-service";
+export { BossActionService, type BossActionResult } from "./boss-action-service";
+export { RandomService, RandomStream, type RandomSource } from "./random-service";
+export { PlayerCommandService } from "./player-command-service";
+export {
+  BotStrategies,
+  CheapestCardBotStrategy,
+  PathCoverageBotStrategy,
+  SaveForRaresBotStrategy,
+  type BotMove,
+  type BotStrategy,
+} from "./bot-strategy";
 
 // Card Strategy Management Services (existing)
 export { CardDiscoveryService } from "./card-discovery-service";
@@ -0,0 +1,43 @@
+import type { GameSession } from "../entities/game-session";
+import { Position } from "../value-objects/position";
+import type { ReplayCommand } from "../value-objects/replay";
+
+/**
+ * プレイヤー操作ドメインサービス
+ * リプレイやシミュレーションの戦略が発行した操作をゲームセッションに適用する
+ */
+export class PlayerCommandService {
+  /**
+   * 操作をゲームセッションに適用する
+   * @returns 操作が成功した場合true
+   */
+  execute(session: GameSession, command: ReplayCommand): boolean {
+    switch (command.type) {
+      case "card-selected":
+        // カードの選択はシミュレーションに影響しない
+        return session.hand.hasCard(command.cardId);
+      case "card-played":
+        return session.playCardAndPlaceTower(command.cardId, new Position(command.x, command.y))
+          .success;
+      case "card-drawn":
+        return session.drawCard().success;
+      case "tower-upgraded":
+        return session.upgradeTower(command.towerId).success;
+      case "tower-repaired":
+        return session.repairTower(command.towerId).success;
+      case "tower-sold":
+        return session.sellTower(command.towerId, {
+          refundRatio: command.refundRatio,
+          returnCardToDiscard: command.returnCardToDiscard,
+        }).success;
+      case "targeting-changed":
+        return session.setTowerTargetingStrategy(command.towerId, command.strategy);
+      case "game-pause":
+        if (!session.state.isActive()) {
+          return false;
+        }
+        session.togglePause();
+        return true;
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import type { Enemy } from "../entities/enemy";
+import { Projectile } from "../entities/projectile";
+import type { Tower } from "../entities/tower";
+import type { Position } from "../value-objects/position";
+import { ProjectileType } from "../value-objects/projectile-type";
+import { CombatRollService } from "./combat-roll-service";
+import type { RandomSource } from "./random-service";
+import { type AttackHit, TowerAbilityService } from "./tower-ability-service";
+
+/**
+ * 弾の着弾結果
+ */
+export interface ProjectileImpact {
+  projectile: Projectile;
+  position: Position; // 着弾地点
+  hits: AttackHit[];
+}
+
+/**
+ * 弾の生成と着弾時のダメージ解決を行うドメインサービス
+ */
+export class ProjectileService {
+  private readonly abilityService = new TowerAbilityService();
+  private readonly combatRollService: CombatRollService;
+  private sequence = 0;
+
+  /**
+   * @param random 会心とダメージのばらつきの判定に使う乱数源
+   */
+  constructor(random: RandomSource = Math.random) {
+    this.combatRollService = new CombatRollService(random);
+  }
+
+  /**
+   * タワーの攻撃から弾を生成する
+   * 弾の種類とダメージの種類はタワータイプ、ダメージと特殊能力は発射時点のタワー性能で決まる
+   * 会心とダメージのばらつきは発射時に判定する
+   */
+  createProjectile(tower: Tower, target: Enemy): Projectile {
+    this.sequence++;
+    const { damage, isCritical } = this.combatRollService.roll(tower.stats);
+
+    return new Projectile(
+      `projectile-${tower.id}-${this.sequence}`,
+      ProjectileType.forTowerType(tower.type),
+      tower.id,
+      tower.position,
+      target,
+      damage,
+      tower.stats.range,
+      tower.specialAbility,
+      tower.damageType,
+      isCritical
+    );
+  }
+
+  /**
+   * 着弾した弾のダメージを解決する
+   * 追尾弾と雷撃は目標が生存していれば命中し、砲弾は着弾地点の周囲に範囲ダメージを与える
+   * @param projectile 着弾した弾
+   * @param enemies 範囲・連鎖攻撃の対象候補
+   */
+  resolveImpact(projectile: Projectile, enemies: Enemy[]): ProjectileImpact {
+    const { ability, damage, damageType, isCritical, position } = projectile;
+
+    if (projectile.type === ProjectileType.BALLISTIC) {
+      return {
+        projectile,
+        position,
+        hits: this.abilityService.resolveAreaImpact({
+          ability,
+          center: position,
+          damage,
+          damageType,
+          isCritical,
+          enemies,
+        }),
+      };
+    }
+
+    // 目標が着弾前に倒されていた場合は外れる
+    const hits = projectile.target.isAlive
+      ? this.abilityService.resolveAttack({
+          ability,
+          origin: projectile.origin,
+          range: projectile.range,
+          damage,
+          damageType,
+          isCritical,
+          target: projectile.target,
+          enemies,
+        })
+      : [];
+
+    return { projectile, position, hits };
+  }
+}
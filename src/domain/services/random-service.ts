@@ -0,0 +1,78 @@
+/**
+ * 0以上1未満の乱数を返す関数（Math.random と同じ形式）
+ */
+export type RandomSource = () => number;
+
+/**
+ * 乱数ストリーム
+ * サブシステムごとに独立したストリームを使うことで、あるサブシステムの乱数消費量が変わっても他の結果は変わらない
+ */
+export const RandomStream = {
+  CARDS: "cards", // カードの選択
+  DECK: "deck", // デッキのシャッフル
+  ENEMIES: "enemies", // 敵タイプの選択と出現順
+  COMBAT: "combat", // 会心などの戦闘判定
+  EFFECTS: "effects", // パーティクルなどの演出
+} as const;
+
+export type RandomStream = (typeof RandomStream)[keyof typeof RandomStream];
+
+/**
+ * シード付き乱数ドメインサービス
+ * 同じシードからは同じ乱数列が得られるため、同じシードと同じ入力で開始したゲームは同じ展開になる
+ */
+export class RandomService {
+  private readonly _streams = new Map<RandomStream, RandomSource>();
+
+  constructor(public readonly seed: number = RandomService.generateSeed()) {
+    if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+      throw new Error("乱数シードは0以上2^32未満の整数である必要があります");
+    }
+  }
+
+  /**
+   * シードが指定されなかった場合に使うシードを生成する
+   */
+  static generateSeed(): number {
+    return Math.floor(Math.random() * 0x100000000);
+  }
+
+  /**
+   * シードから乱数生成関数を作成する（mulberry32）
+   */
+  static createSource(seed: number): RandomSource {
+    let state = seed >>> 0;
+    return () => {
+      state = (state + 0x6d2b79f5) >>> 0;
+      let t = state;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 0x100000000;
+    };
+  }
+
+  /**
+   * サブシステムの乱数ストリームを取得する
+   * 同じ名前のストリームは状態を共有し、ストリームのシードはゲームのシードとストリーム名から決まる
+   */
+  stream(name: RandomStream): RandomSource {
+    let source = this._streams.get(name);
+    if (!source) {
+      source = RandomService.createSource(this.seed ^ RandomService.hash(name));
+      this._streams.set(name, source);
+    }
+    return source;
+  }
+
+  /**
+   * ストリーム名のハッシュ値（FNV-1a）
+   */
+  private static hash(text: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+      hash ^= text.charCodeAt(i);
+      hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+  }
+}
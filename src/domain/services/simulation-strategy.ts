@@ -0,0 +1,76 @@
+import type { GameSession } from "../entities/game-session";
+import type { RecordedCommand, ReplayCommand } from "../value-objects/replay";
+import type { BotStrategy } from "./bot-strategy";
+
+/**
+ * シミュレーションでプレイヤーの代わりに操作を決める戦略
+ * 戦略は1試合ごとに作成し、操作はリプレイと同じ形式で発行する
+ */
+export interface SimulationStrategy {
+  readonly name: string;
+
+  /**
+   * 現在のステップで行う操作を決める
+   * @param session ゲームセッション
+   * @param tick これまでに進んだシミュレーションのステップ数
+   */
+  decide(session: GameSession, tick: number): ReplayCommand[];
+}
+
+/**
+ * 台本どおりに操作する戦略
+ * 決められたステップで決められた操作を行う（リプレイファイルの操作列をそのまま台本として使える）
+ */
+export class ScriptedStrategy implements SimulationStrategy {
+  readonly name = "scripted";
+
+  private _nextIndex = 0;
+
+  constructor(private readonly commands: RecordedCommand[]) {}
+
+  decide(_session: GameSession, tick: number): ReplayCommand[] {
+    const due: ReplayCommand[] = [];
+    let command = this.commands[this._nextIndex];
+    while (command && command.tick <= tick) {
+      const { tick: _tick, ...rest } = command;
+      due.push(rest as ReplayCommand);
+      this._nextIndex++;
+      command = this.commands[this._nextIndex];
+    }
+    return due;
+  }
+}
+
+/**
+ * ボットの戦略に操作させる戦略
+ * 一定のステップ間隔でゲームのスナップショットを取り、ボットが決めた配置をカード使用の操作として発行する
+ */
+export class BotPlayer implements SimulationStrategy {
+  static readonly DECISION_INTERVAL = 50; // 判断するステップ間隔（10msステップで0.5秒毎）
+
+  private _lastDecisionTick: number | null = null;
+
+  constructor(public readonly bot: BotStrategy) {}
+
+  get name(): string {
+    return this.bot.name;
+  }
+
+  decide(session: GameSession, tick: number): ReplayCommand[] {
+    // 1回の更新で複数ステップ進む場合もあるため、前回判断したステップからの間隔で判定する
+    if (
+      this._lastDecisionTick !== null &&
+      tick - this._lastDecisionTick < BotPlayer.DECISION_INTERVAL
+    ) {
+      return [];
+    }
+    this._lastDecisionTick = tick;
+
+    return this.bot.decide(session.getSnapshot()).map((move) => ({
+      type: "card-played",
+      cardId: move.cardId,
+      x: move.position.x,
+      y: move.position.y,
+    }));
+  }
+}
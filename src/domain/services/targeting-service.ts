@@ -0,0 +1,59 @@
+import type { Enemy } from "../entities/enemy";
+import type { Position } from "../value-objects/position";
+import { TargetingStrategy } from "../value-objects/targeting-strategy";
+
+/**
+ * 攻撃対象選択ドメインサービス
+ * 選択方針に従って候補の敵から攻撃対象を1体選ぶ
+ */
+export class TargetingService {
+  /**
+   * 選択方針に従って攻撃対象を選択
+   * 評価値が同じ場合は進行度の高い敵を優先する
+   * @param strategy 選択方針
+   * @param origin タワーの位置
+   * @param candidates 射程内の生存している敵
+   * @returns 攻撃対象（候補がいない場合はnull）
+   */
+  selectTarget(strategy: TargetingStrategy, origin: Position, candidates: Enemy[]): Enemy | null {
+    let best: Enemy | null = null;
+    let bestScore = Number.NEGATIVE_INFINITY;
+
+    for (const enemy of candidates) {
+      const score = this.score(strategy, origin, enemy);
+      if (
+        best === null ||
+        score > bestScore ||
+        (score === bestScore && enemy.pathProgress > best.pathProgress)
+      ) {
+        best = enemy;
+        bestScore = score;
+      }
+    }
+
+    return best;
+  }
+
+  /**
+   * 選択方針ごとの評価値（大きいほど優先）
+   */
+  private score(strategy: TargetingStrategy, origin: Position, enemy: Enemy): number {
+    switch (strategy) {
+      case TargetingStrategy.LAST:
+        return -enemy.pathProgress;
+      case TargetingStrategy.STRONGEST:
+        return enemy.currentHealth;
+      case TargetingStrategy.WEAKEST:
+        return -enemy.currentHealth;
+      case TargetingStrategy.CLOSEST:
+        return -origin.distanceTo(enemy.currentPosition);
+      case TargetingStrategy.FASTEST:
+        return enemy.currentMovementSpeed;
+      case TargetingStrategy.BOSS_PRIORITY:
+        // 進行度は0〜1のため、ボスであれば進行度に関わらず優先される
+        return (enemy.type.isBoss() ? 2 : 0) + enemy.pathProgress;
+      default:
+        return enemy.pathProgress;
+    }
+  }
+}
@@ -0,0 +1,287 @@
+import type { Enemy } from "../entities/enemy";
+import { DamageType } from "../value-objects/damage-type";
+import type { Position } from "../value-objects/position";
+import { SpecialAbility } from "../value-objects/special-ability";
+import { StatusEffect, StatusEffectType } from "../value-objects/status-effect";
+import { EnemyDamageService } from "./enemy-damage-service";
+
+/**
+ * タワー攻撃の命中結果
+ */
+export interface AttackHit {
+  enemy: Enemy;
+  damage: number;
+  isPrimary: boolean;
+  damageType: DamageType;
+  isResisted: boolean; // 装甲・耐性で軽減されたかどうか
+  isCritical: boolean; // 会心の攻撃による命中かどうか
+}
+
+/**
+ * タワー攻撃のコンテキスト
+ */
+export interface AttackContext {
+  ability: SpecialAbility;
+  origin: Position;
+  range: number;
+  damage: number;
+  damageType?: DamageType; // 省略時は物理
+  isCritical?: boolean; // 会心の攻撃かどうか（ダメージは会心倍率を適用済み）
+  target: Enemy;
+  enemies: Enemy[];
+}
+
+/**
+ * 着弾地点を中心とした範囲攻撃のコンテキスト
+ */
+export interface AreaImpactContext {
+  ability: SpecialAbility;
+  center: Position;
+  damage: number;
+  damageType?: DamageType; // 省略時は物理
+  isCritical?: boolean; // 会心の攻撃かどうか（ダメージは会心倍率を適用済み）
+  enemies: Enemy[];
+}
+
+/**
+ * 命中したすべての敵に共通する攻撃の性質
+ */
+type AttackProperties = Pick<AttackContext, "ability" | "damageType" | "isCritical">;
+
+/**
+ * タワーの特殊能力を攻撃に反映するドメインサービス
+ * 範囲・連鎖・多重攻撃の対象決定と状態異常の付与を担当する
+ * 命中時のダメージには敵の装甲・耐性が適用される
+ */
+export class TowerAbilityService {
+  static readonly SPLASH_RADIUS = 60;
+  static readonly DIRECT_HIT_RADIUS = 16;
+  static readonly SPLASH_DAMAGE_RATIO = 0.5;
+  static readonly CHAIN_JUMPS = 3;
+  static readonly CHAIN_RANGE = 100;
+  static readonly CHAIN_DAMAGE_FALLOFF = 0.7;
+  static readonly MULTI_SHOT_EXTRA_TARGETS = 2;
+  static readonly MULTI_SHOT_DAMAGE_RATIO = 0.6;
+
+  private readonly damageService = new EnemyDamageService();
+
+  /**
+   * 特殊能力を考慮して攻撃を解決する
+   * @param context 攻撃のコンテキスト
+   * @returns 命中結果の配列（先頭が主目標）
+   */
+  resolveAttack(context: AttackContext): AttackHit[] {
+    const { ability, target, damage } = context;
+
+    if (!target.isAlive) {
+      return [];
+    }
+
+    const hits: AttackHit[] = [this.hit(target, damage, true, context)];
+
+    switch (ability) {
+      case SpecialAbility.SPLASH_DAMAGE:
+        hits.push(...this.resolveSplash(context));
+        break;
+      case SpecialAbility.CHAIN_LIGHTNING:
+        hits.push(...this.resolveChain(context));
+        break;
+      case SpecialAbility.MULTI_SHOT:
+        hits.push(...this.resolveMultiShot(context));
+        break;
+      default:
+        break;
+    }
+
+    return hits;
+  }
+
+  /**
+   * 着弾地点を中心に範囲攻撃を解決する
+   * 着弾地点の直近の敵には全ダメージと状態異常、周囲の敵には範囲ダメージを与える
+   * 目標が移動して直撃しなかった場合も範囲ダメージは発生する
+   * @param context 範囲攻撃のコンテキスト
+   * @returns 命中結果の配列（直撃した敵がいれば先頭）
+   */
+  resolveAreaImpact(context: AreaImpactContext): AttackHit[] {
+    const { center, damage, enemies } = context;
+    const inRange = enemies.filter(
+      (enemy) =>
+        enemy.isAlive &&
+        enemy.currentPosition.distanceTo(center) <= TowerAbilityService.SPLASH_RADIUS
+    );
+    const direct = this.findNearest(
+      center,
+      inRange,
+      new Set(),
+      TowerAbilityService.DIRECT_HIT_RADIUS
+    );
+    const splashDamage = Math.round(damage * TowerAbilityService.SPLASH_DAMAGE_RATIO);
+
+    const hits: AttackHit[] = direct ? [this.hit(direct, damage, true, context)] : [];
+    for (const enemy of inRange) {
+      if (enemy !== direct) {
+        hits.push(this.hit(enemy, splashDamage, false, context));
+      }
+    }
+
+    return hits;
+  }
+
+  /**
+   * 特殊能力に対応する状態異常を生成する
+   * @param ability 特殊能力
+   * @returns 状態異常（付与しない能力の場合はnull）
+   */
+  createStatusEffect(ability: SpecialAbility): StatusEffect | null {
+    switch (ability) {
+      case SpecialAbility.SLOW_EFFECT:
+        return StatusEffect.slow();
+      case SpecialAbility.POISON_EFFECT:
+        return StatusEffect.poison();
+      case SpecialAbility.FREEZE:
+        return StatusEffect.freeze();
+      case SpecialAbility.BURN:
+        return StatusEffect.burn();
+      case SpecialAbility.STUN:
+        return StatusEffect.stun();
+      case SpecialAbility.ARMOR_PIERCE:
+        return StatusEffect.armorBreak();
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * 単体に装甲・耐性を適用したダメージと状態異常を適用する
+   * 防御貫通は装甲と耐性を無視する
+   */
+  private hit(
+    enemy: Enemy,
+    damage: number,
+    isPrimary: boolean,
+    { ability, damageType = DamageType.PHYSICAL, isCritical = false }: AttackProperties
+  ): AttackHit {
+    const calculation = this.damageService.calculateDamage(
+      enemy,
+      damage,
+      damageType,
+      ability === SpecialAbility.ARMOR_PIERCE
+    );
+    const actualDamage = enemy.takeDamage(calculation.damage);
+
+    const effect = isPrimary ? this.createStatusEffect(ability) : null;
+    if (effect) {
+      enemy.applyStatusEffect(this.applyResistance(enemy, effect));
+    }
+
+    return {
+      enemy,
+      damage: actualDamage,
+      isPrimary,
+      damageType,
+      isResisted: calculation.isResisted,
+      isCritical,
+    };
+  }
+
+  /**
+   * 継続ダメージに敵の耐性を適用する
+   */
+  private applyResistance(enemy: Enemy, effect: StatusEffect): StatusEffect {
+    const damageType = StatusEffectType.getDamageType(effect.type);
+    if (!damageType || !effect.isDamageOverTime()) {
+      return effect;
+    }
+
+    const { damage } = this.damageService.calculateDamage(enemy, effect.tickDamage, damageType);
+    return damage === effect.tickDamage ? effect : effect.withTickDamage(damage);
+  }
+
+  /**
+   * 範囲ダメージ：主目標の周囲の敵にダメージを与える
+   */
+  private resolveSplash(context: AttackContext): AttackHit[] {
+    const { target, enemies, damage } = context;
+    const center = target.currentPosition;
+    const splashDamage = Math.round(damage * TowerAbilityService.SPLASH_DAMAGE_RATIO);
+
+    return enemies
+      .filter(
+        (enemy) =>
+          enemy !== target &&
+          enemy.isAlive &&
+          enemy.currentPosition.distanceTo(center) <= TowerAbilityService.SPLASH_RADIUS
+      )
+      .map((enemy) => this.hit(enemy, splashDamage, false, context));
+  }
+
+  /**
+   * 連鎖雷撃：直前の命中地点から最も近い敵へ減衰しながら連鎖する
+   */
+  private resolveChain(context: AttackContext): AttackHit[] {
+    const { target, enemies, damage } = context;
+    const hits: AttackHit[] = [];
+    const visited = new Set<Enemy>([target]);
+    let current = target;
+    let chainDamage = damage;
+
+    for (let i = 0; i < TowerAbilityService.CHAIN_JUMPS; i++) {
+      const next = this.findNearest(current.currentPosition, enemies, visited);
+      if (!next) {
+        break;
+      }
+
+      chainDamage = Math.round(chainDamage * TowerAbilityService.CHAIN_DAMAGE_FALLOFF);
+      hits.push(this.hit(next, chainDamage, false, context));
+      visited.add(next);
+      current = next;
+    }
+
+    return hits;
+  }
+
+  /**
+   * 多重射撃：射程内で進行度の高い敵を追加で攻撃する
+   */
+  private resolveMultiShot(context: AttackContext): AttackHit[] {
+    const { target, enemies, origin, range, damage } = context;
+    const shotDamage = Math.round(damage * TowerAbilityService.MULTI_SHOT_DAMAGE_RATIO);
+
+    return enemies
+      .filter(
+        (enemy) =>
+          enemy !== target && enemy.isAlive && origin.distanceTo(enemy.currentPosition) <= range
+      )
+      .sort((a, b) => b.pathProgress - a.pathProgress)
+      .slice(0, TowerAbilityService.MULTI_SHOT_EXTRA_TARGETS)
+      .map((enemy) => this.hit(enemy, shotDamage, false, context));
+  }
+
+  /**
+   * 指定距離内で最も近い未命中の敵を検索する
+   */
+  private findNearest(
+    from: Position,
+    enemies: Enemy[],
+    excluded: Set<Enemy>,
+    maxDistance = TowerAbilityService.CHAIN_RANGE
+  ): Enemy | null {
+    let nearest: Enemy | null = null;
+    let nearestDistance = maxDistance;
+
+    for (const enemy of enemies) {
+      if (!enemy.isAlive || excluded.has(enemy)) {
+        continue;
+      }
+
+      const distance = from.distanceTo(enemy.currentPosition);
+      if (distance <= nearestDistance) {
+        nearest = enemy;
+        nearestDistance = distance;
+      }
+    }
+
+    return nearest;
+  }
+}
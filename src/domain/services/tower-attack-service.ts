@@ -0,0 +1,70 @@
+import type { Enemy } from "../entities/enemy";
+import type { Tower } from "../entities/tower";
+
+/**
+ * 敵によるタワーへの攻撃
+ */
+export interface TowerAttack {
+  enemy: Enemy;
+  tower: Tower;
+  damage: number; // 実際に減った耐久値
+  destroyed: boolean; // この攻撃でタワーが瓦礫になった場合true
+}
+
+/**
+ * 敵によるタワー攻撃処理を担当するドメインサービス
+ * 攻撃射程を持つ敵は、射程内に破壊されていないタワーがあれば立ち止まって最も近いタワーを攻撃する
+ */
+export class TowerAttackService {
+  /**
+   * 敵のタワー攻撃を1ステップ分処理する
+   * @param enemies 敵の配列
+   * @param towers 設置済みのタワー
+   * @param deltaTime 経過時間（ミリ秒）
+   * @returns このステップで行われた攻撃
+   */
+  processTowerAttacks(enemies: Enemy[], towers: Tower[], deltaTime: number): TowerAttack[] {
+    const attacks: TowerAttack[] = [];
+
+    for (const enemy of enemies) {
+      if (!enemy.isAlive || !enemy.canAttackTowers) {
+        continue;
+      }
+
+      // 凍結・スタン中は攻撃できない
+      const target = enemy.isImmobilized ? null : this.findTarget(enemy, towers);
+      if (!target) {
+        enemy.stopAttackingTower();
+        continue;
+      }
+
+      const damage = target.takeDamage(enemy.attackTower(deltaTime));
+      if (damage > 0) {
+        attacks.push({ enemy, tower: target, damage, destroyed: target.isDestroyed });
+      }
+    }
+
+    return attacks;
+  }
+
+  /**
+   * 敵の攻撃射程内にある、破壊されていない最も近いタワーを探す
+   */
+  findTarget(enemy: Enemy, towers: Tower[]): Tower | null {
+    let nearest: Tower | null = null;
+    let nearestDistance = enemy.attackRange;
+
+    for (const tower of towers) {
+      if (tower.isDestroyed) {
+        continue;
+      }
+
+      const distance = tower.position.distanceTo(enemy.currentPosition);
+      if (distance <= nearestDistance) {
+        nearest = tower;
+        nearestDistance = distance;
+      }
+    }
+    return nearest;
+  }
+}
@@ -1,5 +1,9 @@
 import { Tower } from "../entities/tower";
+import type { MovementPath } from "../value-objects/movement-path";
 import type { Position } from "../value-objects/position";
+import { Rectangle } from "../value-objects/rectangle";
+import { TileGrid } from "../value-objects/tile-grid";
+import { TileType } from "../value-objects/tile-type";
 import type { Card } from "../entities/card";
 
 /**
@@ -11,25 +15,107 @@ export interface PlacementResult {
   error?: string;
 }
 
+/**
+ * タワー配置の判定設定
+ */
+export interface PlacementConfig {
+  fieldBounds: Rectangle; // 地形が定義されていないマップでタイルを敷き詰める範囲
+  tileSize: number; // 地形が定義されていないマップのタイルサイズ
+  pathHalfWidth: number; // 経路の中心線から端までの距離
+  towerFootprintRadius: number; // タワーが占有する半径
+}
+
 /**
  * タワー配置サービス
+ * 戦場はタイルグリッドで管理し、タワーは配置可能なタイルの中心に1タイル1基まで配置できる
+ * タイルの中心に置いたタワーの占有範囲が経路の幅に重なるタイルは経路タイルとして扱う
  */
 export class TowerPlacementService {
-  private readonly minDistanceBetweenTowers = 40;
-  private readonly gameFieldBounds = {
-    x: 0,
-    y: 60,
-    width: 800,
-    height: 440
+  static readonly DEFAULT_CONFIG: PlacementConfig = {
+    fieldBounds: new Rectangle(0, 60, 800, 420), // 800x600のキャンバスからヘッダーと手札を除いた範囲
+    tileSize: 40,
+    pathHalfWidth: 15,
+    towerFootprintRadius: 16
   };
 
+  private readonly tileSize: number;
+  private readonly pathHalfWidth: number;
+  private readonly towerFootprintRadius: number;
+  private _fieldBounds: Rectangle;
+  private _paths: MovementPath[] = [];
+  private _terrain: TileGrid | null = null;
+  private _grid: TileGrid;
+  private _placedTowerCount = 0; // タワーIDの連番（同じ操作からは同じIDになる）
+
+  constructor(config: Partial<PlacementConfig> = {}) {
+    const { fieldBounds, tileSize, pathHalfWidth, towerFootprintRadius } = {
+      ...TowerPlacementService.DEFAULT_CONFIG,
+      ...config
+    };
+    if (pathHalfWidth < 0 || towerFootprintRadius < 0) {
+      throw new Error("経路幅とタワーの占有半径は0以上である必要があります");
+    }
+
+    this._fieldBounds = fieldBounds;
+    this.tileSize = tileSize;
+    this.pathHalfWidth = pathHalfWidth;
+    this.towerFootprintRadius = towerFootprintRadius;
+    this._grid = this.buildGrid();
+  }
+
+  /**
+   * 地形が定義されていないマップでタイルを敷き詰める範囲
+   */
+  get fieldBounds(): Rectangle {
+    return this._fieldBounds;
+  }
+
+  /**
+   * 配置判定に使う経路
+   */
+  get paths(): MovementPath[] {
+    return [...this._paths];
+  }
+
+  /**
+   * 経路タイルを反映した戦場のタイルグリッド
+   */
+  get grid(): TileGrid {
+    return this._grid;
+  }
+
+  /**
+   * ゲームフィールドの範囲を設定（キャンバスのレイアウトに合わせる）
+   */
+  setFieldBounds(bounds: Rectangle): void {
+    this._fieldBounds = bounds;
+    this._grid = this.buildGrid();
+  }
+
+  /**
+   * 配置判定に使う経路を設定（マップの全レーン）
+   */
+  setPaths(paths: MovementPath[]): void {
+    this._paths = [...paths];
+    this._grid = this.buildGrid();
+  }
+
+  /**
+   * マップの地形を設定（nullの場合はフィールド全体を地面のタイルで敷き詰める）
+   */
+  setTerrain(terrain: TileGrid | null): void {
+    this._terrain = terrain;
+    this._grid = this.buildGrid();
+  }
+
   /**
    * タワーを配置
+   * 配置位置はタイルの中心に吸着する
    */
   placeTower(card: Card, position: Position, existingTowers: Tower[]): PlacementResult {
     // 配置位置の検証
     const validationResult = this.validatePlacement(position, existingTowers);
-    if (!validationResult.valid) {
+    if (!validationResult.valid || !validationResult.position) {
       return {
         success: false,
         error: validationResult.error
@@ -38,7 +124,12 @@ export class TowerPlacementService {
 
     // タワーを作成
     try {
-      const tower = Tower.fromCard(card, position);
+      const tower = Tower.fromCard(
+        card,
+        validationResult.position,
+        `tower-${this._placedTowerCount + 1}`
+      );
+      this._placedTowerCount++;
       return {
         success: true,
         tower
@@ -53,73 +144,62 @@ export class TowerPlacementService {
 
   /**
    * 配置位置の検証
+   * @returns 配置可能な場合はタイルの中心に吸着させた位置を含む
    */
-  validatePlacement(position: Position, existingTowers: Tower[]): { valid: boolean; error?: string } {
+  validatePlacement(
+    position: Position,
+    existingTowers: Tower[]
+  ): { valid: boolean; error?: string; position?: Position } {
+    const tile = this._grid.getTileAt(position);
+
     // ゲームフィールド内かチェック
-    if (!this.isWithinGameField(position)) {
+    if (tile === null) {
       return {
         valid: false,
         error: "ゲームフィールド外には配置できません"
       };
     }
 
-    // 他のタワーとの距離をチェック
-    for (const tower of existingTowers) {
-      const distance = position.distanceTo(tower.position);
-      if (distance < this.minDistanceBetweenTowers) {
-        return {
-          valid: false,
-          error: "他のタワーに近すぎます"
-        };
-      }
-    }
-
-    // 移動パス上かチェック（簡略化）
-    if (this.isOnMovementPath(position)) {
+    // タイルの種類をチェック
+    if (tile === TileType.PATH) {
       return {
         valid: false,
         error: "敵の移動経路上には配置できません"
       };
     }
+    if (!TileType.isBuildable(tile)) {
+      return {
+        valid: false,
+        error: `${TileType.getDisplayName(tile)}の上には配置できません`
+      };
+    }
 
-    return { valid: true };
-  }
+    // 同じタイルに既にタワーがあるかチェック
+    if (existingTowers.some((tower) => this._grid.isSameCell(tower.position, position))) {
+      return {
+        valid: false,
+        error: "このタイルには既にタワーがあります"
+      };
+    }
 
-  /**
-   * ゲームフィールド内かチェック
-   */
-  private isWithinGameField(position: Position): boolean {
-    return position.x >= this.gameFieldBounds.x &&
-           position.x <= this.gameFieldBounds.x + this.gameFieldBounds.width &&
-           position.y >= this.gameFieldBounds.y &&
-           position.y <= this.gameFieldBounds.y + this.gameFieldBounds.height;
+    return { valid: true, position: this._grid.snapToGrid(position) ?? position };
   }
 
   /**
-   * 移動パス上かチェック（簡略化）
+   * 配置可能な位置（空いている配置可能タイルの中心）を取得
    */
-  private isOnMovementPath(position: Position): boolean {
-    // 簡略化：Y座標が280-320の範囲は移動パスとして扱う
-    return position.y >= 280 && position.y <= 320;
+  getValidPlacementPositions(existingTowers: Tower[]): Position[] {
+    return this._grid
+      .getCells(TileType.BUILDABLE, TileType.BONUS)
+      .map((cell) => this._grid.getCellCenter(cell))
+      .filter((center) => !existingTowers.some((tower) => this._grid.isSameCell(tower.position, center)));
   }
 
   /**
-   * 配置可能な位置を取得
+   * 地形と経路から戦場のタイルグリッドを組み立てる
    */
-  getValidPlacementPositions(existingTowers: Tower[]): Position[] {
-    const positions: Position[] = [];
-    const step = 40;
-
-    for (let x = this.gameFieldBounds.x + step; x < this.gameFieldBounds.x + this.gameFieldBounds.width; x += step) {
-      for (let y = this.gameFieldBounds.y + step; y < this.gameFieldBounds.y + this.gameFieldBounds.height; y += step) {
-        const position = new Position(x, y);
-        const validation = this.validatePlacement(position, existingTowers);
-        if (validation.valid) {
-          positions.push(position);
-        }
-      }
-    }
-
-    return positions;
+  private buildGrid(): TileGrid {
+    const terrain = this._terrain ?? TileGrid.filled(this._fieldBounds, this.tileSize);
+    return terrain.withPaths(this._paths, this.pathHalfWidth + this.towerFootprintRadius);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,51 @@
+import type { Tower } from "../entities/tower";
+
+/**
+ * タワー修理の検証結果
+ */
+export interface RepairValidationResult {
+  isValid: boolean;
+  errors: string[];
+  cost?: number;
+}
+
+/**
+ * タワー修理ドメインサービス
+ * 失った耐久値の割合と総投資額から修理費用を計算する
+ */
+export class TowerRepairService {
+  static readonly REPAIR_COST_RATIO = 0.5; // 瓦礫から再建する場合の総投資額に対する費用の割合
+
+  /**
+   * 耐久値を最大まで回復する費用を計算（端数切り上げ、損傷していない場合は0）
+   */
+  calculateRepairCost(tower: Tower): number {
+    const missingRatio = (tower.maxHealth - tower.health) / tower.maxHealth;
+    if (missingRatio <= 0) {
+      return 0;
+    }
+
+    return Math.max(
+      1,
+      Math.ceil(tower.totalInvestment * TowerRepairService.REPAIR_COST_RATIO * missingRatio)
+    );
+  }
+
+  /**
+   * タワーが修理可能かを検証
+   * @param tower 修理対象のタワー
+   * @param availableMana 現在のマナ
+   */
+  validateRepair(tower: Tower, availableMana: number): RepairValidationResult {
+    const cost = this.calculateRepairCost(tower);
+    if (cost === 0) {
+      return { isValid: false, errors: ["タワーは損傷していません"] };
+    }
+
+    if (availableMana < cost) {
+      return { isValid: false, errors: ["マナが不足しています"], cost };
+    }
+
+    return { isValid: true, errors: [], cost };
+  }
+}
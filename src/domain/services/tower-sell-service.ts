@@ -0,0 +1,27 @@
+import type { Tower } from "../entities/tower";
+
+/**
+ * タワー売却ドメインサービス
+ * 設置コストと強化費用の合計から返還するマナを計算する
+ */
+export class TowerSellService {
+  static readonly DEFAULT_REFUND_RATIO = 0.5;
+
+  /**
+   * 売却時に返還するマナを計算（端数切り捨て）
+   * 破壊されて瓦礫になったタワーは撤去できるが、マナは返還されない
+   * @param tower 売却するタワー
+   * @param refundRatio 総投資額に対する返還率（0〜1）
+   */
+  calculateRefund(tower: Tower, refundRatio = TowerSellService.DEFAULT_REFUND_RATIO): number {
+    if (refundRatio < 0 || refundRatio > 1) {
+      throw new Error("返還率は0以上1以下である必要があります");
+    }
+
+    if (tower.isDestroyed) {
+      return 0;
+    }
+
+    return Math.floor(tower.totalInvestment * refundRatio);
+  }
+}
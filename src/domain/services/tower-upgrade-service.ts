@@ -0,0 +1,98 @@
+import type { Tower, TowerStats } from "../entities/tower";
+import { SpecialAbility } from "../value-objects/special-ability";
+import { type TowerUpgradeLevel, TowerUpgradeTree } from "../value-objects/tower-upgrade-tree";
+
+/**
+ * タワー強化の検証結果
+ */
+export interface UpgradeValidationResult {
+  isValid: boolean;
+  errors: string[];
+  upgrade?: TowerUpgradeLevel;
+}
+
+/**
+ * タワー強化ドメインサービス
+ * 強化ツリーに基づく強化可否の検証と、強化後の性能計算を担当する
+ */
+export class TowerUpgradeService {
+  /**
+   * タワーの次の強化段階を取得
+   * @returns 次の強化段階（最大レベルの場合はnull）
+   */
+  getNextUpgrade(tower: Tower): TowerUpgradeLevel | null {
+    return TowerUpgradeTree.forType(tower.type).getNextUpgrade(tower.level);
+  }
+
+  /**
+   * タワーが強化可能かを検証
+   * @param tower 強化対象のタワー
+   * @param availableMana 現在のマナ
+   */
+  validateUpgrade(tower: Tower, availableMana: number): UpgradeValidationResult {
+    if (tower.isDestroyed) {
+      return { isValid: false, errors: ["破壊されたタワーは修理するまで強化できません"] };
+    }
+
+    const upgrade = this.getNextUpgrade(tower);
+    if (!upgrade) {
+      return { isValid: false, errors: ["タワーは最大レベルです"] };
+    }
+
+    if (availableMana < upgrade.cost) {
+      return { isValid: false, errors: ["マナが不足しています"], upgrade };
+    }
+
+    return { isValid: true, errors: [], upgrade };
+  }
+
+  /**
+   * 強化後の性能を計算
+   * 攻撃力は倍率、射程と会心率は加算、攻撃間隔は倍率で変化し、コストは変わらない
+   */
+  calculateUpgradedStats(stats: TowerStats, upgrade: TowerUpgradeLevel): TowerStats {
+    const upgraded: TowerStats = {
+      ...stats,
+      damage: Math.round(stats.damage * upgrade.damageMultiplier),
+      range: stats.range + upgrade.rangeBonus,
+      attackSpeed: Math.round(stats.attackSpeed * upgrade.attackSpeedMultiplier),
+      cost: stats.cost,
+    };
+
+    if (upgrade.critChanceBonus) {
+      upgraded.critChance = Math.min(1, (stats.critChance ?? 0) + upgrade.critChanceBonus);
+    }
+
+    return upgraded;
+  }
+
+  /**
+   * 強化後の特殊能力を決定
+   * カード由来の特殊能力を持つタワーは能力を上書きしない
+   */
+  resolveAbility(current: SpecialAbility, upgrade: TowerUpgradeLevel): SpecialAbility {
+    if (current !== SpecialAbility.NONE || !upgrade.unlocksAbility) {
+      return current;
+    }
+    return upgrade.unlocksAbility;
+  }
+
+  /**
+   * タワーを強化する（マナの支払いは呼び出し側で行う）
+   * @returns 適用した強化段階
+   */
+  applyUpgrade(tower: Tower): TowerUpgradeLevel {
+    const upgrade = this.getNextUpgrade(tower);
+    if (!upgrade) {
+      throw new Error("タワーは最大レベルです");
+    }
+
+    tower.upgrade(
+      this.calculateUpgradedStats(tower.baseStats, upgrade),
+      this.resolveAbility(tower.specialAbility, upgrade),
+      upgrade.cost
+    );
+
+    return upgrade;
+  }
+}
@@ -0,0 +1,312 @@
+/**
+ * ボスの行動の種類
+ */
+export type BossActionType = "SPEED_BURST" | "SUMMON" | "DISABLE_TOWERS" | "SHIELD";
+
+/**
+ * ボスの行動の種類を表す列挙型
+ */
+export const BossActionType = {
+  SPEED_BURST: "SPEED_BURST",
+  SUMMON: "SUMMON",
+  DISABLE_TOWERS: "DISABLE_TOWERS",
+  SHIELD: "SHIELD",
+
+  /**
+   * すべての行動の種類を取得
+   */
+  getAllTypes(): BossActionType[] {
+    return [
+      BossActionType.SPEED_BURST,
+      BossActionType.SUMMON,
+      BossActionType.DISABLE_TOWERS,
+      BossActionType.SHIELD,
+    ];
+  },
+
+  /**
+   * 有効な行動の種類かどうか判定
+   */
+  isValid(value: string): value is BossActionType {
+    return BossActionType.getAllTypes().includes(value as BossActionType);
+  },
+
+  /**
+   * 行動の表示名を取得
+   */
+  getDisplayName(type: BossActionType): string {
+    const displayNames: Record<BossActionType, string> = {
+      [BossActionType.SPEED_BURST]: "突進",
+      [BossActionType.SUMMON]: "召喚",
+      [BossActionType.DISABLE_TOWERS]: "妨害",
+      [BossActionType.SHIELD]: "防壁",
+    };
+
+    if (!BossActionType.isValid(type)) {
+      throw new Error(`無効なボスの行動です: ${type}`);
+    }
+
+    return displayNames[type];
+  },
+} as const;
+
+/**
+ * ボスの行動の定義（config/enemies.json の phases[].actions の1要素）
+ * 使う項目は行動の種類によって異なる
+ */
+export interface BossActionDefinition {
+  type: string;
+  delay?: number; // フェーズ開始から最初に予兆を出すまでの時間（ミリ秒、省略時は0）
+  interval?: number; // 繰り返す間隔（ミリ秒、省略時はフェーズ中に1回だけ）
+  telegraph?: number; // 予兆を出してから発動するまでの時間（ミリ秒、省略時は既定値）
+  multiplier?: number; // SPEED_BURST: 移動速度の倍率
+  duration?: number; // SPEED_BURST: 加速する時間 / DISABLE_TOWERS: タワーが停止する時間（ミリ秒）
+  enemyType?: string; // SUMMON: 召喚する敵タイプ
+  count?: number; // SUMMON: 召喚する数
+  radius?: number; // DISABLE_TOWERS: タワーを停止させる範囲
+  amount?: number; // SHIELD: 得るシールドの量
+}
+
+/**
+ * ボスのフェーズの定義（config/enemies.json の phases の1要素）
+ */
+export interface BossPhaseDefinition {
+  name: string;
+  healthThreshold: number; // 体力の割合がこの値以下になるとこのフェーズに入る（最初のフェーズは1）
+  actions?: BossActionDefinition[];
+}
+
+/**
+ * 行動の発動タイミング
+ */
+interface BossActionTiming {
+  delay: number;
+  interval: number | null; // nullの場合はフェーズ中に1回だけ
+  telegraph: number;
+}
+
+/**
+ * 一定時間、移動速度を上げて突進する
+ */
+export interface SpeedBurstAction extends BossActionTiming {
+  type: "SPEED_BURST";
+  multiplier: number;
+  duration: number;
+}
+
+/**
+ * ボスの周りに手下を召喚する
+ */
+export interface SummonAction extends BossActionTiming {
+  type: "SUMMON";
+  enemyType: string;
+  count: number;
+}
+
+/**
+ * 予兆を出した位置の周囲のタワーを一定時間停止させる
+ */
+export interface DisableTowersAction extends BossActionTiming {
+  type: "DISABLE_TOWERS";
+  radius: number;
+  duration: number;
+}
+
+/**
+ * 体力より先にダメージを吸収するシールドを張る
+ */
+export interface ShieldAction extends BossActionTiming {
+  type: "SHIELD";
+  amount: number;
+}
+
+/**
+ * ボスの行動
+ */
+export type BossAction = SpeedBurstAction | SummonAction | DisableTowersAction | ShieldAction;
+
+/**
+ * 体力の割合で切り替わるボスのフェーズを表現する値オブジェクト
+ * フェーズごとに予兆付きの行動を持つ
+ */
+export class BossPhase {
+  static readonly DEFAULT_TELEGRAPH = 1500; // 予兆の既定の時間（ミリ秒）
+
+  private readonly _actions: BossAction[];
+
+  constructor(
+    public readonly name: string,
+    public readonly healthThreshold: number,
+    actions: BossAction[]
+  ) {
+    if (!name.trim()) {
+      throw new Error("フェーズ名は空であってはいけません");
+    }
+    if (!(healthThreshold > 0 && healthThreshold <= 1)) {
+      throw new Error("フェーズの体力の割合は0より大きく1以下である必要があります");
+    }
+
+    this._actions = actions.map((action) => ({ ...action }));
+  }
+
+  /**
+   * フェーズの定義を検証する
+   * 召喚する敵タイプが存在するかどうかは、すべての敵タイプがそろうEnemyTypeRegistry.loadで検証する
+   * @param enemyName フェーズを持つ敵タイプ名
+   * @param definitions フェーズの定義（体力の割合が高い順）
+   * @returns エラーメッセージの配列（問題がなければ空）
+   */
+  static validateDefinitions(enemyName: string, definitions: BossPhaseDefinition[]): string[] {
+    if (definitions.length === 0) {
+      return ["フェーズが定義されていません"];
+    }
+
+    const errors: string[] = [];
+    if (definitions[0]?.healthThreshold !== 1) {
+      errors.push("最初のフェーズの体力の割合は1である必要があります");
+    }
+
+    definitions.forEach((definition, index) => {
+      const label = `フェーズ${index + 1}`;
+      if (typeof definition?.name !== "string" || !definition.name.trim()) {
+        errors.push(`${label}: フェーズ名は空であってはいけません`);
+      }
+      const threshold = definition?.healthThreshold;
+      if (!(threshold > 0 && threshold <= 1)) {
+        errors.push(`${label}: 体力の割合は0より大きく1以下である必要があります`);
+      } else if (index > 0 && !(threshold < (definitions[index - 1]?.healthThreshold ?? 0))) {
+        errors.push(`${label}: 体力の割合は前のフェーズより小さい必要があります`);
+      }
+
+      const actions = definition?.actions ?? [];
+      if (!Array.isArray(actions)) {
+        errors.push(`${label}: actionsは配列である必要があります`);
+        return;
+      }
+      for (const action of actions) {
+        errors.push(
+          ...BossPhase.validateAction(enemyName, action).map((error) => `${label}: ${error}`)
+        );
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * 行動の定義を検証する
+   */
+  private static validateAction(enemyName: string, definition: BossActionDefinition): string[] {
+    const errors: string[] = [];
+    const isPositive = (value: number | undefined) => typeof value === "number" && value > 0;
+    const isNonNegative = (value: number | undefined) => typeof value === "number" && value >= 0;
+
+    if (definition?.delay !== undefined && !isNonNegative(definition.delay)) {
+      errors.push("行動の開始までの時間は0以上である必要があります");
+    }
+    if (definition?.interval !== undefined && !isPositive(definition.interval)) {
+      errors.push("行動の間隔は正の値である必要があります");
+    }
+    if (definition?.telegraph !== undefined && !isNonNegative(definition.telegraph)) {
+      errors.push("予兆の時間は0以上である必要があります");
+    }
+
+    switch (definition?.type) {
+      case BossActionType.SPEED_BURST:
+        if (!(isPositive(definition.multiplier) && (definition.multiplier as number) > 1)) {
+          errors.push("突進の速度倍率は1より大きい必要があります");
+        }
+        if (!isPositive(definition.duration)) {
+          errors.push("突進の時間は正の値である必要があります");
+        }
+        break;
+      case BossActionType.SUMMON:
+        if (typeof definition.enemyType !== "string" || !definition.enemyType.trim()) {
+          errors.push("召喚する敵タイプは空であってはいけません");
+        } else if (definition.enemyType === enemyName) {
+          // 自分自身を召喚するとボスが増え続ける
+          errors.push("自分と同じ敵タイプは召喚できません");
+        }
+        if (!Number.isInteger(definition.count) || !isPositive(definition.count)) {
+          errors.push("召喚する数は1以上の整数である必要があります");
+        }
+        break;
+      case BossActionType.DISABLE_TOWERS:
+        if (!isPositive(definition.radius)) {
+          errors.push("タワーを停止させる範囲は正の値である必要があります");
+        }
+        if (!isPositive(definition.duration)) {
+          errors.push("タワーを停止させる時間は正の値である必要があります");
+        }
+        break;
+      case BossActionType.SHIELD:
+        if (!isPositive(definition.amount)) {
+          errors.push("防壁のシールド量は正の値である必要があります");
+        }
+        break;
+      default:
+        errors.push(`無効なボスの行動です: ${definition?.type}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * 検証済みのフェーズの定義から作成する
+   */
+  static fromDefinition(definition: BossPhaseDefinition): BossPhase {
+    return new BossPhase(
+      definition.name,
+      definition.healthThreshold,
+      (definition.actions ?? []).map((action) => BossPhase.toAction(action))
+    );
+  }
+
+  /**
+   * 検証済みの行動の定義を行動に変換する
+   */
+  private static toAction(definition: BossActionDefinition): BossAction {
+    const timing: BossActionTiming = {
+      delay: definition.delay ?? 0,
+      interval: definition.interval ?? null,
+      telegraph: definition.telegraph ?? BossPhase.DEFAULT_TELEGRAPH,
+    };
+
+    switch (definition.type) {
+      case BossActionType.SPEED_BURST:
+        return {
+          type: BossActionType.SPEED_BURST,
+          ...timing,
+          multiplier: definition.multiplier as number,
+          duration: definition.duration as number,
+        };
+      case BossActionType.SUMMON:
+        return {
+          type: BossActionType.SUMMON,
+          ...timing,
+          enemyType: definition.enemyType as string,
+          count: definition.count as number,
+        };
+      case BossActionType.DISABLE_TOWERS:
+        return {
+          type: BossActionType.DISABLE_TOWERS,
+          ...timing,
+          radius: definition.radius as number,
+          duration: definition.duration as number,
+        };
+      default:
+        return {
+          type: BossActionType.SHIELD,
+          ...timing,
+          amount: definition.amount as number,
+        };
+    }
+  }
+
+  /**
+   * フェーズ中の行動一覧
+   */
+  get actions(): BossAction[] {
+    return this._actions.map((action) => ({ ...action }));
+  }
+}
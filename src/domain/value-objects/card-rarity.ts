@@ -0,0 +1,54 @@
+/**
+ * カードのレアリティ
+ */
+export type CardRarity = "common" | "uncommon" | "rare" | "epic" | "legendary";
+
+/**
+ * カードのレアリティを表す列挙型
+ */
+export const CardRarity = {
+  COMMON: "common" as CardRarity,
+  UNCOMMON: "uncommon" as CardRarity,
+  RARE: "rare" as CardRarity,
+  EPIC: "epic" as CardRarity,
+  LEGENDARY: "legendary" as CardRarity,
+
+  /**
+   * すべてのレアリティを取得（低い順）
+   */
+  getAllRarities(): CardRarity[] {
+    return [
+      CardRarity.COMMON,
+      CardRarity.UNCOMMON,
+      CardRarity.RARE,
+      CardRarity.EPIC,
+      CardRarity.LEGENDARY,
+    ];
+  },
+
+  /**
+   * 有効なレアリティかどうか判定
+   */
+  isValid(value: string): value is CardRarity {
+    return CardRarity.getAllRarities().includes(value as CardRarity);
+  },
+
+  /**
+   * レアリティの表示名を取得
+   */
+  getDisplayName(rarity: CardRarity): string {
+    const displayNames: Record<CardRarity, string> = {
+      common: "コモン",
+      uncommon: "アンコモン",
+      rare: "レア",
+      epic: "エピック",
+      legendary: "レジェンダリー",
+    };
+
+    if (!CardRarity.isValid(rarity)) {
+      throw new Error(`無効なレアリティです: ${rarity}`);
+    }
+
+    return displayNames[rarity];
+  },
+} as const;
@@ -0,0 +1,58 @@
+/**
+ * ダメージの種類
+ */
+export type DamageType = "PHYSICAL" | "MAGIC" | "FIRE" | "ICE" | "LIGHTNING" | "POISON";
+
+/**
+ * ダメージの種類を表す列挙型
+ * 物理ダメージは敵の装甲で、それ以外は種類ごとの耐性で軽減される
+ */
+export const DamageType = {
+  PHYSICAL: "PHYSICAL",
+  MAGIC: "MAGIC",
+  FIRE: "FIRE",
+  ICE: "ICE",
+  LIGHTNING: "LIGHTNING",
+  POISON: "POISON",
+
+  /**
+   * すべてのダメージの種類を取得
+   */
+  getAllTypes(): DamageType[] {
+    return [
+      DamageType.PHYSICAL,
+      DamageType.MAGIC,
+      DamageType.FIRE,
+      DamageType.ICE,
+      DamageType.LIGHTNING,
+      DamageType.POISON,
+    ];
+  },
+
+  /**
+   * 有効なダメージの種類かどうか判定
+   */
+  isValid(value: string): value is DamageType {
+    return DamageType.getAllTypes().includes(value as DamageType);
+  },
+
+  /**
+   * ダメージの種類の表示名を取得
+   */
+  getDisplayName(type: DamageType): string {
+    const displayNames: Record<DamageType, string> = {
+      [DamageType.PHYSICAL]: "物理",
+      [DamageType.MAGIC]: "魔法",
+      [DamageType.FIRE]: "炎",
+      [DamageType.ICE]: "氷",
+      [DamageType.LIGHTNING]: "雷",
+      [DamageType.POISON]: "毒",
+    };
+
+    if (!DamageType.isValid(type)) {
+      throw new Error(`無効なダメージの種類です: ${type}`);
+    }
+
+    return displayNames[type];
+  },
+} as const;
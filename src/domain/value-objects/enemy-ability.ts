@@ -0,0 +1,122 @@
+/**
+ * 敵の能力の種類
+ */
+export type EnemyAbilityType = "HEAL" | "SHIELD" | "SPLIT" | "STEALTH" | "FLYING";
+
+/**
+ * 敵の能力の種類を表す列挙型
+ */
+export const EnemyAbilityType = {
+  HEAL: "HEAL",
+  SHIELD: "SHIELD",
+  SPLIT: "SPLIT",
+  STEALTH: "STEALTH",
+  FLYING: "FLYING",
+
+  /**
+   * すべての能力の種類を取得
+   */
+  getAllTypes(): EnemyAbilityType[] {
+    return [
+      EnemyAbilityType.HEAL,
+      EnemyAbilityType.SHIELD,
+      EnemyAbilityType.SPLIT,
+      EnemyAbilityType.STEALTH,
+      EnemyAbilityType.FLYING,
+    ];
+  },
+
+  /**
+   * 有効な能力の種類かどうか判定
+   */
+  isValid(value: string): value is EnemyAbilityType {
+    return EnemyAbilityType.getAllTypes().includes(value as EnemyAbilityType);
+  },
+
+  /**
+   * 能力の表示名を取得
+   */
+  getDisplayName(type: EnemyAbilityType): string {
+    const displayNames: Record<EnemyAbilityType, string> = {
+      [EnemyAbilityType.HEAL]: "回復",
+      [EnemyAbilityType.SHIELD]: "シールド",
+      [EnemyAbilityType.SPLIT]: "分裂",
+      [EnemyAbilityType.STEALTH]: "隠密",
+      [EnemyAbilityType.FLYING]: "飛行",
+    };
+
+    if (!EnemyAbilityType.isValid(type)) {
+      throw new Error(`無効な敵の能力です: ${type}`);
+    }
+
+    return displayNames[type];
+  },
+} as const;
+
+/**
+ * 能力の定義（config/enemies.json の abilities の1要素）
+ * 使う項目は能力の種類によって異なる
+ */
+export interface EnemyAbilityDefinition {
+  type: string;
+  radius?: number; // HEAL: 回復する範囲
+  amount?: number; // HEAL: 1回の回復量 / SHIELD: シールドの最大値
+  interval?: number; // HEAL: 回復の間隔（ミリ秒）
+  regenDelay?: number; // SHIELD: 最後にダメージを受けてから再生を始めるまでの時間（ミリ秒）
+  regenRate?: number; // SHIELD: 1秒あたりの再生量
+  spawnType?: string; // SPLIT: 倒されたときに生まれる敵タイプ
+  count?: number; // SPLIT: 生まれる数
+}
+
+/**
+ * 周囲の味方を一定間隔で回復する
+ */
+export interface HealAbility {
+  type: "HEAL";
+  radius: number;
+  amount: number;
+  interval: number;
+}
+
+/**
+ * 体力より先にダメージを吸収し、しばらくダメージを受けなければ再生するシールド
+ */
+export interface ShieldAbility {
+  type: "SHIELD";
+  amount: number;
+  regenDelay: number;
+  regenRate: number;
+}
+
+/**
+ * 倒されるとその場で小さな敵に分裂する
+ */
+export interface SplitAbility {
+  type: "SPLIT";
+  spawnType: string;
+  count: number;
+}
+
+/**
+ * 隠密を見破れるタワーからしか狙われない
+ */
+export interface StealthAbility {
+  type: "STEALTH";
+}
+
+/**
+ * 空中を飛び、地上専用のタワーから狙われない
+ */
+export interface FlyingAbility {
+  type: "FLYING";
+}
+
+/**
+ * 敵の能力
+ */
+export type EnemyAbility =
+  | HealAbility
+  | ShieldAbility
+  | SplitAbility
+  | StealthAbility
+  | FlyingAbility;
@@ -0,0 +1,144 @@
+import { BossActionType } from "./boss-phase";
+import { EnemyAbilityType } from "./enemy-ability";
+import { EnemyType, type EnemyTypeDefinition, type EnemyTypesFileData } from "./enemy-type";
+
+/**
+ * 敵タイプのレジストリを表現する値オブジェクト
+ * 設定ファイルから読み込んだ敵タイプを名前で引けるようにまとめたもの。
+ * 読み込むたびに新しいレジストリを作るため、別の設定を読み込んでも既存のレジストリには影響しない
+ */
+export class EnemyTypeRegistry {
+  private readonly _types: ReadonlyMap<string, EnemyType>;
+
+  private constructor(types: EnemyType[]) {
+    this._types = new Map(types.map((type) => [type.name, type]));
+  }
+
+  /**
+   * 敵タイプ設定ファイルを読み込んでレジストリを作成する
+   * 不正な定義が1つでもあればすべてのエラーをまとめて例外を投げる
+   */
+  static load(data: EnemyTypesFileData): EnemyTypeRegistry {
+    const entries = Object.entries(data?.enemyTypes ?? {});
+    if (entries.length === 0) {
+      throw new Error("敵タイプ設定の読み込みに失敗しました:\n敵タイプが定義されていません");
+    }
+
+    const names = new Set(entries.map(([name]) => name));
+    const errors = entries.flatMap(([name, definition]) =>
+      [
+        ...EnemyType.validateDefinition(name, definition),
+        ...EnemyTypeRegistry.validateReferencedTypes(definition, names),
+      ].map((error) => `${name}: ${error}`)
+    );
+    errors.push(...EnemyTypeRegistry.findSplitCycles(entries));
+    if (errors.length > 0) {
+      throw new Error(`敵タイプ設定の読み込みに失敗しました:\n${errors.join("\n")}`);
+    }
+
+    return new EnemyTypeRegistry(
+      entries.map(([name, definition]) => EnemyType.fromDefinition(name, definition))
+    );
+  }
+
+  /**
+   * 分裂先・召喚する敵タイプが設定ファイルに定義されているかを検証する
+   */
+  private static validateReferencedTypes(
+    definition: EnemyTypeDefinition,
+    names: Set<string>
+  ): string[] {
+    const isUndefinedName = (name: string | undefined) =>
+      typeof name === "string" && name.trim() !== "" && !names.has(name);
+
+    const abilities = Array.isArray(definition.abilities) ? definition.abilities : [];
+    const splitErrors = abilities
+      .filter(
+        (ability) => ability?.type === EnemyAbilityType.SPLIT && isUndefinedName(ability.spawnType)
+      )
+      .map((ability) => `未定義の分裂先の敵タイプです: ${ability.spawnType}`);
+
+    const phases = Array.isArray(definition.phases) ? definition.phases : [];
+    const summonErrors = phases
+      .flatMap((phase) => (Array.isArray(phase?.actions) ? phase.actions : []))
+      .filter(
+        (action) => action?.type === BossActionType.SUMMON && isUndefinedName(action.enemyType)
+      )
+      .map((action) => `未定義の召喚する敵タイプです: ${action.enemyType}`);
+
+    return [...splitErrors, ...summonErrors];
+  }
+
+  /**
+   * 分裂先をたどって元の敵タイプに戻る循環を検出する
+   * 循環があると倒すたびに分裂した敵が生まれ続けるため、読み込み時に拒否する
+   * （自分自身への分裂は validateAbility で拒否済みのため対象外）
+   */
+  private static findSplitCycles(entries: [string, EnemyTypeDefinition][]): string[] {
+    const splitTargets = new Map(
+      entries.map(([name, definition]) => [
+        name,
+        (Array.isArray(definition.abilities) ? definition.abilities : [])
+          .filter((ability) => ability?.type === EnemyAbilityType.SPLIT)
+          .map((ability) => ability.spawnType)
+          .filter((spawnType): spawnType is string => typeof spawnType === "string")
+          .filter((spawnType) => spawnType !== name),
+      ])
+    );
+
+    const errors: string[] = [];
+    const visited = new Set<string>();
+    const visit = (name: string, path: string[]): void => {
+      const start = path.indexOf(name);
+      if (start >= 0) {
+        const cycle = [...path.slice(start), name];
+        errors.push(`${name}: 分裂先が循環しています: ${cycle.join(" → ")}`);
+        return;
+      }
+      if (visited.has(name)) {
+        return;
+      }
+      visited.add(name);
+      for (const target of splitTargets.get(name) ?? []) {
+        visit(target, [...path, name]);
+      }
+    };
+    for (const [name] of entries) {
+      visit(name, []);
+    }
+    return errors;
+  }
+
+  /**
+   * すべての敵タイプを設定ファイルの定義順に取得
+   */
+  getAll(): EnemyType[] {
+    return [...this._types.values()];
+  }
+
+  /**
+   * 名前から敵タイプを取得
+   * @returns 敵タイプ（未定義の場合はnull）
+   */
+  find(name: string): EnemyType | null {
+    return this._types.get(name) ?? null;
+  }
+
+  /**
+   * 名前から敵タイプを取得（未定義の場合は例外）
+   */
+  get(name: string): EnemyType {
+    const type = this.find(name);
+    if (!type) {
+      throw new Error(`Unknown enemy type: ${name}`);
+    }
+    return type;
+  }
+
+  /**
+   * 指定した敵タイプがこのレジストリに登録されているかどうか
+   */
+  has(type: EnemyType): boolean {
+    return this._types.get(type.name) === type;
+  }
+}
@@ -1,3 +1,7 @@
+import { BossPhase, type BossPhaseDefinition } from "./boss-phase";
+import { DamageType } from "./damage-type";
+import { type EnemyAbility, type EnemyAbilityDefinition, EnemyAbilityType } from "./enemy-ability";
+
 /**
  * 敵の基本統計情報
  */
@@ -6,75 +10,274 @@ export interface EnemyStats {
   attackPower: number;
   movementSpeed: number;
   scoreValue: number;
+  attackRange: number; // タワーを攻撃できる距離（0の場合はタワーを攻撃しない）
+  attackInterval: number; // タワーへの攻撃間隔（ミリ秒）
+  armor: number; // 物理ダメージを軽減する装甲（0の場合は軽減しない）
+}
+
+/**
+ * ダメージの種類ごとの耐性（1で完全に無効、負の値は弱点として被ダメージが増える）
+ */
+export type DamageResistances = Partial<Record<DamageType, number>>;
+
+/**
+ * 敵の格付け（スコア集計・ボス判定に使用）
+ */
+export type EnemyRank = "normal" | "elite" | "boss";
+
+/**
+ * 敵タイプ定義（config/enemies.json の1エントリ）
+ */
+export interface EnemyTypeDefinition {
+  displayName: string;
+  description: string;
+  rank: string;
+  baseStats: {
+    health: number;
+    attackPower: number;
+    movementSpeed: number;
+    attackRange?: number; // 省略時はタワーを攻撃しない
+    attackInterval?: number; // 省略時はDEFAULT_ATTACK_INTERVAL
+    armor?: number; // 省略時は0
+  };
+  scoreValue: number;
+  imageUrl: string;
+  resistances?: Record<string, number>; // ダメージの種類ごとの耐性（省略した種類は0）
+  abilities?: EnemyAbilityDefinition[]; // 省略時は能力なし
+  phases?: BossPhaseDefinition[]; // ボス格のみ。体力の割合で切り替わるフェーズ（省略時はフェーズなし）
+}
+
+/**
+ * 敵タイプ設定ファイルの形式
+ */
+export interface EnemyTypesFileData {
+  enemyTypes: Record<string, EnemyTypeDefinition>;
 }
 
 /**
  * 敵タイプを表現する値オブジェクト
+ * 敵タイプは設定ファイルの定義から作成され、EnemyTypeRegistry で名前から引けるようにまとめられる
  */
 export class EnemyType {
+  static readonly DEFAULT_ATTACK_INTERVAL = 1000; // タワーへの攻撃間隔の既定値（ミリ秒）
+  static readonly MIN_RESISTANCE = -1; // 弱点の上限（被ダメージ2倍）
+  static readonly MAX_RESISTANCE = 0.9; // 耐性の上限（完全な無効化はできない）
+
+  private static readonly RANKS: readonly EnemyRank[] = ["normal", "elite", "boss"];
+
   private constructor(
     private readonly _name: string,
-    private readonly _stats: EnemyStats
+    private readonly _stats: EnemyStats,
+    private readonly _rank: EnemyRank,
+    private readonly _displayName: string,
+    private readonly _description: string,
+    private readonly _imageUrl: string,
+    private readonly _resistances: Readonly<DamageResistances>,
+    private readonly _abilities: readonly EnemyAbility[],
+    private readonly _bossPhases: readonly BossPhase[]
   ) {}
 
   /**
-   * 基本敵
+   * 敵タイプ定義を検証する
+   * @returns エラーメッセージの配列（問題がなければ空）
    */
-  static get BASIC(): EnemyType {
-    return new EnemyType("BASIC", {
-      health: 100,
-      attackPower: 10,
-      movementSpeed: 50,
-      scoreValue: 10,
-    });
-  }
+  static validateDefinition(name: string, definition: EnemyTypeDefinition): string[] {
+    const errors: string[] = [];
+    const stats = definition.baseStats;
 
-  /**
-   * 高速敵
-   */
-  static get FAST(): EnemyType {
-    return new EnemyType("FAST", {
-      health: 60,
-      attackPower: 8,
-      movementSpeed: 80,
-      scoreValue: 15,
-    });
+    if (!name.trim()) {
+      errors.push("敵タイプ名は空であってはいけません");
+    }
+    if (!definition.displayName?.trim()) {
+      errors.push("表示名は空であってはいけません");
+    }
+    if (typeof definition.description !== "string") {
+      errors.push("説明は文字列である必要があります");
+    }
+    if (typeof definition.imageUrl !== "string" || !definition.imageUrl.trim()) {
+      errors.push("画像URLは空であってはいけません");
+    }
+    if (!EnemyType.RANKS.includes(definition.rank as EnemyRank)) {
+      errors.push(`無効な格付けです: ${definition.rank}`);
+    }
+    if (!stats || typeof stats !== "object") {
+      errors.push("baseStatsが定義されていません");
+    } else {
+      if (!(stats.health > 0)) {
+        errors.push("体力は正の値である必要があります");
+      }
+      if (!(stats.attackPower >= 0)) {
+        errors.push("攻撃力は0以上である必要があります");
+      }
+      if (!(stats.movementSpeed > 0)) {
+        errors.push("移動速度は正の値である必要があります");
+      }
+      if (stats.attackRange !== undefined && !(stats.attackRange >= 0)) {
+        errors.push("攻撃射程は0以上である必要があります");
+      }
+      if (stats.attackInterval !== undefined && !(stats.attackInterval > 0)) {
+        errors.push("攻撃間隔は正の値である必要があります");
+      }
+      if (stats.armor !== undefined && !(stats.armor >= 0)) {
+        errors.push("装甲は0以上である必要があります");
+      }
+    }
+    if (!Number.isInteger(definition.scoreValue) || definition.scoreValue < 0) {
+      errors.push("スコアは0以上の整数である必要があります");
+    }
+    if (definition.resistances !== undefined) {
+      if (typeof definition.resistances !== "object" || definition.resistances === null) {
+        errors.push("resistancesはオブジェクトである必要があります");
+      } else {
+        for (const [type, resistance] of Object.entries(definition.resistances)) {
+          if (!DamageType.isValid(type)) {
+            errors.push(`無効なダメージの種類です: ${type}`);
+          } else if (
+            !(resistance >= EnemyType.MIN_RESISTANCE && resistance <= EnemyType.MAX_RESISTANCE)
+          ) {
+            errors.push(
+              `${DamageType.getDisplayName(type)}耐性は${EnemyType.MIN_RESISTANCE}以上${EnemyType.MAX_RESISTANCE}以下である必要があります`
+            );
+          }
+        }
+      }
+    }
+    if (definition.abilities !== undefined) {
+      if (!Array.isArray(definition.abilities)) {
+        errors.push("abilitiesは配列である必要があります");
+      } else {
+        for (const ability of definition.abilities) {
+          errors.push(...EnemyType.validateAbility(name, ability));
+        }
+      }
+    }
+
+    if (definition.phases !== undefined) {
+      if (!Array.isArray(definition.phases)) {
+        errors.push("phasesは配列である必要があります");
+      } else if (definition.rank !== "boss") {
+        errors.push("フェーズはボス格の敵タイプにしか定義できません");
+      } else {
+        errors.push(...BossPhase.validateDefinitions(name, definition.phases));
+      }
+    }
+
+    return errors;
   }
 
   /**
-   * 遠距離敵
+   * 能力の定義を検証する
+   * 分裂先の敵タイプが存在するかどうかは、すべての敵タイプがそろうEnemyTypeRegistry.loadで検証する
    */
-  static get RANGED(): EnemyType {
-    return new EnemyType("RANGED", {
-      health: 80,
-      attackPower: 12,
-      movementSpeed: 40,
-      scoreValue: 20,
-    });
+  private static validateAbility(name: string, definition: EnemyAbilityDefinition): string[] {
+    const errors: string[] = [];
+    const isPositive = (value: number | undefined) => typeof value === "number" && value > 0;
+    const isNonNegative = (value: number | undefined) => typeof value === "number" && value >= 0;
+
+    switch (definition?.type) {
+      case EnemyAbilityType.HEAL:
+        if (!isPositive(definition.radius)) {
+          errors.push("回復範囲は正の値である必要があります");
+        }
+        if (!isPositive(definition.amount)) {
+          errors.push("回復量は正の値である必要があります");
+        }
+        if (!isPositive(definition.interval)) {
+          errors.push("回復間隔は正の値である必要があります");
+        }
+        break;
+      case EnemyAbilityType.SHIELD:
+        if (!isPositive(definition.amount)) {
+          errors.push("シールドの最大値は正の値である必要があります");
+        }
+        if (!isNonNegative(definition.regenDelay)) {
+          errors.push("シールドの再生待ち時間は0以上である必要があります");
+        }
+        if (!isNonNegative(definition.regenRate)) {
+          errors.push("シールドの再生量は0以上である必要があります");
+        }
+        break;
+      case EnemyAbilityType.SPLIT:
+        if (typeof definition.spawnType !== "string" || !definition.spawnType.trim()) {
+          errors.push("分裂先の敵タイプは空であってはいけません");
+        } else if (definition.spawnType === name) {
+          // 自分自身に分裂すると倒しきれなくなる
+          errors.push("自分と同じ敵タイプには分裂できません");
+        }
+        if (!Number.isInteger(definition.count) || !isPositive(definition.count)) {
+          errors.push("分裂数は1以上の整数である必要があります");
+        }
+        break;
+      case EnemyAbilityType.STEALTH:
+      case EnemyAbilityType.FLYING:
+        break;
+      default:
+        errors.push(`無効な敵の能力です: ${definition?.type}`);
+    }
+
+    return errors;
   }
 
   /**
-   * 強化敵
+   * 検証済みの能力の定義を能力に変換する
    */
-  static get ENHANCED(): EnemyType {
-    return new EnemyType("ENHANCED", {
-      health: 150,
-      attackPower: 15,
-      movementSpeed: 45,
-      scoreValue: 25,
-    });
+  private static toAbility(definition: EnemyAbilityDefinition): EnemyAbility {
+    switch (definition.type) {
+      case EnemyAbilityType.HEAL:
+        return {
+          type: EnemyAbilityType.HEAL,
+          radius: definition.radius as number,
+          amount: definition.amount as number,
+          interval: definition.interval as number,
+        };
+      case EnemyAbilityType.SHIELD:
+        return {
+          type: EnemyAbilityType.SHIELD,
+          amount: definition.amount as number,
+          regenDelay: definition.regenDelay as number,
+          regenRate: definition.regenRate as number,
+        };
+      case EnemyAbilityType.SPLIT:
+        return {
+          type: EnemyAbilityType.SPLIT,
+          spawnType: definition.spawnType as string,
+          count: definition.count as number,
+        };
+      case EnemyAbilityType.STEALTH:
+        return { type: EnemyAbilityType.STEALTH };
+      default:
+        return { type: EnemyAbilityType.FLYING };
+    }
   }
 
   /**
-   * ボス敵
+   * 敵タイプ定義から敵タイプを作成する
    */
-  static get BOSS(): EnemyType {
-    return new EnemyType("BOSS", {
-      health: 300,
-      attackPower: 25,
-      movementSpeed: 30,
-      scoreValue: 50,
-    });
+  static fromDefinition(name: string, definition: EnemyTypeDefinition): EnemyType {
+    const errors = EnemyType.validateDefinition(name, definition);
+    if (errors.length > 0) {
+      throw new Error(`敵タイプ ${name} の定義が不正です: ${errors.join(", ")}`);
+    }
+
+    return new EnemyType(
+      name,
+      {
+        health: definition.baseStats.health,
+        attackPower: definition.baseStats.attackPower,
+        movementSpeed: definition.baseStats.movementSpeed,
+        scoreValue: definition.scoreValue,
+        attackRange: definition.baseStats.attackRange ?? 0,
+        attackInterval: definition.baseStats.attackInterval ?? EnemyType.DEFAULT_ATTACK_INTERVAL,
+        armor: definition.baseStats.armor ?? 0,
+      },
+      definition.rank as EnemyRank,
+      definition.displayName,
+      definition.description,
+      definition.imageUrl,
+      { ...(definition.resistances as DamageResistances | undefined) },
+      (definition.abilities ?? []).map((ability) => EnemyType.toAbility(ability)),
+      (definition.phases ?? []).map((phase) => BossPhase.fromDefinition(phase))
+    );
   }
 
   /**
@@ -84,6 +287,41 @@ export class EnemyType {
     return this._name;
   }
 
+  /**
+   * 表示名を取得
+   */
+  getDisplayName(): string {
+    return this._displayName;
+  }
+
+  /**
+   * 説明を取得
+   */
+  getDescription(): string {
+    return this._description;
+  }
+
+  /**
+   * 画像URLを取得
+   */
+  getImageUrl(): string {
+    return this._imageUrl;
+  }
+
+  /**
+   * 格付けを取得
+   */
+  getRank(): EnemyRank {
+    return this._rank;
+  }
+
+  /**
+   * 撃破時のスコアを取得
+   */
+  getScoreValue(): number {
+    return this._stats.scoreValue;
+  }
+
   /**
    * 基本統計情報を取得
    */
@@ -91,25 +329,93 @@ export class EnemyType {
     return { ...this._stats };
   }
 
+  /**
+   * 射程内のタワーを攻撃できるかどうか
+   */
+  canAttackTowers(): boolean {
+    return this._stats.attackRange > 0;
+  }
+
+  /**
+   * 物理ダメージを軽減する装甲を取得
+   */
+  getArmor(): number {
+    return this._stats.armor;
+  }
+
+  /**
+   * 指定したダメージの種類への耐性を取得（定義されていない種類は0）
+   */
+  getResistance(type: DamageType): number {
+    return this._resistances[type] ?? 0;
+  }
+
+  /**
+   * 定義されている耐性をすべて取得
+   */
+  getResistances(): DamageResistances {
+    return { ...this._resistances };
+  }
+
+  /**
+   * 能力をすべて取得
+   */
+  getAbilities(): EnemyAbility[] {
+    return [...this._abilities];
+  }
+
+  /**
+   * 指定した種類の能力を持っているかどうか
+   */
+  hasAbility(type: EnemyAbilityType): boolean {
+    return this._abilities.some((ability) => ability.type === type);
+  }
+
+  /**
+   * 指定した種類の能力を取得
+   * @returns 能力（持っていない場合はnull）
+   */
+  getAbility<T extends EnemyAbilityType>(type: T): Extract<EnemyAbility, { type: T }> | null {
+    return (
+      (this._abilities.find((ability) => ability.type === type) as
+        | Extract<EnemyAbility, { type: T }>
+        | undefined) ?? null
+    );
+  }
+
+  /**
+   * ボスのフェーズを体力の割合が高い順に取得（フェーズを持たない場合は空）
+   */
+  getBossPhases(): BossPhase[] {
+    return [...this._bossPhases];
+  }
+
+  /**
+   * フェーズを持つボスかどうか
+   */
+  hasBossPhases(): boolean {
+    return this._bossPhases.length > 0;
+  }
+
   /**
    * 通常敵かどうか
    */
   isNormal(): boolean {
-    return this._name === "BASIC";
+    return this._rank === "normal";
   }
 
   /**
    * 強化敵かどうか
    */
   isElite(): boolean {
-    return this._name === "ENHANCED";
+    return this._rank === "elite";
   }
 
   /**
    * ボス敵かどうか
    */
   isBoss(): boolean {
-    return this._name === "BOSS";
+    return this._rank === "boss";
   }
 
   /**
@@ -125,19 +431,4 @@ export class EnemyType {
   toString(): string {
     return this._name;
   }
-
-  /**
-   * すべての敵タイプを取得
-   */
-  static getAllTypes(): EnemyType[] {
-    return [EnemyType.BASIC, EnemyType.FAST, EnemyType.RANGED, EnemyType.ENHANCED, EnemyType.BOSS];
-  }
-
-  /**
-   * 名前から敵タイプを取得
-   */
-  static fromName(name: string): EnemyType | null {
-    const types = EnemyType.getAllTypes();
-    return types.find((type) => type.name === name) || null;
-  }
 }
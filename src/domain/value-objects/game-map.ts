@@ -0,0 +1,115 @@
+import { Lane } from "./lane";
+import { MovementPath } from "./movement-path";
+import { Position } from "./position";
+import type { TileGrid } from "./tile-grid";
+
+/**
+ * ゲームセッションで使用するマップを表現する値オブジェクト
+ * 1本以上のレーンを持ち、波の敵はすべてのレーンから同時に出現する
+ * 地形（タイルグリッド）を持つマップでは、岩・水辺・強化タイルの配置が定義される
+ */
+export class GameMap {
+  private readonly _lanes: Lane[];
+
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    lanes: Lane[],
+    public readonly terrain: TileGrid | null = null
+  ) {
+    if (!id.trim()) {
+      throw new Error("マップIDは空であってはいけません");
+    }
+    if (lanes.length === 0) {
+      throw new Error("マップには1本以上のレーンが必要です");
+    }
+
+    const laneIds = new Set(lanes.map((lane) => lane.id));
+    if (laneIds.size !== lanes.length) {
+      throw new Error("レーンIDが重複しています");
+    }
+
+    this._lanes = [...lanes];
+  }
+
+  /**
+   * 既定のマップ（画面左から右へ進む単一レーン）
+   */
+  static createDefault(): GameMap {
+    return GameMap.fromPath(
+      new MovementPath([
+        new Position(0, 300), // 左端（スタート地点）
+        new Position(200, 300), // 中間点1
+        new Position(400, 200), // 中間点2（少し上に）
+        new Position(600, 300), // 中間点3
+        new Position(800, 300), // 右端（ゴール地点）
+      ])
+    );
+  }
+
+  /**
+   * 1本の移動パスだけを持つマップを作成する
+   */
+  static fromPath(path: MovementPath): GameMap {
+    return new GameMap("default", "標準マップ", [new Lane("main", "メインレーン", path)]);
+  }
+
+  /**
+   * レーン一覧
+   */
+  get lanes(): Lane[] {
+    return [...this._lanes];
+  }
+
+  /**
+   * 主レーン（最初に定義されたレーン）
+   */
+  get primaryLane(): Lane {
+    return this._lanes[0] as Lane;
+  }
+
+  /**
+   * すべてのレーンの移動パス
+   */
+  get paths(): MovementPath[] {
+    return this._lanes.map((lane) => lane.path);
+  }
+
+  /**
+   * 出現比重の合計
+   */
+  get totalSpawnWeight(): number {
+    return this._lanes.reduce((sum, lane) => sum + lane.spawnWeight, 0);
+  }
+
+  /**
+   * IDでレーンを取得する
+   */
+  getLane(laneId: string): Lane | null {
+    return this._lanes.find((lane) => lane.id === laneId) ?? null;
+  }
+
+  /**
+   * 敵の総数を出現比重に応じて各レーンへ割り当てる
+   * 端数は小数部の大きいレーンから順に1体ずつ配分する（同率の場合は定義順）
+   * @param enemyCount 割り当てる敵の総数
+   * @returns レーンID → 割り当て数
+   */
+  distributeSpawns(enemyCount: number): Map<string, number> {
+    const total = this.totalSpawnWeight;
+    const shares = this._lanes.map((lane, index) => {
+      const exact = (enemyCount * lane.spawnWeight) / total;
+      return { lane, index, count: Math.floor(exact), remainder: exact - Math.floor(exact) };
+    });
+
+    let leftover = enemyCount - shares.reduce((sum, share) => sum + share.count, 0);
+    const byRemainder = [...shares].sort((a, b) => b.remainder - a.remainder || a.index - b.index);
+    for (const share of byRemainder) {
+      if (leftover <= 0) break;
+      share.count++;
+      leftover--;
+    }
+
+    return new Map(shares.map((share) => [share.lane.id, share.count]));
+  }
+}
@@ -3,8 +3,20 @@ export { Position } from "./position";
 export { EnemyType } from "./enemy-type";
 export { EnemyStats } from "./enemy-stats";
 export { MovementPath } from "./movement-path";
+export { Lane } from "./lane";
+export { GameMap } from "./game-map";
+export { TileType } from "./tile-type";
+export { TileGrid } from "./tile-grid";
 export { WaveConfiguration } from "./wave-configuration";
+export { StatusEffect, StatusEffectType } from "./status-effect";
+export { TowerUpgradeTree } from "./tower-upgrade-tree";
+export { TargetingStrategy } from "./targeting-strategy";
+export { ProjectileType } from "./projectile-type";
+export { TowerBuff } from "./tower-buff";
+export { EnemyAbilityType, type EnemyAbility } from "./enemy-ability";
+export { BossPhase, BossActionType, type BossAction } from "./boss-phase";
 
 // Card Strategy Management Value Objects (existing)
 export { SpecialAbility } from "./special-ability";
 export { TowerType } from "./tower-type";
+export { CardRarity } from "./card-rarity";
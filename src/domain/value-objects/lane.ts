@@ -0,0 +1,28 @@
+import type { MovementPath } from "./movement-path";
+
+/**
+ * マップ上の1本の進軍レーンを表現する値オブジェクト
+ * 出現比重が大きいレーンほど、波の敵が多く割り当てられる
+ */
+export class Lane {
+  constructor(
+    public readonly id: string,
+    public readonly name: string,
+    public readonly path: MovementPath,
+    public readonly spawnWeight = 1
+  ) {
+    if (!id.trim()) {
+      throw new Error("レーンIDは空であってはいけません");
+    }
+    if (!Number.isFinite(spawnWeight) || spawnWeight <= 0) {
+      throw new Error("出現比重は正の値である必要があります");
+    }
+  }
+
+  /**
+   * 等価性の判定
+   */
+  equals(other: Lane): boolean {
+    return this.id === other.id;
+  }
+}
@@ -120,4 +120,39 @@ export class MovementPath {
     }
     return distance / this.totalLength;
   }
+
+  /**
+   * 指定位置から経路（中心線）までの最短距離を計算する
+   * @param position 対象位置
+   * @returns すべての区間のうち最も近い区間までの距離
+   */
+  distanceToPoint(position: Position): number {
+    let minDistance = Number.POSITIVE_INFINITY;
+    for (let i = 1; i < this.pathPoints.length; i++) {
+      const start = this.pathPoints[i - 1] as Position;
+      const end = this.pathPoints[i] as Position;
+      const distance = this.distanceToSegment(position, start, end);
+      minDistance = Math.min(minDistance, distance);
+    }
+    return minDistance;
+  }
+
+  /**
+   * 点から線分までの距離を計算する
+   */
+  private distanceToSegment(point: Position, start: Position, end: Position): number {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const lengthSquared = dx * dx + dy * dy;
+    if (lengthSquared === 0) {
+      return point.distanceTo(start);
+    }
+
+    // 線分上の最近点の位置（0〜1にクランプ）
+    const t = Math.max(
+      0,
+      Math.min(1, ((point.x - start.x) * dx + (point.y - start.y) * dy) / lengthSquared)
+    );
+    return point.distanceTo(start.interpolate(end, t));
+  }
 }
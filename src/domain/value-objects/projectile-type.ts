@@ -0,0 +1,59 @@
+import type { TowerType } from "./tower-type";
+
+/**
+ * 弾の種類
+ */
+export type ProjectileType = "HOMING" | "BALLISTIC" | "BEAM";
+
+/**
+ * 弾の種類を表す列挙型
+ * HOMING: 目標を追尾する矢・魔法弾
+ * BALLISTIC: 発射時の目標地点へ弧を描いて飛び、着弾地点で範囲ダメージを与える砲弾
+ * BEAM: 発射と同時に命中する雷撃
+ */
+export const ProjectileType = {
+  HOMING: "HOMING" as ProjectileType,
+  BALLISTIC: "BALLISTIC" as ProjectileType,
+  BEAM: "BEAM" as ProjectileType,
+
+  /**
+   * すべての弾の種類を取得
+   */
+  getAllTypes(): ProjectileType[] {
+    return [ProjectileType.HOMING, ProjectileType.BALLISTIC, ProjectileType.BEAM];
+  },
+
+  /**
+   * 有効な弾の種類かどうか判定
+   */
+  isValid(value: string): value is ProjectileType {
+    return ProjectileType.getAllTypes().includes(value as ProjectileType);
+  },
+
+  /**
+   * タワータイプが発射する弾の種類を取得
+   */
+  forTowerType(towerType: TowerType): ProjectileType {
+    switch (towerType) {
+      case "CANNON":
+        return ProjectileType.BALLISTIC;
+      case "LIGHTNING":
+        return ProjectileType.BEAM;
+      default:
+        return ProjectileType.HOMING;
+    }
+  },
+
+  /**
+   * 弾速を取得（ピクセル/秒、BEAMは即着弾のため0）
+   */
+  getSpeed(type: ProjectileType): number {
+    const speeds: Record<ProjectileType, number> = {
+      HOMING: 400,
+      BALLISTIC: 220,
+      BEAM: 0,
+    };
+
+    return speeds[type];
+  },
+} as const;
@@ -0,0 +1,257 @@
+import { TargetingStrategy } from "./targeting-strategy";
+
+/**
+ * リプレイに記録するプレイヤー操作
+ * 操作の種類名は対応するUIイベント（UIEventBus）の種類名に合わせる
+ */
+export type ReplayCommand =
+  | { type: "card-selected"; cardId: string }
+  | { type: "card-played"; cardId: string; x: number; y: number }
+  | { type: "card-drawn" }
+  | { type: "tower-upgraded"; towerId: string }
+  | { type: "tower-repaired"; towerId: string }
+  | { type: "tower-sold"; towerId: string; refundRatio: number; returnCardToDiscard: boolean }
+  | { type: "targeting-changed"; towerId: string; strategy: TargetingStrategy }
+  | { type: "game-pause" };
+
+/**
+ * 記録された操作（操作を行った時点までに進んだシミュレーションのステップ数付き）
+ */
+export type RecordedCommand = ReplayCommand & { tick: number };
+
+/**
+ * リプレイファイルの操作1件（[ステップ数, 操作の種類, ...引数] の配列）
+ */
+export type ReplayCommandData = [number, string, ...(string | number | boolean)[]];
+
+/**
+ * リプレイファイルの形式
+ */
+export interface ReplayFileData {
+  version: number;
+  seed: number; // 乱数シード
+  map: string; // マップID
+  start: number; // ゲーム内時計の開始時刻（ミリ秒）
+  step: number; // 1ステップの時間（ミリ秒）
+  end: number; // 記録を終えた時点のステップ数
+  commands: ReplayCommandData[];
+}
+
+/**
+ * 1試合分のリプレイを表現する値オブジェクト
+ * 乱数シード・マップ・時計の設定とプレイヤー操作の列を持ち、同じ条件で再シミュレーションすれば同じ試合を再現できる
+ */
+export class Replay {
+  static readonly VERSION = 1;
+
+  private readonly _commands: RecordedCommand[];
+
+  constructor(
+    public readonly seed: number,
+    public readonly mapId: string,
+    public readonly startTime: number,
+    public readonly step: number,
+    public readonly endTick: number,
+    commands: RecordedCommand[]
+  ) {
+    if (!Number.isInteger(seed) || seed < 0 || seed > 0xffffffff) {
+      throw new Error("乱数シードは0以上2^32未満の整数である必要があります");
+    }
+    if (!mapId.trim()) {
+      throw new Error("マップIDは空であってはいけません");
+    }
+    if (!(step > 0)) {
+      throw new Error("ステップ時間は正の値である必要があります");
+    }
+    if (!Number.isInteger(endTick) || endTick < 0) {
+      throw new Error("終了ステップ数は0以上の整数である必要があります");
+    }
+
+    let previousTick = 0;
+    for (const command of commands) {
+      if (
+        !Number.isInteger(command.tick) ||
+        command.tick < previousTick ||
+        command.tick > endTick
+      ) {
+        throw new Error("操作のステップ数は記録順に0以上終了ステップ数以下である必要があります");
+      }
+      previousTick = command.tick;
+    }
+
+    this._commands = commands.map((command) => ({ ...command }));
+  }
+
+  /**
+   * 記録された操作一覧（記録順）
+   */
+  get commands(): RecordedCommand[] {
+    return this._commands.map((command) => ({ ...command }));
+  }
+
+  /**
+   * 記録されたゲーム内時間（ミリ秒）
+   */
+  get duration(): number {
+    return this.endTick * this.step;
+  }
+
+  /**
+   * リプレイファイルの形式に変換する
+   */
+  toData(): ReplayFileData {
+    return {
+      version: Replay.VERSION,
+      seed: this.seed,
+      map: this.mapId,
+      start: this.startTime,
+      step: this.step,
+      end: this.endTick,
+      commands: this._commands.map((command) => Replay.encodeCommand(command)),
+    };
+  }
+
+  /**
+   * リプレイファイルの文字列に変換する
+   */
+  serialize(): string {
+    return JSON.stringify(this.toData());
+  }
+
+  /**
+   * リプレイファイルの文字列から作成する
+   */
+  static parse(text: string): Replay {
+    let data: ReplayFileData;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error("リプレイファイルの読み込みに失敗しました:\nJSONとして解析できません");
+    }
+    return Replay.fromData(data);
+  }
+
+  /**
+   * リプレイファイルの形式から作成する
+   * 不正な操作はまとめて報告する
+   */
+  static fromData(data: ReplayFileData): Replay {
+    if (!data || typeof data !== "object") {
+      throw new Error("リプレイファイルの読み込みに失敗しました:\nリプレイが定義されていません");
+    }
+
+    const errors: string[] = [];
+    if (data.version !== Replay.VERSION) {
+      errors.push(`未対応のリプレイ形式のバージョンです: ${data.version}`);
+    }
+    if (!Array.isArray(data.commands)) {
+      errors.push("操作が定義されていません");
+    }
+
+    const commands: RecordedCommand[] = [];
+    (Array.isArray(data.commands) ? data.commands : []).forEach((entry, index) => {
+      const result = Replay.decodeCommand(entry);
+      if (typeof result === "string") {
+        errors.push(`操作${index + 1}: ${result}`);
+      } else {
+        commands.push(result);
+      }
+    });
+
+    if (errors.length > 0) {
+      throw new Error(`リプレイファイルの読み込みに失敗しました:\n${errors.join("\n")}`);
+    }
+
+    try {
+      return new Replay(
+        data.seed,
+        String(data.map ?? ""),
+        data.start,
+        data.step,
+        data.end,
+        commands
+      );
+    } catch (error) {
+      throw new Error(
+        `リプレイファイルの読み込みに失敗しました:\n${error instanceof Error ? error.message : error}`
+      );
+    }
+  }
+
+  /**
+   * 操作をリプレイファイルの形式に変換する
+   */
+  private static encodeCommand(command: RecordedCommand): ReplayCommandData {
+    switch (command.type) {
+      case "card-selected":
+        return [command.tick, command.type, command.cardId];
+      case "card-played":
+        return [command.tick, command.type, command.cardId, command.x, command.y];
+      case "tower-upgraded":
+      case "tower-repaired":
+        return [command.tick, command.type, command.towerId];
+      case "tower-sold":
+        return [
+          command.tick,
+          command.type,
+          command.towerId,
+          command.refundRatio,
+          command.returnCardToDiscard,
+        ];
+      case "targeting-changed":
+        return [command.tick, command.type, command.towerId, command.strategy];
+      case "card-drawn":
+      case "game-pause":
+        return [command.tick, command.type];
+    }
+  }
+
+  /**
+   * リプレイファイルの形式から操作に変換する
+   * @returns 変換した操作（不正な場合はエラーメッセージ）
+   */
+  private static decodeCommand(entry: ReplayCommandData): RecordedCommand | string {
+    if (!Array.isArray(entry) || !Number.isInteger(entry[0])) {
+      return "ステップ数と操作の種類の配列である必要があります";
+    }
+
+    const [tick, type, ...args] = entry;
+    const [first, second, third] = args;
+    switch (type) {
+      case "card-selected":
+        return typeof first === "string" ? { tick, type, cardId: first } : "カードIDが不正です";
+      case "card-played":
+        if (typeof first !== "string") {
+          return "カードIDが不正です";
+        }
+        if (typeof second !== "number" || typeof third !== "number") {
+          return "配置位置が不正です";
+        }
+        return { tick, type, cardId: first, x: second, y: third };
+      case "tower-upgraded":
+      case "tower-repaired":
+        return typeof first === "string" ? { tick, type, towerId: first } : "タワーIDが不正です";
+      case "tower-sold":
+        if (typeof first !== "string") {
+          return "タワーIDが不正です";
+        }
+        if (typeof second !== "number" || typeof third !== "boolean") {
+          return "売却の設定が不正です";
+        }
+        return { tick, type, towerId: first, refundRatio: second, returnCardToDiscard: third };
+      case "targeting-changed":
+        if (typeof first !== "string") {
+          return "タワーIDが不正です";
+        }
+        if (typeof second !== "string" || !TargetingStrategy.isValid(second)) {
+          return `未定義の攻撃対象選択方針です: ${second}`;
+        }
+        return { tick, type, towerId: first, strategy: second };
+      case "card-drawn":
+      case "game-pause":
+        return { tick, type };
+      default:
+        return `未定義の操作です: ${type}`;
+    }
+  }
+}
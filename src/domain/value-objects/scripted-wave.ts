@@ -0,0 +1,177 @@
+import type { EnemyType } from "./enemy-type";
+import type { EnemyTypeRegistry } from "./enemy-type-registry";
+
+/**
+ * 敵グループ定義（config/waves.json の scriptedWaves[].groups の1エントリ）
+ */
+export interface WaveGroupDefinition {
+  enemyType: string;
+  count: number;
+  spawnInterval?: number; // 省略時は波設定の生成間隔
+  lane?: string; // 省略時はマップのレーンに出現比重で振り分ける
+  delay?: number; // 波の開始から最初の敵が出現するまでの時間（ミリ秒）
+}
+
+/**
+ * スクリプト波定義（config/waves.json の scriptedWaves の1エントリ）
+ */
+export interface ScriptedWaveDefinition {
+  waveNumber: number;
+  name?: string;
+  groups: WaveGroupDefinition[];
+}
+
+/**
+ * 波の中で同じ種類の敵を一定間隔で出現させる敵グループ
+ */
+export interface WaveGroup {
+  enemyType: EnemyType;
+  count: number;
+  spawnInterval: number;
+  laneId: string | null;
+  delay: number;
+}
+
+/**
+ * 出現予定の敵
+ */
+export interface ScheduledSpawn {
+  offset: number; // 波の開始からの経過時間（ミリ秒）
+  enemyType: EnemyType;
+  laneId: string | null;
+}
+
+/**
+ * 手作業で構成された波（スクリプト波）を表現する値オブジェクト
+ * 敵グループごとに敵タイプ・数・生成間隔・出現レーン・開始までの遅延を指定する
+ */
+export class ScriptedWave {
+  private readonly _groups: WaveGroup[];
+
+  constructor(
+    public readonly waveNumber: number,
+    public readonly name: string,
+    groups: WaveGroup[]
+  ) {
+    if (!Number.isInteger(waveNumber) || waveNumber < 1) {
+      throw new Error("波番号は1以上の整数である必要があります");
+    }
+    if (groups.length === 0) {
+      throw new Error("スクリプト波には1つ以上の敵グループが必要です");
+    }
+    for (const group of groups) {
+      if (!Number.isInteger(group.count) || group.count < 1) {
+        throw new Error("敵グループの数は1以上の整数である必要があります");
+      }
+      if (!(group.spawnInterval > 0)) {
+        throw new Error("敵グループの生成間隔は正の値である必要があります");
+      }
+      if (!(group.delay >= 0)) {
+        throw new Error("敵グループの遅延は0以上である必要があります");
+      }
+    }
+
+    this._groups = groups.map((group) => ({ ...group }));
+  }
+
+  /**
+   * スクリプト波定義を検証する
+   * @param definition スクリプト波定義
+   * @param enemyTypes 敵グループの敵タイプを引くレジストリ
+   * @returns エラーメッセージの配列（問題がなければ空）
+   */
+  static validateDefinition(
+    definition: ScriptedWaveDefinition,
+    enemyTypes: EnemyTypeRegistry
+  ): string[] {
+    const errors: string[] = [];
+
+    if (!Number.isInteger(definition.waveNumber) || definition.waveNumber < 1) {
+      errors.push(`波番号は1以上の整数である必要があります: ${definition.waveNumber}`);
+    }
+    if (!Array.isArray(definition.groups) || definition.groups.length === 0) {
+      errors.push("敵グループが定義されていません");
+      return errors;
+    }
+
+    definition.groups.forEach((group, index) => {
+      const label = `グループ${index + 1}`;
+      if (!enemyTypes.find(group.enemyType)) {
+        errors.push(`${label}: 未定義の敵タイプです: ${group.enemyType}`);
+      }
+      if (!Number.isInteger(group.count) || group.count < 1) {
+        errors.push(`${label}: 数は1以上の整数である必要があります`);
+      }
+      if (group.spawnInterval !== undefined && !(group.spawnInterval > 0)) {
+        errors.push(`${label}: 生成間隔は正の値である必要があります`);
+      }
+      if (group.delay !== undefined && !(group.delay >= 0)) {
+        errors.push(`${label}: 遅延は0以上である必要があります`);
+      }
+      if (group.lane !== undefined && !group.lane.trim()) {
+        errors.push(`${label}: レーンIDは空であってはいけません`);
+      }
+    });
+
+    return errors;
+  }
+
+  /**
+   * スクリプト波定義から作成する
+   * @param definition スクリプト波定義
+   * @param defaultSpawnInterval 生成間隔が省略された敵グループに使う生成間隔（ミリ秒）
+   * @param enemyTypes 敵グループの敵タイプを引くレジストリ
+   */
+  static fromDefinition(
+    definition: ScriptedWaveDefinition,
+    defaultSpawnInterval: number,
+    enemyTypes: EnemyTypeRegistry
+  ): ScriptedWave {
+    const errors = ScriptedWave.validateDefinition(definition, enemyTypes);
+    if (errors.length > 0) {
+      throw new Error(`波${definition.waveNumber} の定義が不正です: ${errors.join(", ")}`);
+    }
+
+    return new ScriptedWave(
+      definition.waveNumber,
+      definition.name ?? `波${definition.waveNumber}`,
+      definition.groups.map((group) => ({
+        enemyType: enemyTypes.get(group.enemyType),
+        count: group.count,
+        spawnInterval: group.spawnInterval ?? defaultSpawnInterval,
+        laneId: group.lane ?? null,
+        delay: group.delay ?? 0,
+      }))
+    );
+  }
+
+  /**
+   * 敵グループ一覧
+   */
+  get groups(): WaveGroup[] {
+    return this._groups.map((group) => ({ ...group }));
+  }
+
+  /**
+   * 波全体の敵数
+   */
+  get totalEnemyCount(): number {
+    return this._groups.reduce((sum, group) => sum + group.count, 0);
+  }
+
+  /**
+   * 出現予定の敵を出現順に取得する（同時刻の場合は定義順）
+   */
+  getSpawnSchedule(): ScheduledSpawn[] {
+    const schedule = this._groups.flatMap((group) =>
+      Array.from({ length: group.count }, (_, index) => ({
+        offset: group.delay + group.spawnInterval * index,
+        enemyType: group.enemyType,
+        laneId: group.laneId,
+      }))
+    );
+
+    // Array.prototype.sort は安定ソートのため、同時刻の敵は定義順のまま
+    return schedule.sort((a, b) => a.offset - b.offset);
+  }
+}
@@ -78,7 +78,7 @@ export const SpecialAbility = {
       [SpecialAbility.SLOW_EFFECT]: "攻撃した敵の移動速度を一定時間減少させる",
       [SpecialAbility.POISON_EFFECT]: "攻撃した敵に継続ダメージを与える",
       [SpecialAbility.CHAIN_LIGHTNING]: "攻撃が近くの敵に連鎖する",
-      [SpecialAbility.ARMOR_PIERCE]: "敵の防御力を無視してダメージを与える",
+      [SpecialAbility.ARMOR_PIERCE]: "敵の装甲と耐性を無視してダメージを与え、被ダメージを増やす",
       [SpecialAbility.RANGE_BOOST]: "周囲のタワーの射程を増加させる",
       [SpecialAbility.DAMAGE_BOOST]: "周囲のタワーの攻撃力を増加させる",
       [SpecialAbility.FREEZE]: "攻撃した敵を一定時間凍結させる",
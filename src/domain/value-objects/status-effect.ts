@@ -0,0 +1,173 @@
+import { DamageType } from "./damage-type";
+
+/**
+ * 状態異常の種類
+ */
+export type StatusEffectType = "SLOW" | "POISON" | "FREEZE" | "BURN" | "STUN" | "ARMOR_BREAK";
+
+/**
+ * 状態異常の種類を表す列挙型
+ */
+export const StatusEffectType = {
+  SLOW: "SLOW" as StatusEffectType,
+  POISON: "POISON" as StatusEffectType,
+  FREEZE: "FREEZE" as StatusEffectType,
+  BURN: "BURN" as StatusEffectType,
+  STUN: "STUN" as StatusEffectType,
+  ARMOR_BREAK: "ARMOR_BREAK" as StatusEffectType,
+
+  /**
+   * すべての状態異常を取得
+   */
+  getAllTypes(): StatusEffectType[] {
+    return [
+      StatusEffectType.SLOW,
+      StatusEffectType.POISON,
+      StatusEffectType.FREEZE,
+      StatusEffectType.BURN,
+      StatusEffectType.STUN,
+      StatusEffectType.ARMOR_BREAK,
+    ];
+  },
+
+  /**
+   * 行動不能系の状態異常かどうか判定
+   */
+  isCrowdControl(type: StatusEffectType): boolean {
+    return type === StatusEffectType.FREEZE || type === StatusEffectType.STUN;
+  },
+
+  /**
+   * 継続ダメージのダメージの種類を取得（継続ダメージを持たない状態異常はnull）
+   */
+  getDamageType(type: StatusEffectType): DamageType | null {
+    switch (type) {
+      case StatusEffectType.POISON:
+        return DamageType.POISON;
+      case StatusEffectType.BURN:
+        return DamageType.FIRE;
+      default:
+        return null;
+    }
+  },
+} as const;
+
+/**
+ * 状態異常を表す値オブジェクト
+ * 持続時間・継続ダメージ・移動速度倍率・被ダメージ倍率・最大スタック数を持つ
+ */
+export class StatusEffect {
+  /**
+   * 継続ダメージの発生間隔（ミリ秒）
+   */
+  static readonly TICK_INTERVAL = 500;
+
+  constructor(
+    public readonly type: StatusEffectType,
+    public readonly duration: number,
+    public readonly tickDamage = 0,
+    public readonly speedMultiplier = 1,
+    public readonly damageTakenMultiplier = 1,
+    public readonly maxStacks = 1
+  ) {
+    if (duration <= 0) {
+      throw new Error("状態異常の持続時間は正の値である必要があります");
+    }
+    if (tickDamage < 0) {
+      throw new Error("継続ダメージは0以上である必要があります");
+    }
+    if (speedMultiplier < 0 || speedMultiplier > 1) {
+      throw new Error("移動速度倍率は0以上1以下である必要があります");
+    }
+    if (damageTakenMultiplier < 1) {
+      throw new Error("被ダメージ倍率は1以上である必要があります");
+    }
+    if (!Number.isInteger(maxStacks) || maxStacks < 1) {
+      throw new Error("最大スタック数は1以上の整数である必要があります");
+    }
+  }
+
+  /**
+   * 減速（重ねがけで効果が強まる）
+   */
+  static slow(duration = 2000, speedMultiplier = 0.6): StatusEffect {
+    return new StatusEffect(StatusEffectType.SLOW, duration, 0, speedMultiplier, 1, 3);
+  }
+
+  /**
+   * 毒（スタックごとに継続ダメージが加算される）
+   */
+  static poison(duration = 4000, tickDamage = 4): StatusEffect {
+    return new StatusEffect(StatusEffectType.POISON, duration, tickDamage, 1, 1, 5);
+  }
+
+  /**
+   * 燃焼（毒より短く強い継続ダメージ）
+   */
+  static burn(duration = 2500, tickDamage = 8): StatusEffect {
+    return new StatusEffect(StatusEffectType.BURN, duration, tickDamage, 1, 1, 3);
+  }
+
+  /**
+   * 凍結（移動停止、解除まで被ダメージ増加）
+   */
+  static freeze(duration = 1500): StatusEffect {
+    return new StatusEffect(StatusEffectType.FREEZE, duration, 0, 0, 1.2, 1);
+  }
+
+  /**
+   * スタン（短時間の移動停止）
+   */
+  static stun(duration = 800): StatusEffect {
+    return new StatusEffect(StatusEffectType.STUN, duration, 0, 0, 1, 1);
+  }
+
+  /**
+   * 防御破壊（スタックごとに被ダメージ増加）
+   */
+  static armorBreak(duration = 3000, damageTakenMultiplier = 1.1): StatusEffect {
+    return new StatusEffect(StatusEffectType.ARMOR_BREAK, duration, 0, 1, damageTakenMultiplier, 3);
+  }
+
+  /**
+   * 行動不能系の状態異常かどうか
+   */
+  isCrowdControl(): boolean {
+    return StatusEffectType.isCrowdControl(this.type);
+  }
+
+  /**
+   * 継続ダメージを持つかどうか
+   */
+  isDamageOverTime(): boolean {
+    return this.tickDamage > 0;
+  }
+
+  /**
+   * 継続ダメージを変更した状態異常を生成する
+   */
+  withTickDamage(tickDamage: number): StatusEffect {
+    return new StatusEffect(
+      this.type,
+      this.duration,
+      tickDamage,
+      this.speedMultiplier,
+      this.damageTakenMultiplier,
+      this.maxStacks
+    );
+  }
+
+  /**
+   * 等価性の判定
+   */
+  equals(other: StatusEffect): boolean {
+    return (
+      this.type === other.type &&
+      this.duration === other.duration &&
+      this.tickDamage === other.tickDamage &&
+      this.speedMultiplier === other.speedMultiplier &&
+      this.damageTakenMultiplier === other.damageTakenMultiplier &&
+      this.maxStacks === other.maxStacks
+    );
+  }
+}
@@ -0,0 +1,96 @@
+import type { TowerType } from "./tower-type";
+
+/**
+ * タワーの攻撃対象選択方針
+ */
+export type TargetingStrategy =
+  | "FIRST"
+  | "LAST"
+  | "STRONGEST"
+  | "WEAKEST"
+  | "CLOSEST"
+  | "FASTEST"
+  | "BOSS_PRIORITY";
+
+/**
+ * タワーの攻撃対象選択方針を表す列挙型
+ */
+export const TargetingStrategy = {
+  FIRST: "FIRST" as TargetingStrategy,
+  LAST: "LAST" as TargetingStrategy,
+  STRONGEST: "STRONGEST" as TargetingStrategy,
+  WEAKEST: "WEAKEST" as TargetingStrategy,
+  CLOSEST: "CLOSEST" as TargetingStrategy,
+  FASTEST: "FASTEST" as TargetingStrategy,
+  BOSS_PRIORITY: "BOSS_PRIORITY" as TargetingStrategy,
+
+  /**
+   * すべての選択方針を取得
+   */
+  getAllStrategies(): TargetingStrategy[] {
+    return [
+      TargetingStrategy.FIRST,
+      TargetingStrategy.LAST,
+      TargetingStrategy.STRONGEST,
+      TargetingStrategy.WEAKEST,
+      TargetingStrategy.CLOSEST,
+      TargetingStrategy.FASTEST,
+      TargetingStrategy.BOSS_PRIORITY,
+    ];
+  },
+
+  /**
+   * 有効な選択方針かどうか判定
+   */
+  isValid(value: string): value is TargetingStrategy {
+    return TargetingStrategy.getAllStrategies().includes(value as TargetingStrategy);
+  },
+
+  /**
+   * 選択方針の表示名を取得
+   */
+  getDisplayName(strategy: TargetingStrategy): string {
+    const displayNames: Record<TargetingStrategy, string> = {
+      FIRST: "先頭",
+      LAST: "最後尾",
+      STRONGEST: "最大体力",
+      WEAKEST: "最小体力",
+      CLOSEST: "最寄り",
+      FASTEST: "最速",
+      BOSS_PRIORITY: "ボス優先",
+    };
+
+    if (!TargetingStrategy.isValid(strategy)) {
+      throw new Error(`無効な攻撃対象選択方針です: ${strategy}`);
+    }
+
+    return displayNames[strategy];
+  },
+
+  /**
+   * 次の選択方針を取得（一覧の末尾の次は先頭に戻る）
+   */
+  getNext(strategy: TargetingStrategy): TargetingStrategy {
+    const strategies = TargetingStrategy.getAllStrategies();
+    const index = strategies.indexOf(strategy);
+    return strategies[(index + 1) % strategies.length] as TargetingStrategy;
+  },
+
+  /**
+   * タワータイプごとのデフォルトの選択方針を取得
+   */
+  getDefaultForTowerType(type: TowerType): TargetingStrategy {
+    const defaults: Record<TowerType, TargetingStrategy> = {
+      ARCHER: TargetingStrategy.FIRST,
+      CANNON: TargetingStrategy.FIRST,
+      MAGIC: TargetingStrategy.STRONGEST,
+      ICE: TargetingStrategy.FASTEST, // 足の速い敵を減速させる
+      FIRE: TargetingStrategy.CLOSEST,
+      LIGHTNING: TargetingStrategy.BOSS_PRIORITY,
+      POISON: TargetingStrategy.STRONGEST, // 継続ダメージは体力の多い敵に有効
+      SUPPORT: TargetingStrategy.FIRST,
+    };
+
+    return defaults[type] ?? TargetingStrategy.FIRST;
+  },
+} as const;
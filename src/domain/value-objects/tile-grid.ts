@@ -0,0 +1,202 @@
+import type { MovementPath } from "./movement-path";
+import { Position } from "./position";
+import { Rectangle } from "./rectangle";
+import { TileType } from "./tile-type";
+
+/**
+ * タイルの位置（列・行）
+ */
+export interface TileCell {
+  column: number;
+  row: number;
+}
+
+/**
+ * タイルグリッドの定義データ（JSON形式）
+ * rows の各文字がタイル1枚を表す（"." 地面, "#" 経路, "R" 岩, "W" 水辺, "*" 強化タイル）
+ */
+export interface TileGridData {
+  tileSize: number;
+  origin: { x: number; y: number };
+  rows: string[];
+}
+
+/**
+ * 戦場をタイルに分割したグリッドを表現する値オブジェクト
+ * タワーはタイルの中心に配置され、1タイルに1基まで設置できる
+ */
+export class TileGrid {
+  public readonly columns: number;
+  public readonly rows: number;
+  private readonly _tiles: TileType[][];
+
+  constructor(
+    public readonly origin: Position,
+    public readonly tileSize: number,
+    tiles: TileType[][]
+  ) {
+    if (!(tileSize > 0)) {
+      throw new Error("タイルサイズは正の値である必要があります");
+    }
+    if (tiles.length === 0 || (tiles[0]?.length ?? 0) === 0) {
+      throw new Error("タイルグリッドは1枚以上のタイルが必要です");
+    }
+    if (tiles.some((row) => row.length !== tiles[0]?.length)) {
+      throw new Error("タイルグリッドの各行の長さが揃っていません");
+    }
+
+    this._tiles = tiles.map((row) => [...row]);
+    this.rows = tiles.length;
+    this.columns = tiles[0]?.length ?? 0;
+  }
+
+  /**
+   * 範囲を同じ種類のタイルで敷き詰めたグリッドを作成する（端数の余白にはタイルを置かない）
+   */
+  static filled(
+    bounds: Rectangle,
+    tileSize: number,
+    type: TileType = TileType.BUILDABLE
+  ): TileGrid {
+    const columns = Math.floor(bounds.width / tileSize);
+    const rows = Math.floor(bounds.height / tileSize);
+    const tiles = Array.from({ length: rows }, () => Array<TileType>(columns).fill(type));
+
+    return new TileGrid(new Position(bounds.x, bounds.y), tileSize, tiles);
+  }
+
+  /**
+   * 定義データからグリッドを作成する
+   */
+  static parse(data: TileGridData): TileGrid {
+    const tiles = data.rows.map((line, row) =>
+      [...line].map((symbol, column) => {
+        const type = TileType.fromSymbol(symbol);
+        if (!type) {
+          throw new Error(`不明なタイル記号です: ${symbol}（${row + 1}行 ${column + 1}列）`);
+        }
+        return type;
+      })
+    );
+
+    return new TileGrid(new Position(data.origin.x, data.origin.y), data.tileSize, tiles);
+  }
+
+  /**
+   * グリッド全体の範囲
+   */
+  get bounds(): Rectangle {
+    return new Rectangle(
+      this.origin.x,
+      this.origin.y,
+      this.columns * this.tileSize,
+      this.rows * this.tileSize
+    );
+  }
+
+  /**
+   * タイルの種類を取得
+   * @returns グリッド外の場合はnull
+   */
+  getTile(cell: TileCell): TileType | null {
+    return this._tiles[cell.row]?.[cell.column] ?? null;
+  }
+
+  /**
+   * 座標を含むタイルの位置を取得
+   * @returns グリッド外の場合はnull
+   */
+  cellAt(position: Position): TileCell | null {
+    const column = Math.floor((position.x - this.origin.x) / this.tileSize);
+    const row = Math.floor((position.y - this.origin.y) / this.tileSize);
+    if (column < 0 || column >= this.columns || row < 0 || row >= this.rows) {
+      return null;
+    }
+
+    return { column, row };
+  }
+
+  /**
+   * 座標にあるタイルの種類を取得
+   * @returns グリッド外の場合はnull
+   */
+  getTileAt(position: Position): TileType | null {
+    const cell = this.cellAt(position);
+    return cell ? this.getTile(cell) : null;
+  }
+
+  /**
+   * タイルの中心座標を取得
+   */
+  getCellCenter(cell: TileCell): Position {
+    return new Position(
+      this.origin.x + (cell.column + 0.5) * this.tileSize,
+      this.origin.y + (cell.row + 0.5) * this.tileSize
+    );
+  }
+
+  /**
+   * 座標をタイルの中心に吸着させる
+   * @returns グリッド外の場合はnull
+   */
+  snapToGrid(position: Position): Position | null {
+    const cell = this.cellAt(position);
+    return cell ? this.getCellCenter(cell) : null;
+  }
+
+  /**
+   * 2つの座標が同じタイル上にあるかどうか
+   */
+  isSameCell(a: Position, b: Position): boolean {
+    const cellA = this.cellAt(a);
+    const cellB = this.cellAt(b);
+    return (
+      cellA !== null && cellB !== null && cellA.column === cellB.column && cellA.row === cellB.row
+    );
+  }
+
+  /**
+   * 指定した種類のタイルの位置をすべて取得（行優先順）
+   * @param types 種類（省略時はすべてのタイル）
+   */
+  getCells(...types: TileType[]): TileCell[] {
+    const cells: TileCell[] = [];
+    this._tiles.forEach((tiles, row) => {
+      tiles.forEach((type, column) => {
+        if (types.length === 0 || types.includes(type)) {
+          cells.push({ column, row });
+        }
+      });
+    });
+    return cells;
+  }
+
+  /**
+   * 移動経路が通るタイルを経路タイルにしたグリッドを作成する
+   * 中心が経路から clearance 未満のタイルは、障害物や強化タイルであっても経路として扱う
+   * @param paths 移動経路
+   * @param clearance 経路の中心線からの距離
+   */
+  withPaths(paths: MovementPath[], clearance: number): TileGrid {
+    const tiles = this._tiles.map((row, rowIndex) =>
+      row.map((type, column) => {
+        const center = this.getCellCenter({ column, row: rowIndex });
+        const isOnPath = paths.some((path) => path.distanceToPoint(center) < clearance);
+        return isOnPath ? TileType.PATH : type;
+      })
+    );
+
+    return new TileGrid(this.origin, this.tileSize, tiles);
+  }
+
+  /**
+   * 定義データ形式に変換する
+   */
+  toData(): TileGridData {
+    return {
+      tileSize: this.tileSize,
+      origin: { x: this.origin.x, y: this.origin.y },
+      rows: this._tiles.map((row) => row.map((type) => TileType.getSymbol(type)).join("")),
+    };
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * マップのタイルの種類
+ */
+export type TileType = "PATH" | "BUILDABLE" | "ROCK" | "WATER" | "BONUS";
+
+/**
+ * マップのタイルの種類を表す列挙型
+ * PATH: 敵の移動経路（配置不可）
+ * BUILDABLE: タワーを配置できる地面
+ * ROCK / WATER: 岩や水辺などの障害物（配置不可、装飾として描画）
+ * BONUS: 配置したタワーが強化される特殊タイル
+ */
+export const TileType = {
+  PATH: "PATH" as TileType,
+  BUILDABLE: "BUILDABLE" as TileType,
+  ROCK: "ROCK" as TileType,
+  WATER: "WATER" as TileType,
+  BONUS: "BONUS" as TileType,
+
+  /**
+   * すべてのタイルの種類を取得
+   */
+  getAllTypes(): TileType[] {
+    return [TileType.PATH, TileType.BUILDABLE, TileType.ROCK, TileType.WATER, TileType.BONUS];
+  },
+
+  /**
+   * 有効なタイルの種類かどうか判定
+   */
+  isValid(value: string): value is TileType {
+    return TileType.getAllTypes().includes(value as TileType);
+  },
+
+  /**
+   * 表示名を取得
+   */
+  getDisplayName(type: TileType): string {
+    const names: Record<TileType, string> = {
+      PATH: "経路",
+      BUILDABLE: "地面",
+      ROCK: "岩",
+      WATER: "水辺",
+      BONUS: "強化タイル",
+    };
+
+    return names[type];
+  },
+
+  /**
+   * タワーを配置できるタイルかどうか
+   */
+  isBuildable(type: TileType): boolean {
+    return type === TileType.BUILDABLE || type === TileType.BONUS;
+  },
+
+  /**
+   * 障害物のタイルかどうか
+   */
+  isObstacle(type: TileType): boolean {
+    return type === TileType.ROCK || type === TileType.WATER;
+  },
+
+  /**
+   * マップ定義の記号を取得
+   */
+  getSymbol(type: TileType): string {
+    const symbols: Record<TileType, string> = {
+      PATH: "#",
+      BUILDABLE: ".",
+      ROCK: "R",
+      WATER: "W",
+      BONUS: "*",
+    };
+
+    return symbols[type];
+  },
+
+  /**
+   * マップ定義の記号からタイルの種類を取得
+   * @returns 不明な記号の場合はnull
+   */
+  fromSymbol(symbol: string): TileType | null {
+    return TileType.getAllTypes().find((type) => TileType.getSymbol(type) === symbol) ?? null;
+  },
+} as const;
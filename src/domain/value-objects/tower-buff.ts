@@ -0,0 +1,62 @@
+/**
+ * 支援タワーのオーラや強化タイルによって付与される強化効果を表す値オブジェクト
+ * 攻撃力と射程の倍率を持ち、効果がない状態は倍率1で表す
+ */
+export class TowerBuff {
+  constructor(
+    public readonly damageMultiplier = 1,
+    public readonly rangeMultiplier = 1
+  ) {
+    if (damageMultiplier < 1 || rangeMultiplier < 1) {
+      throw new Error("強化倍率は1以上である必要があります");
+    }
+  }
+
+  /**
+   * 強化なし
+   */
+  static none(): TowerBuff {
+    return new TowerBuff();
+  }
+
+  /**
+   * 攻撃力が強化されているかどうか
+   */
+  get isDamageBoosted(): boolean {
+    return this.damageMultiplier > 1;
+  }
+
+  /**
+   * 射程が強化されているかどうか
+   */
+  get isRangeBoosted(): boolean {
+    return this.rangeMultiplier > 1;
+  }
+
+  /**
+   * 何らかの強化を受けているかどうか
+   */
+  get isActive(): boolean {
+    return this.isDamageBoosted || this.isRangeBoosted;
+  }
+
+  /**
+   * 別の強化効果と重ね合わせる（倍率を乗算する）
+   */
+  combine(other: TowerBuff): TowerBuff {
+    return new TowerBuff(
+      this.damageMultiplier * other.damageMultiplier,
+      this.rangeMultiplier * other.rangeMultiplier
+    );
+  }
+
+  /**
+   * 等価性の判定
+   */
+  equals(other: TowerBuff): boolean {
+    return (
+      this.damageMultiplier === other.damageMultiplier &&
+      this.rangeMultiplier === other.rangeMultiplier
+    );
+  }
+}
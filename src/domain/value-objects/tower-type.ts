@@ -1,3 +1,5 @@
+import { DamageType } from "./damage-type";
+
 /**
  * タワータイプを表す列挙型
  */
@@ -55,6 +57,42 @@ export const TowerType = {
 
     return displayNames[type];
   },
+
+  /**
+   * 地上の敵しか攻撃できないタワーかどうか（飛行する敵を狙えない）
+   */
+  isGroundOnly(type: TowerType): boolean {
+    const groundOnlyTypes: TowerType[] = [TowerType.CANNON, TowerType.FIRE, TowerType.POISON];
+    return groundOnlyTypes.includes(type);
+  },
+
+  /**
+   * 隠密状態の敵を見破って狙えるタワーかどうか
+   */
+  canDetectStealth(type: TowerType): boolean {
+    const detectorTypes: TowerType[] = [TowerType.MAGIC, TowerType.LIGHTNING];
+    return detectorTypes.includes(type);
+  },
+
+  /**
+   * タワーの攻撃が与えるダメージの種類を取得
+   */
+  getDamageType(type: TowerType): DamageType {
+    switch (type) {
+      case TowerType.MAGIC:
+        return DamageType.MAGIC;
+      case TowerType.ICE:
+        return DamageType.ICE;
+      case TowerType.FIRE:
+        return DamageType.FIRE;
+      case TowerType.LIGHTNING:
+        return DamageType.LIGHTNING;
+      case TowerType.POISON:
+        return DamageType.POISON;
+      default:
+        return DamageType.PHYSICAL;
+    }
+  },
 } as const;
 
 export type TowerType = (typeof TowerType)[keyof typeof TowerType];
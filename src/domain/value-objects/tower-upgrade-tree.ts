@@ -0,0 +1,125 @@
+import { SpecialAbility } from "./special-ability";
+import type { TowerType } from "./tower-type";
+
+/**
+ * タワー強化の1段階分の定義
+ */
+export interface TowerUpgradeLevel {
+  level: number; // 強化後のレベル
+  cost: number; // 強化に必要なマナ
+  damageMultiplier: number;
+  rangeBonus: number;
+  attackSpeedMultiplier: number; // 攻撃間隔の倍率（1未満で攻撃が速くなる）
+  critChanceBonus?: number; // 会心率の加算量（省略時は0）
+  unlocksAbility?: SpecialAbility; // 特殊能力を持たないタワーに付与する能力
+}
+
+/**
+ * タワータイプごとの強化ツリーを表す値オブジェクト
+ * レベル1（設置時）から順に1段階ずつ強化する
+ */
+export class TowerUpgradeTree {
+  static readonly BASE_LEVEL = 1;
+
+  private readonly _levels: readonly TowerUpgradeLevel[];
+
+  constructor(
+    public readonly towerType: TowerType,
+    levels: TowerUpgradeLevel[]
+  ) {
+    levels.forEach((upgrade, index) => {
+      if (upgrade.level !== TowerUpgradeTree.BASE_LEVEL + index + 1) {
+        throw new Error("強化レベルは2から連続している必要があります");
+      }
+      if (!Number.isInteger(upgrade.cost) || upgrade.cost < 1) {
+        throw new Error("強化コストは1以上の整数である必要があります");
+      }
+      if (upgrade.damageMultiplier < 1 || upgrade.attackSpeedMultiplier <= 0) {
+        throw new Error("強化倍率が不正です");
+      }
+      if (upgrade.rangeBonus < 0) {
+        throw new Error("射程の強化量は0以上である必要があります");
+      }
+      if (upgrade.critChanceBonus !== undefined && upgrade.critChanceBonus < 0) {
+        throw new Error("会心率の強化量は0以上である必要があります");
+      }
+    });
+
+    this._levels = levels.map((upgrade) => ({ ...upgrade }));
+  }
+
+  /**
+   * 到達可能な最大レベル
+   */
+  get maxLevel(): number {
+    return TowerUpgradeTree.BASE_LEVEL + this._levels.length;
+  }
+
+  /**
+   * すべての強化段階を取得
+   */
+  getLevels(): TowerUpgradeLevel[] {
+    return this._levels.map((upgrade) => ({ ...upgrade }));
+  }
+
+  /**
+   * 現在のレベルから次の強化段階を取得
+   * @returns 次の強化段階（最大レベルの場合はnull）
+   */
+  getNextUpgrade(currentLevel: number): TowerUpgradeLevel | null {
+    const upgrade = this._levels[currentLevel - TowerUpgradeTree.BASE_LEVEL];
+    return upgrade ? { ...upgrade } : null;
+  }
+
+  /**
+   * 指定レベルまで強化するのに必要な累計コスト
+   */
+  getTotalCost(toLevel: number): number {
+    return this._levels
+      .filter((upgrade) => upgrade.level <= toLevel)
+      .reduce((sum, upgrade) => sum + upgrade.cost, 0);
+  }
+
+  /**
+   * タワータイプに対応する強化ツリーを取得
+   */
+  static forType(type: TowerType): TowerUpgradeTree {
+    const level = (
+      cost: number,
+      damageMultiplier: number,
+      rangeBonus: number,
+      attackSpeedMultiplier: number,
+      critChanceBonus = 0
+    ) => ({ cost, damageMultiplier, rangeBonus, attackSpeedMultiplier, critChanceBonus });
+
+    // [レベル2, レベル3, 最終レベルで解放する特殊能力]
+    const definitions: Record<
+      TowerType,
+      [ReturnType<typeof level>, ReturnType<typeof level>, SpecialAbility]
+    > = {
+      ARCHER: [
+        level(3, 1.25, 10, 0.9, 0.05),
+        level(5, 1.3, 15, 0.85, 0.1),
+        SpecialAbility.MULTI_SHOT,
+      ],
+      CANNON: [level(4, 1.3, 5, 0.9), level(6, 1.35, 10, 0.85), SpecialAbility.SPLASH_DAMAGE],
+      MAGIC: [level(4, 1.25, 10, 0.9), level(6, 1.3, 15, 0.85, 0.1), SpecialAbility.ARMOR_PIERCE],
+      ICE: [level(3, 1.2, 10, 0.9), level(5, 1.25, 10, 0.85), SpecialAbility.FREEZE],
+      FIRE: [level(4, 1.3, 5, 0.9), level(6, 1.3, 10, 0.85), SpecialAbility.BURN],
+      LIGHTNING: [level(5, 1.25, 10, 0.9), level(7, 1.3, 15, 0.85), SpecialAbility.CHAIN_LIGHTNING],
+      POISON: [level(3, 1.25, 10, 0.9), level(5, 1.3, 10, 0.85), SpecialAbility.POISON_EFFECT],
+      SUPPORT: [level(2, 1, 15, 1), level(4, 1, 20, 1), SpecialAbility.DAMAGE_BOOST],
+    };
+
+    const definition = definitions[type];
+    if (!definition) {
+      throw new Error(`無効なタワータイプです: ${type}`);
+    }
+
+    const [second, third, ability] = definition;
+    return new TowerUpgradeTree(type, [
+      { level: 2, ...second },
+      { level: 3, ...third, unlocksAbility: ability },
+    ]);
+  }
+}
@@ -1,13 +1,62 @@
-import { EnemyType } from "./enemy-type";
+import type { RandomSource } from "../services/random-service";
+import type { EnemyType } from "./enemy-type";
+import type { EnemyTypeRegistry } from "./enemy-type-registry";
+import { ScriptedWave, type ScriptedWaveDefinition } from "./scripted-wave";
+
+/**
+ * 波範囲ごとの敵タイプ分布
+ */
+export interface EnemyTypeDistributionRange {
+  fromWave: number;
+  toWave: number | null; // nullの場合は以降すべての波
+  ratios: Record<string, number>; // 敵タイプ名 → 出現率
+}
+
+/**
+ * 波設定ファイル（config/waves.json）の形式
+ * enemyTypeDistribution のキーは "1-5" のような波範囲か、"16+" のような以降すべての波を表す
+ */
+export interface WavesFileData {
+  waveConfiguration: {
+    baseEnemyCount: number;
+    enemyCountIncrement: number;
+    waveInterval: number;
+    spawnInterval: number;
+    enemyTypeDistribution: Record<string, Record<string, number>>;
+  };
+  scriptedWaves?: ScriptedWaveDefinition[];
+}
 
 /**
  * 波の設定を表現する値オブジェクト
+ * スクリプト波が定義された波はその構成どおりに、それ以外の波は敵数の増加量と敵タイプ分布から生成する
  */
 export class WaveConfiguration {
+  static readonly DEFAULT_DISTRIBUTIONS: EnemyTypeDistributionRange[] = [
+    { fromWave: 1, toWave: 5, ratios: { BASIC: 0.8, FAST: 0.2 } }, // 波1-5: 基本敵中心
+    { fromWave: 6, toWave: 10, ratios: { BASIC: 0.6, RANGED: 0.2, FAST: 0.2 } }, // 波6-10: 遠距離敵追加
+    { fromWave: 11, toWave: 15, ratios: { BASIC: 0.4, RANGED: 0.3, FAST: 0.2, ENHANCED: 0.1 } }, // 波11-15: 強化敵追加
+    {
+      fromWave: 16,
+      toWave: null,
+      ratios: { BASIC: 0.3, RANGED: 0.2, FAST: 0.2, ENHANCED: 0.2, BOSS: 0.1 },
+    }, // 波16+: ボス敵追加
+  ];
+
+  private readonly _distributions: EnemyTypeDistributionRange[];
+  private readonly _scriptedWaves: Map<number, ScriptedWave>;
+
+  /**
+   * @param enemyTypes 敵タイプ分布・スクリプト波の敵タイプを引くレジストリ
+   */
   constructor(
+    public readonly enemyTypes: EnemyTypeRegistry,
     public readonly baseEnemyCount: number,
     public readonly enemyCountIncrement: number,
-    public readonly spawnInterval: number
+    public readonly spawnInterval: number,
+    public readonly waveInterval = 30000,
+    distributions: EnemyTypeDistributionRange[] = WaveConfiguration.DEFAULT_DISTRIBUTIONS,
+    scriptedWaves: ScriptedWave[] = []
   ) {
     if (baseEnemyCount <= 0) {
       throw new Error("Base enemy count must be positive");
@@ -18,6 +67,154 @@ export class WaveConfiguration {
     if (spawnInterval <= 0) {
       throw new Error("Spawn interval must be positive");
     }
+    if (waveInterval <= 0) {
+      throw new Error("Wave interval must be positive");
+    }
+
+    this._distributions = distributions.map((range) => ({ ...range, ratios: { ...range.ratios } }));
+    this._scriptedWaves = new Map(scriptedWaves.map((wave) => [wave.waveNumber, wave]));
+    if (this._scriptedWaves.size !== scriptedWaves.length) {
+      throw new Error("Scripted wave numbers must be unique");
+    }
+  }
+
+  /**
+   * 波設定ファイルを読み込む
+   * 不正な設定が1つでもあればすべてのエラーをまとめて例外を投げる
+   * @param data 波設定ファイルのデータ
+   * @param enemyTypes 敵タイプ名を引くレジストリ
+   */
+  static load(data: WavesFileData, enemyTypes: EnemyTypeRegistry): WaveConfiguration {
+    const config = data?.waveConfiguration;
+    if (!config) {
+      throw new Error("波設定の読み込みに失敗しました:\nwaveConfiguration が定義されていません");
+    }
+
+    const errors: string[] = [];
+    if (!Number.isInteger(config.baseEnemyCount) || config.baseEnemyCount < 1) {
+      errors.push("基本敵数は1以上の整数である必要があります");
+    }
+    if (!Number.isInteger(config.enemyCountIncrement) || config.enemyCountIncrement < 0) {
+      errors.push("敵数の増加量は0以上の整数である必要があります");
+    }
+    if (!(config.spawnInterval > 0)) {
+      errors.push("生成間隔は正の値である必要があります");
+    }
+    if (!(config.waveInterval > 0)) {
+      errors.push("波間隔は正の値である必要があります");
+    }
+
+    const { ranges, errors: distributionErrors } = WaveConfiguration.parseDistributions(
+      config.enemyTypeDistribution ?? {},
+      enemyTypes
+    );
+    errors.push(...distributionErrors);
+
+    const scriptedWaves = data.scriptedWaves ?? [];
+    const waveNumbers = new Set<number>();
+    for (const definition of scriptedWaves) {
+      if (waveNumbers.has(definition.waveNumber)) {
+        errors.push(`波${definition.waveNumber}: スクリプト波が重複しています`);
+      }
+      waveNumbers.add(definition.waveNumber);
+      errors.push(
+        ...ScriptedWave.validateDefinition(definition, enemyTypes).map(
+          (error) => `波${definition.waveNumber}: ${error}`
+        )
+      );
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`波設定の読み込みに失敗しました:\n${errors.join("\n")}`);
+    }
+
+    return new WaveConfiguration(
+      enemyTypes,
+      config.baseEnemyCount,
+      config.enemyCountIncrement,
+      config.spawnInterval,
+      config.waveInterval,
+      ranges,
+      scriptedWaves.map((definition) =>
+        ScriptedWave.fromDefinition(definition, config.spawnInterval, enemyTypes)
+      )
+    );
+  }
+
+  /**
+   * 敵タイプ分布の定義を波範囲に変換して検証する
+   * 波範囲は波1から隙間なく続き、最後の範囲は "N+" 形式である必要がある
+   */
+  private static parseDistributions(
+    distribution: Record<string, Record<string, number>>,
+    enemyTypes: EnemyTypeRegistry
+  ): {
+    ranges: EnemyTypeDistributionRange[];
+    errors: string[];
+  } {
+    const errors: string[] = [];
+    const ranges: EnemyTypeDistributionRange[] = [];
+
+    for (const [key, ratios] of Object.entries(distribution)) {
+      const bounded = key.match(/^(\d+)-(\d+)$/);
+      const open = key.match(/^(\d+)\+$/);
+      const fromWave = Number(bounded?.[1] ?? open?.[1]);
+      const toWave = bounded ? Number(bounded[2]) : null;
+      if ((!bounded && !open) || fromWave < 1 || (toWave !== null && toWave < fromWave)) {
+        errors.push(`敵タイプ分布の波範囲が不正です: ${key}`);
+        continue;
+      }
+
+      for (const [enemyType, ratio] of Object.entries(ratios)) {
+        if (!enemyTypes.find(enemyType)) {
+          errors.push(`${key}: 未定義の敵タイプです: ${enemyType}`);
+        }
+        if (!(ratio >= 0)) {
+          errors.push(`${key}: 出現率は0以上である必要があります: ${enemyType}`);
+        }
+      }
+      ranges.push({ fromWave, toWave, ratios: { ...ratios } });
+    }
+
+    ranges.sort((a, b) => a.fromWave - b.fromWave);
+    let expectedWave = 1;
+    for (const range of ranges) {
+      if (range.fromWave !== expectedWave) {
+        errors.push(`敵タイプ分布が波${expectedWave}を定義していません`);
+        break;
+      }
+      if (range.toWave === null) {
+        break;
+      }
+      expectedWave = range.toWave + 1;
+    }
+    if (ranges.length === 0 || ranges[ranges.length - 1]?.toWave !== null) {
+      errors.push("敵タイプ分布の最後の範囲は「N+」の形式である必要があります");
+    }
+
+    return { ranges, errors };
+  }
+
+  /**
+   * 敵タイプ分布の波範囲
+   */
+  get distributions(): EnemyTypeDistributionRange[] {
+    return this._distributions.map((range) => ({ ...range, ratios: { ...range.ratios } }));
+  }
+
+  /**
+   * スクリプト波の一覧（波番号順）
+   */
+  get scriptedWaves(): ScriptedWave[] {
+    return [...this._scriptedWaves.values()].sort((a, b) => a.waveNumber - b.waveNumber);
+  }
+
+  /**
+   * 指定した波のスクリプト波を取得する
+   * @returns スクリプト波が定義されていない場合はnull
+   */
+  getScriptedWave(waveNumber: number): ScriptedWave | null {
+    return this._scriptedWaves.get(waveNumber) ?? null;
   }
 
   /**
@@ -30,19 +227,31 @@ export class WaveConfiguration {
       throw new Error("Wave number must be positive");
     }
 
+    const scriptedWave = this.getScriptedWave(waveNumber);
+    if (scriptedWave) {
+      return scriptedWave.totalEnemyCount;
+    }
+
     return this.baseEnemyCount + this.enemyCountIncrement * (waveNumber - 1);
   }
 
   /**
    * 指定した波の敵タイプ配列を生成する
+   * スクリプト波の場合は出現順、それ以外は分布に基づいてランダムな順序になる
    * @param waveNumber 波番号（1から開始）
+   * @param random 順序のシャッフルに使う乱数生成関数
    * @returns 敵タイプの配列
    */
-  getEnemyTypesForWave(waveNumber: number): EnemyType[] {
+  getEnemyTypesForWave(waveNumber: number, random: RandomSource = Math.random): EnemyType[] {
     if (waveNumber < 1) {
       throw new Error("Wave number must be positive");
     }
 
+    const scriptedWave = this.getScriptedWave(waveNumber);
+    if (scriptedWave) {
+      return scriptedWave.getSpawnSchedule().map((spawn) => spawn.enemyType);
+    }
+
     const enemyCount = this.getEnemyCountForWave(waveNumber);
     const distribution = this.getEnemyTypeDistribution(waveNumber);
 
@@ -58,7 +267,7 @@ export class WaveConfiguration {
 
     // 端数調整：目標数に満たない場合は基本敵で補完
     while (enemyTypes.length < enemyCount) {
-      enemyTypes.push(EnemyType.BASIC);
+      enemyTypes.push(this.enemyTypes.get("BASIC"));
     }
 
     // 端数調整：目標数を超えた場合は削除
@@ -67,7 +276,7 @@ export class WaveConfiguration {
     }
 
     // シャッフルして順序をランダム化
-    return this.shuffleArray(enemyTypes);
+    return this.shuffleArray(enemyTypes, random);
   }
 
   /**
@@ -76,30 +285,16 @@ export class WaveConfiguration {
    * @returns 敵タイプと出現率のマップ
    */
   getEnemyTypeDistribution(waveNumber: number): Map<EnemyType, number> {
-    const distribution = new Map<EnemyType, number>();
+    const range =
+      this._distributions.find(
+        (current) =>
+          waveNumber >= current.fromWave &&
+          (current.toWave === null || waveNumber <= current.toWave)
+      ) ?? this._distributions[this._distributions.length - 1];
 
-    if (waveNumber <= 5) {
-      // 波1-5: 基本敵中心
-      distribution.set(EnemyType.BASIC, 0.8);
-      distribution.set(EnemyType.FAST, 0.2);
-    } else if (waveNumber <= 10) {
-      // 波6-10: 遠距離敵追加
-      distribution.set(EnemyType.BASIC, 0.6);
-      distribution.set(EnemyType.RANGED, 0.2);
-      distribution.set(EnemyType.FAST, 0.2);
-    } else if (waveNumber <= 15) {
-      // 波11-15: 強化敵追加
-      distribution.set(EnemyType.BASIC, 0.4);
-      distribution.set(EnemyType.RANGED, 0.3);
-      distribution.set(EnemyType.FAST, 0.2);
-      distribution.set(EnemyType.ENHANCED, 0.1);
-    } else {
-      // 波16+: ボス敵追加
-      distribution.set(EnemyType.BASIC, 0.3);
-      distribution.set(EnemyType.RANGED, 0.2);
-      distribution.set(EnemyType.FAST, 0.2);
-      distribution.set(EnemyType.ENHANCED, 0.2);
-      distribution.set(EnemyType.BOSS, 0.1);
+    const distribution = new Map<EnemyType, number>();
+    for (const [enemyType, ratio] of Object.entries(range?.ratios ?? {})) {
+      distribution.set(this.enemyTypes.get(enemyType), ratio);
     }
 
     return distribution;
@@ -110,28 +305,21 @@ export class WaveConfiguration {
    * @returns 波間隔（ミリ秒）
    */
   getWaveInterval(): number {
-    return 5000; // 5秒（テスト用に短縮）
+    return this.waveInterval;
   }
 
   /**
    * 配列をシャッフルする
    * @param array シャッフル対象の配列
+   * @param random 乱数生成関数
    * @returns シャッフル後の新しい配列
    */
-  private shuffleArray<T>(array: T[]): T[] {
+  private shuffleArray<T>(array: T[], random: RandomSource): T[] {
     const shuffled = [...array];
     for (let i = shuffled.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
+      const j = Math.floor(random() * (i + 1));
       [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
     }
     return shuffled;
   }
-
-  /**
-   * デフォルト設定を作成する
-   * @returns デフォルトの波設定
-   */
-  static createDefault(): WaveConfiguration {
-    return new WaveConfiguration(5, 2, 500); // 敵数5、増加2、生成間隔500ms
-  }
 }
@@ -0,0 +1,309 @@
+import pathsData from "../../config/paths.json";
+import { InputHandler } from "../domain/entities/input-handler";
+import type { EnemyType } from "../domain/value-objects/enemy-type";
+import type { EnemyTypeRegistry } from "../domain/value-objects/enemy-type-registry";
+import type { Position } from "../domain/value-objects/position";
+import { PathEditor, type TraversalEstimate } from "../infrastructure/editor/path-editor";
+import { JsonEnemyConfigRepository } from "../infrastructure/repositories/json-enemy-config-repository";
+import {
+  JsonPathConfigRepository,
+  PATH_DIFFICULTIES,
+  type PathDifficulty,
+} from "../infrastructure/repositories/json-path-config-repository";
+import { PathEditorUI } from "../infrastructure/ui/path-editor-ui";
+
+/**
+ * エディター画面のDOM要素ID
+ */
+const ELEMENT_IDS = {
+  pathSelect: "pathSelect",
+  pathName: "pathName",
+  difficultySelect: "difficultySelect",
+  previewEnemySelect: "previewEnemySelect",
+  addPathBtn: "addPathBtn",
+  removePathBtn: "removePathBtn",
+  importFile: "importFile",
+  exportBtn: "exportBtn",
+  saveBtn: "saveBtn",
+  status: "status",
+} as const;
+
+/**
+ * マップ・パスエディター（editor.html から起動する）
+ *
+ * 操作方法:
+ * - 地点をドラッグして移動、空いている場所をクリックすると最も近い区間に地点を追加
+ * - 地点を右クリックで削除
+ * - Sキーでマウス位置を生成地点に、Bキーで基地地点に設定
+ */
+export class MapEditor {
+  private canvas: HTMLCanvasElement;
+  private editor: PathEditor;
+  private editorUI: PathEditorUI;
+  private inputHandler: InputHandler;
+  private draggingWaypoint: number | null = null;
+  private hoveredWaypoint: number | null = null;
+  private enemyTypes: EnemyTypeRegistry;
+  private previewEnemyType: EnemyType;
+  private previewStartTime = 0;
+  private animationFrameId: number | null = null;
+
+  constructor(canvasId: string) {
+    this.canvas = document.getElementById(canvasId) as HTMLCanvasElement;
+    if (!this.canvas) {
+      throw new Error(`Canvas element with id "${canvasId}" not found`);
+    }
+
+    const context = this.canvas.getContext("2d");
+    if (!context) {
+      throw new Error("Failed to get 2D rendering context");
+    }
+
+    // 敵タイプ設定の読み込み（移動時間の見積もりに使用）
+    this.enemyTypes = new JsonEnemyConfigRepository().enemyTypes;
+    this.previewEnemyType = this.enemyTypes.get("BASIC");
+
+    this.editor = new PathEditor(pathsData);
+    this.editorUI = new PathEditorUI(context);
+    this.inputHandler = new InputHandler(this.canvas);
+
+    this.setupInputHandlers();
+    this.setupControls();
+    this.refreshControls();
+  }
+
+  /**
+   * 描画ループを開始
+   */
+  start(): void {
+    this.previewStartTime = performance.now();
+    const loop = (time: number): void => {
+      this.render(time);
+      this.animationFrameId = requestAnimationFrame(loop);
+    };
+    this.animationFrameId = requestAnimationFrame(loop);
+  }
+
+  /**
+   * 描画ループを停止
+   */
+  dispose(): void {
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+  }
+
+  /**
+   * 編集中の設定を開発サーバー経由で config/paths.json に保存
+   */
+  async save(): Promise<void> {
+    const errors = this.editor.validate();
+    if (errors.length > 0) {
+      this.showStatus(`保存できません: ${errors.join(" / ")}`, true);
+      return;
+    }
+
+    try {
+      await new JsonPathConfigRepository(this.editor.toFileData()).saveToFiles();
+      this.editor.markSaved();
+      this.showStatus("config/paths.json に保存しました");
+    } catch (error) {
+      this.showStatus(error instanceof Error ? error.message : String(error), true);
+    }
+  }
+
+  /**
+   * paths.json 形式のファイルを読み込む
+   */
+  async importFile(file: File): Promise<void> {
+    try {
+      this.editor = PathEditor.fromJson(await file.text(), this.editor.bounds);
+      this.refreshControls();
+      this.showStatus(`${file.name} を読み込みました`);
+    } catch (error) {
+      this.showStatus(error instanceof Error ? error.message : String(error), true);
+    }
+  }
+
+  /**
+   * 編集中の設定を paths.json としてダウンロード
+   */
+  exportFile(): void {
+    const blob = new Blob([this.editor.toJson()], { type: "application/json" });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = "paths.json";
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  /**
+   * 描画（プレビューの敵は選択中のパスを繰り返し移動する）
+   */
+  private render(time: number): void {
+    let previewPosition: Position | null = null;
+    let estimates: TraversalEstimate[] = [];
+
+    if (this.editor.selectedPath) {
+      const path = this.editor.getMovementPath();
+      const travelTime = path.getTotalTravelTime(
+        this.previewEnemyType.getBaseStats().movementSpeed
+      );
+      const progress = ((time - this.previewStartTime) % travelTime) / travelTime;
+      previewPosition = path.getPositionAtProgress(progress);
+      estimates = this.editor.estimateTraversal(this.enemyTypes.getAll());
+    }
+
+    this.editorUI.render(this.editor, previewPosition, estimates, this.hoveredWaypoint);
+  }
+
+  /**
+   * マウス・キーボード操作の設定
+   */
+  private setupInputHandlers(): void {
+    this.inputHandler.onMouseDown = (position, button) => {
+      if (!this.editor.selectedPath) return;
+
+      const waypoint = this.editor.findWaypoint(position);
+      try {
+        if (button === 2) {
+          if (waypoint !== null) {
+            this.editor.removeWaypoint(waypoint);
+            this.hoveredWaypoint = null;
+          }
+          return;
+        }
+
+        this.draggingWaypoint = waypoint ?? this.editor.insertWaypoint(position);
+      } catch (error) {
+        this.showStatus(error instanceof Error ? error.message : String(error), true);
+      }
+    };
+
+    this.inputHandler.onMouseMove = (position) => {
+      if (!this.editor.selectedPath) return;
+
+      if (this.draggingWaypoint !== null) {
+        this.editor.moveWaypoint(this.draggingWaypoint, position);
+        this.hoveredWaypoint = this.draggingWaypoint;
+      } else {
+        this.hoveredWaypoint = this.editor.findWaypoint(position);
+      }
+    };
+
+    this.inputHandler.onMouseUp = () => {
+      this.draggingWaypoint = null;
+    };
+
+    this.inputHandler.onKeyDown = (key) => {
+      if (!this.editor.selectedPath || document.activeElement instanceof HTMLInputElement) return;
+
+      const position = this.inputHandler.mousePosition;
+      if (key === "s" || key === "S") {
+        this.editor.setSpawnPoint(position);
+      } else if (key === "b" || key === "B") {
+        this.editor.setBasePoint(position);
+      }
+    };
+  }
+
+  /**
+   * 画面のコントロールの設定
+   */
+  private setupControls(): void {
+    const difficultySelect = this.element<HTMLSelectElement>(ELEMENT_IDS.difficultySelect);
+    difficultySelect.replaceChildren(
+      ...PATH_DIFFICULTIES.map((difficulty) => new Option(difficulty, difficulty))
+    );
+
+    const previewEnemySelect = this.element<HTMLSelectElement>(ELEMENT_IDS.previewEnemySelect);
+    previewEnemySelect.replaceChildren(
+      ...this.enemyTypes.getAll().map((type) => new Option(type.getDisplayName(), type.name))
+    );
+
+    this.element<HTMLSelectElement>(ELEMENT_IDS.pathSelect).addEventListener("change", (event) => {
+      this.editor.selectPath((event.target as HTMLSelectElement).value);
+      this.refreshControls();
+    });
+    this.element<HTMLInputElement>(ELEMENT_IDS.pathName).addEventListener("change", (event) => {
+      try {
+        this.editor.rename((event.target as HTMLInputElement).value);
+        this.refreshControls();
+      } catch (error) {
+        this.showStatus(error instanceof Error ? error.message : String(error), true);
+      }
+    });
+    difficultySelect.addEventListener("change", () => {
+      this.editor.setDifficulty(difficultySelect.value as PathDifficulty);
+    });
+    previewEnemySelect.addEventListener("change", () => {
+      this.previewEnemyType = this.enemyTypes.get(previewEnemySelect.value);
+      this.previewStartTime = performance.now();
+    });
+    this.element(ELEMENT_IDS.addPathBtn).addEventListener("click", () => {
+      this.editor.addPath();
+      this.refreshControls();
+    });
+    this.element(ELEMENT_IDS.removePathBtn).addEventListener("click", () => {
+      const selected = this.editor.selectedPath;
+      if (!selected) return;
+
+      try {
+        this.editor.removePath(selected.id);
+        this.refreshControls();
+      } catch (error) {
+        this.showStatus(error instanceof Error ? error.message : String(error), true);
+      }
+    });
+    this.element<HTMLInputElement>(ELEMENT_IDS.importFile).addEventListener("change", (event) => {
+      const file = (event.target as HTMLInputElement).files?.[0];
+      if (file) {
+        this.importFile(file);
+      }
+    });
+    this.element(ELEMENT_IDS.exportBtn).addEventListener("click", () => this.exportFile());
+    this.element(ELEMENT_IDS.saveBtn).addEventListener("click", () => this.save());
+
+    window.addEventListener("beforeunload", (event) => {
+      if (this.editor.isDirty) {
+        event.preventDefault();
+      }
+    });
+  }
+
+  /**
+   * 選択中のパスに合わせてコントロールを更新
+   */
+  private refreshControls(): void {
+    const selected = this.editor.selectedPath;
+
+    this.element<HTMLSelectElement>(ELEMENT_IDS.pathSelect).replaceChildren(
+      ...this.editor.paths.map(
+        (path) => new Option(`${path.name}（${path.id}）`, path.id, false, path.id === selected?.id)
+      )
+    );
+    this.element<HTMLInputElement>(ELEMENT_IDS.pathName).value = selected?.name ?? "";
+    this.element<HTMLSelectElement>(ELEMENT_IDS.difficultySelect).value =
+      selected?.difficulty ?? "MEDIUM";
+    this.previewStartTime = performance.now();
+  }
+
+  private showStatus(message: string, isError = false): void {
+    const status = this.element(ELEMENT_IDS.status);
+    status.textContent = message;
+    status.style.color = isError ? "#ff6b6b" : "#4ecdc4";
+    if (isError) {
+      console.warn(message);
+    }
+  }
+
+  private element<T extends HTMLElement = HTMLElement>(id: string): T {
+    const element = document.getElementById(id);
+    if (!element) {
+      throw new Error(`Element with id "${id}" not found`);
+    }
+    return element as T;
+  }
+}
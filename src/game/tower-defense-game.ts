@@ -1,5 +1,5 @@
 import { GameRenderer } from "../domain/entities/game-renderer";
-import { UIManager } from "../domain/entities/ui-manager";
+import { UIManager, type BossBarState } from "../domain/entities/ui-manager";
 import { EffectManager } from "../domain/entities/effect-manager";
 import { AudioManager } from "../domain/entities/audio-manager";
 import { InputHandler } from "../domain/entities/input-handler";
@@ -14,12 +14,28 @@ import { CollisionDetectionService } from "../domain/services/collision-detectio
 import { Rectangle } from "../domain/value-objects/rectangle";
 import { Position } from "../domain/value-objects/position";
 import { GameSession } from "../domain/entities/game-session";
+import { CardLibrary } from "../domain/entities/card-library";
+import { ReplayRecorder } from "../domain/entities/replay-recorder";
+import { ReplayPlayer } from "../domain/entities/replay-player";
+import { Replay } from "../domain/value-objects/replay";
+import { RandomService } from "../domain/services/random-service";
+import { BotStrategies } from "../domain/services/bot-strategy";
+import { BotPlayer } from "../domain/services/simulation-strategy";
 import { JsonCardPoolRepository } from "../infrastructure/repositories/json-card-pool-repository";
+import { JsonEnemyConfigRepository } from "../infrastructure/repositories/json-enemy-config-repository";
+import { JsonPathConfigRepository } from "../infrastructure/repositories/json-path-config-repository";
+import type { GameMap } from "../domain/value-objects/game-map";
 import { LocalStorageCardLibraryRepository } from "../infrastructure/repositories/local-storage-card-library-repository";
 import { HeaderUI } from "../infrastructure/ui/header-ui";
 import { HandUI } from "../infrastructure/ui/hand-ui";
 import { GameFieldUI } from "../infrastructure/ui/game-field-ui";
 import { TooltipUI } from "../infrastructure/ui/tooltip-ui";
+import { TowerPanelUI } from "../infrastructure/ui/tower-panel-ui";
+import { TowerUpgradeTree } from "../domain/value-objects/tower-upgrade-tree";
+import { TowerType } from "../domain/value-objects/tower-type";
+import { BossActionType } from "../domain/value-objects/boss-phase";
+import { SpecialAbility } from "../domain/value-objects/special-ability";
+import { TargetingStrategy } from "../domain/value-objects/targeting-strategy";
 import { GameConfig } from "../infrastructure/config/game-config";
 
 /**
@@ -27,6 +43,9 @@ import { GameConfig } from "../infrastructure/config/game-config";
  * 全システムを統合してゲームを実行
  */
 export class TowerDefenseGame {
+  private static readonly MAX_FRAME_TIME = 250; // 1フレームで進めるシミュレーション時間の上限（ミリ秒）
+  private static readonly REPLAY_SEEK_TIME = 10000; // リプレイの早送り・巻き戻しの単位（ミリ秒）
+
   private canvas: HTMLCanvasElement;
   private context: CanvasRenderingContext2D;
   
@@ -50,9 +69,20 @@ export class TowerDefenseGame {
   private playAudioUseCase: PlayAudioUseCase;
   private startGameUseCase: StartGameUseCase;
   private playCardUseCase: PlayCardUseCase;
+
+  // リポジトリ
+  private enemyConfigRepository: JsonEnemyConfigRepository;
+  private pathConfigRepository: JsonPathConfigRepository;
   
+  // レイアウト
+  private gameFieldBounds: Rectangle;
+
   // ゲーム状態
   private gameSession: GameSession | null = null;
+  private replayRecorder: ReplayRecorder | null = null;
+  private replayPlayer: ReplayPlayer | null = null;
+  private botPlayer: BotPlayer | null = null; // 自動プレイ（デモ）中のボット
+  private selectedTowerId: string | null = null;
   private isRunning = false;
   private lastFrameTime = 0;
   private animationFrameId: number | null = null;
@@ -83,15 +113,18 @@ export class TowerDefenseGame {
     const headerBounds = new Rectangle(0, 0, this.canvas.width, 60);
     const handBounds = new Rectangle(0, this.canvas.height - 120, this.canvas.width, 120);
     const gameFieldBounds = new Rectangle(0, 60, this.canvas.width, this.canvas.height - 180);
+    this.gameFieldBounds = gameFieldBounds;
     
     const headerUI = new HeaderUI(headerBounds, this.renderingService);
     const handUI = new HandUI(handBounds, this.renderingService);
     const gameFieldUI = new GameFieldUI(gameFieldBounds, this.renderingService);
     const tooltipUI = new TooltipUI(this.renderingService, this.animationService);
+    const towerPanelBounds = new Rectangle(this.canvas.width - 190, 70, 180, 288);
+    const towerPanelUI = new TowerPanelUI(towerPanelBounds, this.renderingService);
 
     // システム初期化
     this.gameRenderer = new GameRenderer(this.canvas);
-    this.uiManager = new UIManager(headerUI, handUI, gameFieldUI, tooltipUI);
+    this.uiManager = new UIManager(headerUI, handUI, gameFieldUI, tooltipUI, towerPanelUI);
     this.effectManager = new EffectManager(this.renderingService, this.animationService);
     this.audioManager = new AudioManager();
     this.inputHandler = new InputHandler(this.canvas);
@@ -100,9 +133,16 @@ export class TowerDefenseGame {
     // ユースケース初期化
     this.playAudioUseCase = new PlayAudioUseCase(this.audioManager);
     
+    // 敵タイプ設定の読み込み（不正な設定の場合はここで例外となり起動を中断する）
+    this.enemyConfigRepository = new JsonEnemyConfigRepository();
+    console.log(`👾 Enemy types loaded: ${this.enemyConfigRepository.enemyTypes.getAll().map((type) => type.name).join(', ')}`);
+
+    // パス・マップ設定の読み込み
+    this.pathConfigRepository = new JsonPathConfigRepository();
+
     const cardPoolRepo = new JsonCardPoolRepository();
     const cardLibraryRepo = new LocalStorageCardLibraryRepository();
-    this.startGameUseCase = new StartGameUseCase(cardPoolRepo, cardLibraryRepo);
+    this.startGameUseCase = new StartGameUseCase(cardPoolRepo, cardLibraryRepo, this.enemyConfigRepository);
     this.playCardUseCase = new PlayCardUseCase(cardLibraryRepo);
 
     this.setupEventHandlers();
@@ -128,38 +168,33 @@ export class TowerDefenseGame {
    */
   async startNewGame(): Promise<void> {
     try {
-      const result = await this.startGameUseCase.execute(`game-${Date.now()}`);
+      const replayUrl = new URLSearchParams(window.location.search).get('replay');
+      if (replayUrl) {
+        await this.startReplay(replayUrl);
+        return;
+      }
+
+      const gameMap = await this.loadSelectedMap();
+      const result = await this.startGameUseCase.execute(
+        `game-${Date.now()}`,
+        gameMap,
+        this.getSeedParameter()
+      );
 
       if (result.success && result.gameSession) {
         this.gameSession = result.gameSession;
-        
-        // UI更新
-        this.uiManager.updateGameState({
-          timeRemaining: this.gameSession.timer.getRemainingSeconds(),
-          score: this.gameSession.score.getTotalScore(),
-          health: this.gameSession.baseHealth.currentHealth.value,
-          maxHealth: this.gameSession.baseHealth.maxHealth,
-        });
-
-        // 手札の取得と表示
-        const hand = this.gameSession.getHand();
-        this.uiManager.updateHandState({
-          cards: hand.map(card => ({
-            id: card.id,
-            name: card.name,
-            cost: card.cost.value,
-          })),
-          currentMana: this.gameSession.manaPool.getCurrentMana(),
-          maxMana: this.gameSession.manaPool.getMaxMana(),
-        });
-
-        // 移動パス情報を更新
-        this.uiManager.updateMovementPath(this.gameSession.movementPath.pathPoints);
+        this.gameSession.setPlayfieldBounds(this.gameFieldBounds);
+        this.replayPlayer = null;
+        this.replayRecorder = new ReplayRecorder(this.gameSession);
+        this.botPlayer = this.createAutoplayBot();
+        this.showSession();
 
         // ゲームループ開始
         this.start();
         
-        console.log('🚀 New game started!');
+        console.log(
+          `🚀 New game started! (map: ${gameMap.name}, lanes: ${gameMap.lanes.length}, seed: ${this.gameSession.seed})`
+        );
       } else {
         throw new Error(result.error || 'Failed to start game');
       }
@@ -169,6 +204,239 @@ export class TowerDefenseGame {
     }
   }
 
+  /**
+   * リプレイファイルを読み込み、記録された試合の再生を開始する
+   * 再生用のゲームセッションはリプレイのシードとマップから作成し、巻き戻すたびに作り直す
+   */
+  private async startReplay(url: string): Promise<void> {
+    const response = await fetch(url);
+    if (!response.ok) {
+      throw new Error(`Failed to load replay "${url}": ${response.status}`);
+    }
+    const replay = Replay.parse(await response.text());
+
+    const gameMap = await this.pathConfigRepository.getMapById(replay.mapId);
+    if (!gameMap) {
+      throw new Error(`Unknown map "${replay.mapId}" in replay`);
+    }
+    const cardPool = await new JsonCardPoolRepository().load();
+    const waveConfiguration = await this.enemyConfigRepository.getWaveConfiguration();
+
+    this.replayRecorder = null;
+    this.botPlayer = null;
+    this.replayPlayer = new ReplayPlayer(replay, (source, timeProvider) => {
+      // 再生でカードライブラリの発見記録が更新されないよう、保存しないライブラリを使う
+      const session = new GameSession(
+        `replay-${source.seed}`,
+        cardPool,
+        new CardLibrary(),
+        undefined,
+        undefined,
+        timeProvider,
+        new RandomService(source.seed)
+      );
+      session.setWaveConfiguration(waveConfiguration);
+      session.selectMap(gameMap);
+      session.setPlayfieldBounds(this.gameFieldBounds);
+      session.startGame();
+      return session;
+    });
+
+    const wave = Number(new URLSearchParams(window.location.search).get('wave'));
+    if (Number.isInteger(wave) && wave > 1) {
+      this.replayPlayer.jumpToWave(wave);
+    }
+
+    this.gameSession = this.replayPlayer.session;
+    this.showSession();
+    this.start();
+
+    console.log(
+      `📼 Replay started (map: ${gameMap.name}, seed: ${replay.seed}, ${Math.round(replay.duration / 1000)}s, ${replay.commands.length} commands)`
+    );
+    console.log('📼 Keys: 1/2/4 speed, ←/→ seek 10s, Home restart, N/P next/previous wave');
+  }
+
+  /**
+   * ゲームセッションの状態を画面に反映する（開始時・リプレイの巻き戻し時）
+   */
+  private showSession(): void {
+    if (!this.gameSession) return;
+
+    this.selectedTowerId = null;
+    this.updateTowerPanel();
+
+    // UI更新
+    this.uiManager.updateGameState({
+      timeRemaining: this.gameSession.timer.getRemainingSeconds(),
+      score: this.gameSession.score.getTotalScore(),
+      health: this.gameSession.baseHealth.currentHealth.value,
+      maxHealth: this.gameSession.baseHealth.maxHealth,
+      boss: this.getBossBarState(),
+    });
+
+    // 手札の取得と表示
+    this.updateHandUI();
+
+    // 移動パス情報を更新
+    this.uiManager.updateMovementPaths(this.gameSession.movementPaths.map((path) => path.pathPoints));
+    this.uiManager.updateTileGrid(this.gameSession.tileGrid);
+  }
+
+  /**
+   * 記録中の試合をリプレイファイルとしてダウンロードする
+   */
+  private downloadReplay(): void {
+    if (!this.replayRecorder) return;
+
+    const replay = this.replayRecorder.toReplay();
+    const url = URL.createObjectURL(new Blob([replay.serialize()], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `replay-${replay.mapId}-${replay.seed}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+
+    console.log(`💾 Replay saved (${replay.commands.length} commands, ${Math.round(replay.duration / 1000)}s)`);
+  }
+
+  /**
+   * リプレイ再生中のキー操作（再生速度・早送り・巻き戻し・波へのジャンプ）
+   */
+  private handleReplayKey(player: ReplayPlayer, key: string): void {
+    const seekSteps = TowerDefenseGame.REPLAY_SEEK_TIME / player.replay.step;
+    switch (key) {
+      case '1':
+      case '2':
+      case '4':
+        player.setSpeed(Number(key));
+        console.log(`📼 Replay speed: ${key}x`);
+        return;
+      case 'ArrowRight':
+        player.seek(player.tick + seekSteps);
+        break;
+      case 'ArrowLeft':
+        player.seek(player.tick - seekSteps);
+        break;
+      case 'Home':
+        player.seek(0);
+        break;
+      case 'n':
+      case 'N':
+        player.jumpToWave(player.session.waveScheduler.waveNumber + 1);
+        break;
+      case 'p':
+      case 'P':
+        player.jumpToWave(Math.max(1, player.session.waveScheduler.waveNumber - 1));
+        break;
+      default:
+        return;
+    }
+
+    // 巻き戻しでゲームセッションが作り直されるため表示を取り直す
+    if (this.gameSession !== player.session) {
+      this.gameSession = player.session;
+      this.showSession();
+    }
+    if (!this.isRunning) {
+      this.start();
+    }
+    console.log(`📼 Replay at ${Math.round(player.tick * player.replay.step / 1000)}s (wave ${player.session.waveScheduler.waveNumber})`);
+  }
+
+  /**
+   * URLの autoplay パラメータで指定された戦略のボットを作成する
+   * 未指定の場合はnull、戦略名を省略した場合は経路カバー戦略を使う
+   */
+  private createAutoplayBot(): BotPlayer | null {
+    const name = new URLSearchParams(window.location.search).get('autoplay');
+    if (name === null) {
+      return null;
+    }
+
+    try {
+      console.log(`🤖 Autoplay: ${name || 'path-coverage'}`);
+      return new BotPlayer(BotStrategies.create(name || 'path-coverage'));
+    } catch {
+      console.warn(`⚠️ Unknown bot strategy "${name}", autoplay disabled`);
+      return null;
+    }
+  }
+
+  /**
+   * ボットが決めた配置を、プレイヤーのカード使用と同じイベントとして発行する
+   */
+  private playBotMoves(botPlayer: BotPlayer): void {
+    if (!this.gameSession) return;
+
+    for (const command of botPlayer.decide(this.gameSession, this.gameSession.clock.stepCount)) {
+      if (command.type !== 'card-played') continue;
+
+      const card = this.gameSession.hand.getCard(command.cardId);
+      if (!card) continue;
+      this.eventBus.emit(
+        UIEventFactory.createCardPlayed(
+          command.cardId,
+          new Position(command.x, command.y),
+          card.cost.value,
+          'bot'
+        )
+      );
+    }
+  }
+
+  /**
+   * 推奨するカードと配置位置をヒントとして表示する
+   */
+  private async showPlayHint(): Promise<void> {
+    if (!this.gameSession) return;
+
+    const result = await this.playCardUseCase.getPlayRecommendations(this.gameSession);
+    const hint = result.recommendations?.[0];
+    if (!result.success || !hint) {
+      console.warn(`Failed to get a hint: ${result.error ?? 'no cards in hand'}`);
+      return;
+    }
+
+    if (hint.position) {
+      this.effectManager.createMagicEffect(hint.position);
+    }
+    console.log(`💡 Hint: ${hint.card.name} - ${hint.reason}`);
+  }
+
+  /**
+   * URLの seed パラメータで指定された乱数シードを取得する（未指定・不正な場合はランダムなシード）
+   */
+  private getSeedParameter(): number | undefined {
+    const seed = new URLSearchParams(window.location.search).get('seed');
+    if (seed === null) {
+      return undefined;
+    }
+
+    const value = Number(seed);
+    if (!Number.isInteger(value) || value < 0 || value > 0xffffffff) {
+      console.warn(`⚠️ Invalid seed "${seed}", using a random seed`);
+      return undefined;
+    }
+    return value;
+  }
+
+  /**
+   * URLの map パラメータで指定されたマップを読み込む（未指定・不明な場合は既定のマップ）
+   */
+  private async loadSelectedMap(): Promise<GameMap> {
+    const mapId = new URLSearchParams(window.location.search).get('map');
+    if (mapId) {
+      const gameMap = await this.pathConfigRepository.getMapById(mapId);
+      if (gameMap) {
+        return gameMap;
+      }
+      console.warn(`⚠️ Unknown map "${mapId}", using default map`);
+    }
+
+    return this.pathConfigRepository.getDefaultMap();
+  }
+
   /**
    * ゲームループを開始
    */
@@ -202,7 +470,8 @@ export class TowerDefenseGame {
     if (!this.isRunning) return;
 
     const currentTime = performance.now();
-    const deltaTime = currentTime - this.lastFrameTime;
+    // タブの切り替えなどで長時間止まった後に大量のステップを一度に消化しないよう上限を設ける
+    const deltaTime = Math.min(currentTime - this.lastFrameTime, TowerDefenseGame.MAX_FRAME_TIME);
     this.lastFrameTime = currentTime;
 
     // 更新
@@ -221,8 +490,26 @@ export class TowerDefenseGame {
   private update(deltaTime: number): void {
     if (!this.gameSession) return;
 
-    // ゲームセッション更新
-    const updateResult = this.gameSession.update(deltaTime);
+    // ゲームセッション更新（リプレイ再生中は記録された操作を適用しながら再シミュレーション）
+    let gameEnded = false;
+    if (this.replayPlayer) {
+      this.replayPlayer.update(deltaTime);
+      if (this.gameSession !== this.replayPlayer.session) {
+        this.gameSession = this.replayPlayer.session;
+        this.showSession();
+      }
+    } else {
+      if (this.botPlayer) {
+        this.playBotMoves(this.botPlayer);
+      }
+      gameEnded = this.gameSession.update(deltaTime).gameEnded;
+    }
+
+    // 着弾した弾の命中をUIイベントとして通知
+    this.emitProjectileHits();
+    this.showTowerAttacks();
+    this.showEnemyAbilities();
+    this.showBossEvents();
     
     // UI状態更新
     this.uiManager.updateGameState({
@@ -230,17 +517,124 @@ export class TowerDefenseGame {
       score: this.gameSession.score.getTotalScore(),
       health: this.gameSession.baseHealth.currentHealth.value,
       maxHealth: this.gameSession.baseHealth.maxHealth,
+      boss: this.getBossBarState(),
     });
 
+    // 手札・マナ・デッキ表示更新（時間経過による補充とマナ回復を反映）
+    this.updateHandUI();
+
+    // 選択中タワーの詳細パネル更新
+    this.updateTowerPanel();
+
     // エフェクト更新
     this.effectManager.update(deltaTime);
 
     // ゲーム終了チェック
-    if (updateResult.gameEnded) {
+    if (gameEnded) {
       this.handleGameEnd();
     }
   }
 
+  /**
+   * 直前の更新で着弾した弾ごとに敵ヒットイベントを発行
+   * 主目標への命中は着弾地点、範囲・連鎖による命中は巻き込まれた敵の位置から発生させる
+   */
+  private emitProjectileHits(): void {
+    if (!this.gameSession) return;
+
+    for (const impact of this.gameSession.lastImpacts) {
+      for (const hit of impact.hits) {
+        const position = hit.isPrimary ? impact.position : hit.enemy.currentPosition;
+        this.eventBus.emit(
+          UIEventFactory.createEnemyHit(
+            hit.enemy.id,
+            hit.damage,
+            position,
+            hit.isCritical,
+            'projectile',
+            hit.damageType,
+            hit.isResisted
+          )
+        );
+      }
+    }
+  }
+
+  /**
+   * 直前の更新で敵がタワーに与えた攻撃をエフェクトで表示
+   */
+  private showTowerAttacks(): void {
+    if (!this.gameSession) return;
+
+    for (const attack of this.gameSession.lastTowerAttacks) {
+      if (attack.destroyed) {
+        this.effectManager.createExplosion(attack.tower.position);
+        console.log(`💥 Tower destroyed by ${attack.enemy.type.getDisplayName()}`);
+      } else {
+        this.effectManager.createHitEffect(attack.tower.position);
+      }
+    }
+  }
+
+  /**
+   * 直前の更新で発動した敵の能力（味方の回復・分裂）をエフェクトで表示
+   */
+  private showEnemyAbilities(): void {
+    if (!this.gameSession) return;
+
+    for (const heal of this.gameSession.lastEnemyHeals) {
+      this.effectManager.createHealingNumber(heal.target.currentPosition, heal.amount);
+    }
+    for (const enemy of this.gameSession.lastSplitEnemies) {
+      this.effectManager.createMagicEffect(enemy.currentPosition);
+    }
+  }
+
+  /**
+   * 直前の更新で起きたボス戦の出来事（フェーズの移行・行動の予兆・発動）をエフェクトで表示
+   */
+  private showBossEvents(): void {
+    if (!this.gameSession) return;
+
+    for (const event of this.gameSession.lastBossEvents) {
+      switch (event.type) {
+        case 'phase-changed':
+          this.effectManager.createExplosion(event.boss.currentPosition);
+          console.log(`👑 ${event.boss.type.getDisplayName()}: ${event.phase.name}`);
+          break;
+        case 'telegraph': {
+          const radius = event.action.type === BossActionType.DISABLE_TOWERS ? event.action.radius : 40;
+          this.effectManager.createTelegraph(
+            event.position,
+            radius,
+            event.duration,
+            BossActionType.getDisplayName(event.action.type)
+          );
+          break;
+        }
+        case 'action':
+          this.effectManager.createMagicEffect(event.position);
+          break;
+      }
+    }
+  }
+
+  /**
+   * ヘッダーに表示するボスの体力バーの状態を取得（ボス戦でない場合はnull）
+   */
+  private getBossBarState(): BossBarState | null {
+    const encounter = this.gameSession?.activeBossEncounter;
+    if (!encounter) return null;
+
+    return {
+      name: encounter.boss.type.getDisplayName(),
+      phaseName: encounter.phase.name,
+      health: encounter.boss.currentHealth,
+      maxHealth: encounter.boss.maxHealth,
+      shield: encounter.boss.shield,
+    };
+  }
+
   /**
    * 描画
    */
@@ -285,16 +679,23 @@ export class TowerDefenseGame {
   private renderGameElements(): void {
     if (!this.gameSession) return;
 
-    // 移動パスを描画
-    this.gameRenderer.renderMovementPath(this.gameSession.movementPath.pathPoints);
+    // 全レーンの移動パスを描画
+    for (const path of this.gameSession.movementPaths) {
+      this.gameRenderer.renderMovementPath(path.pathPoints);
+    }
 
     // タワーを描画
     const towers = this.gameSession.getTowers();
-    this.gameRenderer.renderTowers(towers);
+    this.gameRenderer.renderTowers(towers, this.selectedTowerId);
 
     // 敵を描画
+    // 敵と弾は直前と現在のステップの位置を補間して描画
+    const alpha = this.replayPlayer ? this.replayPlayer.alpha : this.gameSession.interpolationAlpha;
     const activeEnemies = this.gameSession.getActiveEnemies();
-    this.gameRenderer.renderEnemies(activeEnemies);
+    this.gameRenderer.renderEnemies(activeEnemies, alpha);
+
+    // 弾を描画
+    this.gameRenderer.renderProjectiles(this.gameSession.getProjectiles(), alpha);
   }
 
   /**
@@ -319,8 +720,8 @@ export class TowerDefenseGame {
       this.context.fillText(`Active: ${waveStats.isActive}`, 10, 95);
       
       // 次の波までの時間を表示
-      const now = new Date();
-      const timeToNextWave = Math.max(0, Math.ceil((waveStats.nextWaveTime.getTime() - now.getTime()) / 1000));
+      const now = this.gameSession.clock.getCurrentTime();
+      const timeToNextWave = Math.max(0, Math.ceil((waveStats.nextWaveTime.getTime() - now) / 1000));
       this.context.fillText(`Next Wave: ${timeToNextWave}s`, 10, 110);
       
       if (waveStats.currentWaveStats) {
@@ -349,28 +750,26 @@ export class TowerDefenseGame {
       try {
         // タワー配置を試行
         const placementResult = this.gameSession.playCardAndPlaceTower(event.cardId, event.position);
+        this.replayRecorder?.record({
+          type: 'card-played',
+          cardId: event.cardId,
+          x: event.position.x,
+          y: event.position.y,
+        });
 
         if (placementResult.success && placementResult.tower) {
-          // エフェクト生成
-          this.effectManager.createExplosion(event.position);
+          // エフェクト生成（タワーはタイルの中心に吸着して配置される）
+          const towerPosition = placementResult.tower.position;
+          this.effectManager.createExplosion(towerPosition);
           
           // 音響再生
           this.playAudioUseCase.playCardUsed();
           this.playAudioUseCase.playTowerPlaced();
           
           // UI更新
-          const hand = this.gameSession.getHand();
-          this.uiManager.updateHandState({
-            cards: hand.map(card => ({
-              id: card.id,
-              name: card.name,
-              cost: card.cost.value,
-            })),
-            currentMana: this.gameSession.manaPool.getCurrentMana(),
-            maxMana: this.gameSession.manaPool.getMaxMana(),
-          });
+          this.updateHandUI();
           
-          console.log(`Tower placed: ${placementResult.tower.type} at (${event.position.x}, ${event.position.y})`);
+          console.log(`Tower placed: ${placementResult.tower.type} at (${towerPosition.x}, ${towerPosition.y})`);
         } else {
           console.warn(`Failed to place tower: ${placementResult.error}`);
           // エラー音を再生（オプション）
@@ -380,10 +779,58 @@ export class TowerDefenseGame {
       }
     });
 
+    // タワー選択イベント
+    this.eventBus.on('tower-selected', (event) => {
+      if (event.type === 'tower-selected') {
+        this.selectedTowerId = event.towerId;
+        this.updateTowerPanel();
+        this.playAudioUseCase.playUISound('card-select');
+      }
+    });
+
+    // タワー強化イベント
+    this.eventBus.on('tower-upgraded', (event) => {
+      if (!this.gameSession || event.type !== 'tower-upgraded') return;
+
+      const tower = this.gameSession.getTower(event.towerId);
+      if (tower) {
+        this.effectManager.createUpgradeEffect(tower.position);
+        this.effectManager.createMagicEffect(tower.position);
+      }
+      this.playAudioUseCase.playTowerPlaced();
+      this.updateHandUI();
+    });
+
+    // タワー売却イベント
+    this.eventBus.on('tower-sold', (event) => {
+      if (event.type !== 'tower-sold') return;
+
+      if (this.selectedTowerId === event.towerId) {
+        this.selectedTowerId = null;
+        this.updateTowerPanel();
+      }
+      this.effectManager.createHitEffect(event.position);
+      if (event.refund > 0) {
+        this.effectManager.createHealingNumber(event.position, event.refund);
+      }
+      this.playAudioUseCase.playUISound('card-select');
+      this.updateHandUI();
+    });
+
     // 敵ヒットイベント
     this.eventBus.on('enemy-hit', (event) => {
       if (event.type === 'enemy-hit') {
-        this.effectManager.createDamageNumber(event.position, event.damage, event.isCritical);
+        if (event.damageType) {
+          this.effectManager.createTypedDamageNumber(
+            event.position,
+            event.damage,
+            event.damageType,
+            event.isCritical,
+            event.isResisted
+          );
+        } else {
+          this.effectManager.createDamageNumber(event.position, event.damage, event.isCritical);
+        }
         this.effectManager.createHitEffect(event.position);
         this.playAudioUseCase.playEnemyHit();
       }
@@ -413,6 +860,19 @@ export class TowerDefenseGame {
     
     this.inputHandler.onMouseUp = (position: Position, button: number) => {
       if (button !== 0 || !this.gameSession) return; // 左クリックのみ
+      if (this.replayPlayer) return; // リプレイ再生中は操作を受け付けない
+
+      // タワー詳細パネルのクリック判定 - 攻撃対象の選択方針を変更
+      if (this.uiManager.isOnTowerPanel(position)) {
+        const strategy = this.uiManager.getTowerPanelStrategyAt(position);
+        if (strategy && this.selectedTowerId) {
+          this.gameSession.setTowerTargetingStrategy(this.selectedTowerId, strategy);
+          this.replayRecorder?.record({ type: 'targeting-changed', towerId: this.selectedTowerId, strategy });
+          this.updateTowerPanel();
+          this.playAudioUseCase.playUISound('card-select');
+        }
+        return;
+      }
 
       // 手札エリアのクリック判定（簡略化）
       if (position.y > this.canvas.height - 120) {
@@ -429,6 +889,7 @@ export class TowerDefenseGame {
               selectedCardId = hand[i].id;
               const cardEvent = UIEventFactory.createCardSelected(i, selectedCardId);
               this.eventBus.emit(cardEvent);
+              this.replayRecorder?.record({ type: 'card-selected', cardId: selectedCardId });
               console.log(`Card selected: ${hand[i].name}`);
               return;
             }
@@ -440,16 +901,145 @@ export class TowerDefenseGame {
           const playEvent = UIEventFactory.createCardPlayed(selectedCardId, position, 3);
           this.eventBus.emit(playEvent);
           selectedCardId = null; // 選択をリセット
+          return;
+        }
+
+        // カード未選択時はタワーを選択（空き地をクリックすると選択解除）
+        const tower = this.gameSession.findTowerAt(position);
+        if (tower) {
+          this.eventBus.emit(UIEventFactory.createTowerSelected(tower.id, tower.position, 'game-field'));
+        } else {
+          this.selectedTowerId = null;
+          this.updateTowerPanel();
         }
       }
     };
 
     // キーボードイベント
     this.inputHandler.onKeyDown = (key: string, code: string) => {
+      if (this.replayPlayer) {
+        if (key === 'Escape') {
+          this.stop();
+        } else {
+          this.handleReplayKey(this.replayPlayer, key);
+        }
+        return;
+      }
+
       switch (key) {
         case ' ': // スペースキー
           if (this.gameSession) {
             this.gameSession.togglePause();
+            this.replayRecorder?.record({ type: 'game-pause' });
+          }
+          break;
+        case 'd':
+        case 'D':
+          // マナを支払ってカードを1枚引く
+          if (this.gameSession) {
+            const drawResult = this.gameSession.drawCard();
+            this.replayRecorder?.record({ type: 'card-drawn' });
+            if (drawResult.success && drawResult.card) {
+              this.playAudioUseCase.playUISound('card-select');
+              this.updateHandUI();
+              console.log(`Card drawn: ${drawResult.card.name}`);
+            } else {
+              console.warn(`Failed to draw card: ${drawResult.error}`);
+            }
+          }
+          break;
+        case 'u':
+        case 'U':
+          // 選択中のタワーをマナを支払って強化
+          if (this.gameSession && this.selectedTowerId) {
+            const upgradeResult = this.gameSession.upgradeTower(this.selectedTowerId);
+            this.replayRecorder?.record({ type: 'tower-upgraded', towerId: this.selectedTowerId });
+            if (upgradeResult.success && upgradeResult.newLevel && upgradeResult.upgradeCost) {
+              this.eventBus.emit(
+                UIEventFactory.createTowerUpgraded(
+                  this.selectedTowerId,
+                  upgradeResult.newLevel,
+                  upgradeResult.upgradeCost,
+                  'keyboard'
+                )
+              );
+              console.log(`Tower upgraded to level ${upgradeResult.newLevel}`);
+            } else {
+              console.warn(`Failed to upgrade tower: ${upgradeResult.error}`);
+            }
+          }
+          break;
+        case 't':
+        case 'T':
+          // 選択中のタワーの攻撃対象選択方針を切り替え
+          if (this.gameSession && this.selectedTowerId) {
+            const tower = this.gameSession.getTower(this.selectedTowerId);
+            if (tower) {
+              const next = TargetingStrategy.getNext(tower.targetingStrategy);
+              this.gameSession.setTowerTargetingStrategy(tower.id, next);
+              this.replayRecorder?.record({ type: 'targeting-changed', towerId: tower.id, strategy: next });
+              this.updateTowerPanel();
+            }
+          }
+          break;
+        case 's':
+        case 'S':
+        case 'Delete':
+          // 選択中のタワーを売却してマナを返還
+          if (this.gameSession && this.selectedTowerId) {
+            const sellOptions = {
+              refundRatio: this.config.towers.sellRefundRatio,
+              returnCardToDiscard: this.config.towers.returnCardOnSell,
+            };
+            const sellResult = this.gameSession.sellTower(this.selectedTowerId, sellOptions);
+            this.replayRecorder?.record({ type: 'tower-sold', towerId: this.selectedTowerId, ...sellOptions });
+            if (sellResult.success && sellResult.tower) {
+              this.eventBus.emit(
+                UIEventFactory.createTowerSold(
+                  sellResult.tower.id,
+                  sellResult.tower.position,
+                  sellResult.refund ?? 0,
+                  'keyboard'
+                )
+              );
+              console.log(`Tower sold: +${sellResult.refund} mana`);
+            } else {
+              console.warn(`Failed to sell tower: ${sellResult.error}`);
+            }
+          }
+          break;
+        case 'f':
+        case 'F':
+          // 選択中のタワーをマナを支払って修理
+          if (this.gameSession && this.selectedTowerId) {
+            const repairResult = this.gameSession.repairTower(this.selectedTowerId);
+            this.replayRecorder?.record({ type: 'tower-repaired', towerId: this.selectedTowerId });
+            if (repairResult.success && repairResult.tower) {
+              this.playAudioUseCase.playUISound('card-select');
+              this.effectManager.createMagicEffect(repairResult.tower.position);
+              this.updateTowerPanel();
+              console.log(`Tower repaired: -${repairResult.repairCost} mana`);
+            } else {
+              console.warn(`Failed to repair tower: ${repairResult.error}`);
+            }
+          }
+          break;
+        case 'r':
+        case 'R':
+          // ここまでの試合をリプレイファイルとして保存
+          this.downloadReplay();
+          break;
+        case 'h':
+        case 'H':
+          // 推奨するカードと配置位置を表示
+          void this.showPlayHint();
+          break;
+        case 'a':
+        case 'A':
+          // 自動プレイ（デモ）の切り替え
+          if (this.gameSession) {
+            this.botPlayer = this.botPlayer ? null : new BotPlayer(BotStrategies.create('path-coverage'));
+            console.log(`🤖 Autoplay ${this.botPlayer ? 'on' : 'off'}`);
           }
           break;
         case 'Escape':
@@ -459,6 +1049,62 @@ export class TowerDefenseGame {
     };
   }
 
+  /**
+   * 手札UIをゲームセッションの状態に合わせて更新
+   */
+  private updateHandUI(): void {
+    if (!this.gameSession) return;
+
+    const hand = this.gameSession.getHand();
+    const stats = this.gameSession.getSessionStats();
+    this.uiManager.updateHandState({
+      cards: hand.map(card => ({
+        id: card.id,
+        name: card.name,
+        cost: card.cost.value,
+      })),
+      currentMana: this.gameSession.manaPool.getCurrentMana(),
+      maxMana: this.gameSession.manaPool.getMaxMana(),
+      drawPileCount: stats.drawPileCount,
+      discardPileCount: stats.discardPileCount,
+    });
+  }
+
+  /**
+   * 選択中のタワーに合わせて詳細パネルを更新
+   */
+  private updateTowerPanel(): void {
+    const tower = this.selectedTowerId ? this.gameSession?.getTower(this.selectedTowerId) : null;
+    if (!this.gameSession || !tower) {
+      this.uiManager.hideTowerPanel();
+      return;
+    }
+
+    const nextUpgrade = this.gameSession.towerUpgradeService.getNextUpgrade(tower);
+    this.uiManager.showTowerPanel({
+      towerId: tower.id,
+      name: TowerType.getDisplayName(tower.type),
+      level: tower.level,
+      maxLevel: TowerUpgradeTree.forType(tower.type).maxLevel,
+      damage: tower.stats.damage,
+      range: tower.stats.range,
+      attackSpeed: tower.stats.attackSpeed,
+      critChance: tower.stats.critChance,
+      specialAbility: SpecialAbility.getDisplayName(tower.specialAbility),
+      targetingStrategy: tower.targetingStrategy,
+      upgradeCost: nextUpgrade ? nextUpgrade.cost : null,
+      sellRefund: this.gameSession.towerSellService.calculateRefund(
+        tower,
+        this.config.towers.sellRefundRatio
+      ),
+      health: tower.health,
+      maxHealth: tower.maxHealth,
+      repairCost: tower.health < tower.maxHealth
+        ? this.gameSession.towerRepairService.calculateRepairCost(tower)
+        : null,
+    });
+  }
+
   /**
    * ゲーム終了処理
    */
@@ -472,6 +1118,7 @@ export class TowerDefenseGame {
       this.playAudioUseCase.playGameOver();
       console.log('💀 Game over!');
     }
+    console.log('💾 Press R to save the replay of this game');
   }
 
   /**
@@ -68,6 +68,28 @@ export class GameConfig {
         };
     }
 
+    /**
+     * タワー設定を取得
+     */
+    get towers() {
+        return {
+            sellRefundRatio: this.config.towers.sellRefundRatio,
+            returnCardOnSell: this.config.towers.returnCardOnSell,
+        };
+    }
+
+    /**
+     * コスト設定を取得
+     */
+    get costs() {
+        return {
+            min: this.config.costs.min,
+            max: this.config.costs.max,
+            lowThreshold: this.config.costs.lowThreshold,
+            highThreshold: this.config.costs.highThreshold,
+        };
+    }
+
     /**
      * UI設定を取得
      */
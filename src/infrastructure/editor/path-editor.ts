@@ -0,0 +1,367 @@
+import type { EnemyType } from "../../domain/value-objects/enemy-type";
+import { MovementPath } from "../../domain/value-objects/movement-path";
+import { Position } from "../../domain/value-objects/position";
+import { Rectangle } from "../../domain/value-objects/rectangle";
+import {
+  JsonPathConfigRepository,
+  type MapConfig,
+  type PathDifficulty,
+  type PathsFileData,
+} from "../repositories/json-path-config-repository";
+
+/**
+ * 編集中のパス
+ */
+export interface EditorPath {
+  id: string;
+  name: string;
+  description: string;
+  difficulty: PathDifficulty;
+  points: Position[];
+}
+
+/**
+ * 敵タイプごとの移動時間の見積もり
+ */
+export interface TraversalEstimate {
+  enemyType: string;
+  displayName: string;
+  seconds: number;
+}
+
+/**
+ * マップ・パスエディター
+ * config/paths.json の内容を読み込み、選択中のパスの地点（生成地点・中間地点・基地地点）を編集する
+ * 地点は編集範囲内の整数座標に丸められる。マップ設定は読み込んだまま書き出す
+ */
+export class PathEditor {
+  static readonly DEFAULT_BOUNDS = new Rectangle(0, 60, 800, 420); // 800x600のキャンバスのゲームフィールド
+  static readonly WAYPOINT_HIT_RADIUS = 10;
+
+  private _paths: EditorPath[];
+  private readonly _maps: MapConfig[];
+  private readonly _defaultMapId: string;
+  private _selectedPathId: string | null;
+  private _isDirty = false;
+
+  constructor(
+    data: PathsFileData,
+    public readonly bounds: Rectangle = PathEditor.DEFAULT_BOUNDS
+  ) {
+    const invalidPath = data.movementPaths.find((path) => path.pathPoints.length < 2);
+    if (invalidPath) {
+      throw new Error(`${invalidPath.id}: パスには2つ以上の地点が必要です`);
+    }
+
+    this._paths = data.movementPaths.map((path) => ({
+      id: path.id,
+      name: path.name,
+      description: path.description,
+      difficulty: path.difficulty as PathDifficulty,
+      points: path.pathPoints.map((point) => new Position(point.x, point.y)),
+    }));
+    this._maps = data.maps.map((map) => ({
+      ...map,
+      lanes: map.lanes.map((lane) => ({ ...lane })),
+    }));
+    this._defaultMapId = data.defaultMapId;
+    this._selectedPathId = this._paths[0]?.id ?? null;
+  }
+
+  /**
+   * paths.json 形式のJSON文字列からエディターを作成する
+   */
+  static fromJson(json: string, bounds?: Rectangle): PathEditor {
+    let data: PathsFileData;
+    try {
+      data = JSON.parse(json) as PathsFileData;
+    } catch (error) {
+      throw new Error(
+        `パス設定のJSONを読み込めません: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+    if (!Array.isArray(data?.movementPaths) || !Array.isArray(data?.maps)) {
+      throw new Error("パス設定のJSONを読み込めません: movementPaths と maps が必要です");
+    }
+
+    return new PathEditor(data, bounds);
+  }
+
+  /**
+   * すべてのパス
+   */
+  get paths(): EditorPath[] {
+    return this._paths.map((path) => ({ ...path, points: [...path.points] }));
+  }
+
+  /**
+   * 選択中のパス
+   */
+  get selectedPath(): EditorPath | null {
+    return this.paths.find((path) => path.id === this._selectedPathId) ?? null;
+  }
+
+  /**
+   * 保存されていない変更があるかどうか
+   */
+  get isDirty(): boolean {
+    return this._isDirty;
+  }
+
+  /**
+   * 編集するパスを選択
+   */
+  selectPath(pathId: string): void {
+    this.findPath(pathId);
+    this._selectedPathId = pathId;
+  }
+
+  /**
+   * 新しいパスを追加して選択する（フィールドの左端から右端へ進む直線）
+   * @returns 追加したパスのID
+   */
+  addPath(): string {
+    let index = this._paths.length + 1;
+    while (this._paths.some((path) => path.id === `path_${index}`)) {
+      index++;
+    }
+
+    const centerY = Math.round(this.bounds.y + this.bounds.height / 2);
+    const id = `path_${index}`;
+    this._paths.push({
+      id,
+      name: `新しいパス${index}`,
+      description: "",
+      difficulty: "MEDIUM",
+      points: [
+        new Position(this.bounds.x, centerY),
+        new Position(this.bounds.x + this.bounds.width, centerY),
+      ],
+    });
+    this._selectedPathId = id;
+    this._isDirty = true;
+    return id;
+  }
+
+  /**
+   * パスを削除する（マップのレーンで使用中のパスは削除できない）
+   */
+  removePath(pathId: string): void {
+    this.findPath(pathId);
+    const usedBy = this._maps.filter((map) => map.lanes.some((lane) => lane.pathId === pathId));
+    if (usedBy.length > 0) {
+      throw new Error(
+        `マップで使用中のパスは削除できません: ${usedBy.map((map) => map.name).join(", ")}`
+      );
+    }
+
+    this._paths = this._paths.filter((path) => path.id !== pathId);
+    if (this._selectedPathId === pathId) {
+      this._selectedPathId = this._paths[0]?.id ?? null;
+    }
+    this._isDirty = true;
+  }
+
+  /**
+   * 選択中のパスの名前と説明を変更
+   */
+  rename(name: string, description?: string): void {
+    if (!name.trim()) {
+      throw new Error("パス名は空であってはいけません");
+    }
+    this.updateSelected((path) => ({
+      ...path,
+      name,
+      description: description ?? path.description,
+    }));
+  }
+
+  /**
+   * 選択中のパスの難易度を変更
+   */
+  setDifficulty(difficulty: PathDifficulty): void {
+    this.updateSelected((path) => ({ ...path, difficulty }));
+  }
+
+  /**
+   * 指定位置にある地点のインデックスを取得
+   * @returns 見つからない場合はnull
+   */
+  findWaypoint(position: Position, radius = PathEditor.WAYPOINT_HIT_RADIUS): number | null {
+    const points = this.requireSelected().points;
+    let nearest: number | null = null;
+    let nearestDistance = radius;
+
+    points.forEach((point, index) => {
+      const distance = point.distanceTo(position);
+      if (distance <= nearestDistance) {
+        nearest = index;
+        nearestDistance = distance;
+      }
+    });
+
+    return nearest;
+  }
+
+  /**
+   * 最も近い区間に中間地点を挿入する
+   * @returns 挿入した地点のインデックス
+   */
+  insertWaypoint(position: Position): number {
+    const points = this.requireSelected().points;
+    const point = this.toEditorPosition(position);
+
+    let insertAt = 1;
+    let nearestDistance = Number.POSITIVE_INFINITY;
+    for (let i = 1; i < points.length; i++) {
+      const segment = new MovementPath([points[i - 1] as Position, points[i] as Position]);
+      const distance = segment.distanceToPoint(point);
+      if (distance < nearestDistance) {
+        insertAt = i;
+        nearestDistance = distance;
+      }
+    }
+
+    this.updateSelected((path) => ({
+      ...path,
+      points: [...path.points.slice(0, insertAt), point, ...path.points.slice(insertAt)],
+    }));
+    return insertAt;
+  }
+
+  /**
+   * 地点を移動する
+   */
+  moveWaypoint(index: number, position: Position): void {
+    const points = this.requireSelected().points;
+    if (index < 0 || index >= points.length) {
+      throw new Error(`地点が見つかりません: ${index}`);
+    }
+
+    const point = this.toEditorPosition(position);
+    this.updateSelected((path) => ({
+      ...path,
+      points: path.points.map((current, i) => (i === index ? point : current)),
+    }));
+  }
+
+  /**
+   * 地点を削除する（生成地点と基地地点の2つは残す）
+   */
+  removeWaypoint(index: number): void {
+    const points = this.requireSelected().points;
+    if (index < 0 || index >= points.length) {
+      throw new Error(`地点が見つかりません: ${index}`);
+    }
+    if (points.length <= 2) {
+      throw new Error("パスには2つ以上の地点が必要です");
+    }
+
+    this.updateSelected((path) => ({ ...path, points: path.points.filter((_, i) => i !== index) }));
+  }
+
+  /**
+   * 生成地点を設定
+   */
+  setSpawnPoint(position: Position): void {
+    this.moveWaypoint(0, position);
+  }
+
+  /**
+   * 基地地点を設定
+   */
+  setBasePoint(position: Position): void {
+    this.moveWaypoint(this.requireSelected().points.length - 1, position);
+  }
+
+  /**
+   * 選択中のパスの移動経路
+   */
+  getMovementPath(): MovementPath {
+    return new MovementPath(this.requireSelected().points);
+  }
+
+  /**
+   * 選択中のパスを各敵タイプが通過するまでの時間を見積もる
+   */
+  estimateTraversal(enemyTypes: EnemyType[]): TraversalEstimate[] {
+    const path = this.getMovementPath();
+
+    return enemyTypes.map((enemyType) => ({
+      enemyType: enemyType.name,
+      displayName: enemyType.getDisplayName(),
+      seconds: path.getTotalTravelTime(enemyType.getBaseStats().movementSpeed) / 1000,
+    }));
+  }
+
+  /**
+   * 編集内容を検証する
+   * @returns エラーメッセージの配列（問題がなければ空）
+   */
+  validate(): string[] {
+    try {
+      new JsonPathConfigRepository(this.toFileData());
+      return [];
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return message.split("\n").slice(1);
+    }
+  }
+
+  /**
+   * paths.json の形式で書き出す
+   */
+  toFileData(): PathsFileData {
+    return {
+      movementPaths: this._paths.map((path) =>
+        JsonPathConfigRepository.toPathData({ ...path, pathPoints: path.points })
+      ),
+      defaultMapId: this._defaultMapId,
+      maps: this._maps,
+    };
+  }
+
+  /**
+   * paths.json 形式のJSON文字列に書き出す
+   */
+  toJson(): string {
+    return `${JSON.stringify(this.toFileData(), null, 2)}\n`;
+  }
+
+  /**
+   * 保存済みとして記録する
+   */
+  markSaved(): void {
+    this._isDirty = false;
+  }
+
+  /**
+   * 座標を編集範囲内の整数座標に丸める
+   */
+  private toEditorPosition(position: Position): Position {
+    const x = Math.min(Math.max(position.x, this.bounds.x), this.bounds.x + this.bounds.width);
+    const y = Math.min(Math.max(position.y, this.bounds.y), this.bounds.y + this.bounds.height);
+    return new Position(Math.round(x), Math.round(y));
+  }
+
+  private findPath(pathId: string): EditorPath {
+    const path = this._paths.find((current) => current.id === pathId);
+    if (!path) {
+      throw new Error(`パスが見つかりません: ${pathId}`);
+    }
+    return path;
+  }
+
+  private requireSelected(): EditorPath {
+    if (!this._selectedPathId) {
+      throw new Error("パスが選択されていません");
+    }
+    return this.findPath(this._selectedPathId);
+  }
+
+  private updateSelected(update: (path: EditorPath) => EditorPath): void {
+    const selected = this.requireSelected();
+    this._paths = this._paths.map((path) => (path.id === selected.id ? update(path) : path));
+    this._isDirty = true;
+  }
+}
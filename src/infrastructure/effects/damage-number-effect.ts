@@ -16,6 +16,7 @@ export interface DamageNumberConfig {
   fadeInDuration: number;
   fadeOutDuration: number;
   isCritical?: boolean;
+  isResisted?: boolean; // 装甲・耐性で軽減された場合は小さく表示し▼を付ける
 }
 
 /**
@@ -139,7 +140,10 @@ export class DamageNumberEffect extends Effect {
     if (!this.isActive || this.currentAlpha <= 0) return;
 
     const text = this.formatDamageText();
-    const fontSize = this.config.isCritical ? this.config.fontSize * 1.5 : this.config.fontSize;
+    let fontSize = this.config.isCritical ? this.config.fontSize * 1.5 : this.config.fontSize;
+    if (this.config.isResisted) {
+      fontSize *= 0.8;
+    }
     
     const textStyle: TextStyle = {
       font: `bold ${fontSize}px Arial`,
@@ -189,9 +193,13 @@ export class DamageNumberEffect extends Effect {
    * ダメージテキストをフォーマット
    */
   private formatDamageText(): string {
+    let text = this.damageValue.toString();
     if (this.config.isCritical) {
-      return `${this.damageValue}!`;
+      text += "!";
+    }
+    if (this.config.isResisted) {
+      text += "▼";
     }
-    return this.damageValue.toString();
+    return text;
   }
 }
\ No newline at end of file
@@ -2,6 +2,7 @@ import { Effect } from "./effect";
 import { Position } from "../../domain/value-objects/position";
 import { Color } from "../../domain/value-objects/color";
 import { RenderingService } from "../../domain/services/rendering-service";
+import type { RandomSource } from "../../domain/services/random-service";
 
 /**
  * パーティクル情報
@@ -39,16 +40,19 @@ export class ParticleEffect extends Effect {
   private readonly renderingService: RenderingService;
   private readonly particles: Particle[] = [];
   private readonly config: ParticleConfig;
+  private readonly random: RandomSource;
 
   constructor(
     position: Position,
     duration: number,
     renderingService: RenderingService,
-    config: ParticleConfig
+    config: ParticleConfig,
+    random: RandomSource = Math.random
   ) {
     super(position, duration);
     this.renderingService = renderingService;
     this.config = config;
+    this.random = random;
     this.initializeParticles();
     
     // パーティクル数が0の場合は即座に非アクティブに
@@ -63,10 +67,10 @@ export class ParticleEffect extends Effect {
   private initializeParticles(): void {
     for (let i = 0; i < this.config.particleCount; i++) {
       const angle = (Math.PI * 2 * i) / this.config.particleCount + 
-                   (Math.random() - 0.5) * (this.config.spread || Math.PI / 4);
+                   (this.random() - 0.5) * (this.config.spread || Math.PI / 4);
       
       const speed = this.config.minVelocity + 
-                   Math.random() * (this.config.maxVelocity - this.config.minVelocity);
+                   this.random() * (this.config.maxVelocity - this.config.minVelocity);
       
       const velocity = new Position(
         Math.cos(angle) * speed,
@@ -74,12 +78,12 @@ export class ParticleEffect extends Effect {
       );
 
       const life = this.config.minLife + 
-                  Math.random() * (this.config.maxLife - this.config.minLife);
+                  this.random() * (this.config.maxLife - this.config.minLife);
       
       const size = this.config.minSize + 
-                  Math.random() * (this.config.maxSize - this.config.minSize);
+                  this.random() * (this.config.maxSize - this.config.minSize);
       
-      const color = this.config.colors[Math.floor(Math.random() * this.config.colors.length)];
+      const color = this.config.colors[Math.floor(this.random() * this.config.colors.length)];
 
       this.particles.push({
         position: new Position(this.position.x, this.position.y),
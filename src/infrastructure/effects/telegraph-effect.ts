@@ -0,0 +1,90 @@
+import type { RenderingService, TextStyle } from "../../domain/services/rendering-service";
+import { Color } from "../../domain/value-objects/color";
+import { Position } from "../../domain/value-objects/position";
+import { Effect } from "./effect";
+
+/**
+ * 予兆エフェクト設定
+ */
+export interface TelegraphConfig {
+  radius: number;
+  color: Color;
+  label?: string;
+}
+
+/**
+ * 予兆エフェクト実装
+ * ボスの行動が発動する範囲を警告円で示し、発動までの残り時間に合わせて内側から塗りつぶす
+ */
+export class TelegraphEffect extends Effect {
+  private readonly renderingService: RenderingService;
+  private readonly config: TelegraphConfig;
+
+  constructor(
+    position: Position,
+    duration: number,
+    renderingService: RenderingService,
+    config: TelegraphConfig
+  ) {
+    super(position, duration);
+
+    this.renderingService = renderingService;
+    this.config = config;
+  }
+
+  /**
+   * 警告円の半径を取得
+   */
+  get radius(): number {
+    return this.config.radius;
+  }
+
+  /**
+   * 表示するラベルを取得
+   */
+  get label(): string | undefined {
+    return this.config.label;
+  }
+
+  /**
+   * 警告円を描画
+   */
+  render(context: CanvasRenderingContext2D, _deltaTime: number): void {
+    if (!this.isActive) return;
+
+    const { color, radius } = this.config;
+    const progress = this.progress;
+
+    // 発動する範囲（点滅する枠線）
+    const blink = 0.6 + 0.4 * Math.abs(Math.sin(progress * Math.PI * 6));
+    this.renderingService.renderCircle(
+      context,
+      this.position,
+      radius,
+      new Color(color.r, color.g, color.b, 0.15),
+      new Color(color.r, color.g, color.b, blink),
+      2
+    );
+
+    // 発動までの残り時間（内側から広がる円）
+    if (progress > 0) {
+      this.renderingService.renderCircle(
+        context,
+        this.position,
+        radius * progress,
+        new Color(color.r, color.g, color.b, 0.3)
+      );
+    }
+
+    if (this.config.label) {
+      const textStyle: TextStyle = {
+        font: "bold 14px Arial",
+        color: new Color(color.r, color.g, color.b, blink),
+        align: "center",
+        baseline: "bottom",
+      };
+      const labelPosition = new Position(this.position.x, this.position.y - radius - 4);
+      this.renderingService.renderText(context, `⚠ ${this.config.label}`, labelPosition, textStyle);
+    }
+  }
+}
@@ -1,5 +1,13 @@
-import { EnemyType } from "../../domain/value-objects/enemy-type";
-import { WaveConfiguration } from "../../domain/value-objects/wave-configuration";
+import enemiesData from "../../../config/enemies.json";
+import wavesData from "../../../config/waves.json";
+import type { IWaveConfigurationRepository } from "../../domain/repositories/wave-configuration-repository";
+import type { EnemyAbility } from "../../domain/value-objects/enemy-ability";
+import type { EnemyType, EnemyTypesFileData } from "../../domain/value-objects/enemy-type";
+import { EnemyTypeRegistry } from "../../domain/value-objects/enemy-type-registry";
+import {
+  WaveConfiguration,
+  type WavesFileData,
+} from "../../domain/value-objects/wave-configuration";
 
 /**
  * 敵設定データの型定義
@@ -7,12 +15,17 @@ import { WaveConfiguration } from "../../domain/value-objects/wave-configuration
 export interface EnemyTypeConfig {
   displayName: string;
   description: string;
+  rank: string;
   baseStats: {
     health: number;
     attackPower: number;
     movementSpeed: number;
+    attackRange?: number;
+    attackInterval?: number;
   };
+  scoreValue: number;
   imageUrl: string;
+  abilities?: EnemyAbility[];
 }
 
 export interface GameSettings {
@@ -33,14 +46,23 @@ export interface BalanceSettings {
 /**
  * JSON形式の敵設定リポジトリ
  */
-export class JsonEnemyConfigRepository {
+export class JsonEnemyConfigRepository implements IWaveConfigurationRepository {
   private enemyConfigs: Map<EnemyType, EnemyTypeConfig> = new Map();
+  private registry: EnemyTypeRegistry | null = null;
   private waveConfiguration: WaveConfiguration | null = null;
   private gameSettings: GameSettings | null = null;
   private balanceSettings: BalanceSettings | null = null;
   private isLoaded = false;
 
-  constructor() {
+  /**
+   * @param source 敵タイプ設定（省略時は config/enemies.json）
+   * @param wavesSource 波設定（省略時は config/waves.json）
+   * 読み込んだ敵タイプは enemyTypes のレジストリにまとめられる。不正な設定の場合は例外を投げる
+   */
+  constructor(
+    private readonly source: EnemyTypesFileData = enemiesData,
+    private readonly wavesSource: WavesFileData = wavesData
+  ) {
     this.initializeDefaultConfigs();
   }
 
@@ -49,71 +71,38 @@ export class JsonEnemyConfigRepository {
    */
   private initializeDefaultConfigs(): void {
     // 敵タイプ設定
-    this.enemyConfigs.set(EnemyType.BASIC, {
-      displayName: "基本敵",
-      description: "バランスの取れた標準的な敵",
-      baseStats: {
-        health: 100,
-        attackPower: 50,
-        movementSpeed: 100,
-      },
-      imageUrl: "/images/enemies/basic.png",
-    });
-
-    this.enemyConfigs.set(EnemyType.RANGED, {
-      displayName: "遠距離攻撃敵",
-      description: "体力は低いが遠距離攻撃が可能",
-      baseStats: {
-        health: 70,
-        attackPower: 50,
-        movementSpeed: 100,
-      },
-      imageUrl: "/images/enemies/ranged.png",
-    });
-
-    this.enemyConfigs.set(EnemyType.FAST, {
-      displayName: "高速敵",
-      description: "素早く移動するが体力と攻撃力が低い",
-      baseStats: {
-        health: 60,
-        attackPower: 30,
-        movementSpeed: 150,
-      },
-      imageUrl: "/images/enemies/fast.png",
-    });
-
-    this.enemyConfigs.set(EnemyType.ENHANCED, {
-      displayName: "強化敵",
-      description: "基本敵より強化されたバージョン",
-      baseStats: {
-        health: 150,
-        attackPower: 70,
-        movementSpeed: 90,
-      },
-      imageUrl: "/images/enemies/enhanced.png",
-    });
-
-    this.enemyConfigs.set(EnemyType.BOSS, {
-      displayName: "ボス敵",
-      description: "最強の体力と攻撃力を持つが移動が遅い",
-      baseStats: {
-        health: 300,
-        attackPower: 100,
-        movementSpeed: 60,
-      },
-      imageUrl: "/images/enemies/boss.png",
-    });
+    this.enemyConfigs = new Map();
+    this.registry = EnemyTypeRegistry.load(this.source);
+    for (const enemyType of this.registry.getAll()) {
+      const stats = enemyType.getBaseStats();
+      this.enemyConfigs.set(enemyType, {
+        displayName: enemyType.getDisplayName(),
+        description: enemyType.getDescription(),
+        rank: enemyType.getRank(),
+        baseStats: {
+          health: stats.health,
+          attackPower: stats.attackPower,
+          movementSpeed: stats.movementSpeed,
+          ...(enemyType.canAttackTowers()
+            ? { attackRange: stats.attackRange, attackInterval: stats.attackInterval }
+            : {}),
+        },
+        scoreValue: stats.scoreValue,
+        imageUrl: enemyType.getImageUrl(),
+        ...(enemyType.getAbilities().length > 0 ? { abilities: enemyType.getAbilities() } : {}),
+      });
+    }
 
-    // 波設定
-    this.waveConfiguration = WaveConfiguration.createDefault();
+    // 波設定（敵タイプ名は読み込んだレジストリから引く）
+    this.waveConfiguration = WaveConfiguration.load(this.wavesSource, this.registry);
 
     // ゲーム設定
     this.gameSettings = {
       playerBaseHealth: 1000,
       averageTowerAttackPower: 50,
       pathTravelTime: 10000,
-      waveInterval: 30000,
-      enemySpawnInterval: 1000,
+      waveInterval: this.waveConfiguration.waveInterval,
+      enemySpawnInterval: this.waveConfiguration.spawnInterval,
     };
 
     // バランス設定
@@ -127,6 +116,18 @@ export class JsonEnemyConfigRepository {
     this.isLoaded = true;
   }
 
+  /**
+   * 読み込んだ敵タイプのレジストリ
+   * ゲームセッション・波設定・エディターにはこのレジストリを渡す
+   */
+  get enemyTypes(): EnemyTypeRegistry {
+    if (!this.registry) {
+      throw new Error("Enemy types not loaded");
+    }
+
+    return this.registry;
+  }
+
   /**
    * 敵タイプの設定を取得する
    * @param enemyType 敵タイプ
@@ -242,11 +243,9 @@ export class JsonEnemyConfigRepository {
   }
 
   /**
-   * ファイルから設定を読み込む（将来の実装用）
+   * 設定ファイルから設定を読み込む
    */
   private async loadFromFiles(): Promise<void> {
-    // 現在はデフォルト設定を使用
-    // 将来的にはJSONファイルから読み込む実装を追加
     this.initializeDefaultConfigs();
   }
 
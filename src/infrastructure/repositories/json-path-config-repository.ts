@@ -1,11 +1,26 @@
+import pathsData from "../../../config/paths.json";
+import type { RandomSource } from "../../domain/services/random-service";
+import { GameMap } from "../../domain/value-objects/game-map";
+import { Lane } from "../../domain/value-objects/lane";
 import { MovementPath } from "../../domain/value-objects/movement-path";
 import { Position } from "../../domain/value-objects/position";
+import { TileGrid, type TileGridData } from "../../domain/value-objects/tile-grid";
 
 /**
  * パス難易度の型定義
  */
 export type PathDifficulty = "EASY" | "MEDIUM" | "HARD";
 
+/**
+ * すべてのパス難易度
+ */
+export const PATH_DIFFICULTIES: PathDifficulty[] = ["EASY", "MEDIUM", "HARD"];
+
+/**
+ * パス設定の保存先（開発サーバーの保存エンドポイント）
+ */
+export const PATHS_SAVE_ENDPOINT = "/api/paths";
+
 /**
  * パス設定データの型定義
  */
@@ -18,75 +33,226 @@ export interface PathConfig {
   isDefault: boolean;
 }
 
+/**
+ * マップのレーン設定（使用するパスと出現比重）
+ */
+export interface MapLaneConfig {
+  pathId: string;
+  spawnWeight: number;
+}
+
+/**
+ * マップ設定データの型定義
+ * grid を省略した場合、地形は戦場全体を地面のタイルで敷き詰めたものになる
+ */
+export interface MapConfig {
+  id: string;
+  name: string;
+  description: string;
+  lanes: MapLaneConfig[];
+  grid?: TileGridData;
+}
+
+/**
+ * パス設定ファイル（config/paths.json）の形式
+ */
+export interface PathsFileData {
+  movementPaths: {
+    id: string;
+    name: string;
+    description: string;
+    difficulty: string;
+    spawnPoint?: { x: number; y: number }; // pathPoints の先頭と同じ（参照用）
+    basePoint?: { x: number; y: number }; // pathPoints の末尾と同じ（参照用）
+    pathPoints: { x: number; y: number }[];
+  }[];
+  defaultMapId: string;
+  maps: MapConfig[];
+}
+
 /**
  * JSON形式のパス設定リポジトリ
  */
 export class JsonPathConfigRepository {
   private pathConfigs: Map<string, PathConfig> = new Map();
   private movementPaths: Map<string, MovementPath> = new Map();
+  private mapConfigs: Map<string, MapConfig> = new Map();
   private isLoaded = false;
 
-  constructor() {
+  /**
+   * @param source パス・マップ設定（省略時は config/paths.json）
+   * 不正な設定の場合は例外を投げる
+   */
+  constructor(private readonly source: PathsFileData = pathsData) {
     this.initializeDefaultPaths();
   }
 
   /**
-   * デフォルトパスを初期化する
+   * 設定ファイルのパスとマップを初期化する
    */
   private initializeDefaultPaths(): void {
-    const defaultPaths: PathConfig[] = [
-      {
-        id: "path_1",
-        name: "北側パス",
-        description: "画面上部を通る標準的なルート",
-        difficulty: "MEDIUM",
-        pathPoints: [
-          new Position(0, 200),
-          new Position(200, 150),
-          new Position(400, 200),
-          new Position(600, 300),
-          new Position(800, 400),
-        ],
-        isDefault: true,
-      },
-      {
-        id: "path_2",
-        name: "南側パス",
-        description: "画面下部を通る迂回ルート",
-        difficulty: "EASY",
-        pathPoints: [
-          new Position(0, 600),
-          new Position(200, 650),
-          new Position(400, 600),
-          new Position(600, 500),
-          new Position(800, 400),
-        ],
-        isDefault: true,
-      },
-      {
-        id: "path_3",
-        name: "中央パス",
-        description: "画面中央を直進する最短ルート",
-        difficulty: "HARD",
-        pathPoints: [
-          new Position(0, 400),
-          new Position(200, 380),
-          new Position(400, 420),
-          new Position(600, 380),
-          new Position(800, 400),
-        ],
-        isDefault: true,
-      },
-    ];
-
-    for (const pathConfig of defaultPaths) {
-      this.pathConfigs.set(pathConfig.id, pathConfig);
-      this.movementPaths.set(pathConfig.id, new MovementPath(pathConfig.pathPoints));
+    const errors = this.validatePathConfigs(this.source.movementPaths);
+    if (errors.length === 0) {
+      for (const path of this.source.movementPaths) {
+        const pathConfig: PathConfig = {
+          id: path.id,
+          name: path.name,
+          description: path.description,
+          difficulty: path.difficulty as PathDifficulty,
+          pathPoints: path.pathPoints.map((point) => new Position(point.x, point.y)),
+          isDefault: true,
+        };
+        this.pathConfigs.set(pathConfig.id, pathConfig);
+        this.movementPaths.set(pathConfig.id, new MovementPath(pathConfig.pathPoints));
+      }
+      errors.push(...this.validateMapConfigs(this.source.maps ?? []));
+    }
+
+    if (errors.length > 0) {
+      throw new Error(`パス設定の読み込みに失敗しました:\n${errors.join("\n")}`);
+    }
+    for (const mapConfig of this.source.maps) {
+      this.mapConfigs.set(mapConfig.id, mapConfig);
     }
 
     this.isLoaded = true;
   }
 
+  /**
+   * パス設定を検証する
+   * @returns エラーメッセージの配列（問題がなければ空）
+   */
+  private validatePathConfigs(paths: PathsFileData["movementPaths"]): string[] {
+    const errors: string[] = [];
+    const pathIds = new Set<string>();
+
+    for (const path of paths) {
+      if (pathIds.has(path.id)) {
+        errors.push(`パスIDが重複しています: ${path.id}`);
+      }
+      pathIds.add(path.id);
+
+      if (!PATH_DIFFICULTIES.includes(path.difficulty as PathDifficulty)) {
+        errors.push(`${path.id}: 不明な難易度です: ${path.difficulty}`);
+      }
+
+      // 座標が有限の数値でない地点があると、経路の長さや敵の位置が NaN になる
+      const invalidIndex = path.pathPoints.findIndex(
+        (point) => !Number.isFinite(point?.x) || !Number.isFinite(point?.y)
+      );
+      if (invalidIndex >= 0) {
+        errors.push(`${path.id}: 地点${invalidIndex + 1}の座標が有限の数値ではありません`);
+        continue;
+      }
+
+      const first = path.pathPoints[0];
+      const last = path.pathPoints[path.pathPoints.length - 1];
+      if (!first || !last || path.pathPoints.length < 2) {
+        errors.push(`${path.id}: パスには2つ以上の地点が必要です`);
+      } else if (first.x === last.x && first.y === last.y) {
+        errors.push(`${path.id}: 生成地点と基地地点が同じです`);
+      }
+    }
+
+    return errors;
+  }
+
+  /**
+   * マップ設定を検証する
+   * @returns エラーメッセージの配列（問題がなければ空）
+   */
+  private validateMapConfigs(maps: MapConfig[]): string[] {
+    const errors: string[] = [];
+
+    if (maps.length === 0) {
+      errors.push("マップが定義されていません");
+    }
+    for (const map of maps) {
+      if (map.lanes.length === 0) {
+        errors.push(`${map.id}: レーンが定義されていません`);
+      }
+      for (const lane of map.lanes) {
+        if (!this.pathConfigs.has(lane.pathId)) {
+          errors.push(`${map.id}: 未定義のパスです: ${lane.pathId}`);
+        }
+        if (!(lane.spawnWeight > 0)) {
+          errors.push(`${map.id}: 出現比重は正の値である必要があります: ${lane.pathId}`);
+        }
+      }
+      if (map.grid) {
+        try {
+          TileGrid.parse(map.grid);
+        } catch (error) {
+          errors.push(`${map.id}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+      }
+    }
+    if (maps.length > 0 && !maps.some((map) => map.id === this.source.defaultMapId)) {
+      errors.push(`既定のマップが見つかりません: ${this.source.defaultMapId}`);
+    }
+
+    return errors;
+  }
+
+  /**
+   * すべてのマップを取得する
+   * @returns マップの配列
+   */
+  async getAllMaps(): Promise<GameMap[]> {
+    await this.ensureLoaded();
+    return Array.from(this.mapConfigs.values()).map((mapConfig) => this.toGameMap(mapConfig));
+  }
+
+  /**
+   * IDでマップを取得する
+   * @param mapId マップID
+   * @returns マップ、見つからない場合はnull
+   */
+  async getMapById(mapId: string): Promise<GameMap | null> {
+    await this.ensureLoaded();
+    const mapConfig = this.mapConfigs.get(mapId);
+    return mapConfig ? this.toGameMap(mapConfig) : null;
+  }
+
+  /**
+   * 既定のマップを取得する
+   * @returns 既定のマップ
+   */
+  async getDefaultMap(): Promise<GameMap> {
+    const gameMap = await this.getMapById(this.source.defaultMapId);
+    if (!gameMap) {
+      throw new Error(`既定のマップが見つかりません: ${this.source.defaultMapId}`);
+    }
+    return gameMap;
+  }
+
+  /**
+   * マップ設定を取得する
+   * @param mapId マップID
+   * @returns マップ設定、見つからない場合はnull
+   */
+  async getMapConfig(mapId: string): Promise<MapConfig | null> {
+    await this.ensureLoaded();
+    return this.mapConfigs.get(mapId) || null;
+  }
+
+  /**
+   * マップ設定からマップを組み立てる（レーンは現在のパス設定を参照する）
+   */
+  private toGameMap(mapConfig: MapConfig): GameMap {
+    const lanes = mapConfig.lanes.map((laneConfig) => {
+      const pathConfig = this.pathConfigs.get(laneConfig.pathId);
+      const movementPath = this.movementPaths.get(laneConfig.pathId);
+      if (!pathConfig || !movementPath) {
+        throw new Error(`マップ ${mapConfig.id} のパスが見つかりません: ${laneConfig.pathId}`);
+      }
+      return new Lane(pathConfig.id, pathConfig.name, movementPath, laneConfig.spawnWeight);
+    });
+
+    const terrain = mapConfig.grid ? TileGrid.parse(mapConfig.grid) : null;
+    return new GameMap(mapConfig.id, mapConfig.name, lanes, terrain);
+  }
+
   /**
    * すべての移動パスを取得する
    * @returns 移動パスの配列
@@ -108,12 +274,13 @@ export class JsonPathConfigRepository {
 
   /**
    * ランダムな移動パスを取得する
+   * @param random 乱数生成関数
    * @returns ランダムな移動パス
    */
-  async getRandomPath(): Promise<MovementPath> {
+  async getRandomPath(random: RandomSource = Math.random): Promise<MovementPath> {
     await this.ensureLoaded();
     const paths = Array.from(this.movementPaths.values());
-    const randomIndex = Math.floor(Math.random() * paths.length);
+    const randomIndex = Math.floor(random() * paths.length);
     return paths[randomIndex];
   }
 
@@ -349,20 +516,88 @@ export class JsonPathConfigRepository {
   }
 
   /**
-   * ファイルから設定を読み込む（将来の実装用）
+   * 設定ファイルから読み込む
    */
   private async loadFromFiles(): Promise<void> {
-    // 現在はデフォルト設定を使用
-    // 将来的にはJSONファイルから読み込む実装を追加
     this.initializeDefaultPaths();
   }
 
   /**
-   * 設定をファイルに保存する（将来の実装用）
+   * 現在のパス・マップ設定を config/paths.json の形式で書き出す
+   * 設定ファイルの形式にない項目は書き出さない
+   * @returns パス設定ファイルのデータ
+   */
+  async exportFileData(): Promise<PathsFileData> {
+    await this.ensureLoaded();
+
+    return {
+      movementPaths: Array.from(this.pathConfigs.values()).map((pathConfig) =>
+        JsonPathConfigRepository.toPathData(pathConfig)
+      ),
+      defaultMapId: this.source.defaultMapId,
+      maps: Array.from(this.mapConfigs.values()).map((mapConfig) =>
+        JsonPathConfigRepository.toMapData(mapConfig)
+      ),
+    };
+  }
+
+  /**
+   * マップ設定を config/paths.json のマップ定義の形式に変換する
+   */
+  private static toMapData(mapConfig: MapConfig): MapConfig {
+    const { id, name, description, lanes, grid } = mapConfig;
+    return {
+      id,
+      name,
+      description,
+      lanes: lanes.map(({ pathId, spawnWeight }) => ({ pathId, spawnWeight })),
+      ...(grid && {
+        grid: {
+          tileSize: grid.tileSize,
+          origin: { x: grid.origin.x, y: grid.origin.y },
+          rows: [...grid.rows],
+        },
+      }),
+    };
+  }
+
+  /**
+   * パス設定を config/paths.json のパス定義の形式に変換する
    */
-  async saveToFiles(): Promise<void> {
-    // 将来的にはJSONファイルに保存する実装を追加
-    console.log("Path configurations saved (placeholder implementation)");
+  static toPathData(
+    pathConfig: Omit<PathConfig, "isDefault">
+  ): PathsFileData["movementPaths"][number] {
+    const points = pathConfig.pathPoints.map((point) => ({ x: point.x, y: point.y }));
+    const [spawnPoint] = points;
+    const basePoint = points[points.length - 1];
+
+    return {
+      id: pathConfig.id,
+      name: pathConfig.name,
+      description: pathConfig.description,
+      difficulty: pathConfig.difficulty,
+      spawnPoint,
+      basePoint,
+      pathPoints: points,
+    };
+  }
+
+  /**
+   * 設定を開発サーバー経由で config/paths.json に保存する
+   * @param endpoint 保存エンドポイント（デフォルト: /api/paths）
+   */
+  async saveToFiles(endpoint = PATHS_SAVE_ENDPOINT): Promise<void> {
+    const data = await this.exportFileData();
+    const response = await fetch(endpoint, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(data),
+    });
+
+    if (!response.ok) {
+      const message = await response.text();
+      throw new Error(`パス設定の保存に失敗しました (${response.status}): ${message}`);
+    }
   }
 
   /**
@@ -372,6 +607,7 @@ export class JsonPathConfigRepository {
     this.isLoaded = false;
     this.pathConfigs.clear();
     this.movementPaths.clear();
+    this.mapConfigs.clear();
     await this.ensureLoaded();
   }
 
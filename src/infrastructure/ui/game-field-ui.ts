@@ -1,6 +1,8 @@
 import { Rectangle } from "../../domain/value-objects/rectangle";
 import { Position } from "../../domain/value-objects/position";
 import { Color } from "../../domain/value-objects/color";
+import type { TileGrid } from "../../domain/value-objects/tile-grid";
+import { TileType } from "../../domain/value-objects/tile-type";
 import { RenderingService, TextStyle } from "../../domain/services/rendering-service";
 import { Enemy, Tower } from "../../domain/entities/ui-manager";
 import { GameConfig } from "../config/game-config";
@@ -18,7 +20,8 @@ export class GameFieldUI {
   private _towers: Tower[] = [];
   private _selectedTower: Tower | null = null;
   private _showRange = false;
-  private _movementPath: Position[] = [];
+  private _movementPaths: Position[][] = [];
+  private _tileGrid: TileGrid | null = null;
 
   // タワーサイズとレンジの定義
   private readonly towerSize = 24;
@@ -80,10 +83,31 @@ export class GameFieldUI {
   }
 
   /**
-   * 移動パス情報を更新
+   * 移動パス情報を更新（単一レーン）
    */
   updateMovementPath(pathPoints: Position[]): void {
-    this._movementPath = [...pathPoints];
+    this.updateMovementPaths([pathPoints]);
+  }
+
+  /**
+   * 全レーンの移動パス情報を更新
+   */
+  updateMovementPaths(paths: Position[][]): void {
+    this._movementPaths = paths.filter((pathPoints) => pathPoints.length >= 2).map((pathPoints) => [...pathPoints]);
+  }
+
+  /**
+   * 戦場のタイルグリッドを更新
+   */
+  updateTileGrid(grid: TileGrid): void {
+    this._tileGrid = grid;
+  }
+
+  /**
+   * 現在のタイルグリッド
+   */
+  get tileGrid(): TileGrid | null {
+    return this._tileGrid;
   }
 
   /**
@@ -109,6 +133,11 @@ export class GameFieldUI {
     // 背景を描画
     this.renderBackground(context);
 
+    // タイルグリッドを描画
+    if (this._tileGrid) {
+      this.renderTileGrid(context, this._tileGrid);
+    }
+
     // パスを描画（簡易版）
     this.renderPath(context);
 
@@ -154,6 +183,15 @@ export class GameFieldUI {
    * タワー配置可能位置かチェック
    */
   isValidTowerPosition(position: Position): boolean {
+    // タイルグリッドがある場合はタイルの状態で判定
+    if (this._tileGrid) {
+      const grid = this._tileGrid;
+      const tile = grid.getTileAt(position);
+      return tile !== null &&
+             TileType.isBuildable(tile) &&
+             !this._towers.some((tower) => grid.isSameCell(tower.position, position));
+    }
+
     // 境界内かチェック
     if (!this.bounds.contains(position)) {
       return false;
@@ -195,17 +233,51 @@ export class GameFieldUI {
     );
   }
 
+  /**
+   * タイルグリッドを描画（経路・障害物・強化タイルを塗り分け、地面は枠線のみ）
+   */
+  private renderTileGrid(context: CanvasRenderingContext2D, grid: TileGrid): void {
+    const gridLineColor = new Color(255, 255, 255, 0.06);
+
+    for (const cell of grid.getCells()) {
+      const tile = grid.getTile(cell);
+      const center = grid.getCellCenter(cell);
+      const half = grid.tileSize / 2;
+      const tileBounds = new Rectangle(center.x - half, center.y - half, grid.tileSize, grid.tileSize);
+
+      switch (tile) {
+        case TileType.PATH:
+          this.renderingService.renderRectangle(context, tileBounds, new Color(120, 100, 70, 0.35));
+          break;
+        case TileType.ROCK:
+          this.renderingService.renderRectangle(context, tileBounds, new Color(60, 70, 60, 0.6), gridLineColor, 1);
+          this.renderingService.renderCircle(context, center, half * 0.6, new Color(120, 120, 120, 1), new Color(80, 80, 80, 1), 2);
+          break;
+        case TileType.WATER:
+          this.renderingService.renderRectangle(context, tileBounds, new Color(60, 120, 200, 0.7));
+          break;
+        case TileType.BONUS:
+          this.renderingService.renderRectangle(context, tileBounds, new Color(255, 215, 0, 0.2), new Color(255, 215, 0, 0.8), 2);
+          break;
+        default:
+          this.renderingService.renderRectangle(context, tileBounds, new Color(0, 0, 0, 0), gridLineColor, 1);
+      }
+    }
+  }
+
   /**
    * パスを描画（簡易版）
    */
   private renderPath(context: CanvasRenderingContext2D): void {
     const margin = this.config.ui.layout.margin;
 
-    // 実際の移動パスがある場合はそれを使用、なければデフォルト位置
-    if (this._movementPath.length >= 2) {
-      const actualStartPos = this._movementPath[0];
-      const actualEndPos = this._movementPath[this._movementPath.length - 1];
-      this.renderPathLabels(context, actualStartPos.x, actualEndPos.x, actualStartPos.y, actualEndPos.y);
+    // 実際の移動パスがある場合はレーンごとにラベルを表示、なければデフォルト位置
+    if (this._movementPaths.length > 0) {
+      for (const pathPoints of this._movementPaths) {
+        const actualStartPos = pathPoints[0];
+        const actualEndPos = pathPoints[pathPoints.length - 1];
+        this.renderPathLabels(context, actualStartPos.x, actualEndPos.x, actualStartPos.y, actualEndPos.y);
+      }
     } else {
       // フォールバック：デフォルト位置（茶色の直線は描画しない）
       const startX = this.bounds.x + margin;
@@ -399,7 +471,7 @@ export class GameFieldUI {
    * 位置がパス上かチェック（実際の移動パスを基準）
    */
   private isOnPath(position: Position): boolean {
-    if (this._movementPath.length < 2) {
+    if (this._movementPaths.length === 0) {
       // 移動パスが設定されていない場合はフォールバック
       const centerY = this.bounds.y + this.bounds.height / 2;
       const pathWidth = 40;
@@ -412,17 +484,19 @@ export class GameFieldUI {
       return isInPathY && isInPathX;
     }
 
-    // 実際の移動パスに沿ってチェック
+    // 全レーンの移動パスに沿ってチェック
     const pathWidth = 30; // パス幅
     
-    for (let i = 0; i < this._movementPath.length - 1; i++) {
-      const start = this._movementPath[i];
-      const end = this._movementPath[i + 1];
-      
-      // 線分との距離を計算
-      const distance = this.distanceToLineSegment(position, start, end);
-      if (distance < pathWidth / 2) {
-        return true;
+    for (const pathPoints of this._movementPaths) {
+      for (let i = 0; i < pathPoints.length - 1; i++) {
+        const start = pathPoints[i];
+        const end = pathPoints[i + 1];
+        
+        // 線分との距離を計算
+        const distance = this.distanceToLineSegment(position, start, end);
+        if (distance < pathWidth / 2) {
+          return true;
+        }
       }
     }
     
@@ -17,6 +17,8 @@ export class HandUI {
   private _cards: Card[] = [];
   private _currentMana = 0;
   private _maxMana = 10;
+  private _drawPileCount = 0;
+  private _discardPileCount = 0;
   private _selectedCardIndex = -1;
   private _isDragging = false;
   private _draggedCard: Card | null = null;
@@ -49,6 +51,20 @@ export class HandUI {
     return this._maxMana;
   }
 
+  /**
+   * 山札の枚数
+   */
+  get drawPileCount(): number {
+    return this._drawPileCount;
+  }
+
+  /**
+   * 捨て札の枚数
+   */
+  get discardPileCount(): number {
+    return this._discardPileCount;
+  }
+
   /**
    * 選択中のカードインデックス
    */
@@ -97,6 +113,14 @@ export class HandUI {
     this._maxMana = Math.max(1, max);
   }
 
+  /**
+   * 山札・捨て札の枚数を更新
+   */
+  updateDeckCounts(drawPileCount: number, discardPileCount: number): void {
+    this._drawPileCount = Math.max(0, drawPileCount);
+    this._discardPileCount = Math.max(0, discardPileCount);
+  }
+
   /**
    * カードを選択
    */
@@ -136,6 +160,9 @@ export class HandUI {
     // マナバーを描画
     this.renderManaBar(context);
 
+    // 山札・捨て札の枚数を描画
+    this.renderDeckCounts(context);
+
     // カードを描画
     this.renderCards(context);
 
@@ -302,6 +329,32 @@ export class HandUI {
     this.renderingService.renderText(context, manaText, manaTextPosition, manaTextStyle);
   }
 
+  /**
+   * 山札・捨て札の枚数を描画
+   */
+  private renderDeckCounts(context: CanvasRenderingContext2D): void {
+    const manaBarMargin = this.config.ui.hand.manaBarMargin;
+
+    const deckTextPosition = new Position(
+      this.bounds.x + this.bounds.width - manaBarMargin,
+      this.bounds.y + 15
+    );
+
+    const deckTextStyle: TextStyle = {
+      font: "11px Arial",
+      color: Color.white(),
+      align: "right",
+      baseline: "middle",
+    };
+
+    this.renderingService.renderText(
+      context,
+      `Deck: ${this._drawPileCount}  Discard: ${this._discardPileCount}`,
+      deckTextPosition,
+      deckTextStyle
+    );
+  }
+
   /**
    * カードを描画
    */
@@ -3,6 +3,7 @@ import { Position } from "../../domain/value-objects/position";
 import { Color } from "../../domain/value-objects/color";
 import { RenderingService, TextStyle } from "../../domain/services/rendering-service";
 import { GameConfig } from "../config/game-config";
+import type { BossBarState } from "../../domain/entities/ui-manager";
 
 /**
  * ヘッダーレイアウト情報
@@ -12,11 +13,13 @@ export interface HeaderLayout {
   scorePosition: Position;
   healthBarBounds: Rectangle;
   healthLabelPosition: Position;
+  bossBarBounds: Rectangle;
 }
 
 /**
  * ヘッダーUI実装
  * タイマー、スコア、体力を表示
+ * ボス戦の間はヘッダーの下にボスの体力バーを表示
  */
 export class HeaderUI {
   public readonly bounds: Rectangle;
@@ -27,6 +30,7 @@ export class HeaderUI {
   private _score = 0;
   private _currentHealth = 100;
   private _maxHealth = 100;
+  private _boss: BossBarState | null = null;
 
   constructor(bounds: Rectangle, renderingService: RenderingService) {
     this.bounds = bounds;
@@ -62,6 +66,13 @@ export class HeaderUI {
     return this._maxHealth;
   }
 
+  /**
+   * 表示中のボス（ボス戦でない場合はnull）
+   */
+  get boss(): BossBarState | null {
+    return this._boss;
+  }
+
   /**
    * タイマーを更新
    */
@@ -84,6 +95,20 @@ export class HeaderUI {
     this._maxHealth = Math.max(1, max);
   }
 
+  /**
+   * ボスの体力バーを更新（nullで非表示）
+   */
+  updateBoss(boss: BossBarState | null): void {
+    this._boss = boss
+      ? {
+          ...boss,
+          health: Math.max(0, boss.health),
+          maxHealth: Math.max(1, boss.maxHealth),
+          shield: Math.max(0, boss.shield),
+        }
+      : null;
+  }
+
   /**
    * ヘッダーを描画
    */
@@ -101,6 +126,11 @@ export class HeaderUI {
 
     // 体力バーを描画
     this.renderHealthBar(context, layout.healthBarBounds, layout.healthLabelPosition);
+
+    // ボスの体力バーを描画
+    if (this._boss) {
+      this.renderBossBar(context, this._boss, layout.bossBarBounds);
+    }
   }
 
   /**
@@ -147,11 +177,21 @@ export class HeaderUI {
       healthBarBounds.y - 5
     );
 
+    // ボスの体力バーはヘッダーの下に中央揃えで表示
+    const bossBarWidth = this.bounds.width / 2;
+    const bossBarBounds = new Rectangle(
+      this.bounds.x + (this.bounds.width - bossBarWidth) / 2,
+      this.bounds.y + this.bounds.height + 6,
+      bossBarWidth,
+      16
+    );
+
     return {
       timerPosition,
       scorePosition,
       healthBarBounds,
       healthLabelPosition,
+      bossBarBounds,
     };
   }
 
@@ -250,6 +290,49 @@ export class HeaderUI {
     this.renderingService.renderText(context, healthText, healthTextPosition, healthTextStyle);
   }
 
+  /**
+   * ボスの体力バーを描画
+   * シールドは体力バーの上に重ねて表示する
+   */
+  private renderBossBar(
+    context: CanvasRenderingContext2D,
+    boss: BossBarState,
+    bounds: Rectangle
+  ): void {
+    this.renderingService.renderProgressBar(
+      context,
+      boss.health / boss.maxHealth,
+      bounds,
+      new Color(200, 40, 60)
+    );
+
+    if (boss.shield > 0) {
+      const shieldBounds = new Rectangle(bounds.x, bounds.y + bounds.height - 4, bounds.width, 4);
+      this.renderingService.renderProgressBar(
+        context,
+        boss.shield / boss.maxHealth,
+        shieldBounds,
+        new Color(120, 200, 255)
+      );
+    }
+
+    const shieldText = boss.shield > 0 ? ` 🛡${Math.ceil(boss.shield)}` : "";
+    const label = `${boss.name}［${boss.phaseName}］ ${Math.ceil(boss.health)}/${boss.maxHealth}${shieldText}`;
+    const labelStyle: TextStyle = {
+      font: "bold 12px Arial",
+      color: Color.white(),
+      align: "center",
+      baseline: "middle",
+    };
+
+    this.renderingService.renderText(
+      context,
+      label,
+      new Position(bounds.x + bounds.width / 2, bounds.y + bounds.height / 2),
+      labelStyle
+    );
+  }
+
   /**
    * スコアをフォーマット（カンマ区切り）
    */
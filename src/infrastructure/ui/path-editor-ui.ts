@@ -0,0 +1,168 @@
+import type { Position } from "../../domain/value-objects/position";
+import type { PathEditor, TraversalEstimate } from "../editor/path-editor";
+
+/**
+ * マップ・パスエディターの描画
+ * 選択中以外のパスは薄く、選択中のパスは地点と一緒に描画する
+ */
+export class PathEditorUI {
+  private readonly waypointRadius = 6;
+  private readonly gridSize = 40;
+
+  constructor(private readonly context: CanvasRenderingContext2D) {}
+
+  /**
+   * エディターを描画
+   * @param editor 描画するエディター
+   * @param previewPosition 移動時間プレビューの敵の位置
+   * @param estimates 敵タイプごとの移動時間
+   * @param hoveredWaypoint マウスが重なっている地点のインデックス
+   */
+  render(
+    editor: PathEditor,
+    previewPosition: Position | null,
+    estimates: TraversalEstimate[],
+    hoveredWaypoint: number | null
+  ): void {
+    const { width, height } = this.context.canvas;
+    this.context.clearRect(0, 0, width, height);
+    this.context.fillStyle = "#1a1a2e";
+    this.context.fillRect(0, 0, width, height);
+
+    this.renderGrid(editor);
+
+    const selected = editor.selectedPath;
+    for (const path of editor.paths) {
+      if (path.id !== selected?.id) {
+        this.renderPathLine(path.points, "rgba(255, 255, 255, 0.25)", 2);
+      }
+    }
+
+    if (selected) {
+      this.renderPathLine(selected.points, "#4ecdc4", 3);
+      selected.points.forEach((point, index) => {
+        this.renderWaypoint(point, index, selected.points.length, index === hoveredWaypoint);
+      });
+    }
+
+    if (previewPosition) {
+      this.context.fillStyle = "#ff6b6b";
+      this.context.beginPath();
+      this.context.arc(previewPosition.x, previewPosition.y, 8, 0, Math.PI * 2);
+      this.context.fill();
+    }
+
+    this.renderInfo(editor, estimates);
+  }
+
+  /**
+   * 編集範囲とグリッド線を描画
+   */
+  private renderGrid(editor: PathEditor): void {
+    const { x, y, width, height } = editor.bounds;
+
+    this.context.save();
+    this.context.strokeStyle = "rgba(255, 255, 255, 0.06)";
+    this.context.lineWidth = 1;
+    this.context.beginPath();
+    for (let gx = x; gx <= x + width; gx += this.gridSize) {
+      this.context.moveTo(gx, y);
+      this.context.lineTo(gx, y + height);
+    }
+    for (let gy = y; gy <= y + height; gy += this.gridSize) {
+      this.context.moveTo(x, gy);
+      this.context.lineTo(x + width, gy);
+    }
+    this.context.stroke();
+
+    this.context.strokeStyle = "rgba(78, 205, 196, 0.5)";
+    this.context.strokeRect(x, y, width, height);
+    this.context.restore();
+  }
+
+  private renderPathLine(points: Position[], color: string, lineWidth: number): void {
+    const [first, ...rest] = points;
+    if (!first) return;
+
+    this.context.save();
+    this.context.strokeStyle = color;
+    this.context.lineWidth = lineWidth;
+    this.context.beginPath();
+    this.context.moveTo(first.x, first.y);
+    for (const point of rest) {
+      this.context.lineTo(point.x, point.y);
+    }
+    this.context.stroke();
+    this.context.restore();
+  }
+
+  /**
+   * 地点を描画（生成地点は緑、基地地点は赤、中間地点は白）
+   */
+  private renderWaypoint(point: Position, index: number, count: number, isHovered: boolean): void {
+    const isSpawn = index === 0;
+    const isBase = index === count - 1;
+
+    this.context.save();
+    this.context.fillStyle = isSpawn ? "#2ecc71" : isBase ? "#e74c3c" : "#ffffff";
+    this.context.strokeStyle = isHovered ? "#ffd700" : "#000000";
+    this.context.lineWidth = isHovered ? 3 : 1;
+    this.context.beginPath();
+    this.context.arc(point.x, point.y, this.waypointRadius, 0, Math.PI * 2);
+    this.context.fill();
+    this.context.stroke();
+
+    if (isSpawn || isBase) {
+      this.context.fillStyle = "#ffffff";
+      this.context.font = "bold 11px Arial";
+      this.context.textAlign = "center";
+      this.context.fillText(isSpawn ? "START" : "GOAL", point.x, point.y - 12);
+    }
+    this.context.restore();
+  }
+
+  /**
+   * 選択中のパスの情報と移動時間を描画
+   */
+  private renderInfo(editor: PathEditor, estimates: TraversalEstimate[]): void {
+    const selected = editor.selectedPath;
+
+    this.context.save();
+    this.context.fillStyle = "#ffffff";
+    this.context.font = "14px Arial";
+    this.context.textAlign = "left";
+
+    if (!selected) {
+      this.context.fillText("パスがありません。「パスを追加」で作成してください", 10, 25);
+      this.context.restore();
+      return;
+    }
+
+    const length = Math.round(editor.getMovementPath().totalLength);
+    this.context.fillText(
+      `${selected.name}（${selected.id}） 難易度: ${selected.difficulty}  地点: ${selected.points.length}  全長: ${length}px`,
+      10,
+      25
+    );
+    this.context.font = "12px Arial";
+    this.context.fillText(
+      estimates
+        .map((estimate) => `${estimate.displayName} ${estimate.seconds.toFixed(1)}秒`)
+        .join("  "),
+      10,
+      45
+    );
+
+    const errors = editor.validate();
+    this.context.fillStyle = errors.length > 0 ? "#ff6b6b" : "#2ecc71";
+    const bottom = this.context.canvas.height - 10;
+    if (errors.length > 0) {
+      errors.forEach((error, index) => {
+        this.context.fillText(error, 10, bottom - (errors.length - 1 - index) * 16);
+      });
+    } else {
+      this.context.fillText(editor.isDirty ? "未保存の変更があります" : "保存済み", 10, bottom);
+    }
+    this.context.restore();
+  }
+}
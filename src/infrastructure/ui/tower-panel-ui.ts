@@ -0,0 +1,197 @@
+import type { TowerPanelState } from "../../domain/entities/ui-manager";
+import type { RenderingService, TextStyle } from "../../domain/services/rendering-service";
+import { Color } from "../../domain/value-objects/color";
+import { Position } from "../../domain/value-objects/position";
+import { Rectangle } from "../../domain/value-objects/rectangle";
+import { TargetingStrategy } from "../../domain/value-objects/targeting-strategy";
+
+/**
+ * タワー詳細パネルUI実装
+ * 選択中のタワーの性能を表示し、攻撃対象の選択方針を切り替える
+ */
+export class TowerPanelUI {
+  public readonly bounds: Rectangle;
+  private readonly renderingService: RenderingService;
+
+  private _state: TowerPanelState | null = null;
+
+  // レイアウト設定
+  private readonly padding = 10;
+  private readonly lineHeight = 16;
+  private readonly buttonHeight = 18;
+  private readonly buttonSpacing = 2;
+  private readonly statsLineCount = 7;
+
+  constructor(bounds: Rectangle, renderingService: RenderingService) {
+    this.bounds = bounds;
+    this.renderingService = renderingService;
+  }
+
+  /**
+   * 表示状態
+   */
+  get isVisible(): boolean {
+    return this._state !== null;
+  }
+
+  /**
+   * 表示中のタワー情報
+   */
+  get state(): TowerPanelState | null {
+    return this._state;
+  }
+
+  /**
+   * タワー情報を表示
+   */
+  show(state: TowerPanelState): void {
+    this._state = state;
+  }
+
+  /**
+   * パネルを非表示
+   */
+  hide(): void {
+    this._state = null;
+  }
+
+  /**
+   * 指定位置がパネル上かどうか
+   */
+  containsPoint(position: Position): boolean {
+    return this.isVisible && this.bounds.contains(position);
+  }
+
+  /**
+   * 指定位置にある選択方針ボタンを取得
+   * @returns ボタン上であれば対応する選択方針、それ以外はnull
+   */
+  getStrategyAt(position: Position): TargetingStrategy | null {
+    if (!this.containsPoint(position)) {
+      return null;
+    }
+
+    const strategies = TargetingStrategy.getAllStrategies();
+    for (let i = 0; i < strategies.length; i++) {
+      if (this.getStrategyButtonBounds(i).contains(position)) {
+        return strategies[i] ?? null;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 選択方針ボタンの矩形を取得
+   */
+  getStrategyButtonBounds(index: number): Rectangle {
+    const top = this.bounds.y + this.padding + this.lineHeight * (this.statsLineCount + 1);
+
+    return new Rectangle(
+      this.bounds.x + this.padding,
+      top + index * (this.buttonHeight + this.buttonSpacing),
+      this.bounds.width - this.padding * 2,
+      this.buttonHeight
+    );
+  }
+
+  /**
+   * パネルを描画
+   */
+  render(context: CanvasRenderingContext2D, _deltaTime: number): void {
+    if (!this._state) return;
+
+    this.renderingService.renderRectangle(
+      context,
+      this.bounds,
+      new Color(20, 20, 35, 0.9),
+      new Color(78, 205, 196, 1),
+      2
+    );
+
+    this.renderStats(context, this._state);
+    this.renderStrategyButtons(context, this._state.targetingStrategy);
+  }
+
+  /**
+   * タワーの性能を描画
+   */
+  private renderStats(context: CanvasRenderingContext2D, state: TowerPanelState): void {
+    const x = this.bounds.x + this.padding;
+    const top = this.bounds.y + this.padding;
+    const titleStyle: TextStyle = {
+      font: "bold 13px Arial",
+      color: Color.white(),
+      align: "left",
+      baseline: "top",
+    };
+    const textStyle: TextStyle = { ...titleStyle, font: "11px Arial" };
+
+    const upgradeText =
+      state.upgradeCost === null ? "強化: 最大レベル" : `強化(U): ${state.upgradeCost} マナ`;
+    const critText = state.critChance ? `  会心 ${Math.round(state.critChance * 100)}%` : "";
+    const lines = [
+      `攻撃力 ${state.damage}  射程 ${state.range}`,
+      `攻撃間隔 ${state.attackSpeed}ms${critText}`,
+      `能力: ${state.specialAbility}`,
+      state.repairCost === null
+        ? `耐久 ${state.health}/${state.maxHealth}`
+        : `耐久 ${state.health}/${state.maxHealth}  修理(F): ${state.repairCost} マナ`,
+      upgradeText,
+      `売却(S): +${state.sellRefund} マナ`,
+    ];
+
+    this.renderingService.renderText(
+      context,
+      `${state.name} Lv.${state.level}/${state.maxLevel}`,
+      new Position(x, top),
+      titleStyle
+    );
+    lines.forEach((line, index) => {
+      this.renderingService.renderText(
+        context,
+        line,
+        new Position(x, top + this.lineHeight * (index + 1)),
+        textStyle
+      );
+    });
+    this.renderingService.renderText(
+      context,
+      "攻撃対象(T):",
+      new Position(x, top + this.lineHeight * this.statsLineCount),
+      textStyle
+    );
+  }
+
+  /**
+   * 選択方針ボタンを描画（現在の方針を強調）
+   */
+  private renderStrategyButtons(
+    context: CanvasRenderingContext2D,
+    current: TargetingStrategy
+  ): void {
+    TargetingStrategy.getAllStrategies().forEach((strategy, index) => {
+      const bounds = this.getStrategyButtonBounds(index);
+      const isCurrent = strategy === current;
+
+      this.renderingService.renderRectangle(
+        context,
+        bounds,
+        isCurrent ? new Color(78, 205, 196, 0.8) : new Color(60, 60, 80, 0.8),
+        new Color(120, 120, 140, 1),
+        1
+      );
+      this.renderingService.renderText(
+        context,
+        TargetingStrategy.getDisplayName(strategy),
+        new Position(bounds.x + bounds.width / 2, bounds.y + bounds.height / 2),
+        {
+          font: "11px Arial",
+          color: isCurrent ? Color.black() : Color.white(),
+          align: "center",
+          baseline: "middle",
+        }
+      );
+    });
+  }
+}
@@ -9,6 +9,12 @@ import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
 import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
 import { GameEndReason } from "../../../src/domain/value-objects/game-end-reason.js";
 import { InMemoryEventBus } from "../../../src/infrastructure/events/in-memory-event-bus.js";
+import enemiesData from "../../../config/enemies.json";
+import wavesData from "../../../config/waves.json";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry.js";
+import { WaveConfiguration } from "../../../src/domain/value-objects/wave-configuration.js";
+
+const waveConfiguration = WaveConfiguration.load(wavesData, EnemyTypeRegistry.load(enemiesData));
 
 // モックタイムプロバイダー
 class MockTimeProvider {
@@ -70,6 +76,7 @@ describe("EndGameSessionUseCase", () => {
   describe("正常なケース", () => {
     it("時間切れでゲームを終了できる", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const gameCompletedEvents: any[] = [];
@@ -96,6 +103,7 @@ describe("EndGameSessionUseCase", () => {
 
     it("プレイヤー死亡でゲームを終了できる", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const gameOverEvents: any[] = [];
@@ -121,6 +129,7 @@ describe("EndGameSessionUseCase", () => {
 
     it("ユーザー離脱でゲームを終了できる", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const gameEndedEvents: any[] = [];
@@ -141,6 +150,7 @@ describe("EndGameSessionUseCase", () => {
 
     it("ゲーム終了時に手札のカードがライブラリに記録される", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
       const handCards = gameSession.hand.getCards();
 
@@ -156,6 +166,7 @@ describe("EndGameSessionUseCase", () => {
 
     it("ゲーム終了時の統計情報が正しく記録される", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
       
       // スコアと時間を進める
@@ -183,6 +194,7 @@ describe("EndGameSessionUseCase", () => {
   describe("異常なケース", () => {
     it("非アクティブなゲームを終了するとエラー", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       // ゲームを開始しない
 
       const result = await useCase.execute({
@@ -206,6 +218,7 @@ describe("EndGameSessionUseCase", () => {
 
     it("終了理由がnullの場合はエラー", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const result = await useCase.execute({
@@ -219,6 +232,7 @@ describe("EndGameSessionUseCase", () => {
 
     it("既に終了したゲームを再度終了するとエラー", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
       gameSession.endGame(GameEndReason.timeUp());
 
@@ -235,6 +249,7 @@ describe("EndGameSessionUseCase", () => {
   describe("イベント処理", () => {
     it("時間切れ終了時に適切なイベントが発行される", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const allEvents: { type: string; event: any }[] = [];
@@ -258,6 +273,7 @@ describe("EndGameSessionUseCase", () => {
 
     it("プレイヤー死亡終了時に適切なイベントが発行される", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const allEvents: { type: string; event: any }[] = [];
@@ -281,6 +297,7 @@ describe("EndGameSessionUseCase", () => {
 
     it("ユーザー離脱時はGameEndedEventのみ発行される", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const allEvents: { type: string; event: any }[] = [];
@@ -306,6 +323,7 @@ describe("EndGameSessionUseCase", () => {
 
     it("エラー時はイベントが発行されない", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       // ゲームを開始しない
 
       const events: any[] = [];
@@ -325,6 +343,7 @@ describe("EndGameSessionUseCase", () => {
   describe("一時停止中の終了", () => {
     it("一時停止中のゲームを終了できる", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
       gameSession.pause();
 
@@ -345,6 +364,7 @@ describe("EndGameSessionUseCase", () => {
       
       for (let i = 0; i < 100; i++) {
         const gameSession = new GameSession(`session-${i}`, cardPool, cardLibrary, 180, 100, mockTimeProvider);
+        gameSession.setWaveConfiguration(waveConfiguration);
         gameSession.startGame();
         
         await useCase.execute({
@@ -363,6 +383,7 @@ describe("EndGameSessionUseCase", () => {
   describe("統計情報の正確性", () => {
     it("複雑なゲーム状態での統計情報が正確", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
       
       // 複数の敵を撃破
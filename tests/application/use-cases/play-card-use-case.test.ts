@@ -1,13 +1,21 @@
 import { beforeEach, describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import wavesData from "../../../config/waves.json";
 import { PlayCardUseCase } from "../../../src/application/use-cases/play-card-use-case.js";
 import { CardLibrary } from "../../../src/domain/entities/card-library.js";
 import { CardPool } from "../../../src/domain/entities/card-pool.js";
 import { Card } from "../../../src/domain/entities/card.js";
 import { GameSession } from "../../../src/domain/entities/game-session.js";
 import type { ICardLibraryRepository } from "../../../src/domain/repositories/card-library-repository.js";
+import type { BotStrategy } from "../../../src/domain/services/bot-strategy.js";
 import { CardCost } from "../../../src/domain/value-objects/card-cost.js";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
 import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
 import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+import { WaveConfiguration } from "../../../src/domain/value-objects/wave-configuration.js";
+
+const waveConfiguration = WaveConfiguration.load(wavesData, EnemyTypeRegistry.load(enemiesData));
 
 // モックリポジトリ
 class MockCardLibraryRepository implements ICardLibraryRepository {
@@ -66,6 +74,7 @@ describe("PlayCardUseCase", () => {
     const cardLibrary = new CardLibrary();
 
     gameSession = new GameSession("test-session", cardPool, cardLibrary);
+    gameSession.setWaveConfiguration(waveConfiguration);
     gameSession.startGame();
 
     cardLibraryRepository = new MockCardLibraryRepository(cardLibrary);
@@ -122,6 +131,25 @@ describe("PlayCardUseCase", () => {
       expect(result.error).toBeUndefined();
     });
 
+    it("ヒント戦略が選んだカードを配置位置付きで最優先に推奨する", async () => {
+      const hintCard = gameSession.hand.getCards()[3] as Card;
+      const hintStrategy: BotStrategy = {
+        name: "test",
+        decide: () => [
+          { cardId: hintCard.id, position: new Position(120, 200), reason: "テスト用の理由" },
+        ],
+      };
+      const hintUseCase = new PlayCardUseCase(cardLibraryRepository, hintStrategy);
+
+      const result = await hintUseCase.getPlayRecommendations(gameSession);
+
+      expect(result.recommendations?.length).toBe(8);
+      expect(result.recommendations?.[0]?.card).toBe(hintCard);
+      expect(result.recommendations?.[0]?.position).toEqual(new Position(120, 200));
+      expect(result.recommendations?.[0]?.reason).toBe("テスト用の理由");
+      expect(result.recommendations?.[1]?.position).toBeUndefined();
+    });
+
     it("手札バランス分析を取得できる", async () => {
       const result = await useCase.analyzeHandBalance(gameSession);
 
@@ -5,6 +5,10 @@ import { WaveConfiguration } from '../../../src/domain/value-objects/wave-config
 import { EnemyDamageService } from '../../../src/domain/services/enemy-damage-service';
 import { Position } from '../../../src/domain/value-objects/position';
 import { MovementPath } from '../../../src/domain/value-objects/movement-path';
+import enemiesData from '../../../config/enemies.json';
+import { EnemyTypeRegistry } from '../../../src/domain/value-objects/enemy-type-registry';
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
 
 // モックインターフェース
 interface MockTowerCombatService {
@@ -30,7 +34,7 @@ describe('ProcessEnemyDamageUseCase', () => {
   let mockUIFeedbackService: MockUIFeedbackService;
 
   beforeEach(() => {
-    const waveConfiguration = new WaveConfiguration(10, 5, 1000);
+    const waveConfiguration = new WaveConfiguration(enemyTypes, 10, 5, 1000);
     const gameStartTime = new Date();
     waveScheduler = new WaveScheduler(waveConfiguration, gameStartTime);
 
@@ -0,0 +1,173 @@
+import { describe, expect, it } from "bun:test";
+import {
+  type MatchStats,
+  RunSimulationUseCase,
+} from "../../../src/application/use-cases/run-simulation-use-case.js";
+import { CardPool } from "../../../src/domain/entities/card-pool.js";
+import { Card } from "../../../src/domain/entities/card.js";
+import type { GameSession } from "../../../src/domain/entities/game-session.js";
+import type { ICardPoolRepository } from "../../../src/domain/repositories/card-pool-repository.js";
+import { CheapestCardBotStrategy } from "../../../src/domain/services/bot-strategy.js";
+import { BotPlayer, ScriptedStrategy } from "../../../src/domain/services/simulation-strategy.js";
+import { CardCost } from "../../../src/domain/value-objects/card-cost.js";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
+import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+import { JsonEnemyConfigRepository } from "../../../src/infrastructure/repositories/json-enemy-config-repository.js";
+
+// モックリポジトリ
+class MockCardPoolRepository implements ICardPoolRepository {
+  constructor(private readonly cardPool: CardPool) {}
+
+  async load(): Promise<CardPool> {
+    return this.cardPool;
+  }
+
+  async isAvailable(): Promise<boolean> {
+    return true;
+  }
+}
+
+describe("RunSimulationUseCase", () => {
+  const cards = Array.from(
+    { length: 8 },
+    (_, i) =>
+      new Card(
+        `card-${i}`,
+        `カード${i}`,
+        "テスト用カード",
+        new CardCost(2 + (i % 3)),
+        i % 2 === 0 ? TowerType.ARCHER : TowerType.CANNON,
+        SpecialAbility.NONE
+      )
+  );
+  const createUseCase = () =>
+    new RunSimulationUseCase(
+      new MockCardPoolRepository(new CardPool(cards)),
+      new JsonEnemyConfigRepository()
+    );
+
+  it("指定した試合数を制限時間まで実行して集計する", async () => {
+    const result = await createUseCase().execute({
+      matches: 2,
+      createStrategy: () => new BotPlayer(new CheapestCardBotStrategy()),
+      seed: 1,
+      gameDuration: 10,
+    });
+
+    expect(result.success).toBe(true);
+    const report = result.report;
+    if (!report) {
+      throw new Error("集計結果がありません");
+    }
+    expect(report.strategy).toBe("cheapest-card");
+    expect(report.matchCount).toBe(2);
+    expect(report.matches.map((match) => match.seed)).toEqual([1, 2]);
+    expect(report.survivalTime.max).toBeLessThanOrEqual(10000);
+    expect(report.manaSpent.total).toBeGreaterThan(0);
+    for (const match of report.matches) {
+      const spentByCard = Object.values(match.manaSpentByCard).reduce((sum, v) => sum + v, 0);
+      expect(spentByCard).toBe(match.manaSpent);
+    }
+  });
+
+  it("同じシードの試合は同じ結果になる", async () => {
+    const run = () =>
+      createUseCase().execute({
+        matches: 1,
+        createStrategy: () => new BotPlayer(new CheapestCardBotStrategy()),
+        seed: 42,
+        gameDuration: 10,
+      });
+
+    const first = await run();
+    const second = await run();
+
+    expect(first.report?.matches ?? []).toEqual(second.report?.matches ?? []);
+  });
+
+  it("継続ダメージで倒した敵も最後に命中したタワーの撃破に数える", async () => {
+    const dotCards = Array.from(
+      { length: 8 },
+      (_, i) =>
+        new Card(
+          `dot-${i}`,
+          `継続ダメージ${i}`,
+          "テスト用カード",
+          new CardCost(2),
+          TowerType.ARCHER,
+          i % 2 === 0 ? SpecialAbility.POISON_EFFECT : SpecialAbility.BURN
+        )
+    );
+    let observed: GameSession | null = null;
+    const bot = new BotPlayer(new CheapestCardBotStrategy());
+    const useCase = new RunSimulationUseCase(
+      new MockCardPoolRepository(new CardPool(dotCards)),
+      new JsonEnemyConfigRepository()
+    );
+
+    const result = await useCase.execute({
+      matches: 1,
+      createStrategy: () => ({
+        name: bot.name,
+        decide: (session, tick) => {
+          observed = session;
+          return bot.decide(session, tick);
+        },
+      }),
+      seed: 3,
+      gameDuration: 60,
+    });
+
+    const match = result.report?.matches[0];
+    const defeated = (observed as GameSession | null)?.score.enemiesDefeated ?? 0;
+    expect(defeated).toBeGreaterThan(0);
+    expect(match?.killsByTowerType).toEqual({ ARCHER: defeated });
+  });
+
+  it("台本どおりに操作する", async () => {
+    const result = await createUseCase().execute({
+      matches: 1,
+      createStrategy: () => new ScriptedStrategy([{ tick: 0, type: "card-drawn" }]),
+      seed: 7,
+      gameDuration: 5,
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.report?.strategy).toBe("scripted");
+    expect(result.report?.matches[0]?.cardsPlayed).toBe(0);
+  });
+
+  it("試合数が不正な場合はエラーを返す", async () => {
+    const result = await createUseCase().execute({
+      matches: 0,
+      createStrategy: () => new BotPlayer(new CheapestCardBotStrategy()),
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBe("試合数は1以上の整数である必要があります");
+  });
+
+  it("試合ごとの結果から合計・平均・最小・最大を求める", () => {
+    const match = (seed: number, waves: number, kills: Record<string, number>): MatchStats => ({
+      seed,
+      result: "completed",
+      survivalTime: 1000,
+      baseDamageTaken: 0,
+      wavesCleared: waves,
+      cardsPlayed: 0,
+      manaSpent: 0,
+      manaSpentByCard: {},
+      killsByTowerType: kills,
+    });
+
+    const report = RunSimulationUseCase.summarize("test", "default", [
+      match(1, 2, { ARCHER: 3 }),
+      match(2, 4, { CANNON: 1 }),
+    ]);
+
+    expect(report.completedCount).toBe(2);
+    expect(report.wavesCleared).toEqual({ total: 6, mean: 3, min: 2, max: 4 });
+    expect(report.killsByTowerType.ARCHER).toEqual({ total: 3, mean: 1.5, min: 0, max: 3 });
+    expect(report.killsByTowerType.CANNON).toEqual({ total: 1, mean: 0.5, min: 0, max: 1 });
+  });
+});
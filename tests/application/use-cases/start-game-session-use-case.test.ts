@@ -8,6 +8,12 @@ import { CardCost } from "../../../src/domain/value-objects/card-cost.js";
 import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
 import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
 import { InMemoryEventBus } from "../../../src/infrastructure/events/in-memory-event-bus.js";
+import enemiesData from "../../../config/enemies.json";
+import wavesData from "../../../config/waves.json";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry.js";
+import { WaveConfiguration } from "../../../src/domain/value-objects/wave-configuration.js";
+
+const waveConfiguration = WaveConfiguration.load(wavesData, EnemyTypeRegistry.load(enemiesData));
 
 // モックタイムプロバイダー
 class MockTimeProvider {
@@ -69,6 +75,7 @@ describe("StartGameSessionUseCase", () => {
   describe("正常なケース", () => {
     it("ゲームセッションを開始できる", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
 
       const result = await useCase.execute({
         gameSession,
@@ -86,6 +93,7 @@ describe("StartGameSessionUseCase", () => {
 
     it("GameStartedEventが発行される", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       const events: any[] = [];
       
       eventBus.subscribe("GameStartedEvent", (event) => {
@@ -106,6 +114,7 @@ describe("StartGameSessionUseCase", () => {
 
     it("カスタム設定でゲームセッションを開始できる", async () => {
       const gameSession = new GameSession("session-002", cardPool, cardLibrary, 300, 150, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
 
       const result = await useCase.execute({
         gameSession,
@@ -120,6 +129,7 @@ describe("StartGameSessionUseCase", () => {
 
     it("ゲーム開始後の統計情報が正しい", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
 
       await useCase.execute({
         gameSession,
@@ -141,6 +151,7 @@ describe("StartGameSessionUseCase", () => {
   describe("異常なケース", () => {
     it("既にアクティブなゲームセッションを開始するとエラー", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame(); // 既に開始済み
 
       const result = await useCase.execute({
@@ -157,6 +168,7 @@ describe("StartGameSessionUseCase", () => {
       const smallCards = createTestCards(5); // 8枚未満
       const smallCardPool = new CardPool(smallCards);
       const gameSession = new GameSession("session-001", smallCardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
 
       const result = await useCase.execute({
         gameSession,
@@ -170,6 +182,7 @@ describe("StartGameSessionUseCase", () => {
 
     it("無効なパラメータでエラー", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
 
       const result = await useCase.execute({
         gameSession,
@@ -196,6 +209,7 @@ describe("StartGameSessionUseCase", () => {
   describe("イベント処理", () => {
     it("複数のイベントリスナーが正しく呼ばれる", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       const events1: any[] = [];
       const events2: any[] = [];
       
@@ -221,6 +235,7 @@ describe("StartGameSessionUseCase", () => {
 
     it("エラー時はイベントが発行されない", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame(); // 既に開始済み
       
       const events: any[] = [];
@@ -244,6 +259,7 @@ describe("StartGameSessionUseCase", () => {
       
       for (let i = 0; i < 100; i++) {
         const gameSession = new GameSession(`session-${i}`, cardPool, cardLibrary, 180, 100, mockTimeProvider);
+        gameSession.setWaveConfiguration(waveConfiguration);
         await useCase.execute({
           gameSession,
           gameDuration: 180,
@@ -261,6 +277,7 @@ describe("StartGameSessionUseCase", () => {
   describe("エッジケース", () => {
     it("ゲーム時間が0秒でも開始できる", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 0, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
 
       const result = await useCase.execute({
         gameSession,
@@ -274,6 +291,7 @@ describe("StartGameSessionUseCase", () => {
 
     it("最大体力が1でも開始できる", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 1, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
 
       const result = await useCase.execute({
         gameSession,
@@ -286,7 +304,8 @@ describe("StartGameSessionUseCase", () => {
     });
 
     it("非常に長いゲーム時間でも開始できる", async () => {
-      const gameSession = new GameSession("session-001", cardPool, cardLibrary, 86400, 100, mockTimeProvider); // 24時間
+      const gameSession = new GameSession("session-001", cardPool, cardLibrary, 86400, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration); // 24時間
 
       const result = await useCase.execute({
         gameSession,
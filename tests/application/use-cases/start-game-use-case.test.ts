@@ -1,4 +1,5 @@
 import { beforeEach, describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
 import { StartGameUseCase } from "../../../src/application/use-cases/start-game-use-case.js";
 import { CardLibrary } from "../../../src/domain/entities/card-library.js";
 import { CardPool } from "../../../src/domain/entities/card-pool.js";
@@ -6,9 +7,16 @@ import { Card } from "../../../src/domain/entities/card.js";
 import { GameSession } from "../../../src/domain/entities/game-session.js";
 import type { ICardLibraryRepository } from "../../../src/domain/repositories/card-library-repository.js";
 import type { ICardPoolRepository } from "../../../src/domain/repositories/card-pool-repository.js";
+import type { IWaveConfigurationRepository } from "../../../src/domain/repositories/wave-configuration-repository.js";
 import { CardCost } from "../../../src/domain/value-objects/card-cost.js";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry.js";
+import { GameMap } from "../../../src/domain/value-objects/game-map.js";
+import { Lane } from "../../../src/domain/value-objects/lane.js";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
 import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
 import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+import { WaveConfiguration } from "../../../src/domain/value-objects/wave-configuration.js";
 
 // モックリポジトリ
 class MockCardPoolRepository implements ICardPoolRepository {
@@ -51,6 +59,12 @@ class MockCardLibraryRepository implements ICardLibraryRepository {
   }
 }
 
+class MockWaveConfigurationRepository implements IWaveConfigurationRepository {
+  async getWaveConfiguration(): Promise<WaveConfiguration> {
+    return new WaveConfiguration(EnemyTypeRegistry.load(enemiesData), 10, 5, 1000);
+  }
+}
+
 describe("StartGameUseCase", () => {
   const createTestCard = (id: string, name: string, cost: number): Card => {
     return new Card(
@@ -75,6 +89,7 @@ describe("StartGameUseCase", () => {
 
   let cardPoolRepository: MockCardPoolRepository;
   let cardLibraryRepository: MockCardLibraryRepository;
+  let waveConfigurationRepository: MockWaveConfigurationRepository;
   let useCase: StartGameUseCase;
 
   beforeEach(() => {
@@ -84,7 +99,12 @@ describe("StartGameUseCase", () => {
 
     cardPoolRepository = new MockCardPoolRepository(cardPool);
     cardLibraryRepository = new MockCardLibraryRepository(cardLibrary);
-    useCase = new StartGameUseCase(cardPoolRepository, cardLibraryRepository);
+    waveConfigurationRepository = new MockWaveConfigurationRepository();
+    useCase = new StartGameUseCase(
+      cardPoolRepository,
+      cardLibraryRepository,
+      waveConfigurationRepository
+    );
   });
 
   describe("正常なケース", () => {
@@ -142,7 +162,11 @@ describe("StartGameUseCase", () => {
       const library = new CardLibrary();
       library.discoverCard(existingCard);
       cardLibraryRepository = new MockCardLibraryRepository(library);
-      useCase = new StartGameUseCase(cardPoolRepository, cardLibraryRepository);
+      useCase = new StartGameUseCase(
+        cardPoolRepository,
+        cardLibraryRepository,
+        waveConfigurationRepository
+      );
 
       const result = await useCase.execute(sessionId);
 
@@ -150,6 +174,19 @@ describe("StartGameUseCase", () => {
       // ライブラリの内容は保持されている
       expect(result.cardLibrary?.hasDiscovered(existingCard.id)).toBe(true);
     });
+
+    it("選択したマップでゲームセッションを開始できる", async () => {
+      const gameMap = new GameMap("twin", "双子", [
+        new Lane("north", "北", new MovementPath([new Position(0, 100), new Position(800, 250)])),
+        new Lane("south", "南", new MovementPath([new Position(0, 400), new Position(800, 250)])),
+      ]);
+
+      const result = await useCase.execute("test-session-006", gameMap);
+
+      expect(result.success).toBe(true);
+      expect(result.gameSession?.gameMap).toBe(gameMap);
+      expect(result.gameSession?.movementPaths).toHaveLength(2);
+    });
   });
 
   describe("異常なケース", () => {
@@ -165,7 +202,11 @@ describe("StartGameUseCase", () => {
       const smallCards = createTestCards(5); // 8枚未満
       const smallCardPool = new CardPool(smallCards);
       cardPoolRepository = new MockCardPoolRepository(smallCardPool);
-      useCase = new StartGameUseCase(cardPoolRepository, cardLibraryRepository);
+      useCase = new StartGameUseCase(
+        cardPoolRepository,
+        cardLibraryRepository,
+        waveConfigurationRepository
+      );
 
       const result = await useCase.execute("test-session");
 
@@ -184,7 +225,11 @@ describe("StartGameUseCase", () => {
         },
       };
 
-      useCase = new StartGameUseCase(failingRepository, cardLibraryRepository);
+      useCase = new StartGameUseCase(
+        failingRepository,
+        cardLibraryRepository,
+        waveConfigurationRepository
+      );
 
       const result = await useCase.execute("test-session");
 
@@ -205,7 +250,11 @@ describe("StartGameUseCase", () => {
         async delete(): Promise<void> {},
       };
 
-      useCase = new StartGameUseCase(cardPoolRepository, failingRepository);
+      useCase = new StartGameUseCase(
+        cardPoolRepository,
+        failingRepository,
+        waveConfigurationRepository
+      );
 
       const result = await useCase.execute("test-session");
 
@@ -213,6 +262,22 @@ describe("StartGameUseCase", () => {
       expect(result.error).toContain("カードライブラリの読み込みに失敗しました");
       expect(result.gameSession).toBeUndefined();
     });
+
+    it("波設定の読み込みに失敗した場合エラーが発生する", async () => {
+      const failingRepository = {
+        async getWaveConfiguration(): Promise<WaveConfiguration> {
+          throw new Error("波設定読み込みエラー");
+        },
+      };
+
+      useCase = new StartGameUseCase(cardPoolRepository, cardLibraryRepository, failingRepository);
+
+      const result = await useCase.execute("test-session");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain("波設定の読み込みに失敗しました");
+      expect(result.gameSession).toBeUndefined();
+    });
   });
 
   describe("戦略的カード選択", () => {
@@ -4,6 +4,10 @@ import { WaveScheduler } from '../../../src/domain/entities/wave-scheduler';
 import { WaveConfiguration } from '../../../src/domain/value-objects/wave-configuration';
 import { Position } from '../../../src/domain/value-objects/position';
 import { MovementPath } from '../../../src/domain/value-objects/movement-path';
+import enemiesData from '../../../config/enemies.json';
+import { EnemyTypeRegistry } from '../../../src/domain/value-objects/enemy-type-registry';
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
 
 // モックインターフェース
 interface MockGameSessionService {
@@ -29,7 +33,7 @@ describe('StartWaveUseCase', () => {
   let mockUIFeedbackService: MockUIFeedbackService;
 
   beforeEach(() => {
-    const waveConfiguration = new WaveConfiguration(10, 5, 1000);
+    const waveConfiguration = new WaveConfiguration(enemyTypes, 10, 5, 1000);
     const gameStartTime = new Date();
     waveScheduler = new WaveScheduler(waveConfiguration, gameStartTime);
 
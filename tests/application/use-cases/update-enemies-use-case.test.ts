@@ -6,6 +6,10 @@ import { EnemyMovementService } from '../../../src/domain/services/enemy-movemen
 import { BaseAttackService } from '../../../src/domain/services/base-attack-service';
 import { Position } from '../../../src/domain/value-objects/position';
 import { MovementPath } from '../../../src/domain/value-objects/movement-path';
+import enemiesData from '../../../config/enemies.json';
+import { EnemyTypeRegistry } from '../../../src/domain/value-objects/enemy-type-registry';
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
 
 // モックインターフェース
 interface MockGameSessionService {
@@ -33,7 +37,7 @@ describe('UpdateEnemiesUseCase', () => {
   let mockUIFeedbackService: MockUIFeedbackService;
 
   beforeEach(() => {
-    const waveConfiguration = new WaveConfiguration(10, 5, 1000);
+    const waveConfiguration = new WaveConfiguration(enemyTypes, 10, 5, 1000);
     const gameStartTime = new Date();
     waveScheduler = new WaveScheduler(waveConfiguration, gameStartTime);
 
@@ -10,6 +10,12 @@ import { SpecialAbility } from "../../../src/domain/value-objects/special-abilit
 import { EnemyType } from "../../../src/domain/value-objects/enemy-type.js";
 import { GameEndConditionService } from "../../../src/domain/services/game-end-condition-service.js";
 import { InMemoryEventBus } from "../../../src/infrastructure/events/in-memory-event-bus.js";
+import enemiesData from "../../../config/enemies.json";
+import wavesData from "../../../config/waves.json";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry.js";
+import { WaveConfiguration } from "../../../src/domain/value-objects/wave-configuration.js";
+
+const waveConfiguration = WaveConfiguration.load(wavesData, EnemyTypeRegistry.load(enemiesData));
 
 // モックタイムプロバイダー
 class MockTimeProvider {
@@ -73,6 +79,7 @@ describe("UpdateGameSessionUseCase", () => {
   describe("敵撃破処理", () => {
     it("敵撃破でスコアが更新される", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const events: any[] = [];
@@ -96,6 +103,7 @@ describe("UpdateGameSessionUseCase", () => {
 
     it("複数の敵撃破でスコアが累積される", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       await useCase.execute({
@@ -116,6 +124,7 @@ describe("UpdateGameSessionUseCase", () => {
 
     it("非アクティブなゲームでは敵撃破を無視する", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       // ゲームを開始しない
 
       const result = await useCase.execute({
@@ -132,6 +141,7 @@ describe("UpdateGameSessionUseCase", () => {
   describe("基地ダメージ処理", () => {
     it("基地ダメージで体力が減少する", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const events: any[] = [];
@@ -155,6 +165,7 @@ describe("UpdateGameSessionUseCase", () => {
 
     it("基地破壊でゲームオーバーになる", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const gameOverEvents: any[] = [];
@@ -184,8 +195,13 @@ describe("UpdateGameSessionUseCase", () => {
   describe("タイマー更新処理", () => {
     it("タイマー更新で残り時間が変化する", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
-      mockTimeProvider.advanceTime(30000); // 30秒経過
+      // 制限時間はゲーム内時計で計る（30秒経過）
+      gameSession.clock.accumulate(30000);
+      while (gameSession.clock.consumeStep()) {
+        // ステップを消化するだけでシミュレーションは進めない
+      }
 
       const result = await useCase.execute({
         gameSession,
@@ -198,6 +214,7 @@ describe("UpdateGameSessionUseCase", () => {
 
     it("時間切れでゲーム完了になる", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
       mockTimeProvider.advanceTime(180000); // 180秒経過
 
@@ -227,6 +244,7 @@ describe("UpdateGameSessionUseCase", () => {
   describe("ゲーム一時停止・再開", () => {
     it("ゲームを一時停止できる", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const events: any[] = [];
@@ -247,6 +265,7 @@ describe("UpdateGameSessionUseCase", () => {
 
     it("ゲームを再開できる", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
       gameSession.pause();
 
@@ -270,6 +289,7 @@ describe("UpdateGameSessionUseCase", () => {
   describe("異常なケース", () => {
     it("無効な更新タイプでエラー", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const result = await useCase.execute({
@@ -293,6 +313,7 @@ describe("UpdateGameSessionUseCase", () => {
 
     it("敵撃破で敵タイプが指定されていない場合はエラー", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const result = await useCase.execute({
@@ -307,6 +328,7 @@ describe("UpdateGameSessionUseCase", () => {
 
     it("基地ダメージでダメージ量が指定されていない場合はエラー", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const result = await useCase.execute({
@@ -321,6 +343,7 @@ describe("UpdateGameSessionUseCase", () => {
 
     it("実行中でないゲームを一時停止するとエラー", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       // ゲームを開始しない
 
       const result = await useCase.execute({
@@ -336,6 +359,7 @@ describe("UpdateGameSessionUseCase", () => {
   describe("終了条件の優先度", () => {
     it("時間切れと基地破壊が同時の場合は時間切れが優先される", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
       
       // 基地を破壊寸前まで削る
@@ -370,6 +394,7 @@ describe("UpdateGameSessionUseCase", () => {
   describe("パフォーマンステスト", () => {
     it("大量の更新処理でもパフォーマンスが維持される", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       gameSession.startGame();
 
       const startTime = Date.now();
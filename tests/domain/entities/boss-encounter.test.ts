@@ -0,0 +1,84 @@
+import { describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import { BossEncounter, type BossEvent } from "../../../src/domain/entities/boss-encounter";
+import { Enemy } from "../../../src/domain/entities/enemy";
+import { BossActionType } from "../../../src/domain/value-objects/boss-phase";
+import { EnemyType } from "../../../src/domain/value-objects/enemy-type";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path";
+import { Position } from "../../../src/domain/value-objects/position";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+
+describe("BossEncounter", () => {
+  const movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+
+  const createBoss = (): Enemy =>
+    new Enemy("boss-1", enemyTypes.get("WARLORD"), movementPath, new Date());
+
+  const eventTypes = (events: BossEvent[]) => events.map((event) => event.type);
+
+  it("フェーズを持たない敵タイプでは作成できない", () => {
+    const enemy = new Enemy("enemy-1", enemyTypes.get("BOSS"), movementPath, new Date());
+
+    expect(() => new BossEncounter(enemy)).toThrow("フェーズを持たない敵タイプです: BOSS");
+  });
+
+  it("行動の予兆を出してから、予兆の時間が過ぎると発動する", () => {
+    const encounter = new BossEncounter(createBoss());
+
+    // 進軍: 4000ミリ秒後に突進の予兆、1000ミリ秒後に発動
+    expect(encounter.update(3999)).toEqual([]);
+
+    const telegraph = encounter.update(1);
+    expect(eventTypes(telegraph)).toEqual(["telegraph"]);
+    expect(telegraph[0]).toMatchObject({
+      action: { type: BossActionType.SPEED_BURST },
+      duration: 1000,
+    });
+    expect(encounter.pendingActionCount).toBe(1);
+
+    expect(eventTypes(encounter.update(1000))).toEqual(["action"]);
+    expect(encounter.pendingActionCount).toBe(0);
+  });
+
+  it("体力の割合がしきい値を下回ると次のフェーズに入り、複数のフェーズを一度に進むこともある", () => {
+    const boss = createBoss();
+    const encounter = new BossEncounter(boss);
+
+    boss.takeDamage(boss.maxHealth * 0.5);
+    const events = encounter.update(0);
+
+    expect(eventTypes(events)).toEqual(["phase-changed"]);
+    expect(encounter.phase.name).toBe("号令");
+
+    boss.takeDamage(boss.maxHealth * 0.3);
+    encounter.update(0);
+
+    expect(encounter.phaseIndex).toBe(2);
+    expect(encounter.phaseCount).toBe(3);
+  });
+
+  it("予兆の時間が0の行動はフェーズに入ってすぐに発動する", () => {
+    const boss = createBoss();
+    const encounter = new BossEncounter(boss);
+
+    boss.takeDamage(boss.maxHealth * 0.8);
+    const events = encounter.update(0);
+
+    expect(eventTypes(events)).toEqual(["phase-changed", "phase-changed", "action"]);
+    expect(events[2]).toMatchObject({ action: { type: BossActionType.SHIELD } });
+  });
+
+  it("ボスが倒されると予兆を出した行動も発動しない", () => {
+    const boss = createBoss();
+    const encounter = new BossEncounter(boss);
+    encounter.update(4000);
+
+    boss.takeDamage(boss.maxHealth);
+
+    expect(encounter.isDefeated).toBe(true);
+    expect(encounter.update(1000)).toEqual([]);
+    expect(encounter.pendingActionCount).toBe(0);
+  });
+});
@@ -1,6 +1,7 @@
 import { describe, expect, it } from "bun:test";
 import { CardPool } from "../../../src/domain/entities/card-pool.js";
 import { Card } from "../../../src/domain/entities/card.js";
+import { RandomService } from "../../../src/domain/services/random-service.js";
 import { CardCost } from "../../../src/domain/value-objects/card-cost.js";
 import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
 import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
@@ -166,4 +167,15 @@ describe("CardPool", () => {
       }
     });
   });
+
+  describe("シード付き乱数", () => {
+    it("同じ乱数生成関数では同じカードが選択される", () => {
+      const pool = new CardPool(createTestCards(30));
+
+      const first = pool.selectRandomCards(8, RandomService.createSource(1));
+      const second = pool.selectRandomCards(8, RandomService.createSource(1));
+
+      expect(first.map((card) => card.id)).toEqual(second.map((card) => card.id));
+    });
+  });
 });
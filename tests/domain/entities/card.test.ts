@@ -1,6 +1,7 @@
 import { describe, expect, it } from "bun:test";
-import { Card } from "../../../src/domain/entities/card.js";
+import { Card, type CardTowerStats } from "../../../src/domain/entities/card.js";
 import { CardCost } from "../../../src/domain/value-objects/card-cost.js";
+import { CardRarity } from "../../../src/domain/value-objects/card-rarity.js";
 import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
 import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
 
@@ -36,9 +37,103 @@ describe("Card", () => {
 
       expect(card.specialAbility).toBe(SpecialAbility.BURN);
     });
+
+    it("タワー性能補正付きのカードを作成できる", () => {
+      const card = new Card(
+        "card-003",
+        "精鋭弓兵",
+        "強化された弓兵タワーを配置する",
+        new CardCost(3),
+        TowerType.ARCHER,
+        SpecialAbility.NONE,
+        { damage: 35, range: 110 }
+      );
+
+      expect(card.towerStats).toEqual({ damage: 35, range: 110 });
+    });
+
+    it("タワー性能補正を省略した場合は空の補正になる", () => {
+      const card = new Card(
+        "card-004",
+        "弓兵カード",
+        "説明",
+        new CardCost(1),
+        TowerType.ARCHER,
+        SpecialAbility.NONE
+      );
+
+      expect(card.towerStats).toEqual({});
+    });
+
+    it("レアリティとタグを持つカードを作成できる", () => {
+      const card = new Card(
+        "card-005",
+        "伝説の弓兵",
+        "伝説の弓兵タワーを配置する",
+        new CardCost(7),
+        TowerType.ARCHER,
+        SpecialAbility.MULTI_SHOT,
+        {},
+        CardRarity.LEGENDARY,
+        ["late-game", "multi-target", "late-game"]
+      );
+
+      expect(card.rarity).toBe(CardRarity.LEGENDARY);
+      expect(card.tags).toEqual(["late-game", "multi-target"]);
+      expect(card.hasTag("multi-target")).toBe(true);
+      expect(card.hasTag("early-game")).toBe(false);
+      expect(card.getDisplayInfo().rarity).toBe("レジェンダリー");
+    });
+
+    it("レアリティとタグを省略した場合はコモン・タグなしになる", () => {
+      const card = new Card(
+        "card-006",
+        "弓兵カード",
+        "説明",
+        new CardCost(1),
+        TowerType.ARCHER,
+        SpecialAbility.NONE
+      );
+
+      expect(card.rarity).toBe(CardRarity.COMMON);
+      expect(card.tags).toEqual([]);
+    });
   });
 
   describe("異常なケース", () => {
+    it("無効なレアリティでエラーが発生する", () => {
+      expect(
+        () =>
+          new Card(
+            "card-001",
+            "弓兵カード",
+            "説明",
+            new CardCost(1),
+            TowerType.ARCHER,
+            SpecialAbility.NONE,
+            {},
+            "mythic" as CardRarity
+          )
+      ).toThrow("無効なレアリティです: mythic");
+    });
+
+    it("空のタグでエラーが発生する", () => {
+      expect(
+        () =>
+          new Card(
+            "card-001",
+            "弓兵カード",
+            "説明",
+            new CardCost(1),
+            TowerType.ARCHER,
+            SpecialAbility.NONE,
+            {},
+            CardRarity.COMMON,
+            ["basic", " "]
+          )
+      ).toThrow("カードタグは空であってはいけません");
+    });
+
     it("空のIDでエラーが発生する", () => {
       expect(
         () =>
@@ -73,6 +168,44 @@ describe("Card", () => {
           )
       ).toThrow("カード説明は空であってはいけません");
     });
+
+    it("不正なタワー性能補正でエラーが発生する", () => {
+      expect(
+        () =>
+          new Card(
+            "card-001",
+            "テストカード",
+            "説明",
+            new CardCost(1),
+            TowerType.ARCHER,
+            SpecialAbility.NONE,
+            { range: 0 }
+          )
+      ).toThrow("タワーの射程は正の値である必要があります");
+    });
+
+    it("不正な会心・ばらつきの補正でエラーが発生する", () => {
+      const createCard = (towerStats: CardTowerStats) =>
+        new Card(
+          "card-001",
+          "テストカード",
+          "説明",
+          new CardCost(1),
+          TowerType.ARCHER,
+          SpecialAbility.NONE,
+          towerStats
+        );
+
+      expect(() => createCard({ critChance: 1.5 })).toThrow(
+        "タワーの会心率は0以上1以下である必要があります"
+      );
+      expect(() => createCard({ critMultiplier: 0.5 })).toThrow(
+        "タワーの会心倍率は1以上である必要があります"
+      );
+      expect(() => createCard({ damageVariance: -0.1 })).toThrow(
+        "タワーのダメージのばらつきは0以上1以下である必要があります"
+      );
+    });
   });
 
   describe("等価性", () => {
@@ -0,0 +1,109 @@
+import { describe, expect, it } from "bun:test";
+import { Card } from "../../../src/domain/entities/card.js";
+import { Deck } from "../../../src/domain/entities/deck.js";
+import { CardCost } from "../../../src/domain/value-objects/card-cost.js";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
+import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+
+describe("Deck", () => {
+  const createTestCards = (count: number): Card[] =>
+    Array.from(
+      { length: count },
+      (_, i) =>
+        new Card(
+          `card-${i + 1}`,
+          `カード${i + 1}`,
+          "テスト用カード",
+          new CardCost(1),
+          TowerType.ARCHER,
+          SpecialAbility.NONE
+        )
+    );
+
+  describe("正常なケース", () => {
+    it("指定したカードで山札を作成できる", () => {
+      const deck = new Deck(createTestCards(10));
+
+      expect(deck.drawPileCount).toBe(10);
+      expect(deck.discardPileCount).toBe(0);
+      expect(deck.canDraw).toBe(true);
+    });
+
+    it("山札からカードを引ける", () => {
+      const deck = new Deck(createTestCards(3));
+
+      const card = deck.draw();
+
+      expect(card).not.toBeNull();
+      expect(deck.drawPileCount).toBe(2);
+    });
+
+    it("指定枚数のカードを重複なく引ける", () => {
+      const deck = new Deck(createTestCards(10));
+
+      const cards = deck.drawMany(5);
+
+      expect(cards).toHaveLength(5);
+      expect(new Set(cards.map((card) => card.id)).size).toBe(5);
+    });
+
+    it("カードを捨て札に置ける", () => {
+      const deck = new Deck(createTestCards(3));
+      const card = deck.draw() as Card;
+
+      deck.discard(card);
+
+      expect(deck.discardPileCount).toBe(1);
+      expect(deck.getDiscardPile()).toEqual([card]);
+    });
+
+    it("山札が尽きたら捨て札をシャッフルして引く", () => {
+      const deck = new Deck(createTestCards(2));
+      const cards = deck.drawMany(2);
+      for (const card of cards) {
+        deck.discard(card);
+      }
+
+      const card = deck.draw();
+
+      expect(card).not.toBeNull();
+      expect(deck.reshuffleCount).toBe(1);
+      expect(deck.drawPileCount).toBe(1);
+      expect(deck.discardPileCount).toBe(0);
+    });
+
+    it("乱数関数によってシャッフル順が決まる", () => {
+      const cards = createTestCards(5);
+      const deck1 = new Deck(cards, () => 0.5);
+      const deck2 = new Deck(cards, () => 0.5);
+
+      expect(deck1.drawMany(5)).toEqual(deck2.drawMany(5));
+    });
+
+    it("リセットすると捨て札も含めて初期化される", () => {
+      const deck = new Deck(createTestCards(3));
+      deck.discard(deck.draw() as Card);
+
+      deck.reset(createTestCards(4));
+
+      expect(deck.drawPileCount).toBe(4);
+      expect(deck.discardPileCount).toBe(0);
+      expect(deck.reshuffleCount).toBe(0);
+    });
+  });
+
+  describe("境界値", () => {
+    it("山札も捨て札も空の場合はnullを返す", () => {
+      const deck = new Deck();
+
+      expect(deck.canDraw).toBe(false);
+      expect(deck.draw()).toBeNull();
+    });
+
+    it("カードが足りない場合は引ける分だけ返す", () => {
+      const deck = new Deck(createTestCards(2));
+
+      expect(deck.drawMany(5)).toHaveLength(2);
+    });
+  });
+});
@@ -2,10 +2,12 @@ import { describe, it, expect, mock } from "bun:test";
 import { EffectManager } from "../../../src/domain/entities/effect-manager";
 import { Position } from "../../../src/domain/value-objects/position";
 import { Color } from "../../../src/domain/value-objects/color";
+import { DamageType } from "../../../src/domain/value-objects/damage-type";
 import { RenderingService } from "../../../src/domain/services/rendering-service";
 import { AnimationService } from "../../../src/domain/services/animation-service";
 import { ParticleEffect } from "../../../src/infrastructure/effects/particle-effect";
 import { DamageNumberEffect } from "../../../src/infrastructure/effects/damage-number-effect";
+import { TelegraphEffect } from "../../../src/infrastructure/effects/telegraph-effect";
 
 describe("EffectManager", () => {
   const createMockRenderingService = (): RenderingService => ({
@@ -98,6 +100,18 @@ describe("EffectManager", () => {
     expect(manager.activeEffectCount).toBe(1);
   });
 
+  it("should create upgrade effect", () => {
+    const renderingService = createMockRenderingService();
+    const animationService = createMockAnimationService();
+    const manager = new EffectManager(renderingService, animationService);
+    const position = new Position(120, 180);
+
+    const effect = manager.createUpgradeEffect(position);
+
+    expect(effect).toBeInstanceOf(ParticleEffect);
+    expect(manager.activeEffectCount).toBe(1);
+  });
+
   it("should create damage number effect", () => {
     const renderingService = createMockRenderingService();
     const animationService = createMockAnimationService();
@@ -126,6 +140,34 @@ describe("EffectManager", () => {
     expect(manager.activeEffectCount).toBe(1);
   });
 
+  it("should create damage number colored by damage type", () => {
+    const renderingService = createMockRenderingService();
+    const animationService = createMockAnimationService();
+    const manager = new EffectManager(renderingService, animationService);
+
+    const effect = manager.createTypedDamageNumber(
+      new Position(100, 100),
+      30,
+      DamageType.FIRE,
+      false,
+      true
+    );
+
+    expect(effect).toBeInstanceOf(DamageNumberEffect);
+    expect(effect.damage).toBe(30);
+    expect(manager.activeEffectCount).toBe(1);
+  });
+
+  it("should use a distinct color for each damage type", () => {
+    const manager = new EffectManager(createMockRenderingService(), createMockAnimationService());
+
+    const colors = DamageType.getAllTypes().map((type) =>
+      manager.getDamageTypeColor(type).toRGBA()
+    );
+
+    expect(new Set(colors).size).toBe(DamageType.getAllTypes().length);
+  });
+
   it("should create healing number effect", () => {
     const renderingService = createMockRenderingService();
     const animationService = createMockAnimationService();
@@ -140,6 +182,20 @@ describe("EffectManager", () => {
     expect(manager.activeEffectCount).toBe(1);
   });
 
+  it("should create telegraph effect", () => {
+    const renderingService = createMockRenderingService();
+    const animationService = createMockAnimationService();
+    const manager = new EffectManager(renderingService, animationService);
+    const position = new Position(100, 100);
+
+    const effect = manager.createTelegraph(position, 120, 1500, "妨害");
+
+    expect(effect).toBeInstanceOf(TelegraphEffect);
+    expect(effect.radius).toBe(120);
+    expect(effect.label).toBe("妨害");
+    expect(manager.activeEffectCount).toBe(1);
+  });
+
   it("should create custom particle effect", () => {
     const renderingService = createMockRenderingService();
     const animationService = createMockAnimationService();
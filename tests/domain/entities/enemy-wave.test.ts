@@ -1,17 +1,24 @@
-import { describe, it, expect, beforeEach } from 'bun:test';
+import { describe, it, expect, beforeEach, afterEach, setSystemTime } from 'bun:test';
 import { EnemyWave } from '../../../src/domain/entities/enemy-wave';
 import { Enemy } from '../../../src/domain/entities/enemy';
-import { EnemyType } from '../../../src/domain/value-objects/enemy-type';
+import type { EnemyType } from '../../../src/domain/value-objects/enemy-type';
 import { WaveConfiguration } from '../../../src/domain/value-objects/wave-configuration';
 import { Position } from '../../../src/domain/value-objects/position';
 import { MovementPath } from '../../../src/domain/value-objects/movement-path';
+import { GameMap } from '../../../src/domain/value-objects/game-map';
+import { Lane } from '../../../src/domain/value-objects/lane';
+import { ScriptedWave } from '../../../src/domain/value-objects/scripted-wave';
+import enemiesData from '../../../config/enemies.json';
+import { EnemyTypeRegistry } from '../../../src/domain/value-objects/enemy-type-registry';
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
 
 describe('EnemyWave', () => {
   let waveConfiguration: WaveConfiguration;
   let movementPath: MovementPath;
 
   beforeEach(() => {
-    waveConfiguration = new WaveConfiguration(10, 5, 1000);
+    waveConfiguration = new WaveConfiguration(enemyTypes, 10, 5, 1000);
     const pathPoints = [
       new Position(0, 100),
       new Position(200, 100),
@@ -145,10 +152,152 @@ describe('EnemyWave', () => {
       }
       
       // Wave 1 should only have BASIC and FAST enemies
-      expect(spawnedTypes.has(EnemyType.BASIC) || spawnedTypes.has(EnemyType.FAST)).toBe(true);
-      expect(spawnedTypes.has(EnemyType.RANGED)).toBe(false);
-      expect(spawnedTypes.has(EnemyType.ENHANCED)).toBe(false);
-      expect(spawnedTypes.has(EnemyType.BOSS)).toBe(false);
+      expect(spawnedTypes.has(enemyTypes.get('BASIC')) || spawnedTypes.has(enemyTypes.get('FAST'))).toBe(true);
+      expect(spawnedTypes.has(enemyTypes.get('RANGED'))).toBe(false);
+      expect(spawnedTypes.has(enemyTypes.get('ENHANCED'))).toBe(false);
+      expect(spawnedTypes.has(enemyTypes.get('BOSS'))).toBe(false);
+    });
+  });
+
+  describe('spawnNextEnemies', () => {
+    let gameMap: GameMap;
+    let southPath: MovementPath;
+
+    beforeEach(() => {
+      setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      southPath = new MovementPath([new Position(0, 400), new Position(800, 300)]);
+      gameMap = new GameMap('twin', '双子', [
+        new Lane('north', '北', movementPath, 3),
+        new Lane('south', '南', southPath, 2),
+      ]);
+    });
+
+    afterEach(() => {
+      setSystemTime();
+    });
+
+    const advance = (ms: number) => setSystemTime(new Date(Date.now() + ms));
+
+    it('should spawn one enemy on every lane at once', () => {
+      const wave = new EnemyWave(1, waveConfiguration);
+
+      const enemies = wave.spawnNextEnemies(gameMap);
+
+      expect(enemies).toHaveLength(2);
+      expect(enemies[0]?.movementPath).toBe(movementPath);
+      expect(enemies[1]?.movementPath).toBe(southPath);
+      expect(enemies.map(enemy => enemy.id)).toEqual(['wave-1-enemy-1', 'wave-1-enemy-2']);
+      expect(wave.spawnedCount).toBe(2);
+    });
+
+    it('should respect spawn interval between groups', () => {
+      const wave = new EnemyWave(1, waveConfiguration);
+
+      wave.spawnNextEnemies(gameMap);
+
+      expect(wave.spawnNextEnemies(gameMap)).toHaveLength(0);
+      advance(waveConfiguration.spawnInterval);
+      expect(wave.spawnNextEnemies(gameMap)).toHaveLength(2);
+    });
+
+    it('should split the wave between lanes by spawn weight', () => {
+      const wave = new EnemyWave(1, waveConfiguration);
+
+      const spawned = [];
+      while (wave.spawnedCount < wave.totalEnemyCount) {
+        spawned.push(...wave.spawnNextEnemies(gameMap));
+        advance(waveConfiguration.spawnInterval);
+      }
+
+      expect(spawned).toHaveLength(10);
+      expect(spawned.filter(enemy => enemy.movementPath === movementPath)).toHaveLength(6);
+      expect(spawned.filter(enemy => enemy.movementPath === southPath)).toHaveLength(4);
+      expect(wave.spawnNextEnemies(gameMap)).toHaveLength(0);
+    });
+  });
+
+  describe('scripted waves', () => {
+    let gameMap: GameMap;
+    let southPath: MovementPath;
+    let scriptedConfiguration: WaveConfiguration;
+
+    beforeEach(() => {
+      setSystemTime(new Date('2026-01-01T00:00:00Z'));
+      southPath = new MovementPath([new Position(0, 400), new Position(800, 300)]);
+      gameMap = new GameMap('twin', '双子', [
+        new Lane('north', '北', movementPath, 1),
+        new Lane('south', '南', southPath, 1),
+      ]);
+      scriptedConfiguration = new WaveConfiguration(enemyTypes, 10, 5, 1000, 30000, WaveConfiguration.DEFAULT_DISTRIBUTIONS, [
+        new ScriptedWave(1, '挟撃', [
+          { enemyType: enemyTypes.get('BASIC'), count: 2, spawnInterval: 1000, laneId: 'south', delay: 0 },
+          { enemyType: enemyTypes.get('FAST'), count: 2, spawnInterval: 500, laneId: null, delay: 1000 },
+        ]),
+      ]);
+    });
+
+    afterEach(() => {
+      setSystemTime();
+    });
+
+    const advance = (ms: number) => setSystemTime(new Date(Date.now() + ms));
+
+    it('should take the enemy count from the script', () => {
+      const wave = new EnemyWave(1, scriptedConfiguration);
+
+      expect(wave.totalEnemyCount).toBe(4);
+      expect(wave.scriptedWave?.name).toBe('挟撃');
+      expect(new EnemyWave(2, scriptedConfiguration).scriptedWave).toBeNull();
+    });
+
+    it('should spawn enemies when their scheduled time arrives', () => {
+      const wave = new EnemyWave(1, scriptedConfiguration);
+
+      expect(wave.spawnNextEnemies(gameMap).map(enemy => enemy.type)).toEqual([enemyTypes.get('BASIC')]);
+      advance(500);
+      expect(wave.spawnNextEnemies(gameMap)).toHaveLength(0);
+      advance(500);
+      expect(wave.spawnNextEnemies(gameMap).map(enemy => enemy.type)).toEqual([
+        enemyTypes.get('BASIC'),
+        enemyTypes.get('FAST'),
+      ]);
+      advance(500);
+      expect(wave.spawnNextEnemies(gameMap).map(enemy => enemy.type)).toEqual([enemyTypes.get('FAST')]);
+      expect(wave.spawnedCount).toBe(4);
+      expect(wave.canSpawnEnemy()).toBe(false);
+    });
+
+    it('should spawn every overdue enemy at once', () => {
+      const wave = new EnemyWave(1, scriptedConfiguration);
+
+      advance(5000);
+
+      expect(wave.spawnNextEnemies(gameMap)).toHaveLength(4);
+    });
+
+    it('should use the scripted lane and split the rest by spawn weight', () => {
+      const wave = new EnemyWave(1, scriptedConfiguration);
+
+      advance(5000);
+      const enemies = wave.spawnNextEnemies(gameMap);
+
+      expect(enemies.map(enemy => enemy.movementPath)).toEqual([
+        southPath,
+        southPath,
+        movementPath,
+        southPath,
+      ]);
+    });
+
+    it('should fall back to the primary lane for unknown lanes', () => {
+      const configuration = new WaveConfiguration(enemyTypes, 10, 5, 1000, 30000, WaveConfiguration.DEFAULT_DISTRIBUTIONS, [
+        new ScriptedWave(1, '迷子', [
+          { enemyType: enemyTypes.get('BASIC'), count: 1, spawnInterval: 1000, laneId: 'west', delay: 0 },
+        ]),
+      ]);
+      const wave = new EnemyWave(1, configuration);
+
+      expect(wave.spawnNextEnemies(gameMap)[0]?.movementPath).toBe(movementPath);
     });
   });
 
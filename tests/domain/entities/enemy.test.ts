@@ -3,6 +3,11 @@ import { Enemy } from '../../../src/domain/entities/enemy';
 import { EnemyType } from '../../../src/domain/value-objects/enemy-type';
 import { Position } from '../../../src/domain/value-objects/position';
 import { MovementPath } from '../../../src/domain/value-objects/movement-path';
+import { StatusEffect, StatusEffectType } from '../../../src/domain/value-objects/status-effect';
+import enemiesData from '../../../config/enemies.json';
+import { EnemyTypeRegistry } from '../../../src/domain/value-objects/enemy-type-registry';
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
 
 describe('Enemy', () => {
   let movementPath: MovementPath;
@@ -21,10 +26,10 @@ describe('Enemy', () => {
   describe('constructor', () => {
     it('should create enemy with valid parameters', () => {
       const spawnTime = new Date();
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, spawnTime);
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, spawnTime);
       
       expect(enemy.id).toBe('enemy-1');
-      expect(enemy.type).toBe(EnemyType.BASIC);
+      expect(enemy.type).toBe(enemyTypes.get('BASIC'));
       expect(enemy.currentHealth).toBe(100);
       expect(enemy.maxHealth).toBe(100);
       expect(enemy.attackPower).toBe(50);
@@ -37,13 +42,13 @@ describe('Enemy', () => {
     });
 
     it('should initialize with spawn point position', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.FAST, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('FAST'), movementPath, new Date());
       
       expect(enemy.currentPosition.equals(movementPath.spawnPoint)).toBe(true);
     });
 
     it('should initialize with type-specific stats', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BOSS, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BOSS'), movementPath, new Date());
       
       expect(enemy.currentHealth).toBe(300);
       expect(enemy.maxHealth).toBe(300);
@@ -54,7 +59,7 @@ describe('Enemy', () => {
 
   describe('takeDamage', () => {
     it('should reduce health by damage amount', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       enemy.takeDamage(30);
       
@@ -63,7 +68,7 @@ describe('Enemy', () => {
     });
 
     it('should not reduce health below zero', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       enemy.takeDamage(150);
       
@@ -72,7 +77,7 @@ describe('Enemy', () => {
     });
 
     it('should mark enemy as dead when health reaches zero', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       enemy.takeDamage(100);
       
@@ -81,7 +86,7 @@ describe('Enemy', () => {
     });
 
     it('should ignore negative damage', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       const initialHealth = enemy.currentHealth;
       
       enemy.takeDamage(-10);
@@ -90,7 +95,7 @@ describe('Enemy', () => {
     });
 
     it('should ignore zero damage', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       const initialHealth = enemy.currentHealth;
       
       enemy.takeDamage(0);
@@ -101,7 +106,7 @@ describe('Enemy', () => {
 
   describe('move', () => {
     it('should update position based on movement speed and time', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       // Move for 1 second at 100 pixels/second
       enemy.move(1000);
@@ -111,7 +116,7 @@ describe('Enemy', () => {
     });
 
     it('should not move if enemy is dead', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.takeDamage(100); // Kill the enemy
       
       const initialPosition = enemy.currentPosition;
@@ -124,7 +129,7 @@ describe('Enemy', () => {
     });
 
     it('should stop at base when reaching end of path', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       // Move for a very long time to ensure reaching the end
       enemy.move(100000);
@@ -134,7 +139,7 @@ describe('Enemy', () => {
     });
 
     it('should handle zero delta time', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       const initialPosition = enemy.currentPosition;
       const initialProgress = enemy.pathProgress;
       
@@ -147,13 +152,13 @@ describe('Enemy', () => {
 
   describe('isAtBase', () => {
     it('should return false when enemy is at spawn', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       expect(enemy.isAtBase()).toBe(false);
     });
 
     it('should return true when enemy reaches base', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       // Move to the end
       enemy.move(100000);
@@ -162,7 +167,7 @@ describe('Enemy', () => {
     });
 
     it('should return true when progress is exactly 1', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       // Move enemy to the end of the path
       enemy.move(100000); // Move for a very long time to reach the end
@@ -173,7 +178,7 @@ describe('Enemy', () => {
 
   describe('attackBase', () => {
     it('should return attack power', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       const damage = enemy.attackBase();
       
@@ -181,8 +186,8 @@ describe('Enemy', () => {
     });
 
     it('should return correct attack power for different enemy types', () => {
-      const bossEnemy = new Enemy('boss-1', EnemyType.BOSS, movementPath, new Date());
-      const fastEnemy = new Enemy('fast-1', EnemyType.FAST, movementPath, new Date());
+      const bossEnemy = new Enemy('boss-1', enemyTypes.get('BOSS'), movementPath, new Date());
+      const fastEnemy = new Enemy('fast-1', enemyTypes.get('FAST'), movementPath, new Date());
       
       expect(bossEnemy.attackBase()).toBe(100);
       expect(fastEnemy.attackBase()).toBe(30);
@@ -191,27 +196,27 @@ describe('Enemy', () => {
 
   describe('getHealthPercentage', () => {
     it('should return 100% for full health', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       expect(enemy.getHealthPercentage()).toBe(1.0);
     });
 
     it('should return 50% for half health', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.takeDamage(50);
       
       expect(enemy.getHealthPercentage()).toBe(0.5);
     });
 
     it('should return 0% for dead enemy', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.takeDamage(100);
       
       expect(enemy.getHealthPercentage()).toBe(0);
     });
 
     it('should handle fractional health correctly', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.takeDamage(33);
       
       expect(enemy.getHealthPercentage()).toBe(0.67);
@@ -220,7 +225,7 @@ describe('Enemy', () => {
 
   describe('destroy', () => {
     it('should mark enemy as dead', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       enemy.destroy();
       
@@ -228,7 +233,7 @@ describe('Enemy', () => {
     });
 
     it('should set health to zero', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       enemy.destroy();
       
@@ -236,7 +241,7 @@ describe('Enemy', () => {
     });
 
     it('should be idempotent', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       enemy.destroy();
       enemy.destroy();
@@ -246,24 +251,195 @@ describe('Enemy', () => {
     });
   });
 
+  describe('getInterpolatedPosition', () => {
+    it('should interpolate between the previous and current update', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+      const before = enemy.currentPosition;
+
+      enemy.update(100);
+      const after = enemy.currentPosition;
+
+      expect(enemy.getInterpolatedPosition(0).equals(before)).toBe(true);
+      expect(enemy.getInterpolatedPosition(1).equals(after)).toBe(true);
+      expect(enemy.getInterpolatedPosition(0.5).equals(before.interpolate(after, 0.5))).toBe(true);
+    });
+  });
+
   describe('getAge', () => {
-    it('should return age in milliseconds', () => {
+    it('should return zero for just spawned enemy', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+
+      expect(enemy.getAge()).toBe(0);
+    });
+
+    it('should accumulate the elapsed game time passed to update', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+
+      enemy.update(16);
+      enemy.update(34);
+
+      expect(enemy.getAge()).toBe(50);
+    });
+
+    it('should not depend on the wall clock', () => {
       const spawnTime = new Date(Date.now() - 5000); // 5 seconds ago
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, spawnTime);
-      
-      const age = enemy.getAge();
-      
-      expect(age).toBeGreaterThanOrEqual(4900); // Allow some tolerance
-      expect(age).toBeLessThanOrEqual(5100);
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, spawnTime);
+
+      enemy.update(100);
+
+      expect(enemy.getAge()).toBe(100);
     });
+  });
 
-    it('should return zero for just spawned enemy', () => {
-      const spawnTime = new Date();
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, spawnTime);
-      
-      const age = enemy.getAge();
-      
-      expect(age).toBeLessThan(100); // Should be very small
+  describe('status effects', () => {
+    it('should reduce movement speed while slowed', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+
+      enemy.applyStatusEffect(StatusEffect.slow(2000, 0.5));
+
+      expect(enemy.hasStatusEffect(StatusEffectType.SLOW)).toBe(true);
+      expect(enemy.currentMovementSpeed).toBe(enemy.movementSpeed * 0.5);
+    });
+
+    it('should stack slow effects up to max stacks', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+      const slow = StatusEffect.slow(2000, 0.5);
+
+      for (let i = 0; i < 5; i++) {
+        enemy.applyStatusEffect(slow);
+      }
+
+      const [active] = enemy.getStatusEffects();
+      expect(active?.stacks).toBe(slow.maxStacks);
+      expect(enemy.currentMovementSpeed).toBeCloseTo(enemy.movementSpeed * 0.5 ** slow.maxStacks);
+    });
+
+    it('should not move while frozen or stunned', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+      enemy.applyStatusEffect(StatusEffect.stun(1000));
+
+      enemy.move(500);
+
+      expect(enemy.isImmobilized).toBe(true);
+      expect(enemy.pathProgress).toBe(0);
+    });
+
+    it('should deal tick damage per stack over time', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+      enemy.applyStatusEffect(StatusEffect.poison(4000, 5));
+      enemy.applyStatusEffect(StatusEffect.poison(4000, 5));
+
+      const damage = enemy.updateStatusEffects(StatusEffect.TICK_INTERVAL * 2);
+
+      expect(damage).toBe(20);
+      expect(enemy.currentHealth).toBe(80);
+    });
+
+    it('should expire effects after their duration', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+      enemy.applyStatusEffect(StatusEffect.freeze(1000));
+
+      enemy.updateStatusEffects(1000);
+
+      expect(enemy.hasStatusEffect(StatusEffectType.FREEZE)).toBe(false);
+      expect(enemy.currentMovementSpeed).toBe(enemy.movementSpeed);
+    });
+
+    it('should take increased damage while armor is broken', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+      enemy.applyStatusEffect(StatusEffect.armorBreak(3000, 1.5));
+
+      const actualDamage = enemy.takeDamage(20);
+
+      expect(actualDamage).toBe(30);
+      expect(enemy.currentHealth).toBe(70);
+    });
+
+    it('should clear effects when destroyed', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+      enemy.applyStatusEffect(StatusEffect.burn());
+
+      enemy.destroy();
+
+      expect(enemy.getStatusEffects()).toHaveLength(0);
+    });
+  });
+
+  describe('abilities', () => {
+    it('should absorb damage with the shield before health', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('SHIELDED'), movementPath, new Date());
+
+      expect(enemy.shield).toBe(60);
+      expect(enemy.takeDamage(80)).toBe(80);
+      expect(enemy.shield).toBe(0);
+      expect(enemy.currentHealth).toBe(80);
+    });
+
+    it('should regenerate the shield after the regen delay', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('SHIELDED'), movementPath, new Date());
+      enemy.takeDamage(40);
+
+      enemy.update(2000);
+      expect(enemy.shield).toBe(20);
+
+      enemy.update(1000);
+      enemy.update(1000);
+      expect(enemy.shield).toBe(40);
+    });
+
+    it('should heal up to max health', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+      enemy.takeDamage(30);
+
+      expect(enemy.heal(50)).toBe(30);
+      expect(enemy.currentHealth).toBe(100);
+    });
+
+    it('should expose flying and stealth', () => {
+      const flyer = new Enemy('enemy-1', enemyTypes.get('FLYER'), movementPath, new Date());
+      const shadow = new Enemy('enemy-2', enemyTypes.get('SHADOW'), movementPath, new Date());
+      const basic = new Enemy('enemy-3', enemyTypes.get('BASIC'), movementPath, new Date());
+
+      expect(flyer.isFlying).toBe(true);
+      expect(shadow.isStealthed).toBe(true);
+      expect(basic.isFlying).toBe(false);
+      expect(basic.isStealthed).toBe(false);
+    });
+
+    it('should start from the given path progress', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date(), 0.5);
+
+      expect(enemy.pathProgress).toBe(0.5);
+      expect(enemy.currentPosition.equals(movementPath.getPositionAtProgress(0.5))).toBe(true);
+    });
+  });
+
+  describe('boss actions', () => {
+    it('should move faster during a speed burst', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+
+      enemy.applySpeedBurst(2, 1000);
+      expect(enemy.isSpeedBursting).toBe(true);
+      expect(enemy.currentMovementSpeed).toBe(enemy.movementSpeed * 2);
+
+      enemy.update(1000);
+      expect(enemy.isSpeedBursting).toBe(false);
+      expect(enemy.currentMovementSpeed).toBe(enemy.movementSpeed);
+    });
+
+    it('should absorb damage with a granted shield that does not regenerate', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+
+      enemy.grantShield(50);
+      expect(enemy.shield).toBe(50);
+      expect(enemy.maxShield).toBe(50);
+
+      enemy.takeDamage(70);
+      expect(enemy.shield).toBe(0);
+      expect(enemy.currentHealth).toBe(80);
+
+      enemy.update(10000);
+      expect(enemy.shield).toBe(0);
     });
   });
-});
\ No newline at end of file
+});
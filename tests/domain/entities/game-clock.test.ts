@@ -0,0 +1,76 @@
+import { describe, expect, it } from "bun:test";
+import { GameClock } from "../../../src/domain/entities/game-clock.js";
+
+describe("GameClock", () => {
+  describe("コンストラクタ", () => {
+    it("開始時刻とステップ時間を指定して作成できる", () => {
+      const clock = new GameClock(1000, 20);
+
+      expect(clock.getCurrentTime()).toBe(1000);
+      expect(clock.startTime).toBe(1000);
+      expect(clock.step).toBe(20);
+      expect(clock.stepCount).toBe(0);
+    });
+
+    it("既定のステップ時間は10ミリ秒", () => {
+      expect(new GameClock().step).toBe(GameClock.DEFAULT_STEP);
+      expect(GameClock.DEFAULT_STEP).toBe(10);
+    });
+
+    it("ステップ時間が正でない場合はエラー", () => {
+      expect(() => new GameClock(0, 0)).toThrow("ステップ時間は正の値である必要があります");
+    });
+  });
+
+  describe("ステップの消化", () => {
+    it("蓄積した時間をステップ単位で消化して時刻を進める", () => {
+      const clock = new GameClock(0, 10);
+
+      clock.accumulate(35);
+      let steps = 0;
+      while (clock.consumeStep()) {
+        steps++;
+      }
+
+      expect(steps).toBe(3);
+      expect(clock.getCurrentTime()).toBe(30);
+      expect(clock.stepCount).toBe(3);
+      expect(clock.pendingTime).toBe(5);
+    });
+
+    it("ステップ時間に満たない端数は次のフレームに持ち越す", () => {
+      const clock = new GameClock(0, 10);
+
+      clock.accumulate(6);
+      expect(clock.consumeStep()).toBe(false);
+
+      clock.accumulate(6);
+      expect(clock.consumeStep()).toBe(true);
+      expect(clock.consumeStep()).toBe(false);
+      expect(clock.pendingTime).toBe(2);
+    });
+
+    it("補間係数は消化されていない時間のステップに対する割合", () => {
+      const clock = new GameClock(0, 10);
+
+      clock.accumulate(14);
+      clock.consumeStep();
+
+      expect(clock.alpha).toBeCloseTo(0.4);
+    });
+
+    it("蓄積した時間を破棄できる", () => {
+      const clock = new GameClock(0, 10);
+
+      clock.accumulate(25);
+      clock.discardPendingTime();
+
+      expect(clock.consumeStep()).toBe(false);
+      expect(clock.getCurrentTime()).toBe(0);
+    });
+
+    it("負の経過時間はエラー", () => {
+      expect(() => new GameClock().accumulate(-1)).toThrow("経過時間は0以上である必要があります");
+    });
+  });
+});
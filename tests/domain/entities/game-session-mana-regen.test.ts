@@ -10,6 +10,12 @@ import { Card } from "../../../src/domain/entities/card.js";
 import { CardCost } from "../../../src/domain/value-objects/card-cost.js";
 import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
 import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
+import enemiesData from "../../../config/enemies.json";
+import wavesData from "../../../config/waves.json";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry.js";
+import { WaveConfiguration } from "../../../src/domain/value-objects/wave-configuration.js";
+
+const waveConfiguration = WaveConfiguration.load(wavesData, EnemyTypeRegistry.load(enemiesData));
 
 class MockTimeProvider {
   private currentTime = 0;
@@ -87,6 +93,7 @@ describe("GameSession - マナ回復システム", () => {
 
     mockTimeProvider = new MockTimeProvider();
     gameSession = new GameSession("test-session", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+    gameSession.setWaveConfiguration(waveConfiguration);
   });
 
   describe("マナ回復機能", () => {
@@ -125,6 +132,8 @@ describe("GameSession - マナ回復システム", () => {
 
     it("最大マナを超えて回復しない", () => {
       gameSession.startGame();
+      // 90秒分のステップを進めても基地が破壊されないよう敵の波を止める
+      gameSession.waveScheduler.stopWaveScheduling();
       
       // マナを最大まで回復させる
       gameSession.update(90000); // 90秒経過で90マナ回復（10 + 90 = 100）
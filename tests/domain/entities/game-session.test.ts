@@ -9,6 +9,19 @@ import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
 import { GameState } from "../../../src/domain/value-objects/game-state.js";
 import { GameEndReason } from "../../../src/domain/value-objects/game-end-reason.js";
 import { EnemyType } from "../../../src/domain/value-objects/enemy-type.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
+import { ManaTransaction } from "../../../src/domain/value-objects/mana-transaction.js";
+import { GameMap } from "../../../src/domain/value-objects/game-map.js";
+import { Lane } from "../../../src/domain/value-objects/lane.js";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path.js";
+import { WaveConfiguration } from "../../../src/domain/value-objects/wave-configuration.js";
+import { RandomService } from "../../../src/domain/services/random-service.js";
+import enemiesData from "../../../config/enemies.json";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry.js";
+import wavesData from "../../../config/waves.json";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+const waveConfiguration = WaveConfiguration.load(wavesData, enemyTypes);
 
 // モックタイムプロバイダー
 class MockTimeProvider {
@@ -63,6 +76,7 @@ describe("GameSession", () => {
       const cardLibrary = new CardLibrary();
 
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       expect(session.id).toBe("session-001");
       expect(session.hand.isEmpty).toBe(true);
@@ -78,6 +92,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
 
@@ -95,6 +110,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       const handCards = session.hand.getCards();
@@ -112,6 +128,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       const handCards = session.hand.getCards();
@@ -127,6 +144,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       session.endGame();
@@ -140,6 +158,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       const handCards = session.hand.getCards();
@@ -155,6 +174,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       session.endGame();
@@ -170,6 +190,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       const handCards = session.hand.getCards();
@@ -205,6 +226,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       expect(() => session.startGame()).toThrow("カードプールに十分なカードがありません");
     });
@@ -214,6 +236,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       expect(() => session.startGame()).toThrow("ゲームは既にアクティブです");
@@ -224,6 +247,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       expect(() => session.playCard("card-001")).toThrow("ゲームがアクティブではありません");
     });
@@ -233,6 +257,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       expect(() => session.playCard("non-existent")).toThrow("指定されたカードが手札にありません");
@@ -243,6 +268,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       expect(() => session.endGame()).toThrow("ゲームがアクティブではありません");
     });
@@ -254,6 +280,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       const initialHandSize = session.hand.size;
@@ -276,6 +303,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       session.pause();
@@ -289,6 +317,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       session.pause();
@@ -303,6 +332,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       session.handleEnemyDefeated(EnemyType.normal());
@@ -317,6 +347,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       session.handleBaseDamaged(30);
@@ -330,9 +361,14 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
-      mockTimeProvider.advanceTime(180000); // 180秒経過
+      // 制限時間はゲーム内時計で計る（180秒経過）
+      session.clock.accumulate(180000);
+      while (session.clock.consumeStep()) {
+        // ステップを消化するだけでシミュレーションは進めない
+      }
 
       expect(session.isGameOver()).toBe(true);
       expect(session.getEndReason()?.isTimeUp()).toBe(true);
@@ -343,6 +379,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       session.handleBaseDamaged(100); // 基地破壊
@@ -356,6 +393,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       session.endGame(GameEndReason.timeUp());
@@ -370,6 +408,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       // ゲームを開始せずに処理を試行
       session.handleEnemyDefeated(EnemyType.normal());
@@ -386,6 +425,7 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       expect(() => session.pause()).toThrow("実行中のゲームのみ一時停止できます");
     });
@@ -395,9 +435,619 @@ describe("GameSession", () => {
       const cardPool = new CardPool(cards);
       const cardLibrary = new CardLibrary();
       const session = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      session.setWaveConfiguration(waveConfiguration);
 
       session.startGame();
       expect(() => session.resume()).toThrow("一時停止中のゲームのみ再開できます");
     });
   });
+
+  describe("デッキサイクル", () => {
+    const createStartedSession = (): GameSession => {
+      const cardPool = new CardPool(createTestCards(30));
+      const session = new GameSession(
+        "session-001",
+        cardPool,
+        new CardLibrary(),
+        180,
+        100,
+        mockTimeProvider
+      );
+      session.setWaveConfiguration(waveConfiguration);
+      session.startGame();
+      return session;
+    };
+
+    const firstCardInHand = (session: GameSession): Card => session.hand.getCards()[0] as Card;
+
+    it("ゲーム開始時にカードプールから山札が作られ手札が配られる", () => {
+      const session = createStartedSession();
+
+      const stats = session.getSessionStats();
+      expect(stats.cardsInHand).toBe(8);
+      expect(stats.drawPileCount).toBe(22);
+      expect(stats.discardPileCount).toBe(0);
+    });
+
+    it("プレイしたカードは捨て札に置かれる", () => {
+      const session = createStartedSession();
+      const card = firstCardInHand(session);
+
+      session.playCard(card.id);
+
+      expect(session.getSessionStats().discardPileCount).toBe(1);
+      expect(session.deck.getDiscardPile()).toContain(card);
+    });
+
+    it("マナを支払ってカードを引ける", () => {
+      const session = createStartedSession();
+      session.playCard(firstCardInHand(session).id);
+      const manaBefore = session.manaPool.getCurrentMana();
+
+      const result = session.drawCard();
+
+      expect(result.success).toBe(true);
+      expect(session.hand.size).toBe(8);
+      expect(session.manaPool.getCurrentMana()).toBe(manaBefore - session.drawManaCost);
+      expect(session.getSessionStats().drawPileCount).toBe(21);
+    });
+
+    it("手札が満杯の場合はカードを引けない", () => {
+      const session = createStartedSession();
+
+      const result = session.drawCard();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("手札が満杯です");
+    });
+
+    it("一定時間ごとに手札が補充される", () => {
+      const session = createStartedSession();
+      session.playCard(firstCardInHand(session).id);
+      session.playCard(firstCardInHand(session).id);
+
+      session.update(10000);
+
+      expect(session.hand.size).toBe(7);
+    });
+
+    it("山札が尽きたら捨て札をシャッフルして山札に戻す", () => {
+      const cardPool = new CardPool(createTestCards(8));
+      const session = new GameSession(
+        "session-001",
+        cardPool,
+        new CardLibrary(),
+        180,
+        100,
+        mockTimeProvider
+      );
+      session.setWaveConfiguration(waveConfiguration);
+      session.startGame();
+      const card = firstCardInHand(session);
+      session.playCard(card.id);
+
+      const result = session.drawCard();
+
+      expect(result.card).toBe(card);
+      expect(session.deck.reshuffleCount).toBe(1);
+      expect(session.getSessionStats().discardPileCount).toBe(0);
+    });
+  });
+
+  describe("タワー強化", () => {
+    const createSessionWithTower = () => {
+      const cards = Array.from({ length: 8 }, (_, i) => createTestCard(`card-${i}`, `カード${i}`, 1));
+      const session = new GameSession(
+        "session-001",
+        new CardPool(cards),
+        new CardLibrary(),
+        180,
+        100,
+        mockTimeProvider
+      );
+      session.setWaveConfiguration(waveConfiguration);
+      session.startGame();
+      const card = session.hand.getCards()[0] as Card;
+      const placement = session.playCardAndPlaceTower(card.id, new Position(100, 100));
+      return { session, tower: placement.tower as NonNullable<typeof placement.tower> };
+    };
+
+    it("マナを支払ってタワーを強化できる", () => {
+      const { session, tower } = createSessionWithTower();
+      const manaBefore = session.manaPool.getCurrentMana();
+      const damageBefore = tower.stats.damage;
+
+      const result = session.upgradeTower(tower.id);
+
+      expect(result.success).toBe(true);
+      expect(result.newLevel).toBe(2);
+      expect(result.upgradeCost).toBe(3);
+      expect(session.manaPool.getCurrentMana()).toBe(manaBefore - 3);
+      expect(tower.stats.damage).toBeGreaterThan(damageBefore);
+    });
+
+    it("最大レベルのタワーは強化できない", () => {
+      const { session, tower } = createSessionWithTower();
+      session.upgradeTower(tower.id);
+      session.upgradeTower(tower.id);
+
+      const result = session.upgradeTower(tower.id);
+
+      expect(tower.level).toBe(3);
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("タワーは最大レベルです");
+    });
+
+    it("マナが不足している場合は強化できない", () => {
+      const { session, tower } = createSessionWithTower();
+      session.manaPool.consumeManaWithTransaction(
+        new ManaTransaction(session.manaPool.getCurrentMana(), "consumption", Date.now())
+      );
+
+      const result = session.upgradeTower(tower.id);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("マナが不足しています");
+      expect(tower.level).toBe(1);
+    });
+
+    it("存在しないタワーは強化できない", () => {
+      const { session } = createSessionWithTower();
+
+      const result = session.upgradeTower("unknown-tower");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("指定されたタワーが見つかりません");
+    });
+
+    it("クリック位置の近くにあるタワーを取得できる", () => {
+      const { session, tower } = createSessionWithTower();
+
+      expect(session.findTowerAt(new Position(105, 110))).toBe(tower);
+      expect(session.findTowerAt(new Position(200, 200))).toBeNull();
+    });
+  });
+
+  describe("タワー修理", () => {
+    const createSessionWithTower = () => {
+      const cards = Array.from({ length: 8 }, (_, i) => createTestCard(`card-${i}`, `カード${i}`, 4));
+      const session = new GameSession(
+        "session-001",
+        new CardPool(cards),
+        new CardLibrary(),
+        180,
+        100,
+        mockTimeProvider
+      );
+      session.setWaveConfiguration(waveConfiguration);
+      session.startGame();
+      const card = session.hand.getCards()[0] as Card;
+      const placement = session.playCardAndPlaceTower(card.id, new Position(100, 100));
+      return { session, tower: placement.tower as NonNullable<typeof placement.tower> };
+    };
+
+    it("マナを支払って瓦礫になったタワーを再建できる", () => {
+      const { session, tower } = createSessionWithTower();
+      tower.takeDamage(tower.maxHealth);
+      const manaBefore = session.manaPool.getCurrentMana();
+
+      const result = session.repairTower(tower.id);
+
+      expect(result.success).toBe(true);
+      expect(result.repairCost).toBe(2); // コスト4の50%
+      expect(session.manaPool.getCurrentMana()).toBe(manaBefore - 2);
+      expect(tower.isDestroyed).toBe(false);
+      expect(tower.health).toBe(tower.maxHealth);
+    });
+
+    it("損傷していないタワーは修理できない", () => {
+      const { session, tower } = createSessionWithTower();
+
+      const result = session.repairTower(tower.id);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("タワーは損傷していません");
+    });
+
+    it("瓦礫は強化できず、売却しても返還されない", () => {
+      const { session, tower } = createSessionWithTower();
+      tower.takeDamage(tower.maxHealth);
+
+      expect(session.upgradeTower(tower.id).error).toBe(
+        "破壊されたタワーは修理するまで強化できません"
+      );
+      expect(session.sellTower(tower.id).refund).toBe(0);
+    });
+  });
+
+  describe("タワー売却", () => {
+    const createSessionWithTower = () => {
+      const cards = Array.from({ length: 8 }, (_, i) => createTestCard(`card-${i}`, `カード${i}`, 4));
+      const session = new GameSession(
+        "session-001",
+        new CardPool(cards),
+        new CardLibrary(),
+        180,
+        100,
+        mockTimeProvider
+      );
+      session.setWaveConfiguration(waveConfiguration);
+      session.startGame();
+      const card = session.hand.getCards()[0] as Card;
+      const placement = session.playCardAndPlaceTower(card.id, new Position(100, 100));
+      return { session, card, tower: placement.tower as NonNullable<typeof placement.tower> };
+    };
+
+    it("設置に使ったカードは売却されるまで捨て札に置かれない", () => {
+      const { session, card, tower } = createSessionWithTower();
+
+      expect(session.getSessionStats().discardPileCount).toBe(0);
+      expect(session.getTowerCard(tower.id)).toBe(card);
+    });
+
+    it("タワーを売却するとセッションから取り除かれマナが返還される", () => {
+      const { session, tower } = createSessionWithTower();
+      const manaBefore = session.manaPool.getCurrentMana();
+
+      const result = session.sellTower(tower.id);
+
+      expect(result.success).toBe(true);
+      expect(result.refund).toBe(2); // コスト4の50%
+      expect(session.manaPool.getCurrentMana()).toBe(manaBefore + 2);
+      expect(session.getTowers()).toHaveLength(0);
+      expect(session.getTower(tower.id)).toBeNull();
+    });
+
+    it("返還額には強化費用も含まれる", () => {
+      const { session, tower } = createSessionWithTower();
+      session.upgradeTower(tower.id); // 強化コスト3
+
+      const result = session.sellTower(tower.id, { refundRatio: 1 });
+
+      expect(result.refund).toBe(7);
+    });
+
+    it("売却したタワーの位置に再びタワーを配置できる", () => {
+      const { session, tower } = createSessionWithTower();
+      session.sellTower(tower.id);
+
+      const card = session.hand.getCards()[0] as Card;
+      const placement = session.playCardAndPlaceTower(card.id, new Position(100, 100));
+
+      expect(placement.success).toBe(true);
+    });
+
+    it("指定した場合は設置に使ったカードを捨て札に戻す", () => {
+      const { session, card, tower } = createSessionWithTower();
+
+      const result = session.sellTower(tower.id, { returnCardToDiscard: true });
+
+      expect(result.returnedCard).toBe(card);
+      expect(session.deck.getDiscardPile()).toContain(card);
+    });
+
+    it("カードを戻さない場合は捨て札に置かれない", () => {
+      const { session, tower } = createSessionWithTower();
+
+      const result = session.sellTower(tower.id);
+
+      expect(result.returnedCard).toBeUndefined();
+      expect(session.getSessionStats().discardPileCount).toBe(0);
+    });
+
+    it("存在しないタワーは売却できない", () => {
+      const { session } = createSessionWithTower();
+
+      const result = session.sellTower("unknown-tower");
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("指定されたタワーが見つかりません");
+    });
+
+    it("不正な返還率では売却できない", () => {
+      const { session, tower } = createSessionWithTower();
+
+      const result = session.sellTower(tower.id, { refundRatio: 1.5 });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe("返還率は0以上1以下である必要があります");
+      expect(session.getTowers()).toHaveLength(1);
+    });
+  });
+
+  describe("マップ選択", () => {
+    const createSession = () => {
+      const session = new GameSession(
+        "session-001",
+        new CardPool(createTestCards(8)),
+        new CardLibrary(),
+        180,
+        100,
+        mockTimeProvider
+      );
+      session.setWaveConfiguration(waveConfiguration);
+      return session;
+    };
+    const twinMap = new GameMap("twin", "双子", [
+      new Lane("north", "北", new MovementPath([new Position(0, 100), new Position(800, 250)]), 1),
+      new Lane("south", "南", new MovementPath([new Position(0, 400), new Position(800, 250)]), 1),
+    ]);
+
+    it("マップを選択しない場合は既定の単一レーンを使用する", () => {
+      const session = createSession();
+
+      expect(session.gameMap.lanes).toHaveLength(1);
+      expect(session.movementPaths).toEqual([session.movementPath]);
+    });
+
+    it("選択したマップの全レーンを使用する", () => {
+      const session = createSession();
+
+      session.selectMap(twinMap);
+
+      expect(session.gameMap).toBe(twinMap);
+      expect(session.movementPath).toBe(twinMap.primaryLane.path);
+      expect(session.movementPaths).toEqual(twinMap.paths);
+    });
+
+    it("最初の波の敵はすべてのレーンから同時に出現する", () => {
+      const session = createSession();
+      session.selectMap(twinMap);
+      session.setWaveConfiguration(new WaveConfiguration(enemyTypes, 6, 0, 500));
+      session.startGame();
+      session.waveScheduler.setNextWaveTime(new Date(0));
+
+      session.update(16); // 波を開始
+      session.update(16); // 敵を生成
+
+      const spawnPaths = session.getActiveEnemies().map((enemy) => enemy.movementPath);
+      expect(spawnPaths).toContain(twinMap.paths[0]);
+      expect(spawnPaths).toContain(twinMap.paths[1]);
+    });
+
+    it("ゲーム開始後はマップを変更できない", () => {
+      const session = createSession();
+      session.startGame();
+
+      expect(() => session.selectMap(twinMap)).toThrow("ゲーム開始後はマップを変更できません");
+    });
+  });
+
+  describe("波設定", () => {
+    const createSession = () =>
+      new GameSession(
+        "session-001",
+        new CardPool(createTestCards(8)),
+        new CardLibrary(),
+        180,
+        100,
+        mockTimeProvider
+      );
+
+    it("波設定を選択しないとゲームを開始できない", () => {
+      const session = createSession();
+
+      expect(() => session.waveScheduler).toThrow("波設定が選択されていません");
+      expect(() => session.startGame()).toThrow("波設定が選択されていません");
+    });
+
+    it("選択した波設定で波を管理する", () => {
+      const session = createSession();
+
+      session.setWaveConfiguration(waveConfiguration);
+
+      expect(session.waveScheduler.waveInterval).toBe(30000);
+      expect(session.waveScheduler.currentWave).toBeNull();
+    });
+
+    it("ゲーム開始前に波設定を変更できる", () => {
+      const session = createSession();
+      const config = new WaveConfiguration(enemyTypes, 3, 1, 200, 10000);
+
+      session.setWaveConfiguration(config);
+      session.startGame();
+      session.waveScheduler.setNextWaveTime(new Date(0));
+      session.update(16);
+
+      expect(session.waveScheduler.waveInterval).toBe(10000);
+      expect(session.waveScheduler.currentWave?.totalEnemyCount).toBe(3);
+    });
+
+    it("ゲーム開始後は波設定を変更できない", () => {
+      const session = createSession();
+      session.setWaveConfiguration(waveConfiguration);
+      session.startGame();
+
+      expect(() => session.setWaveConfiguration(new WaveConfiguration(enemyTypes, 3, 1, 200))).toThrow(
+        "ゲーム開始後は波設定を変更できません"
+      );
+    });
+  });
+
+  describe("乱数シード", () => {
+    const createSession = (seed: number) =>
+      new GameSession(
+        "session-001",
+        new CardPool(createTestCards(20)),
+        new CardLibrary(),
+        180,
+        100,
+        mockTimeProvider,
+        new RandomService(seed)
+      );
+    const startAndGetHand = (seed: number) => {
+      const session = createSession(seed);
+      session.setWaveConfiguration(waveConfiguration);
+      session.startGame();
+      return session.hand.getCards().map((card) => card.id);
+    };
+
+    it("指定したシードを保持する", () => {
+      expect(createSession(2024).seed).toBe(2024);
+    });
+
+    it("同じシードでは同じ手札が配られる", () => {
+      expect(startAndGetHand(2024)).toEqual(startAndGetHand(2024));
+    });
+
+    it("異なるシードでは手札が変わる", () => {
+      expect(startAndGetHand(2024)).not.toEqual(startAndGetHand(2025));
+    });
+  });
+
+  describe("固定時間刻みのシミュレーション", () => {
+    const createSession = (cards = createTestCards(8), baseHealth = 100) => {
+      const session = new GameSession(
+        "session-001",
+        new CardPool(cards),
+        new CardLibrary(),
+        180,
+        baseHealth,
+        mockTimeProvider,
+        new RandomService(1)
+      );
+      session.setWaveConfiguration(waveConfiguration);
+      session.setWaveConfiguration(new WaveConfiguration(enemyTypes, 5, 0, 300));
+      session.startGame();
+      return session;
+    };
+    // 経路の脇に弓兵タワーを1基置いたセッション
+    const createSessionWithTower = () => {
+      const cards = Array.from({ length: 8 }, (_, i) => createTestCard(`card-${i}`, `カード${i}`, 1));
+      const session = createSession(cards);
+      const card = session.hand.getCards()[0] as Card;
+      session.playCardAndPlaceTower(card.id, new Position(100, 240));
+      return session;
+    };
+    const enemyState = (session: GameSession) =>
+      session.getActiveEnemies().map((enemy) => [enemy.id, enemy.pathProgress]);
+    const impactState = (impacts: GameSession["lastImpacts"]) =>
+      impacts.map((impact) => [impact.projectile.id, impact.hits.map((hit) => hit.damage)]);
+
+    it("フレームの分け方に関係なく同じ結果になる", () => {
+      const coarse = createSession();
+      const fine = createSession();
+
+      coarse.update(2000);
+      for (let i = 0; i < 125; i++) {
+        fine.update(16);
+      }
+
+      expect(fine.clock.getCurrentTime()).toBe(coarse.clock.getCurrentTime());
+      expect(enemyState(fine)).toEqual(enemyState(coarse));
+      expect(fine.manaPool.getCurrentMana()).toBe(coarse.manaPool.getCurrentMana());
+    });
+
+    it("ゲーム内時計はステップ単位で進み、端数は補間係数になる", () => {
+      const session = createSession();
+      const startTime = session.clock.getCurrentTime();
+
+      session.update(25);
+
+      expect(session.clock.getCurrentTime()).toBe(startTime + 20);
+      expect(session.interpolationAlpha).toBeCloseTo(0.5);
+    });
+
+    it("一時停止中はゲーム内時計も敵も進まない", () => {
+      const session = createSession();
+      session.update(1000);
+      const time = session.clock.getCurrentTime();
+      const enemies = enemyState(session);
+
+      session.pause();
+      session.update(5000);
+
+      expect(session.clock.getCurrentTime()).toBe(time);
+      expect(enemyState(session)).toEqual(enemies);
+    });
+
+    it("複数ステップにまたがる更新では全ステップの着弾が残る", () => {
+      const coarse = createSessionWithTower();
+      const fine = createSessionWithTower();
+
+      coarse.update(6000);
+      const fineImpacts: GameSession["lastImpacts"] = [];
+      for (let i = 0; i < 375; i++) {
+        fine.update(16);
+        fineImpacts.push(...fine.lastImpacts);
+      }
+
+      expect(coarse.lastImpacts.length).toBeGreaterThan(1);
+      expect(impactState(coarse.lastImpacts)).toEqual(impactState(fineImpacts));
+    });
+
+    it("1ステップに満たない更新では前回の着弾を繰り返さない", () => {
+      const session = createSessionWithTower();
+      while (session.lastImpacts.length === 0) {
+        session.update(16);
+      }
+
+      // 端数を捨てて次の更新でステップが進まないようにする
+      session.clock.discardPendingTime();
+      session.update(5);
+
+      expect(session.lastImpacts).toEqual([]);
+    });
+
+    it("長い停止の後に追いついた場合も制限時間はゲーム内時計で判定する", () => {
+      // 時間切れより先に拠点が落ちないよう拠点体力を大きくする
+      const session = createSession(createTestCards(8), 1000000);
+
+      // 実時間が止まっていた間はゲーム内時計も進まない
+      mockTimeProvider.advanceTime(600000);
+      expect(session.isGameOver()).toBe(false);
+      expect(session.timer.getRemainingSeconds()).toBe(180);
+
+      // 1フレームの上限ずつ追いつくと、ゲーム内で180秒経った時点で時間切れになる
+      let frames = 0;
+      let gameEnded = false;
+      while (!gameEnded && frames < 1000) {
+        gameEnded = session.update(250).gameEnded;
+        frames++;
+      }
+
+      expect(gameEnded).toBe(true);
+      expect(session.timer.isTimeUp()).toBe(true);
+      expect(frames).toBe(720);
+    });
+  });
+
+  describe("スナップショット", () => {
+    it("スナップショットに手札・マナ・タワー・経路が含まれる", () => {
+      const cards = Array.from({ length: 8 }, (_, i) => createTestCard(`card-${i}`, `カード${i}`, 1));
+      const session = new GameSession(
+        "session-001",
+        new CardPool(cards),
+        new CardLibrary(),
+        180,
+        100,
+        mockTimeProvider
+      );
+      session.setWaveConfiguration(waveConfiguration);
+      session.startGame();
+      const card = session.hand.getCards()[0] as Card;
+      const tower = session.playCardAndPlaceTower(card.id, new Position(100, 100)).tower;
+      if (!tower) {
+        throw new Error("タワーを配置できませんでした");
+      }
+
+      const snapshot = session.getSnapshot();
+
+      expect(snapshot.hand).toEqual(session.getHand());
+      expect(snapshot.mana).toBe(session.manaPool.getCurrentMana());
+      expect(snapshot.towers).toEqual([
+        {
+          id: tower.id,
+          type: TowerType.ARCHER,
+          position: tower.position,
+          range: tower.stats.range,
+          level: 1,
+          health: tower.maxHealth,
+          isDestroyed: false,
+        },
+      ]);
+      expect(snapshot.paths).toEqual(session.movementPaths);
+      expect(snapshot.placementPositions).toEqual(session.getValidPlacementPositions());
+    });
+  });
 });
@@ -0,0 +1,134 @@
+import { describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import { Enemy } from "../../../src/domain/entities/enemy";
+import { Projectile } from "../../../src/domain/entities/projectile";
+import { DamageType } from "../../../src/domain/value-objects/damage-type";
+import { EnemyType } from "../../../src/domain/value-objects/enemy-type";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path";
+import { Position } from "../../../src/domain/value-objects/position";
+import { ProjectileType } from "../../../src/domain/value-objects/projectile-type";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+
+describe("Projectile", () => {
+  const movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+
+  const createEnemyAt = (id: string, distance: number): Enemy => {
+    const enemy = new Enemy(id, enemyTypes.get("BASIC"), movementPath, new Date());
+    enemy.move((distance / enemy.movementSpeed) * 1000);
+    return enemy;
+  };
+
+  const createProjectile = (type: ProjectileType, target: Enemy, speed?: number) =>
+    new Projectile(
+      "projectile-1",
+      type,
+      "tower-1",
+      new Position(0, 0),
+      target,
+      30,
+      150,
+      SpecialAbility.NONE,
+      DamageType.PHYSICAL,
+      false,
+      speed
+    );
+
+  it("should reject negative damage", () => {
+    const target = createEnemyAt("target", 100);
+
+    expect(
+      () =>
+        new Projectile(
+          "projectile-1",
+          ProjectileType.HOMING,
+          "tower-1",
+          new Position(0, 0),
+          target,
+          -1,
+          150,
+          SpecialAbility.NONE
+        )
+    ).toThrow("弾のダメージは0以上である必要があります");
+  });
+
+  describe("HOMING", () => {
+    it("should travel toward the target and impact on arrival", () => {
+      const target = createEnemyAt("target", 100);
+      const projectile = createProjectile(ProjectileType.HOMING, target, 400);
+
+      expect(projectile.update(100)).toBe(false);
+      expect(projectile.position.x).toBeCloseTo(40);
+      expect(projectile.isActive).toBe(true);
+
+      expect(projectile.update(200)).toBe(true);
+      expect(projectile.hasImpacted).toBe(true);
+      expect(projectile.isActive).toBe(false);
+      expect(projectile.position.equals(target.currentPosition)).toBe(true);
+    });
+
+    it("should follow a moving target", () => {
+      const target = createEnemyAt("target", 100);
+      const projectile = createProjectile(ProjectileType.HOMING, target, 400);
+
+      projectile.update(100);
+      target.move(500);
+
+      expect(projectile.aimPoint.equals(target.currentPosition)).toBe(false);
+      projectile.update(0);
+      expect(projectile.aimPoint.equals(target.currentPosition)).toBe(true);
+    });
+
+    it("should keep flying to the last known position after the target dies", () => {
+      const target = createEnemyAt("target", 100);
+      const projectile = createProjectile(ProjectileType.HOMING, target, 400);
+      const lastPosition = target.currentPosition;
+
+      target.destroy();
+      projectile.update(300);
+
+      expect(projectile.hasImpacted).toBe(true);
+      expect(projectile.position.equals(lastPosition)).toBe(true);
+    });
+
+    it("should expire after max flight time without impact", () => {
+      const target = createEnemyAt("target", 100);
+      const projectile = createProjectile(ProjectileType.HOMING, target, 1);
+
+      expect(projectile.update(Projectile.MAX_FLIGHT_TIME)).toBe(false);
+      expect(projectile.isActive).toBe(false);
+      expect(projectile.hasImpacted).toBe(false);
+    });
+  });
+
+  describe("BALLISTIC", () => {
+    it("should land on the position aimed at when fired", () => {
+      const target = createEnemyAt("target", 100);
+      const projectile = createProjectile(ProjectileType.BALLISTIC, target, 200);
+      const aimed = target.currentPosition;
+
+      target.move(1000);
+      projectile.update(250);
+
+      expect(projectile.arcHeight).toBeCloseTo(Projectile.BALLISTIC_ARC_HEIGHT);
+      expect(projectile.update(250)).toBe(true);
+      expect(projectile.position.equals(aimed)).toBe(true);
+    });
+  });
+
+  describe("BEAM", () => {
+    it("should impact on the first update and stay visible briefly", () => {
+      const target = createEnemyAt("target", 100);
+      const projectile = createProjectile(ProjectileType.BEAM, target);
+
+      expect(projectile.update(16)).toBe(true);
+      expect(projectile.position.equals(target.currentPosition)).toBe(true);
+      expect(projectile.isActive).toBe(true);
+
+      expect(projectile.update(Projectile.BEAM_DURATION)).toBe(false);
+      expect(projectile.isActive).toBe(false);
+    });
+  });
+});
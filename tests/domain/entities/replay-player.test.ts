@@ -0,0 +1,212 @@
+import { describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import { CardLibrary } from "../../../src/domain/entities/card-library.js";
+import { CardPool } from "../../../src/domain/entities/card-pool.js";
+import { Card } from "../../../src/domain/entities/card.js";
+import { GameSession } from "../../../src/domain/entities/game-session.js";
+import type { TimeProvider } from "../../../src/domain/entities/game-timer.js";
+import { ReplayPlayer } from "../../../src/domain/entities/replay-player.js";
+import { ReplayRecorder } from "../../../src/domain/entities/replay-recorder.js";
+import { RandomService } from "../../../src/domain/services/random-service.js";
+import { CardCost } from "../../../src/domain/value-objects/card-cost.js";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
+import type { Replay } from "../../../src/domain/value-objects/replay.js";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
+import { TargetingStrategy } from "../../../src/domain/value-objects/targeting-strategy.js";
+import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+import { WaveConfiguration } from "../../../src/domain/value-objects/wave-configuration.js";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+
+describe("ReplayPlayer", () => {
+  const cards = Array.from(
+    { length: 8 },
+    (_, i) =>
+      new Card(
+        `card-${i}`,
+        `カード${i}`,
+        "テスト用カード",
+        new CardCost(2),
+        TowerType.ARCHER,
+        SpecialAbility.NONE
+      )
+  );
+
+  const createSession = (seed: number, timeProvider: TimeProvider, gameDuration = 180) => {
+    const session = new GameSession(
+      "replay-test",
+      new CardPool(cards),
+      new CardLibrary(),
+      gameDuration,
+      100,
+      timeProvider,
+      new RandomService(seed)
+    );
+    session.setWaveConfiguration(new WaveConfiguration(enemyTypes, 5, 1, 500, 4000));
+    session.startGame();
+    return session;
+  };
+
+  const factory = (replay: Replay, timeProvider: TimeProvider) =>
+    createSession(replay.seed, timeProvider);
+
+  const snapshot = (session: GameSession) => ({
+    time: session.clock.getCurrentTime(),
+    wave: session.waveScheduler.waveNumber,
+    mana: session.manaPool.getCurrentMana(),
+    hand: session.getHand().map((card) => card.id),
+    towers: session.getTowers().map((tower) => [tower.id, tower.level, tower.targetingStrategy]),
+    enemies: session
+      .getActiveEnemies()
+      .map((enemy) => [enemy.id, enemy.pathProgress, enemy.currentHealth]),
+    score: session.score.getTotalScore(),
+  });
+
+  /**
+   * 不規則なフレーム間隔で操作しながら試合を記録する
+   */
+  const recordMatch = () => {
+    let now = 5000;
+    const session = createSession(99, { getCurrentTime: () => now });
+    const recorder = new ReplayRecorder(session);
+    const frame = (deltaTime: number) => {
+      now += deltaTime;
+      session.update(deltaTime);
+    };
+
+    const card = session.getHand()[0] as Card;
+    session.playCardAndPlaceTower(card.id, new Position(100, 100));
+    recorder.record({ type: "card-played", cardId: card.id, x: 100, y: 100 });
+
+    for (let i = 0; i < 60; i++) frame(17);
+    session.setTowerTargetingStrategy("tower-1", TargetingStrategy.LAST);
+    recorder.record({
+      type: "targeting-changed",
+      towerId: "tower-1",
+      strategy: TargetingStrategy.LAST,
+    });
+
+    session.togglePause();
+    recorder.record({ type: "game-pause" });
+    frame(3000);
+    session.togglePause();
+    recorder.record({ type: "game-pause" });
+
+    for (let i = 0; i < 80; i++) frame(33);
+    session.upgradeTower("tower-1");
+    recorder.record({ type: "tower-upgraded", towerId: "tower-1" });
+    session.drawCard();
+    recorder.record({ type: "card-drawn" });
+
+    for (let i = 0; i < 200; i++) frame(41);
+
+    return { session, replay: recorder.toReplay() };
+  };
+
+  it("should reproduce the recorded match", () => {
+    const { session, replay } = recordMatch();
+    const player = new ReplayPlayer(replay, factory);
+
+    player.seek(replay.endTick);
+
+    expect(player.isFinished).toBe(true);
+    expect(player.tick).toBe(session.clock.stepCount);
+    expect(snapshot(player.session)).toEqual(snapshot(session));
+  });
+
+  it("should reproduce the match at any playback speed", () => {
+    const { session, replay } = recordMatch();
+    const player = new ReplayPlayer(replay, factory);
+    player.setSpeed(4);
+
+    while (!player.isFinished) {
+      player.update(16);
+    }
+
+    expect(snapshot(player.session)).toEqual(snapshot(session));
+  });
+
+  it("should end on the same tick as a match recorded on the wall clock with a stall", () => {
+    let now = 5000;
+    const session = createSession(7, { getCurrentTime: () => now }, 10);
+    const recorder = new ReplayRecorder(session);
+    // ゲーム側と同じく1フレームの経過時間を250msで切り詰めるため、停止した実時間はゲーム内時間に反映されない
+    const frame = (elapsed: number) => {
+      now += elapsed;
+      return session.update(Math.min(elapsed, 250)).gameEnded;
+    };
+
+    const card = session.getHand()[0] as Card;
+    session.playCardAndPlaceTower(card.id, new Position(100, 100));
+    recorder.record({ type: "card-played", cardId: card.id, x: 100, y: 100 });
+    for (let i = 0; i < 100; i++) frame(16);
+    frame(60000);
+    let gameEnded = false;
+    for (let i = 0; i < 1000 && !gameEnded; i++) {
+      gameEnded = frame(16);
+    }
+    const replay = recorder.toReplay();
+    const player = new ReplayPlayer(replay, (recorded, timeProvider) =>
+      createSession(recorded.seed, timeProvider, 10)
+    );
+
+    player.seek(replay.endTick);
+
+    expect(gameEnded).toBe(true);
+    expect(session.state.isCompleted()).toBe(true);
+    expect(replay.endTick).toBe(1000);
+    expect(player.tick).toBe(replay.endTick);
+    expect(player.session.state.isCompleted()).toBe(true);
+    expect(snapshot(player.session)).toEqual(snapshot(session));
+  });
+
+  it("should advance by elapsed time multiplied by speed", () => {
+    const { replay } = recordMatch();
+    const player = new ReplayPlayer(replay, factory);
+
+    player.update(100);
+    expect(player.tick).toBe(10);
+
+    player.setSpeed(2);
+    player.update(100);
+    expect(player.tick).toBe(30);
+  });
+
+  it("should throw error for unsupported speed", () => {
+    const { replay } = recordMatch();
+    const player = new ReplayPlayer(replay, factory);
+
+    expect(() => player.setSpeed(3)).toThrow("再生速度は 1・2・4 倍のいずれかである必要があります");
+  });
+
+  it("should rewind by re-simulating from the start", () => {
+    const { replay } = recordMatch();
+    const player = new ReplayPlayer(replay, factory);
+    player.seek(300);
+    const expected = snapshot(player.session);
+
+    player.seek(replay.endTick);
+    player.seek(300);
+
+    expect(player.tick).toBe(300);
+    expect(snapshot(player.session)).toEqual(expected);
+  });
+
+  it("should jump to the start of a wave", () => {
+    const { replay } = recordMatch();
+    const player = new ReplayPlayer(replay, factory);
+
+    expect(player.jumpToWave(1)).toBe(true);
+    const waveStart = player.tick;
+    expect(player.session.waveScheduler.waveNumber).toBe(1);
+    expect(waveStart).toBeGreaterThan(0);
+
+    player.seek(replay.endTick);
+    expect(player.jumpToWave(1)).toBe(true);
+    expect(player.tick).toBe(waveStart);
+
+    expect(player.jumpToWave(99)).toBe(false);
+    expect(player.isFinished).toBe(true);
+  });
+});
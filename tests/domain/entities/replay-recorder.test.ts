@@ -0,0 +1,74 @@
+import { describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import wavesData from "../../../config/waves.json";
+import { CardLibrary } from "../../../src/domain/entities/card-library.js";
+import { CardPool } from "../../../src/domain/entities/card-pool.js";
+import { Card } from "../../../src/domain/entities/card.js";
+import { GameSession } from "../../../src/domain/entities/game-session.js";
+import { ReplayRecorder } from "../../../src/domain/entities/replay-recorder.js";
+import { RandomService } from "../../../src/domain/services/random-service.js";
+import { CardCost } from "../../../src/domain/value-objects/card-cost.js";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry.js";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
+import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+import { WaveConfiguration } from "../../../src/domain/value-objects/wave-configuration.js";
+
+const waveConfiguration = WaveConfiguration.load(wavesData, EnemyTypeRegistry.load(enemiesData));
+
+describe("ReplayRecorder", () => {
+  const createSession = () => {
+    const cards = Array.from(
+      { length: 8 },
+      (_, i) =>
+        new Card(
+          `card-${i}`,
+          `カード${i}`,
+          "テスト用カード",
+          new CardCost(2),
+          TowerType.ARCHER,
+          SpecialAbility.NONE
+        )
+    );
+    const session = new GameSession(
+      "replay-test",
+      new CardPool(cards),
+      new CardLibrary(),
+      180,
+      100,
+      { getCurrentTime: () => 2000 },
+      new RandomService(1234)
+    );
+    session.setWaveConfiguration(waveConfiguration);
+    session.startGame();
+    return session;
+  };
+
+  it("should record commands with the current simulation step", () => {
+    const session = createSession();
+    const recorder = new ReplayRecorder(session);
+
+    recorder.record({ type: "card-drawn" });
+    session.update(55);
+    recorder.record({ type: "game-pause" });
+
+    expect(recorder.commandCount).toBe(2);
+    expect(recorder.toReplay().commands).toEqual([
+      { tick: 0, type: "card-drawn" },
+      { tick: 5, type: "game-pause" },
+    ]);
+  });
+
+  it("should create replay with the session seed, map and clock", () => {
+    const session = createSession();
+    const recorder = new ReplayRecorder(session);
+    session.update(1000);
+
+    const replay = recorder.toReplay();
+
+    expect(replay.seed).toBe(1234);
+    expect(replay.mapId).toBe(session.gameMap.id);
+    expect(replay.startTime).toBe(2000);
+    expect(replay.step).toBe(session.clock.step);
+    expect(replay.endTick).toBe(100);
+  });
+});
@@ -0,0 +1,356 @@
+import { describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import { Card } from "../../../src/domain/entities/card";
+import { Enemy } from "../../../src/domain/entities/enemy";
+import { Tower } from "../../../src/domain/entities/tower";
+import { CardCost } from "../../../src/domain/value-objects/card-cost";
+import { EnemyType } from "../../../src/domain/value-objects/enemy-type";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path";
+import { Position } from "../../../src/domain/value-objects/position";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability";
+import { StatusEffectType } from "../../../src/domain/value-objects/status-effect";
+import { TargetingStrategy } from "../../../src/domain/value-objects/targeting-strategy";
+import { TowerBuff } from "../../../src/domain/value-objects/tower-buff";
+import { TowerType } from "../../../src/domain/value-objects/tower-type";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+
+describe("Tower", () => {
+  const createCard = (
+    towerType: TowerType,
+    specialAbility: SpecialAbility = SpecialAbility.NONE,
+    cost = 3,
+    towerStats = {}
+  ): Card =>
+    new Card(
+      "card-001",
+      "テストカード",
+      "説明",
+      new CardCost(cost),
+      towerType,
+      specialAbility,
+      towerStats
+    );
+
+  describe("fromCard", () => {
+    it("should use tower type of the card", () => {
+      for (const towerType of TowerType.getAllTypes()) {
+        const tower = Tower.fromCard(createCard(towerType), new Position(100, 100));
+
+        expect(tower.type).toBe(towerType);
+      }
+    });
+
+    it("should use special ability and cost of the card", () => {
+      const tower = Tower.fromCard(
+        createCard(TowerType.ICE, SpecialAbility.FREEZE, 5),
+        new Position(100, 100)
+      );
+
+      expect(tower.specialAbility).toBe(SpecialAbility.FREEZE);
+      expect(tower.stats.cost).toBe(5);
+    });
+
+    it("should apply card stat overrides on top of type defaults", () => {
+      const defaults = Tower.getDefaultStats(TowerType.ARCHER);
+      const tower = Tower.fromCard(
+        createCard(TowerType.ARCHER, SpecialAbility.NONE, 3, { damage: 35, attackSpeed: 900 }),
+        new Position(100, 100)
+      );
+
+      expect(tower.stats.damage).toBe(35);
+      expect(tower.stats.attackSpeed).toBe(900);
+      expect(tower.stats.range).toBe(defaults.range);
+    });
+  });
+
+  describe("attack", () => {
+    const movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+
+    it("should apply special ability of the tower", () => {
+      const tower = new Tower(
+        "tower-1",
+        TowerType.ICE,
+        new Position(0, 20),
+        Tower.getDefaultStats(TowerType.ICE),
+        SpecialAbility.SLOW_EFFECT
+      );
+      const enemy = new Enemy("enemy-1", enemyTypes.get("BASIC"), movementPath, new Date());
+
+      const result = tower.update([enemy], 10000);
+
+      expect(result.attacked).toBe(true);
+      expect(result.hits?.[0]?.enemy).toBe(enemy);
+      expect(enemy.hasStatusEffect(StatusEffectType.SLOW)).toBe(true);
+    });
+
+    it("should not attack during cooldown", () => {
+      const stats = Tower.getDefaultStats(TowerType.ARCHER);
+      const tower = new Tower("tower-1", TowerType.ARCHER, new Position(0, 20), stats);
+      const enemy = new Enemy("enemy-1", enemyTypes.get("BASIC"), movementPath, new Date());
+
+      expect(tower.update([enemy], 10000).attacked).toBe(true);
+      expect(tower.update([enemy], 10000 + stats.attackSpeed - 1).attacked).toBe(false);
+    });
+  });
+
+  describe("fire", () => {
+    const movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+
+    it("should start cooldown without dealing damage", () => {
+      const stats = Tower.getDefaultStats(TowerType.ARCHER);
+      const tower = new Tower("tower-1", TowerType.ARCHER, new Position(0, 20), stats);
+      const enemy = new Enemy("enemy-1", enemyTypes.get("BASIC"), movementPath, new Date());
+
+      expect(tower.fire(enemy, 10000)).toBe(true);
+      expect(enemy.currentHealth).toBe(enemy.maxHealth);
+      expect(tower.currentTarget).toBe(enemy);
+      expect(tower.canAttack(10000 + stats.attackSpeed - 1)).toBe(false);
+    });
+
+    it("should not fire without damage", () => {
+      const tower = new Tower(
+        "tower-1",
+        TowerType.SUPPORT,
+        new Position(0, 20),
+        Tower.getDefaultStats(TowerType.SUPPORT)
+      );
+      const enemy = new Enemy("enemy-1", enemyTypes.get("BASIC"), movementPath, new Date());
+
+      expect(tower.fire(enemy, 10000)).toBe(false);
+    });
+  });
+
+  describe("upgrade", () => {
+    it("should replace stats and ability and raise level", () => {
+      const stats = Tower.getDefaultStats(TowerType.ARCHER);
+      const tower = new Tower("tower-1", TowerType.ARCHER, new Position(0, 20), stats);
+
+      tower.upgrade({ ...stats, damage: 40 }, SpecialAbility.MULTI_SHOT, 3);
+
+      expect(tower.level).toBe(2);
+      expect(tower.stats.damage).toBe(40);
+      expect(tower.specialAbility).toBe(SpecialAbility.MULTI_SHOT);
+      expect(tower.upgradeSpent).toBe(3);
+      expect(tower.totalInvestment).toBe(stats.cost + 3);
+    });
+
+    it("should not share stats object with the caller", () => {
+      const stats = Tower.getDefaultStats(TowerType.ARCHER);
+      const tower = new Tower("tower-1", TowerType.ARCHER, new Position(0, 20), stats);
+
+      stats.damage = 999;
+
+      expect(tower.stats.damage).toBe(Tower.getDefaultStats(TowerType.ARCHER).damage);
+    });
+  });
+
+  describe("buff", () => {
+    it("should apply aura multipliers to effective stats only", () => {
+      const stats = Tower.getDefaultStats(TowerType.ARCHER);
+      const tower = new Tower("tower-1", TowerType.ARCHER, new Position(0, 20), stats);
+
+      tower.setBuff(new TowerBuff(1.5, 1.2));
+
+      expect(tower.stats.damage).toBe(Math.round(stats.damage * 1.5));
+      expect(tower.stats.range).toBe(Math.round(stats.range * 1.2));
+      expect(tower.baseStats.damage).toBe(stats.damage);
+      expect(tower.baseStats.range).toBe(stats.range);
+    });
+  });
+
+  describe("targeting", () => {
+    const movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+
+    const createEnemyAt = (id: string, distance: number): Enemy => {
+      const enemy = new Enemy(id, enemyTypes.get("BASIC"), movementPath, new Date());
+      enemy.move((distance / enemy.movementSpeed) * 1000);
+      return enemy;
+    };
+
+    it("should use default strategy of the tower type", () => {
+      const tower = new Tower(
+        "tower-1",
+        TowerType.ICE,
+        new Position(0, 20),
+        Tower.getDefaultStats(TowerType.ICE)
+      );
+
+      expect(tower.targetingStrategy).toBe(TargetingStrategy.FASTEST);
+    });
+
+    it("should select target by its strategy", () => {
+      const tower = new Tower(
+        "tower-1",
+        TowerType.ARCHER,
+        new Position(50, 20),
+        Tower.getDefaultStats(TowerType.ARCHER)
+      );
+      const front = createEnemyAt("front", 80);
+      const back = createEnemyAt("back", 20);
+
+      expect(tower.selectTarget([back, front])).toBe(front);
+
+      tower.setTargetingStrategy(TargetingStrategy.LAST);
+      expect(tower.selectTarget([back, front])).toBe(back);
+    });
+
+    it("should keep current target while it stays valid", () => {
+      const tower = new Tower(
+        "tower-1",
+        TowerType.ARCHER,
+        new Position(50, 20),
+        Tower.getDefaultStats(TowerType.ARCHER)
+      );
+      const first = createEnemyAt("first", 20);
+      tower.update([first], 10000);
+
+      const ahead = createEnemyAt("ahead", 80);
+      tower.update([first, ahead], 20000);
+
+      expect(tower.currentTarget).toBe(first);
+    });
+
+    it("should retarget when strategy changes", () => {
+      const tower = new Tower(
+        "tower-1",
+        TowerType.ARCHER,
+        new Position(50, 20),
+        Tower.getDefaultStats(TowerType.ARCHER)
+      );
+      const front = createEnemyAt("front", 80);
+      const back = createEnemyAt("back", 20);
+      tower.update([back, front], 10000);
+
+      tower.setTargetingStrategy(TargetingStrategy.LAST);
+      tower.update([back, front], 20000);
+
+      expect(tower.currentTarget).toBe(back);
+    });
+
+    it("should reject invalid strategy", () => {
+      const tower = new Tower(
+        "tower-1",
+        TowerType.ARCHER,
+        new Position(50, 20),
+        Tower.getDefaultStats(TowerType.ARCHER)
+      );
+
+      expect(() => tower.setTargetingStrategy("RANDOM" as TargetingStrategy)).toThrow(
+        "無効な攻撃対象選択方針です: RANDOM"
+      );
+    });
+  });
+
+  describe("enemy abilities", () => {
+    const movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+    const createEnemy = (type: string): Enemy =>
+      new Enemy(type, enemyTypes.get(type), movementPath, new Date());
+    const createTower = (type: TowerType): Tower =>
+      new Tower("tower-1", type, new Position(0, 20), Tower.getDefaultStats(type));
+
+    it("should not target flying enemies with ground-only towers", () => {
+      const flyer = createEnemy("FLYER");
+
+      expect(createTower(TowerType.CANNON).canTarget(flyer)).toBe(false);
+      expect(createTower(TowerType.ARCHER).canTarget(flyer)).toBe(true);
+      expect(createTower(TowerType.CANNON).findEnemiesInRange([flyer])).toEqual([]);
+    });
+
+    it("should target stealthed enemies only with detector towers", () => {
+      const shadow = createEnemy("SHADOW");
+
+      expect(createTower(TowerType.ARCHER).canTarget(shadow)).toBe(false);
+      expect(createTower(TowerType.MAGIC).canTarget(shadow)).toBe(true);
+      expect(createTower(TowerType.ARCHER).selectTarget([shadow])).toBeNull();
+    });
+  });
+
+  describe("disable", () => {
+    const movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+
+    it("should not attack while disabled", () => {
+      const tower = new Tower(
+        "tower-1",
+        TowerType.ARCHER,
+        new Position(0, 20),
+        Tower.getDefaultStats(TowerType.ARCHER)
+      );
+      const enemy = new Enemy("enemy-1", enemyTypes.get("BASIC"), movementPath, new Date());
+
+      tower.disable(3000);
+
+      expect(tower.isDisabled).toBe(true);
+      expect(tower.update([enemy], 10000).attacked).toBe(false);
+      expect(tower.currentTarget).toBeNull();
+    });
+
+    it("should resume after the disabled time has passed", () => {
+      const tower = new Tower(
+        "tower-1",
+        TowerType.ARCHER,
+        new Position(0, 20),
+        Tower.getDefaultStats(TowerType.ARCHER)
+      );
+      const enemy = new Enemy("enemy-1", enemyTypes.get("BASIC"), movementPath, new Date());
+
+      tower.disable(3000);
+      tower.disable(1000);
+      tower.updateDisabledTime(2000);
+      expect(tower.isDisabled).toBe(true);
+
+      tower.updateDisabledTime(1000);
+      expect(tower.isDisabled).toBe(false);
+      expect(tower.update([enemy], 10000).attacked).toBe(true);
+    });
+  });
+
+  describe("durability", () => {
+    const movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+
+    it("should be created with full health of the tower type", () => {
+      const tower = new Tower(
+        "tower-1",
+        TowerType.CANNON,
+        new Position(0, 20),
+        Tower.getDefaultStats(TowerType.CANNON)
+      );
+
+      expect(tower.maxHealth).toBe(Tower.getDefaultMaxHealth(TowerType.CANNON));
+      expect(tower.health).toBe(tower.maxHealth);
+      expect(tower.isDestroyed).toBe(false);
+    });
+
+    it("should become rubble and stop attacking when health reaches zero", () => {
+      const tower = new Tower(
+        "tower-1",
+        TowerType.ARCHER,
+        new Position(0, 20),
+        Tower.getDefaultStats(TowerType.ARCHER)
+      );
+      const enemy = new Enemy("enemy-1", enemyTypes.get("BASIC"), movementPath, new Date());
+
+      expect(tower.takeDamage(tower.maxHealth + 50)).toBe(tower.maxHealth);
+      expect(tower.isDestroyed).toBe(true);
+      expect(tower.takeDamage(10)).toBe(0);
+      expect(tower.update([enemy], 10000).attacked).toBe(false);
+    });
+
+    it("should restore full health when repaired", () => {
+      const tower = new Tower(
+        "tower-1",
+        TowerType.ARCHER,
+        new Position(0, 20),
+        Tower.getDefaultStats(TowerType.ARCHER)
+      );
+      const enemy = new Enemy("enemy-1", enemyTypes.get("BASIC"), movementPath, new Date());
+      tower.takeDamage(tower.maxHealth);
+
+      tower.repair();
+
+      expect(tower.health).toBe(tower.maxHealth);
+      expect(tower.update([enemy], 10000).attacked).toBe(true);
+    });
+  });
+});
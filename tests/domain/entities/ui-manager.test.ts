@@ -1,17 +1,21 @@
 import { describe, it, expect, mock } from "bun:test";
 import { UIManager } from "../../../src/domain/entities/ui-manager";
+import { Position } from "../../../src/domain/value-objects/position";
+import { TargetingStrategy } from "../../../src/domain/value-objects/targeting-strategy";
 
 // Mock UI components
 const createMockHeaderUI = () => ({
   updateTimer: mock(() => {}),
   updateScore: mock(() => {}),
   updateHealth: mock(() => {}),
+  updateBoss: mock(() => {}),
   render: mock(() => {}),
 });
 
 const createMockHandUI = () => ({
   updateHand: mock(() => {}),
   updateMana: mock(() => {}),
+  updateDeckCounts: mock(() => {}),
   selectCard: mock(() => {}),
   render: mock(() => {}),
 });
@@ -19,6 +23,9 @@ const createMockHandUI = () => ({
 const createMockGameFieldUI = () => ({
   updateEnemies: mock(() => {}),
   updateTowers: mock(() => {}),
+  updateMovementPath: mock(() => {}),
+  updateMovementPaths: mock(() => {}),
+  updateTileGrid: mock(() => {}),
   render: mock(() => {}),
 });
 
@@ -28,6 +35,15 @@ const createMockTooltipUI = () => ({
   render: mock(() => {}),
 });
 
+const createMockTowerPanelUI = () => ({
+  isVisible: true,
+  show: mock(() => {}),
+  hide: mock(() => {}),
+  containsPoint: mock(() => true),
+  getStrategyAt: mock(() => TargetingStrategy.CLOSEST),
+  render: mock(() => {}),
+});
+
 describe("UIManager", () => {
   it("should create UI manager with components", () => {
     const headerUI = createMockHeaderUI();
@@ -63,6 +79,34 @@ describe("UIManager", () => {
     expect(headerUI.updateTimer).toHaveBeenCalledWith(120);
     expect(headerUI.updateScore).toHaveBeenCalledWith(1500);
     expect(headerUI.updateHealth).toHaveBeenCalledWith(80, 100);
+    expect(headerUI.updateBoss).toHaveBeenCalledWith(null);
+  });
+
+  it("should update boss bar during a boss encounter", () => {
+    const headerUI = createMockHeaderUI();
+    const handUI = createMockHandUI();
+    const gameFieldUI = createMockGameFieldUI();
+    const tooltipUI = createMockTooltipUI();
+
+    const uiManager = new UIManager(headerUI, handUI, gameFieldUI, tooltipUI);
+
+    const boss = {
+      name: "鉄甲将軍",
+      phaseName: "進軍",
+      health: 1200,
+      maxHealth: 1500,
+      shield: 0,
+    };
+
+    uiManager.updateGameState({
+      timeRemaining: 120,
+      score: 1500,
+      health: 80,
+      maxHealth: 100,
+      boss,
+    });
+
+    expect(headerUI.updateBoss).toHaveBeenCalledWith(boss);
   });
 
   it("should update hand state", () => {
@@ -86,6 +130,26 @@ describe("UIManager", () => {
 
     expect(handUI.updateHand).toHaveBeenCalledWith(handState.cards);
     expect(handUI.updateMana).toHaveBeenCalledWith(7, 10);
+    expect(handUI.updateDeckCounts).not.toHaveBeenCalled();
+  });
+
+  it("should update deck counts when provided", () => {
+    const headerUI = createMockHeaderUI();
+    const handUI = createMockHandUI();
+    const gameFieldUI = createMockGameFieldUI();
+    const tooltipUI = createMockTooltipUI();
+
+    const uiManager = new UIManager(headerUI, handUI, gameFieldUI, tooltipUI);
+
+    uiManager.updateHandState({
+      cards: [],
+      currentMana: 7,
+      maxMana: 10,
+      drawPileCount: 20,
+      discardPileCount: 4,
+    });
+
+    expect(handUI.updateDeckCounts).toHaveBeenCalledWith(20, 4);
   });
 
   it("should show tooltip", () => {
@@ -171,4 +235,63 @@ describe("UIManager", () => {
     expect(gameFieldUI.render).toHaveBeenCalledWith(mockContext, deltaTime);
     expect(tooltipUI.render).toHaveBeenCalledWith(mockContext, deltaTime);
   });
-});
\ No newline at end of file
+
+  it("should show and hide tower panel", () => {
+    const towerPanelUI = createMockTowerPanelUI();
+    const uiManager = new UIManager(
+      createMockHeaderUI(),
+      createMockHandUI(),
+      createMockGameFieldUI(),
+      createMockTooltipUI(),
+      towerPanelUI
+    );
+    const state = {
+      towerId: "tower-1",
+      name: "弓兵タワー",
+      level: 1,
+      maxLevel: 3,
+      damage: 25,
+      range: 100,
+      attackSpeed: 1000,
+      specialAbility: "なし",
+      targetingStrategy: TargetingStrategy.FIRST,
+      upgradeCost: 3,
+      sellRefund: 1,
+      health: 150,
+      maxHealth: 150,
+      repairCost: null,
+    };
+
+    uiManager.showTowerPanel(state);
+    uiManager.hideTowerPanel();
+
+    expect(towerPanelUI.show).toHaveBeenCalledWith(state);
+    expect(towerPanelUI.hide).toHaveBeenCalled();
+  });
+
+  it("should delegate tower panel hit testing", () => {
+    const uiManager = new UIManager(
+      createMockHeaderUI(),
+      createMockHandUI(),
+      createMockGameFieldUI(),
+      createMockTooltipUI(),
+      createMockTowerPanelUI()
+    );
+    const position = new Position(700, 200);
+
+    expect(uiManager.isOnTowerPanel(position)).toBe(true);
+    expect(uiManager.getTowerPanelStrategyAt(position)).toBe(TargetingStrategy.CLOSEST);
+  });
+
+  it("should work without tower panel", () => {
+    const uiManager = new UIManager(
+      createMockHeaderUI(),
+      createMockHandUI(),
+      createMockGameFieldUI(),
+      createMockTooltipUI()
+    );
+
+    expect(uiManager.isOnTowerPanel(new Position(700, 200))).toBe(false);
+    expect(uiManager.getTowerPanelStrategyAt(new Position(700, 200))).toBeNull();
+  });
+});
@@ -3,13 +3,17 @@ import { WaveScheduler } from '../../../src/domain/entities/wave-scheduler';
 import { WaveConfiguration } from '../../../src/domain/value-objects/wave-configuration';
 import { Position } from '../../../src/domain/value-objects/position';
 import { MovementPath } from '../../../src/domain/value-objects/movement-path';
+import enemiesData from '../../../config/enemies.json';
+import { EnemyTypeRegistry } from '../../../src/domain/value-objects/enemy-type-registry';
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
 
 describe('WaveScheduler', () => {
   let waveConfiguration: WaveConfiguration;
   let movementPath: MovementPath;
 
   beforeEach(() => {
-    waveConfiguration = new WaveConfiguration(10, 5, 1000);
+    waveConfiguration = new WaveConfiguration(enemyTypes, 10, 5, 1000);
     const pathPoints = [
       new Position(0, 100),
       new Position(200, 100),
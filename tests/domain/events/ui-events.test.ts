@@ -1,5 +1,6 @@
 import { describe, it, expect } from "bun:test";
 import { UIEventFactory } from "../../../src/domain/events/ui-events";
+import { DamageType } from "../../../src/domain/value-objects/damage-type";
 import { Position } from "../../../src/domain/value-objects/position";
 
 describe("UIEvents", () => {
@@ -59,6 +60,37 @@ describe("UIEvents", () => {
       expect(event.source).toBe('game-field');
     });
 
+    it("should create tower selected event", () => {
+      const position = new Position(150, 250);
+      const event = UIEventFactory.createTowerSelected('tower-1', position, 'game-field');
+
+      expect(event.type).toBe('tower-selected');
+      expect(event.towerId).toBe('tower-1');
+      expect(event.position.equals(position)).toBe(true);
+      expect(event.source).toBe('game-field');
+    });
+
+    it("should create tower upgraded event", () => {
+      const event = UIEventFactory.createTowerUpgraded('tower-1', 2, 3, 'keyboard');
+
+      expect(event.type).toBe('tower-upgraded');
+      expect(event.towerId).toBe('tower-1');
+      expect(event.newLevel).toBe(2);
+      expect(event.upgradeCost).toBe(3);
+      expect(event.source).toBe('keyboard');
+    });
+
+    it("should create tower sold event", () => {
+      const position = new Position(150, 250);
+      const event = UIEventFactory.createTowerSold('tower-1', position, 4, 'keyboard');
+
+      expect(event.type).toBe('tower-sold');
+      expect(event.towerId).toBe('tower-1');
+      expect(event.position.equals(position)).toBe(true);
+      expect(event.refund).toBe(4);
+      expect(event.source).toBe('keyboard');
+    });
+
     it("should create enemy hit event", () => {
       const position = new Position(200, 300);
       const event = UIEventFactory.createEnemyHit('enemy-1', 25, position, false, 'tower-1');
@@ -69,6 +101,24 @@ describe("UIEvents", () => {
       expect(event.position.equals(position)).toBe(true);
       expect(event.isCritical).toBe(false);
       expect(event.source).toBe('tower-1');
+      expect(event.damageType).toBeUndefined();
+      expect(event.isResisted).toBe(false);
+    });
+
+    it("should create enemy hit event with damage type", () => {
+      const position = new Position(200, 300);
+      const event = UIEventFactory.createEnemyHit(
+        'enemy-1',
+        12,
+        position,
+        false,
+        'projectile',
+        DamageType.FIRE,
+        true
+      );
+
+      expect(event.damageType).toBe(DamageType.FIRE);
+      expect(event.isResisted).toBe(true);
     });
 
     it("should create enemy destroyed event", () => {
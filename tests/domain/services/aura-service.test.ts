@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { Tower } from "../../../src/domain/entities/tower";
+import { AuraService } from "../../../src/domain/services/aura-service";
+import { Position } from "../../../src/domain/value-objects/position";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability";
+import { TileGrid } from "../../../src/domain/value-objects/tile-grid";
+import { TowerType } from "../../../src/domain/value-objects/tower-type";
+
+describe("AuraService", () => {
+  let service: AuraService;
+
+  const createTower = (
+    id: string,
+    type: TowerType,
+    x: number,
+    ability: SpecialAbility = SpecialAbility.NONE
+  ): Tower => new Tower(id, type, new Position(x, 0), Tower.getDefaultStats(type), ability);
+
+  const createSupport = (id: string, x: number, ability: SpecialAbility): Tower =>
+    createTower(id, TowerType.SUPPORT, x, ability);
+
+  beforeEach(() => {
+    service = new AuraService();
+  });
+
+  describe("getAura", () => {
+    it("should use the support tower range as aura radius", () => {
+      const support = createSupport("support", 0, SpecialAbility.RANGE_BOOST);
+
+      expect(service.getAura(support)).toEqual({
+        ability: SpecialAbility.RANGE_BOOST,
+        radius: support.baseStats.range,
+        strength: AuraService.RANGE_BOOST_STRENGTH,
+      });
+    });
+
+    it("should grow stronger with level", () => {
+      const support = createSupport("support", 0, SpecialAbility.DAMAGE_BOOST);
+      support.upgrade(support.baseStats, support.specialAbility, 2);
+
+      expect(service.getAura(support)?.strength).toBeCloseTo(
+        AuraService.DAMAGE_BOOST_STRENGTH + AuraService.STRENGTH_PER_LEVEL
+      );
+    });
+
+    it("should return null for towers without aura ability", () => {
+      expect(service.getAura(createTower("archer", TowerType.ARCHER, 0))).toBeNull();
+      expect(service.getAura(createSupport("support", 0, SpecialAbility.NONE))).toBeNull();
+    });
+  });
+
+  describe("calculateBuff", () => {
+    it("should buff towers inside the aura radius", () => {
+      const support = createSupport("support", 0, SpecialAbility.DAMAGE_BOOST);
+      const near = createTower("near", TowerType.ARCHER, 100);
+      const far = createTower("far", TowerType.ARCHER, 200);
+      const towers = [support, near, far];
+
+      expect(service.calculateBuff(near, towers).damageMultiplier).toBe(
+        1 + AuraService.DAMAGE_BOOST_STRENGTH
+      );
+      expect(service.calculateBuff(far, towers).isActive).toBe(false);
+    });
+
+    it("should only apply the strongest aura of the same kind", () => {
+      const weak = createSupport("weak", 0, SpecialAbility.RANGE_BOOST);
+      const strong = createSupport("strong", 100, SpecialAbility.RANGE_BOOST);
+      strong.upgrade(strong.baseStats, strong.specialAbility, 2);
+      const archer = createTower("archer", TowerType.ARCHER, 50);
+
+      const buff = service.calculateBuff(archer, [weak, strong, archer]);
+
+      expect(buff.rangeMultiplier).toBeCloseTo(
+        1 + AuraService.RANGE_BOOST_STRENGTH + AuraService.STRENGTH_PER_LEVEL
+      );
+    });
+
+    it("should combine auras of different kinds", () => {
+      const range = createSupport("range", 0, SpecialAbility.RANGE_BOOST);
+      const damage = createSupport("damage", 100, SpecialAbility.DAMAGE_BOOST);
+      const archer = createTower("archer", TowerType.ARCHER, 50);
+
+      const buff = service.calculateBuff(archer, [range, damage, archer]);
+
+      expect(buff.isDamageBoosted).toBe(true);
+      expect(buff.isRangeBoosted).toBe(true);
+    });
+
+    it("should not buff aura sources", () => {
+      const first = createSupport("first", 0, SpecialAbility.RANGE_BOOST);
+      const second = createSupport("second", 50, SpecialAbility.DAMAGE_BOOST);
+
+      expect(service.calculateBuff(first, [first, second]).isActive).toBe(false);
+    });
+  });
+
+  describe("calculateTileBuff", () => {
+    const grid = TileGrid.parse({ tileSize: 40, origin: { x: -20, y: -20 }, rows: ["*."] });
+
+    it("should boost damage and range of towers placed on a bonus tile", () => {
+      const buff = service.calculateTileBuff(createTower("archer", TowerType.ARCHER, 0), grid);
+
+      expect(buff.damageMultiplier).toBeCloseTo(1 + AuraService.BONUS_TILE_STRENGTH);
+      expect(buff.rangeMultiplier).toBeCloseTo(1 + AuraService.BONUS_TILE_STRENGTH);
+    });
+
+    it("should not boost towers on other tiles or support towers", () => {
+      expect(
+        service.calculateTileBuff(createTower("archer", TowerType.ARCHER, 40), grid).isActive
+      ).toBe(false);
+      expect(
+        service.calculateTileBuff(createSupport("support", 0, SpecialAbility.RANGE_BOOST), grid)
+          .isActive
+      ).toBe(false);
+    });
+  });
+
+  describe("applyAuras", () => {
+    it("should update effective stats and clear buffs when the source is gone", () => {
+      const support = createSupport("support", 0, SpecialAbility.RANGE_BOOST);
+      const archer = createTower("archer", TowerType.ARCHER, 100);
+
+      service.applyAuras([support, archer]);
+      expect(archer.stats.range).toBe(
+        Math.round(archer.baseStats.range * (1 + AuraService.RANGE_BOOST_STRENGTH))
+      );
+
+      service.applyAuras([archer]);
+      expect(archer.stats.range).toBe(archer.baseStats.range);
+    });
+
+    it("should stack the bonus tile buff on top of aura buffs", () => {
+      const grid = TileGrid.parse({ tileSize: 40, origin: { x: -20, y: -20 }, rows: ["..*."] });
+      const support = createSupport("support", 0, SpecialAbility.DAMAGE_BOOST);
+      const onBonus = createTower("on-bonus", TowerType.ARCHER, 80);
+      const onGround = createTower("on-ground", TowerType.ARCHER, 40);
+
+      service.applyAuras([support, onBonus, onGround], grid);
+
+      const expected =
+        (1 + AuraService.DAMAGE_BOOST_STRENGTH) * (1 + AuraService.BONUS_TILE_STRENGTH);
+      expect(onBonus.buff.damageMultiplier).toBeCloseTo(expected);
+      expect(onGround.buff.damageMultiplier).toBeCloseTo(1 + AuraService.DAMAGE_BOOST_STRENGTH);
+    });
+  });
+});
@@ -4,6 +4,10 @@ import { Enemy } from '../../../src/domain/entities/enemy';
 import { EnemyType } from '../../../src/domain/value-objects/enemy-type';
 import { Position } from '../../../src/domain/value-objects/position';
 import { MovementPath } from '../../../src/domain/value-objects/movement-path';
+import enemiesData from '../../../config/enemies.json';
+import { EnemyTypeRegistry } from '../../../src/domain/value-objects/enemy-type-registry';
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
 
 describe('BaseAttackService', () => {
   let baseAttackService: BaseAttackService;
@@ -30,8 +34,8 @@ describe('BaseAttackService', () => {
 
     it('should return 0 damage when no enemies at base', () => {
       const enemies = [
-        new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('enemy-2', EnemyType.FAST, movementPath, new Date())
+        new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('enemy-2', enemyTypes.get('FAST'), movementPath, new Date())
       ];
       
       const totalDamage = baseAttackService.processBaseAttacks(enemies);
@@ -41,8 +45,8 @@ describe('BaseAttackService', () => {
 
     it('should calculate damage for enemies at base', () => {
       const enemies = [
-        new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('enemy-2', EnemyType.FAST, movementPath, new Date())
+        new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('enemy-2', enemyTypes.get('FAST'), movementPath, new Date())
       ];
       
       // Move enemies to base
@@ -55,7 +59,7 @@ describe('BaseAttackService', () => {
     });
 
     it('should destroy enemies after they attack base', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.move(100000); // Move to base
       
       expect(enemy.isAlive).toBe(true);
@@ -67,8 +71,8 @@ describe('BaseAttackService', () => {
 
     it('should ignore dead enemies', () => {
       const enemies = [
-        new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('enemy-2', EnemyType.FAST, movementPath, new Date())
+        new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('enemy-2', enemyTypes.get('FAST'), movementPath, new Date())
       ];
       
       // Move to base and kill one enemy
@@ -83,9 +87,9 @@ describe('BaseAttackService', () => {
 
     it('should handle mixed enemy types correctly', () => {
       const enemies = [
-        new Enemy('basic-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('enhanced-1', EnemyType.ENHANCED, movementPath, new Date()),
-        new Enemy('boss-1', EnemyType.BOSS, movementPath, new Date())
+        new Enemy('basic-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('enhanced-1', enemyTypes.get('ENHANCED'), movementPath, new Date()),
+        new Enemy('boss-1', enemyTypes.get('BOSS'), movementPath, new Date())
       ];
       
       // Move all to base
@@ -100,10 +104,10 @@ describe('BaseAttackService', () => {
 
   describe('calculateBaseDamage', () => {
     it('should return correct damage for different enemy types', () => {
-      const basicEnemy = new Enemy('basic-1', EnemyType.BASIC, movementPath, new Date());
-      const fastEnemy = new Enemy('fast-1', EnemyType.FAST, movementPath, new Date());
-      const enhancedEnemy = new Enemy('enhanced-1', EnemyType.ENHANCED, movementPath, new Date());
-      const bossEnemy = new Enemy('boss-1', EnemyType.BOSS, movementPath, new Date());
+      const basicEnemy = new Enemy('basic-1', enemyTypes.get('BASIC'), movementPath, new Date());
+      const fastEnemy = new Enemy('fast-1', enemyTypes.get('FAST'), movementPath, new Date());
+      const enhancedEnemy = new Enemy('enhanced-1', enemyTypes.get('ENHANCED'), movementPath, new Date());
+      const bossEnemy = new Enemy('boss-1', enemyTypes.get('BOSS'), movementPath, new Date());
       
       expect(baseAttackService.calculateBaseDamage(basicEnemy)).toBe(50);
       expect(baseAttackService.calculateBaseDamage(fastEnemy)).toBe(30);
@@ -112,7 +116,7 @@ describe('BaseAttackService', () => {
     });
 
     it('should return 0 damage for dead enemy', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.takeDamage(1000); // Kill the enemy
       
       const damage = baseAttackService.calculateBaseDamage(enemy);
@@ -121,7 +125,7 @@ describe('BaseAttackService', () => {
     });
 
     it('should apply damage multiplier if set', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       baseAttackService.setDamageMultiplier(2.0);
       const damage = baseAttackService.calculateBaseDamage(enemy);
@@ -130,7 +134,7 @@ describe('BaseAttackService', () => {
     });
 
     it('should handle fractional multipliers', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       baseAttackService.setDamageMultiplier(1.5);
       const damage = baseAttackService.calculateBaseDamage(enemy);
@@ -141,7 +145,7 @@ describe('BaseAttackService', () => {
 
   describe('removeEnemyAfterAttack', () => {
     it('should destroy enemy after attack', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       expect(enemy.isAlive).toBe(true);
       
@@ -152,7 +156,7 @@ describe('BaseAttackService', () => {
     });
 
     it('should be idempotent', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       baseAttackService.removeEnemyAfterAttack(enemy);
       baseAttackService.removeEnemyAfterAttack(enemy);
@@ -173,9 +177,9 @@ describe('BaseAttackService', () => {
 
     it('should track attack statistics', () => {
       const enemies = [
-        new Enemy('basic-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('fast-1', EnemyType.FAST, movementPath, new Date()),
-        new Enemy('basic-2', EnemyType.BASIC, movementPath, new Date())
+        new Enemy('basic-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('fast-1', enemyTypes.get('FAST'), movementPath, new Date()),
+        new Enemy('basic-2', enemyTypes.get('BASIC'), movementPath, new Date())
       ];
       
       // Move all to base
@@ -187,14 +191,14 @@ describe('BaseAttackService', () => {
       
       expect(stats.totalAttacks).toBe(3);
       expect(stats.totalDamageDealt).toBe(130); // 50 + 30 + 50
-      expect(stats.attacksByType.get(EnemyType.BASIC)).toBe(2);
-      expect(stats.attacksByType.get(EnemyType.FAST)).toBe(1);
+      expect(stats.attacksByType.get(enemyTypes.get('BASIC'))).toBe(2);
+      expect(stats.attacksByType.get(enemyTypes.get('FAST'))).toBe(1);
     });
   });
 
   describe('resetStatistics', () => {
     it('should reset attack statistics', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.move(100000); // Move to base
       
       baseAttackService.processBaseAttacks([enemy]);
@@ -212,7 +216,7 @@ describe('BaseAttackService', () => {
     it('should set damage multiplier', () => {
       baseAttackService.setDamageMultiplier(1.5);
       
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       const damage = baseAttackService.calculateBaseDamage(enemy);
       
       expect(damage).toBe(75); // 50 * 1.5
@@ -225,7 +229,7 @@ describe('BaseAttackService', () => {
     it('should allow zero multiplier', () => {
       baseAttackService.setDamageMultiplier(0);
       
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       const damage = baseAttackService.calculateBaseDamage(enemy);
       
       expect(damage).toBe(0);
@@ -244,9 +248,9 @@ describe('BaseAttackService', () => {
   describe('predictBaseDamage', () => {
     it('should predict total damage from enemy array', () => {
       const enemies = [
-        new Enemy('basic-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('fast-1', EnemyType.FAST, movementPath, new Date()),
-        new Enemy('enhanced-1', EnemyType.ENHANCED, movementPath, new Date())
+        new Enemy('basic-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('fast-1', enemyTypes.get('FAST'), movementPath, new Date()),
+        new Enemy('enhanced-1', enemyTypes.get('ENHANCED'), movementPath, new Date())
       ];
       
       // Move all to base
@@ -259,8 +263,8 @@ describe('BaseAttackService', () => {
 
     it('should exclude enemies not at base', () => {
       const enemies = [
-        new Enemy('basic-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('fast-1', EnemyType.FAST, movementPath, new Date())
+        new Enemy('basic-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('fast-1', enemyTypes.get('FAST'), movementPath, new Date())
       ];
       
       // Only move first enemy to base
@@ -273,8 +277,8 @@ describe('BaseAttackService', () => {
 
     it('should exclude dead enemies', () => {
       const enemies = [
-        new Enemy('basic-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('fast-1', EnemyType.FAST, movementPath, new Date())
+        new Enemy('basic-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('fast-1', enemyTypes.get('FAST'), movementPath, new Date())
       ];
       
       // Move both to base, kill one
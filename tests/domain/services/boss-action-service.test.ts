@@ -0,0 +1,101 @@
+import { describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import { Enemy } from "../../../src/domain/entities/enemy";
+import { Tower } from "../../../src/domain/entities/tower";
+import { BossActionService } from "../../../src/domain/services/boss-action-service";
+import { EnemySpawningService } from "../../../src/domain/services/enemy-spawning-service";
+import { BossActionType } from "../../../src/domain/value-objects/boss-phase";
+import { EnemyType } from "../../../src/domain/value-objects/enemy-type";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path";
+import { Position } from "../../../src/domain/value-objects/position";
+import { TowerType } from "../../../src/domain/value-objects/tower-type";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+
+describe("BossActionService", () => {
+  const movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+  const timing = { delay: 0, interval: null, telegraph: 0 };
+
+  const createBoss = (): Enemy =>
+    new Enemy("boss-1", enemyTypes.get("WARLORD"), movementPath, new Date(), 0.5);
+
+  const createTower = (id: string, position: Position): Tower =>
+    new Tower(id, TowerType.ARCHER, position, Tower.getDefaultStats(TowerType.ARCHER));
+
+  it("召喚した手下をボスの後方に生成して返す", () => {
+    const service = new BossActionService(new EnemySpawningService(enemyTypes));
+    const boss = createBoss();
+
+    const result = service.execute(
+      boss,
+      { type: BossActionType.SUMMON, ...timing, enemyType: "FAST", count: 3 },
+      boss.currentPosition,
+      [],
+      new Date()
+    );
+
+    expect(result.summoned).toHaveLength(3);
+    expect(result.summoned.every((enemy) => enemy.type === enemyTypes.get("FAST"))).toBe(true);
+    expect(result.summoned.every((enemy) => enemy.pathProgress <= boss.pathProgress)).toBe(true);
+  });
+
+  it("予兆を出した位置の範囲内にある稼働中のタワーだけを停止させる", () => {
+    const service = new BossActionService(new EnemySpawningService(enemyTypes));
+    const near = createTower("near", new Position(500, 50));
+    const far = createTower("far", new Position(500, 300));
+    const rubble = createTower("rubble", new Position(520, 0));
+    rubble.takeDamage(rubble.maxHealth);
+
+    const result = service.execute(
+      createBoss(),
+      { type: BossActionType.DISABLE_TOWERS, ...timing, radius: 100, duration: 2000 },
+      new Position(500, 0),
+      [near, far, rubble],
+      new Date()
+    );
+
+    expect(result.disabledTowers).toEqual([near]);
+    expect(near.isDisabled).toBe(true);
+    expect(far.isDisabled).toBe(false);
+  });
+
+  it("突進と防壁はボス自身に効果を与える", () => {
+    const service = new BossActionService(new EnemySpawningService(enemyTypes));
+    const boss = createBoss();
+
+    service.execute(
+      boss,
+      { type: BossActionType.SPEED_BURST, ...timing, multiplier: 2, duration: 1000 },
+      boss.currentPosition,
+      [],
+      new Date()
+    );
+    service.execute(
+      boss,
+      { type: BossActionType.SHIELD, ...timing, amount: 150 },
+      boss.currentPosition,
+      [],
+      new Date()
+    );
+
+    expect(boss.isSpeedBursting).toBe(true);
+    expect(boss.shield).toBe(150);
+  });
+
+  it("倒されたボスの行動は何もしない", () => {
+    const service = new BossActionService(new EnemySpawningService(enemyTypes));
+    const boss = createBoss();
+    boss.takeDamage(boss.maxHealth);
+
+    const result = service.execute(
+      boss,
+      { type: BossActionType.SUMMON, ...timing, enemyType: "FAST", count: 3 },
+      boss.currentPosition,
+      [],
+      new Date()
+    );
+
+    expect(result.summoned).toEqual([]);
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, expect, it } from "bun:test";
+import { Card } from "../../../src/domain/entities/card.js";
+import type { GameSnapshot, TowerSnapshot } from "../../../src/domain/entities/game-session.js";
+import {
+  BotStrategies,
+  CheapestCardBotStrategy,
+  PathCoverageBotStrategy,
+  SaveForRaresBotStrategy,
+} from "../../../src/domain/services/bot-strategy.js";
+import { CardCost } from "../../../src/domain/value-objects/card-cost.js";
+import { CardRarity } from "../../../src/domain/value-objects/card-rarity.js";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
+import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+
+describe("BotStrategy", () => {
+  // y=200 を左から右へ進む経路
+  const path = new MovementPath([new Position(0, 200), new Position(400, 200)]);
+
+  const createCard = (
+    id: string,
+    cost: number,
+    rarity: CardRarity = CardRarity.COMMON,
+    range?: number
+  ): Card =>
+    new Card(
+      id,
+      id,
+      "テスト用カード",
+      new CardCost(cost),
+      TowerType.ARCHER,
+      SpecialAbility.NONE,
+      range === undefined ? {} : { range },
+      rarity
+    );
+
+  const createSnapshot = (overrides: Partial<GameSnapshot> = {}): GameSnapshot => ({
+    tick: 0,
+    mana: 5,
+    maxMana: 10,
+    hand: [],
+    towers: [],
+    enemies: [],
+    paths: [path],
+    placementPositions: [new Position(100, 260), new Position(300, 240), new Position(200, 400)],
+    waveNumber: 1,
+    baseHealth: 100,
+    ...overrides,
+  });
+
+  const createTower = (position: Position, range: number): TowerSnapshot => ({
+    id: "tower-1",
+    type: TowerType.ARCHER,
+    position,
+    range,
+    level: 1,
+    health: 100,
+    isDestroyed: false,
+  });
+
+  describe("CheapestCardBotStrategy", () => {
+    const strategy = new CheapestCardBotStrategy();
+
+    it("マナが足りる最も安いカードを経路に最も近い位置へ置く", () => {
+      const snapshot = createSnapshot({
+        hand: [createCard("mid", 3), createCard("cheap", 2), createCard("expensive", 6)],
+      });
+
+      const moves = strategy.decide(snapshot);
+
+      expect(moves).toHaveLength(1);
+      expect(moves[0]?.cardId).toBe("cheap");
+      expect(moves[0]?.position).toEqual(new Position(300, 240));
+    });
+
+    it("マナが足りるカードがない場合は何もしない", () => {
+      const snapshot = createSnapshot({ mana: 1, hand: [createCard("cheap", 2)] });
+
+      expect(strategy.decide(snapshot)).toEqual([]);
+    });
+  });
+
+  describe("PathCoverageBotStrategy", () => {
+    const strategy = new PathCoverageBotStrategy();
+
+    it("まだ守られていない区間を射程に収める位置を選ぶ", () => {
+      // 左側の区間は既存のタワーが守っている
+      const snapshot = createSnapshot({
+        hand: [createCard("archer", 3)],
+        towers: [createTower(new Position(100, 200), 100)],
+      });
+
+      const moves = strategy.decide(snapshot);
+
+      expect(moves[0]?.cardId).toBe("archer");
+      expect(moves[0]?.position).toEqual(new Position(300, 240));
+    });
+
+    it("射程が広いカードを優先する", () => {
+      const snapshot = createSnapshot({
+        hand: [
+          createCard("short", 2, CardRarity.COMMON, 50),
+          createCard("long", 4, CardRarity.COMMON, 200),
+        ],
+        placementPositions: [new Position(200, 260)],
+      });
+
+      expect(strategy.decide(snapshot)[0]?.cardId).toBe("long");
+    });
+
+    it("経路に射程が届く位置がない場合は何もしない", () => {
+      const snapshot = createSnapshot({
+        hand: [createCard("short", 2, CardRarity.COMMON, 50)],
+        placementPositions: [new Position(200, 400)],
+      });
+
+      expect(strategy.decide(snapshot)).toEqual([]);
+    });
+  });
+
+  describe("SaveForRaresBotStrategy", () => {
+    const strategy = new SaveForRaresBotStrategy();
+    const existingTower = createTower(new Position(0, 0), 10);
+
+    it("レア以上のカードが出せるまでマナを貯める", () => {
+      const snapshot = createSnapshot({
+        mana: 4,
+        hand: [createCard("common", 2), createCard("rare", 6, CardRarity.RARE)],
+        towers: [existingTower],
+      });
+
+      expect(strategy.decide(snapshot)).toEqual([]);
+    });
+
+    it("マナが貯まったら最もレアなカードを出す", () => {
+      const snapshot = createSnapshot({
+        mana: 8,
+        hand: [
+          createCard("common", 2),
+          createCard("rare", 6, CardRarity.RARE),
+          createCard("epic", 7, CardRarity.EPIC),
+        ],
+        towers: [existingTower],
+      });
+
+      expect(strategy.decide(snapshot)[0]?.cardId).toBe("epic");
+    });
+
+    it("タワーが1基もない場合は最も安いカードを出す", () => {
+      const snapshot = createSnapshot({
+        mana: 4,
+        hand: [createCard("common", 2), createCard("rare", 6, CardRarity.RARE)],
+      });
+
+      expect(strategy.decide(snapshot)[0]?.cardId).toBe("common");
+    });
+
+    it("マナの上限を超えるレアカードは待たない", () => {
+      const snapshot = createSnapshot({
+        mana: 4,
+        maxMana: 5,
+        hand: [createCard("common", 2), createCard("rare", 6, CardRarity.RARE)],
+        towers: [existingTower],
+      });
+
+      expect(strategy.decide(snapshot)[0]?.cardId).toBe("common");
+    });
+  });
+
+  describe("BotStrategies", () => {
+    it("名前から戦略を作成できる", () => {
+      for (const name of BotStrategies.getAllNames()) {
+        expect(BotStrategies.create(name).name).toBe(name);
+      }
+    });
+
+    it("未定義の名前はエラーになる", () => {
+      expect(() => BotStrategies.create("unknown")).toThrow("未定義のボット戦略です: unknown");
+    });
+  });
+});
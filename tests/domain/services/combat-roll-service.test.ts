@@ -0,0 +1,72 @@
+import { describe, expect, it } from "bun:test";
+import type { TowerStats } from "../../../src/domain/entities/tower";
+import { CombatRollService } from "../../../src/domain/services/combat-roll-service";
+import { RandomService, RandomStream } from "../../../src/domain/services/random-service";
+
+describe("CombatRollService", () => {
+  const baseStats: TowerStats = { damage: 40, range: 100, attackSpeed: 1000, cost: 3 };
+
+  // 指定した乱数を順番に返す乱数源
+  const sequence = (...values: number[]) => {
+    let index = 0;
+    return () => values[index++ % values.length] as number;
+  };
+
+  it("会心率とばらつきがない場合は攻撃力のまま乱数を消費しない", () => {
+    let calls = 0;
+    const service = new CombatRollService(() => {
+      calls++;
+      return 0;
+    });
+
+    expect(service.roll(baseStats)).toEqual({ damage: 40, isCritical: false });
+    expect(calls).toBe(0);
+  });
+
+  it("乱数が会心率を下回ると会心倍率が掛かる", () => {
+    const service = new CombatRollService(sequence(0.05, 0.5));
+    const stats = { ...baseStats, critChance: 0.1, critMultiplier: 2 };
+
+    expect(service.roll(stats)).toEqual({ damage: 80, isCritical: true });
+    expect(service.roll(stats)).toEqual({ damage: 40, isCritical: false });
+  });
+
+  it("会心倍率を省略した場合は既定の倍率を使う", () => {
+    const service = new CombatRollService(() => 0);
+
+    const roll = service.roll({ ...baseStats, critChance: 1 });
+
+    expect(roll.damage).toBe(40 * CombatRollService.DEFAULT_CRIT_MULTIPLIER);
+  });
+
+  it("ダメージは攻撃力の±ばらつきの範囲に収まる", () => {
+    const stats = { ...baseStats, damageVariance: 0.25 };
+
+    expect(new CombatRollService(() => 0).roll(stats).damage).toBe(30);
+    expect(new CombatRollService(() => 0.5).roll(stats).damage).toBe(40);
+    expect(new CombatRollService(() => 0.999999).roll(stats).damage).toBe(50);
+  });
+
+  it("ばらつきの後に会心倍率が掛かる", () => {
+    const service = new CombatRollService(sequence(0, 0));
+
+    const roll = service.roll({
+      ...baseStats,
+      damageVariance: 0.25,
+      critChance: 0.5,
+      critMultiplier: 2,
+    });
+
+    expect(roll).toEqual({ damage: 60, isCritical: true });
+  });
+
+  it("同じシードの乱数源からは同じ判定結果になる", () => {
+    const stats = { ...baseStats, damageVariance: 0.3, critChance: 0.3, critMultiplier: 2 };
+    const rollAll = (seed: number) => {
+      const service = new CombatRollService(new RandomService(seed).stream(RandomStream.COMBAT));
+      return Array.from({ length: 20 }, () => service.roll(stats));
+    };
+
+    expect(rollAll(42)).toEqual(rollAll(42));
+  });
+});
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import { Enemy } from "../../../src/domain/entities/enemy";
+import { EnemyAbilityService } from "../../../src/domain/services/enemy-ability-service";
+import type { EnemyType } from "../../../src/domain/value-objects/enemy-type";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path";
+import { Position } from "../../../src/domain/value-objects/position";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+
+describe("EnemyAbilityService", () => {
+  const service = new EnemyAbilityService();
+  const movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+
+  const createEnemy = (id: string, type: EnemyType, progress = 0): Enemy =>
+    new Enemy(id, type, movementPath, new Date(), progress);
+
+  describe("processHealing", () => {
+    it("回復の間隔ごとに範囲内の傷ついた味方を回復する", () => {
+      const healer = createEnemy("healer", enemyTypes.get("HEALER"));
+      const ally = createEnemy("ally", enemyTypes.get("BASIC"), 0.05);
+      ally.takeDamage(40);
+
+      expect(service.processHealing([healer, ally], 1000)).toEqual([]);
+
+      const heals = service.processHealing([healer, ally], 1000);
+
+      expect(heals).toEqual([{ healer, target: ally, amount: 15 }]);
+      expect(ally.currentHealth).toBe(75);
+    });
+
+    it("範囲外の味方と自分自身は回復しない", () => {
+      const healer = createEnemy("healer", enemyTypes.get("HEALER"));
+      const farAlly = createEnemy("far", enemyTypes.get("BASIC"), 0.5);
+      healer.takeDamage(20);
+      farAlly.takeDamage(20);
+
+      expect(service.processHealing([healer, farAlly], 2000)).toEqual([]);
+      expect(healer.currentHealth).toBe(60);
+      expect(farAlly.currentHealth).toBe(80);
+    });
+
+    it("体力が満タンの味方は回復の対象に含めない", () => {
+      const healer = createEnemy("healer", enemyTypes.get("HEALER"));
+      const ally = createEnemy("ally", enemyTypes.get("BASIC"), 0.05);
+
+      expect(service.processHealing([healer, ally], 2000)).toEqual([]);
+    });
+  });
+});
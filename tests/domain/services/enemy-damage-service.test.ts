@@ -1,9 +1,14 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
 import { EnemyDamageService } from '../../../src/domain/services/enemy-damage-service';
 import { Enemy } from '../../../src/domain/entities/enemy';
+import { DamageType } from '../../../src/domain/value-objects/damage-type';
 import { EnemyType } from '../../../src/domain/value-objects/enemy-type';
 import { Position } from '../../../src/domain/value-objects/position';
 import { MovementPath } from '../../../src/domain/value-objects/movement-path';
+import enemiesData from '../../../config/enemies.json';
+import { EnemyTypeRegistry } from '../../../src/domain/value-objects/enemy-type-registry';
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
 
 describe('EnemyDamageService', () => {
   let damageService: EnemyDamageService;
@@ -23,7 +28,7 @@ describe('EnemyDamageService', () => {
 
   describe('applyDamage', () => {
     it('should apply damage to enemy and return false if enemy survives', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       const isDestroyed = damageService.applyDamage(enemy, 30);
       
@@ -33,7 +38,7 @@ describe('EnemyDamageService', () => {
     });
 
     it('should apply damage to enemy and return true if enemy is destroyed', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       const isDestroyed = damageService.applyDamage(enemy, 100);
       
@@ -43,7 +48,7 @@ describe('EnemyDamageService', () => {
     });
 
     it('should apply damage to enemy and return true if damage exceeds health', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       const isDestroyed = damageService.applyDamage(enemy, 150);
       
@@ -53,7 +58,7 @@ describe('EnemyDamageService', () => {
     });
 
     it('should ignore damage to already dead enemy', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.takeDamage(100); // Kill the enemy
       
       const isDestroyed = damageService.applyDamage(enemy, 50);
@@ -63,7 +68,7 @@ describe('EnemyDamageService', () => {
     });
 
     it('should ignore negative damage', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       const initialHealth = enemy.currentHealth;
       
       const isDestroyed = damageService.applyDamage(enemy, -10);
@@ -73,7 +78,7 @@ describe('EnemyDamageService', () => {
     });
 
     it('should ignore zero damage', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       const initialHealth = enemy.currentHealth;
       
       const isDestroyed = damageService.applyDamage(enemy, 0);
@@ -83,22 +88,89 @@ describe('EnemyDamageService', () => {
     });
   });
 
+  describe('calculateDamage', () => {
+    const createArmoredEnemy = (): Enemy => {
+      const armored = EnemyType.fromDefinition('ARMORED', {
+        displayName: '装甲敵',
+        description: '硬い装甲を持つ敵',
+        rank: 'elite',
+        baseStats: { health: 500, attackPower: 40, movementSpeed: 70, armor: 100 },
+        resistances: { FIRE: 0.5, LIGHTNING: -0.25 },
+        scoreValue: 40,
+        imageUrl: '/images/enemies/armored.png',
+      });
+      return new Enemy('armored-1', armored, movementPath, new Date());
+    };
+
+    it('should reduce physical damage by armor', () => {
+      const result = damageService.calculateDamage(createArmoredEnemy(), 100, DamageType.PHYSICAL);
+
+      expect(result.damage).toBe(50);
+      expect(result.multiplier).toBe(0.5);
+      expect(result.isResisted).toBe(true);
+    });
+
+    it('should apply resistance and weakness per damage type', () => {
+      const enemy = createArmoredEnemy();
+
+      expect(damageService.calculateDamage(enemy, 100, DamageType.FIRE).damage).toBe(50);
+      expect(damageService.calculateDamage(enemy, 100, DamageType.MAGIC).damage).toBe(100);
+
+      const weakness = damageService.calculateDamage(enemy, 100, DamageType.LIGHTNING);
+      expect(weakness.damage).toBe(125);
+      expect(weakness.isResisted).toBe(false);
+    });
+
+    it('should ignore armor and resistance but not weakness when ignoring defense', () => {
+      const enemy = createArmoredEnemy();
+
+      expect(damageService.calculateDamage(enemy, 100, DamageType.PHYSICAL, true).damage).toBe(100);
+      expect(damageService.calculateDamage(enemy, 100, DamageType.FIRE, true).damage).toBe(100);
+      expect(damageService.calculateDamage(enemy, 100, DamageType.LIGHTNING, true).damage).toBe(
+        125
+      );
+    });
+
+    it('should deal at least 1 damage', () => {
+      const result = damageService.calculateDamage(createArmoredEnemy(), 1, DamageType.FIRE);
+
+      expect(result.damage).toBe(1);
+    });
+
+    it('should not reduce damage for enemies without defense', () => {
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
+
+      const result = damageService.calculateDamage(enemy, 40, DamageType.PHYSICAL);
+
+      expect(result.damage).toBe(40);
+      expect(result.isResisted).toBe(false);
+    });
+
+    it('should apply armor when damage type is given to applyDamage', () => {
+      const enemy = createArmoredEnemy();
+
+      damageService.applyDamage(enemy, 100, DamageType.PHYSICAL);
+
+      expect(enemy.currentHealth).toBe(450);
+    });
+  });
+
   describe('isEnemyDestroyed', () => {
     it('should return false for alive enemy', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       expect(damageService.isEnemyDestroyed(enemy)).toBe(false);
     });
 
     it('should return true for dead enemy', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.takeDamage(100);
       
       expect(damageService.isEnemyDestroyed(enemy)).toBe(true);
     });
 
     it('should return true for enemy with zero health', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.takeDamage(100);
       
       expect(enemy.currentHealth).toBe(0);
@@ -108,7 +180,7 @@ describe('EnemyDamageService', () => {
 
   describe('processEnemyDestruction', () => {
     it('should destroy enemy', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       damageService.processEnemyDestruction(enemy);
       
@@ -117,7 +189,7 @@ describe('EnemyDamageService', () => {
     });
 
     it('should be idempotent', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       damageService.processEnemyDestruction(enemy);
       damageService.processEnemyDestruction(enemy);
@@ -164,9 +236,9 @@ describe('EnemyDamageService', () => {
   describe('applyAreaDamage', () => {
     it('should apply damage to all enemies in range', () => {
       const enemies = [
-        new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('enemy-2', EnemyType.FAST, movementPath, new Date()),
-        new Enemy('enemy-3', EnemyType.ENHANCED, movementPath, new Date())
+        new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('enemy-2', enemyTypes.get('FAST'), movementPath, new Date()),
+        new Enemy('enemy-3', enemyTypes.get('ENHANCED'), movementPath, new Date())
       ];
       
       // Move enemies to different positions
@@ -183,8 +255,8 @@ describe('EnemyDamageService', () => {
 
     it('should return destroyed enemies', () => {
       const enemies = [
-        new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('enemy-2', EnemyType.FAST, movementPath, new Date())
+        new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('enemy-2', enemyTypes.get('FAST'), movementPath, new Date())
       ];
       
       const centerPosition = new Position(0, 100); // At spawn point
@@ -198,8 +270,8 @@ describe('EnemyDamageService', () => {
 
     it('should ignore enemies outside range', () => {
       const enemies = [
-        new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('enemy-2', EnemyType.FAST, movementPath, new Date())
+        new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('enemy-2', enemyTypes.get('FAST'), movementPath, new Date())
       ];
       
       // Move second enemy far away
@@ -215,8 +287,8 @@ describe('EnemyDamageService', () => {
 
     it('should ignore dead enemies', () => {
       const enemies = [
-        new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('enemy-2', EnemyType.FAST, movementPath, new Date())
+        new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('enemy-2', enemyTypes.get('FAST'), movementPath, new Date())
       ];
       
       enemies[1].takeDamage(100); // Kill second enemy
@@ -241,9 +313,9 @@ describe('EnemyDamageService', () => {
 
     it('should track damage statistics', () => {
       const enemies = [
-        new Enemy('basic-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('fast-1', EnemyType.FAST, movementPath, new Date()),
-        new Enemy('basic-2', EnemyType.BASIC, movementPath, new Date())
+        new Enemy('basic-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('fast-1', enemyTypes.get('FAST'), movementPath, new Date()),
+        new Enemy('basic-2', enemyTypes.get('BASIC'), movementPath, new Date())
       ];
       
       damageService.applyDamage(enemies[0], 50);
@@ -254,14 +326,14 @@ describe('EnemyDamageService', () => {
       
       expect(stats.totalDamageDealt).toBe(180);
       expect(stats.enemiesDestroyed).toBe(1);
-      expect(stats.damageByType.get(EnemyType.BASIC)).toBe(150); // 50 + 100
-      expect(stats.damageByType.get(EnemyType.FAST)).toBe(30);
+      expect(stats.damageByType.get(enemyTypes.get('BASIC'))).toBe(150); // 50 + 100
+      expect(stats.damageByType.get(enemyTypes.get('FAST'))).toBe(30);
     });
   });
 
   describe('resetStatistics', () => {
     it('should reset damage statistics', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       damageService.applyDamage(enemy, 100);
       damageService.resetStatistics();
@@ -304,9 +376,9 @@ describe('EnemyDamageService', () => {
   describe('calculateDamageEfficiency', () => {
     it('should calculate damage efficiency for enemy types', () => {
       const enemies = [
-        new Enemy('basic-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('fast-1', EnemyType.FAST, movementPath, new Date()),
-        new Enemy('enhanced-1', EnemyType.ENHANCED, movementPath, new Date())
+        new Enemy('basic-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('fast-1', enemyTypes.get('FAST'), movementPath, new Date()),
+        new Enemy('enhanced-1', enemyTypes.get('ENHANCED'), movementPath, new Date())
       ];
       
       // Apply various damages
@@ -317,9 +389,9 @@ describe('EnemyDamageService', () => {
       const efficiency = damageService.calculateDamageEfficiency();
       
       expect(efficiency.length).toBeGreaterThan(0);
-      expect(efficiency.some(e => e.enemyType === EnemyType.BASIC)).toBe(true);
-      expect(efficiency.some(e => e.enemyType === EnemyType.FAST)).toBe(true);
-      expect(efficiency.some(e => e.enemyType === EnemyType.ENHANCED)).toBe(true);
+      expect(efficiency.some(e => e.enemyType === enemyTypes.get('BASIC'))).toBe(true);
+      expect(efficiency.some(e => e.enemyType === enemyTypes.get('FAST'))).toBe(true);
+      expect(efficiency.some(e => e.enemyType === enemyTypes.get('ENHANCED'))).toBe(true);
     });
   });
 });
\ No newline at end of file
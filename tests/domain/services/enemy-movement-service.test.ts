@@ -4,6 +4,10 @@ import { Enemy } from '../../../src/domain/entities/enemy';
 import { EnemyType } from '../../../src/domain/value-objects/enemy-type';
 import { Position } from '../../../src/domain/value-objects/position';
 import { MovementPath } from '../../../src/domain/value-objects/movement-path';
+import enemiesData from '../../../config/enemies.json';
+import { EnemyTypeRegistry } from '../../../src/domain/value-objects/enemy-type-registry';
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
 
 describe('EnemyMovementService', () => {
   let movementService: EnemyMovementService;
@@ -23,7 +27,7 @@ describe('EnemyMovementService', () => {
 
   describe('updateEnemyMovement', () => {
     it('should update enemy position based on movement speed', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       const initialPosition = enemy.currentPosition;
       
       movementService.updateEnemyMovement(enemy, 1000); // 1 second
@@ -33,7 +37,7 @@ describe('EnemyMovementService', () => {
     });
 
     it('should not move dead enemies', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.takeDamage(1000); // Kill the enemy
       
       const initialPosition = enemy.currentPosition;
@@ -46,7 +50,7 @@ describe('EnemyMovementService', () => {
     });
 
     it('should handle zero delta time', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       const initialPosition = enemy.currentPosition;
       const initialProgress = enemy.pathProgress;
       
@@ -57,7 +61,7 @@ describe('EnemyMovementService', () => {
     });
 
     it('should stop enemy at base when path is complete', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       movementService.updateEnemyMovement(enemy, 100000); // Very long time
       
@@ -66,8 +70,8 @@ describe('EnemyMovementService', () => {
     });
 
     it('should handle different enemy speeds correctly', () => {
-      const basicEnemy = new Enemy('basic-1', EnemyType.BASIC, movementPath, new Date());
-      const fastEnemy = new Enemy('fast-1', EnemyType.FAST, movementPath, new Date());
+      const basicEnemy = new Enemy('basic-1', enemyTypes.get('BASIC'), movementPath, new Date());
+      const fastEnemy = new Enemy('fast-1', enemyTypes.get('FAST'), movementPath, new Date());
       
       movementService.updateEnemyMovement(basicEnemy, 1000);
       movementService.updateEnemyMovement(fastEnemy, 1000);
@@ -79,7 +83,7 @@ describe('EnemyMovementService', () => {
 
   describe('calculateNextPosition', () => {
     it('should calculate correct next position', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       const nextPosition = movementService.calculateNextPosition(enemy, 1000);
       
@@ -87,7 +91,7 @@ describe('EnemyMovementService', () => {
     });
 
     it('should return current position for dead enemy', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.takeDamage(1000); // Kill the enemy
       
       const nextPosition = movementService.calculateNextPosition(enemy, 1000);
@@ -96,7 +100,7 @@ describe('EnemyMovementService', () => {
     });
 
     it('should not exceed base point', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       const nextPosition = movementService.calculateNextPosition(enemy, 100000);
       
@@ -106,20 +110,20 @@ describe('EnemyMovementService', () => {
 
   describe('checkBaseReached', () => {
     it('should return false for enemy at spawn', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       expect(movementService.checkBaseReached(enemy)).toBe(false);
     });
 
     it('should return true for enemy at base', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.move(100000); // Move to base
       
       expect(movementService.checkBaseReached(enemy)).toBe(true);
     });
 
     it('should return true for enemy with progress >= 1', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.move(100000); // Move to base
       
       expect(movementService.checkBaseReached(enemy)).toBe(true);
@@ -129,9 +133,9 @@ describe('EnemyMovementService', () => {
   describe('updateMultipleEnemies', () => {
     it('should update all enemies in the array', () => {
       const enemies = [
-        new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('enemy-2', EnemyType.FAST, movementPath, new Date()),
-        new Enemy('enemy-3', EnemyType.ENHANCED, movementPath, new Date())
+        new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('enemy-2', enemyTypes.get('FAST'), movementPath, new Date()),
+        new Enemy('enemy-3', enemyTypes.get('ENHANCED'), movementPath, new Date())
       ];
       
       movementService.updateMultipleEnemies(enemies, 1000);
@@ -147,8 +151,8 @@ describe('EnemyMovementService', () => {
 
     it('should skip dead enemies', () => {
       const enemies = [
-        new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date()),
-        new Enemy('enemy-2', EnemyType.FAST, movementPath, new Date())
+        new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date()),
+        new Enemy('enemy-2', enemyTypes.get('FAST'), movementPath, new Date())
       ];
       
       enemies[1].takeDamage(1000); // Kill second enemy
@@ -173,7 +177,7 @@ describe('EnemyMovementService', () => {
     });
 
     it('should track movement updates', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       movementService.updateEnemyMovement(enemy, 1000);
       movementService.updateEnemyMovement(enemy, 1000);
@@ -184,7 +188,7 @@ describe('EnemyMovementService', () => {
     });
 
     it('should track enemies that reached base', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       movementService.updateEnemyMovement(enemy, 100000); // Move to base
       
@@ -196,7 +200,7 @@ describe('EnemyMovementService', () => {
 
   describe('resetStatistics', () => {
     it('should reset movement statistics', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       movementService.updateEnemyMovement(enemy, 1000);
       movementService.resetStatistics();
@@ -211,7 +215,7 @@ describe('EnemyMovementService', () => {
 
   describe('predictTimeToBase', () => {
     it('should predict time for enemy to reach base', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       
       const timeToBase = movementService.predictTimeToBase(enemy);
       
@@ -220,7 +224,7 @@ describe('EnemyMovementService', () => {
     });
 
     it('should return 0 for enemy already at base', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.move(100000); // Move to base
       
       const timeToBase = movementService.predictTimeToBase(enemy);
@@ -229,7 +233,7 @@ describe('EnemyMovementService', () => {
     });
 
     it('should calculate remaining time for partially moved enemy', () => {
-      const enemy = new Enemy('enemy-1', EnemyType.BASIC, movementPath, new Date());
+      const enemy = new Enemy('enemy-1', enemyTypes.get('BASIC'), movementPath, new Date());
       enemy.move(1000); // Move partially
       
       const timeToBase = movementService.predictTimeToBase(enemy);
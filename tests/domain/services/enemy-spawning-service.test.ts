@@ -3,13 +3,17 @@ import { EnemySpawningService } from '../../../src/domain/services/enemy-spawnin
 import { EnemyType } from '../../../src/domain/value-objects/enemy-type';
 import { Position } from '../../../src/domain/value-objects/position';
 import { MovementPath } from '../../../src/domain/value-objects/movement-path';
+import enemiesData from '../../../config/enemies.json';
+import { EnemyTypeRegistry } from '../../../src/domain/value-objects/enemy-type-registry';
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
 
 describe('EnemySpawningService', () => {
   let spawningService: EnemySpawningService;
   let movementPath: MovementPath;
 
   beforeEach(() => {
-    spawningService = new EnemySpawningService();
+    spawningService = new EnemySpawningService(enemyTypes);
     const pathPoints = [
       new Position(0, 100),
       new Position(200, 100),
@@ -23,18 +27,18 @@ describe('EnemySpawningService', () => {
   describe('spawnEnemy', () => {
     it('should create enemy with correct type and path', () => {
       const spawnPoint = new Position(0, 100);
-      const enemy = spawningService.spawnEnemy('test-enemy-1', EnemyType.BASIC, spawnPoint, movementPath);
+      const enemy = spawningService.spawnEnemy('test-enemy-1', enemyTypes.get('BASIC'), spawnPoint, movementPath);
       
       expect(enemy.id).toBe('test-enemy-1');
-      expect(enemy.type).toBe(EnemyType.BASIC);
+      expect(enemy.type).toBe(enemyTypes.get('BASIC'));
       expect(enemy.movementPath).toBe(movementPath);
       expect(enemy.currentPosition.equals(spawnPoint)).toBe(true);
     });
 
     it('should create enemy with type-specific stats', () => {
       const spawnPoint = new Position(0, 100);
-      const basicEnemy = spawningService.spawnEnemy('basic-1', EnemyType.BASIC, spawnPoint, movementPath);
-      const bossEnemy = spawningService.spawnEnemy('boss-1', EnemyType.BOSS, spawnPoint, movementPath);
+      const basicEnemy = spawningService.spawnEnemy('basic-1', enemyTypes.get('BASIC'), spawnPoint, movementPath);
+      const bossEnemy = spawningService.spawnEnemy('boss-1', enemyTypes.get('BOSS'), spawnPoint, movementPath);
       
       expect(basicEnemy.maxHealth).toBe(100);
       expect(basicEnemy.attackPower).toBe(50);
@@ -48,16 +52,24 @@ describe('EnemySpawningService', () => {
     it('should create enemy with current spawn time', () => {
       const beforeSpawn = Date.now();
       const spawnPoint = new Position(0, 100);
-      const enemy = spawningService.spawnEnemy('test-enemy-1', EnemyType.BASIC, spawnPoint, movementPath);
+      const enemy = spawningService.spawnEnemy('test-enemy-1', enemyTypes.get('BASIC'), spawnPoint, movementPath);
       const afterSpawn = Date.now();
       
       expect(enemy.spawnTime.getTime()).toBeGreaterThanOrEqual(beforeSpawn);
       expect(enemy.spawnTime.getTime()).toBeLessThanOrEqual(afterSpawn);
     });
 
+    it('should use the injected time provider for spawn time', () => {
+      const service = new EnemySpawningService(enemyTypes, Math.random, { getCurrentTime: () => 12345 });
+      const spawnPoint = new Position(0, 100);
+      const enemy = service.spawnEnemy('test-enemy-1', enemyTypes.get('BASIC'), spawnPoint, movementPath);
+
+      expect(enemy.spawnTime.getTime()).toBe(12345);
+    });
+
     it('should create alive enemy', () => {
       const spawnPoint = new Position(0, 100);
-      const enemy = spawningService.spawnEnemy('test-enemy-1', EnemyType.BASIC, spawnPoint, movementPath);
+      const enemy = spawningService.spawnEnemy('test-enemy-1', enemyTypes.get('BASIC'), spawnPoint, movementPath);
       
       expect(enemy.isAlive).toBe(true);
       expect(enemy.currentHealth).toBe(enemy.maxHealth);
@@ -66,17 +78,17 @@ describe('EnemySpawningService', () => {
     it('should handle different enemy types', () => {
       const spawnPoint = new Position(0, 100);
       
-      const basicEnemy = spawningService.spawnEnemy('basic-1', EnemyType.BASIC, spawnPoint, movementPath);
-      const rangedEnemy = spawningService.spawnEnemy('ranged-1', EnemyType.RANGED, spawnPoint, movementPath);
-      const fastEnemy = spawningService.spawnEnemy('fast-1', EnemyType.FAST, spawnPoint, movementPath);
-      const enhancedEnemy = spawningService.spawnEnemy('enhanced-1', EnemyType.ENHANCED, spawnPoint, movementPath);
-      const bossEnemy = spawningService.spawnEnemy('boss-1', EnemyType.BOSS, spawnPoint, movementPath);
+      const basicEnemy = spawningService.spawnEnemy('basic-1', enemyTypes.get('BASIC'), spawnPoint, movementPath);
+      const rangedEnemy = spawningService.spawnEnemy('ranged-1', enemyTypes.get('RANGED'), spawnPoint, movementPath);
+      const fastEnemy = spawningService.spawnEnemy('fast-1', enemyTypes.get('FAST'), spawnPoint, movementPath);
+      const enhancedEnemy = spawningService.spawnEnemy('enhanced-1', enemyTypes.get('ENHANCED'), spawnPoint, movementPath);
+      const bossEnemy = spawningService.spawnEnemy('boss-1', enemyTypes.get('BOSS'), spawnPoint, movementPath);
       
-      expect(basicEnemy.type).toBe(EnemyType.BASIC);
-      expect(rangedEnemy.type).toBe(EnemyType.RANGED);
-      expect(fastEnemy.type).toBe(EnemyType.FAST);
-      expect(enhancedEnemy.type).toBe(EnemyType.ENHANCED);
-      expect(bossEnemy.type).toBe(EnemyType.BOSS);
+      expect(basicEnemy.type).toBe(enemyTypes.get('BASIC'));
+      expect(rangedEnemy.type).toBe(enemyTypes.get('RANGED'));
+      expect(fastEnemy.type).toBe(enemyTypes.get('FAST'));
+      expect(enhancedEnemy.type).toBe(enemyTypes.get('ENHANCED'));
+      expect(bossEnemy.type).toBe(enemyTypes.get('BOSS'));
     });
   });
 
@@ -125,7 +137,7 @@ describe('EnemySpawningService', () => {
 
   describe('createEnemyWithStats', () => {
     it('should create enemy with correct base stats', () => {
-      const enemy = spawningService.createEnemyWithStats('test-1', EnemyType.BASIC, movementPath);
+      const enemy = spawningService.createEnemyWithStats('test-1', enemyTypes.get('BASIC'), movementPath);
       
       expect(enemy.maxHealth).toBe(100);
       expect(enemy.attackPower).toBe(50);
@@ -133,8 +145,8 @@ describe('EnemySpawningService', () => {
     });
 
     it('should create enemy with different stats for different types', () => {
-      const basicEnemy = spawningService.createEnemyWithStats('basic-1', EnemyType.BASIC, movementPath);
-      const fastEnemy = spawningService.createEnemyWithStats('fast-1', EnemyType.FAST, movementPath);
+      const basicEnemy = spawningService.createEnemyWithStats('basic-1', enemyTypes.get('BASIC'), movementPath);
+      const fastEnemy = spawningService.createEnemyWithStats('fast-1', enemyTypes.get('FAST'), movementPath);
       
       expect(basicEnemy.maxHealth).toBe(100);
       expect(basicEnemy.movementSpeed).toBe(100);
@@ -144,7 +156,7 @@ describe('EnemySpawningService', () => {
     });
 
     it('should create enemy at spawn point of path', () => {
-      const enemy = spawningService.createEnemyWithStats('test-1', EnemyType.BASIC, movementPath);
+      const enemy = spawningService.createEnemyWithStats('test-1', enemyTypes.get('BASIC'), movementPath);
       
       expect(enemy.currentPosition.equals(movementPath.spawnPoint)).toBe(true);
     });
@@ -158,17 +170,17 @@ describe('EnemySpawningService', () => {
         new Position(0, 300)
       ];
       
-      const enemy = spawningService.spawnEnemyAtRandomPoint('test-1', EnemyType.BASIC, availablePoints, movementPath);
+      const enemy = spawningService.spawnEnemyAtRandomPoint('test-1', enemyTypes.get('BASIC'), availablePoints, movementPath);
       
       expect(availablePoints.some(point => point.equals(enemy.currentPosition))).toBe(true);
     });
 
     it('should create valid enemy', () => {
       const availablePoints = [new Position(0, 100)];
-      const enemy = spawningService.spawnEnemyAtRandomPoint('test-1', EnemyType.BASIC, availablePoints, movementPath);
+      const enemy = spawningService.spawnEnemyAtRandomPoint('test-1', enemyTypes.get('BASIC'), availablePoints, movementPath);
       
       expect(enemy.id).toBe('test-1');
-      expect(enemy.type).toBe(EnemyType.BASIC);
+      expect(enemy.type).toBe(enemyTypes.get('BASIC'));
       expect(enemy.isAlive).toBe(true);
     });
   });
@@ -194,6 +206,13 @@ describe('EnemySpawningService', () => {
       
       expect(id1).not.toBe(id2);
     });
+
+    it('should generate the same IDs for the same spawn order', () => {
+      const other = new EnemySpawningService(enemyTypes);
+
+      expect(spawningService.generateEnemyId('wave', 1)).toBe(other.generateEnemyId('wave', 1));
+      expect(spawningService.generateEnemyId('wave', 1)).toBe('wave-1-2');
+    });
   });
 
   describe('getSpawnStatistics', () => {
@@ -207,15 +226,15 @@ describe('EnemySpawningService', () => {
     it('should track spawned enemies', () => {
       const spawnPoint = new Position(0, 100);
       
-      spawningService.spawnEnemy('enemy-1', EnemyType.BASIC, spawnPoint, movementPath);
-      spawningService.spawnEnemy('enemy-2', EnemyType.BASIC, spawnPoint, movementPath);
-      spawningService.spawnEnemy('enemy-3', EnemyType.FAST, spawnPoint, movementPath);
+      spawningService.spawnEnemy('enemy-1', enemyTypes.get('BASIC'), spawnPoint, movementPath);
+      spawningService.spawnEnemy('enemy-2', enemyTypes.get('BASIC'), spawnPoint, movementPath);
+      spawningService.spawnEnemy('enemy-3', enemyTypes.get('FAST'), spawnPoint, movementPath);
       
       const stats = spawningService.getSpawnStatistics();
       
       expect(stats.totalSpawned).toBe(3);
-      expect(stats.spawnedByType.get(EnemyType.BASIC)).toBe(2);
-      expect(stats.spawnedByType.get(EnemyType.FAST)).toBe(1);
+      expect(stats.spawnedByType.get(enemyTypes.get('BASIC'))).toBe(2);
+      expect(stats.spawnedByType.get(enemyTypes.get('FAST'))).toBe(1);
     });
   });
 
@@ -224,8 +243,8 @@ describe('EnemySpawningService', () => {
       const spawnPoint = new Position(0, 100);
       
       // Spawn some enemies
-      spawningService.spawnEnemy('enemy-1', EnemyType.BASIC, spawnPoint, movementPath);
-      spawningService.spawnEnemy('enemy-2', EnemyType.FAST, spawnPoint, movementPath);
+      spawningService.spawnEnemy('enemy-1', enemyTypes.get('BASIC'), spawnPoint, movementPath);
+      spawningService.spawnEnemy('enemy-2', enemyTypes.get('FAST'), spawnPoint, movementPath);
       
       spawningService.resetStatistics();
       
@@ -234,4 +253,56 @@ describe('EnemySpawningService', () => {
       expect(stats.spawnedByType.size).toBe(0);
     });
   });
-});
\ No newline at end of file
+
+  describe('spawnSplitEnemies', () => {
+    it('should spawn split enemies behind the defeated parent', () => {
+      const parent = spawningService.spawnEnemy(
+        'enemy-1',
+        enemyTypes.get('SPLITTER'),
+        new Position(0, 100),
+        movementPath
+      );
+      parent.move(1000);
+
+      const children = spawningService.spawnSplitEnemies(parent, new Date());
+
+      expect(children.map((child) => child.id)).toEqual([
+        'enemy-1-split-1',
+        'enemy-1-split-2',
+        'enemy-1-split-3',
+      ]);
+      expect(children.every((child) => child.type === enemyTypes.get('SPLITLING'))).toBe(true);
+      expect(children[0]?.pathProgress).toBeCloseTo(parent.pathProgress);
+      expect(children[1]?.currentPosition.distanceTo(parent.currentPosition)).toBeCloseTo(
+        EnemySpawningService.SPLIT_SPACING
+      );
+      expect(spawningService.getSpawnStatistics().totalSpawned).toBe(4);
+    });
+
+    it('should not spawn anything from enemies without split ability', () => {
+      const parent = spawningService.spawnEnemy('enemy-1', enemyTypes.get('BASIC'), new Position(0, 100), movementPath);
+
+      expect(spawningService.spawnSplitEnemies(parent, new Date())).toEqual([]);
+    });
+  });
+
+  describe('spawnSummonedEnemies', () => {
+    it('should spawn summoned enemies behind the boss', () => {
+      const boss = spawningService.spawnEnemy(
+        'boss-1',
+        enemyTypes.get('WARLORD'),
+        new Position(0, 100),
+        movementPath
+      );
+      boss.move(2000);
+
+      const minions = spawningService.spawnSummonedEnemies(boss, 'FAST', 2, new Date());
+
+      expect(minions.map((minion) => minion.type)).toEqual([enemyTypes.get('FAST'), enemyTypes.get('FAST')]);
+      expect(new Set(minions.map((minion) => minion.id)).size).toBe(2);
+      expect(minions.every((minion) => minion.id.startsWith('boss-1-summon-'))).toBe(true);
+      expect(minions[0]?.pathProgress).toBeCloseTo(boss.pathProgress);
+      expect(spawningService.getSpawnStatistics().totalSpawned).toBe(3);
+    });
+  });
+});
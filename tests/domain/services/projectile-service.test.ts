@@ -0,0 +1,143 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import { Enemy } from "../../../src/domain/entities/enemy";
+import { Tower } from "../../../src/domain/entities/tower";
+import { ProjectileService } from "../../../src/domain/services/projectile-service";
+import { EnemyType } from "../../../src/domain/value-objects/enemy-type";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path";
+import { Position } from "../../../src/domain/value-objects/position";
+import { ProjectileType } from "../../../src/domain/value-objects/projectile-type";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability";
+import { TowerType } from "../../../src/domain/value-objects/tower-type";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+
+describe("ProjectileService", () => {
+  let service: ProjectileService;
+  const movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+
+  const createEnemyAt = (id: string, distance: number): Enemy => {
+    const enemy = new Enemy(id, enemyTypes.get("BASIC"), movementPath, new Date());
+    enemy.move((distance / enemy.movementSpeed) * 1000);
+    return enemy;
+  };
+
+  const createTower = (type: TowerType, ability = SpecialAbility.NONE): Tower =>
+    new Tower("tower-1", type, new Position(100, 20), Tower.getDefaultStats(type), ability);
+
+  beforeEach(() => {
+    service = new ProjectileService();
+  });
+
+  describe("createProjectile", () => {
+    it("should create projectile from tower stats", () => {
+      const tower = createTower(TowerType.CANNON, SpecialAbility.SPLASH_DAMAGE);
+      const target = createEnemyAt("target", 100);
+
+      const projectile = service.createProjectile(tower, target);
+
+      expect(projectile.type).toBe(ProjectileType.BALLISTIC);
+      expect(projectile.sourceTowerId).toBe(tower.id);
+      expect(projectile.origin).toBe(tower.position);
+      expect(projectile.damage).toBe(tower.stats.damage);
+      expect(projectile.ability).toBe(SpecialAbility.SPLASH_DAMAGE);
+    });
+
+    it("should roll critical hits with the injected random source", () => {
+      const critService = new ProjectileService(() => 0);
+      const tower = new Tower("tower-1", TowerType.ARCHER, new Position(100, 20), {
+        ...Tower.getDefaultStats(TowerType.ARCHER),
+        critChance: 0.2,
+        critMultiplier: 2,
+      });
+      const target = createEnemyAt("target", 100);
+
+      const projectile = critService.createProjectile(tower, target);
+      projectile.update(1000);
+      const impact = critService.resolveImpact(projectile, [target]);
+
+      expect(projectile.isCritical).toBe(true);
+      expect(projectile.damage).toBe(tower.stats.damage * 2);
+      expect(impact.hits[0]?.isCritical).toBe(true);
+    });
+
+    it("should not roll critical hits for towers without crit chance", () => {
+      const critService = new ProjectileService(() => 0);
+      const tower = createTower(TowerType.ARCHER);
+
+      const projectile = critService.createProjectile(tower, createEnemyAt("target", 100));
+
+      expect(projectile.isCritical).toBe(false);
+      expect(projectile.damage).toBe(tower.stats.damage);
+    });
+
+    it("should give each projectile a unique id", () => {
+      const tower = createTower(TowerType.ARCHER);
+      const target = createEnemyAt("target", 100);
+
+      expect(service.createProjectile(tower, target).id).not.toBe(
+        service.createProjectile(tower, target).id
+      );
+    });
+  });
+
+  describe("resolveImpact", () => {
+    it("should hit the homing target on impact", () => {
+      const target = createEnemyAt("target", 100);
+      const projectile = service.createProjectile(createTower(TowerType.ARCHER), target);
+      projectile.update(1000);
+
+      const impact = service.resolveImpact(projectile, [target]);
+
+      expect(impact.position.equals(target.currentPosition)).toBe(true);
+      expect(impact.hits).toHaveLength(1);
+      expect(target.currentHealth).toBe(target.maxHealth - 25);
+    });
+
+    it("should miss when the target died before impact", () => {
+      const target = createEnemyAt("target", 100);
+      const projectile = service.createProjectile(createTower(TowerType.ARCHER), target);
+      target.destroy();
+      projectile.update(1000);
+
+      expect(service.resolveImpact(projectile, [target]).hits).toHaveLength(0);
+    });
+
+    it("should splash around the landing point of a cannonball", () => {
+      const target = createEnemyAt("target", 100);
+      const near = createEnemyAt("near", 140);
+      const projectile = service.createProjectile(createTower(TowerType.CANNON), target);
+      projectile.update(1000);
+
+      const impact = service.resolveImpact(projectile, [target, near]);
+
+      expect(impact.hits).toHaveLength(2);
+      expect(target.currentHealth).toBe(target.maxHealth - 50);
+      expect(near.currentHealth).toBe(near.maxHealth - 25);
+    });
+
+    it("should miss the direct hit when the target left the landing point", () => {
+      const target = createEnemyAt("target", 100);
+      const projectile = service.createProjectile(createTower(TowerType.CANNON), target);
+      target.move(2000);
+      projectile.update(1000);
+
+      expect(service.resolveImpact(projectile, [target]).hits).toHaveLength(0);
+    });
+
+    it("should chain beam hits with the tower ability", () => {
+      const target = createEnemyAt("target", 100);
+      const next = createEnemyAt("next", 150);
+      const projectile = service.createProjectile(
+        createTower(TowerType.LIGHTNING, SpecialAbility.CHAIN_LIGHTNING),
+        target
+      );
+      projectile.update(16);
+
+      const impact = service.resolveImpact(projectile, [target, next]);
+
+      expect(impact.hits.map((hit) => hit.enemy)).toEqual([target, next]);
+    });
+  });
+});
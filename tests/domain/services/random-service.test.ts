@@ -0,0 +1,84 @@
+import { describe, expect, it } from "bun:test";
+import { RandomService, RandomStream } from "../../../src/domain/services/random-service";
+
+const take = (source: () => number, count: number) => Array.from({ length: count }, () => source());
+
+describe("RandomService", () => {
+  describe("constructor", () => {
+    it("should keep the given seed", () => {
+      expect(new RandomService(12345).seed).toBe(12345);
+    });
+
+    it("should generate a seed when omitted", () => {
+      const seed = new RandomService().seed;
+
+      expect(Number.isInteger(seed)).toBe(true);
+      expect(seed).toBeGreaterThanOrEqual(0);
+      expect(seed).toBeLessThanOrEqual(0xffffffff);
+    });
+
+    it("should throw error for invalid seed", () => {
+      expect(() => new RandomService(-1)).toThrow(
+        "乱数シードは0以上2^32未満の整数である必要があります"
+      );
+      expect(() => new RandomService(1.5)).toThrow(
+        "乱数シードは0以上2^32未満の整数である必要があります"
+      );
+      expect(() => new RandomService(0x100000000)).toThrow(
+        "乱数シードは0以上2^32未満の整数である必要があります"
+      );
+    });
+  });
+
+  describe("createSource", () => {
+    it("should return values between 0 and 1", () => {
+      const values = take(RandomService.createSource(42), 1000);
+
+      expect(values.every((value) => value >= 0 && value < 1)).toBe(true);
+    });
+
+    it("should repeat the sequence for the same seed", () => {
+      expect(take(RandomService.createSource(42), 10)).toEqual(
+        take(RandomService.createSource(42), 10)
+      );
+      expect(take(RandomService.createSource(42), 10)).not.toEqual(
+        take(RandomService.createSource(43), 10)
+      );
+    });
+  });
+
+  describe("stream", () => {
+    it("should reproduce every stream from the same seed", () => {
+      const a = new RandomService(7);
+      const b = new RandomService(7);
+
+      expect(take(a.stream(RandomStream.CARDS), 5)).toEqual(take(b.stream(RandomStream.CARDS), 5));
+      expect(take(a.stream(RandomStream.ENEMIES), 5)).toEqual(
+        take(b.stream(RandomStream.ENEMIES), 5)
+      );
+    });
+
+    it("should share state between calls for the same stream", () => {
+      const random = new RandomService(7);
+      const first = take(random.stream(RandomStream.DECK), 3);
+      const second = take(random.stream(RandomStream.DECK), 3);
+
+      expect(second).not.toEqual(first);
+      expect([...first, ...second]).toEqual(
+        take(new RandomService(7).stream(RandomStream.DECK), 6)
+      );
+    });
+
+    it("should keep streams independent of each other", () => {
+      const busy = new RandomService(7);
+      take(busy.stream(RandomStream.EFFECTS), 100);
+
+      expect(take(busy.stream(RandomStream.ENEMIES), 5)).toEqual(
+        take(new RandomService(7).stream(RandomStream.ENEMIES), 5)
+      );
+      expect(take(busy.stream(RandomStream.CARDS), 5)).not.toEqual(
+        take(busy.stream(RandomStream.COMBAT), 5)
+      );
+    });
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import { Enemy } from "../../../src/domain/entities/enemy.js";
+import { TargetingService } from "../../../src/domain/services/targeting-service.js";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry.js";
+import type { EnemyType } from "../../../src/domain/value-objects/enemy-type.js";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
+import { TargetingStrategy } from "../../../src/domain/value-objects/targeting-strategy.js";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+
+describe("TargetingService", () => {
+  const service = new TargetingService();
+  const movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+  const origin = new Position(0, 0);
+
+  /**
+   * 指定距離だけ進んだ敵を作成
+   */
+  const createEnemy = (id: string, type: EnemyType, distance: number): Enemy => {
+    const enemy = new Enemy(id, type, movementPath, new Date());
+    enemy.move((distance / enemy.movementSpeed) * 1000);
+    return enemy;
+  };
+
+  // front: 最も進んでいる / back: 最も遅れている / boss: 中間のボス
+  const createCandidates = () => {
+    const front = createEnemy("front", enemyTypes.get("BASIC"), 300);
+    const back = createEnemy("back", enemyTypes.get("FAST"), 50);
+    const boss = createEnemy("boss", enemyTypes.get("BOSS"), 150);
+    front.takeDamage(90);
+    return { front, back, boss, all: [front, back, boss] };
+  };
+
+  it("FIRSTは最も進行度の高い敵を選ぶ", () => {
+    const { front, all } = createCandidates();
+    expect(service.selectTarget(TargetingStrategy.FIRST, origin, all)).toBe(front);
+  });
+
+  it("LASTは最も進行度の低い敵を選ぶ", () => {
+    const { back, all } = createCandidates();
+    expect(service.selectTarget(TargetingStrategy.LAST, origin, all)).toBe(back);
+  });
+
+  it("STRONGESTは体力の最も多い敵を選ぶ", () => {
+    const { boss, all } = createCandidates();
+    expect(service.selectTarget(TargetingStrategy.STRONGEST, origin, all)).toBe(boss);
+  });
+
+  it("WEAKESTは体力の最も少ない敵を選ぶ", () => {
+    const { front, all } = createCandidates();
+    expect(service.selectTarget(TargetingStrategy.WEAKEST, origin, all)).toBe(front);
+  });
+
+  it("CLOSESTはタワーに最も近い敵を選ぶ", () => {
+    const { back, all } = createCandidates();
+    expect(service.selectTarget(TargetingStrategy.CLOSEST, origin, all)).toBe(back);
+  });
+
+  it("FASTESTは現在の移動速度が最も速い敵を選ぶ", () => {
+    const { back, all } = createCandidates();
+    expect(service.selectTarget(TargetingStrategy.FASTEST, origin, all)).toBe(back);
+  });
+
+  it("BOSS_PRIORITYは進行度に関わらずボスを選ぶ", () => {
+    const { boss, all } = createCandidates();
+    expect(service.selectTarget(TargetingStrategy.BOSS_PRIORITY, origin, all)).toBe(boss);
+  });
+
+  it("BOSS_PRIORITYはボスがいなければ先頭の敵を選ぶ", () => {
+    const { front, back } = createCandidates();
+    expect(service.selectTarget(TargetingStrategy.BOSS_PRIORITY, origin, [back, front])).toBe(
+      front
+    );
+  });
+
+  it("評価値が同じ場合は進行度の高い敵を選ぶ", () => {
+    const ahead = createEnemy("ahead", enemyTypes.get("BASIC"), 200);
+    const behind = createEnemy("behind", enemyTypes.get("BASIC"), 100);
+
+    expect(service.selectTarget(TargetingStrategy.STRONGEST, origin, [behind, ahead])).toBe(ahead);
+  });
+
+  it("候補がいない場合はnullを返す", () => {
+    expect(service.selectTarget(TargetingStrategy.FIRST, origin, [])).toBeNull();
+  });
+});
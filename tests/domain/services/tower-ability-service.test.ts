@@ -0,0 +1,276 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import { Enemy } from "../../../src/domain/entities/enemy";
+import { TowerAbilityService } from "../../../src/domain/services/tower-ability-service";
+import { DamageType } from "../../../src/domain/value-objects/damage-type";
+import { EnemyType } from "../../../src/domain/value-objects/enemy-type";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path";
+import { Position } from "../../../src/domain/value-objects/position";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability";
+import { StatusEffect, StatusEffectType } from "../../../src/domain/value-objects/status-effect";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+
+describe("TowerAbilityService", () => {
+  let service: TowerAbilityService;
+  let movementPath: MovementPath;
+
+  const createEnemyAt = (id: string, distance: number): Enemy => {
+    const enemy = new Enemy(id, enemyTypes.get("BASIC"), movementPath, new Date());
+    // BASICは100px/秒で移動する
+    enemy.move(distance * 10);
+    return enemy;
+  };
+
+  const attack = (ability: SpecialAbility, target: Enemy, enemies: Enemy[]) =>
+    service.resolveAttack({
+      ability,
+      origin: new Position(0, 50),
+      range: 1000,
+      damage: 40,
+      target,
+      enemies,
+    });
+
+  beforeEach(() => {
+    service = new TowerAbilityService();
+    movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+  });
+
+  describe("resolveAttack", () => {
+    it("should only hit the target without ability", () => {
+      const target = createEnemyAt("target", 100);
+      const other = createEnemyAt("other", 110);
+
+      const hits = attack(SpecialAbility.NONE, target, [target, other]);
+
+      expect(hits).toHaveLength(1);
+      expect(hits[0]?.isPrimary).toBe(true);
+      expect(target.currentHealth).toBe(60);
+      expect(other.currentHealth).toBe(100);
+    });
+
+    it("should return no hits for dead target", () => {
+      const target = createEnemyAt("target", 100);
+      target.destroy();
+
+      expect(attack(SpecialAbility.NONE, target, [target])).toHaveLength(0);
+    });
+
+    it("should damage nearby enemies with splash damage", () => {
+      const target = createEnemyAt("target", 100);
+      const near = createEnemyAt("near", 130);
+      const far = createEnemyAt("far", 300);
+
+      const hits = attack(SpecialAbility.SPLASH_DAMAGE, target, [target, near, far]);
+
+      expect(hits.map((hit) => hit.enemy.id)).toEqual(["target", "near"]);
+      expect(near.currentHealth).toBe(100 - 40 * TowerAbilityService.SPLASH_DAMAGE_RATIO);
+      expect(far.currentHealth).toBe(100);
+    });
+
+    it("should chain lightning to nearest enemies with falloff", () => {
+      const target = createEnemyAt("target", 100);
+      const first = createEnemyAt("first", 160);
+      const second = createEnemyAt("second", 240);
+      const outOfRange = createEnemyAt("out", 500);
+
+      const hits = attack(SpecialAbility.CHAIN_LIGHTNING, target, [
+        target,
+        second,
+        first,
+        outOfRange,
+      ]);
+
+      expect(hits.map((hit) => hit.enemy.id)).toEqual(["target", "first", "second"]);
+      expect(hits[1]?.damage).toBe(28);
+      expect(hits[2]?.damage).toBe(20);
+      expect(outOfRange.currentHealth).toBe(100);
+    });
+
+    it("should hit additional enemies in range with multi shot", () => {
+      const target = createEnemyAt("target", 100);
+      const others = [200, 300, 400].map((distance) => createEnemyAt(`e-${distance}`, distance));
+
+      const hits = attack(SpecialAbility.MULTI_SHOT, target, [target, ...others]);
+
+      expect(hits).toHaveLength(1 + TowerAbilityService.MULTI_SHOT_EXTRA_TARGETS);
+      // 進行度の高い敵が優先される
+      expect(hits.slice(1).map((hit) => hit.enemy.id)).toEqual(["e-400", "e-300"]);
+    });
+
+    it("should apply status effect to primary target", () => {
+      const target = createEnemyAt("target", 100);
+
+      attack(SpecialAbility.SLOW_EFFECT, target, [target]);
+
+      expect(target.hasStatusEffect(StatusEffectType.SLOW)).toBe(true);
+    });
+  });
+
+  describe("resolveAreaImpact", () => {
+    const impact = (center: Position, enemies: Enemy[], ability = SpecialAbility.NONE) =>
+      service.resolveAreaImpact({ ability, center, damage: 40, enemies });
+
+    it("should deal full damage to the enemy at the impact point and splash the others", () => {
+      const direct = createEnemyAt("direct", 100);
+      const near = createEnemyAt("near", 140);
+      const far = createEnemyAt("far", 300);
+
+      const hits = impact(direct.currentPosition, [near, direct, far], SpecialAbility.FREEZE);
+
+      expect(hits).toHaveLength(2);
+      expect(hits[0]?.enemy).toBe(direct);
+      expect(hits[0]?.isPrimary).toBe(true);
+      expect(direct.currentHealth).toBe(60);
+      expect(direct.hasStatusEffect(StatusEffectType.FREEZE)).toBe(true);
+      expect(near.currentHealth).toBe(80);
+      expect(near.hasStatusEffect(StatusEffectType.FREEZE)).toBe(false);
+      expect(far.currentHealth).toBe(100);
+    });
+
+    it("should only splash when no enemy is at the impact point", () => {
+      const near = createEnemyAt("near", 140);
+
+      const hits = impact(near.currentPosition.subtract(new Position(30, 0)), [near]);
+
+      expect(hits).toHaveLength(1);
+      expect(hits[0]?.isPrimary).toBe(false);
+      expect(near.currentHealth).toBe(80);
+    });
+
+    it("should return no hits when nothing is in the blast radius", () => {
+      const far = createEnemyAt("far", 300);
+
+      const center = far.currentPosition.subtract(
+        new Position(TowerAbilityService.SPLASH_RADIUS + 1, 0)
+      );
+
+      expect(impact(center, [far])).toHaveLength(0);
+    });
+  });
+
+  describe("damage types", () => {
+    const createArmoredEnemy = (): Enemy => {
+      const armored = EnemyType.fromDefinition("ARMORED", {
+        displayName: "装甲敵",
+        description: "硬い装甲を持つ敵",
+        rank: "elite",
+        baseStats: { health: 500, attackPower: 40, movementSpeed: 70, armor: 100 },
+        resistances: { FIRE: 0.5, POISON: 0.5, LIGHTNING: -0.25 },
+        scoreValue: 40,
+        imageUrl: "/images/enemies/armored.png",
+      });
+      return new Enemy("armored", armored, movementPath, new Date());
+    };
+
+    const typedAttack = (ability: SpecialAbility, target: Enemy, damageType?: DamageType) =>
+      service.resolveAttack({
+        ability,
+        origin: new Position(0, 50),
+        range: 1000,
+        damage: 40,
+        damageType,
+        target,
+        enemies: [target],
+      });
+
+    it("物理攻撃は装甲で軽減される", () => {
+      const target = createArmoredEnemy();
+
+      const [hit] = typedAttack(SpecialAbility.NONE, target);
+
+      expect(hit?.damage).toBe(20);
+      expect(hit?.damageType).toBe(DamageType.PHYSICAL);
+      expect(hit?.isResisted).toBe(true);
+      expect(target.currentHealth).toBe(480);
+    });
+
+    it("属性攻撃は耐性と弱点が適用される", () => {
+      const target = createArmoredEnemy();
+
+      const [magic] = typedAttack(SpecialAbility.NONE, target, DamageType.MAGIC);
+      const [lightning] = typedAttack(SpecialAbility.NONE, target, DamageType.LIGHTNING);
+
+      expect(magic?.damage).toBe(40);
+      expect(magic?.isResisted).toBe(false);
+      expect(lightning?.damage).toBe(50);
+    });
+
+    it("防御貫通は装甲を無視する", () => {
+      const target = createArmoredEnemy();
+
+      const [hit] = typedAttack(SpecialAbility.ARMOR_PIERCE, target);
+
+      expect(hit?.damage).toBe(40);
+      expect(hit?.isResisted).toBe(false);
+    });
+
+    it("継続ダメージに耐性が適用される", () => {
+      const target = createArmoredEnemy();
+
+      typedAttack(SpecialAbility.POISON_EFFECT, target, DamageType.POISON);
+
+      const [poison] = target.getStatusEffects();
+      expect(poison?.effect.tickDamage).toBe(StatusEffect.poison().tickDamage / 2);
+    });
+
+    it("会心の攻撃は巻き込んだ敵への命中も会心になる", () => {
+      const target = createEnemyAt("target", 100);
+      const near = createEnemyAt("near", 130);
+
+      const hits = service.resolveAttack({
+        ability: SpecialAbility.SPLASH_DAMAGE,
+        origin: new Position(0, 50),
+        range: 1000,
+        damage: 80,
+        isCritical: true,
+        target,
+        enemies: [target, near],
+      });
+
+      expect(hits.map((hit) => hit.isCritical)).toEqual([true, true]);
+      expect(attack(SpecialAbility.NONE, near, [near])[0]?.isCritical).toBe(false);
+    });
+
+    it("範囲攻撃の巻き込みにも装甲が適用される", () => {
+      const direct = createEnemyAt("direct", 100);
+      const armored = createArmoredEnemy();
+      armored.move((110 / armored.movementSpeed) * 1000);
+
+      service.resolveAreaImpact({
+        ability: SpecialAbility.NONE,
+        center: direct.currentPosition,
+        damage: 40,
+        damageType: DamageType.PHYSICAL,
+        enemies: [direct, armored],
+      });
+
+      expect(direct.currentHealth).toBe(60);
+      expect(armored.currentHealth).toBe(490);
+    });
+  });
+
+  describe("createStatusEffect", () => {
+    it("should map status abilities to effects", () => {
+      expect(service.createStatusEffect(SpecialAbility.SLOW_EFFECT)?.type).toBe(
+        StatusEffectType.SLOW
+      );
+      expect(service.createStatusEffect(SpecialAbility.POISON_EFFECT)?.type).toBe(
+        StatusEffectType.POISON
+      );
+      expect(service.createStatusEffect(SpecialAbility.FREEZE)?.type).toBe(StatusEffectType.FREEZE);
+      expect(service.createStatusEffect(SpecialAbility.BURN)?.type).toBe(StatusEffectType.BURN);
+      expect(service.createStatusEffect(SpecialAbility.STUN)?.type).toBe(StatusEffectType.STUN);
+      expect(service.createStatusEffect(SpecialAbility.ARMOR_PIERCE)?.type).toBe(
+        StatusEffectType.ARMOR_BREAK
+      );
+    });
+
+    it("should return null for abilities without status effect", () => {
+      expect(service.createStatusEffect(SpecialAbility.NONE)).toBeNull();
+      expect(service.createStatusEffect(SpecialAbility.SPLASH_DAMAGE)).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import { Enemy } from "../../../src/domain/entities/enemy.js";
+import { Tower } from "../../../src/domain/entities/tower.js";
+import { TowerAttackService } from "../../../src/domain/services/tower-attack-service.js";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry.js";
+import { EnemyType } from "../../../src/domain/value-objects/enemy-type.js";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
+import { StatusEffect } from "../../../src/domain/value-objects/status-effect.js";
+import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+
+describe("TowerAttackService", () => {
+  const service = new TowerAttackService();
+  const movementPath = new MovementPath([new Position(0, 0), new Position(1000, 0)]);
+
+  const createTower = (id: string, position: Position): Tower =>
+    new Tower(id, TowerType.ARCHER, position, Tower.getDefaultStats(TowerType.ARCHER));
+
+  it("射程内の最も近いタワーを攻撃する", () => {
+    const enemy = new Enemy("enemy-1", enemyTypes.get("RANGED"), movementPath, new Date());
+    const far = createTower("far", new Position(0, 100));
+    const near = createTower("near", new Position(0, 50));
+
+    const attacks = service.processTowerAttacks([enemy], [far, near], 10);
+
+    expect(attacks).toHaveLength(1);
+    expect(attacks[0]?.tower).toBe(near);
+    expect(attacks[0]?.damage).toBe(enemy.attackPower);
+    expect(near.health).toBe(near.maxHealth - enemy.attackPower);
+    expect(far.health).toBe(far.maxHealth);
+    expect(enemy.isAttackingTower).toBe(true);
+  });
+
+  it("攻撃間隔が経過するまで次の攻撃をしない", () => {
+    const enemy = new Enemy("enemy-1", enemyTypes.get("RANGED"), movementPath, new Date());
+    const tower = createTower("tower-1", new Position(0, 50));
+
+    service.processTowerAttacks([enemy], [tower], 10);
+    expect(service.processTowerAttacks([enemy], [tower], enemy.attackInterval - 10)).toEqual([]);
+    expect(service.processTowerAttacks([enemy], [tower], 10)).toHaveLength(1);
+  });
+
+  it("耐久値が0になったタワーは瓦礫になり攻撃対象から外れる", () => {
+    const enemy = new Enemy("enemy-1", enemyTypes.get("RANGED"), movementPath, new Date());
+    const tower = createTower("tower-1", new Position(0, 50));
+    tower.takeDamage(tower.maxHealth - 1);
+
+    const attacks = service.processTowerAttacks([enemy], [tower], 10);
+
+    expect(attacks[0]?.damage).toBe(1);
+    expect(attacks[0]?.destroyed).toBe(true);
+    expect(service.findTarget(enemy, [tower])).toBeNull();
+  });
+
+  it("射程内にタワーがなければ移動を再開する", () => {
+    const enemy = new Enemy("enemy-1", enemyTypes.get("RANGED"), movementPath, new Date());
+    const tower = createTower("tower-1", new Position(0, 50));
+    service.processTowerAttacks([enemy], [tower], 10);
+
+    tower.takeDamage(tower.maxHealth);
+    service.processTowerAttacks([enemy], [tower], 10);
+
+    expect(enemy.isAttackingTower).toBe(false);
+  });
+
+  it("攻撃射程を持たない敵はタワーを攻撃しない", () => {
+    const enemy = new Enemy("enemy-1", enemyTypes.get("BASIC"), movementPath, new Date());
+    const tower = createTower("tower-1", new Position(0, 10));
+
+    expect(service.processTowerAttacks([enemy], [tower], 10)).toEqual([]);
+    expect(tower.health).toBe(tower.maxHealth);
+  });
+
+  it("凍結中の敵はタワーを攻撃しない", () => {
+    const enemy = new Enemy("enemy-1", enemyTypes.get("RANGED"), movementPath, new Date());
+    enemy.applyStatusEffect(StatusEffect.freeze(1000));
+    const tower = createTower("tower-1", new Position(0, 50));
+
+    expect(service.processTowerAttacks([enemy], [tower], 10)).toEqual([]);
+  });
+});
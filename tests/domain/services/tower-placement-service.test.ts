@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import { Card } from "../../../src/domain/entities/card.js";
+import { Tower } from "../../../src/domain/entities/tower.js";
+import { TowerPlacementService } from "../../../src/domain/services/tower-placement-service.js";
+import { CardCost } from "../../../src/domain/value-objects/card-cost.js";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
+import { Rectangle } from "../../../src/domain/value-objects/rectangle.js";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
+import { TileGrid } from "../../../src/domain/value-objects/tile-grid.js";
+import { TileType } from "../../../src/domain/value-objects/tile-type.js";
+import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+
+describe("TowerPlacementService", () => {
+  // 横一直線の経路（中心線がタイル行の中心 y=200 を通る）
+  const horizontalPath = new MovementPath([new Position(0, 200), new Position(800, 200)]);
+  const card = new Card(
+    "card-1",
+    "アーチャー",
+    "テスト用カード",
+    new CardCost(3),
+    TowerType.ARCHER,
+    SpecialAbility.NONE
+  );
+
+  let service: TowerPlacementService;
+
+  beforeEach(() => {
+    service = new TowerPlacementService({
+      fieldBounds: new Rectangle(0, 60, 800, 420),
+      tileSize: 40,
+      pathHalfWidth: 15,
+      towerFootprintRadius: 16,
+    });
+    service.setPaths([horizontalPath]);
+  });
+
+  describe("地形が定義されていないマップ", () => {
+    it("フィールド全体を地面のタイルで敷き詰め、経路が通るタイルを経路タイルにする", () => {
+      const grid = service.grid;
+
+      expect(grid.columns).toBe(20);
+      expect(grid.rows).toBe(10);
+      expect(grid.getTileAt(new Position(400, 200))).toBe(TileType.PATH);
+      expect(grid.getTileAt(new Position(400, 240))).toBe(TileType.BUILDABLE);
+    });
+
+    it("キャンバスのレイアウトに合わせてフィールドを変更できる", () => {
+      service.setFieldBounds(new Rectangle(0, 60, 1200, 600));
+
+      expect(service.grid.columns).toBe(30);
+      expect(service.validatePlacement(new Position(1000, 500), []).valid).toBe(true);
+    });
+  });
+
+  describe("validatePlacement", () => {
+    it("配置位置をタイルの中心に吸着させる", () => {
+      const result = service.validatePlacement(new Position(405, 235), []);
+
+      expect(result.valid).toBe(true);
+      expect(result.position?.equals(new Position(420, 240))).toBe(true);
+    });
+
+    it("経路タイルには配置できない", () => {
+      const result = service.validatePlacement(new Position(400, 210), []);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe("敵の移動経路上には配置できません");
+    });
+
+    it("フィールド外には配置できない", () => {
+      const result = service.validatePlacement(new Position(400, 40), []);
+
+      expect(result.valid).toBe(false);
+      expect(result.error).toBe("ゲームフィールド外には配置できません");
+    });
+
+    it("1タイルに1基までしか配置できない", () => {
+      const tower = Tower.fromCard(card, new Position(420, 260));
+
+      const sameTile = service.validatePlacement(new Position(405, 275), [tower]);
+      const nextTile = service.validatePlacement(new Position(445, 260), [tower]);
+
+      expect(sameTile.valid).toBe(false);
+      expect(sameTile.error).toBe("このタイルには既にタワーがあります");
+      expect(nextTile.valid).toBe(true);
+    });
+  });
+
+  describe("地形が定義されたマップ", () => {
+    beforeEach(() => {
+      service.setTerrain(
+        TileGrid.parse({
+          tileSize: 40,
+          origin: { x: 0, y: 60 },
+          rows: ["RW*.", "....", "....", ".R.."],
+        })
+      );
+    });
+
+    it("岩や水辺の上には配置できない", () => {
+      const rock = service.validatePlacement(new Position(20, 80), []);
+      const water = service.validatePlacement(new Position(60, 80), []);
+
+      expect(rock.error).toBe("岩の上には配置できません");
+      expect(water.error).toBe("水辺の上には配置できません");
+    });
+
+    it("強化タイルには配置できる", () => {
+      expect(service.validatePlacement(new Position(100, 80), []).valid).toBe(true);
+    });
+
+    it("地形の上にも経路タイルが反映される", () => {
+      // 経路 y=200 は4行目（y=180〜220）を通る
+      expect(service.grid.getTile({ column: 1, row: 3 })).toBe(TileType.PATH);
+    });
+
+    it("タワーを吸着させた位置に配置する", () => {
+      const result = service.placeTower(card, new Position(110, 70), []);
+
+      expect(result.success).toBe(true);
+      expect(result.tower?.position.equals(new Position(100, 80))).toBe(true);
+    });
+
+    it("配置したタワーには配置順の連番IDが付く", () => {
+      const first = service.placeTower(card, new Position(100, 80), []);
+      const second = service.placeTower(card, new Position(140, 80), [first.tower as Tower]);
+
+      expect(first.tower?.id).toBe("tower-1");
+      expect(second.tower?.id).toBe("tower-2");
+    });
+  });
+
+  describe("getValidPlacementPositions", () => {
+    it("空いている配置可能タイルの中心を返す", () => {
+      const tower = Tower.fromCard(card, new Position(20, 80));
+
+      const positions = service.getValidPlacementPositions([tower]);
+
+      // 20x10タイルのうち経路の1行と設置済みの1タイルを除く
+      expect(positions).toHaveLength(200 - 20 - 1);
+      expect(positions.some((position) => position.equals(new Position(20, 80)))).toBe(false);
+      expect(
+        positions.every((position) => service.grid.getTileAt(position) !== TileType.PATH)
+      ).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from "bun:test";
+import { Tower } from "../../../src/domain/entities/tower.js";
+import { TowerRepairService } from "../../../src/domain/services/tower-repair-service.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
+import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+
+describe("TowerRepairService", () => {
+  const service = new TowerRepairService();
+
+  const createTower = (cost: number): Tower =>
+    new Tower("tower-1", TowerType.ARCHER, new Position(100, 100), {
+      ...Tower.getDefaultStats(TowerType.ARCHER),
+      cost,
+    });
+
+  it("損傷していないタワーの修理費用は0", () => {
+    expect(service.calculateRepairCost(createTower(6))).toBe(0);
+  });
+
+  it("瓦礫から再建する費用は総投資額の半分", () => {
+    const tower = createTower(4);
+    tower.upgrade(tower.stats, SpecialAbility.NONE, 6);
+    tower.takeDamage(tower.maxHealth);
+
+    expect(service.calculateRepairCost(tower)).toBe(5);
+  });
+
+  it("失った耐久値の割合に応じて費用が決まり、端数は切り上げる", () => {
+    const tower = createTower(6);
+    tower.takeDamage(tower.maxHealth / 3);
+
+    expect(service.calculateRepairCost(tower)).toBe(1);
+  });
+
+  it("損傷していないタワーは修理できない", () => {
+    const result = service.validateRepair(createTower(6), 10);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain("タワーは損傷していません");
+  });
+
+  it("マナが不足している場合は修理できない", () => {
+    const tower = createTower(6);
+    tower.takeDamage(tower.maxHealth);
+
+    const result = service.validateRepair(tower, 2);
+
+    expect(result.isValid).toBe(false);
+    expect(result.errors).toContain("マナが不足しています");
+    expect(result.cost).toBe(3);
+  });
+});
@@ -0,0 +1,40 @@
+import { describe, expect, it } from "bun:test";
+import { Tower } from "../../../src/domain/entities/tower.js";
+import { TowerSellService } from "../../../src/domain/services/tower-sell-service.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
+import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+
+describe("TowerSellService", () => {
+  const service = new TowerSellService();
+
+  const createTower = (cost: number): Tower =>
+    new Tower("tower-1", TowerType.ARCHER, new Position(100, 100), {
+      ...Tower.getDefaultStats(TowerType.ARCHER),
+      cost,
+    });
+
+  it("デフォルトでは総投資額の半分を返還する", () => {
+    expect(service.calculateRefund(createTower(6))).toBe(3);
+  });
+
+  it("端数は切り捨てる", () => {
+    expect(service.calculateRefund(createTower(5))).toBe(2);
+  });
+
+  it("強化費用も返還対象に含める", () => {
+    const tower = createTower(4);
+    tower.upgrade(tower.stats, SpecialAbility.NONE, 6);
+
+    expect(service.calculateRefund(tower, 0.75)).toBe(7);
+  });
+
+  it("範囲外の返還率はエラー", () => {
+    expect(() => service.calculateRefund(createTower(4), -0.1)).toThrow(
+      "返還率は0以上1以下である必要があります"
+    );
+    expect(() => service.calculateRefund(createTower(4), 1.1)).toThrow(
+      "返還率は0以上1以下である必要があります"
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import { describe, expect, it } from "bun:test";
+import { Tower } from "../../../src/domain/entities/tower.js";
+import { TowerUpgradeService } from "../../../src/domain/services/tower-upgrade-service.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
+import { TowerBuff } from "../../../src/domain/value-objects/tower-buff.js";
+import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+
+describe("TowerUpgradeService", () => {
+  const service = new TowerUpgradeService();
+
+  const createTower = (
+    type: TowerType = TowerType.ARCHER,
+    ability: SpecialAbility = SpecialAbility.NONE
+  ): Tower =>
+    new Tower("tower-1", type, new Position(100, 100), Tower.getDefaultStats(type), ability);
+
+  describe("validateUpgrade", () => {
+    it("マナが足りていれば強化できる", () => {
+      const result = service.validateUpgrade(createTower(), 10);
+
+      expect(result.isValid).toBe(true);
+      expect(result.upgrade?.level).toBe(2);
+    });
+
+    it("マナが不足している場合は強化できない", () => {
+      const result = service.validateUpgrade(createTower(), 1);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual(["マナが不足しています"]);
+    });
+
+    it("最大レベルの場合は強化できない", () => {
+      const tower = createTower();
+      service.applyUpgrade(tower);
+      service.applyUpgrade(tower);
+
+      const result = service.validateUpgrade(tower, 100);
+
+      expect(result.isValid).toBe(false);
+      expect(result.errors).toEqual(["タワーは最大レベルです"]);
+    });
+  });
+
+  describe("applyUpgrade", () => {
+    it("攻撃力・射程・攻撃間隔が変化する", () => {
+      const tower = createTower();
+      const before = { ...tower.stats };
+
+      const upgrade = service.applyUpgrade(tower);
+
+      expect(tower.level).toBe(2);
+      expect(tower.stats.damage).toBe(Math.round(before.damage * upgrade.damageMultiplier));
+      expect(tower.stats.range).toBe(before.range + upgrade.rangeBonus);
+      expect(tower.stats.attackSpeed).toBe(
+        Math.round(before.attackSpeed * upgrade.attackSpeedMultiplier)
+      );
+      expect(tower.stats.cost).toBe(before.cost);
+      expect(tower.upgradeSpent).toBe(upgrade.cost);
+    });
+
+    it("オーラによる強化は強化後の性能に含めない", () => {
+      const tower = createTower();
+      const before = { ...tower.baseStats };
+      tower.setBuff(new TowerBuff(1.5, 1.5));
+
+      const upgrade = service.applyUpgrade(tower);
+
+      expect(tower.baseStats.damage).toBe(Math.round(before.damage * upgrade.damageMultiplier));
+      expect(tower.baseStats.range).toBe(before.range + upgrade.rangeBonus);
+    });
+
+    it("特殊能力を持たないタワーは最終レベルで能力が解放される", () => {
+      const tower = createTower(TowerType.FIRE);
+
+      service.applyUpgrade(tower);
+      expect(tower.specialAbility).toBe(SpecialAbility.NONE);
+
+      service.applyUpgrade(tower);
+      expect(tower.specialAbility).toBe(SpecialAbility.BURN);
+    });
+
+    it("カード由来の特殊能力は上書きしない", () => {
+      const tower = createTower(TowerType.FIRE, SpecialAbility.STUN);
+
+      service.applyUpgrade(tower);
+      service.applyUpgrade(tower);
+
+      expect(tower.specialAbility).toBe(SpecialAbility.STUN);
+    });
+
+    it("会心率の強化が加算される", () => {
+      const tower = new Tower("tower-1", TowerType.ARCHER, new Position(100, 100), {
+        ...Tower.getDefaultStats(TowerType.ARCHER),
+        critChance: 0.15,
+        critMultiplier: 2,
+      });
+
+      const second = service.applyUpgrade(tower);
+      const third = service.applyUpgrade(tower);
+
+      expect(tower.stats.critChance).toBeCloseTo(
+        0.15 + (second.critChanceBonus ?? 0) + (third.critChanceBonus ?? 0)
+      );
+      expect(tower.stats.critMultiplier).toBe(2);
+    });
+
+    it("会心率の強化がないタワーは会心率を持たない", () => {
+      const tower = createTower(TowerType.CANNON);
+
+      service.applyUpgrade(tower);
+      service.applyUpgrade(tower);
+
+      expect(tower.stats.critChance).toBeUndefined();
+    });
+
+    it("最大レベルのタワーを強化するとエラー", () => {
+      const tower = createTower();
+      service.applyUpgrade(tower);
+      service.applyUpgrade(tower);
+
+      expect(() => service.applyUpgrade(tower)).toThrow("タワーは最大レベルです");
+    });
+  });
+});
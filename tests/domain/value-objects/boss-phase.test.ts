@@ -0,0 +1,98 @@
+import { describe, expect, it } from "bun:test";
+import { BossActionType, BossPhase } from "../../../src/domain/value-objects/boss-phase";
+
+describe("BossPhase", () => {
+  describe("fromDefinition", () => {
+    it("should fill in default timings", () => {
+      const phase = BossPhase.fromDefinition({
+        name: "進軍",
+        healthThreshold: 1,
+        actions: [{ type: "SHIELD", amount: 100 }],
+      });
+
+      expect(phase.name).toBe("進軍");
+      expect(phase.actions).toEqual([
+        {
+          type: BossActionType.SHIELD,
+          delay: 0,
+          interval: null,
+          telegraph: BossPhase.DEFAULT_TELEGRAPH,
+          amount: 100,
+        },
+      ]);
+    });
+
+    it("should not expose internal actions", () => {
+      const phase = BossPhase.fromDefinition({
+        name: "進軍",
+        healthThreshold: 1,
+        actions: [{ type: "SHIELD", amount: 100 }],
+      });
+
+      phase.actions.pop();
+
+      expect(phase.actions).toHaveLength(1);
+    });
+
+    it("should throw error for invalid threshold", () => {
+      expect(() => new BossPhase("進軍", 0, [])).toThrow(
+        "フェーズの体力の割合は0より大きく1以下である必要があります"
+      );
+    });
+  });
+
+  describe("validateDefinitions", () => {
+    it("should accept valid phases", () => {
+      expect(
+        BossPhase.validateDefinitions("TYRANT", [
+          { name: "進軍", healthThreshold: 1 },
+          {
+            name: "号令",
+            healthThreshold: 0.5,
+            actions: [
+              { type: "SPEED_BURST", multiplier: 2, duration: 1000 },
+              { type: "SUMMON", enemyType: "BASIC", count: 2, interval: 5000 },
+              { type: "DISABLE_TOWERS", radius: 100, duration: 2000, telegraph: 0 },
+            ],
+          },
+        ])
+      ).toEqual([]);
+    });
+
+    it("should report threshold order errors", () => {
+      expect(
+        BossPhase.validateDefinitions("TYRANT", [
+          { name: "進軍", healthThreshold: 0.8 },
+          { name: "号令", healthThreshold: 0.9 },
+        ])
+      ).toEqual([
+        "最初のフェーズの体力の割合は1である必要があります",
+        "フェーズ2: 体力の割合は前のフェーズより小さい必要があります",
+      ]);
+    });
+
+    it("should report invalid actions with phase number", () => {
+      expect(
+        BossPhase.validateDefinitions("TYRANT", [
+          {
+            name: "進軍",
+            healthThreshold: 1,
+            actions: [
+              { type: "TELEPORT" },
+              { type: "SPEED_BURST", multiplier: 0.5, duration: 1000 },
+              { type: "SUMMON", enemyType: "TYRANT", count: 1 },
+            ],
+          },
+        ])
+      ).toEqual([
+        "フェーズ1: 無効なボスの行動です: TELEPORT",
+        "フェーズ1: 突進の速度倍率は1より大きい必要があります",
+        "フェーズ1: 自分と同じ敵タイプは召喚できません",
+      ]);
+    });
+
+    it("should report empty phases", () => {
+      expect(BossPhase.validateDefinitions("TYRANT", [])).toEqual(["フェーズが定義されていません"]);
+    });
+  });
+});
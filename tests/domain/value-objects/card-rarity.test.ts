@@ -0,0 +1,33 @@
+import { describe, expect, it } from "bun:test";
+import { CardRarity } from "../../../src/domain/value-objects/card-rarity.js";
+
+describe("CardRarity", () => {
+  describe("ユーティリティメソッド", () => {
+    it("すべてのレアリティを低い順に取得できる", () => {
+      expect(CardRarity.getAllRarities()).toEqual([
+        "common",
+        "uncommon",
+        "rare",
+        "epic",
+        "legendary",
+      ]);
+    });
+
+    it("有効なレアリティかどうか判定できる", () => {
+      expect(CardRarity.isValid("rare")).toBe(true);
+      expect(CardRarity.isValid("RARE")).toBe(false);
+      expect(CardRarity.isValid("")).toBe(false);
+    });
+
+    it("レアリティの表示名を取得できる", () => {
+      expect(CardRarity.getDisplayName(CardRarity.COMMON)).toBe("コモン");
+      expect(CardRarity.getDisplayName(CardRarity.LEGENDARY)).toBe("レジェンダリー");
+    });
+
+    it("無効なレアリティの表示名取得でエラーが発生する", () => {
+      expect(() => CardRarity.getDisplayName("mythic" as CardRarity)).toThrow(
+        "無効なレアリティです: mythic"
+      );
+    });
+  });
+});
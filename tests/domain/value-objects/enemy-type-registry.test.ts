@@ -0,0 +1,180 @@
+import { describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import { EnemyType } from "../../../src/domain/value-objects/enemy-type";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry";
+
+describe("EnemyTypeRegistry", () => {
+  const definition = (overrides: Record<string, unknown> = {}) => ({
+    displayName: "装甲敵",
+    description: "硬い装甲を持つ敵",
+    rank: "elite",
+    baseStats: { health: 200, attackPower: 40, movementSpeed: 70 },
+    scoreValue: 40,
+    imageUrl: "/images/enemies/armored.png",
+    ...overrides,
+  });
+
+  const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+
+  describe("getAll", () => {
+    it("should return all enemy types in config order", () => {
+      const types = enemyTypes.getAll();
+
+      expect(types).toHaveLength(12);
+      expect(types.slice(0, 5).map((type) => type.name)).toEqual([
+        "BASIC",
+        "RANGED",
+        "FAST",
+        "ENHANCED",
+        "BOSS",
+      ]);
+      expect(types).toContain(enemyTypes.get("HEALER"));
+      expect(types).toContain(enemyTypes.get("FLYER"));
+    });
+  });
+
+  describe("get", () => {
+    it("should return the same instance for the same name", () => {
+      expect(enemyTypes.get("BASIC")).toBe(enemyTypes.get("BASIC"));
+      expect(enemyTypes.get("BASIC").name).toBe("BASIC");
+    });
+
+    it("should throw error for unknown name", () => {
+      expect(() => enemyTypes.get("INVALID")).toThrow("Unknown enemy type: INVALID");
+    });
+
+    it("should be case sensitive", () => {
+      expect(() => enemyTypes.get("basic")).toThrow("Unknown enemy type: basic");
+    });
+  });
+
+  describe("find", () => {
+    it("should return null for unknown name", () => {
+      expect(enemyTypes.find("FAST")).toBe(enemyTypes.get("FAST"));
+      expect(enemyTypes.find("INVALID")).toBeNull();
+    });
+  });
+
+  describe("has", () => {
+    it("should only accept types registered in this registry", () => {
+      const other = EnemyTypeRegistry.load(enemiesData);
+
+      expect(enemyTypes.has(enemyTypes.get("BASIC"))).toBe(true);
+      expect(enemyTypes.has(other.get("BASIC"))).toBe(false);
+    });
+  });
+
+  describe("load", () => {
+    it("should register new types from config only", () => {
+      const registry = EnemyTypeRegistry.load({
+        enemyTypes: { ...enemiesData.enemyTypes, ARMORED: definition() },
+      });
+
+      const armored = registry.get("ARMORED");
+      expect(armored.getDisplayName()).toBe("装甲敵");
+      expect(armored.getBaseStats()).toEqual({
+        health: 200,
+        attackPower: 40,
+        movementSpeed: 70,
+        scoreValue: 40,
+        attackRange: 0,
+        attackInterval: EnemyType.DEFAULT_ATTACK_INTERVAL,
+        armor: 0,
+      });
+      expect(armored.isElite()).toBe(true);
+      expect(armored.getAbilities()).toEqual([]);
+      expect(registry.getAll()).toHaveLength(13);
+      expect(enemyTypes.getAll()).toHaveLength(12);
+    });
+
+    it("should report every invalid entry", () => {
+      expect(() =>
+        EnemyTypeRegistry.load({
+          enemyTypes: {
+            BROKEN: definition({ rank: "legend", scoreValue: -1 }),
+            SLOW: definition({ baseStats: { health: 0, attackPower: 1, movementSpeed: 0 } }),
+          },
+        })
+      ).toThrow(
+        "敵タイプ設定の読み込みに失敗しました:\n" +
+          "BROKEN: 無効な格付けです: legend\n" +
+          "BROKEN: スコアは0以上の整数である必要があります\n" +
+          "SLOW: 体力は正の値である必要があります\n" +
+          "SLOW: 移動速度は正の値である必要があります"
+      );
+    });
+
+    it("should reject undefined split targets", () => {
+      expect(() =>
+        EnemyTypeRegistry.load({
+          enemyTypes: {
+            ...enemiesData.enemyTypes,
+            ARMORED: definition({ abilities: [{ type: "SPLIT", spawnType: "GHOST", count: 2 }] }),
+          },
+        })
+      ).toThrow("ARMORED: 未定義の分裂先の敵タイプです: GHOST");
+    });
+
+    it("should reject split targets that split back into the original type", () => {
+      const splitInto = (spawnType: string) =>
+        definition({ abilities: [{ type: "SPLIT", spawnType, count: 2 }] });
+
+      expect(() =>
+        EnemyTypeRegistry.load({
+          enemyTypes: {
+            ...enemiesData.enemyTypes,
+            SLIME: splitInto("OOZE"),
+            OOZE: splitInto("SLIME"),
+          },
+        })
+      ).toThrow("SLIME: 分裂先が循環しています: SLIME → OOZE → SLIME");
+      expect(() =>
+        EnemyTypeRegistry.load({
+          enemyTypes: {
+            ...enemiesData.enemyTypes,
+            HYDRA: splitInto("HEAD"),
+            HEAD: splitInto("NECK"),
+            NECK: splitInto("HEAD"),
+          },
+        })
+      ).toThrow("HEAD: 分裂先が循環しています: HEAD → NECK → HEAD");
+    });
+
+    it("should reject splitting into itself", () => {
+      expect(() =>
+        EnemyTypeRegistry.load({
+          enemyTypes: {
+            ...enemiesData.enemyTypes,
+            SLIME: definition({ abilities: [{ type: "SPLIT", spawnType: "SLIME", count: 2 }] }),
+          },
+        })
+      ).toThrow("SLIME: 自分と同じ敵タイプには分裂できません");
+    });
+
+    it("should reject undefined summon targets", () => {
+      expect(() =>
+        EnemyTypeRegistry.load({
+          enemyTypes: {
+            ...enemiesData.enemyTypes,
+            TYRANT: definition({
+              rank: "boss",
+              phases: [
+                {
+                  name: "進軍",
+                  healthThreshold: 1,
+                  actions: [{ type: "SUMMON", enemyType: "GHOST", count: 2 }],
+                },
+              ],
+            }),
+          },
+        })
+      ).toThrow("TYRANT: 未定義の召喚する敵タイプです: GHOST");
+    });
+
+    it("should reject empty config", () => {
+      expect(() => EnemyTypeRegistry.load({ enemyTypes: {} })).toThrow(
+        "敵タイプが定義されていません"
+      );
+    });
+  });
+});
@@ -1,10 +1,16 @@
 import { describe, it, expect } from 'bun:test';
+import enemiesData from '../../../config/enemies.json';
+import { DamageType } from '../../../src/domain/value-objects/damage-type';
+import { EnemyAbilityType } from '../../../src/domain/value-objects/enemy-ability';
 import { EnemyType } from '../../../src/domain/value-objects/enemy-type';
+import { EnemyTypeRegistry } from '../../../src/domain/value-objects/enemy-type-registry';
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
 
 describe('EnemyType', () => {
   describe('BASIC', () => {
     it('should have correct base stats', () => {
-      const stats = EnemyType.BASIC.getBaseStats();
+      const stats = enemyTypes.get('BASIC').getBaseStats();
       
       expect(stats.health).toBe(100);
       expect(stats.attackPower).toBe(50);
@@ -12,17 +18,17 @@ describe('EnemyType', () => {
     });
 
     it('should have correct display name', () => {
-      expect(EnemyType.BASIC.getDisplayName()).toBe('基本敵');
+      expect(enemyTypes.get('BASIC').getDisplayName()).toBe('基本敵');
     });
 
     it('should have correct description', () => {
-      expect(EnemyType.BASIC.getDescription()).toBe('バランスの取れた標準的な敵');
+      expect(enemyTypes.get('BASIC').getDescription()).toBe('バランスの取れた標準的な敵');
     });
   });
 
   describe('RANGED', () => {
     it('should have correct base stats', () => {
-      const stats = EnemyType.RANGED.getBaseStats();
+      const stats = enemyTypes.get('RANGED').getBaseStats();
       
       expect(stats.health).toBe(70);
       expect(stats.attackPower).toBe(50);
@@ -30,17 +36,17 @@ describe('EnemyType', () => {
     });
 
     it('should have correct display name', () => {
-      expect(EnemyType.RANGED.getDisplayName()).toBe('遠距離攻撃敵');
+      expect(enemyTypes.get('RANGED').getDisplayName()).toBe('遠距離攻撃敵');
     });
 
     it('should have correct description', () => {
-      expect(EnemyType.RANGED.getDescription()).toBe('体力は低いが遠距離攻撃が可能');
+      expect(enemyTypes.get('RANGED').getDescription()).toBe('体力は低いが遠距離攻撃が可能');
     });
   });
 
   describe('FAST', () => {
     it('should have correct base stats', () => {
-      const stats = EnemyType.FAST.getBaseStats();
+      const stats = enemyTypes.get('FAST').getBaseStats();
       
       expect(stats.health).toBe(60);
       expect(stats.attackPower).toBe(30);
@@ -48,17 +54,17 @@ describe('EnemyType', () => {
     });
 
     it('should have correct display name', () => {
-      expect(EnemyType.FAST.getDisplayName()).toBe('高速敵');
+      expect(enemyTypes.get('FAST').getDisplayName()).toBe('高速敵');
     });
 
     it('should have correct description', () => {
-      expect(EnemyType.FAST.getDescription()).toBe('素早く移動するが体力と攻撃力が低い');
+      expect(enemyTypes.get('FAST').getDescription()).toBe('素早く移動するが体力と攻撃力が低い');
     });
   });
 
   describe('ENHANCED', () => {
     it('should have correct base stats', () => {
-      const stats = EnemyType.ENHANCED.getBaseStats();
+      const stats = enemyTypes.get('ENHANCED').getBaseStats();
       
       expect(stats.health).toBe(150);
       expect(stats.attackPower).toBe(70);
@@ -66,17 +72,17 @@ describe('EnemyType', () => {
     });
 
     it('should have correct display name', () => {
-      expect(EnemyType.ENHANCED.getDisplayName()).toBe('強化敵');
+      expect(enemyTypes.get('ENHANCED').getDisplayName()).toBe('強化敵');
     });
 
     it('should have correct description', () => {
-      expect(EnemyType.ENHANCED.getDescription()).toBe('基本敵より強化されたバージョン');
+      expect(enemyTypes.get('ENHANCED').getDescription()).toBe('基本敵より強化されたバージョン');
     });
   });
 
   describe('BOSS', () => {
     it('should have correct base stats', () => {
-      const stats = EnemyType.BOSS.getBaseStats();
+      const stats = enemyTypes.get('BOSS').getBaseStats();
       
       expect(stats.health).toBe(300);
       expect(stats.attackPower).toBe(100);
@@ -84,52 +90,152 @@ describe('EnemyType', () => {
     });
 
     it('should have correct display name', () => {
-      expect(EnemyType.BOSS.getDisplayName()).toBe('ボス敵');
+      expect(enemyTypes.get('BOSS').getDisplayName()).toBe('ボス敵');
     });
 
     it('should have correct description', () => {
-      expect(EnemyType.BOSS.getDescription()).toBe('最強の体力と攻撃力を持つが移動が遅い');
-    });
-  });
-
-  describe('getAllTypes', () => {
-    it('should return all enemy types', () => {
-      const types = EnemyType.getAllTypes();
-      
-      expect(types).toHaveLength(5);
-      expect(types).toContain(EnemyType.BASIC);
-      expect(types).toContain(EnemyType.RANGED);
-      expect(types).toContain(EnemyType.FAST);
-      expect(types).toContain(EnemyType.ENHANCED);
-      expect(types).toContain(EnemyType.BOSS);
+      expect(enemyTypes.get('BOSS').getDescription()).toBe('最強の体力と攻撃力を持つが移動が遅い');
     });
   });
 
-  describe('fromString', () => {
-    it('should return correct type for valid string', () => {
-      expect(EnemyType.fromString('BASIC')).toBe(EnemyType.BASIC);
-      expect(EnemyType.fromString('RANGED')).toBe(EnemyType.RANGED);
-      expect(EnemyType.fromString('FAST')).toBe(EnemyType.FAST);
-      expect(EnemyType.fromString('ENHANCED')).toBe(EnemyType.ENHANCED);
-      expect(EnemyType.fromString('BOSS')).toBe(EnemyType.BOSS);
-    });
-
-    it('should throw error for invalid string', () => {
-      expect(() => EnemyType.fromString('INVALID')).toThrow('Unknown enemy type: INVALID');
-    });
-
-    it('should be case sensitive', () => {
-      expect(() => EnemyType.fromString('basic')).toThrow('Unknown enemy type: basic');
+  describe('definition', () => {
+    const definition = (overrides: Record<string, unknown> = {}) => ({
+      displayName: '装甲敵',
+      description: '硬い装甲を持つ敵',
+      rank: 'elite',
+      baseStats: { health: 200, attackPower: 40, movementSpeed: 70 },
+      scoreValue: 40,
+      imageUrl: '/images/enemies/armored.png',
+      ...overrides,
+    });
+
+    it('should expose config values of each type', () => {
+      expect(enemyTypes.get('BASIC').getImageUrl()).toBe('/images/enemies/basic.png');
+      expect(enemyTypes.get('BASIC').getScoreValue()).toBe(10);
+      expect(enemyTypes.get('BOSS').getRank()).toBe('boss');
+      expect(enemyTypes.get('BOSS').isBoss()).toBe(true);
+      expect(enemyTypes.get('ENHANCED').isElite()).toBe(true);
+    });
+
+    it('should read the tower attack range and interval', () => {
+      expect(enemyTypes.get('RANGED').canAttackTowers()).toBe(true);
+      expect(enemyTypes.get('RANGED').getBaseStats().attackRange).toBe(110);
+      expect(enemyTypes.get('RANGED').getBaseStats().attackInterval).toBe(1500);
+      expect(enemyTypes.get('BASIC').canAttackTowers()).toBe(false);
+    });
+
+    it('should reject invalid tower attack settings', () => {
+      expect(() =>
+        EnemyType.fromDefinition(
+          'ARMORED',
+          definition({
+            baseStats: {
+              health: 200,
+              attackPower: 40,
+              movementSpeed: 70,
+              attackRange: -1,
+              attackInterval: 0,
+            },
+          })
+        )
+      ).toThrow('攻撃射程は0以上である必要があります, 攻撃間隔は正の値である必要があります');
+    });
+
+    it('should read abilities from config', () => {
+      const healer = enemyTypes.get('HEALER');
+      expect(healer.hasAbility(EnemyAbilityType.HEAL)).toBe(true);
+      expect(healer.getAbility(EnemyAbilityType.HEAL)).toEqual({
+        type: 'HEAL',
+        radius: 80,
+        amount: 15,
+        interval: 2000,
+      });
+      expect(enemyTypes.get('SPLITTER').getAbility(EnemyAbilityType.SPLIT)?.spawnType).toBe(
+        'SPLITLING'
+      );
+      expect(enemyTypes.get('FLYER').hasAbility(EnemyAbilityType.FLYING)).toBe(true);
+      expect(enemyTypes.get('BASIC').getAbility(EnemyAbilityType.SHIELD)).toBeNull();
+    });
+
+    it('should reject invalid abilities', () => {
+      expect(() =>
+        EnemyType.fromDefinition(
+          'ARMORED',
+          definition({
+            abilities: [
+              { type: 'TELEPORT' },
+              { type: 'HEAL', radius: 0, amount: 10, interval: 1000 },
+              { type: 'SPLIT', spawnType: 'ARMORED', count: 1.5 },
+            ],
+          })
+        )
+      ).toThrow(
+        '無効な敵の能力です: TELEPORT, 回復範囲は正の値である必要があります, ' +
+          '自分と同じ敵タイプには分裂できません, 分裂数は1以上の整数である必要があります'
+      );
+    });
+
+    it('should read armor and resistances from config', () => {
+      const armored = EnemyType.fromDefinition(
+        'ARMORED',
+        definition({
+          baseStats: { health: 200, attackPower: 40, movementSpeed: 70, armor: 50 },
+          resistances: { FIRE: 0.5, LIGHTNING: -0.25 },
+        })
+      );
+
+      expect(armored.getArmor()).toBe(50);
+      expect(armored.getResistance(DamageType.FIRE)).toBe(0.5);
+      expect(armored.getResistance(DamageType.LIGHTNING)).toBe(-0.25);
+      expect(armored.getResistance(DamageType.MAGIC)).toBe(0);
+      expect(armored.getResistances()).toEqual({ FIRE: 0.5, LIGHTNING: -0.25 });
+      expect(enemyTypes.get('BASIC').getArmor()).toBe(0);
+    });
+
+    it('should reject invalid armor and resistances', () => {
+      expect(() =>
+        EnemyType.fromDefinition(
+          'ARMORED',
+          definition({
+            baseStats: { health: 200, attackPower: 40, movementSpeed: 70, armor: -5 },
+            resistances: { HOLY: 0.5, FIRE: 1, ICE: -2 },
+          })
+        )
+      ).toThrow(
+        '装甲は0以上である必要があります, 無効なダメージの種類です: HOLY, ' +
+          '炎耐性は-1以上0.9以下である必要があります, 氷耐性は-1以上0.9以下である必要があります'
+      );
+    });
+
+    it('should read boss phases from config', () => {
+      const warlord = enemyTypes.get('WARLORD');
+
+      expect(warlord.hasBossPhases()).toBe(true);
+      expect(warlord.getBossPhases().map((phase) => phase.healthThreshold)).toEqual([1, 0.66, 0.33]);
+      expect(warlord.getBossPhases()[1]?.actions.map((action) => action.type)).toEqual([
+        'SUMMON',
+        'DISABLE_TOWERS',
+      ]);
+      expect(enemyTypes.get('BOSS').hasBossPhases()).toBe(false);
+    });
+
+    it('should reject phases on non-boss types', () => {
+      expect(() =>
+        EnemyType.fromDefinition(
+          'ARMORED',
+          definition({ phases: [{ name: '進軍', healthThreshold: 1 }] })
+        )
+      ).toThrow('フェーズはボス格の敵タイプにしか定義できません');
     });
   });
 
   describe('toString', () => {
     it('should return correct string representation', () => {
-      expect(EnemyType.BASIC.toString()).toBe('BASIC');
-      expect(EnemyType.RANGED.toString()).toBe('RANGED');
-      expect(EnemyType.FAST.toString()).toBe('FAST');
-      expect(EnemyType.ENHANCED.toString()).toBe('ENHANCED');
-      expect(EnemyType.BOSS.toString()).toBe('BOSS');
+      expect(enemyTypes.get('BASIC').toString()).toBe('BASIC');
+      expect(enemyTypes.get('RANGED').toString()).toBe('RANGED');
+      expect(enemyTypes.get('FAST').toString()).toBe('FAST');
+      expect(enemyTypes.get('ENHANCED').toString()).toBe('ENHANCED');
+      expect(enemyTypes.get('BOSS').toString()).toBe('BOSS');
     });
   });
 });
\ No newline at end of file
@@ -0,0 +1,85 @@
+import { describe, expect, it } from "bun:test";
+import { GameMap } from "../../../src/domain/value-objects/game-map.js";
+import { Lane } from "../../../src/domain/value-objects/lane.js";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
+
+const createPath = (y: number) => new MovementPath([new Position(0, y), new Position(800, y)]);
+
+describe("Lane", () => {
+  it("IDと出現比重を検証する", () => {
+    expect(() => new Lane(" ", "空", createPath(100))).toThrow("レーンIDは空であってはいけません");
+    expect(() => new Lane("north", "北", createPath(100), 0)).toThrow(
+      "出現比重は正の値である必要があります"
+    );
+  });
+
+  it("出現比重の既定値は1", () => {
+    expect(new Lane("north", "北", createPath(100)).spawnWeight).toBe(1);
+  });
+});
+
+describe("GameMap", () => {
+  const north = new Lane("north", "北", createPath(100), 2);
+  const south = new Lane("south", "南", createPath(400), 1);
+
+  it("レーンのないマップは作成できない", () => {
+    expect(() => new GameMap("empty", "空", [])).toThrow("マップには1本以上のレーンが必要です");
+  });
+
+  it("レーンIDの重複を許さない", () => {
+    expect(() => new GameMap("dup", "重複", [north, north])).toThrow("レーンIDが重複しています");
+  });
+
+  it("レーンと移動パスを定義順に返す", () => {
+    const map = new GameMap("twin", "双子", [north, south]);
+
+    expect(map.primaryLane).toBe(north);
+    expect(map.paths).toEqual([north.path, south.path]);
+    expect(map.totalSpawnWeight).toBe(3);
+    expect(map.getLane("south")).toBe(south);
+    expect(map.getLane("west")).toBeNull();
+  });
+
+  it("既定のマップは単一レーン", () => {
+    const map = GameMap.createDefault();
+
+    expect(map.lanes).toHaveLength(1);
+    expect(map.primaryLane.path.spawnPoint.equals(new Position(0, 300))).toBe(true);
+  });
+
+  describe("distributeSpawns", () => {
+    it("出現比重に応じて敵数を割り当てる", () => {
+      const map = new GameMap("twin", "双子", [north, south]);
+
+      expect(map.distributeSpawns(9)).toEqual(
+        new Map([
+          ["north", 6],
+          ["south", 3],
+        ])
+      );
+    });
+
+    it("端数は小数部の大きいレーンから配分し、合計は敵数と一致する", () => {
+      const west = new Lane("west", "西", createPath(250), 1);
+      const map = new GameMap("triple", "三叉", [north, south, west]);
+
+      const distribution = map.distributeSpawns(5);
+
+      // 北: 2.5, 南: 1.25, 西: 1.25 → 北が端数を1体受け取る
+      expect(distribution.get("north")).toBe(3);
+      expect(distribution.get("south")).toBe(1);
+      expect(distribution.get("west")).toBe(1);
+    });
+
+    it("敵数がレーン数より少ない場合は定義順で優先する", () => {
+      const even = new GameMap("even", "均等", [
+        new Lane("a", "A", createPath(100)),
+        new Lane("b", "B", createPath(200)),
+        new Lane("c", "C", createPath(300)),
+      ]);
+
+      expect([...even.distributeSpawns(2).values()]).toEqual([1, 1, 0]);
+    });
+  });
+});
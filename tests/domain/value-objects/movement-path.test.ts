@@ -212,4 +212,25 @@ describe('MovementPath', () => {
       expect(path.getProgressFromDistance(-50)).toBe(0);
     });
   });
+
+  describe('distanceToPoint', () => {
+    const path = new MovementPath([
+      new Position(0, 100),
+      new Position(200, 100),
+      new Position(200, 300)
+    ]);
+
+    it('should measure perpendicular distance to the nearest segment', () => {
+      expect(path.distanceToPoint(new Position(100, 130))).toBe(30);
+      expect(path.distanceToPoint(new Position(240, 200))).toBe(40);
+    });
+
+    it('should measure distance to segment end points beyond the path', () => {
+      expect(path.distanceToPoint(new Position(-30, 140))).toBe(50);
+    });
+
+    it('should return zero for points on the path', () => {
+      expect(path.distanceToPoint(new Position(200, 250))).toBe(0);
+    });
+  });
 });
\ No newline at end of file
@@ -0,0 +1,26 @@
+import { describe, expect, it } from "bun:test";
+import { ProjectileType } from "../../../src/domain/value-objects/projectile-type.js";
+import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+
+describe("ProjectileType", () => {
+  it("すべての弾の種類を取得できる", () => {
+    expect(ProjectileType.getAllTypes()).toEqual(["HOMING", "BALLISTIC", "BEAM"]);
+  });
+
+  it("有効な弾の種類かどうか判定できる", () => {
+    expect(ProjectileType.isValid("BEAM")).toBe(true);
+    expect(ProjectileType.isValid("LASER")).toBe(false);
+  });
+
+  it("タワータイプに応じた弾の種類を取得できる", () => {
+    expect(ProjectileType.forTowerType(TowerType.ARCHER)).toBe(ProjectileType.HOMING);
+    expect(ProjectileType.forTowerType(TowerType.CANNON)).toBe(ProjectileType.BALLISTIC);
+    expect(ProjectileType.forTowerType(TowerType.LIGHTNING)).toBe(ProjectileType.BEAM);
+    expect(ProjectileType.forTowerType(TowerType.MAGIC)).toBe(ProjectileType.HOMING);
+  });
+
+  it("雷撃の弾速は0になる", () => {
+    expect(ProjectileType.getSpeed(ProjectileType.BEAM)).toBe(0);
+    expect(ProjectileType.getSpeed(ProjectileType.HOMING)).toBeGreaterThan(0);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, expect, it } from "bun:test";
+import { type RecordedCommand, Replay } from "../../../src/domain/value-objects/replay";
+import { TargetingStrategy } from "../../../src/domain/value-objects/targeting-strategy";
+
+describe("Replay", () => {
+  const commands: RecordedCommand[] = [
+    { tick: 0, type: "card-selected", cardId: "card-001" },
+    { tick: 0, type: "card-played", cardId: "card-001", x: 120, y: 200 },
+    { tick: 150, type: "card-drawn" },
+    { tick: 300, type: "tower-upgraded", towerId: "tower-1" },
+    { tick: 310, type: "tower-repaired", towerId: "tower-1" },
+    { tick: 320, type: "targeting-changed", towerId: "tower-1", strategy: TargetingStrategy.LAST },
+    { tick: 400, type: "game-pause" },
+    { tick: 400, type: "game-pause" },
+    {
+      tick: 500,
+      type: "tower-sold",
+      towerId: "tower-1",
+      refundRatio: 0.5,
+      returnCardToDiscard: true,
+    },
+  ];
+  const createReplay = () => new Replay(42, "crossroads", 1000, 10, 600, commands);
+
+  describe("constructor", () => {
+    it("should create replay with commands", () => {
+      const replay = createReplay();
+
+      expect(replay.seed).toBe(42);
+      expect(replay.mapId).toBe("crossroads");
+      expect(replay.commands).toEqual(commands);
+      expect(replay.duration).toBe(6000);
+    });
+
+    it("should throw error for invalid values", () => {
+      expect(() => new Replay(-1, "map", 0, 10, 0, [])).toThrow(
+        "乱数シードは0以上2^32未満の整数である必要があります"
+      );
+      expect(() => new Replay(1, " ", 0, 10, 0, [])).toThrow("マップIDは空であってはいけません");
+      expect(() => new Replay(1, "map", 0, 0, 0, [])).toThrow(
+        "ステップ時間は正の値である必要があります"
+      );
+      expect(() => new Replay(1, "map", 0, 10, -1, [])).toThrow(
+        "終了ステップ数は0以上の整数である必要があります"
+      );
+    });
+
+    it("should throw error for commands out of order or after the end", () => {
+      const outOfOrder: RecordedCommand[] = [
+        { tick: 10, type: "card-drawn" },
+        { tick: 5, type: "card-drawn" },
+      ];
+
+      expect(() => new Replay(1, "map", 0, 10, 20, outOfOrder)).toThrow(
+        "操作のステップ数は記録順に0以上終了ステップ数以下である必要があります"
+      );
+      expect(() => new Replay(1, "map", 0, 10, 5, [{ tick: 6, type: "card-drawn" }])).toThrow(
+        "操作のステップ数は記録順に0以上終了ステップ数以下である必要があります"
+      );
+    });
+  });
+
+  describe("serialize / parse", () => {
+    it("should restore the same replay", () => {
+      const replay = createReplay();
+      const restored = Replay.parse(replay.serialize());
+
+      expect(restored.seed).toBe(replay.seed);
+      expect(restored.mapId).toBe(replay.mapId);
+      expect(restored.startTime).toBe(replay.startTime);
+      expect(restored.step).toBe(replay.step);
+      expect(restored.endTick).toBe(replay.endTick);
+      expect(restored.commands).toEqual(replay.commands);
+    });
+
+    it("should store commands as compact arrays", () => {
+      const data = createReplay().toData();
+
+      expect(data.version).toBe(Replay.VERSION);
+      expect(data.commands[1]).toEqual([0, "card-played", "card-001", 120, 200]);
+      expect(data.commands[2]).toEqual([150, "card-drawn"]);
+    });
+
+    it("should throw error for invalid JSON", () => {
+      expect(() => Replay.parse("{")).toThrow(
+        "リプレイファイルの読み込みに失敗しました:\nJSONとして解析できません"
+      );
+    });
+
+    it("should collect all command errors", () => {
+      const data = {
+        ...createReplay().toData(),
+        commands: [
+          [0, "card-played", "card-001", "x", 200],
+          [1, "targeting-changed", "tower-1", "RANDOM"],
+          [2, "launch-missile"],
+        ],
+      };
+
+      expect(() => Replay.parse(JSON.stringify(data))).toThrow(
+        "リプレイファイルの読み込みに失敗しました:\n" +
+          "操作1: 配置位置が不正です\n" +
+          "操作2: 未定義の攻撃対象選択方針です: RANDOM\n" +
+          "操作3: 未定義の操作です: launch-missile"
+      );
+    });
+
+    it("should throw error for unsupported version", () => {
+      const data = { ...createReplay().toData(), version: 99 };
+
+      expect(() => Replay.parse(JSON.stringify(data))).toThrow(
+        "未対応のリプレイ形式のバージョンです: 99"
+      );
+    });
+  });
+});
@@ -0,0 +1,194 @@
+import { describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import { EnemyType } from "../../../src/domain/value-objects/enemy-type";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry";
+import { ScriptedWave } from "../../../src/domain/value-objects/scripted-wave";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+
+describe("ScriptedWave", () => {
+  const createWave = () =>
+    new ScriptedWave(3, "挟撃", [
+      {
+        enemyType: enemyTypes.get("BASIC"),
+        count: 3,
+        spawnInterval: 1000,
+        laneId: "north",
+        delay: 0,
+      },
+      {
+        enemyType: enemyTypes.get("FAST"),
+        count: 2,
+        spawnInterval: 500,
+        laneId: null,
+        delay: 1000,
+      },
+    ]);
+
+  describe("constructor", () => {
+    it("should create wave with groups", () => {
+      const wave = createWave();
+
+      expect(wave.waveNumber).toBe(3);
+      expect(wave.name).toBe("挟撃");
+      expect(wave.groups).toHaveLength(2);
+      expect(wave.totalEnemyCount).toBe(5);
+    });
+
+    it("should throw error for invalid wave number", () => {
+      expect(
+        () =>
+          new ScriptedWave(0, "波0", [
+            {
+              enemyType: enemyTypes.get("BASIC"),
+              count: 1,
+              spawnInterval: 1000,
+              laneId: null,
+              delay: 0,
+            },
+          ])
+      ).toThrow("波番号は1以上の整数である必要があります");
+    });
+
+    it("should throw error for empty groups", () => {
+      expect(() => new ScriptedWave(1, "波1", [])).toThrow(
+        "スクリプト波には1つ以上の敵グループが必要です"
+      );
+    });
+
+    it("should throw error for invalid group values", () => {
+      expect(
+        () =>
+          new ScriptedWave(1, "波1", [
+            {
+              enemyType: enemyTypes.get("BASIC"),
+              count: 0,
+              spawnInterval: 1000,
+              laneId: null,
+              delay: 0,
+            },
+          ])
+      ).toThrow("敵グループの数は1以上の整数である必要があります");
+      expect(
+        () =>
+          new ScriptedWave(1, "波1", [
+            {
+              enemyType: enemyTypes.get("BASIC"),
+              count: 1,
+              spawnInterval: 0,
+              laneId: null,
+              delay: 0,
+            },
+          ])
+      ).toThrow("敵グループの生成間隔は正の値である必要があります");
+      expect(
+        () =>
+          new ScriptedWave(1, "波1", [
+            {
+              enemyType: enemyTypes.get("BASIC"),
+              count: 1,
+              spawnInterval: 1000,
+              laneId: null,
+              delay: -1,
+            },
+          ])
+      ).toThrow("敵グループの遅延は0以上である必要があります");
+    });
+  });
+
+  describe("getSpawnSchedule", () => {
+    it("should order spawns by offset across groups", () => {
+      const schedule = createWave().getSpawnSchedule();
+
+      expect(schedule.map((spawn) => spawn.offset)).toEqual([0, 1000, 1000, 1500, 2000]);
+      expect(schedule.map((spawn) => spawn.enemyType)).toEqual([
+        enemyTypes.get("BASIC"),
+        enemyTypes.get("BASIC"),
+        enemyTypes.get("FAST"),
+        enemyTypes.get("FAST"),
+        enemyTypes.get("BASIC"),
+      ]);
+      expect(schedule.map((spawn) => spawn.laneId)).toEqual([
+        "north",
+        "north",
+        null,
+        null,
+        "north",
+      ]);
+    });
+  });
+
+  describe("fromDefinition", () => {
+    it("should fill in defaults for omitted values", () => {
+      const wave = ScriptedWave.fromDefinition(
+        { waveNumber: 2, groups: [{ enemyType: "RANGED", count: 2 }] },
+        800,
+        enemyTypes
+      );
+
+      expect(wave.name).toBe("波2");
+      expect(wave.groups).toEqual([
+        {
+          enemyType: enemyTypes.get("RANGED"),
+          count: 2,
+          spawnInterval: 800,
+          laneId: null,
+          delay: 0,
+        },
+      ]);
+    });
+
+    it("should throw error for invalid definition", () => {
+      expect(() =>
+        ScriptedWave.fromDefinition(
+          { waveNumber: 2, groups: [{ enemyType: "DRAGON", count: 2 }] },
+          800,
+          enemyTypes
+        )
+      ).toThrow("波2 の定義が不正です: グループ1: 未定義の敵タイプです: DRAGON");
+    });
+  });
+
+  describe("validateDefinition", () => {
+    it("should return no errors for valid definition", () => {
+      expect(
+        ScriptedWave.validateDefinition(
+          {
+            waveNumber: 1,
+            groups: [
+              { enemyType: "BASIC", count: 5, spawnInterval: 1000, lane: "path_1", delay: 0 },
+            ],
+          },
+          enemyTypes
+        )
+      ).toEqual([]);
+    });
+
+    it("should collect all group errors", () => {
+      const errors = ScriptedWave.validateDefinition(
+        {
+          waveNumber: 1,
+          groups: [
+            { enemyType: "BASIC", count: 1.5 },
+            { enemyType: "FAST", count: 1, spawnInterval: -100, delay: -1, lane: " " },
+          ],
+        },
+        enemyTypes
+      );
+
+      expect(errors).toEqual([
+        "グループ1: 数は1以上の整数である必要があります",
+        "グループ2: 生成間隔は正の値である必要があります",
+        "グループ2: 遅延は0以上である必要があります",
+        "グループ2: レーンIDは空であってはいけません",
+      ]);
+    });
+
+    it("should report missing groups", () => {
+      expect(ScriptedWave.validateDefinition({ waveNumber: 0, groups: [] }, enemyTypes)).toEqual([
+        "波番号は1以上の整数である必要があります: 0",
+        "敵グループが定義されていません",
+      ]);
+    });
+  });
+});
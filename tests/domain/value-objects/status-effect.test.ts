@@ -0,0 +1,65 @@
+import { describe, expect, it } from "bun:test";
+import { StatusEffect, StatusEffectType } from "../../../src/domain/value-objects/status-effect";
+
+describe("StatusEffect", () => {
+  describe("constructor", () => {
+    it("should create status effect with valid parameters", () => {
+      const effect = new StatusEffect(StatusEffectType.POISON, 3000, 5, 1, 1, 4);
+
+      expect(effect.type).toBe(StatusEffectType.POISON);
+      expect(effect.duration).toBe(3000);
+      expect(effect.tickDamage).toBe(5);
+      expect(effect.maxStacks).toBe(4);
+    });
+
+    it("should throw error for non-positive duration", () => {
+      expect(() => new StatusEffect(StatusEffectType.SLOW, 0)).toThrow(
+        "状態異常の持続時間は正の値である必要があります"
+      );
+    });
+
+    it("should throw error for speed multiplier outside 0-1", () => {
+      expect(() => new StatusEffect(StatusEffectType.SLOW, 1000, 0, 1.5)).toThrow(
+        "移動速度倍率は0以上1以下である必要があります"
+      );
+    });
+
+    it("should throw error for invalid max stacks", () => {
+      expect(() => new StatusEffect(StatusEffectType.POISON, 1000, 1, 1, 1, 0)).toThrow(
+        "最大スタック数は1以上の整数である必要があります"
+      );
+    });
+  });
+
+  describe("factories", () => {
+    it("should create crowd control effects that stop movement", () => {
+      expect(StatusEffect.freeze().speedMultiplier).toBe(0);
+      expect(StatusEffect.freeze().isCrowdControl()).toBe(true);
+      expect(StatusEffect.stun().isCrowdControl()).toBe(true);
+      expect(StatusEffect.slow().isCrowdControl()).toBe(false);
+    });
+
+    it("should create damage over time effects", () => {
+      expect(StatusEffect.poison().isDamageOverTime()).toBe(true);
+      expect(StatusEffect.burn().isDamageOverTime()).toBe(true);
+      expect(StatusEffect.slow().isDamageOverTime()).toBe(false);
+    });
+
+    it("should create armor break effect that increases damage taken", () => {
+      expect(StatusEffect.armorBreak().damageTakenMultiplier).toBeGreaterThan(1);
+    });
+  });
+
+  describe("equals", () => {
+    it("should compare all properties", () => {
+      expect(StatusEffect.poison().equals(StatusEffect.poison())).toBe(true);
+      expect(StatusEffect.poison().equals(StatusEffect.poison(4000, 10))).toBe(false);
+    });
+  });
+
+  describe("StatusEffectType", () => {
+    it("should list all types", () => {
+      expect(StatusEffectType.getAllTypes()).toHaveLength(6);
+    });
+  });
+});
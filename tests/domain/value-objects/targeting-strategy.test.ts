@@ -0,0 +1,52 @@
+import { describe, expect, it } from "bun:test";
+import { TargetingStrategy } from "../../../src/domain/value-objects/targeting-strategy.js";
+import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+
+describe("TargetingStrategy", () => {
+  describe("ユーティリティメソッド", () => {
+    it("すべての選択方針を取得できる", () => {
+      expect(TargetingStrategy.getAllStrategies()).toEqual([
+        "FIRST",
+        "LAST",
+        "STRONGEST",
+        "WEAKEST",
+        "CLOSEST",
+        "FASTEST",
+        "BOSS_PRIORITY",
+      ]);
+    });
+
+    it("有効な選択方針かどうか判定できる", () => {
+      expect(TargetingStrategy.isValid("CLOSEST")).toBe(true);
+      expect(TargetingStrategy.isValid("RANDOM")).toBe(false);
+    });
+
+    it("選択方針の表示名を取得できる", () => {
+      expect(TargetingStrategy.getDisplayName(TargetingStrategy.FIRST)).toBe("先頭");
+      expect(TargetingStrategy.getDisplayName(TargetingStrategy.BOSS_PRIORITY)).toBe("ボス優先");
+    });
+
+    it("次の選択方針を循環して取得できる", () => {
+      expect(TargetingStrategy.getNext(TargetingStrategy.FIRST)).toBe(TargetingStrategy.LAST);
+      expect(TargetingStrategy.getNext(TargetingStrategy.BOSS_PRIORITY)).toBe(
+        TargetingStrategy.FIRST
+      );
+    });
+  });
+
+  describe("タワータイプごとのデフォルト", () => {
+    it("氷タワーは最速の敵を狙う", () => {
+      expect(TargetingStrategy.getDefaultForTowerType(TowerType.ICE)).toBe(
+        TargetingStrategy.FASTEST
+      );
+    });
+
+    it("すべてのタワータイプに有効なデフォルトがある", () => {
+      for (const type of TowerType.getAllTypes()) {
+        expect(TargetingStrategy.isValid(TargetingStrategy.getDefaultForTowerType(type))).toBe(
+          true
+        );
+      }
+    });
+  });
+});
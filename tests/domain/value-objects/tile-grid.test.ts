@@ -0,0 +1,103 @@
+import { describe, expect, it } from "bun:test";
+import { MovementPath } from "../../../src/domain/value-objects/movement-path.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
+import { Rectangle } from "../../../src/domain/value-objects/rectangle.js";
+import { TileGrid } from "../../../src/domain/value-objects/tile-grid.js";
+import { TileType } from "../../../src/domain/value-objects/tile-type.js";
+
+describe("TileGrid", () => {
+  const grid = TileGrid.parse({
+    tileSize: 40,
+    origin: { x: 0, y: 60 },
+    rows: ["..R.", "#*W."],
+  });
+
+  describe("parse", () => {
+    it("記号の行からタイルを読み込む", () => {
+      expect(grid.columns).toBe(4);
+      expect(grid.rows).toBe(2);
+      expect(grid.getTile({ column: 2, row: 0 })).toBe(TileType.ROCK);
+      expect(grid.getTile({ column: 0, row: 1 })).toBe(TileType.PATH);
+      expect(grid.getTile({ column: 1, row: 1 })).toBe(TileType.BONUS);
+      expect(grid.getTile({ column: 2, row: 1 })).toBe(TileType.WATER);
+    });
+
+    it("不明な記号は位置付きで拒否する", () => {
+      expect(() =>
+        TileGrid.parse({ tileSize: 40, origin: { x: 0, y: 0 }, rows: ["..", ".?"] })
+      ).toThrow("不明なタイル記号です: ?（2行 2列）");
+    });
+
+    it("行の長さが揃っていないグリッドは作成できない", () => {
+      expect(() =>
+        TileGrid.parse({ tileSize: 40, origin: { x: 0, y: 0 }, rows: ["...", ".."] })
+      ).toThrow("タイルグリッドの各行の長さが揃っていません");
+    });
+
+    it("定義データ形式に戻せる", () => {
+      expect(grid.toData()).toEqual({
+        tileSize: 40,
+        origin: { x: 0, y: 60 },
+        rows: ["..R.", "#*W."],
+      });
+    });
+  });
+
+  describe("座標とタイルの変換", () => {
+    it("座標を含むタイルを取得する", () => {
+      expect(grid.cellAt(new Position(85, 61))).toEqual({ column: 2, row: 0 });
+      expect(grid.getTileAt(new Position(85, 61))).toBe(TileType.ROCK);
+    });
+
+    it("グリッド外の座標はnullになる", () => {
+      expect(grid.cellAt(new Position(10, 59))).toBeNull();
+      expect(grid.cellAt(new Position(160, 100))).toBeNull();
+      expect(grid.snapToGrid(new Position(-1, 100))).toBeNull();
+    });
+
+    it("座標をタイルの中心に吸着させる", () => {
+      expect(grid.snapToGrid(new Position(47, 133))?.equals(new Position(60, 120))).toBe(true);
+      expect(grid.isSameCell(new Position(41, 101), new Position(79, 139))).toBe(true);
+      expect(grid.isSameCell(new Position(39, 101), new Position(41, 101))).toBe(false);
+    });
+
+    it("グリッド全体の範囲を取得する", () => {
+      expect(grid.bounds.equals(new Rectangle(0, 60, 160, 80))).toBe(true);
+    });
+  });
+
+  it("範囲を地面のタイルで敷き詰められる（端数は切り捨て）", () => {
+    const filled = TileGrid.filled(new Rectangle(0, 60, 810, 420), 40);
+
+    expect(filled.columns).toBe(20);
+    expect(filled.rows).toBe(10);
+    expect(filled.getCells(TileType.BUILDABLE)).toHaveLength(200);
+  });
+
+  it("種類を指定してタイルの位置を取得する", () => {
+    expect(grid.getCells(TileType.ROCK, TileType.WATER)).toEqual([
+      { column: 2, row: 0 },
+      { column: 2, row: 1 },
+    ]);
+  });
+
+  describe("withPaths", () => {
+    it("中心が経路に近いタイルを経路タイルにする（障害物や強化タイルも上書きする）", () => {
+      const path = new MovementPath([new Position(0, 140), new Position(160, 140)]);
+
+      const withPath = grid.withPaths([path], 25);
+
+      expect(withPath.getCells(TileType.PATH)).toHaveLength(4);
+      expect(withPath.getTile({ column: 1, row: 1 })).toBe(TileType.PATH);
+      expect(withPath.getTile({ column: 2, row: 0 })).toBe(TileType.ROCK);
+    });
+
+    it("元のグリッドは変更しない", () => {
+      const path = new MovementPath([new Position(0, 80), new Position(160, 80)]);
+
+      grid.withPaths([path], 25);
+
+      expect(grid.getTile({ column: 0, row: 0 })).toBe(TileType.BUILDABLE);
+    });
+  });
+});
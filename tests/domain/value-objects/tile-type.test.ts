@@ -0,0 +1,33 @@
+import { describe, expect, it } from "bun:test";
+import { TileType } from "../../../src/domain/value-objects/tile-type.js";
+
+describe("TileType", () => {
+  it("すべてのタイルの種類を取得できる", () => {
+    expect(TileType.getAllTypes()).toEqual(["PATH", "BUILDABLE", "ROCK", "WATER", "BONUS"]);
+  });
+
+  it("有効なタイルの種類かどうか判定できる", () => {
+    expect(TileType.isValid("WATER")).toBe(true);
+    expect(TileType.isValid("LAVA")).toBe(false);
+  });
+
+  it("地面と強化タイルにだけ配置できる", () => {
+    expect(TileType.getAllTypes().filter((type) => TileType.isBuildable(type))).toEqual([
+      TileType.BUILDABLE,
+      TileType.BONUS,
+    ]);
+  });
+
+  it("岩と水辺は障害物として扱う", () => {
+    expect(TileType.isObstacle(TileType.ROCK)).toBe(true);
+    expect(TileType.isObstacle(TileType.WATER)).toBe(true);
+    expect(TileType.isObstacle(TileType.PATH)).toBe(false);
+  });
+
+  it("マップ定義の記号と相互に変換できる", () => {
+    for (const type of TileType.getAllTypes()) {
+      expect(TileType.fromSymbol(TileType.getSymbol(type))).toBe(type);
+    }
+    expect(TileType.fromSymbol("?")).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "bun:test";
+import { TowerBuff } from "../../../src/domain/value-objects/tower-buff.js";
+
+describe("TowerBuff", () => {
+  it("強化なしの状態を作成できる", () => {
+    const buff = TowerBuff.none();
+
+    expect(buff.damageMultiplier).toBe(1);
+    expect(buff.rangeMultiplier).toBe(1);
+    expect(buff.isActive).toBe(false);
+  });
+
+  it("強化されている能力値を判定できる", () => {
+    const buff = new TowerBuff(1.25, 1);
+
+    expect(buff.isDamageBoosted).toBe(true);
+    expect(buff.isRangeBoosted).toBe(false);
+    expect(buff.isActive).toBe(true);
+  });
+
+  it("1未満の倍率は作成できない", () => {
+    expect(() => new TowerBuff(0.9, 1)).toThrow("強化倍率は1以上である必要があります");
+    expect(() => new TowerBuff(1, 0.5)).toThrow("強化倍率は1以上である必要があります");
+  });
+
+  it("等価性を判定できる", () => {
+    expect(new TowerBuff(1.2, 1.1).equals(new TowerBuff(1.2, 1.1))).toBe(true);
+    expect(new TowerBuff(1.2, 1.1).equals(TowerBuff.none())).toBe(false);
+  });
+
+  it("複数の強化を掛け合わせられる", () => {
+    const combined = new TowerBuff(1.2, 1).combine(new TowerBuff(1.5, 1.1));
+
+    expect(combined.damageMultiplier).toBeCloseTo(1.8);
+    expect(combined.rangeMultiplier).toBeCloseTo(1.1);
+  });
+});
@@ -1,4 +1,5 @@
 import { describe, expect, it } from "bun:test";
+import { DamageType } from "../../../src/domain/value-objects/damage-type.js";
 import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
 
 describe("TowerType", () => {
@@ -47,6 +48,14 @@ describe("TowerType", () => {
       expect(TowerType.getDisplayName(TowerType.SUPPORT)).toBe("支援タワー");
     });
 
+    it("タワータイプごとのダメージの種類を取得できる", () => {
+      expect(TowerType.getDamageType(TowerType.ARCHER)).toBe(DamageType.PHYSICAL);
+      expect(TowerType.getDamageType(TowerType.CANNON)).toBe(DamageType.PHYSICAL);
+      expect(TowerType.getDamageType(TowerType.MAGIC)).toBe(DamageType.MAGIC);
+      expect(TowerType.getDamageType(TowerType.FIRE)).toBe(DamageType.FIRE);
+      expect(TowerType.getDamageType(TowerType.POISON)).toBe(DamageType.POISON);
+    });
+
     it("無効なタワータイプの表示名取得でエラーが発生する", () => {
       expect(() => TowerType.getDisplayName("INVALID" as TowerType)).toThrow(
         "無効なタワータイプです: INVALID"
@@ -0,0 +1,83 @@
+import { describe, expect, it } from "bun:test";
+import { SpecialAbility } from "../../../src/domain/value-objects/special-ability.js";
+import { TowerType } from "../../../src/domain/value-objects/tower-type.js";
+import { TowerUpgradeTree } from "../../../src/domain/value-objects/tower-upgrade-tree.js";
+
+describe("TowerUpgradeTree", () => {
+  describe("forType", () => {
+    it("すべてのタワータイプに強化ツリーが定義されている", () => {
+      for (const type of TowerType.getAllTypes()) {
+        const tree = TowerUpgradeTree.forType(type);
+
+        expect(tree.towerType).toBe(type);
+        expect(tree.maxLevel).toBe(3);
+      }
+    });
+
+    it("最終レベルでタイプ固有の特殊能力が解放される", () => {
+      const tree = TowerUpgradeTree.forType(TowerType.CANNON);
+
+      expect(tree.getNextUpgrade(1)?.unlocksAbility).toBeUndefined();
+      expect(tree.getNextUpgrade(2)?.unlocksAbility).toBe(SpecialAbility.SPLASH_DAMAGE);
+    });
+
+    it("弓兵タワーは強化で会心率が上がる", () => {
+      const tree = TowerUpgradeTree.forType(TowerType.ARCHER);
+
+      expect(tree.getNextUpgrade(1)?.critChanceBonus).toBeGreaterThan(0);
+      expect(tree.getNextUpgrade(2)?.critChanceBonus).toBeGreaterThan(0);
+      expect(TowerUpgradeTree.forType(TowerType.CANNON).getNextUpgrade(1)?.critChanceBonus).toBe(0);
+    });
+  });
+
+  describe("強化段階", () => {
+    it("現在のレベルから次の強化段階を取得できる", () => {
+      const tree = TowerUpgradeTree.forType(TowerType.ARCHER);
+
+      expect(tree.getNextUpgrade(1)?.level).toBe(2);
+      expect(tree.getNextUpgrade(2)?.level).toBe(3);
+      expect(tree.getNextUpgrade(3)).toBeNull();
+    });
+
+    it("累計強化コストを計算できる", () => {
+      const tree = TowerUpgradeTree.forType(TowerType.ARCHER);
+
+      expect(tree.getTotalCost(1)).toBe(0);
+      expect(tree.getTotalCost(3)).toBe(8);
+    });
+  });
+
+  describe("異常なケース", () => {
+    const upgrade = {
+      level: 2,
+      cost: 3,
+      damageMultiplier: 1.2,
+      rangeBonus: 10,
+      attackSpeedMultiplier: 0.9,
+    };
+
+    it("レベルが連続していない場合はエラー", () => {
+      expect(() => new TowerUpgradeTree(TowerType.ARCHER, [{ ...upgrade, level: 3 }])).toThrow(
+        "強化レベルは2から連続している必要があります"
+      );
+    });
+
+    it("コストが1未満の場合はエラー", () => {
+      expect(() => new TowerUpgradeTree(TowerType.ARCHER, [{ ...upgrade, cost: 0 }])).toThrow(
+        "強化コストは1以上の整数である必要があります"
+      );
+    });
+
+    it("会心率の強化量が負の場合はエラー", () => {
+      expect(
+        () => new TowerUpgradeTree(TowerType.ARCHER, [{ ...upgrade, critChanceBonus: -0.1 }])
+      ).toThrow("会心率の強化量は0以上である必要があります");
+    });
+
+    it("攻撃力の倍率が1未満の場合はエラー", () => {
+      expect(
+        () => new TowerUpgradeTree(TowerType.ARCHER, [{ ...upgrade, damageMultiplier: 0.5 }])
+      ).toThrow("強化倍率が不正です");
+    });
+  });
+});
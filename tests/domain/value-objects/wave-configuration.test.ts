@@ -1,11 +1,18 @@
 import { describe, it, expect } from 'bun:test';
-import { WaveConfiguration } from '../../../src/domain/value-objects/wave-configuration';
+import { WaveConfiguration, type WavesFileData } from '../../../src/domain/value-objects/wave-configuration';
 import { EnemyType } from '../../../src/domain/value-objects/enemy-type';
+import { ScriptedWave } from '../../../src/domain/value-objects/scripted-wave';
+import { RandomService } from '../../../src/domain/services/random-service';
+import enemiesData from '../../../config/enemies.json';
+import wavesData from '../../../config/waves.json';
+import { EnemyTypeRegistry } from '../../../src/domain/value-objects/enemy-type-registry';
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
 
 describe('WaveConfiguration', () => {
   describe('constructor', () => {
     it('should create configuration with valid values', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       expect(config.baseEnemyCount).toBe(10);
       expect(config.enemyCountIncrement).toBe(5);
@@ -13,59 +20,59 @@ describe('WaveConfiguration', () => {
     });
 
     it('should throw error for zero base enemy count', () => {
-      expect(() => new WaveConfiguration(0, 5, 1000)).toThrow('Base enemy count must be positive');
+      expect(() => new WaveConfiguration(enemyTypes, 0, 5, 1000)).toThrow('Base enemy count must be positive');
     });
 
     it('should throw error for negative base enemy count', () => {
-      expect(() => new WaveConfiguration(-1, 5, 1000)).toThrow('Base enemy count must be positive');
+      expect(() => new WaveConfiguration(enemyTypes, -1, 5, 1000)).toThrow('Base enemy count must be positive');
     });
 
     it('should throw error for negative enemy count increment', () => {
-      expect(() => new WaveConfiguration(10, -1, 1000)).toThrow('Enemy count increment must be non-negative');
+      expect(() => new WaveConfiguration(enemyTypes, 10, -1, 1000)).toThrow('Enemy count increment must be non-negative');
     });
 
     it('should allow zero enemy count increment', () => {
-      const config = new WaveConfiguration(10, 0, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 0, 1000);
       expect(config.enemyCountIncrement).toBe(0);
     });
 
     it('should throw error for zero spawn interval', () => {
-      expect(() => new WaveConfiguration(10, 5, 0)).toThrow('Spawn interval must be positive');
+      expect(() => new WaveConfiguration(enemyTypes, 10, 5, 0)).toThrow('Spawn interval must be positive');
     });
 
     it('should throw error for negative spawn interval', () => {
-      expect(() => new WaveConfiguration(10, 5, -100)).toThrow('Spawn interval must be positive');
+      expect(() => new WaveConfiguration(enemyTypes, 10, 5, -100)).toThrow('Spawn interval must be positive');
     });
   });
 
   describe('getEnemyCountForWave', () => {
     it('should calculate enemy count for wave 1', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       expect(config.getEnemyCountForWave(1)).toBe(10);
     });
 
     it('should calculate enemy count for wave 2', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       expect(config.getEnemyCountForWave(2)).toBe(15);
     });
 
     it('should calculate enemy count for wave 5', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       expect(config.getEnemyCountForWave(5)).toBe(30);
     });
 
     it('should handle zero increment', () => {
-      const config = new WaveConfiguration(10, 0, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 0, 1000);
       
       expect(config.getEnemyCountForWave(1)).toBe(10);
       expect(config.getEnemyCountForWave(5)).toBe(10);
     });
 
     it('should throw error for wave number less than 1', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       expect(() => config.getEnemyCountForWave(0)).toThrow('Wave number must be positive');
     });
@@ -73,64 +80,64 @@ describe('WaveConfiguration', () => {
 
   describe('getEnemyTypesForWave', () => {
     it('should return basic enemies for early waves (1-5)', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       const types1 = config.getEnemyTypesForWave(1);
       const types3 = config.getEnemyTypesForWave(3);
       const types5 = config.getEnemyTypesForWave(5);
       
       // Should be mostly BASIC with some FAST
-      expect(types1.filter(t => t === EnemyType.BASIC).length).toBeGreaterThan(6);
-      expect(types1.filter(t => t === EnemyType.FAST).length).toBeGreaterThan(0);
-      expect(types1).not.toContain(EnemyType.RANGED);
-      expect(types1).not.toContain(EnemyType.ENHANCED);
-      expect(types1).not.toContain(EnemyType.BOSS);
+      expect(types1.filter(t => t === enemyTypes.get('BASIC')).length).toBeGreaterThan(6);
+      expect(types1.filter(t => t === enemyTypes.get('FAST')).length).toBeGreaterThan(0);
+      expect(types1).not.toContain(enemyTypes.get('RANGED'));
+      expect(types1).not.toContain(enemyTypes.get('ENHANCED'));
+      expect(types1).not.toContain(enemyTypes.get('BOSS'));
       
       expect(types3.length).toBe(20); // 10 + 5 * (3-1)
       expect(types5.length).toBe(30); // 10 + 5 * (5-1)
     });
 
     it('should return mixed enemies for mid waves (6-10)', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       const types8 = config.getEnemyTypesForWave(8);
       
       // Should contain BASIC, RANGED, and FAST
-      expect(types8).toContain(EnemyType.BASIC);
-      expect(types8).toContain(EnemyType.RANGED);
-      expect(types8).toContain(EnemyType.FAST);
-      expect(types8).not.toContain(EnemyType.ENHANCED);
-      expect(types8).not.toContain(EnemyType.BOSS);
+      expect(types8).toContain(enemyTypes.get('BASIC'));
+      expect(types8).toContain(enemyTypes.get('RANGED'));
+      expect(types8).toContain(enemyTypes.get('FAST'));
+      expect(types8).not.toContain(enemyTypes.get('ENHANCED'));
+      expect(types8).not.toContain(enemyTypes.get('BOSS'));
     });
 
     it('should return enhanced enemies for later waves (11-15)', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       const types12 = config.getEnemyTypesForWave(12);
       
       // Should contain all types except BOSS
-      expect(types12).toContain(EnemyType.BASIC);
-      expect(types12).toContain(EnemyType.RANGED);
-      expect(types12).toContain(EnemyType.FAST);
-      expect(types12).toContain(EnemyType.ENHANCED);
-      expect(types12).not.toContain(EnemyType.BOSS);
+      expect(types12).toContain(enemyTypes.get('BASIC'));
+      expect(types12).toContain(enemyTypes.get('RANGED'));
+      expect(types12).toContain(enemyTypes.get('FAST'));
+      expect(types12).toContain(enemyTypes.get('ENHANCED'));
+      expect(types12).not.toContain(enemyTypes.get('BOSS'));
     });
 
     it('should return all enemy types for high waves (16+)', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       const types20 = config.getEnemyTypesForWave(20);
       
       // Should contain all types including BOSS
-      expect(types20).toContain(EnemyType.BASIC);
-      expect(types20).toContain(EnemyType.RANGED);
-      expect(types20).toContain(EnemyType.FAST);
-      expect(types20).toContain(EnemyType.ENHANCED);
-      expect(types20).toContain(EnemyType.BOSS);
+      expect(types20).toContain(enemyTypes.get('BASIC'));
+      expect(types20).toContain(enemyTypes.get('RANGED'));
+      expect(types20).toContain(enemyTypes.get('FAST'));
+      expect(types20).toContain(enemyTypes.get('ENHANCED'));
+      expect(types20).toContain(enemyTypes.get('BOSS'));
     });
 
     it('should return correct number of enemies', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       const types1 = config.getEnemyTypesForWave(1);
       const types3 = config.getEnemyTypesForWave(3);
@@ -140,25 +147,15 @@ describe('WaveConfiguration', () => {
     });
 
     it('should throw error for wave number less than 1', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       expect(() => config.getEnemyTypesForWave(0)).toThrow('Wave number must be positive');
     });
   });
 
-  describe('createDefault', () => {
-    it('should create default configuration', () => {
-      const config = WaveConfiguration.createDefault();
-      
-      expect(config.baseEnemyCount).toBe(10);
-      expect(config.enemyCountIncrement).toBe(10);
-      expect(config.spawnInterval).toBe(1000);
-    });
-  });
-
   describe('getWaveInterval', () => {
     it('should return default wave interval', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       expect(config.getWaveInterval()).toBe(30000); // 30 seconds
     });
@@ -166,48 +163,181 @@ describe('WaveConfiguration', () => {
 
   describe('getEnemyTypeDistribution', () => {
     it('should return correct distribution for early waves', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       const distribution = config.getEnemyTypeDistribution(3);
       
-      expect(distribution.get(EnemyType.BASIC)).toBe(0.8);
-      expect(distribution.get(EnemyType.FAST)).toBe(0.2);
-      expect(distribution.get(EnemyType.RANGED)).toBeUndefined();
+      expect(distribution.get(enemyTypes.get('BASIC'))).toBe(0.8);
+      expect(distribution.get(enemyTypes.get('FAST'))).toBe(0.2);
+      expect(distribution.get(enemyTypes.get('RANGED'))).toBeUndefined();
     });
 
     it('should return correct distribution for mid waves', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       const distribution = config.getEnemyTypeDistribution(8);
       
-      expect(distribution.get(EnemyType.BASIC)).toBe(0.6);
-      expect(distribution.get(EnemyType.RANGED)).toBe(0.2);
-      expect(distribution.get(EnemyType.FAST)).toBe(0.2);
-      expect(distribution.get(EnemyType.ENHANCED)).toBeUndefined();
+      expect(distribution.get(enemyTypes.get('BASIC'))).toBe(0.6);
+      expect(distribution.get(enemyTypes.get('RANGED'))).toBe(0.2);
+      expect(distribution.get(enemyTypes.get('FAST'))).toBe(0.2);
+      expect(distribution.get(enemyTypes.get('ENHANCED'))).toBeUndefined();
     });
 
     it('should return correct distribution for later waves', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       const distribution = config.getEnemyTypeDistribution(13);
       
-      expect(distribution.get(EnemyType.BASIC)).toBe(0.4);
-      expect(distribution.get(EnemyType.RANGED)).toBe(0.3);
-      expect(distribution.get(EnemyType.FAST)).toBe(0.2);
-      expect(distribution.get(EnemyType.ENHANCED)).toBe(0.1);
-      expect(distribution.get(EnemyType.BOSS)).toBeUndefined();
+      expect(distribution.get(enemyTypes.get('BASIC'))).toBe(0.4);
+      expect(distribution.get(enemyTypes.get('RANGED'))).toBe(0.3);
+      expect(distribution.get(enemyTypes.get('FAST'))).toBe(0.2);
+      expect(distribution.get(enemyTypes.get('ENHANCED'))).toBe(0.1);
+      expect(distribution.get(enemyTypes.get('BOSS'))).toBeUndefined();
     });
 
     it('should return correct distribution for high waves', () => {
-      const config = new WaveConfiguration(10, 5, 1000);
+      const config = new WaveConfiguration(enemyTypes, 10, 5, 1000);
       
       const distribution = config.getEnemyTypeDistribution(20);
       
-      expect(distribution.get(EnemyType.BASIC)).toBe(0.3);
-      expect(distribution.get(EnemyType.RANGED)).toBe(0.2);
-      expect(distribution.get(EnemyType.FAST)).toBe(0.2);
-      expect(distribution.get(EnemyType.ENHANCED)).toBe(0.2);
-      expect(distribution.get(EnemyType.BOSS)).toBe(0.1);
+      expect(distribution.get(enemyTypes.get('BASIC'))).toBe(0.3);
+      expect(distribution.get(enemyTypes.get('RANGED'))).toBe(0.2);
+      expect(distribution.get(enemyTypes.get('FAST'))).toBe(0.2);
+      expect(distribution.get(enemyTypes.get('ENHANCED'))).toBe(0.2);
+      expect(distribution.get(enemyTypes.get('BOSS'))).toBe(0.1);
+    });
+  });
+
+  describe('load', () => {
+    const createData = (): WavesFileData => ({
+      waveConfiguration: {
+        baseEnemyCount: 4,
+        enemyCountIncrement: 2,
+        waveInterval: 20000,
+        spawnInterval: 800,
+        enemyTypeDistribution: {
+          '1-3': { BASIC: 1 },
+          '4+': { BASIC: 0.5, FAST: 0.5 },
+        },
+      },
+      scriptedWaves: [
+        {
+          waveNumber: 2,
+          name: '高速部隊',
+          groups: [
+            { enemyType: 'FAST', count: 3, spawnInterval: 500 },
+            { enemyType: 'BASIC', count: 2, delay: 2000 },
+          ],
+        },
+      ],
+    });
+
+    it('should load config/waves.json', () => {
+      const config = WaveConfiguration.load(wavesData, enemyTypes);
+
+      expect(config.baseEnemyCount).toBe(10);
+      expect(config.enemyCountIncrement).toBe(10);
+      expect(config.spawnInterval).toBe(1000);
+      expect(config.enemyTypes).toBe(enemyTypes);
+    });
+
+    it('should load configuration from file data', () => {
+      const config = WaveConfiguration.load(createData(), enemyTypes);
+
+      expect(config.baseEnemyCount).toBe(4);
+      expect(config.enemyCountIncrement).toBe(2);
+      expect(config.spawnInterval).toBe(800);
+      expect(config.getWaveInterval()).toBe(20000);
+      expect(config.distributions).toEqual([
+        { fromWave: 1, toWave: 3, ratios: { BASIC: 1 } },
+        { fromWave: 4, toWave: null, ratios: { BASIC: 0.5, FAST: 0.5 } },
+      ]);
+      expect(config.getEnemyTypeDistribution(10).get(enemyTypes.get('FAST'))).toBe(0.5);
+    });
+
+    it('should use scripted waves for their wave numbers', () => {
+      const config = WaveConfiguration.load(createData(), enemyTypes);
+
+      const scriptedWave = config.getScriptedWave(2);
+      expect(scriptedWave?.name).toBe('高速部隊');
+      expect(scriptedWave?.groups[1]?.spawnInterval).toBe(800); // 省略時は波設定の生成間隔
+      expect(config.getScriptedWave(1)).toBeNull();
+
+      expect(config.getEnemyCountForWave(1)).toBe(4);
+      expect(config.getEnemyCountForWave(2)).toBe(5);
+      expect(config.getEnemyTypesForWave(2)).toEqual([
+        enemyTypes.get('FAST'),
+        enemyTypes.get('FAST'),
+        enemyTypes.get('FAST'),
+        enemyTypes.get('BASIC'),
+        enemyTypes.get('BASIC'),
+      ]);
+    });
+
+    it('should report all invalid settings at once', () => {
+      const data = createData();
+      data.waveConfiguration.spawnInterval = 0;
+      data.waveConfiguration.enemyTypeDistribution = {
+        '1-3': { BASIC: 1, DRAGON: 0.5 },
+        '5+': { BASIC: 1 },
+        'later': { BASIC: 1 },
+      };
+      data.scriptedWaves?.push({ waveNumber: 2, groups: [{ enemyType: 'BASIC', count: 1 }] });
+
+      expect(() => WaveConfiguration.load(data, enemyTypes)).toThrow(
+        '波設定の読み込みに失敗しました:\n' +
+          '生成間隔は正の値である必要があります\n' +
+          '1-3: 未定義の敵タイプです: DRAGON\n' +
+          '敵タイプ分布の波範囲が不正です: later\n' +
+          '敵タイプ分布が波4を定義していません\n' +
+          '波2: スクリプト波が重複しています'
+      );
+    });
+
+    it('should require an open-ended last range', () => {
+      const data = createData();
+      data.waveConfiguration.enemyTypeDistribution = { '1-3': { BASIC: 1 } };
+
+      expect(() => WaveConfiguration.load(data, enemyTypes)).toThrow(
+        '敵タイプ分布の最後の範囲は「N+」の形式である必要があります'
+      );
+    });
+
+    it('should prefix scripted wave errors with the wave number', () => {
+      const data = createData();
+      data.scriptedWaves = [{ waveNumber: 3, groups: [{ enemyType: 'DRAGON', count: 1 }] }];
+
+      expect(() => WaveConfiguration.load(data, enemyTypes)).toThrow('波3: グループ1: 未定義の敵タイプです: DRAGON');
+    });
+  });
+
+  describe('scripted waves', () => {
+    it('should throw error for duplicate wave numbers', () => {
+      const wave = () => new ScriptedWave(1, '波1', [
+        { enemyType: enemyTypes.get('BASIC'), count: 1, spawnInterval: 1000, laneId: null, delay: 0 },
+      ]);
+
+      expect(() => new WaveConfiguration(enemyTypes, 10, 5, 1000, 30000, WaveConfiguration.DEFAULT_DISTRIBUTIONS, [wave(), wave()]))
+        .toThrow('Scripted wave numbers must be unique');
+    });
+
+    it('should list scripted waves from waves.json in wave order', () => {
+      const config = WaveConfiguration.load(wavesData, enemyTypes);
+
+      expect(config.scriptedWaves.map(wave => wave.waveNumber)).toEqual([1, 2, 3, 4, 5, 6]);
+      expect(config.getScriptedWave(6)?.name).toBe('ボス襲来');
+    });
+  });
+
+  describe('seeded random', () => {
+    it('should shuffle enemy types the same way for the same random source', () => {
+      const config = new WaveConfiguration(enemyTypes, 20, 0, 1000);
+
+      const first = config.getEnemyTypesForWave(12, RandomService.createSource(99));
+      const second = config.getEnemyTypesForWave(12, RandomService.createSource(99));
+
+      expect(first).toEqual(second);
+      expect(first).toHaveLength(20);
     });
   });
-});
\ No newline at end of file
+});
@@ -48,6 +48,14 @@ describe('GameConfig', () => {
     expect(manaConfig.regenInterval).toBe(1000);
   });
 
+  it('should return tower configuration', () => {
+    const config = GameConfig.getInstance();
+    const towerConfig = config.towers;
+    
+    expect(towerConfig.sellRefundRatio).toBe(0.5);
+    expect(towerConfig.returnCardOnSell).toBe(true);
+  });
+
   it('should return UI configuration', () => {
     const config = GameConfig.getInstance();
     const uiConfig = config.ui;
@@ -0,0 +1,150 @@
+import { beforeEach, describe, expect, it } from "bun:test";
+import enemiesData from "../../../config/enemies.json";
+import pathsData from "../../../config/paths.json";
+import { EnemyTypeRegistry } from "../../../src/domain/value-objects/enemy-type-registry.js";
+import { EnemyType } from "../../../src/domain/value-objects/enemy-type.js";
+import { Position } from "../../../src/domain/value-objects/position.js";
+import { PathEditor } from "../../../src/infrastructure/editor/path-editor.js";
+import { JsonPathConfigRepository } from "../../../src/infrastructure/repositories/json-path-config-repository.js";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
+
+describe("PathEditor", () => {
+  let editor: PathEditor;
+
+  beforeEach(() => {
+    editor = new PathEditor(pathsData);
+  });
+
+  describe("読み込みと書き出し", () => {
+    it("paths.json の内容を読み込み、最初のパスを選択する", () => {
+      expect(editor.paths.map((path) => path.id)).toEqual(["path_1", "path_2", "path_3"]);
+      expect(editor.selectedPath?.id).toBe("path_1");
+      expect(editor.isDirty).toBe(false);
+    });
+
+    it("編集していなければ読み込んだ内容をそのまま書き出す", () => {
+      expect(editor.toFileData()).toEqual(pathsData);
+      expect(JSON.parse(editor.toJson())).toEqual(pathsData);
+    });
+
+    it("JSON文字列から読み込める", () => {
+      const imported = PathEditor.fromJson(editor.toJson());
+
+      expect(imported.toFileData()).toEqual(pathsData);
+    });
+
+    it("不正なJSONは読み込めない", () => {
+      expect(() => PathEditor.fromJson("{")).toThrow("パス設定のJSONを読み込めません");
+      expect(() => PathEditor.fromJson("{}")).toThrow("movementPaths と maps が必要です");
+    });
+  });
+
+  describe("地点の編集", () => {
+    it("地点をドラッグで移動でき、座標は編集範囲内の整数に丸められる", () => {
+      const index = editor.findWaypoint(new Position(203, 93));
+      expect(index).toBe(1);
+
+      editor.moveWaypoint(1, new Position(250.4, 10));
+
+      expect(editor.selectedPath?.points[1]?.equals(new Position(250, 60))).toBe(true);
+      expect(editor.isDirty).toBe(true);
+    });
+
+    it("離れた位置では地点が見つからない", () => {
+      expect(editor.findWaypoint(new Position(400, 400))).toBeNull();
+    });
+
+    it("最も近い区間に中間地点を挿入する", () => {
+      const before = editor.selectedPath?.points ?? [];
+
+      const index = editor.insertWaypoint(new Position(100, 125));
+
+      const after = editor.selectedPath?.points ?? [];
+      expect(index).toBe(1);
+      expect(after).toHaveLength(before.length + 1);
+      expect(after[1]?.equals(new Position(100, 125))).toBe(true);
+    });
+
+    it("生成地点と基地地点を設定できる", () => {
+      editor.setSpawnPoint(new Position(0, 200));
+      editor.setBasePoint(new Position(780, 300));
+
+      const path = editor.getMovementPath();
+      expect(path.spawnPoint.equals(new Position(0, 200))).toBe(true);
+      expect(path.basePoint.equals(new Position(780, 300))).toBe(true);
+    });
+
+    it("地点は2つまでしか減らせない", () => {
+      editor.addPath();
+
+      expect(() => editor.removeWaypoint(0)).toThrow("パスには2つ以上の地点が必要です");
+
+      editor.insertWaypoint(new Position(400, 200));
+      editor.removeWaypoint(1);
+      expect(editor.selectedPath?.points).toHaveLength(2);
+    });
+  });
+
+  describe("パスの管理", () => {
+    it("新しいパスを追加して選択する", () => {
+      const id = editor.addPath();
+
+      expect(id).toBe("path_4");
+      expect(editor.selectedPath?.id).toBe("path_4");
+      expect(editor.selectedPath?.difficulty).toBe("MEDIUM");
+    });
+
+    it("名前と難易度を変更できる", () => {
+      editor.rename("北の街道", "説明");
+      editor.setDifficulty("HARD");
+
+      expect(editor.selectedPath).toMatchObject({
+        name: "北の街道",
+        description: "説明",
+        difficulty: "HARD",
+      });
+      expect(() => editor.rename(" ")).toThrow("パス名は空であってはいけません");
+    });
+
+    it("マップで使用中のパスは削除できない", () => {
+      expect(() => editor.removePath("path_1")).toThrow("マップで使用中のパスは削除できません");
+
+      const id = editor.addPath();
+      editor.removePath(id);
+      expect(editor.paths.map((path) => path.id)).not.toContain(id);
+      expect(editor.selectedPath?.id).toBe("path_1");
+    });
+
+    it("存在しないパスは選択できない", () => {
+      expect(() => editor.selectPath("unknown")).toThrow("パスが見つかりません: unknown");
+    });
+  });
+
+  describe("検証とプレビュー", () => {
+    it("生成地点と基地地点が重なるとエラーになる", () => {
+      expect(editor.validate()).toEqual([]);
+
+      editor.setSpawnPoint(new Position(800, 270));
+
+      expect(editor.validate()).toEqual(["path_1: 生成地点と基地地点が同じです"]);
+    });
+
+    it("編集した内容はゲームのパス設定として読み込める", async () => {
+      editor.insertWaypoint(new Position(100, 125));
+
+      const repository = new JsonPathConfigRepository(editor.toFileData());
+
+      const path = await repository.getPathById("path_1");
+      expect(path?.pathPoints).toHaveLength(6);
+    });
+
+    it("敵タイプごとの移動時間を見積もる", () => {
+      const [estimate] = editor.estimateTraversal([enemyTypes.get("BASIC")]);
+      const speed = enemyTypes.get("BASIC").getBaseStats().movementSpeed;
+
+      expect(estimate?.enemyType).toBe("BASIC");
+      expect(estimate?.seconds).toBeCloseTo(editor.getMovementPath().totalLength / speed);
+    });
+  });
+});
@@ -157,6 +157,69 @@ describe("DamageNumberEffect", () => {
     expect(renderingService.renderText).toHaveBeenCalled();
   });
 
+  it("should render resisted damage with smaller font and marker", () => {
+    const renderingService = createMockRenderingService();
+    const animationService = createMockAnimationService();
+    const config: DamageNumberConfig = {
+      ...createTestConfig(),
+      outlineColor: undefined,
+      isResisted: true,
+    };
+    const context = createMockContext();
+
+    animationService.updateAnimation = mock(() => 0.8);
+
+    const effect = new DamageNumberEffect(
+      new Position(200, 150),
+      40,
+      renderingService,
+      animationService,
+      config
+    );
+
+    effect.update(100);
+    effect.render(context, 16.67);
+
+    expect(renderingService.renderText).toHaveBeenCalledWith(
+      context,
+      "40▼",
+      expect.any(Position),
+      expect.objectContaining({ font: `bold ${16 * 0.8}px Arial` })
+    );
+  });
+
+  it("should mark both critical and resisted damage", () => {
+    const renderingService = createMockRenderingService();
+    const animationService = createMockAnimationService();
+    const config: DamageNumberConfig = {
+      ...createTestConfig(),
+      outlineColor: undefined,
+      isCritical: true,
+      isResisted: true,
+    };
+    const context = createMockContext();
+
+    animationService.updateAnimation = mock(() => 0.8);
+
+    const effect = new DamageNumberEffect(
+      new Position(200, 150),
+      60,
+      renderingService,
+      animationService,
+      config
+    );
+
+    effect.update(100);
+    effect.render(context, 16.67);
+
+    expect(renderingService.renderText).toHaveBeenCalledWith(
+      context,
+      "60!▼",
+      expect.any(Position),
+      expect.any(Object)
+    );
+  });
+
   it("should render outline when outline color is specified", () => {
     const renderingService = createMockRenderingService();
     const animationService = createMockAnimationService();
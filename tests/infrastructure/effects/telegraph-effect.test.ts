@@ -0,0 +1,76 @@
+import { describe, expect, it, mock } from "bun:test";
+import type { RenderingService } from "../../../src/domain/services/rendering-service";
+import { Color } from "../../../src/domain/value-objects/color";
+import { Position } from "../../../src/domain/value-objects/position";
+import { TelegraphEffect } from "../../../src/infrastructure/effects/telegraph-effect";
+
+describe("TelegraphEffect", () => {
+  const createMockRenderingService = (): RenderingService => {
+    const renderingService: Partial<RenderingService> = {
+      renderText: mock(() => undefined),
+      renderRectangle: mock(() => undefined),
+      renderProgressBar: mock(() => undefined),
+      renderHealthBar: mock(() => undefined),
+      renderCircle: mock(() => undefined),
+    };
+    return renderingService as RenderingService;
+  };
+
+  const createMockContext = (): CanvasRenderingContext2D => {
+    const context: Partial<CanvasRenderingContext2D> = {};
+    return context as CanvasRenderingContext2D;
+  };
+
+  it("should render warning circle with label", () => {
+    const renderingService = createMockRenderingService();
+    const position = new Position(100, 100);
+    const effect = new TelegraphEffect(position, 1500, renderingService, {
+      radius: 80,
+      color: new Color(255, 60, 60),
+      label: "妨害",
+    });
+    const context = createMockContext();
+
+    effect.render(context, 16.67);
+
+    expect(renderingService.renderCircle).toHaveBeenCalledWith(
+      context,
+      position,
+      80,
+      expect.any(Object),
+      expect.any(Object),
+      2
+    );
+    expect(renderingService.renderText).toHaveBeenCalledWith(
+      context,
+      "⚠ 妨害",
+      expect.any(Object),
+      expect.any(Object)
+    );
+  });
+
+  it("should not render label when omitted", () => {
+    const renderingService = createMockRenderingService();
+    const effect = new TelegraphEffect(new Position(0, 0), 1500, renderingService, {
+      radius: 40,
+      color: new Color(255, 60, 60),
+    });
+
+    effect.render(createMockContext(), 16.67);
+
+    expect(renderingService.renderText).not.toHaveBeenCalled();
+  });
+
+  it("should not render after stopped", () => {
+    const renderingService = createMockRenderingService();
+    const effect = new TelegraphEffect(new Position(0, 0), 1500, renderingService, {
+      radius: 40,
+      color: new Color(255, 60, 60),
+    });
+
+    effect.stop();
+    effect.render(createMockContext(), 16.67);
+
+    expect(renderingService.renderCircle).not.toHaveBeenCalled();
+  });
+});
@@ -1,5 +1,26 @@
 import { describe, expect, it } from "bun:test";
-import { JsonCardPoolRepository } from "../../../src/infrastructure/repositories/json-card-pool-repository.js";
+import cardsData from "../../../config/cards.json";
+import {
+  type CardsFileData,
+  JsonCardPoolRepository,
+} from "../../../src/infrastructure/repositories/json-card-pool-repository.js";
+
+const validCard = {
+  id: "test-001",
+  name: "テスト弓兵",
+  description: "テスト用の弓兵タワー",
+  cost: 2,
+  towerType: "ARCHER",
+  specialAbility: "NONE",
+  rarity: "common",
+  tags: ["basic"],
+};
+
+const createSource = (cards: unknown[]): CardsFileData => ({
+  version: "test",
+  lastUpdated: "2025-01-01T00:00:00Z",
+  cards,
+});
 
 describe("JsonCardPoolRepository", () => {
   describe("正常なケース", () => {
@@ -119,4 +140,112 @@ describe("JsonCardPoolRepository", () => {
       expect(averageCost).toBeLessThanOrEqual(7);
     });
   });
+
+  describe("cards.jsonの読み込み", () => {
+    it("cards.jsonのすべてのカードを読み込む", async () => {
+      const repository = new JsonCardPoolRepository();
+
+      const cardPool = await repository.load();
+
+      expect(cardPool.size).toBe(cardsData.cards.length);
+      expect(repository.version).toBe(cardsData.version);
+      expect(repository.lastUpdated).toBe(cardsData.lastUpdated);
+      expect(repository.validate()).toEqual([]);
+    });
+
+    it("レアリティとタグがカードに反映される", async () => {
+      const repository = new JsonCardPoolRepository();
+
+      const cardPool = await repository.load();
+      const card = cardPool.getAllCards().find((c) => c.id === "archer-001");
+
+      expect(card?.rarity).toBe("common");
+      expect(card?.tags).toEqual(["basic", "early-game"]);
+    });
+  });
+
+  describe("検証", () => {
+    it("重複したIDを拒否する", async () => {
+      const repository = new JsonCardPoolRepository(createSource([validCard, validCard]));
+
+      expect(repository.validate()).toEqual([
+        "カード[1] (test-001): カードIDが重複しています: test-001",
+      ]);
+      await expect(repository.load()).rejects.toThrow("カードIDが重複しています");
+    });
+
+    it("未知のタワータイプと特殊能力を拒否する", () => {
+      const repository = new JsonCardPoolRepository(
+        createSource([{ ...validCard, towerType: "LASER", specialAbility: "TELEPORT" }])
+      );
+
+      expect(repository.validate()).toEqual([
+        "カード[0] (test-001): 無効なタワータイプです: LASER",
+        "カード[0] (test-001): 無効な特殊能力です: TELEPORT",
+      ]);
+    });
+
+    it("設定範囲外のコストを拒否する", () => {
+      const repository = new JsonCardPoolRepository(
+        createSource([
+          { ...validCard, id: "test-001", cost: 0 },
+          { ...validCard, id: "test-002", cost: 6 },
+        ]),
+        { min: 1, max: 5 }
+      );
+
+      expect(repository.validate()).toEqual([
+        "カード[0] (test-001): カードコストが範囲外です: 0（1〜5）",
+        "カード[1] (test-002): カードコストが範囲外です: 6（1〜5）",
+      ]);
+    });
+
+    it("towerStatsの範囲外の値・数値以外の値・未知の項目を拒否する", () => {
+      const repository = new JsonCardPoolRepository(
+        createSource([
+          { ...validCard, id: "test-001", towerStats: { damage: 20, critChance: 0.1 } },
+          {
+            ...validCard,
+            id: "test-002",
+            towerStats: { damage: -5, range: "100", critChance: 1.5, critMultipler: 2 },
+          },
+          { ...validCard, id: "test-003", towerStats: { attackSpeed: Number.NaN } },
+        ])
+      );
+
+      expect(repository.validate()).toEqual([
+        "カード[1] (test-002): towerStats.damage（攻撃力）は0以上の数値である必要があります: -5",
+        "カード[1] (test-002): towerStats.range（射程）は正の値の数値である必要があります: 100",
+        "カード[1] (test-002): towerStats.critChance（会心率）は0以上1以下の数値である必要があります: 1.5",
+        "カード[1] (test-002): towerStatsに未知の項目があります: critMultipler",
+        "カード[2] (test-003): towerStats.attackSpeed（攻撃間隔）は0以上の数値である必要があります: NaN",
+      ]);
+    });
+
+    it("すべての不正なカードのエラーをまとめて報告する", async () => {
+      const repository = new JsonCardPoolRepository(
+        createSource([
+          { ...validCard, id: "test-001", rarity: "mythic" },
+          validCard,
+          { ...validCard, id: "test-003" },
+          { ...validCard, id: "" },
+        ])
+      );
+
+      const errors = repository.validate();
+
+      expect(errors).toHaveLength(3);
+      expect(errors[0]).toBe("カード[0] (test-001): 無効なレアリティです: mythic");
+      expect(errors[1]).toBe("カード[1] (test-001): カードIDが重複しています: test-001");
+      expect(errors[2]).toBe("カード[3]: カードIDが指定されていません");
+      expect(await repository.isAvailable()).toBe(false);
+    });
+
+    it("カード数が不足している場合は利用不可", async () => {
+      const repository = new JsonCardPoolRepository(createSource([validCard]));
+
+      expect(repository.validate()).toEqual([]);
+      expect(await repository.isAvailable()).toBe(false);
+    });
+  });
 });
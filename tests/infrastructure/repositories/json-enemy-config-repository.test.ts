@@ -1,17 +1,37 @@
 import { describe, it, expect, beforeEach } from 'bun:test';
 import { JsonEnemyConfigRepository } from '../../../src/infrastructure/repositories/json-enemy-config-repository';
-import { EnemyType } from '../../../src/domain/value-objects/enemy-type';
+import type { EnemyTypeRegistry } from '../../../src/domain/value-objects/enemy-type-registry';
+import enemiesData from '../../../config/enemies.json';
+import wavesData from '../../../config/waves.json';
 
 describe('JsonEnemyConfigRepository', () => {
   let repository: JsonEnemyConfigRepository;
+  let enemyTypes: EnemyTypeRegistry;
 
   beforeEach(() => {
     repository = new JsonEnemyConfigRepository();
+    enemyTypes = repository.enemyTypes;
+  });
+
+  describe('enemyTypes', () => {
+    it('should build a separate registry for each repository', () => {
+      const other = new JsonEnemyConfigRepository();
+
+      expect(enemyTypes.getAll()).toHaveLength(12);
+      expect(other.enemyTypes).not.toBe(enemyTypes);
+      expect(other.enemyTypes.has(enemyTypes.get('BASIC'))).toBe(false);
+    });
+
+    it('should share its registry with the wave configuration', async () => {
+      const config = await repository.getWaveConfiguration();
+
+      expect(config.enemyTypes).toBe(enemyTypes);
+    });
   });
 
   describe('getEnemyTypeConfig', () => {
     it('should return config for BASIC enemy type', async () => {
-      const config = await repository.getEnemyTypeConfig(EnemyType.BASIC);
+      const config = await repository.getEnemyTypeConfig(enemyTypes.get('BASIC'));
       
       expect(config).toBeDefined();
       expect(config.displayName).toBe('基本敵');
@@ -22,7 +42,7 @@ describe('JsonEnemyConfigRepository', () => {
     });
 
     it('should return config for RANGED enemy type', async () => {
-      const config = await repository.getEnemyTypeConfig(EnemyType.RANGED);
+      const config = await repository.getEnemyTypeConfig(enemyTypes.get('RANGED'));
       
       expect(config).toBeDefined();
       expect(config.displayName).toBe('遠距離攻撃敵');
@@ -32,7 +52,7 @@ describe('JsonEnemyConfigRepository', () => {
     });
 
     it('should return config for FAST enemy type', async () => {
-      const config = await repository.getEnemyTypeConfig(EnemyType.FAST);
+      const config = await repository.getEnemyTypeConfig(enemyTypes.get('FAST'));
       
       expect(config).toBeDefined();
       expect(config.displayName).toBe('高速敵');
@@ -42,7 +62,7 @@ describe('JsonEnemyConfigRepository', () => {
     });
 
     it('should return config for ENHANCED enemy type', async () => {
-      const config = await repository.getEnemyTypeConfig(EnemyType.ENHANCED);
+      const config = await repository.getEnemyTypeConfig(enemyTypes.get('ENHANCED'));
       
       expect(config).toBeDefined();
       expect(config.displayName).toBe('強化敵');
@@ -52,7 +72,7 @@ describe('JsonEnemyConfigRepository', () => {
     });
 
     it('should return config for BOSS enemy type', async () => {
-      const config = await repository.getEnemyTypeConfig(EnemyType.BOSS);
+      const config = await repository.getEnemyTypeConfig(enemyTypes.get('BOSS'));
       
       expect(config).toBeDefined();
       expect(config.displayName).toBe('ボス敵');
@@ -62,16 +82,38 @@ describe('JsonEnemyConfigRepository', () => {
     });
   });
 
+  describe('config file', () => {
+    it('should include rank and score value from config', async () => {
+      const config = await repository.getEnemyTypeConfig(enemyTypes.get('BOSS'));
+
+      expect(config.rank).toBe('boss');
+      expect(config.scoreValue).toBe(100);
+      expect(config.imageUrl).toBe('/images/enemies/boss.png');
+    });
+
+    it('should fail fast on invalid config', () => {
+      const invalid = {
+        enemyTypes: {
+          BASIC: { ...enemiesData.enemyTypes.BASIC, displayName: '' },
+        },
+      };
+
+      expect(() => new JsonEnemyConfigRepository(invalid)).toThrow(
+        'BASIC: 表示名は空であってはいけません'
+      );
+    });
+  });
+
   describe('getAllEnemyTypeConfigs', () => {
     it('should return configs for all enemy types', async () => {
       const configs = await repository.getAllEnemyTypeConfigs();
       
-      expect(configs.size).toBe(5);
-      expect(configs.has(EnemyType.BASIC)).toBe(true);
-      expect(configs.has(EnemyType.RANGED)).toBe(true);
-      expect(configs.has(EnemyType.FAST)).toBe(true);
-      expect(configs.has(EnemyType.ENHANCED)).toBe(true);
-      expect(configs.has(EnemyType.BOSS)).toBe(true);
+      expect(configs.size).toBe(12);
+      expect(configs.has(enemyTypes.get('BASIC'))).toBe(true);
+      expect(configs.has(enemyTypes.get('RANGED'))).toBe(true);
+      expect(configs.has(enemyTypes.get('FAST'))).toBe(true);
+      expect(configs.has(enemyTypes.get('ENHANCED'))).toBe(true);
+      expect(configs.has(enemyTypes.get('BOSS'))).toBe(true);
     });
 
     it('should return valid configs for all types', async () => {
@@ -96,6 +138,37 @@ describe('JsonEnemyConfigRepository', () => {
       expect(config.enemyCountIncrement).toBe(10);
       expect(config.spawnInterval).toBe(1000);
     });
+
+    it('should include scripted waves from waves.json', async () => {
+      const config = await repository.getWaveConfiguration();
+
+      expect(config.getScriptedWave(1)?.name).toBe('偵察隊');
+      expect(config.getEnemyCountForWave(1)).toBe(6);
+    });
+
+    it('should load a custom wave file', async () => {
+      const waves = {
+        ...wavesData,
+        waveConfiguration: { ...wavesData.waveConfiguration, waveInterval: 15000, spawnInterval: 500 },
+        scriptedWaves: [],
+      };
+      const custom = new JsonEnemyConfigRepository(enemiesData, waves);
+
+      const config = await custom.getWaveConfiguration();
+      const settings = await custom.getGameSettings();
+
+      expect(config.getScriptedWave(1)).toBeNull();
+      expect(settings.waveInterval).toBe(15000);
+      expect(settings.enemySpawnInterval).toBe(500);
+    });
+
+    it('should fail fast on invalid wave file', () => {
+      const waves = { ...wavesData, scriptedWaves: [{ waveNumber: 1, groups: [] }] };
+
+      expect(() => new JsonEnemyConfigRepository(enemiesData, waves)).toThrow(
+        '波1: 敵グループが定義されていません'
+      );
+    });
   });
 
   describe('getGameSettings', () => {
@@ -144,41 +217,46 @@ describe('JsonEnemyConfigRepository', () => {
     it('should return distribution for early waves (1-5)', async () => {
       const distribution = await repository.getEnemyTypeDistribution(3);
       
-      expect(distribution.get(EnemyType.BASIC)).toBe(0.8);
-      expect(distribution.get(EnemyType.FAST)).toBe(0.2);
-      expect(distribution.has(EnemyType.RANGED)).toBe(false);
-      expect(distribution.has(EnemyType.ENHANCED)).toBe(false);
-      expect(distribution.has(EnemyType.BOSS)).toBe(false);
+      expect(distribution.get(enemyTypes.get('BASIC'))).toBe(0.8);
+      expect(distribution.get(enemyTypes.get('FAST'))).toBe(0.2);
+      expect(distribution.has(enemyTypes.get('RANGED'))).toBe(false);
+      expect(distribution.has(enemyTypes.get('ENHANCED'))).toBe(false);
+      expect(distribution.has(enemyTypes.get('BOSS'))).toBe(false);
     });
 
     it('should return distribution for mid waves (6-10)', async () => {
       const distribution = await repository.getEnemyTypeDistribution(8);
       
-      expect(distribution.get(EnemyType.BASIC)).toBe(0.6);
-      expect(distribution.get(EnemyType.RANGED)).toBe(0.2);
-      expect(distribution.get(EnemyType.FAST)).toBe(0.2);
-      expect(distribution.has(EnemyType.ENHANCED)).toBe(false);
-      expect(distribution.has(EnemyType.BOSS)).toBe(false);
+      expect(distribution.get(enemyTypes.get('BASIC'))).toBe(0.4);
+      expect(distribution.get(enemyTypes.get('RANGED'))).toBe(0.2);
+      expect(distribution.get(enemyTypes.get('FAST'))).toBe(0.2);
+      expect(distribution.get(enemyTypes.get('HEALER'))).toBe(0.1);
+      expect(distribution.get(enemyTypes.get('FLYER'))).toBe(0.1);
+      expect(distribution.has(enemyTypes.get('ENHANCED'))).toBe(false);
+      expect(distribution.has(enemyTypes.get('BOSS'))).toBe(false);
     });
 
     it('should return distribution for later waves (11-15)', async () => {
       const distribution = await repository.getEnemyTypeDistribution(13);
       
-      expect(distribution.get(EnemyType.BASIC)).toBe(0.4);
-      expect(distribution.get(EnemyType.RANGED)).toBe(0.3);
-      expect(distribution.get(EnemyType.FAST)).toBe(0.2);
-      expect(distribution.get(EnemyType.ENHANCED)).toBe(0.1);
-      expect(distribution.has(EnemyType.BOSS)).toBe(false);
+      expect(distribution.get(enemyTypes.get('BASIC'))).toBe(0.25);
+      expect(distribution.get(enemyTypes.get('RANGED'))).toBe(0.2);
+      expect(distribution.get(enemyTypes.get('FAST'))).toBe(0.15);
+      expect(distribution.get(enemyTypes.get('ENHANCED'))).toBe(0.1);
+      expect(distribution.get(enemyTypes.get('SHIELDED'))).toBe(0.1);
+      expect(distribution.get(enemyTypes.get('SHADOW'))).toBe(0.05);
+      expect(distribution.has(enemyTypes.get('BOSS'))).toBe(false);
     });
 
     it('should return distribution for high waves (16+)', async () => {
       const distribution = await repository.getEnemyTypeDistribution(20);
       
-      expect(distribution.get(EnemyType.BASIC)).toBe(0.3);
-      expect(distribution.get(EnemyType.RANGED)).toBe(0.2);
-      expect(distribution.get(EnemyType.FAST)).toBe(0.2);
-      expect(distribution.get(EnemyType.ENHANCED)).toBe(0.2);
-      expect(distribution.get(EnemyType.BOSS)).toBe(0.1);
+      expect(distribution.get(enemyTypes.get('BASIC'))).toBe(0.2);
+      expect(distribution.get(enemyTypes.get('RANGED'))).toBe(0.15);
+      expect(distribution.get(enemyTypes.get('FAST'))).toBe(0.1);
+      expect(distribution.get(enemyTypes.get('ENHANCED'))).toBe(0.15);
+      expect(distribution.get(enemyTypes.get('BOSS'))).toBe(0.1);
+      expect(distribution.get(enemyTypes.get('SPLITTER'))).toBe(0.05);
     });
   });
 
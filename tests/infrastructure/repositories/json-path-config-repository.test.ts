@@ -1,6 +1,9 @@
-import { describe, it, expect, beforeEach } from 'bun:test';
-import { JsonPathConfigRepository } from '../../../src/infrastructure/repositories/json-path-config-repository';
+import { describe, it, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { JsonPathConfigRepository, type PathsFileData } from '../../../src/infrastructure/repositories/json-path-config-repository';
 import { Position } from '../../../src/domain/value-objects/position';
+import { Rectangle } from '../../../src/domain/value-objects/rectangle';
+import { TileType } from '../../../src/domain/value-objects/tile-type';
+import pathsData from '../../../config/paths.json';
 
 describe('JsonPathConfigRepository', () => {
   let repository: JsonPathConfigRepository;
@@ -34,8 +37,8 @@ describe('JsonPathConfigRepository', () => {
       const path = await repository.getPathById('path_1');
       
       expect(path).toBeDefined();
-      expect(path!.spawnPoint.equals(new Position(0, 200))).toBe(true);
-      expect(path!.basePoint.equals(new Position(800, 400))).toBe(true);
+      expect(path!.spawnPoint.equals(new Position(0, 120))).toBe(true);
+      expect(path!.basePoint.equals(new Position(800, 270))).toBe(true);
     });
 
     it('should return null for invalid ID', async () => {
@@ -118,9 +121,9 @@ describe('JsonPathConfigRepository', () => {
       const spawnPoints = await repository.getSpawnPoints();
       
       expect(spawnPoints.length).toBe(3);
-      expect(spawnPoints.some(p => p.equals(new Position(0, 200)))).toBe(true);
-      expect(spawnPoints.some(p => p.equals(new Position(0, 600)))).toBe(true);
-      expect(spawnPoints.some(p => p.equals(new Position(0, 400)))).toBe(true);
+      expect(spawnPoints.some(p => p.equals(new Position(0, 120)))).toBe(true);
+      expect(spawnPoints.some(p => p.equals(new Position(0, 440)))).toBe(true);
+      expect(spawnPoints.some(p => p.equals(new Position(0, 280)))).toBe(true);
     });
 
     it('should return unique spawn points', async () => {
@@ -136,7 +139,7 @@ describe('JsonPathConfigRepository', () => {
       const basePoints = await repository.getBasePoints();
       
       expect(basePoints.length).toBe(1); // すべてのパスが同じ基地点を使用
-      expect(basePoints[0].equals(new Position(800, 400))).toBe(true);
+      expect(basePoints[0].equals(new Position(800, 270))).toBe(true);
     });
   });
 
@@ -285,4 +288,207 @@ describe('JsonPathConfigRepository', () => {
       expect(optimizedPoints[optimizedPoints.length - 1].equals(pathPoints[pathPoints.length - 1])).toBe(true);
     });
   });
-});
\ No newline at end of file
+
+  describe('maps', () => {
+    it('should load all maps from config', async () => {
+      const maps = await repository.getAllMaps();
+
+      expect(maps.map(map => map.id)).toEqual(['crossroads', 'twin_valley', 'central']);
+    });
+
+    it('should build lanes with spawn weights from config', async () => {
+      const map = await repository.getMapById('crossroads');
+
+      expect(map?.lanes.map(lane => lane.id)).toEqual(['path_1', 'path_2', 'path_3']);
+      expect(map?.lanes.map(lane => lane.spawnWeight)).toEqual([2, 1, 1]);
+      expect(map?.getLane('path_1')?.name).toBe('北側パス');
+      expect(map?.getLane('path_1')?.path.spawnPoint.equals(new Position(0, 120))).toBe(true);
+    });
+
+    it('should return the default map', async () => {
+      const map = await repository.getDefaultMap();
+
+      expect(map.id).toBe('crossroads');
+    });
+
+    it('should return null for unknown map', async () => {
+      expect(await repository.getMapById('unknown')).toBeNull();
+    });
+
+    it('should keep every path inside the 800x600 canvas play field', async () => {
+      const paths = await repository.getAllPaths();
+
+      for (const path of paths) {
+        for (const point of path.pathPoints) {
+          expect(point.x).toBeGreaterThanOrEqual(0);
+          expect(point.x).toBeLessThanOrEqual(800);
+          expect(point.y).toBeGreaterThanOrEqual(60);
+          expect(point.y).toBeLessThanOrEqual(480);
+        }
+      }
+    });
+
+    it('should reject maps referencing unknown paths', () => {
+      const source = {
+        ...pathsData,
+        maps: [{ id: 'broken', name: '壊れたマップ', description: '', lanes: [{ pathId: 'missing', spawnWeight: 1 }] }],
+        defaultMapId: 'broken',
+      };
+
+      expect(() => new JsonPathConfigRepository(source)).toThrow('broken: 未定義のパスです: missing');
+    });
+
+    it('should reject non-positive spawn weights', () => {
+      const source = {
+        ...pathsData,
+        maps: [{ id: 'zero', name: 'ゼロ', description: '', lanes: [{ pathId: 'path_1', spawnWeight: 0 }] }],
+        defaultMapId: 'zero',
+      };
+
+      expect(() => new JsonPathConfigRepository(source)).toThrow('出現比重は正の値である必要があります');
+    });
+
+    it('should load terrain grids that keep obstacles off the lanes', async () => {
+      const maps = await repository.getAllMaps();
+
+      for (const map of maps) {
+        const terrain = map.terrain;
+        expect(terrain).not.toBeNull();
+        if (!terrain) continue;
+
+        expect(terrain.bounds.equals(new Rectangle(0, 60, 800, 400))).toBe(true);
+        const obstacles = terrain.getCells(TileType.ROCK, TileType.WATER);
+        expect(obstacles.length).toBeGreaterThan(0);
+        for (const cell of obstacles) {
+          const center = terrain.getCellCenter(cell);
+          for (const path of map.paths) {
+            expect(path.distanceToPoint(center)).toBeGreaterThanOrEqual(31);
+          }
+        }
+      }
+    });
+
+    it('should reject unknown tile symbols', () => {
+      const source = {
+        ...pathsData,
+        maps: [
+          {
+            id: 'rocky',
+            name: '岩場',
+            description: '',
+            lanes: [{ pathId: 'path_1', spawnWeight: 1 }],
+            grid: { tileSize: 40, origin: { x: 0, y: 60 }, rows: ['..?.'] },
+          },
+        ],
+        defaultMapId: 'rocky',
+      };
+
+      expect(() => new JsonPathConfigRepository(source)).toThrow('rocky: 不明なタイル記号です: ?（1行 3列）');
+    });
+
+    it('should reject a missing default map', () => {
+      const source = { ...pathsData, defaultMapId: 'nowhere' };
+
+      expect(() => new JsonPathConfigRepository(source)).toThrow('既定のマップが見つかりません: nowhere');
+    });
+  });
+
+  describe('path validation', () => {
+    type PathData = PathsFileData['movementPaths'][number];
+    const withPath = (path: Partial<PathData>): PathsFileData => ({
+      ...pathsData,
+      movementPaths: [...pathsData.movementPaths, { ...(pathsData.movementPaths[0] as PathData), id: 'path_new', ...path }],
+    });
+
+    it('should reject duplicate path ids', () => {
+      expect(() => new JsonPathConfigRepository(withPath({ id: 'path_1' }))).toThrow('パスIDが重複しています: path_1');
+    });
+
+    it('should reject unknown difficulties', () => {
+      expect(() => new JsonPathConfigRepository(withPath({ difficulty: 'NIGHTMARE' }))).toThrow(
+        'path_new: 不明な難易度です: NIGHTMARE'
+      );
+    });
+
+    it('should reject paths without distinct spawn and base points', () => {
+      expect(() => new JsonPathConfigRepository(withPath({ pathPoints: [{ x: 0, y: 100 }] }))).toThrow(
+        'path_new: パスには2つ以上の地点が必要です'
+      );
+      expect(
+        () => new JsonPathConfigRepository(withPath({ pathPoints: [{ x: 0, y: 100 }, { x: 50, y: 50 }, { x: 0, y: 100 }] }))
+      ).toThrow('path_new: 生成地点と基地地点が同じです');
+    });
+
+    it('should reject points whose coordinates are not finite numbers', () => {
+      const pathPoints = [{ x: 0, y: 100 }, { x: '50' as unknown as number, y: 50 }, { x: 800, y: Number.NaN }];
+
+      expect(() => new JsonPathConfigRepository(withPath({ pathPoints }))).toThrow(
+        'path_new: 地点2の座標が有限の数値ではありません'
+      );
+    });
+  });
+
+  describe('export and save', () => {
+    afterEach(() => {
+      spyOn(globalThis, 'fetch').mockRestore();
+    });
+
+    it('should export the paths.json schema including custom paths', async () => {
+      await repository.addCustomPath('custom', 'カスタム', [new Position(0, 100), new Position(800, 100)], 'EASY');
+
+      const data = await repository.exportFileData();
+
+      expect(data.defaultMapId).toBe(pathsData.defaultMapId);
+      expect(data.maps).toEqual(pathsData.maps);
+      expect(data.movementPaths.slice(0, pathsData.movementPaths.length)).toEqual(pathsData.movementPaths);
+      expect(data.movementPaths.at(-1)).toEqual({
+        id: 'custom',
+        name: 'カスタム',
+        description: 'カスタムパス: カスタム',
+        difficulty: 'EASY',
+        spawnPoint: { x: 0, y: 100 },
+        basePoint: { x: 800, y: 100 },
+        pathPoints: [
+          { x: 0, y: 100 },
+          { x: 800, y: 100 },
+        ],
+      });
+      expect(() => new JsonPathConfigRepository(data)).not.toThrow();
+    });
+
+    it('should drop fields outside the paths.json schema from the exported data', async () => {
+      const source = {
+        ...pathsData,
+        movementPaths: pathsData.movementPaths.map((path) => ({ ...path, extra: true })),
+        maps: pathsData.maps.map((map) => ({
+          ...map,
+          extra: true,
+          lanes: map.lanes.map((lane) => ({ ...lane, extra: true })),
+        })),
+      } as PathsFileData;
+
+      const data = await new JsonPathConfigRepository(source).exportFileData();
+
+      expect(data.movementPaths).toEqual(pathsData.movementPaths);
+      expect(data.maps).toEqual(pathsData.maps);
+    });
+
+    it('should post the exported data to the save endpoint', async () => {
+      const fetchSpy = spyOn(globalThis, 'fetch').mockResolvedValue(new Response('{}', { status: 200 }));
+
+      await repository.saveToFiles();
+
+      expect(fetchSpy).toHaveBeenCalledTimes(1);
+      const [endpoint, init] = fetchSpy.mock.calls[0] ?? [];
+      expect(endpoint).toBe('/api/paths');
+      expect(init?.method).toBe('POST');
+      expect(JSON.parse(String(init?.body))).toEqual(await repository.exportFileData());
+    });
+
+    it('should report errors returned by the save endpoint', async () => {
+      spyOn(globalThis, 'fetch').mockResolvedValue(new Response('invalid', { status: 400 }));
+
+      await expect(repository.saveToFiles()).rejects.toThrow('パス設定の保存に失敗しました (400): invalid');
+    });
+  });
+});
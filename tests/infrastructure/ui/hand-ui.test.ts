@@ -67,6 +67,17 @@ describe("HandUI", () => {
     expect(handUI.maxMana).toBe(10);
   });
 
+  it("should update deck counts", () => {
+    const bounds = new Rectangle(0, 500, 800, 100);
+    const renderingService = createMockRenderingService();
+    const handUI = new HandUI(bounds, renderingService);
+
+    handUI.updateDeckCounts(18, 6);
+
+    expect(handUI.drawPileCount).toBe(18);
+    expect(handUI.discardPileCount).toBe(6);
+  });
+
   it("should select card by index", () => {
     const bounds = new Rectangle(0, 500, 800, 100);
     const renderingService = createMockRenderingService();
@@ -91,6 +91,41 @@ describe("HeaderUI", () => {
     );
   });
 
+  it("should render boss bar only during a boss encounter", () => {
+    const bounds = new Rectangle(0, 0, 800, 60);
+    const renderingService = createMockRenderingService();
+    const headerUI = new HeaderUI(bounds, renderingService);
+    const context = createMockContext();
+
+    headerUI.updateBoss({
+      name: "鉄甲将軍",
+      phaseName: "進軍",
+      health: 750,
+      maxHealth: 1500,
+      shield: 0,
+    });
+    headerUI.render(context, 16.67);
+
+    expect(renderingService.renderProgressBar).toHaveBeenCalledWith(
+      context,
+      0.5,
+      headerUI.getLayout().bossBarBounds,
+      expect.any(Object)
+    );
+    expect(renderingService.renderText).toHaveBeenCalledWith(
+      context,
+      "鉄甲将軍［進軍］ 750/1500",
+      expect.any(Object),
+      expect.any(Object)
+    );
+
+    headerUI.updateBoss(null);
+    headerUI.render(context, 16.67);
+
+    expect(headerUI.boss).toBeNull();
+    expect(renderingService.renderProgressBar).toHaveBeenCalledTimes(1);
+  });
+
   it("should format timer correctly", () => {
     const bounds = new Rectangle(0, 0, 800, 60);
     const renderingService = createMockRenderingService();
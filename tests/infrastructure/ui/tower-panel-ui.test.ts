@@ -0,0 +1,116 @@
+import { describe, expect, it, mock } from "bun:test";
+import type { RenderingService } from "../../../src/domain/services/rendering-service";
+import { Position } from "../../../src/domain/value-objects/position";
+import { Rectangle } from "../../../src/domain/value-objects/rectangle";
+import { TargetingStrategy } from "../../../src/domain/value-objects/targeting-strategy";
+import { TowerPanelUI } from "../../../src/infrastructure/ui/tower-panel-ui";
+
+describe("TowerPanelUI", () => {
+  const createMockRenderingService = (): RenderingService => {
+    const renderingService: Partial<RenderingService> = {
+      renderText: mock(() => undefined),
+      renderRectangle: mock(() => undefined),
+      renderProgressBar: mock(() => undefined),
+      renderHealthBar: mock(() => undefined),
+      renderCircle: mock(() => undefined),
+    };
+    return renderingService as RenderingService;
+  };
+
+  const createState = () => ({
+    towerId: "tower-1",
+    name: "弓兵タワー",
+    level: 2,
+    maxLevel: 3,
+    damage: 31,
+    range: 110,
+    attackSpeed: 900,
+    specialAbility: "なし",
+    targetingStrategy: TargetingStrategy.FIRST,
+    upgradeCost: 5,
+    sellRefund: 3,
+    health: 150,
+    maxHealth: 150,
+    repairCost: null,
+  });
+
+  const bounds = new Rectangle(600, 70, 180, 288);
+
+  it("should be hidden initially", () => {
+    const panel = new TowerPanelUI(bounds, createMockRenderingService());
+
+    expect(panel.isVisible).toBe(false);
+    expect(panel.containsPoint(new Position(650, 100))).toBe(false);
+  });
+
+  it("should show and hide tower state", () => {
+    const panel = new TowerPanelUI(bounds, createMockRenderingService());
+    const state = createState();
+
+    panel.show(state);
+    expect(panel.isVisible).toBe(true);
+    expect(panel.state).toBe(state);
+
+    panel.hide();
+    expect(panel.isVisible).toBe(false);
+  });
+
+  it("should return strategy under the button", () => {
+    const panel = new TowerPanelUI(bounds, createMockRenderingService());
+    panel.show(createState());
+
+    const strategies = TargetingStrategy.getAllStrategies();
+    strategies.forEach((strategy, index) => {
+      const button = panel.getStrategyButtonBounds(index);
+      const center = new Position(button.x + button.width / 2, button.y + button.height / 2);
+
+      expect(panel.getStrategyAt(center)).toBe(strategy);
+    });
+  });
+
+  it("should return null outside of buttons", () => {
+    const panel = new TowerPanelUI(bounds, createMockRenderingService());
+    panel.show(createState());
+
+    expect(panel.getStrategyAt(new Position(610, 80))).toBeNull();
+    expect(panel.getStrategyAt(new Position(10, 10))).toBeNull();
+  });
+
+  it("should render only when visible", () => {
+    const renderingService = createMockRenderingService();
+    const panel = new TowerPanelUI(bounds, renderingService);
+    const context = {} as CanvasRenderingContext2D;
+
+    panel.render(context, 16);
+    expect(renderingService.renderRectangle).not.toHaveBeenCalled();
+
+    panel.show(createState());
+    panel.render(context, 16);
+    expect(renderingService.renderRectangle).toHaveBeenCalled();
+    expect(renderingService.renderText).toHaveBeenCalled();
+  });
+
+  it("should render crit chance only for towers that can crit", () => {
+    const renderingService = createMockRenderingService();
+    const panel = new TowerPanelUI(bounds, renderingService);
+    const context = {} as CanvasRenderingContext2D;
+
+    panel.show(createState());
+    panel.render(context, 16);
+    expect(renderingService.renderText).toHaveBeenCalledWith(
+      context,
+      "攻撃間隔 900ms",
+      expect.any(Position),
+      expect.any(Object)
+    );
+
+    panel.show({ ...createState(), critChance: 0.15 });
+    panel.render(context, 16);
+    expect(renderingService.renderText).toHaveBeenCalledWith(
+      context,
+      "攻撃間隔 900ms  会心 15%",
+      expect.any(Position),
+      expect.any(Object)
+    );
+  });
+});
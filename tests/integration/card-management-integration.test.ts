@@ -3,6 +3,7 @@ import { PlayCardUseCase } from "../../src/application/use-cases/play-card-use-c
 import { StartGameUseCase } from "../../src/application/use-cases/start-game-use-case.js";
 import { UpdateCardLibraryUseCase } from "../../src/application/use-cases/update-card-library-use-case.js";
 import { JsonCardPoolRepository } from "../../src/infrastructure/repositories/json-card-pool-repository.js";
+import { JsonEnemyConfigRepository } from "../../src/infrastructure/repositories/json-enemy-config-repository.js";
 import { LocalStorageCardLibraryRepository } from "../../src/infrastructure/repositories/local-storage-card-library-repository.js";
 
 // LocalStorageのモック
@@ -27,6 +28,7 @@ const mockLocalStorage = {
 describe("カード管理統合テスト", () => {
   let cardPoolRepository: JsonCardPoolRepository;
   let cardLibraryRepository: LocalStorageCardLibraryRepository;
+  let enemyConfigRepository: JsonEnemyConfigRepository;
   let startGameUseCase: StartGameUseCase;
   let playCardUseCase: PlayCardUseCase;
   let updateLibraryUseCase: UpdateCardLibraryUseCase;
@@ -36,7 +38,12 @@ describe("カード管理統合テスト", () => {
 
     cardPoolRepository = new JsonCardPoolRepository();
     cardLibraryRepository = new LocalStorageCardLibraryRepository();
-    startGameUseCase = new StartGameUseCase(cardPoolRepository, cardLibraryRepository);
+    enemyConfigRepository = new JsonEnemyConfigRepository();
+    startGameUseCase = new StartGameUseCase(
+      cardPoolRepository,
+      cardLibraryRepository,
+      enemyConfigRepository
+    );
     playCardUseCase = new PlayCardUseCase(cardLibraryRepository);
     updateLibraryUseCase = new UpdateCardLibraryUseCase(cardLibraryRepository);
   });
@@ -174,7 +181,8 @@ describe("カード管理統合テスト", () => {
 
       const failingStartGameUseCase = new StartGameUseCase(
         failingCardPoolRepository,
-        cardLibraryRepository
+        cardLibraryRepository,
+        enemyConfigRepository
       );
 
       const result = await failingStartGameUseCase.execute("error-test");
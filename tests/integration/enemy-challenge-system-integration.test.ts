@@ -12,6 +12,10 @@ import { UpdateEnemiesUseCase } from "../../src/application/use-cases/update-ene
 import { ProcessEnemyDamageUseCase } from "../../src/application/use-cases/process-enemy-damage-use-case";
 import { JsonEnemyConfigRepository } from "../../src/infrastructure/repositories/json-enemy-config-repository";
 import { JsonPathConfigRepository } from "../../src/infrastructure/repositories/json-path-config-repository";
+import enemiesData from "../../config/enemies.json";
+import { EnemyTypeRegistry } from "../../src/domain/value-objects/enemy-type-registry";
+
+const enemyTypes = EnemyTypeRegistry.load(enemiesData);
 
 describe("Enemy Challenge System Integration", () => {
   let waveScheduler: WaveScheduler;
@@ -47,12 +51,12 @@ describe("Enemy Challenge System Integration", () => {
     movementPath = new MovementPath(pathPoints);
 
     // 波設定とスケジューラーの初期化
-    const waveConfiguration = new WaveConfiguration(5, 3, 500); // 小さい値でテスト高速化
+    const waveConfiguration = new WaveConfiguration(enemyTypes, 5, 3, 500); // 小さい値でテスト高速化
     const gameStartTime = new Date();
     waveScheduler = new WaveScheduler(waveConfiguration, gameStartTime);
 
     // ドメインサービスの初期化
-    enemySpawningService = new EnemySpawningService();
+    enemySpawningService = new EnemySpawningService(enemyTypes);
     enemyMovementService = new EnemyMovementService();
     baseAttackService = new BaseAttackService();
     enemyDamageService = new EnemyDamageService();
@@ -217,13 +221,9 @@ describe("Enemy Challenge System Integration", () => {
     it("should load enemy configurations correctly", async () => {
       const allConfigs = await enemyConfigRepository.getAllEnemyTypeConfigs();
 
-      expect(allConfigs.size).toBe(5);
-      expect(
-        allConfigs.has(require("../../src/domain/value-objects/enemy-type").EnemyType.BASIC)
-      ).toBe(true);
-      expect(
-        allConfigs.has(require("../../src/domain/value-objects/enemy-type").EnemyType.BOSS)
-      ).toBe(true);
+      expect(allConfigs.size).toBe(12);
+      expect(allConfigs.has(enemyConfigRepository.enemyTypes.get("BASIC"))).toBe(true);
+      expect(allConfigs.has(enemyConfigRepository.enemyTypes.get("BOSS"))).toBe(true);
     });
 
     it("should load path configurations correctly", async () => {
@@ -14,6 +14,12 @@ import { EndGameSessionUseCase } from "../../src/application/use-cases/end-game-
 import { GameEndConditionService } from "../../src/domain/services/game-end-condition-service.js";
 import { ScoreCalculationService } from "../../src/domain/services/score-calculation-service.js";
 import { InMemoryEventBus } from "../../src/infrastructure/events/in-memory-event-bus.js";
+import enemiesData from "../../config/enemies.json";
+import wavesData from "../../config/waves.json";
+import { EnemyTypeRegistry } from "../../src/domain/value-objects/enemy-type-registry.js";
+import { WaveConfiguration } from "../../src/domain/value-objects/wave-configuration.js";
+
+const waveConfiguration = WaveConfiguration.load(wavesData, EnemyTypeRegistry.load(enemiesData));
 
 // モックタイムプロバイダー
 class MockTimeProvider {
@@ -84,6 +90,7 @@ describe("ゲームセッション管理統合テスト", () => {
   describe("完全なゲームフロー", () => {
     it("ゲーム開始から時間切れ終了まで", async () => {
       const gameSession = new GameSession("session-001", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       
       // イベント収集
       const events: { type: string; event: any }[] = [];
@@ -159,6 +166,7 @@ describe("ゲームセッション管理統合テスト", () => {
 
     it("ゲーム開始から基地破壊終了まで", async () => {
       const gameSession = new GameSession("session-002", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       
       // イベント収集
       const events: { type: string; event: any }[] = [];
@@ -213,6 +221,7 @@ describe("ゲームセッション管理統合テスト", () => {
 
     it("一時停止・再開を含むゲームフロー", async () => {
       const gameSession = new GameSession("session-003", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       
       // イベント収集
       const events: { type: string; event: any }[] = [];
@@ -273,6 +282,7 @@ describe("ゲームセッション管理統合テスト", () => {
   describe("複雑なゲームシナリオ", () => {
     it("カードプレイと敵撃破を組み合わせたシナリオ", async () => {
       const gameSession = new GameSession("session-004", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       
       // ゲーム開始
       await startGameUseCase.execute({
@@ -320,6 +330,7 @@ describe("ゲームセッション管理統合テスト", () => {
 
     it("大量の敵撃破とスコア計算", async () => {
       const gameSession = new GameSession("session-005", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       
       await startGameUseCase.execute({
         gameSession,
@@ -372,6 +383,7 @@ describe("ゲームセッション管理統合テスト", () => {
   describe("エラーハンドリング統合テスト", () => {
     it("無効な操作の連続でもシステムが安定している", async () => {
       const gameSession = new GameSession("session-006", cardPool, cardLibrary, 180, 100, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration);
       
       // ゲーム開始前の無効な操作
       let result = await updateGameUseCase.execute({
@@ -422,7 +434,8 @@ describe("ゲームセッション管理統合テスト", () => {
 
   describe("パフォーマンス統合テスト", () => {
     it("長時間のゲームセッションでもパフォーマンスが維持される", async () => {
-      const gameSession = new GameSession("session-007", cardPool, cardLibrary, 3600, 1000, mockTimeProvider); // 1時間、体力1000
+      const gameSession = new GameSession("session-007", cardPool, cardLibrary, 3600, 1000, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration); // 1時間、体力1000
       
       await startGameUseCase.execute({
         gameSession,
@@ -462,7 +475,8 @@ describe("ゲームセッション管理統合テスト", () => {
 
   describe("イベント統合テスト", () => {
     it("すべてのイベントが正しい順序で発行される", async () => {
-      const gameSession = new GameSession("session-008", cardPool, cardLibrary, 60, 50, mockTimeProvider); // 短時間、低体力
+      const gameSession = new GameSession("session-008", cardPool, cardLibrary, 60, 50, mockTimeProvider);
+      gameSession.setWaveConfiguration(waveConfiguration); // 短時間、低体力
       
       const events: { type: string; timestamp: number }[] = [];
       const eventTypes = [